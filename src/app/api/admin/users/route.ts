@@ -59,7 +59,34 @@ async function getAdminAuth(authHeader: string | null): Promise<{ isAdmin: boole
     };
 }
 
-// GET - List all users (admin only)
+// A role has to be one of the admin's own organization
+async function isOrgRole(supabaseAdmin: SupabaseClient, roleId: string, orgId: string | null): Promise<boolean> {
+    const { data } = await supabaseAdmin
+        .from('custom_roles')
+        .select('id')
+        .eq('id', roleId)
+        .eq('org_id', orgId)
+        .maybeSingle();
+    return !!data;
+}
+
+// The target of an update or deletion has to be in the admin's own organization
+async function getOrgMember(
+    supabaseAdmin: SupabaseClient,
+    userId: string,
+    orgId: string | null
+): Promise<{ id: string; is_super_admin: boolean | null } | null> {
+    if (!orgId) return null;
+    const { data } = await supabaseAdmin
+        .from('profiles')
+        .select('id, is_super_admin')
+        .eq('id', userId)
+        .eq('org_id', orgId)
+        .maybeSingle();
+    return data;
+}
+
+// GET - List the users of the admin's organization (admin only)
 export async function GET(request: NextRequest) {
     const supabaseAdmin = getSupabaseAdmin();
     if (!supabaseAdmin) {
@@ -73,6 +100,10 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
     }
 
+    if (!authResult.orgId) {
+        return NextResponse.json({ users: [] });
+    }
+
     const { data: users, error } = await supabaseAdmin.auth.admin.listUsers();
 
     if (error) {
@@ -82,16 +113,20 @@ export async function GET(request: NextRequest) {
     // Get profiles with permissions
     const { data: profiles } = await supabaseAdmin
         .from('profiles')
-        .select('*');
+        .select('*')
+        .eq('org_id', authResult.orgId);
 
     const profileMap = new Map(profiles?.map(p => [p.id, p]) || []);
 
-    const enrichedUsers = users.users.map(user => ({
+    // Accounts without a profile in this organization belong to someone else
+    const enrichedUsers = users.users.filter(user => profileMap.has(user.id)).map(user => ({
         id: user.id,
         email: user.email,
         displayName: profileMap.get(user.id)?.display_name || user.email?.split('@')[0],
         role: profileMap.get(user.id)?.role || 'user',
         permissions: profileMap.get(user.id)?.permissions || {},
+        customRoleId: profileMap.get(user.id)?.custom_role_id || null,
+        permissionOverrides: profileMap.get(user.id)?.permission_overrides || {},
         passwordResetRequired: profileMap.get(user.id)?.password_reset_required || false,
         isSuperAdmin: profileMap.get(user.id)?.is_super_admin || false,
         createdAt: user.created_at,
@@ -117,7 +152,11 @@ export async function POST(request: NextRequest) {
 
     try {
         const body = await request.json();
-        const { mode = 'create', username, email, displayName, password, role, permissions } = body;
+        const { mode = 'create', username, email, displayName, password, role, permissions, customRoleId } = body;
+
+        if (customRoleId && !(await isOrgRole(supabaseAdmin, customRoleId, authResult.orgId))) {
+            return NextResponse.json({ error: 'Unknown role' }, { status: 400 });
+        }
 
         // Common permission defaults
         const defaultPermissions = {
@@ -171,6 +210,7 @@ export async function POST(request: NextRequest) {
                     password_reset_required: false,
                     org_id: authResult.orgId,
                     permissions: permissions || defaultPermissions,
+                    custom_role_id: customRoleId || null,
                 };
 
                 await supabaseAdmin
@@ -241,6 +281,7 @@ export async function POST(request: NextRequest) {
                     password_reset_required: true,
                     org_id: authResult.orgId,
                     permissions: permissions || defaultPermissions,
+                    custom_role_id: customRoleId || null,
                 };
 
                 await supabaseAdmin
@@ -286,14 +327,13 @@ export async function DELETE(request: NextRequest) {
         return NextResponse.json({ error: 'User ID required' }, { status: 400 });
     }
 
-    // Prevent deleting super admin
-    const { data: profile } = await supabaseAdmin
-        .from('profiles')
-        .select('is_super_admin')
-        .eq('id', userId)
-        .single();
+    const profile = await getOrgMember(supabaseAdmin, userId, authResult.orgId);
+    if (!profile) {
+        return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
 
-    if (profile?.is_super_admin) {
+    // Prevent deleting super admin
+    if (profile.is_super_admin) {
         return NextResponse.json({ error: 'Cannot delete super admin' }, { status: 403 });
     }
 
@@ -322,12 +362,16 @@ export async function PATCH(request: NextRequest) {
 
     try {
         const body = await request.json();
-        const { userId, password, role, permissions, displayName } = body;
+        const { userId, password, role, permissions, displayName, customRoleId } = body;
 
         if (!userId) {
             return NextResponse.json({ error: 'User ID required' }, { status: 400 });
         }
 
+        if (!(await getOrgMember(supabaseAdmin, userId, authResult.orgId))) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
         // Update password if provided
         if (password) {
             const passwordValidation = validatePassword(password);
@@ -349,12 +393,22 @@ export async function PATCH(request: NextRequest) {
         if (role) updates.role = role;
         if (permissions) updates.permissions = permissions;
         if (displayName) updates.display_name = displayName;
+        // null takes the user out of their role; the permissions they have stay
+        if (customRoleId !== undefined) {
+            if (customRoleId && !(await isOrgRole(supabaseAdmin, customRoleId, authResult.orgId))) {
+                return NextResponse.json({ error: 'Unknown role' }, { status: 400 });
+            }
+            updates.custom_role_id = customRoleId || null;
+        }
 
         if (Object.keys(updates).length > 0) {
-            await supabaseAdmin
+            const { error: updateError } = await supabaseAdmin
                 .from('profiles')
                 .update(updates)
                 .eq('id', userId);
+            if (updateError) {
+                return NextResponse.json({ error: updateError.message }, { status: 500 });
+            }
         }
 
         return NextResponse.json({ success: true });
@@ -0,0 +1,102 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { buildExportWorkbook, fetchExportArchive, parseExportFilters, type ExportAccess } from '@/lib/data-export';
+import { writeXlsx } from '@/lib/spreadsheet';
+import { fetchPermissionScopes, getScopedPermissionLevel, hasFeaturePermission } from '@/lib/permissions';
+
+// Create admin client lazily to avoid build-time errors
+function getSupabaseAdmin(): SupabaseClient | null {
+    // Use SUPABASE_URL for server-side (Docker internal) or fallback to public URL
+    const url = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !key) {
+        console.warn('Missing Supabase environment variables');
+        return null;
+    }
+
+    return createClient(url, key, {
+        auth: { autoRefreshToken: false, persistSession: false }
+    });
+}
+
+// GET - Export the caller's org data as an XLSX workbook or a JSON archive
+// Query: format=xlsx|json, plus the filters in ExportFilters (search, instrumentType, location, from, to)
+export async function GET(request: NextRequest) {
+    const supabaseAdmin = getSupabaseAdmin();
+    if (!supabaseAdmin) {
+        return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+    }
+
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user } } = await supabaseAdmin.auth.getUser(token);
+    if (!user) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabaseAdmin
+        .from('profiles')
+        .select('org_id, role, permissions')
+        .eq('id', user.id)
+        .single();
+    if (!profile?.org_id) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+    }
+
+    // Each section needs what would show it in the app: the register and its setup need
+    // instruments, results and schedule history need maintenance_history. Scoped grants
+    // cover the instruments in their location subtree or of their type.
+    const scopes = await fetchPermissionScopes(user.id, supabaseAdmin);
+    const canView: ExportAccess = (feature, instrument) =>
+        hasFeaturePermission(profile, feature, 'view')
+        || getScopedPermissionLevel(scopes, feature, instrument) !== 'hidden';
+    const hasAnyAccess = (['instruments', 'maintenance_history'] as const).some(feature =>
+        hasFeaturePermission(profile, feature, 'view') || scopes.some(scope => scope.feature === feature)
+    );
+    if (!hasAnyAccess) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const exportFormat = params.get('format') || 'xlsx';
+    if (exportFormat !== 'xlsx' && exportFormat !== 'json') {
+        return NextResponse.json({ error: 'format must be xlsx or json' }, { status: 400 });
+    }
+
+    const filters = parseExportFilters(params);
+    const dateParam = [filters.from, filters.to].find(d => d && !/^\d{4}-\d{2}-\d{2}$/.test(d));
+    if (dateParam) {
+        return NextResponse.json({ error: `"${dateParam}" is not a yyyy-MM-dd date` }, { status: 400 });
+    }
+
+    try {
+        const archive = await fetchExportArchive(supabaseAdmin, profile.org_id, filters, canView);
+        const fileName = `maintenance-export-${format(new Date(), 'yyyy-MM-dd')}.${exportFormat}`;
+
+        if (exportFormat === 'json') {
+            return new NextResponse(JSON.stringify(archive, null, 2), {
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Content-Disposition': `attachment; filename="${fileName}"`,
+                },
+            });
+        }
+
+        const workbook = await writeXlsx(buildExportWorkbook(archive));
+        return new NextResponse(Buffer.from(workbook), {
+            headers: {
+                'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+                'Content-Disposition': `attachment; filename="${fileName}"`,
+            },
+        });
+    } catch (error: any) {
+        console.error('Error exporting data:', error);
+        return NextResponse.json({ error: error.message || 'Export failed' }, { status: 500 });
+    }
+}
@@ -0,0 +1,150 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { hasValidJobSecret } from '@/lib/job-auth';
+import { evaluateMeterTriggers, recordMeterReading } from '@/lib/meters';
+import { fetchPermissionScopes, getScopedPermissionLevel, hasFeaturePermission } from '@/lib/permissions';
+
+// Create admin client lazily to avoid build-time errors
+function getSupabaseAdmin(): SupabaseClient | null {
+    // Use SUPABASE_URL for server-side (Docker internal) or fallback to public URL
+    const url = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !key) {
+        console.warn('Missing Supabase environment variables');
+        return null;
+    }
+
+    return createClient(url, key, {
+        auth: { autoRefreshToken: false, persistSession: false }
+    });
+}
+
+type ReadingInstrument = { location: string | null; instrumentType: string | null };
+
+type ReadingAuth = {
+    authorized: boolean;
+    orgId: string | null;
+    canRecord: (instrument: ReadingInstrument) => boolean;
+};
+
+const UNAUTHORIZED: ReadingAuth = { authorized: false, orgId: null, canRecord: () => false };
+
+// Instrument integrations use the shared job secret and may post for any org;
+// a user's bearer token needs edit access to maintenance, globally or through a
+// scoped grant covering the meter's instrument, and is limited to their org.
+async function getReadingAuth(
+    request: NextRequest,
+    supabaseAdmin: SupabaseClient
+): Promise<ReadingAuth> {
+    if (hasValidJobSecret(request)) {
+        return { authorized: true, orgId: null, canRecord: () => true };
+    }
+
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) return UNAUTHORIZED;
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user } } = await supabaseAdmin.auth.getUser(token);
+    if (!user) return UNAUTHORIZED;
+
+    const { data: profile } = await supabaseAdmin
+        .from('profiles')
+        .select('role, org_id, permissions')
+        .eq('id', user.id)
+        .single();
+    if (!profile?.org_id) return UNAUTHORIZED;
+
+    if (hasFeaturePermission(profile, 'update_maintenance', 'edit')) {
+        return { authorized: true, orgId: profile.org_id, canRecord: () => true };
+    }
+
+    const scopes = (await fetchPermissionScopes(user.id, supabaseAdmin))
+        .filter(scope => scope.feature === 'update_maintenance' && scope.level === 'edit');
+    if (scopes.length === 0) return UNAUTHORIZED;
+    return {
+        authorized: true,
+        orgId: profile.org_id,
+        canRecord: instrument => getScopedPermissionLevel(scopes, 'update_maintenance', instrument) === 'edit',
+    };
+}
+
+// POST - Record a meter reading and raise any maintenance now due
+// Body: { meterId } or { eqpId, meter } (meter name), plus { value, recordedAt?, isReset?, notes? }
+export async function POST(request: NextRequest) {
+    const supabaseAdmin = getSupabaseAdmin();
+    if (!supabaseAdmin) {
+        return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+    }
+
+    const auth = await getReadingAuth(request, supabaseAdmin);
+    if (!auth.authorized) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+        return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const { meterId, eqpId, meter: meterName, value, recordedAt, isReset, notes } = body;
+    const numericValue = Number(value);
+    if (value === undefined || value === null || !Number.isFinite(numericValue) || numericValue < 0) {
+        return NextResponse.json({ error: 'value must be a number of zero or more' }, { status: 400 });
+    }
+
+    const recordedDate = recordedAt ? new Date(recordedAt) : new Date();
+    if (isNaN(recordedDate.getTime())) {
+        return NextResponse.json({ error: 'recordedAt must be an ISO date' }, { status: 400 });
+    }
+
+    let meterQuery = supabaseAdmin
+        .from('instrument_meters')
+        .select('id, instruments!inner(org_id, eqpId, location, instrumentType)')
+        .is('instruments.deleted_at', null);
+    if (meterId) {
+        meterQuery = meterQuery.eq('id', meterId);
+    } else if (eqpId && meterName) {
+        meterQuery = meterQuery.eq('name', meterName).eq('instruments.eqpId', eqpId);
+    } else {
+        return NextResponse.json({ error: 'Provide meterId, or eqpId and meter' }, { status: 400 });
+    }
+    if (auth.orgId) meterQuery = meterQuery.eq('instruments.org_id', auth.orgId);
+
+    const { data: meters, error: meterError } = await meterQuery;
+    if (meterError) {
+        console.error('Error looking up meter:', meterError);
+        return NextResponse.json({ error: meterError.message }, { status: 500 });
+    }
+    if (!meters || meters.length === 0) {
+        return NextResponse.json({ error: 'Meter not found' }, { status: 404 });
+    }
+    if (meters.length > 1) {
+        return NextResponse.json({ error: 'More than one meter matches; use meterId' }, { status: 400 });
+    }
+
+    const instrument = meters[0].instruments as ReadingInstrument | ReadingInstrument[];
+    if (!auth.canRecord(Array.isArray(instrument) ? instrument[0] : instrument)) {
+        return NextResponse.json({ error: 'You do not have edit access to this instrument' }, { status: 403 });
+    }
+
+    const result = await recordMeterReading(meters[0].id, numericValue, {
+        recordedAt: recordedDate,
+        isReset: !!isReset,
+        source: 'api',
+        notes: typeof notes === 'string' ? notes : null,
+    }, supabaseAdmin);
+
+    if (!result.success) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    try {
+        const triggers = await evaluateMeterTriggers(supabaseAdmin, { orgId: auth.orgId, meterIds: [meters[0].id] });
+        return NextResponse.json({ meterId: meters[0].id, currentValue: result.currentValue, triggered: triggers.triggered });
+    } catch (err: any) {
+        // The reading is stored; the scheduled trigger run will pick the threshold up
+        console.error('Meter trigger evaluation failed:', err);
+        return NextResponse.json({ meterId: meters[0].id, currentValue: result.currentValue, triggered: [], error: err?.message });
+    }
+}
@@ -0,0 +1,54 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobAuth } from '@/lib/job-auth';
+import { evaluateMeterTriggers } from '@/lib/meters';
+
+// Create admin client lazily to avoid build-time errors
+function getSupabaseAdmin(): SupabaseClient | null {
+    // Use SUPABASE_URL for server-side (Docker internal) or fallback to public URL
+    const url = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !key) {
+        console.warn('Missing Supabase environment variables');
+        return null;
+    }
+
+    return createClient(url, key, {
+        auth: { autoRefreshToken: false, persistSession: false }
+    });
+}
+
+async function runTriggers(request: NextRequest, dryRun: boolean) {
+    const supabaseAdmin = getSupabaseAdmin();
+    if (!supabaseAdmin) {
+        return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+    }
+
+    const auth = await getJobAuth(request, supabaseAdmin);
+    if (!auth.authorized) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    try {
+        const report = await evaluateMeterTriggers(supabaseAdmin, {
+            orgId: auth.orgId,
+            dryRun: dryRun || searchParams.get('dryRun') === 'true',
+        });
+        return NextResponse.json(report);
+    } catch (err: any) {
+        console.error('Meter trigger run failed:', err);
+        return NextResponse.json({ error: err?.message || 'Meter trigger run failed' }, { status: 500 });
+    }
+}
+
+// GET - Preview which meter thresholds have been crossed (always a dry run)
+export async function GET(request: NextRequest) {
+    return runTriggers(request, true);
+}
+
+// POST - Create due schedules for crossed meter thresholds (?dryRun=true to preview)
+export async function POST(request: NextRequest) {
+    return runTriggers(request, false);
+}
@@ -0,0 +1,123 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { hasFeaturePermission } from '@/lib/permissions';
+
+// Create admin client lazily to avoid build-time errors
+function getSupabaseAdmin(): SupabaseClient | null {
+    // Use SUPABASE_URL for server-side (Docker internal) or fallback to public URL
+    const url = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !key) {
+        console.warn('Missing Supabase environment variables');
+        return null;
+    }
+
+    return createClient(url, key, {
+        auth: { autoRefreshToken: false, persistSession: false }
+    });
+}
+
+// Signs the supervisor in on a throwaway client so their password is checked
+// by Supabase Auth without touching the performer's session
+async function verifySupervisor(email: string, password: string): Promise<string | null> {
+    const url = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+    if (!url || !anonKey) return null;
+
+    const authClient = createClient(url, anonKey, {
+        auth: { autoRefreshToken: false, persistSession: false }
+    });
+    const { data, error } = await authClient.auth.signInWithPassword({ email, password });
+    if (error || !data.user) return null;
+
+    await authClient.auth.signOut();
+    return data.user.id;
+}
+
+// POST - Let a supervisor authorize result entry by a user without a current qualification
+// Body: { scheduleId, supervisorEmail, supervisorPassword, reason }
+export async function POST(request: NextRequest) {
+    const supabaseAdmin = getSupabaseAdmin();
+    if (!supabaseAdmin) {
+        return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+    }
+
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user } } = await supabaseAdmin.auth.getUser(token);
+    if (!user) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+        return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const { scheduleId, supervisorEmail, supervisorPassword, reason } = body;
+    if (!scheduleId || !supervisorEmail || !supervisorPassword || !reason?.trim()) {
+        return NextResponse.json({ error: 'scheduleId, supervisor credentials and a reason are required' }, { status: 400 });
+    }
+
+    const { data: performer } = await supabaseAdmin
+        .from('profiles')
+        .select('org_id, role, permissions')
+        .eq('id', user.id)
+        .single();
+    if (!performer?.org_id || !hasFeaturePermission(performer, 'update_maintenance', 'edit')) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+    }
+
+    const supervisorId = await verifySupervisor(supervisorEmail, supervisorPassword);
+    if (!supervisorId) {
+        return NextResponse.json({ error: 'Supervisor email or password is incorrect' }, { status: 403 });
+    }
+    if (supervisorId === user.id) {
+        return NextResponse.json({ error: 'A different user must authorize the override' }, { status: 403 });
+    }
+
+    const { data: supervisor } = await supabaseAdmin
+        .from('profiles')
+        .select('role, org_id')
+        .eq('id', supervisorId)
+        .single();
+    const canAuthorize = supervisor?.role === 'admin' || supervisor?.role === 'supervisor';
+    if (!canAuthorize || supervisor.org_id !== performer.org_id) {
+        return NextResponse.json({ error: 'Only a supervisor or administrator of your organization can authorize an override' }, { status: 403 });
+    }
+
+    const { data: schedule } = await supabaseAdmin
+        .from('maintenanceSchedules')
+        .select('id, org_id, instruments(org_id)')
+        .eq('id', scheduleId)
+        .is('deleted_at', null)
+        .single();
+    const scheduleOrgId = schedule?.org_id || (schedule?.instruments as { org_id?: string } | null)?.org_id;
+    if (!schedule || scheduleOrgId !== performer.org_id) {
+        return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+    }
+
+    const { data: override, error } = await supabaseAdmin
+        .from('qualification_overrides')
+        .insert({
+            org_id: performer.org_id,
+            schedule_id: scheduleId,
+            performed_by: user.id,
+            supervisor_id: supervisorId,
+            reason: reason.trim(),
+        })
+        .select('id, created_at')
+        .single();
+
+    if (error) {
+        console.error('Error recording qualification override:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, overrideId: override.id, createdAt: override.created_at });
+}
@@ -0,0 +1,157 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { hasFeaturePermission } from '@/lib/permissions';
+import { fetchResultSignatures, getValidSignatures, SIGNATURE_MEANINGS } from '@/lib/result-signatures';
+import type { SignatureMeaning } from '@/lib/types';
+
+// Create admin client lazily to avoid build-time errors
+function getSupabaseAdmin(): SupabaseClient | null {
+    // Use SUPABASE_URL for server-side (Docker internal) or fallback to public URL
+    const url = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !key) {
+        console.warn('Missing Supabase environment variables');
+        return null;
+    }
+
+    return createClient(url, key, {
+        auth: { autoRefreshToken: false, persistSession: false }
+    });
+}
+
+// Re-authenticates the signer on a throwaway client, so a signature needs the
+// password and not just an open session
+async function verifyPassword(email: string, password: string): Promise<string | null> {
+    const url = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+    if (!url || !anonKey) return null;
+
+    const authClient = createClient(url, anonKey, {
+        auth: { autoRefreshToken: false, persistSession: false }
+    });
+    const { data, error } = await authClient.auth.signInWithPassword({ email, password });
+    if (error || !data.user) return null;
+
+    await authClient.auth.signOut();
+    return data.user.id;
+}
+
+// POST - Electronically sign a maintenance result as the calling user
+// Body: { resultId, meaning: 'performed' | 'reviewed' | 'approved', password }
+export async function POST(request: NextRequest) {
+    const supabaseAdmin = getSupabaseAdmin();
+    if (!supabaseAdmin) {
+        return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+    }
+
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user } } = await supabaseAdmin.auth.getUser(token);
+    if (!user?.email) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+        return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const { resultId, meaning, password } = body as { resultId?: string; meaning?: SignatureMeaning; password?: string };
+    if (!resultId || !password || !meaning || !SIGNATURE_MEANINGS.includes(meaning)) {
+        return NextResponse.json({ error: 'resultId, a signature meaning and your password are required' }, { status: 400 });
+    }
+
+    const signerId = await verifyPassword(user.email, password);
+    if (signerId !== user.id) {
+        return NextResponse.json({ error: 'Password is incorrect' }, { status: 403 });
+    }
+
+    const { data: signer } = await supabaseAdmin
+        .from('profiles')
+        .select('org_id, role, permissions, display_name')
+        .eq('id', user.id)
+        .single();
+
+    const { data: result } = await supabaseAdmin
+        .from('maintenanceResults')
+        .select('id, org_id, user_id, maintenanceSchedules(status)')
+        .eq('id', resultId)
+        .single();
+    if (!signer?.org_id || !result || result.org_id !== signer.org_id) {
+        return NextResponse.json({ error: 'Result not found' }, { status: 404 });
+    }
+
+    const scheduleStatus = (result.maintenanceSchedules as { status?: string } | null)?.status;
+    if (scheduleStatus !== 'Completed') {
+        return NextResponse.json({ error: 'Only completed results can be signed' }, { status: 409 });
+    }
+
+    // A signature whose hash no longer matches was made on an earlier version of the result.
+    // Close it first, or it would still hold its meaning's slot and block signing again.
+    const signatures = await fetchResultSignatures(resultId, supabaseAdmin);
+    const staleIds = signatures.filter(s => !s.invalidated_at && !s.is_valid).map(s => s.id);
+    if (staleIds.length > 0) {
+        const { error: invalidateError } = await supabaseAdmin
+            .from('result_signatures')
+            .update({ invalidated_at: new Date().toISOString(), invalidated_reason: 'Result edited after signing' })
+            .in('id', staleIds)
+            .is('invalidated_at', null);
+        if (invalidateError) {
+            console.error('Error invalidating stale result signatures:', invalidateError);
+            return NextResponse.json({ error: invalidateError.message }, { status: 500 });
+        }
+    }
+
+    const standing = getValidSignatures(signatures);
+    if (standing[meaning]) {
+        return NextResponse.json({ error: 'The result already carries this signature' }, { status: 409 });
+    }
+
+    if (meaning === 'performed') {
+        if (result.user_id !== user.id) {
+            return NextResponse.json({ error: 'Only the person who entered the result can sign it as performed' }, { status: 403 });
+        }
+    } else {
+        if (!standing.performed) {
+            return NextResponse.json({ error: 'The result must be signed as performed first' }, { status: 409 });
+        }
+        if (result.user_id === user.id || standing.performed.signer_id === user.id) {
+            return NextResponse.json({ error: 'The person who performed the work cannot also review or approve it' }, { status: 403 });
+        }
+        const allowed = meaning === 'approved'
+            ? signer.role === 'admin' || signer.role === 'supervisor'
+            : hasFeaturePermission(signer, 'maintenance_history', 'edit');
+        if (!allowed) {
+            return NextResponse.json({ error: `You are not allowed to sign results as ${meaning}` }, { status: 403 });
+        }
+    }
+
+    // The database stamps the content hash, organization and time
+    const { data: inserted, error } = await supabaseAdmin
+        .from('result_signatures')
+        .insert({
+            result_id: resultId,
+            signer_id: user.id,
+            printed_name: signer.display_name || user.email.split('@')[0],
+            meaning,
+            content_hash: '',
+        })
+        .select('id')
+        .single();
+
+    if (error) {
+        console.error('Error recording result signature:', error);
+        if (error.code === '23505') {
+            return NextResponse.json({ error: 'The result already carries this signature' }, { status: 409 });
+        }
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const signature = (await fetchResultSignatures(resultId, supabaseAdmin)).find(s => s.id === inserted.id);
+    return NextResponse.json({ success: true, signature });
+}
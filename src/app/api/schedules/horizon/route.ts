@@ -0,0 +1,88 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobAuth } from '@/lib/job-auth';
+import { acquireJobLock, releaseJobLock } from '@/lib/job-locks';
+import { fillScheduleHorizon } from '@/lib/schedule-horizon';
+
+const DEFAULT_HORIZON_MONTHS = 12;
+const MAX_HORIZON_MONTHS = 36;
+
+// Guards against two overlapping runs (e.g. cron firing while an admin triggers it),
+// across server instances; expires in case a run dies without releasing it
+const HORIZON_LOCK = 'schedule_horizon';
+const HORIZON_LOCK_SECONDS = 60 * 60;
+
+// Create admin client lazily to avoid build-time errors
+function getSupabaseAdmin(): SupabaseClient | null {
+    // Use SUPABASE_URL for server-side (Docker internal) or fallback to public URL
+    const url = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !key) {
+        console.warn('Missing Supabase environment variables');
+        return null;
+    }
+
+    return createClient(url, key, {
+        auth: { autoRefreshToken: false, persistSession: false }
+    });
+}
+
+function parseMonths(value: string | null): number | null {
+    const fallback = Number(process.env.SCHEDULE_HORIZON_MONTHS) || DEFAULT_HORIZON_MONTHS;
+    if (value === null) return fallback;
+    const months = Number(value);
+    if (!Number.isInteger(months) || months < 1 || months > MAX_HORIZON_MONTHS) return null;
+    return months;
+}
+
+async function runHorizon(request: NextRequest, dryRun: boolean) {
+    const supabaseAdmin = getSupabaseAdmin();
+    if (!supabaseAdmin) {
+        return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+    }
+
+    const auth = await getJobAuth(request, supabaseAdmin);
+    if (!auth.authorized) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const months = parseMonths(searchParams.get('months'));
+    if (months === null) {
+        return NextResponse.json({ error: `months must be a whole number from 1 to ${MAX_HORIZON_MONTHS}` }, { status: 400 });
+    }
+
+    const isDryRun = dryRun || searchParams.get('dryRun') === 'true';
+    let lockToken: string | null = null;
+    try {
+        if (!isDryRun) {
+            lockToken = await acquireJobLock(HORIZON_LOCK, HORIZON_LOCK_SECONDS, supabaseAdmin);
+            if (!lockToken) {
+                return NextResponse.json({ error: 'A schedule horizon run is already in progress' }, { status: 409 });
+            }
+        }
+
+        const report = await fillScheduleHorizon(supabaseAdmin, {
+            months,
+            orgId: auth.orgId,
+            dryRun: isDryRun,
+        });
+        return NextResponse.json(report);
+    } catch (err: any) {
+        console.error('Schedule horizon run failed:', err);
+        return NextResponse.json({ error: err?.message || 'Schedule horizon run failed' }, { status: 500 });
+    } finally {
+        if (lockToken) await releaseJobLock(HORIZON_LOCK, lockToken, supabaseAdmin);
+    }
+}
+
+// GET - Preview what a run would create (always a dry run)
+export async function GET(request: NextRequest) {
+    return runHorizon(request, true);
+}
+
+// POST - Create missing schedules up to the horizon (?months=12, ?dryRun=true to preview)
+export async function POST(request: NextRequest) {
+    return runHorizon(request, false);
+}
@@ -0,0 +1,9 @@
+import { MaintenanceCalendar } from '@/components/calendar/maintenance-calendar';
+
+export default function CalendarPage() {
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-6 pt-6 w-full">
+      <MaintenanceCalendar />
+    </div>
+  );
+}
@@ -2,10 +2,12 @@ import { InstrumentDetailClientPage } from "@/components/instruments/instrument-
 
 export default async function InstrumentDetailPage({
   params,
+  searchParams,
 }: {
   params: Promise<{ instrumentId: string }>;
+  searchParams?: Promise<{ task?: string }>;
 }) {
   const { instrumentId } = await params;
-  return <InstrumentDetailClientPage instrumentId={instrumentId} />;
+  const query = await searchParams;
+  return <InstrumentDetailClientPage instrumentId={instrumentId} openTask={query?.task} />;
 }
-
@@ -1,6 +1,9 @@
 import { InstrumentStatusChart } from '@/components/dashboard/instrument-status-chart';
 import { UpcomingMaintenanceList } from '@/components/dashboard/upcoming-maintenance-list';
 import { MaintenanceCompletionChart } from '@/components/dashboard/maintenance-completion-chart';
+import { OverviewCards } from '@/components/dashboard/overview-cards';
+import { MeterForecastCard } from '@/components/dashboard/meter-forecast-card';
+import { LocationSummaryCard } from '@/components/dashboard/location-summary-card';
 import { Suspense } from 'react';
 import { Skeleton } from '@/components/ui/skeleton';
 // import { AdvisorFloatingWidget } from '@/components/advisor/advisor-floating-widget';
@@ -9,6 +12,7 @@ export default function DashboardPage() {
   return (
     <div className="flex-1 space-y-4 p-4 md:p-6 pt-6 w-full">
       <div className="space-y-4">
+        <OverviewCards />
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-7">
           <Suspense fallback={<Skeleton className="h-[400px] col-span-1 lg:col-span-4" />}>
             <MaintenanceCompletionChart />
@@ -20,6 +24,8 @@ export default function DashboardPage() {
         <Suspense fallback={<Skeleton className="h-[300px]" />}>
           <UpcomingMaintenanceList />
         </Suspense>
+        <LocationSummaryCard />
+        <MeterForecastCard />
 
       </div>
       {/* <AdvisorFloatingWidget /> */}
@@ -8,10 +8,15 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { FileText, Search, CheckCircle, XCircle, ChevronDown, ChevronUp, Calendar, Beaker, Download, MapPin, Phone } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import type { MaintenanceResult, Instrument, TestSection } from '@/lib/types';
+import type { MaintenanceResult, Instrument, ResultSignature, TestSection } from '@/lib/types';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { cn } from '@/lib/utils';
 import { formatDate, formatDateTime } from '@/lib/date-utils';
+import { ExportMenu } from '@/components/export-menu';
+import { LocationSelect } from '@/components/locations/location-select';
+import { useLocations } from '@/hooks/use-locations';
+import { getLocationSubtreeIds } from '@/lib/locations';
+import { fetchResultSignatures, getValidSignatures, SIGNATURE_MEANING_LABELS, SIGNATURE_MEANINGS } from '@/lib/result-signatures';
 
 type ExtendedResult = MaintenanceResult & {
     instrument?: Instrument;
@@ -24,11 +29,17 @@ type ExtendedResult = MaintenanceResult & {
     templateId?: string;
 };
 
+// The printable report is written with document.write, so entered text must not become markup
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
 export default function ResultsPage() {
     const [results, setResults] = useState<ExtendedResult[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [searchTerm, setSearchTerm] = useState('');
     const [openIds, setOpenIds] = useState<Set<string>>(new Set());
+    const [locationFilter, setLocationFilter] = useState('');
+    const { locations, options: locationOptions } = useLocations();
 
     useEffect(() => {
         const fetchResults = async () => {
@@ -82,12 +93,13 @@ export default function ResultsPage() {
         fetchResults();
     }, []);
 
-    const filteredResults = results.filter(result =>
+    const locationIds = locationFilter ? getLocationSubtreeIds(locationFilter, locations) : null;
+    const filteredResults = results.filter(result => (
         result.instrument?.eqpId.toLowerCase().includes(searchTerm.toLowerCase()) ||
         result.resultType.toLowerCase().includes(searchTerm.toLowerCase()) ||
         result.notes?.toLowerCase().includes(searchTerm.toLowerCase()) ||
         result.instrument?.instrumentType.toLowerCase().includes(searchTerm.toLowerCase())
-    );
+    ) && (!locationIds || (!!result.instrument?.location_id && locationIds.has(result.instrument.location_id))));
 
     const toggleOpen = (id: string) => {
         setOpenIds(prev => {
@@ -149,10 +161,10 @@ export default function ResultsPage() {
             const measured = row.measured !== undefined ? row.measured : '-';
             const status = row.passed === undefined ? '-' : row.passed ? 'Pass' : 'Fail';
             const error = row.error !== undefined ? `${row.error >= 0 ? '+' : ''}${row.error.toFixed(3)}` : '-';
-            const ref = row.reference !== undefined ? `${row.reference} ${row.unit || section.unit || ''}` : '';
+            const ref = row.reference !== undefined ? `${row.reference} ${escapeHtml(row.unit || section.unit || '')}` : '';
             return `
               <tr>
-                <td style="padding:6px;">${row.label}</td>
+                <td style="padding:6px;">${escapeHtml(row.label)}</td>
                 ${section.type === 'tolerance' ? `<td style="padding:6px;">${ref}</td>` : ''}
                 ${section.type === 'range' ? `<td style="padding:6px;">${row.min ?? '-'}</td><td style="padding:6px;">${row.max ?? '-'}</td>` : ''}
                 <td style="padding:6px;">${measured}</td>
@@ -164,18 +176,57 @@ export default function ResultsPage() {
         return `<table style="width:100%;border-collapse:collapse;border:1px solid #eee;margin-top:6px;">${header}${rows}</table>`;
     };
 
-    const buildResultPdf = (r: ExtendedResult) => {
+    const renderSignatureBlock = (signatures: ResultSignature[]) => {
+        const valid = getValidSignatures(signatures);
+        const rows = SIGNATURE_MEANINGS.map(meaning => {
+            const signature = valid[meaning];
+            return signature ? `
+              <tr>
+                <td style="padding:6px;">${SIGNATURE_MEANING_LABELS[meaning]}</td>
+                <td style="padding:6px;">${escapeHtml(signature.printed_name)}</td>
+                <td style="padding:6px;">${formatDateTime(signature.signed_at)}</td>
+                <td style="padding:6px;font-family:monospace;font-size:10px;word-break:break-all;">${signature.content_hash}</td>
+              </tr>
+            ` : `
+              <tr>
+                <td style="padding:6px;">${SIGNATURE_MEANING_LABELS[meaning]}</td>
+                <td style="padding:6px;color:#999;" colspan="3">Not signed</td>
+              </tr>
+            `;
+        }).join('');
+        return `
+          <div style="margin-top:16px;">
+            <strong>Electronic Signatures</strong>
+            <table style="width:100%;border-collapse:collapse;border:1px solid #eee;margin-top:6px;">
+              <tr>
+                <th style="text-align:left;padding:6px;">Meaning</th>
+                <th style="text-align:left;padding:6px;">Name</th>
+                <th style="text-align:left;padding:6px;">Signed</th>
+                <th style="text-align:left;padding:6px;">Content hash (SHA-256)</th>
+              </tr>
+              ${rows}
+            </table>
+          </div>
+        `;
+    };
+
+    const buildResultPdf = async (r: ExtendedResult) => {
+        // Opened before the signatures load so the popup still counts as a response to the click
+        const win = window.open('', '_blank');
+        if (!win) return;
+        const signatures = await fetchResultSignatures(r.id);
+
         const inst = r.instrument;
         const maintBy = r.maintenanceBy === 'vendor' ? 'Vendor' : 'Self';
-        const vendor = r.maintenanceBy === 'vendor' ? `<div>Vendor: ${r.vendorName || 'N/A'} ${r.vendorContact ? `(${r.vendorContact})` : ''}</div>` : '';
+        const vendor = r.maintenanceBy === 'vendor' ? `<div>Vendor: ${escapeHtml(r.vendorName || 'N/A')} ${r.vendorContact ? `(${escapeHtml(r.vendorContact)})` : ''}</div>` : '';
         const sections = (r.testData || []).map(section => `
           <div style="margin-top:10px;padding:10px;border:1px solid #ddd;border-radius:8px;">
             <div style="display:flex;justify-content:space-between;align-items:center;">
-              <div><strong>${section.title}</strong></div>
-              ${section.type === 'tolerance' ? `<div style="font-size:12px;">±${section.tolerance} ${section.unit || ''}</div>` : ''}
+              <div><strong>${escapeHtml(section.title)}</strong></div>
+              ${section.type === 'tolerance' ? `<div style="font-size:12px;">±${section.tolerance} ${escapeHtml(section.unit || '')}</div>` : ''}
             </div>
             ${section.type === 'checklist'
-                ? `<ul style="margin:8px 0;padding-left:16px;">${section.rows?.map(row => `<li>${row.label} — ${row.passed ? 'Done' : 'Pending'}</li>`).join('') || ''}</ul>`
+                ? `<ul style="margin:8px 0;padding-left:16px;">${section.rows?.map(row => `<li>${escapeHtml(row.label)} — ${row.passed ? 'Done' : 'Pending'}</li>`).join('') || ''}</ul>`
                 : renderSectionRows(section)}
           </div>
         `).join('');
@@ -183,7 +234,7 @@ export default function ResultsPage() {
         const html = `
           <html>
             <head>
-              <title>${inst?.eqpId || 'Maintenance Result'}</title>
+              <title>${escapeHtml(inst?.eqpId || 'Maintenance Result')}</title>
               <style>
                 body { font-family: Arial, sans-serif; padding: 24px; }
                 h1 { margin: 0 0 8px; }
@@ -192,15 +243,16 @@ export default function ResultsPage() {
               </style>
             </head>
             <body>
-              <h1>${inst?.eqpId || 'Instrument'} • ${r.scheduleType || r.resultType}</h1>
-              <div class="block">${inst?.instrumentType || ''} • ${inst?.model || ''}</div>
+              <h1>${escapeHtml(inst?.eqpId || 'Instrument')} • ${escapeHtml(r.scheduleType || r.resultType)}</h1>
+              <div class="block">${escapeHtml(inst?.instrumentType || '')} • ${escapeHtml(inst?.model || '')}</div>
               <div class="block">Maintenance By: ${maintBy}</div>
               ${vendor}
-              ${inst?.location ? `<div class="block">Location: ${inst.location}</div>` : ''}
+              ${inst?.location ? `<div class="block">Location: ${escapeHtml(inst.location)}</div>` : ''}
               <div class="block">Completed: ${formatDateTime(r.completedDate)}</div>
-              ${r.scheduleDescription ? `<div class="block">Description: ${r.scheduleDescription}</div>` : ''}
-              ${r.notes ? `<div class="block">Notes: ${r.notes}</div>` : ''}
+              ${r.scheduleDescription ? `<div class="block">Description: ${escapeHtml(r.scheduleDescription)}</div>` : ''}
+              ${r.notes ? `<div class="block">Notes: ${escapeHtml(r.notes)}</div>` : ''}
               ${sections}
+              ${renderSignatureBlock(signatures)}
               <script>
                 // Auto-print when the page loads, but don't block parent window
                 window.onload = function() {
@@ -213,9 +265,7 @@ export default function ResultsPage() {
           </html>
         `;
 
-        // Open a new window and write the HTML - don't call print() from parent window
-        const win = window.open('', '_blank');
-        if (!win) return;
+        // Write the HTML into the new window - don't call print() from parent window
         win.document.write(html);
         win.document.close();
         // DON'T call win.focus() or win.print() from here - let the popup handle it
@@ -228,6 +278,7 @@ export default function ResultsPage() {
                     <h2 className="text-3xl font-bold tracking-tight font-headline">Maintenance History</h2>
                     <p className="text-muted-foreground">History of all completed maintenance and calibrations</p>
                 </div>
+                <ExportMenu filters={{ search: searchTerm, location: locationFilter || undefined }} />
             </div>
 
             <div className="flex items-center space-x-2">
@@ -240,6 +291,15 @@ export default function ResultsPage() {
                         onChange={(e) => setSearchTerm(e.target.value)}
                     />
                 </div>
+                {locationOptions.length > 0 && (
+                    <LocationSelect
+                        options={locationOptions}
+                        value={locationFilter}
+                        onChange={setLocationFilter}
+                        emptyLabel="All locations"
+                        className="w-[220px]"
+                    />
+                )}
             </div>
 
             {isLoading ? (
@@ -0,0 +1,9 @@
+import { InstrumentScanner } from '@/components/instruments/instrument-scanner';
+
+export default function ScanPage() {
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-6 pt-6 w-full">
+      <InstrumentScanner />
+    </div>
+  );
+}
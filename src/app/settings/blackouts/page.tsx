@@ -0,0 +1,13 @@
+import { BlackoutPeriodsManager } from '@/components/maintenance/blackout-periods-manager';
+
+export default function BlackoutPeriodsSettingsPage() {
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-6 pt-6 w-full">
+      <div className="space-y-1">
+        <h2 className="text-3xl font-bold tracking-tight font-headline">Blackout Periods</h2>
+        <p className="text-muted-foreground">Days when maintenance must not fall due, for the organization, a location or one instrument.</p>
+      </div>
+      <BlackoutPeriodsManager />
+    </div>
+  );
+}
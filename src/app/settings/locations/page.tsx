@@ -0,0 +1,13 @@
+import { LocationsManager } from '@/components/locations/locations-manager';
+
+export default function LocationsSettingsPage() {
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-6 pt-6 w-full">
+      <div className="space-y-1">
+        <h2 className="text-3xl font-bold tracking-tight font-headline">Locations</h2>
+        <p className="text-muted-foreground">Sites, buildings, rooms and benches that instruments are placed in.</p>
+      </div>
+      <LocationsManager />
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { MaintenanceTypesManager } from '@/components/maintenance/maintenance-types-manager';
+import { ComplianceWindowsManager } from '@/components/maintenance/compliance-windows-manager';
 
 export default function MaintenanceTypesSettingsPage() {
   return (
@@ -8,6 +9,7 @@ export default function MaintenanceTypesSettingsPage() {
         <p className="text-muted-foreground">Create, rename, or delete custom maintenance types. Defaults cannot be removed.</p>
       </div>
       <MaintenanceTypesManager />
+      <ComplianceWindowsManager />
     </div>
   );
 }
@@ -1,15 +1,51 @@
 import Link from 'next/link';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Wrench } from 'lucide-react';
+import { Wrench, CalendarDays, CalendarOff, Users, GraduationCap, MapPin, Trash2 } from 'lucide-react';
 
 const settingsOptions = [
   {
     title: 'Maintenance Types',
-    description: 'Create, rename, or delete custom maintenance types.',
+    description: 'Create, rename, or delete custom maintenance types and set their grace windows.',
     href: '/settings/maintenance-types',
     icon: Wrench,
   },
+  {
+    title: 'Locations',
+    description: 'Manage the sites, buildings, rooms and benches instruments are placed in.',
+    href: '/settings/locations',
+    icon: MapPin,
+  },
+  {
+    title: 'Working Calendars',
+    description: 'Set weekly off-days and import holidays per organization or location.',
+    href: '/settings/working-calendars',
+    icon: CalendarDays,
+  },
+  {
+    title: 'Blackout Periods',
+    description: 'Defer or suppress maintenance during shutdowns, per organization, location or instrument.',
+    href: '/settings/blackouts',
+    icon: CalendarOff,
+  },
+  {
+    title: 'Technicians',
+    description: 'Set up teams and choose who new maintenance is assigned to.',
+    href: '/settings/technicians',
+    icon: Users,
+  },
+  {
+    title: 'Qualifications',
+    description: 'Record training per technician and review the qualification matrix and upcoming expiries.',
+    href: '/settings/qualifications',
+    icon: GraduationCap,
+  },
+  {
+    title: 'Recycle Bin',
+    description: 'Admins can restore deleted instruments with their records, or purge them permanently.',
+    href: '/settings/recycle-bin',
+    icon: Trash2,
+  },
 ];
 
 export default function SettingsPage() {
@@ -0,0 +1,13 @@
+import { QualificationsManager } from '@/components/technicians/qualifications-manager';
+
+export default function QualificationsSettingsPage() {
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-6 pt-6 w-full">
+      <div className="space-y-1">
+        <h2 className="text-3xl font-bold tracking-tight font-headline">Qualifications</h2>
+        <p className="text-muted-foreground">Training records per technician, the qualification matrix and upcoming expiries.</p>
+      </div>
+      <QualificationsManager />
+    </div>
+  );
+}
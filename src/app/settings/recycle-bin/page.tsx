@@ -0,0 +1,13 @@
+import { RecycleBinManager } from '@/components/instruments/recycle-bin-manager';
+
+export default function RecycleBinSettingsPage() {
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-6 pt-6 w-full">
+      <div className="space-y-1">
+        <h2 className="text-3xl font-bold tracking-tight font-headline">Recycle Bin</h2>
+        <p className="text-muted-foreground">Deleted instruments, kept with their records until an admin restores or purges them.</p>
+      </div>
+      <RecycleBinManager />
+    </div>
+  );
+}
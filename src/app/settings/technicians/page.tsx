@@ -0,0 +1,13 @@
+import { TechniciansManager } from '@/components/technicians/technicians-manager';
+
+export default function TechniciansSettingsPage() {
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-6 pt-6 w-full">
+      <div className="space-y-1">
+        <h2 className="text-3xl font-bold tracking-tight font-headline">Technicians</h2>
+        <p className="text-muted-foreground">Teams and the default assignment of new maintenance.</p>
+      </div>
+      <TechniciansManager />
+    </div>
+  );
+}
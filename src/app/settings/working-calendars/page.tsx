@@ -0,0 +1,13 @@
+import { WorkingCalendarsManager } from '@/components/maintenance/working-calendars-manager';
+
+export default function WorkingCalendarsSettingsPage() {
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-6 pt-6 w-full">
+      <div className="space-y-1">
+        <h2 className="text-3xl font-bold tracking-tight font-headline">Working Calendars</h2>
+        <p className="text-muted-foreground">Weekly off-days and holidays used to move due dates off non-working days.</p>
+      </div>
+      <WorkingCalendarsManager />
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '@/contexts/auth-context';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
@@ -9,8 +9,14 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Trash2, Key, Shield, User as UserIcon, Users, Pencil } from 'lucide-react';
+import { Plus, Trash2, Key, Shield, ShieldCheck, MapPin, User as UserIcon, Users, Pencil, RotateCcw } from 'lucide-react';
 import { AddUserDialog } from '@/components/admin/add-user-dialog';
+import { EffectivePermissionsDialog } from '@/components/admin/effective-permissions-dialog';
+import { PermissionScopesDialog } from '@/components/admin/permission-scopes-dialog';
+import { RolesManager } from '@/components/admin/roles-manager';
+import { useCustomRoles } from '@/hooks/use-custom-roles';
+import { getPermissionOverrides, type CustomRole } from '@/lib/custom-roles';
+import { FEATURE_LABELS } from '@/lib/permissions';
 import {
     AlertDialog,
     AlertDialogAction,
@@ -30,11 +36,16 @@ interface UserData {
     displayName: string;
     role: 'admin' | 'supervisor' | 'user';
     permissions: Record<string, string>;
+    customRoleId: string | null;
+    permissionOverrides: Record<string, string>;
     passwordResetRequired: boolean;
     isSuperAdmin: boolean;
     createdAt: string;
 }
 
+// What the edit dialog saves through PATCH /api/admin/users
+type UserUpdate = Pick<UserData, 'role' | 'permissions' | 'customRoleId'>;
+
 export default function UserManagementPage() {
     const { user, session, isAdmin, hasPermission } = useAuth();
     const router = useRouter();
@@ -46,6 +57,17 @@ export default function UserManagementPage() {
     const [deleteUserId, setDeleteUserId] = useState<string | null>(null);
     const [resetPasswordUserId, setResetPasswordUserId] = useState<string | null>(null);
     const [editUser, setEditUser] = useState<UserData | null>(null);
+    const [reportUser, setReportUser] = useState<UserData | null>(null);
+    const [scopesUser, setScopesUser] = useState<UserData | null>(null);
+    const customRoles = useCustomRoles();
+
+    const roleMemberCounts = useMemo(() => {
+        const counts: Record<string, number> = {};
+        users.forEach(u => {
+            if (u.customRoleId) counts[u.customRoleId] = (counts[u.customRoleId] || 0) + 1;
+        });
+        return counts;
+    }, [users]);
 
     useEffect(() => {
         if (!hasPermission('user_management', 'view')) {
@@ -117,7 +139,7 @@ export default function UserManagementPage() {
         }
     };
 
-    const handleUpdateUser = async (updatedData: Partial<UserData>) => {
+    const handleUpdateUser = async (updatedData: UserUpdate) => {
         if (!editUser) return;
         try {
             const res = await fetch('/api/admin/users', {
@@ -155,6 +177,26 @@ export default function UserManagementPage() {
         }
     };
 
+    const levelLabel = (level: string | undefined) => (level ? level.charAt(0).toUpperCase() + level.slice(1) : 'Hidden');
+
+    // The custom role and how the user departs from it
+    const getCustomRoleSummary = (userData: UserData) => {
+        const role = customRoles.roles.find(r => r.id === userData.customRoleId);
+        if (!role) return null;
+        const overrides = Object.entries(userData.permissionOverrides || {});
+        return (
+            <div className="mt-1 space-y-1">
+                <Badge variant="secondary">{role.name}</Badge>
+                {overrides.map(([feature, level]) => (
+                    <div key={feature} className="text-xs text-muted-foreground">
+                        {FEATURE_LABELS[feature as keyof typeof FEATURE_LABELS] || feature}: {levelLabel(level)}{' '}
+                        (role: {levelLabel(role.permissions?.[feature as keyof typeof role.permissions])})
+                    </div>
+                ))}
+            </div>
+        );
+    };
+
     if (!hasPermission('user_management', 'view')) return null;
 
     return (
@@ -207,7 +249,10 @@ export default function UserManagementPage() {
                                                     )}
                                                 </div>
                                             </TableCell>
-                                            <TableCell>{getRoleBadge(userData.role, userData.isSuperAdmin)}</TableCell>
+                                            <TableCell>
+                                                {getRoleBadge(userData.role, userData.isSuperAdmin)}
+                                                {getCustomRoleSummary(userData)}
+                                            </TableCell>
                                             <TableCell>{getPermissionBadge(userData.permissions?.dashboard)}</TableCell>
                                             <TableCell>{getPermissionBadge(userData.permissions?.maintenance_history)}</TableCell>
                                             <TableCell>{getPermissionBadge(userData.permissions?.update_maintenance)}</TableCell>
@@ -216,6 +261,16 @@ export default function UserManagementPage() {
                                             <TableCell>{getPermissionBadge(userData.permissions?.settings)}</TableCell>
                                             <TableCell className="text-right">
                                                 <div className="flex gap-2 justify-end">
+                                                    {isAdmin && (
+                                                        <>
+                                                            <Button size="sm" variant="outline" onClick={() => setScopesUser(userData)} title="Scoped access">
+                                                                <MapPin className="w-4 h-4" />
+                                                            </Button>
+                                                            <Button size="sm" variant="outline" onClick={() => setReportUser(userData)} title="Effective permissions">
+                                                                <ShieldCheck className="w-4 h-4" />
+                                                            </Button>
+                                                        </>
+                                                    )}
                                                     <Button size="sm" variant="outline" onClick={() => setEditUser(userData)} disabled={userData.isSuperAdmin}>
                                                         <Pencil className="w-4 h-4" />
                                                     </Button>
@@ -236,7 +291,27 @@ export default function UserManagementPage() {
                 </CardContent>
             </Card>
 
-            <AddUserDialog isOpen={isAddDialogOpen} onOpenChange={setIsAddDialogOpen} onSuccess={fetchUsers} />
+            {isAdmin && (
+                <RolesManager
+                    roles={customRoles.roles}
+                    isLoading={customRoles.isLoading}
+                    memberCounts={roleMemberCounts}
+                    onCreate={customRoles.createRole}
+                    onUpdate={async (roleId, role) => {
+                        const result = await customRoles.updateRole(roleId, role);
+                        // Members' permissions follow the template
+                        if (result.success) fetchUsers();
+                        return result;
+                    }}
+                    onDelete={async (roleId) => {
+                        const result = await customRoles.deleteRole(roleId);
+                        if (result.success) fetchUsers();
+                        return result;
+                    }}
+                />
+            )}
+
+            <AddUserDialog isOpen={isAddDialogOpen} onOpenChange={setIsAddDialogOpen} onSuccess={fetchUsers} roles={customRoles.roles} />
 
             {/* Delete Confirmation Dialog */}
             <AlertDialog open={!!deleteUserId} onOpenChange={() => setDeleteUserId(null)}>
@@ -256,7 +331,13 @@ export default function UserManagementPage() {
             <ResetPasswordDialog isOpen={!!resetPasswordUserId} onClose={() => setResetPasswordUserId(null)} onSubmit={handleResetPassword} />
 
             {/* Edit User Dialog */}
-            <EditUserDialog user={editUser} onClose={() => setEditUser(null)} onSave={handleUpdateUser} />
+            <EditUserDialog user={editUser} roles={customRoles.roles} onClose={() => setEditUser(null)} onSave={handleUpdateUser} />
+
+            {/* Effective Permissions Report */}
+            <EffectivePermissionsDialog user={reportUser} onClose={() => setReportUser(null)} />
+
+            {/* Location and Instrument Type Grants */}
+            <PermissionScopesDialog user={scopesUser} onClose={() => setScopesUser(null)} />
         </div>
     );
 }
@@ -306,17 +387,31 @@ function ResetPasswordDialog({ isOpen, onClose, onSubmit }: { isOpen: boolean; o
 }
 
 // Edit User Dialog
-function EditUserDialog({ user, onClose, onSave }: { user: UserData | null; onClose: () => void; onSave: (data: any) => void }) {
-    const [role, setRole] = useState<string>('user');
+const NO_CUSTOM_ROLE = '__none__';
+
+function EditUserDialog({ user, roles, onClose, onSave }: { user: UserData | null; roles: CustomRole[]; onClose: () => void; onSave: (data: UserUpdate) => void }) {
+    const [role, setRole] = useState<UserData['role']>('user');
+    const [customRoleId, setCustomRoleId] = useState<string>(NO_CUSTOM_ROLE);
     const [permissions, setPermissions] = useState<Record<string, string>>({});
 
     useEffect(() => {
         if (user) {
             setRole(user.role);
+            setCustomRoleId(user.customRoleId || NO_CUSTOM_ROLE);
             setPermissions(user.permissions || {});
         }
     }, [user]);
 
+    const template = roles.find(r => r.id === customRoleId)?.permissions as Record<string, string> | undefined;
+    const overrides = template ? getPermissionOverrides(permissions, template) : {};
+
+    // Switching roles starts from the new template, keeping the user's overrides of the old one
+    const handleCustomRoleChange = (roleId: string) => {
+        const next = roles.find(r => r.id === roleId)?.permissions as Record<string, string> | undefined;
+        if (next) setPermissions({ ...next, ...overrides });
+        setCustomRoleId(roleId);
+    };
+
     const permissionKeys = ['dashboard', 'maintenance_history', 'update_maintenance', 'instruments', 'design_templates', 'settings', 'user_management'];
     const permissionLabels: Record<string, string> = {
         dashboard: 'Dashboard', maintenance_history: 'Maintenance History', update_maintenance: 'Update Maintenance',
@@ -324,7 +419,7 @@ function EditUserDialog({ user, onClose, onSave }: { user: UserData | null; onCl
     };
 
     const handleSave = () => {
-        onSave({ role, permissions });
+        onSave({ role, permissions, customRoleId: customRoleId === NO_CUSTOM_ROLE ? null : customRoleId });
     };
 
     if (!user) return null;
@@ -339,7 +434,7 @@ function EditUserDialog({ user, onClose, onSave }: { user: UserData | null; onCl
                 <div className="space-y-4 py-4">
                     <div>
                         <Label>Role</Label>
-                        <Select value={role} onValueChange={setRole}>
+                        <Select value={role} onValueChange={value => setRole(value as UserData['role'])}>
                             <SelectTrigger><SelectValue /></SelectTrigger>
                             <SelectContent>
                                 <SelectItem value="admin">Admin</SelectItem>
@@ -348,19 +443,54 @@ function EditUserDialog({ user, onClose, onSave }: { user: UserData | null; onCl
                             </SelectContent>
                         </Select>
                     </div>
+                    <div>
+                        <Label>Permission Role</Label>
+                        <Select value={customRoleId} onValueChange={handleCustomRoleChange}>
+                            <SelectTrigger><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={NO_CUSTOM_ROLE}>None (set individually)</SelectItem>
+                                {roles.map(r => <SelectItem key={r.id} value={r.id}>{r.name}</SelectItem>)}
+                            </SelectContent>
+                        </Select>
+                    </div>
                     <div className="space-y-2">
                         <Label>Permissions</Label>
+                        {template && (
+                            <p className="text-xs text-muted-foreground">
+                                {Object.keys(overrides).length === 0
+                                    ? 'Matches the role.'
+                                    : `${Object.keys(overrides).length} override(s) of the role, kept when the role changes.`}
+                            </p>
+                        )}
                         {permissionKeys.map(key => (
                             <div key={key} className="flex items-center justify-between py-1">
-                                <span className="text-sm">{permissionLabels[key]}</span>
-                                <Select value={permissions[key] || 'hidden'} onValueChange={(v) => setPermissions(prev => ({ ...prev, [key]: v }))}>
-                                    <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
-                                    <SelectContent>
-                                        <SelectItem value="hidden">Hidden</SelectItem>
-                                        <SelectItem value="view">View</SelectItem>
-                                        <SelectItem value="edit">Edit</SelectItem>
-                                    </SelectContent>
-                                </Select>
+                                <span className="text-sm">
+                                    {permissionLabels[key]}
+                                    {template && key in overrides && (
+                                        <span className="ml-2 text-xs text-orange-600">role: {template[key] || 'hidden'}</span>
+                                    )}
+                                </span>
+                                <div className="flex items-center gap-1">
+                                    {template && key in overrides && (
+                                        <Button
+                                            size="icon"
+                                            variant="ghost"
+                                            className="h-8 w-8"
+                                            title="Reset to role"
+                                            onClick={() => setPermissions(prev => ({ ...prev, [key]: template[key] || 'hidden' }))}
+                                        >
+                                            <RotateCcw className="w-3 h-3" />
+                                        </Button>
+                                    )}
+                                    <Select value={permissions[key] || 'hidden'} onValueChange={(v) => setPermissions(prev => ({ ...prev, [key]: v }))}>
+                                        <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="hidden">Hidden</SelectItem>
+                                            <SelectItem value="view">View</SelectItem>
+                                            <SelectItem value="edit">Edit</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                </div>
                             </div>
                         ))}
                     </div>
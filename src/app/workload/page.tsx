@@ -0,0 +1,9 @@
+import { WorkloadView } from '@/components/workload/workload-view';
+
+export default function WorkloadPage() {
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-6 pt-6 w-full">
+      <WorkloadView />
+    </div>
+  );
+}
@@ -11,16 +11,20 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2, Eye, EyeOff, RefreshCw, Mail, UserPlus, Info } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { getPermissionOverrides, type CustomRole } from '@/lib/custom-roles';
 
 interface AddUserDialogProps {
     isOpen: boolean;
     onOpenChange: (open: boolean) => void;
     onSuccess: () => void;
+    roles?: CustomRole[];
 }
 
 type PermissionLevel = 'hidden' | 'view' | 'edit';
 type CreateMode = 'create' | 'invite';
 
+const NO_CUSTOM_ROLE = '__none__';
+
 interface Permissions {
     dashboard: PermissionLevel;
     maintenance_history: PermissionLevel;
@@ -51,7 +55,7 @@ const adminPermissions: Permissions = {
     user_management: 'edit',
 };
 
-export function AddUserDialog({ isOpen, onOpenChange, onSuccess }: AddUserDialogProps) {
+export function AddUserDialog({ isOpen, onOpenChange, onSuccess, roles = [] }: AddUserDialogProps) {
     const { session } = useAuth();
     const { toast } = useToast();
 
@@ -66,6 +70,7 @@ export function AddUserDialog({ isOpen, onOpenChange, onSuccess }: AddUserDialog
     const [password, setPassword] = useState('');
     const [role, setRole] = useState<'admin' | 'supervisor' | 'user'>('user');
     const [permissions, setPermissions] = useState<Permissions>(defaultPermissions);
+    const [customRoleId, setCustomRoleId] = useState<string>(NO_CUSTOM_ROLE);
     const [errors, setErrors] = useState<string[]>([]);
 
     const generatePassword = () => {
@@ -100,15 +105,24 @@ export function AddUserDialog({ isOpen, onOpenChange, onSuccess }: AddUserDialog
         return emailRegex.test(emailStr);
     };
 
+    const template = roles.find(r => r.id === customRoleId)?.permissions;
+    const overrides = template ? getPermissionOverrides(permissions, template) : {};
+
     const handleRoleChange = (newRole: 'admin' | 'supervisor' | 'user') => {
         setRole(newRole);
         if (newRole === 'admin') {
             setPermissions(adminPermissions);
         } else {
-            setPermissions(defaultPermissions);
+            setPermissions(template ? { ...defaultPermissions, ...template } : defaultPermissions);
         }
     };
 
+    const handleCustomRoleChange = (roleId: string) => {
+        setCustomRoleId(roleId);
+        const next = roles.find(r => r.id === roleId);
+        if (next) setPermissions({ ...defaultPermissions, ...next.permissions });
+    };
+
     const handlePermissionChange = (feature: keyof Permissions, level: PermissionLevel) => {
         setPermissions(prev => ({ ...prev, [feature]: level }));
     };
@@ -145,6 +159,7 @@ export function AddUserDialog({ isOpen, onOpenChange, onSuccess }: AddUserDialog
                     displayName: displayName.trim() || email.split('@')[0],
                     role,
                     permissions,
+                    customRoleId: customRoleId === NO_CUSTOM_ROLE ? null : customRoleId,
                 }
                 : {
                     mode: 'create',
@@ -153,6 +168,7 @@ export function AddUserDialog({ isOpen, onOpenChange, onSuccess }: AddUserDialog
                     password,
                     role,
                     permissions,
+                    customRoleId: customRoleId === NO_CUSTOM_ROLE ? null : customRoleId,
                 };
 
             const res = await fetch('/api/admin/users', {
@@ -198,6 +214,7 @@ export function AddUserDialog({ isOpen, onOpenChange, onSuccess }: AddUserDialog
         setPassword('');
         setRole('user');
         setPermissions(defaultPermissions);
+        setCustomRoleId(NO_CUSTOM_ROLE);
         setErrors([]);
     };
 
@@ -338,13 +355,42 @@ export function AddUserDialog({ isOpen, onOpenChange, onSuccess }: AddUserDialog
                         </Select>
                     </div>
 
+                    {/* Permission Role */}
+                    {roles.length > 0 && (
+                        <div className="space-y-2">
+                            <Label>Permission Role</Label>
+                            <Select value={customRoleId} onValueChange={handleCustomRoleChange}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={NO_CUSTOM_ROLE}>None (set individually)</SelectItem>
+                                    {roles.map(r => <SelectItem key={r.id} value={r.id}>{r.name}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+
                     {/* Permissions */}
                     <div className="space-y-3">
                         <Label className="text-base font-semibold">Permissions</Label>
+                        {template && Object.keys(overrides).length > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                                Highlighted permissions differ from the role and stay as overrides when the role changes.
+                            </p>
+                        )}
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                             {(Object.keys(permissionLabels) as Array<keyof Permissions>).map((feature) => (
-                                <div key={feature} className="flex items-center justify-between border rounded-lg p-3">
-                                    <span className="text-sm">{permissionLabels[feature]}</span>
+                                <div
+                                    key={feature}
+                                    className={`flex items-center justify-between border rounded-lg p-3 ${feature in overrides ? 'border-orange-400' : ''}`}
+                                >
+                                    <span className="text-sm">
+                                        {permissionLabels[feature]}
+                                        {template && feature in overrides && (
+                                            <span className="block text-xs text-orange-600">role: {template[feature]}</span>
+                                        )}
+                                    </span>
                                     <Select
                                         value={permissions[feature]}
                                         onValueChange={(v) => handlePermissionChange(feature, v as PermissionLevel)}
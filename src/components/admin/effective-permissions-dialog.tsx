@@ -0,0 +1,147 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Check, Minus } from 'lucide-react';
+import {
+    FEATURE_LABELS,
+    fetchEffectivePermissions,
+    fetchEffectiveTableAccess,
+    fetchPermissionScopes,
+    getTableLabel,
+    type EffectivePermission,
+    type EffectiveTableAccess,
+    type PermissionScope,
+} from '@/lib/permissions';
+
+interface EffectivePermissionsDialogProps {
+    user: { id: string; displayName: string } | null;
+    onClose: () => void;
+}
+
+const levelBadge = (level: string) => {
+    switch (level) {
+        case 'edit': return <Badge variant="outline" className="text-green-600 border-green-600">Edit</Badge>;
+        case 'view': return <Badge variant="outline" className="text-blue-600 border-blue-600">View</Badge>;
+        default: return <Badge variant="outline" className="text-gray-400 border-gray-400">Hidden</Badge>;
+    }
+};
+
+const accessIcon = (allowed: boolean) =>
+    allowed
+        ? <Check className="w-4 h-4 text-green-600" aria-label="Allowed" />
+        : <Minus className="w-4 h-4 text-muted-foreground" aria-label="Denied" />;
+
+export function EffectivePermissionsDialog({ user, onClose }: EffectivePermissionsDialogProps) {
+    const [features, setFeatures] = useState<EffectivePermission[]>([]);
+    const [tables, setTables] = useState<EffectiveTableAccess[]>([]);
+    const [scopes, setScopes] = useState<PermissionScope[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const userId = user?.id;
+
+    useEffect(() => {
+        if (!userId) return;
+        setIsLoading(true);
+        Promise.all([
+            fetchEffectivePermissions(userId),
+            fetchEffectiveTableAccess(userId),
+            fetchPermissionScopes(userId),
+        ]).then(([featureRows, tableRows, scopeRows]) => {
+            setFeatures(featureRows);
+            setTables(tableRows);
+            setScopes(scopeRows);
+            setIsLoading(false);
+        });
+    }, [userId]);
+
+    return (
+        <Dialog open={!!user} onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Effective Permissions: {user?.displayName}</DialogTitle>
+                    <DialogDescription>
+                        What the database enforces for this user, whatever the app shows. Admins have edit access to every feature.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {isLoading ? (
+                    <Skeleton className="h-64 w-full" />
+                ) : features.length === 0 ? (
+                    <p className="text-sm text-destructive">Could not load the permissions of this user.</p>
+                ) : (
+                    <div className="space-y-6">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Feature</TableHead>
+                                    <TableHead>Assigned</TableHead>
+                                    <TableHead>Effective</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {features.map(row => (
+                                    <TableRow key={row.feature}>
+                                        <TableCell className="font-medium">{FEATURE_LABELS[row.feature] || row.feature}</TableCell>
+                                        <TableCell>{levelBadge(row.stored_level)}</TableCell>
+                                        <TableCell>{levelBadge(row.effective_level)}</TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+
+                        {scopes.length > 0 && (
+                            <div>
+                                <h4 className="text-sm font-medium mb-2">Scoped grants</h4>
+                                <ul className="space-y-1 text-sm">
+                                    {scopes.map(scope => (
+                                        <li key={scope.id} className="flex items-center gap-2">
+                                            {levelBadge(scope.level)}
+                                            <span>
+                                                {FEATURE_LABELS[scope.feature]} for{' '}
+                                                {scope.instrument_type ? `${scope.instrument_type} instruments` : scope.location_path || 'an unknown location'}
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+
+                        <div>
+                            <h4 className="text-sm font-medium mb-2">Records</h4>
+                            {scopes.length > 0 && (
+                                <p className="text-xs text-muted-foreground mb-2">
+                                    Organization-wide access. Instrument records covered by a scoped grant are also open at its level.
+                                </p>
+                            )}
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Data</TableHead>
+                                        <TableHead className="text-center">Read</TableHead>
+                                        <TableHead className="text-center">Add</TableHead>
+                                        <TableHead className="text-center">Change</TableHead>
+                                        <TableHead className="text-center">Delete</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {tables.map(row => (
+                                        <TableRow key={row.table_name}>
+                                            <TableCell>{getTableLabel(row.table_name)}</TableCell>
+                                            <TableCell><div className="flex justify-center">{accessIcon(row.can_read)}</div></TableCell>
+                                            <TableCell><div className="flex justify-center">{accessIcon(row.can_add)}</div></TableCell>
+                                            <TableCell><div className="flex justify-center">{accessIcon(row.can_update)}</div></TableCell>
+                                            <TableCell><div className="flex justify-center">{accessIcon(row.can_delete)}</div></TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
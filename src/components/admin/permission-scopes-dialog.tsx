@@ -0,0 +1,173 @@
+'use client';
+
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useLocations } from '@/hooks/use-locations';
+import { useInstrumentTypes } from '@/hooks/use-instrument-types';
+import { usePermissionScopes } from '@/hooks/use-permission-scopes';
+import { LocationSelect } from '@/components/locations/location-select';
+import { FEATURE_LABELS, SCOPED_FEATURES } from '@/lib/permissions';
+import type { UserPermissions } from '@/contexts/auth-context';
+
+interface PermissionScopesDialogProps {
+    user: { id: string; displayName: string } | null;
+    onClose: () => void;
+}
+
+type ScopeKind = 'location' | 'type';
+
+export function PermissionScopesDialog({ user, onClose }: PermissionScopesDialogProps) {
+    const { toast } = useToast();
+    const { scopes, isLoading, addScope, removeScope } = usePermissionScopes(user?.id || null);
+    const { options: locationOptions } = useLocations();
+    const { instrumentTypes } = useInstrumentTypes();
+
+    const [feature, setFeature] = useState<keyof UserPermissions>('update_maintenance');
+    const [level, setLevel] = useState<'view' | 'edit'>('edit');
+    const [kind, setKind] = useState<ScopeKind>('location');
+    const [locationId, setLocationId] = useState('');
+    const [instrumentType, setInstrumentType] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const canAdd = kind === 'location' ? !!locationId : !!instrumentType;
+
+    const handleAdd = async () => {
+        setIsSaving(true);
+        const result = await addScope({
+            feature,
+            level,
+            location_id: kind === 'location' ? locationId : null,
+            instrument_type: kind === 'type' ? instrumentType : null,
+        });
+        setIsSaving(false);
+        if (!result.success) {
+            toast({ title: 'Error', description: result.error || 'Failed to add the grant.', variant: 'destructive' });
+            return;
+        }
+        setLocationId('');
+        setInstrumentType('');
+    };
+
+    const handleRemove = async (scopeId: string) => {
+        const result = await removeScope(scopeId);
+        if (!result.success) {
+            toast({ title: 'Error', description: result.error || 'Failed to remove the grant.', variant: 'destructive' });
+        }
+    };
+
+    return (
+        <Dialog open={!!user} onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Scoped Access: {user?.displayName}</DialogTitle>
+                    <DialogDescription>
+                        Grant a feature for one location and everything inside it, or for one instrument type. Grants add to the
+                        user&apos;s organization-wide levels; they never take access away.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {isLoading ? (
+                    <Skeleton className="h-24 w-full" />
+                ) : scopes.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No scoped grants. The organization-wide levels apply everywhere.</p>
+                ) : (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Feature</TableHead>
+                                <TableHead>Level</TableHead>
+                                <TableHead>Applies to</TableHead>
+                                <TableHead className="w-12" />
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {scopes.map(scope => (
+                                <TableRow key={scope.id}>
+                                    <TableCell className="font-medium">{FEATURE_LABELS[scope.feature]}</TableCell>
+                                    <TableCell>
+                                        <Badge variant="outline" className={scope.level === 'edit' ? 'text-green-600 border-green-600' : 'text-blue-600 border-blue-600'}>
+                                            {scope.level === 'edit' ? 'Edit' : 'View'}
+                                        </Badge>
+                                    </TableCell>
+                                    <TableCell className="text-sm">
+                                        {scope.instrument_type
+                                            ? <>Type: {scope.instrument_type}</>
+                                            : <>Location: {scope.location_path || 'Unknown location'}</>}
+                                    </TableCell>
+                                    <TableCell className="text-right">
+                                        <Button size="sm" variant="ghost" onClick={() => handleRemove(scope.id)}>
+                                            <Trash2 className="w-4 h-4" />
+                                            <span className="sr-only">Remove grant</span>
+                                        </Button>
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                )}
+
+                <div className="space-y-3 rounded-md border p-4">
+                    <h4 className="text-sm font-medium">Add a grant</h4>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-1">
+                            <Label>Feature</Label>
+                            <Select value={feature} onValueChange={(v) => setFeature(v as keyof UserPermissions)}>
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    {SCOPED_FEATURES.map(f => <SelectItem key={f} value={f}>{FEATURE_LABELS[f]}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-1">
+                            <Label>Level</Label>
+                            <Select value={level} onValueChange={(v) => setLevel(v as 'view' | 'edit')}>
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="view">View</SelectItem>
+                                    <SelectItem value="edit">Edit</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-1">
+                            <Label>Scope</Label>
+                            <Select value={kind} onValueChange={(v) => setKind(v as ScopeKind)}>
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="location">Location subtree</SelectItem>
+                                    <SelectItem value="type">Instrument type</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-1">
+                            <Label>{kind === 'location' ? 'Location' : 'Instrument type'}</Label>
+                            {kind === 'location' ? (
+                                <LocationSelect options={locationOptions} value={locationId} onChange={setLocationId} />
+                            ) : (
+                                <Select value={instrumentType} onValueChange={setInstrumentType}>
+                                    <SelectTrigger><SelectValue placeholder="Select type" /></SelectTrigger>
+                                    <SelectContent>
+                                        {instrumentTypes.map(t => <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            )}
+                        </div>
+                    </div>
+                    <div className="flex justify-end">
+                        <Button size="sm" onClick={handleAdd} disabled={!canAdd || isSaving}>
+                            {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+                            Add Grant
+                        </Button>
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,272 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button, buttonVariants } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { FEATURE_LABELS } from '@/lib/permissions';
+import { ROLE_PRESETS, type CustomRole, type CustomRoleInput } from '@/lib/custom-roles';
+import type { UserPermissions } from '@/contexts/auth-context';
+
+interface RolesManagerProps {
+    roles: CustomRole[];
+    isLoading: boolean;
+    // Members per role id
+    memberCounts: Record<string, number>;
+    onCreate: (role: CustomRoleInput) => Promise<{ success: boolean; error?: string }>;
+    onUpdate: (roleId: string, role: CustomRoleInput) => Promise<{ success: boolean; error?: string }>;
+    onDelete: (roleId: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+const FEATURES = Object.keys(FEATURE_LABELS) as (keyof UserPermissions)[];
+const NO_PRESET = '__none__';
+
+const blankPermissions: UserPermissions = {
+    dashboard: 'view',
+    maintenance_history: 'view',
+    update_maintenance: 'hidden',
+    instruments: 'hidden',
+    design_templates: 'hidden',
+    settings: 'hidden',
+    user_management: 'hidden',
+};
+
+export function RolesManager({ roles, isLoading, memberCounts, onCreate, onUpdate, onDelete }: RolesManagerProps) {
+    const { toast } = useToast();
+    // null: closed, 'new': creating, otherwise the role being edited
+    const [editing, setEditing] = useState<CustomRole | 'new' | null>(null);
+    const [deleting, setDeleting] = useState<CustomRole | null>(null);
+
+    const handleDelete = async () => {
+        if (!deleting) return;
+        const role = deleting;
+        setDeleting(null);
+        const result = await onDelete(role.id);
+        if (!result.success) {
+            toast({ title: 'Error', description: result.error || 'Failed to delete the role.', variant: 'destructive' });
+            return;
+        }
+        toast({ title: 'Role Deleted', description: `${role.name} has been removed. Its members keep their current permissions.` });
+    };
+
+    return (
+        <>
+            <Card>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                    <div className="space-y-1.5">
+                        <CardTitle>Roles ({roles.length})</CardTitle>
+                        <CardDescription>
+                            Permission templates for groups of users. Changing a role updates all of its members; their own overrides are kept.
+                        </CardDescription>
+                    </div>
+                    <Button size="sm" onClick={() => setEditing('new')}>
+                        <Plus className="w-4 h-4 mr-2" /> New Role
+                    </Button>
+                </CardHeader>
+                <CardContent>
+                    {isLoading ? (
+                        <div className="text-center py-8 text-muted-foreground">Loading roles...</div>
+                    ) : roles.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No roles yet. Every user&apos;s permissions are set individually.</p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Role</TableHead>
+                                        <TableHead>Members</TableHead>
+                                        <TableHead>Edit access</TableHead>
+                                        <TableHead className="text-right">Actions</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {roles.map(role => (
+                                        <TableRow key={role.id}>
+                                            <TableCell>
+                                                <div className="font-medium">{role.name}</div>
+                                                {role.description && <div className="text-xs text-muted-foreground">{role.description}</div>}
+                                            </TableCell>
+                                            <TableCell>{memberCounts[role.id] || 0}</TableCell>
+                                            <TableCell className="text-sm text-muted-foreground">
+                                                {FEATURES.filter(f => role.permissions?.[f] === 'edit').map(f => FEATURE_LABELS[f]).join(', ') || 'None'}
+                                            </TableCell>
+                                            <TableCell className="text-right">
+                                                <div className="flex gap-2 justify-end">
+                                                    <Button size="sm" variant="outline" onClick={() => setEditing(role)}>
+                                                        <Pencil className="w-4 h-4" />
+                                                    </Button>
+                                                    <Button size="sm" variant="destructive" onClick={() => setDeleting(role)}>
+                                                        <Trash2 className="w-4 h-4" />
+                                                    </Button>
+                                                </div>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            <RoleDialog
+                role={editing}
+                memberCount={editing && editing !== 'new' ? memberCounts[editing.id] || 0 : 0}
+                onClose={() => setEditing(null)}
+                onSave={async (input) => {
+                    const result = editing && editing !== 'new' ? await onUpdate(editing.id, input) : await onCreate(input);
+                    if (!result.success) {
+                        toast({ title: 'Error', description: result.error || 'Failed to save the role.', variant: 'destructive' });
+                        return;
+                    }
+                    toast({ title: 'Role Saved', description: `${input.name.trim()} has been saved.` });
+                    setEditing(null);
+                }}
+            />
+
+            <AlertDialog open={!!deleting} onOpenChange={(open) => { if (!open) setDeleting(null); }}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            {deleting && memberCounts[deleting.id]
+                                ? `Its ${memberCounts[deleting.id]} member(s) keep the permissions they have now, without a role.`
+                                : 'No users have this role.'}
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction className={buttonVariants({ variant: 'destructive' })} onClick={handleDelete}>
+                            Delete
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </>
+    );
+}
+
+function RoleDialog({
+    role,
+    memberCount,
+    onClose,
+    onSave,
+}: {
+    role: CustomRole | 'new' | null;
+    memberCount: number;
+    onClose: () => void;
+    onSave: (input: CustomRoleInput) => Promise<void>;
+}) {
+    const [name, setName] = useState('');
+    const [description, setDescription] = useState('');
+    const [permissions, setPermissions] = useState<UserPermissions>(blankPermissions);
+    const [isSaving, setIsSaving] = useState(false);
+    const isNew = role === 'new';
+
+    useEffect(() => {
+        if (!role) return;
+        if (role === 'new') {
+            setName('');
+            setDescription('');
+            setPermissions(blankPermissions);
+        } else {
+            setName(role.name);
+            setDescription(role.description || '');
+            setPermissions({ ...blankPermissions, ...role.permissions });
+        }
+    }, [role]);
+
+    const applyPreset = (presetName: string) => {
+        const preset = ROLE_PRESETS.find(p => p.name === presetName);
+        if (!preset) return;
+        setName(preset.name);
+        setDescription(preset.description);
+        setPermissions(preset.permissions);
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        await onSave({ name, description, permissions });
+        setIsSaving(false);
+    };
+
+    return (
+        <Dialog open={!!role} onOpenChange={(open) => !open && !isSaving && onClose()}>
+            <DialogContent className="max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>{isNew ? 'New Role' : `Edit Role: ${name}`}</DialogTitle>
+                    <DialogDescription>
+                        {isNew
+                            ? 'Start from a preset or from scratch.'
+                            : `Changes apply to the ${memberCount} member(s) of this role straight away.`}
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4 py-2">
+                    {isNew && (
+                        <div className="space-y-1">
+                            <Label>Preset</Label>
+                            <Select value={NO_PRESET} onValueChange={applyPreset}>
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={NO_PRESET}>Choose a preset…</SelectItem>
+                                    {ROLE_PRESETS.map(p => <SelectItem key={p.name} value={p.name}>{p.name}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+                    <div className="space-y-1">
+                        <Label htmlFor="role-name">Name *</Label>
+                        <Input id="role-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="QA Reviewer" />
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="role-description">Description</Label>
+                        <Textarea id="role-description" value={description} onChange={(e) => setDescription(e.target.value)} rows={2} />
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Permissions</Label>
+                        {FEATURES.map(feature => (
+                            <div key={feature} className="flex items-center justify-between py-1">
+                                <span className="text-sm">{FEATURE_LABELS[feature]}</span>
+                                <Select
+                                    value={permissions[feature]}
+                                    onValueChange={(v) => setPermissions(prev => ({ ...prev, [feature]: v as UserPermissions[typeof feature] }))}
+                                >
+                                    <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="hidden">Hidden</SelectItem>
+                                        <SelectItem value="view">View</SelectItem>
+                                        <SelectItem value="edit">Edit</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+                <DialogFooter>
+                    <Button variant="outline" onClick={onClose} disabled={isSaving}>Cancel</Button>
+                    <Button onClick={handleSave} disabled={!name.trim() || isSaving}>
+                        {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Save Role
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
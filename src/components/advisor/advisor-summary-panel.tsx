@@ -2,6 +2,7 @@
 
 import { useEffect, useMemo, useState } from 'react';
 import { supabase } from '@/lib/supabase';
+import { isClosedStatus } from '@/lib/schedule-transitions';
 import type { Instrument, MaintenanceEvent } from '@/lib/types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -64,7 +65,7 @@ export function AdvisorSummaryPanel() {
       ? schedules.filter(s => s.instrumentId === instrumentFilter)
       : schedules;
 
-    const overdue = filtered.filter(s => new Date(s.dueDate) < now && s.status !== 'Completed');
+    const overdue = filtered.filter(s => new Date(s.dueDate) < now && !isClosedStatus(s.status));
     const upcoming = filtered.filter(s => {
       const due = new Date(s.dueDate);
       return due >= now && due <= rangeEnd;
@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { Loader2 } from 'lucide-react';
+import { formatDate, formatDateFull, formatDateTime } from '@/lib/date-utils';
+import { fetchScheduleHistory, getReasonCodeLabel, isClosedStatus, SCHEDULE_TRANSITION_LABELS } from '@/lib/schedule-transitions';
+import type { ScheduleHistoryEntry, ScheduleTransition } from '@/lib/types';
+import type { CalendarEvent } from './maintenance-calendar';
+
+interface CalendarEventDialogProps {
+  event: CalendarEvent | null;
+  onOpenChange: (open: boolean) => void;
+  onTransition?: (event: CalendarEvent, transition: ScheduleTransition) => void;
+}
+
+const TRANSITIONS: ScheduleTransition[] = ['Rescheduled', 'Skipped', 'Not Required'];
+
+export function CalendarEventDialog({ event, onOpenChange, onTransition }: CalendarEventDialogProps) {
+  const [history, setHistory] = useState<ScheduleHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!event) return;
+    setIsLoading(true);
+    fetchScheduleHistory(event.id).then(entries => {
+      setHistory(entries);
+      setIsLoading(false);
+    });
+  }, [event]);
+
+  return (
+    <Dialog open={!!event} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        {event && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{event.eqpId} · {event.type}</DialogTitle>
+              <DialogDescription>{event.description}</DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <span className="text-muted-foreground">Due</span>
+              <span>{formatDateFull(event.dueDate)}</span>
+              <span className="text-muted-foreground">Status</span>
+              <span><Badge variant="outline">{event.status}</Badge></span>
+              <span className="text-muted-foreground">Instrument type</span>
+              <span>{event.instrumentType || '—'}</span>
+              <span className="text-muted-foreground">Location</span>
+              <span>{event.location || '—'}</span>
+              <span className="text-muted-foreground">Vendor</span>
+              <span>{event.vendor || 'In-house'}</span>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">History</h4>
+              {isLoading ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading history...
+                </div>
+              ) : history.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No changes recorded.</p>
+              ) : (
+                <ul className="space-y-2 max-h-56 overflow-y-auto pr-2">
+                  {history.map(entry => (
+                    <li key={entry.id} className="rounded-md border p-2 text-sm">
+                      <div className="flex justify-between gap-2">
+                        <span className="font-medium capitalize">{entry.action.replace('_', ' ')}</span>
+                        <span className="text-xs text-muted-foreground">{formatDateTime(entry.changed_at)}</span>
+                      </div>
+                      {entry.from_due_date && entry.to_due_date && entry.from_due_date !== entry.to_due_date && (
+                        <p className="text-xs">{formatDate(entry.from_due_date)} → {formatDate(entry.to_due_date)}</p>
+                      )}
+                      {entry.reason_code && <p className="text-xs">{getReasonCodeLabel(entry.reason_code)}</p>}
+                      {entry.reason && <p className="text-xs text-muted-foreground">{entry.reason}</p>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {onTransition && !isClosedStatus(event.status) && (
+              <div className="grid grid-cols-3 gap-2">
+                {TRANSITIONS.map(transition => (
+                  <Button key={transition} variant="secondary" size="sm" onClick={() => onTransition(event, transition)}>
+                    {SCHEDULE_TRANSITION_LABELS[transition]}
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            <Button asChild variant="outline" className="w-full">
+              <Link href={`/instruments/${event.instrumentId}`}>Open instrument</Link>
+            </Button>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,484 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isBefore,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, Ban, CalendarClock, CheckCircle, ChevronLeft, ChevronRight, CircleDot, Clock, SkipForward } from 'lucide-react';
+import { useAuth } from '@/contexts/auth-context';
+import { supabase } from '@/lib/supabase';
+import { cn } from '@/lib/utils';
+import { formatDateFull } from '@/lib/date-utils';
+import { classifyCompliance, fetchTypePolicies, resolveCompliancePolicy } from '@/lib/compliance';
+import { isClosedStatus } from '@/lib/schedule-transitions';
+import { getLocationSubtreeIds } from '@/lib/locations';
+import { useLocations } from '@/hooks/use-locations';
+import type { ScheduleTransition } from '@/lib/types';
+import { ScheduleTransitionDialog } from '../maintenance/schedule-transition-dialog';
+import { CalendarEventDialog } from './calendar-event-dialog';
+import { LocationSelect } from '../locations/location-select';
+
+type CalendarView = 'month' | 'week' | 'agenda';
+type CalendarStatus = 'Scheduled' | 'Rescheduled' | 'In Progress' | 'Completed' | 'Overdue' | 'Skipped' | 'Not Required';
+
+export interface CalendarEvent {
+  id: string;
+  instrumentId: string;
+  eqpId: string;
+  instrumentType: string;
+  location: string;
+  locationId: string | null;
+  vendor: string | null;
+  type: string;
+  description: string;
+  dueDate: Date;
+  status: CalendarStatus;
+}
+
+const ALL = '__all__';
+const WEEK_OPTIONS = { weekStartsOn: 1 as const };
+const AGENDA_DAYS = 30;
+const MONTH_CELL_LIMIT = 3;
+
+// Colours are picked by hashing the type name, so a type keeps its colour across views and sessions
+const TYPE_COLORS = [
+  'bg-blue-100 text-blue-900 border-blue-300 dark:bg-blue-900/40 dark:text-blue-100',
+  'bg-emerald-100 text-emerald-900 border-emerald-300 dark:bg-emerald-900/40 dark:text-emerald-100',
+  'bg-violet-100 text-violet-900 border-violet-300 dark:bg-violet-900/40 dark:text-violet-100',
+  'bg-amber-100 text-amber-900 border-amber-300 dark:bg-amber-900/40 dark:text-amber-100',
+  'bg-pink-100 text-pink-900 border-pink-300 dark:bg-pink-900/40 dark:text-pink-100',
+  'bg-cyan-100 text-cyan-900 border-cyan-300 dark:bg-cyan-900/40 dark:text-cyan-100',
+  'bg-lime-100 text-lime-900 border-lime-300 dark:bg-lime-900/40 dark:text-lime-100',
+  'bg-orange-100 text-orange-900 border-orange-300 dark:bg-orange-900/40 dark:text-orange-100',
+];
+
+const getTypeColor = (type: string) => {
+  let hash = 0;
+  for (const char of type) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return TYPE_COLORS[hash % TYPE_COLORS.length];
+};
+
+const STATUS_ICONS: Record<CalendarStatus, typeof CircleDot> = {
+  'Scheduled': CircleDot,
+  'Rescheduled': CalendarClock,
+  'In Progress': Clock,
+  'Completed': CheckCircle,
+  'Overdue': AlertCircle,
+  'Skipped': SkipForward,
+  'Not Required': Ban,
+};
+
+const getVisibleRange = (view: CalendarView, cursor: Date) => {
+  switch (view) {
+    case 'month':
+      return { start: startOfWeek(startOfMonth(cursor), WEEK_OPTIONS), end: endOfWeek(endOfMonth(cursor), WEEK_OPTIONS) };
+    case 'week':
+      return { start: startOfWeek(cursor, WEEK_OPTIONS), end: endOfWeek(cursor, WEEK_OPTIONS) };
+    default:
+      return { start: startOfDay(cursor), end: endOfDay(addDays(cursor, AGENDA_DAYS - 1)) };
+  }
+};
+
+const stepCursor = (view: CalendarView, cursor: Date, direction: 1 | -1) => {
+  if (view === 'month') return addMonths(cursor, direction);
+  if (view === 'week') return addWeeks(cursor, direction);
+  return addDays(cursor, direction * AGENDA_DAYS);
+};
+
+const getRangeLabel = (view: CalendarView, cursor: Date) => {
+  if (view === 'month') return format(cursor, 'MMMM yyyy');
+  const { start, end } = getVisibleRange(view, cursor);
+  return `${format(start, 'd MMM')} – ${format(end, 'd MMM yyyy')}`;
+};
+
+export function MaintenanceCalendar() {
+  const { hasPermission, hasInstrumentPermission, isLoading: authLoading } = useAuth();
+  const [view, setView] = useState<CalendarView>('month');
+  const [cursor, setCursor] = useState(() => new Date());
+  const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const { locations, options: locationOptions } = useLocations();
+  const [locationFilter, setLocationFilter] = useState('');
+  const [instrumentTypeFilter, setInstrumentTypeFilter] = useState(ALL);
+  const [vendorFilter, setVendorFilter] = useState(ALL);
+  const [filterOptions, setFilterOptions] = useState<{ instrumentTypes: string[]; vendors: string[] }>({
+    instrumentTypes: [],
+    vendors: [],
+  });
+
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<Date | null>(null);
+  const [pendingTransition, setPendingTransition] = useState<{ event: CalendarEvent; transition: ScheduleTransition; toDate?: Date } | null>(null);
+  const [selectedEvent, setSelectedEvent] = useState<CalendarEvent | null>(null);
+
+  const canReschedule = hasPermission('update_maintenance', 'edit');
+  const canRescheduleEvent = (event: CalendarEvent) => hasInstrumentPermission('update_maintenance', 'edit', event);
+  const range = useMemo(() => getVisibleRange(view, cursor), [view, cursor]);
+
+  useEffect(() => {
+    if (authLoading) return;
+
+    const fetchEvents = async () => {
+      setIsLoading(true);
+
+      const { data: schedules, error } = await supabase
+        .from('maintenanceSchedules')
+        .select('id, instrumentId, type, description, status, dueDate, vendorName')
+        .gte('dueDate', range.start.toISOString())
+        .lte('dueDate', range.end.toISOString())
+        .order('dueDate', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching calendar schedules:', error);
+        setEvents([]);
+        setIsLoading(false);
+        return;
+      }
+
+      const { data: instruments } = await supabase
+        .from('instruments')
+        .select('id, eqpId, instrumentType, location, location_id, vendorName');
+      const instrumentMap = new Map((instruments || []).map(i => [i.id, i]));
+
+      const { data: configs } = await supabase
+        .from('maintenance_configurations')
+        .select('instrument_id, maintenance_type, early_grace_days, late_grace_days, next_due_anchor');
+      const configMap = new Map((configs || []).map(c => [`${c.instrument_id}_${c.maintenance_type}`, c]));
+      const typePolicies = await fetchTypePolicies();
+
+      // A recorded result means work has started even if the status was not updated
+      const scheduleIds = (schedules || []).map(s => s.id);
+      const startedIds = new Set<string>();
+      if (scheduleIds.length > 0) {
+        const { data: results } = await supabase
+          .from('maintenanceResults')
+          .select('maintenanceScheduleId')
+          .in('maintenanceScheduleId', scheduleIds);
+        results?.forEach(r => startedIds.add(r.maintenanceScheduleId));
+      }
+
+      const now = new Date();
+      const nextEvents: CalendarEvent[] = (schedules || []).map(s => {
+        const instrument = instrumentMap.get(s.instrumentId);
+        let status: CalendarStatus = s.status === 'Rescheduled' ? 'Rescheduled' : 'Scheduled';
+        if (isClosedStatus(s.status)) {
+          status = s.status;
+        } else {
+          const policy = resolveCompliancePolicy(configMap.get(`${s.instrumentId}_${s.type}`), typePolicies.get(s.type));
+          if (classifyCompliance(s.dueDate, policy, null, now) === 'out-of-compliance') {
+            status = 'Overdue';
+          } else if (s.status === 'In Progress' || startedIds.has(s.id)) {
+            status = 'In Progress';
+          }
+        }
+        return {
+          id: s.id,
+          instrumentId: s.instrumentId,
+          eqpId: instrument?.eqpId || 'Unknown',
+          instrumentType: instrument?.instrumentType || '',
+          location: instrument?.location || '',
+          locationId: instrument?.location_id || null,
+          vendor: s.vendorName || instrument?.vendorName || null,
+          type: s.type,
+          description: s.description,
+          dueDate: new Date(s.dueDate),
+          status,
+        };
+      });
+
+      const distinct = (values: (string | null | undefined)[]) =>
+        Array.from(new Set(values.filter((v): v is string => !!v))).sort((a, b) => a.localeCompare(b));
+      setFilterOptions({
+        instrumentTypes: distinct((instruments || []).map(i => i.instrumentType)),
+        vendors: distinct([...(instruments || []).map(i => i.vendorName), ...nextEvents.map(e => e.vendor)]),
+      });
+      setEvents(nextEvents);
+      setIsLoading(false);
+    };
+
+    fetchEvents();
+  }, [authLoading, range, reloadKey]);
+
+  const filteredEvents = useMemo(() => {
+    // A location matches everything inside it, so a site shows its buildings, rooms and benches
+    const locationIds = locationFilter ? getLocationSubtreeIds(locationFilter, locations) : null;
+    return events.filter(e =>
+      (!locationIds || (!!e.locationId && locationIds.has(e.locationId))) &&
+      (instrumentTypeFilter === ALL || e.instrumentType === instrumentTypeFilter) &&
+      (vendorFilter === ALL || e.vendor === vendorFilter)
+    );
+  }, [events, locations, locationFilter, instrumentTypeFilter, vendorFilter]);
+
+  const eventsOnDay = (day: Date) => filteredEvents.filter(e => isSameDay(e.dueDate, day));
+  const legendTypes = useMemo(() => Array.from(new Set(filteredEvents.map(e => e.type))).sort(), [filteredEvents]);
+
+  const isDraggable = (event: CalendarEvent) => canRescheduleEvent(event) && !isClosedStatus(event.status);
+  // Maintenance can be pulled forward or pushed back, but not into the past
+  const canDropOn = (day: Date) => !!draggingId && !isBefore(day, startOfDay(new Date()));
+
+  const handleDrop = (day: Date, eventId: string) => {
+    setDraggingId(null);
+    setDropTarget(null);
+    const event = events.find(e => e.id === eventId);
+    if (!event || !isDraggable(event) || isSameDay(event.dueDate, day) || isBefore(day, startOfDay(new Date()))) return;
+    setPendingTransition({ event, transition: 'Rescheduled', toDate: day });
+  };
+
+  const dropZoneProps = (day: Date) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!canDropOn(day)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      if (!dropTarget || !isSameDay(dropTarget, day)) setDropTarget(day);
+    },
+    onDragLeave: () => setDropTarget(current => (current && isSameDay(current, day) ? null : current)),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      handleDrop(day, e.dataTransfer.getData('text/plain'));
+    },
+  });
+
+  const renderEvent = (event: CalendarEvent, detailed = false) => {
+    const Icon = STATUS_ICONS[event.status];
+    const draggable = isDraggable(event);
+    return (
+      <button
+        key={event.id}
+        type="button"
+        draggable={draggable}
+        onDragStart={(e) => {
+          e.dataTransfer.setData('text/plain', event.id);
+          e.dataTransfer.effectAllowed = 'move';
+          setDraggingId(event.id);
+        }}
+        onDragEnd={() => {
+          setDraggingId(null);
+          setDropTarget(null);
+        }}
+        onClick={() => setSelectedEvent(event)}
+        title={`${event.eqpId} · ${event.type} · ${event.status}`}
+        className={cn(
+          'w-full flex items-center gap-1 rounded border px-1.5 py-0.5 text-left text-xs',
+          getTypeColor(event.type),
+          draggable ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer',
+          isClosedStatus(event.status) && 'opacity-60 line-through',
+          event.status === 'Overdue' && 'ring-2 ring-red-500',
+          draggingId === event.id && 'opacity-40'
+        )}
+      >
+        <Icon className={cn('h-3 w-3 shrink-0', event.status === 'Overdue' && 'text-red-600')} />
+        <span className="truncate font-medium">{event.eqpId}</span>
+        <span className="truncate">{event.type}</span>
+        {detailed && event.location && <span className="ml-auto truncate text-muted-foreground">{event.location}</span>}
+      </button>
+    );
+  };
+
+  const renderMonth = () => {
+    const days = eachDayOfInterval(range);
+    return (
+      <div className="grid grid-cols-7 border-l border-t">
+        {days.slice(0, 7).map(day => (
+          <div key={day.toISOString()} className="border-b border-r bg-muted/50 px-2 py-1 text-xs font-medium text-muted-foreground">
+            {format(day, 'EEE')}
+          </div>
+        ))}
+        {days.map(day => {
+          const dayEvents = eventsOnDay(day);
+          const hidden = dayEvents.length - MONTH_CELL_LIMIT;
+          return (
+            <div
+              key={day.toISOString()}
+              {...dropZoneProps(day)}
+              className={cn(
+                'min-h-28 border-b border-r p-1 space-y-1',
+                !isSameMonth(day, cursor) && 'bg-muted/30 text-muted-foreground',
+                dropTarget && isSameDay(dropTarget, day) && 'bg-primary/10'
+              )}
+            >
+              <div className={cn('text-xs font-medium', isToday(day) && 'inline-flex h-5 w-5 items-center justify-center rounded-full bg-primary text-primary-foreground')}>
+                {format(day, 'd')}
+              </div>
+              {dayEvents.slice(0, MONTH_CELL_LIMIT).map(event => renderEvent(event))}
+              {hidden > 0 && (
+                <button
+                  type="button"
+                  className="text-xs text-muted-foreground hover:underline"
+                  onClick={() => {
+                    setCursor(day);
+                    setView('week');
+                  }}
+                >
+                  +{hidden} more
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderWeek = () => (
+    <div className="grid grid-cols-7 border-l border-t">
+      {eachDayOfInterval(range).map(day => (
+        <div
+          key={day.toISOString()}
+          {...dropZoneProps(day)}
+          className={cn('min-h-[60vh] border-b border-r', dropTarget && isSameDay(dropTarget, day) && 'bg-primary/10')}
+        >
+          <div className={cn('border-b bg-muted/50 px-2 py-1 text-xs font-medium', isToday(day) && 'text-primary')}>
+            {format(day, 'EEE d MMM')}
+          </div>
+          <div className="space-y-1 p-1">
+            {eventsOnDay(day).map(event => renderEvent(event))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderAgenda = () => {
+    const days = eachDayOfInterval(range).filter(day => eventsOnDay(day).length > 0);
+    if (days.length === 0) {
+      return <p className="py-8 text-center text-sm text-muted-foreground">No maintenance in this period.</p>;
+    }
+    return (
+      <div className="space-y-3">
+        {days.map(day => (
+          <div
+            key={day.toISOString()}
+            {...dropZoneProps(day)}
+            className={cn('rounded-md border', dropTarget && isSameDay(dropTarget, day) && 'bg-primary/10')}
+          >
+            <div className={cn('border-b bg-muted/50 px-3 py-1.5 text-sm font-medium', isToday(day) && 'text-primary')}>
+              {formatDateFull(day)}
+            </div>
+            <div className="space-y-1 p-2">
+              {eventsOnDay(day).map(event => (
+                <div key={event.id} className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0">{renderEvent(event, true)}</div>
+                  <Badge variant="outline" className="shrink-0">{event.status}</Badge>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderFilter = (label: string, value: string, onChange: (value: string) => void, options: string[]) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-full sm:w-44">
+        <SelectValue placeholder={label} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL}>All {label.toLowerCase()}s</SelectItem>
+        {options.map(option => <SelectItem key={option} value={option}>{option}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="space-y-4">
+        <div>
+          <CardTitle className="font-headline">Maintenance Calendar</CardTitle>
+          <CardDescription>
+            {canReschedule
+              ? 'Drag an open event to another day to reschedule it, or open it to skip it. A reason is required and kept in the schedule history.'
+              : 'Scheduled, in-progress, completed and overdue maintenance by day.'}
+          </CardDescription>
+        </div>
+        <div className="flex flex-col gap-2 lg:flex-row lg:items-center lg:justify-between">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => setCursor(c => stepCursor(view, c, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" onClick={() => setCursor(new Date())}>Today</Button>
+            <Button variant="outline" size="icon" onClick={() => setCursor(c => stepCursor(view, c, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <span className="ml-2 font-medium">{getRangeLabel(view, cursor)}</span>
+          </div>
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <LocationSelect
+              options={locationOptions}
+              value={locationFilter}
+              onChange={setLocationFilter}
+              emptyLabel="All locations"
+              className="w-full sm:w-44"
+            />
+            {renderFilter('Instrument type', instrumentTypeFilter, setInstrumentTypeFilter, filterOptions.instrumentTypes)}
+            {renderFilter('Vendor', vendorFilter, setVendorFilter, filterOptions.vendors)}
+            <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+              <TabsList>
+                <TabsTrigger value="month">Month</TabsTrigger>
+                <TabsTrigger value="week">Week</TabsTrigger>
+                <TabsTrigger value="agenda">Agenda</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+        </div>
+        {legendTypes.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {legendTypes.map(type => (
+              <span key={type} className={cn('rounded border px-2 py-0.5 text-xs', getTypeColor(type))}>{type}</span>
+            ))}
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-[60vh] w-full" />
+        ) : view === 'month' ? renderMonth() : view === 'week' ? renderWeek() : renderAgenda()}
+      </CardContent>
+
+      <ScheduleTransitionDialog
+        schedule={pendingTransition ? {
+          id: pendingTransition.event.id,
+          dueDate: pendingTransition.event.dueDate,
+          label: `${pendingTransition.event.eqpId} · ${pendingTransition.event.type}`,
+        } : null}
+        transition={pendingTransition?.transition ?? null}
+        initialDueDate={pendingTransition?.toDate}
+        onOpenChange={(open) => !open && setPendingTransition(null)}
+        onTransitioned={() => {
+          setPendingTransition(null);
+          setReloadKey(key => key + 1);
+        }}
+      />
+      <CalendarEventDialog
+        event={selectedEvent}
+        onOpenChange={(open) => !open && setSelectedEvent(null)}
+        onTransition={selectedEvent && canRescheduleEvent(selectedEvent) ? (event, transition) => {
+          setSelectedEvent(null);
+          setPendingTransition({ event, transition });
+        } : undefined}
+      />
+    </Card>
+  );
+}
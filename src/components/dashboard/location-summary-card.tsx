@@ -0,0 +1,137 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { addDays } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { supabase } from '@/lib/supabase';
+import { classifyCompliance, fetchTypePolicies, resolveCompliancePolicy } from '@/lib/compliance';
+import { CLOSED_STATUS_FILTER } from '@/lib/schedule-transitions';
+import { LOCATION_LEVELS, getLocationAtLevel } from '@/lib/locations';
+import { useLocations } from '@/hooks/use-locations';
+import type { LocationLevel } from '@/lib/types';
+
+const DUE_SOON_DAYS = 30;
+
+type InstrumentRow = { id: string; location_id: string | null; status: string };
+type ScheduleRow = { instrumentId: string; type: string; dueDate: string };
+
+type LocationSummary = {
+  key: string;
+  label: string;
+  instruments: number;
+  outOfService: number;
+  open: number;
+  dueSoon: number;
+  overdue: number;
+};
+
+export function LocationSummaryCard() {
+  const { locations, options, isLoading: locationsLoading } = useLocations();
+  const [level, setLevel] = useState<LocationLevel>('site');
+  const [instruments, setInstruments] = useState<InstrumentRow[]>([]);
+  // Open schedules per instrument, already classified against their compliance window
+  const [openByInstrument, setOpenByInstrument] = useState<Map<string, { dueSoon: boolean; overdue: boolean }[]>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      const [{ data: instrumentData }, { data: schedules }, { data: configs }, typePolicies] = await Promise.all([
+        supabase.from('instruments').select('id, location_id, status'),
+        supabase.from('maintenanceSchedules').select('instrumentId, type, dueDate').not('status', 'in', CLOSED_STATUS_FILTER),
+        supabase.from('maintenance_configurations').select('instrument_id, maintenance_type, early_grace_days, late_grace_days, next_due_anchor'),
+        fetchTypePolicies(),
+      ]);
+      const configMap = new Map((configs || []).map(c => [`${c.instrument_id}_${c.maintenance_type}`, c]));
+
+      const now = new Date();
+      const soon = addDays(now, DUE_SOON_DAYS);
+      const open = new Map<string, { dueSoon: boolean; overdue: boolean }[]>();
+      ((schedules || []) as ScheduleRow[]).forEach(s => {
+        const policy = resolveCompliancePolicy(configMap.get(`${s.instrumentId}_${s.type}`), typePolicies.get(s.type));
+        const overdue = classifyCompliance(s.dueDate, policy, null, now) === 'out-of-compliance';
+        open.set(s.instrumentId, [...(open.get(s.instrumentId) || []), { overdue, dueSoon: !overdue && new Date(s.dueDate) <= soon }]);
+      });
+
+      setInstruments((instrumentData || []) as InstrumentRow[]);
+      setOpenByInstrument(open);
+      setIsLoading(false);
+    };
+    fetchData();
+  }, []);
+
+  const rows = useMemo(() => {
+    const groups = new Map<string, LocationSummary>();
+    // Locations at the chosen level show even when empty, in tree order
+    options
+      .filter(o => o.location.level === level)
+      .forEach(o => groups.set(o.location.id, { key: o.location.id, label: o.path, instruments: 0, outOfService: 0, open: 0, dueSoon: 0, overdue: 0 }));
+
+    for (const instrument of instruments) {
+      const location = getLocationAtLevel(instrument.location_id, level, locations);
+      const key = location?.id || '';
+      if (!groups.has(key)) {
+        groups.set(key, { key, label: 'Not at this level', instruments: 0, outOfService: 0, open: 0, dueSoon: 0, overdue: 0 });
+      }
+      const group = groups.get(key)!;
+      const open = openByInstrument.get(instrument.id) || [];
+      group.instruments += 1;
+      if (instrument.status === 'Out of Service') group.outOfService += 1;
+      group.open += open.length;
+      group.dueSoon += open.filter(s => s.dueSoon).length;
+      group.overdue += open.filter(s => s.overdue).length;
+    }
+    return Array.from(groups.values());
+  }, [options, locations, instruments, openByInstrument, level]);
+
+  if (isLoading || locationsLoading) return <Skeleton className="h-[200px]" />;
+  // Nothing to group by until the organization sets up its locations
+  if (locations.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Maintenance by Location</CardTitle>
+          <CardDescription>Open maintenance for the instruments in each location, including everything inside it</CardDescription>
+        </div>
+        <Select value={level} onValueChange={(value) => setLevel(value as LocationLevel)}>
+          <SelectTrigger className="w-[140px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LOCATION_LEVELS.map(l => <SelectItem key={l.value} value={l.value}>By {l.label.toLowerCase()}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Location</TableHead>
+              <TableHead className="text-right">Instruments</TableHead>
+              <TableHead className="text-right">Out of service</TableHead>
+              <TableHead className="text-right">Open</TableHead>
+              <TableHead className="text-right">Due in {DUE_SOON_DAYS} days</TableHead>
+              <TableHead className="text-right">Out of compliance</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.key}>
+                <TableCell className={row.key ? 'font-medium' : 'text-muted-foreground'}>{row.label}</TableCell>
+                <TableCell className="text-right">{row.instruments}</TableCell>
+                <TableCell className="text-right">{row.outOfService || '—'}</TableCell>
+                <TableCell className="text-right">{row.open}</TableCell>
+                <TableCell className="text-right">{row.dueSoon || '—'}</TableCell>
+                <TableCell className={row.overdue ? 'text-right font-medium text-destructive' : 'text-right'}>{row.overdue || '—'}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,11 +6,16 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { format, subMonths, startOfMonth, endOfMonth } from 'date-fns';
 import { supabase } from '@/lib/supabase';
 import { Skeleton } from '@/components/ui/skeleton';
+import { classifyCompliance, fetchTypePolicies, resolveCompliancePolicy, COMPLIANCE_STATE_LABELS } from '@/lib/compliance';
+import { isExcusedStatus } from '@/lib/schedule-transitions';
 
 type MonthData = {
   name: string;
-  onTime: number;
-  overdue: number;
+  early: number;
+  inWindow: number;
+  lateInGrace: number;
+  outOfCompliance: number;
+  excused: number;
 };
 
 export function MaintenanceCompletionChart() {
@@ -24,6 +29,12 @@ export function MaintenanceCompletionChart() {
         const months: MonthData[] = [];
         const now = new Date();
 
+        const { data: configs } = await supabase
+          .from('maintenance_configurations')
+          .select('instrument_id, maintenance_type, early_grace_days, late_grace_days, next_due_anchor');
+        const configMap = new Map((configs || []).map(c => [`${c.instrument_id}_${c.maintenance_type}`, c]));
+        const typePolicies = await fetchTypePolicies();
+
         for (let i = 5; i >= 0; i--) {
           const monthDate = subMonths(now, i);
           const monthStart = startOfMonth(monthDate);
@@ -32,43 +43,41 @@ export function MaintenanceCompletionChart() {
           // Fetch completed schedules for this month
           const { data: schedules } = await supabase
             .from('maintenanceSchedules')
-            .select('dueDate, completedDate, status')
+            .select('instrumentId, type, dueDate, completedDate, status')
             .gte('dueDate', monthStart.toISOString())
             .lte('dueDate', monthEnd.toISOString());
 
-          let onTime = 0;
-          let overdue = 0;
-
-          if (schedules) {
-            schedules.forEach(schedule => {
-              if (schedule.status === 'Completed') {
-                // Check if completed on time (completed before or on due date)
-                if (schedule.completedDate) {
-                  const completedDate = new Date(schedule.completedDate);
-                  const dueDate = new Date(schedule.dueDate);
-                  if (completedDate <= dueDate) {
-                    onTime++;
-                  } else {
-                    overdue++;
-                  }
-                } else {
-                  onTime++; // If completed but no completedDate, assume on time
-                }
-              } else if (schedule.status !== 'Scheduled') {
-                // If past due and not completed
-                const dueDate = new Date(schedule.dueDate);
-                if (dueDate < now) {
-                  overdue++;
-                }
-              }
-            });
-          }
-
-          months.push({
-            name: format(monthDate, 'MMM'),
-            onTime,
-            overdue
+          const month: MonthData = { name: format(monthDate, 'MMM'), early: 0, inWindow: 0, lateInGrace: 0, outOfCompliance: 0, excused: 0 };
+
+          schedules?.forEach(schedule => {
+            const policy = resolveCompliancePolicy(
+              configMap.get(`${schedule.instrumentId}_${schedule.type}`),
+              typePolicies.get(schedule.type)
+            );
+
+            // Shown beside the compliance bars, never counted as missed
+            if (isExcusedStatus(schedule.status)) {
+              month.excused++;
+              return;
+            }
+
+            if (schedule.status === 'Completed') {
+              // If completed but no completedDate, assume it was done on the due date
+              const state = classifyCompliance(schedule.dueDate, policy, schedule.completedDate || schedule.dueDate);
+              if (state === 'early') month.early++;
+              else if (state === 'in-window') month.inWindow++;
+              else if (state === 'late-in-grace') month.lateInGrace++;
+              else month.outOfCompliance++;
+              return;
+            }
+
+            // Open work only counts once it is late
+            const state = classifyCompliance(schedule.dueDate, policy, null, now);
+            if (state === 'late-in-grace') month.lateInGrace++;
+            else if (state === 'out-of-compliance') month.outOfCompliance++;
           });
+
+          months.push(month);
         }
 
         setData(months);
@@ -88,7 +97,7 @@ export function MaintenanceCompletionChart() {
       <Card className="col-span-1 lg:col-span-4 transition-all hover:shadow-md">
         <CardHeader>
           <CardTitle className="font-headline">Maintenance History</CardTitle>
-          <CardDescription>On-time vs. Overdue maintenance over the last 6 months.</CardDescription>
+          <CardDescription>Compliance of maintenance due over the last 6 months.</CardDescription>
         </CardHeader>
         <CardContent className="pl-2">
           <Skeleton className="h-[300px] w-full" />
@@ -97,13 +106,13 @@ export function MaintenanceCompletionChart() {
     );
   }
 
-  const hasData = data.some(d => d.onTime > 0 || d.overdue > 0);
+  const hasData = data.some(d => d.early + d.inWindow + d.lateInGrace + d.outOfCompliance + d.excused > 0);
 
   return (
     <Card className="col-span-1 lg:col-span-4 transition-all hover:shadow-md">
       <CardHeader>
         <CardTitle className="font-headline">Maintenance History</CardTitle>
-        <CardDescription>On-time vs. Overdue maintenance over the last 6 months.</CardDescription>
+        <CardDescription>Compliance of maintenance due over the last 6 months.</CardDescription>
       </CardHeader>
       <CardContent className="pl-2">
         {hasData ? (
@@ -121,8 +130,11 @@ export function MaintenanceCompletionChart() {
                 }}
               />
               <Legend iconSize={10} />
-              <Bar dataKey="onTime" name="On Time" fill="hsl(var(--chart-1))" radius={[4, 4, 0, 0]} />
-              <Bar dataKey="overdue" name="Overdue" fill="hsl(var(--chart-2))" radius={[4, 4, 0, 0]} />
+              <Bar dataKey="early" name={COMPLIANCE_STATE_LABELS['early']} stackId="compliance" fill="hsl(var(--chart-3))" />
+              <Bar dataKey="inWindow" name={COMPLIANCE_STATE_LABELS['in-window']} stackId="compliance" fill="hsl(var(--chart-1))" />
+              <Bar dataKey="lateInGrace" name={COMPLIANCE_STATE_LABELS['late-in-grace']} stackId="compliance" fill="hsl(var(--chart-4))" />
+              <Bar dataKey="outOfCompliance" name={COMPLIANCE_STATE_LABELS['out-of-compliance']} stackId="compliance" fill="hsl(var(--chart-2))" radius={[4, 4, 0, 0]} />
+              <Bar dataKey="excused" name="Skipped / Not Required" fill="hsl(var(--chart-5))" radius={[4, 4, 0, 0]} />
             </BarChart>
           </ResponsiveContainer>
         ) : (
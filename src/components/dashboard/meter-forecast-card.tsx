@@ -0,0 +1,91 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { formatDate } from '@/lib/date-utils';
+import { fetchMeterForecasts, USAGE_RATE_DAYS, type MeterForecast } from '@/lib/meters';
+
+const formatValue = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+
+export function MeterForecastCard() {
+  const [forecasts, setForecasts] = useState<MeterForecast[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchMeterForecasts().then(data => {
+      setForecasts(data);
+      setIsLoading(false);
+    });
+  }, []);
+
+  if (isLoading) return <Skeleton className="h-[200px]" />;
+  // Only organizations using meter triggers see the card
+  if (forecasts.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Usage-Based Maintenance</CardTitle>
+        <CardDescription>Projected from each meter&apos;s usage over the last {USAGE_RATE_DAYS} days</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Instrument</TableHead>
+              <TableHead>Meter</TableHead>
+              <TableHead className="w-[200px]">Usage to threshold</TableHead>
+              <TableHead>Rate</TableHead>
+              <TableHead>Projected due</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {forecasts.map(f => {
+              const used = f.currentValue - (f.dueValue - f.interval);
+              const reached = f.currentValue >= f.dueValue;
+              // The calendar date wins for 'whichever comes first' when it is earlier
+              const byCalendar = f.triggerType === 'either' && !!f.calendarDueDate && f.dueBy === f.calendarDueDate;
+              return (
+                <TableRow key={f.configId}>
+                  <TableCell>
+                    <Link href={`/instruments/${f.instrumentId}`} className="font-medium hover:underline">{f.eqpId}</Link>
+                    <div className="text-xs text-muted-foreground">{f.maintenanceType}</div>
+                  </TableCell>
+                  <TableCell>{f.meterName}</TableCell>
+                  <TableCell>
+                    <Progress value={Math.max(0, Math.min(100, (used / f.interval) * 100))} className="h-2" />
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {formatValue(f.currentValue)} / {formatValue(f.dueValue)} {f.unit}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {f.ratePerDay !== null ? `${formatValue(f.ratePerDay)} ${f.unit}/day` : '—'}
+                  </TableCell>
+                  <TableCell>
+                    {reached ? (
+                      <Badge variant="destructive">Threshold reached</Badge>
+                    ) : f.dueBy ? (
+                      <div>
+                        <div className="text-sm">{formatDate(f.dueBy)}</div>
+                        {f.triggerType === 'either' && (
+                          <div className="text-xs text-muted-foreground">{byCalendar ? 'Calendar date first' : 'Meter first'}</div>
+                        )}
+                      </div>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">Not enough readings</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
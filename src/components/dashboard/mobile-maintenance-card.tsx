@@ -1,5 +1,6 @@
 import { format } from 'date-fns';
 import { MaintenanceEvent, Instrument } from '@/lib/types';
+import { formatFrequency } from '@/lib/recurrence';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -25,7 +26,10 @@ export function MobileMaintenanceCard({
         switch (status) {
             case 'Completed': return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
             case 'Partially Completed': return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
+            case 'Late': return 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200';
             case 'Overdue': return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
+            case 'Skipped':
+            case 'Not Required': return 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300';
             default: return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200';
         }
     };
@@ -61,7 +65,7 @@ export function MobileMaintenanceCard({
                         <Activity className="w-4 h-4 text-primary/70" />
                         <span>{schedule.type}</span>
                         <span className="text-xs text-muted-foreground/50">•</span>
-                        <span>{schedule.frequency || 'N/A'}</span>
+                        <span>{formatFrequency(schedule.frequency, schedule.recurrenceRule) || 'N/A'}</span>
                     </div>
 
                     {schedule.maintenanceBy === 'vendor' && (
@@ -91,7 +95,9 @@ export function MobileMaintenanceCard({
                 </div>
             </CardContent>
             <CardFooter className="pt-2">
-                {schedule.maintenanceStatus !== 'Completed' ? (
+                {schedule.maintenanceStatus === 'Skipped' || schedule.maintenanceStatus === 'Not Required' ? (
+                    <p className="w-full text-center text-sm text-muted-foreground">{schedule.maintenanceStatus}</p>
+                ) : schedule.maintenanceStatus !== 'Completed' ? (
                     <Button
                         className="w-full"
                         variant={schedule.maintenanceStatus === 'Partially Completed' ? 'default' : 'outline'}
@@ -2,20 +2,27 @@
 
 import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Wrench, Settings, ClipboardCheck, Calendar } from 'lucide-react';
+import { CheckCircle, Clock, AlertCircle, Calendar } from 'lucide-react';
 import { startOfMonth, endOfMonth } from 'date-fns';
 import { supabase } from '@/lib/supabase';
 import { Skeleton } from '@/components/ui/skeleton';
+import { classifyCompliance, fetchTypePolicies, resolveCompliancePolicy, COMPLIANCE_STATE_LABELS } from '@/lib/compliance';
+import { isExcusedStatus } from '@/lib/schedule-transitions';
+import type { ComplianceState } from '@/lib/types';
 
-type MaintenanceCounts = {
-  pm: number;
-  amc: number;
-  calibration: number;
-  total: number;
-};
+// Compliance is only counted for closed work; open work is tallied separately
+type MaintenanceCounts = Record<Exclude<ComplianceState, 'upcoming'>, number> & { total: number; open: number; excused: number };
 
 export function OverviewCards() {
-  const [counts, setCounts] = useState<MaintenanceCounts>({ pm: 0, amc: 0, calibration: 0, total: 0 });
+  const [counts, setCounts] = useState<MaintenanceCounts>({
+    'early': 0,
+    'in-window': 0,
+    'late-in-grace': 0,
+    'out-of-compliance': 0,
+    total: 0,
+    open: 0,
+    excused: 0,
+  });
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -27,38 +34,36 @@ export function OverviewCards() {
       // Fetch schedules for current month
       const { data: schedules } = await supabase
         .from('maintenanceSchedules')
-        .select('type, status')
+        .select('instrumentId, type, status, dueDate, completedDate')
         .gte('dueDate', monthStart.toISOString())
         .lte('dueDate', monthEnd.toISOString());
 
-      // Also fetch results for calibration count
-      const { data: results } = await supabase
-        .from('maintenanceResults')
-        .select('resultType, completedDate')
-        .gte('completedDate', monthStart.toISOString())
-        .lte('completedDate', monthEnd.toISOString());
+      const { data: configs } = await supabase
+        .from('maintenance_configurations')
+        .select('instrument_id, maintenance_type, early_grace_days, late_grace_days, next_due_anchor');
+      const configMap = new Map((configs || []).map(c => [`${c.instrument_id}_${c.maintenance_type}`, c]));
+      const typePolicies = await fetchTypePolicies();
 
-      let pm = 0, amc = 0, calibration = 0;
+      const next: MaintenanceCounts = { 'early': 0, 'in-window': 0, 'late-in-grace': 0, 'out-of-compliance': 0, total: 0, open: 0, excused: 0 };
 
-      if (schedules) {
-        schedules.forEach(s => {
-          if (s.type === 'Preventative Maintenance' || s.type === 'PM') pm++;
-          else if (s.type === 'AMC') amc++;
-        });
-      }
-
-      if (results) {
-        results.forEach(r => {
-          if (r.resultType === 'calibration') calibration++;
-        });
-      }
-
-      setCounts({
-        pm,
-        amc,
-        calibration,
-        total: pm + amc
+      // Completed work is classified by when it was done; open work is not judged yet.
+      // Skipped and not-required occurrences are reported but not judged either.
+      schedules?.forEach(s => {
+        if (isExcusedStatus(s.status)) {
+          next.excused++;
+          return;
+        }
+        next.total++;
+        if (s.status !== 'Completed') {
+          next.open++;
+          return;
+        }
+        const policy = resolveCompliancePolicy(configMap.get(`${s.instrumentId}_${s.type}`), typePolicies.get(s.type));
+        const state = classifyCompliance(s.dueDate, policy, s.completedDate || s.dueDate, now);
+        if (state !== 'upcoming') next[state]++;
       });
+
+      setCounts(next);
       setIsLoading(false);
     };
 
@@ -84,10 +89,10 @@ export function OverviewCards() {
   }
 
   const cardData = [
-    { title: 'Total This Month', value: counts.total, icon: Calendar, description: 'Scheduled maintenance' },
-    { title: 'PM', value: counts.pm, icon: Wrench, description: 'Preventative Maintenance' },
-    { title: 'AMC', value: counts.amc, icon: Settings, description: 'Annual Maintenance Contract' },
-    { title: 'Calibrations', value: counts.calibration, icon: ClipboardCheck, description: 'Completed this month' },
+    { title: 'Due This Month', value: counts.total, icon: Calendar, description: `${counts.open} still open, ${counts['early']} done early, ${counts.excused} skipped or not required` },
+    { title: COMPLIANCE_STATE_LABELS['in-window'], value: counts['in-window'], icon: CheckCircle, description: 'Done within the window' },
+    { title: COMPLIANCE_STATE_LABELS['late-in-grace'], value: counts['late-in-grace'], icon: Clock, description: 'Done past due, inside the grace period' },
+    { title: COMPLIANCE_STATE_LABELS['out-of-compliance'], value: counts['out-of-compliance'], icon: AlertCircle, description: 'Done after the grace period' },
   ];
 
   return (
@@ -6,18 +6,32 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { differenceInDays, addDays, addWeeks, addMonths, addYears } from 'date-fns';
+import { differenceInDays } from 'date-fns';
 import { useAuth } from '@/contexts/auth-context';
 import { supabase } from '@/lib/supabase';
 import { formatDate } from '@/lib/date-utils';
-import type { MaintenanceEvent, Instrument, MaintenanceConfiguration, MaintenanceFrequency } from '@/lib/types';
+import { formatFrequency } from '@/lib/recurrence';
+import { getConfigOccurrences } from '@/lib/schedule-generator';
+import { applyBlackouts, fetchBlackouts, selectInstrumentBlackouts } from '@/lib/blackouts';
+import { classifyCompliance, fetchTypePolicies, resolveCompliancePolicy, COMPLIANCE_STATE_LABELS } from '@/lib/compliance';
+import { isExcusedStatus, SCHEDULE_TRANSITION_LABELS } from '@/lib/schedule-transitions';
+import { getMemberName, resolveDefaultAssignment, type Assignment } from '@/lib/assignment';
+import { useTechnicians } from '@/hooks/use-technicians';
+import { useLocations } from '@/hooks/use-locations';
+import { fetchLocationTree, getLocationSubtreeIds } from '@/lib/locations';
+import { LocationSelect } from '../locations/location-select';
+import type { MaintenanceEvent, Instrument, MaintenanceConfiguration, MaintenanceFrequency, ComplianceState, ScheduleTransition } from '@/lib/types';
 import { Skeleton } from '../ui/skeleton';
 import { MobileMaintenanceCard } from './mobile-maintenance-card';
 import { ColumnFilterPopover } from './column-filter-popover';
 import { MaintenanceTypeCards } from './maintenance-type-cards';
 import { UpdateMaintenanceDialog } from '../maintenance/update-maintenance-dialog';
 import { ViewMaintenanceResultDialog } from '../maintenance/view-maintenance-result-dialog';
-import { CheckCircle, Clock, AlertCircle, CircleDot, Search, ArrowUpDown, ArrowUp, ArrowDown, Info } from 'lucide-react';
+import { ScheduleTransitionDialog } from '../maintenance/schedule-transition-dialog';
+import { AssignScheduleDialog } from '../maintenance/assign-schedule-dialog';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { CheckCircle, Clock, AlertCircle, CircleDot, Search, ArrowUpDown, ArrowUp, ArrowDown, Info, MoreHorizontal, Ban } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import {
   Select,
@@ -26,33 +40,31 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-
-type MaintenanceStatus = 'Completed' | 'Pending' | 'Partially Completed' | 'Overdue';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+// 'Late' is past due but inside the grace window; 'Overdue' is out of compliance.
+// 'Skipped' and 'Not Required' were closed without the work and are not judged.
+type MaintenanceStatus = 'Completed' | 'Pending' | 'Partially Completed' | 'Late' | 'Overdue' | 'Skipped' | 'Not Required';
 type SortField = 'instrument' | 'type' | 'location' | 'dueDate' | 'status' | 'daysLeft' | 'instrumentType';
 type SortOrder = 'asc' | 'desc';
 type TimeRange = '30' | '90' | '180' | '365';
-type StatusFilter = 'all' | 'pending' | 'overdue';
-type FrequencyFilter = 'all' | 'Daily' | 'Weekly' | 'Monthly' | '3 Months' | '6 Months' | '1 Year';
+type StatusFilter = 'all' | 'pending' | 'late' | 'overdue';
+type FrequencyFilter = 'all' | MaintenanceFrequency;
 
 interface EnhancedEvent extends MaintenanceEvent {
   maintenanceStatus: MaintenanceStatus;
+  compliance?: ComplianceState;
   totalSections?: number;
   completedSections?: number;
   hasResult?: boolean;
 }
 
-const getNextDate = (date: Date, frequency: MaintenanceFrequency): Date => {
-  switch (frequency) {
-    case 'Daily': return addDays(date, 1);
-    case 'Weekly': return addWeeks(date, 1);
-    case 'Monthly': return addMonths(date, 1);
-    case '3 Months': return addMonths(date, 3);
-    case '6 Months': return addMonths(date, 6);
-    case '1 Year': return addYears(date, 1);
-    default: return date;
-  }
-};
-
 // Smart limits to prevent UI performance issues
 const getMaxOccurrences = (timeRange: TimeRange, frequency: MaintenanceFrequency): number => {
   const days = parseInt(timeRange);
@@ -81,6 +93,12 @@ const getMaxOccurrences = (timeRange: TimeRange, frequency: MaintenanceFrequency
   }
 };
 
+const getOpenStatus = (compliance: ComplianceState): MaintenanceStatus => {
+  if (compliance === 'out-of-compliance') return 'Overdue';
+  if (compliance === 'late-in-grace') return 'Late';
+  return 'Pending';
+};
+
 export function UpcomingMaintenanceList() {
   const [upcomingSchedules, setUpcomingSchedules] = useState<EnhancedEvent[]>([]);
   const [instrumentsMap, setInstrumentsMap] = useState<Record<string, Instrument>>({});
@@ -89,6 +107,9 @@ export function UpcomingMaintenanceList() {
   const [selectedInstrumentId, setSelectedInstrumentId] = useState<string>('');
   const [viewSchedule, setViewSchedule] = useState<MaintenanceEvent | null>(null);
   const [viewInstrumentId, setViewInstrumentId] = useState<string>('');
+  const [transitionSchedule, setTransitionSchedule] = useState<{ event: MaintenanceEvent; transition: ScheduleTransition } | null>(null);
+  const [assignEvent, setAssignEvent] = useState<MaintenanceEvent | null>(null);
+  const [myTasksOnly, setMyTasksOnly] = useState(false);
 
   // Search and filter state
   const [searchTerm, setSearchTerm] = useState('');
@@ -98,6 +119,7 @@ export function UpcomingMaintenanceList() {
   const [sortField, setSortField] = useState<SortField>('dueDate');
   const [sortOrder, setSortOrder] = useState<SortOrder>('asc');
   const [selectedType, setSelectedType] = useState<string | undefined>(undefined);
+  const [locationFilter, setLocationFilter] = useState('');
 
   // Excel-like column filters
   const [columnFilters, setColumnFilters] = useState<{
@@ -116,7 +138,35 @@ export function UpcomingMaintenanceList() {
     instrumentType: [],
   });
 
-  const { user, isLoading: authLoading } = useAuth();
+  const { user, orgId, isLoading: authLoading, hasPermission, hasInstrumentPermission } = useAuth();
+  const canTransition = (instrumentId: string) => {
+    const instrument = instrumentsMap[instrumentId];
+    return instrument
+      ? hasInstrumentPermission('update_maintenance', 'edit', instrument)
+      : hasPermission('update_maintenance', 'edit');
+  };
+  const { members, teams, qualifications, locationDefaults } = useTechnicians();
+  const { locations, options: locationOptions } = useLocations();
+
+  // Projected occurrences show the assignment they will get once created
+  const getAssignment = (event: MaintenanceEvent): Assignment =>
+    event.id.startsWith('virtual-')
+      ? resolveDefaultAssignment(instrumentsMap[event.instrumentId], locationDefaults)
+      : { assigned_to: event.assigned_to || null, assigned_team_id: event.assigned_team_id || null };
+
+  const isMyTask = (event: MaintenanceEvent) => {
+    const assignment = getAssignment(event);
+    if (assignment.assigned_to) return assignment.assigned_to === user?.id;
+    return !!assignment.assigned_team_id && !!teams.find(t => t.id === assignment.assigned_team_id)?.memberIds.includes(user?.id || '');
+  };
+
+  const getAssigneeLabel = (event: MaintenanceEvent) => {
+    const assignment = getAssignment(event);
+    const team = teams.find(t => t.id === assignment.assigned_team_id)?.name;
+    const person = getMemberName(members, assignment.assigned_to);
+    if (person && team) return `${person} (${team})`;
+    return person || team || '';
+  };
 
   const fetchUpcoming = async () => {
     setIsLoading(true);
@@ -139,7 +189,12 @@ export function UpcomingMaintenanceList() {
         configMap.set(key, c);
       });
 
-      // 3. Fetch ALL schedules from DB (no virtual generation)
+      // Grace windows: configuration overrides, then the maintenance type's policy
+      const typePolicies = await fetchTypePolicies();
+      const getPolicy = (instrumentId: string, type: string) =>
+        resolveCompliancePolicy(configMap.get(`${instrumentId}_${type}`), typePolicies.get(type));
+
+      // 3. Fetch ALL schedules from DB in the window
       const { data: schedules, error: scheduleError } = await supabase
         .from('maintenanceSchedules')
         .select('*')
@@ -157,13 +212,19 @@ export function UpcomingMaintenanceList() {
       const combinedEvents: EnhancedEvent[] = [];
 
       // Helper to determine status
-      const getMaintenanceStatus = (schedule: MaintenanceEvent): { status: MaintenanceStatus; totalSections: number; completedSections: number; hasResult: boolean } => {
+      const getMaintenanceStatus = (schedule: MaintenanceEvent): { status: MaintenanceStatus; compliance?: ComplianceState; totalSections: number; completedSections: number; hasResult: boolean } => {
+        if (schedule.status === 'Skipped' || schedule.status === 'Not Required') {
+          return { status: schedule.status, totalSections: 0, completedSections: 0, hasResult: false };
+        }
+        const policy = getPolicy(schedule.instrumentId, schedule.type);
+        const openCompliance = classifyCompliance(schedule.dueDate, policy);
         const result = results?.find(r => r.maintenanceScheduleId === schedule.id);
         if (!result) {
-          const isPastDue = new Date(schedule.dueDate) < new Date();
-          return { status: isPastDue ? 'Overdue' : 'Pending', totalSections: 0, completedSections: 0, hasResult: false };
+          return { status: getOpenStatus(openCompliance), compliance: openCompliance, totalSections: 0, completedSections: 0, hasResult: false };
         }
 
+        const completedCompliance = classifyCompliance(schedule.dueDate, policy, schedule.completedDate || result.completedDate);
+
         const testData = result.testData as any[] | null;
         if (testData && Array.isArray(testData) && testData.length > 0) {
           const totalSections = testData.length;
@@ -179,23 +240,21 @@ export function UpcomingMaintenanceList() {
             return allRowsComplete;
           }).length;
 
-          if (completedSections === 0) return { status: 'Pending', totalSections, completedSections, hasResult: true };
-          if (completedSections < totalSections) return { status: 'Partially Completed', totalSections, completedSections, hasResult: true };
-          return { status: 'Completed', totalSections, completedSections, hasResult: true };
+          if (completedSections === 0) return { status: getOpenStatus(openCompliance), compliance: openCompliance, totalSections, completedSections, hasResult: true };
+          if (completedSections < totalSections) return { status: 'Partially Completed', compliance: openCompliance, totalSections, completedSections, hasResult: true };
+          return { status: 'Completed', compliance: completedCompliance, totalSections, completedSections, hasResult: true };
         }
 
         if (schedule.status === 'Completed') {
-          return { status: 'Completed', totalSections: 0, completedSections: 0, hasResult: true };
+          return { status: 'Completed', compliance: completedCompliance, totalSections: 0, completedSections: 0, hasResult: true };
         }
-        return { status: 'Partially Completed', totalSections: 0, completedSections: 0, hasResult: true };
+        return { status: 'Partially Completed', compliance: openCompliance, totalSections: 0, completedSections: 0, hasResult: true };
       };
 
-      // Process DB schedules only - NO VIRTUAL SCHEDULES
+      // Process DB schedules
       if (schedules) {
-        console.log('DEBUG: Fetched DB Schedules:', schedules.length);
-
-        schedules.forEach((schedule) => {
-          const { status, totalSections, completedSections, hasResult } = getMaintenanceStatus(schedule as any);
+        schedules.forEach((schedule: MaintenanceEvent) => {
+          const { status, compliance, totalSections, completedSections, hasResult } = getMaintenanceStatus(schedule);
 
           // Get config for frequency info
           const configKey = `${schedule.instrumentId}_${schedule.type}`;
@@ -204,11 +263,13 @@ export function UpcomingMaintenanceList() {
           combinedEvents.push({
             ...schedule,
             maintenanceStatus: status,
+            compliance,
             totalSections,
             completedSections,
             hasResult,
             templateId: schedule.template_id || schedule.templateId,
             frequency: config?.frequency || 'Monthly',
+            recurrenceRule: config?.recurrence_rule || null,
             maintenanceBy: schedule.maintenanceBy || config?.maintenanceBy || 'internal',
             vendorName: schedule.vendorName || config?.vendorName || null,
             vendorContact: schedule.vendorContact || config?.vendorContact || null,
@@ -216,8 +277,71 @@ export function UpcomingMaintenanceList() {
         });
       }
 
-      console.log('DEBUG: Combined Events (DB only):', combinedEvents.length);
-      // DEBUG LOG
+      // Project virtual occurrences where generated schedules run out inside the window
+      // (e.g. next year's batch is not created yet). Same engine as generateYearSchedules.
+      const { data: laterSchedules } = await supabase
+        .from('maintenanceSchedules')
+        .select('instrumentId, type')
+        .gt('dueDate', futureDate.toISOString())
+        .is('meter_id', null);
+      const coveredKeys = new Set((laterSchedules || []).map(s => `${s.instrumentId}_${s.type}`));
+      const blackouts = await fetchBlackouts(orgId);
+      const locationTree = await fetchLocationTree(orgId);
+
+      // Meter-triggered rows are not part of the calendar series
+      const lastDueByKey = new Map<string, Date>();
+      schedules?.forEach(schedule => {
+        if (schedule.meter_id) return;
+        const key = `${schedule.instrumentId}_${schedule.type}`;
+        const due = new Date(schedule.dueDate);
+        const last = lastDueByKey.get(key);
+        if (!last || due > last) lastDueByKey.set(key, due);
+      });
+
+      configs?.forEach(config => {
+        const key = `${config.instrument_id}_${config.maintenance_type}`;
+        if (config.is_active === false || config.suspended_at || coveredKeys.has(key) || !instMap[config.instrument_id]) return;
+
+        const lastDue = lastDueByKey.get(key);
+        let dueDates: Date[] = [];
+        try {
+          dueDates = getConfigOccurrences(config, {
+            from: lastDue ? new Date(lastDue.getTime() + 1) : new Date(),
+            to: futureDate,
+            limit: getMaxOccurrences(timeRange, config.frequency),
+          });
+        } catch (err) {
+          console.error(`Invalid recurrence rule on configuration ${config.id}:`, err);
+        }
+        const instrumentBlackouts = selectInstrumentBlackouts(blackouts, instMap[config.instrument_id], locationTree);
+        dueDates = dueDates
+          .map(date => applyBlackouts(date, instrumentBlackouts, null))
+          .filter((date): date is Date => date !== null);
+
+        const policy = getPolicy(config.instrument_id, config.maintenance_type);
+        dueDates.forEach(dueDate => {
+          const compliance = classifyCompliance(dueDate, policy);
+          combinedEvents.push({
+            id: `virtual-${config.id}-${dueDate.getTime()}`,
+            instrumentId: config.instrument_id,
+            dueDate: dueDate.toISOString(),
+            type: config.maintenance_type,
+            description: `Scheduled ${config.maintenance_type}`,
+            status: 'Scheduled',
+            maintenanceStatus: getOpenStatus(compliance),
+            compliance,
+            totalSections: 0,
+            completedSections: 0,
+            hasResult: false,
+            templateId: config.template_id || null,
+            frequency: config.frequency,
+            recurrenceRule: config.recurrence_rule || null,
+            maintenanceBy: config.maintenanceBy || 'internal',
+            vendorName: config.vendorName || null,
+            vendorContact: config.vendorContact || null,
+          });
+        });
+      });
 
       // Deduplicate by instrument + type + day, prefer real schedules over virtual
       const normalizeDay = (dateStr: string) => {
@@ -273,49 +397,62 @@ export function UpcomingMaintenanceList() {
     fetchUpcoming();
   }, [timeRange, authLoading]);
 
-  const handleUpdateClick = async (event: MaintenanceEvent) => {
-    if (event.id.startsWith('virtual-')) {
-      const insertPayload = {
-        instrumentId: event.instrumentId,
-        dueDate: event.dueDate,
-        type: event.type,
-        description: event.description,
-        status: 'Scheduled',
-        user_id: user?.id,
-        template_id: event.templateId || null,
-        maintenanceBy: event.maintenanceBy || instrumentsMap[event.instrumentId]?.maintenanceBy || 'self',
-        vendorName: event.vendorName || instrumentsMap[event.instrumentId]?.vendorName || null,
-        vendorContact: event.vendorContact || instrumentsMap[event.instrumentId]?.vendorContact || null,
-      };
-
-      const { data, error } = await supabase.from('maintenanceSchedules').insert(insertPayload).select().single();
+  // Projected occurrences only exist in the list until someone acts on them
+  const materializeSchedule = async (event: MaintenanceEvent): Promise<MaintenanceEvent | null> => {
+    if (!event.id.startsWith('virtual-')) return event;
+
+    const insertPayload = {
+      instrumentId: event.instrumentId,
+      dueDate: event.dueDate,
+      type: event.type,
+      description: event.description,
+      status: 'Scheduled',
+      user_id: user?.id,
+      template_id: event.templateId || null,
+      maintenanceBy: event.maintenanceBy || instrumentsMap[event.instrumentId]?.maintenanceBy || 'self',
+      vendorName: event.vendorName || instrumentsMap[event.instrumentId]?.vendorName || null,
+      vendorContact: event.vendorContact || instrumentsMap[event.instrumentId]?.vendorContact || null,
+    };
+
+    const { data, error } = await supabase.from('maintenanceSchedules').insert(insertPayload).select().single();
+
+    if (error || !data) {
+      console.error('Error creating schedule:', error);
+      return null;
+    }
 
-      if (error) {
-        console.error('Error creating schedule:', error);
-        return;
-      }
+    // Manually attach the templateId from the virtual event so the Dialog knows which one to load
+    return {
+      ...data,
+      templateId: event.templateId || data.templateId || data.template_id // Preserve from virtual source, or use from DB
+    };
+  };
 
-      if (data) {
-        // Manually attach the templateId from the virtual event so the Dialog knows which one to load
-        const finalSchedule = {
-          ...data,
-          templateId: event.templateId || data.templateId || data.template_id // Preserve from virtual source, or use from DB
-        };
-        setSelectedSchedule(finalSchedule);
-        setSelectedInstrumentId(data.instrumentId);
-      }
-    } else {
-      setSelectedSchedule(event);
-      setSelectedInstrumentId(event.instrumentId);
+  const handleUpdateClick = async (event: MaintenanceEvent) => {
+    const schedule = await materializeSchedule(event);
+    if (schedule) {
+      setSelectedSchedule(schedule);
+      setSelectedInstrumentId(schedule.instrumentId);
     }
   };
 
+  const handleTransitionClick = async (event: MaintenanceEvent, transition: ScheduleTransition) => {
+    const schedule = await materializeSchedule(event);
+    if (schedule) setTransitionSchedule({ event: schedule, transition });
+  };
+
+  const handleAssignClick = async (event: MaintenanceEvent) => {
+    const schedule = await materializeSchedule(event);
+    if (schedule) setAssignEvent(schedule);
+  };
+
   const getStatusBadge = (event: EnhancedEvent) => {
     switch (event.maintenanceStatus) {
       case 'Completed':
         return (
           <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
             <CheckCircle className="w-3 h-3 mr-1" /> Completed
+            {event.compliance && event.compliance !== 'in-window' && ` · ${COMPLIANCE_STATE_LABELS[event.compliance]}`}
           </Badge>
         );
       case 'Partially Completed':
@@ -325,16 +462,30 @@ export function UpcomingMaintenanceList() {
             Partial ({event.completedSections}/{event.totalSections})
           </Badge>
         );
+      case 'Late':
+        return (
+          <Badge className="bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+            <Clock className="w-3 h-3 mr-1" /> {COMPLIANCE_STATE_LABELS['late-in-grace']}
+          </Badge>
+        );
       case 'Overdue':
         return (
           <Badge className="bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">
-            <AlertCircle className="w-3 h-3 mr-1" /> Overdue
+            <AlertCircle className="w-3 h-3 mr-1" /> {COMPLIANCE_STATE_LABELS['out-of-compliance']}
+          </Badge>
+        );
+      case 'Skipped':
+      case 'Not Required':
+        return (
+          <Badge className="bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300">
+            <Ban className="w-3 h-3 mr-1" /> {event.maintenanceStatus}
           </Badge>
         );
       default:
         return (
           <Badge className="bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
-            <Clock className="w-3 h-3 mr-1" /> Pending
+            <Clock className="w-3 h-3 mr-1" /> {event.compliance === 'in-window' ? COMPLIANCE_STATE_LABELS['in-window'] : 'Pending'}
+            {event.status === 'Rescheduled' && ' · Rescheduled'}
           </Badge>
         );
     }
@@ -363,18 +514,34 @@ export function UpcomingMaintenanceList() {
     if (statusFilter === 'pending') {
       data = data.filter(schedule =>
         schedule.maintenanceStatus === 'Pending' ||
-        schedule.maintenanceStatus === 'Partially Completed'
+        schedule.maintenanceStatus === 'Partially Completed' ||
+        schedule.maintenanceStatus === 'Late'
       );
+    } else if (statusFilter === 'late') {
+      data = data.filter(schedule => schedule.maintenanceStatus === 'Late');
     } else if (statusFilter === 'overdue') {
       data = data.filter(schedule => schedule.maintenanceStatus === 'Overdue');
     }
     // 'all' shows everything - no filter needed
 
+    if (myTasksOnly) {
+      data = data.filter(isMyTask);
+    }
+
     // Frequency filter
     if (frequencyFilter !== 'all') {
       data = data.filter(schedule => schedule.frequency === frequencyFilter);
     }
 
+    // Location tree filter: the chosen location and everything inside it
+    if (locationFilter) {
+      const locationIds = getLocationSubtreeIds(locationFilter, locations);
+      data = data.filter(schedule => {
+        const locationId = instrumentsMap[schedule.instrumentId]?.location_id;
+        return !!locationId && locationIds.has(locationId);
+      });
+    }
+
     // Column filters (Excel-like)
     if (columnFilters.instrument.length > 0) {
       data = data.filter(schedule => {
@@ -461,7 +628,7 @@ export function UpcomingMaintenanceList() {
     });
 
     return data;
-  }, [upcomingSchedules, instrumentsMap, searchTerm, sortField, sortOrder, statusFilter, frequencyFilter, selectedType, columnFilters]);
+  }, [upcomingSchedules, instrumentsMap, searchTerm, sortField, sortOrder, statusFilter, frequencyFilter, selectedType, locationFilter, locations, columnFilters, myTasksOnly, teams, locationDefaults, user]);
 
   // Get all unique values for column filters
   const getColumnValues = (column: keyof typeof columnFilters): string[] => {
@@ -540,6 +707,11 @@ export function UpcomingMaintenanceList() {
               </CardDescription>
             </div>
             <div className="flex flex-wrap items-center gap-2">
+              <div className="flex items-center gap-2 mr-2">
+                <Switch id="my-tasks" checked={myTasksOnly} onCheckedChange={setMyTasksOnly} />
+                <Label htmlFor="my-tasks" className="text-sm">My tasks</Label>
+              </div>
+
               {/* Search */}
               <div className="relative">
                 <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
@@ -551,6 +723,17 @@ export function UpcomingMaintenanceList() {
                 />
               </div>
 
+              {/* Location Filter */}
+              {locationOptions.length > 0 && (
+                <LocationSelect
+                  options={locationOptions}
+                  value={locationFilter}
+                  onChange={setLocationFilter}
+                  emptyLabel="All locations"
+                  className="w-[200px]"
+                />
+              )}
+
               {/* Status Filter */}
               <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as StatusFilter)}>
                 <SelectTrigger className="w-[150px]">
@@ -559,7 +742,8 @@ export function UpcomingMaintenanceList() {
                 <SelectContent>
                   <SelectItem value="pending">Pending Only</SelectItem>
                   <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="overdue">Overdue</SelectItem>
+                  <SelectItem value="late">Late (In Grace)</SelectItem>
+                  <SelectItem value="overdue">Out of Compliance</SelectItem>
                 </SelectContent>
               </Select>
 
@@ -576,6 +760,7 @@ export function UpcomingMaintenanceList() {
                   <SelectItem value="3 Months">3 Months</SelectItem>
                   <SelectItem value="6 Months">6 Months</SelectItem>
                   <SelectItem value="1 Year">Yearly</SelectItem>
+                  <SelectItem value="Custom">Custom</SelectItem>
                 </SelectContent>
               </Select>
 
@@ -685,6 +870,7 @@ export function UpcomingMaintenanceList() {
                     />
                   </div>
                 </TableHead>
+                <TableHead>Assigned To</TableHead>
                 <TableHead>
                   <div className="flex items-center gap-1">
                     <span>Frequency</span>
@@ -731,7 +917,7 @@ export function UpcomingMaintenanceList() {
             <TableBody>
               {isLoading ? (
                 <TableRow>
-                  <TableCell colSpan={9} className="h-24 text-center">
+                  <TableCell colSpan={10} className="h-24 text-center">
                     <div className="flex items-center justify-center gap-2">
                       <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin" />
                       Loading schedules...
@@ -772,7 +958,10 @@ export function UpcomingMaintenanceList() {
                           'Self'
                         )}
                       </TableCell>
-                      <TableCell className="text-muted-foreground text-sm">{schedule.frequency}</TableCell>
+                      <TableCell className="text-sm">
+                        {getAssigneeLabel(schedule) || <span className="text-muted-foreground">Unassigned</span>}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-sm">{formatFrequency(schedule.frequency, schedule.recurrenceRule)}</TableCell>
                       <TableCell className="text-muted-foreground text-sm">{instrument?.location || 'N/A'}</TableCell>
                       <TableCell>
                         <span className="font-medium">{formatDate(schedule.dueDate)}</span>
@@ -815,14 +1004,35 @@ export function UpcomingMaintenanceList() {
                             </Button>
                           </div>
                         )}
-                        {schedule.maintenanceStatus !== 'Completed' && schedule.maintenanceStatus !== 'Partially Completed' && (
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => handleUpdateClick(schedule)}
-                          >
-                            Update
-                          </Button>
+                        {schedule.maintenanceStatus !== 'Completed' && schedule.maintenanceStatus !== 'Partially Completed' && !isExcusedStatus(schedule.maintenanceStatus) && (
+                          <div className="flex gap-1 justify-end">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleUpdateClick(schedule)}
+                            >
+                              Update
+                            </Button>
+                            {canTransition(schedule.instrumentId) && (
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <Button size="sm" variant="ghost">
+                                    <MoreHorizontal className="w-4 h-4" />
+                                    <span className="sr-only">More actions</span>
+                                  </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                  <DropdownMenuItem onClick={() => handleAssignClick(schedule)}>Assign…</DropdownMenuItem>
+                                  <DropdownMenuSeparator />
+                                  {(['Rescheduled', 'Skipped', 'Not Required'] as ScheduleTransition[]).map(transition => (
+                                    <DropdownMenuItem key={transition} onClick={() => handleTransitionClick(schedule, transition)}>
+                                      {SCHEDULE_TRANSITION_LABELS[transition]}
+                                    </DropdownMenuItem>
+                                  ))}
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                            )}
+                          </div>
                         )}
                       </TableCell>
                     </TableRow>
@@ -830,7 +1040,7 @@ export function UpcomingMaintenanceList() {
                 })
               ) : (
                 <TableRow>
-                  <TableCell colSpan={9} className="text-center text-muted-foreground h-24">
+                  <TableCell colSpan={10} className="text-center text-muted-foreground h-24">
                     {searchTerm ? 'No results match your search.' : `No upcoming maintenance in the ${timeRangeLabel[timeRange].toLowerCase()}.`}
                   </TableCell>
                 </TableRow>
@@ -855,6 +1065,39 @@ export function UpcomingMaintenanceList() {
         />
       )}
 
+      <ScheduleTransitionDialog
+        schedule={transitionSchedule ? {
+          id: transitionSchedule.event.id,
+          dueDate: transitionSchedule.event.dueDate,
+          label: `${instrumentsMap[transitionSchedule.event.instrumentId]?.eqpId || 'Instrument'} · ${transitionSchedule.event.type}`,
+        } : null}
+        transition={transitionSchedule?.transition ?? null}
+        onOpenChange={(open) => !open && setTransitionSchedule(null)}
+        onTransitioned={() => {
+          setTransitionSchedule(null);
+          fetchUpcoming();
+        }}
+      />
+
+      <AssignScheduleDialog
+        schedule={assignEvent ? {
+          id: assignEvent.id,
+          label: `${instrumentsMap[assignEvent.instrumentId]?.eqpId || 'Instrument'} · ${assignEvent.type}`,
+          instrumentType: instrumentsMap[assignEvent.instrumentId]?.instrumentType,
+          templateId: assignEvent.templateId,
+          assigned_to: assignEvent.assigned_to,
+          assigned_team_id: assignEvent.assigned_team_id,
+        } : null}
+        members={members}
+        teams={teams}
+        qualifications={qualifications}
+        onOpenChange={(open) => !open && setAssignEvent(null)}
+        onAssigned={() => {
+          setAssignEvent(null);
+          fetchUpcoming();
+        }}
+      />
+
       {viewSchedule && (
         <ViewMaintenanceResultDialog
           isOpen={!!viewSchedule}
@@ -0,0 +1,58 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, FileJson, FileSpreadsheet, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { downloadExport, type ExportFilters, type ExportFormat } from '@/lib/data-export';
+
+interface ExportMenuProps {
+  // The page's current filters; the export covers the same instruments
+  filters: ExportFilters;
+}
+
+export function ExportMenu({ filters }: ExportMenuProps) {
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsExporting(true);
+    const result = await downloadExport(format, filters);
+    setIsExporting(false);
+    if (!result.success) {
+      toast({ title: 'Export failed', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={isExporting}>
+          {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="font-normal text-xs text-muted-foreground">
+          {filters.search ? `Instruments matching "${filters.search}"` : 'All instruments'}
+          {filters.location && ' at the selected location'}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => handleExport('xlsx')}>
+          <FileSpreadsheet className="h-4 w-4 mr-2" /> Excel workbook (.xlsx)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('json')}>
+          <FileJson className="h-4 w-4 mr-2" /> Full archive (.json)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
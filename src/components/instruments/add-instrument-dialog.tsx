@@ -21,7 +21,7 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Calendar } from '@/components/ui/calendar';
 import { CalendarIcon, Loader2, FlaskConical, Link, Plus, Trash2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { format, addWeeks, addMonths, addYears } from 'date-fns';
+import { format } from 'date-fns';
 import { supabase } from '@/lib/supabase';
 import { generateUUID } from '@/lib/uuid';
 import { useToast } from '@/hooks/use-toast';
@@ -29,16 +29,23 @@ import type { MaintenanceFrequency, InstrumentType, TestTemplate } from '@/lib/t
 import { Combobox } from '@/components/ui/combobox';
 import { useInstrumentTypes } from '@/hooks/use-instrument-types';
 import { useMaintenanceTypes } from '@/hooks/use-maintenance-types';
-import { PlaceHolderImages } from '@/lib/placeholder-images';
+import { PlaceHolderImages, getInstrumentImageId } from '@/lib/placeholder-images';
 import { useAuth } from '@/contexts/auth-context';
 import { DatePicker } from '@/components/ui/date-picker';
-import { generateYearSchedules } from '@/lib/schedule-generator';
+import { generateYearSchedules, getNextScheduleDate } from '@/lib/schedule-generator';
+import { isValidRecurrenceRule } from '@/lib/recurrence';
+import { NON_WORKING_DAY_SHIFTS } from '@/lib/working-calendar';
+import { RecurrenceRuleEditor } from '@/components/maintenance/recurrence-rule-editor';
+import { LocationSelect } from '@/components/locations/location-select';
+import { useLocations } from '@/hooks/use-locations';
 
-const frequencies: MaintenanceFrequency[] = ['Daily', 'Weekly', 'Monthly', '3 Months', '6 Months', '1 Year'];
+const frequencies: MaintenanceFrequency[] = ['Daily', 'Weekly', 'Monthly', '3 Months', '6 Months', '1 Year', 'Custom'];
 
 const scheduleSchema = z.object({
   maintenanceType: z.string().min(1, 'Maintenance type is required.'),
   frequency: z.string().min(1, 'Frequency is required.'),
+  recurrenceRule: z.string().optional(),
+  nonWorkingDayShift: z.enum(['none', 'previous', 'next']).default('none'),
   scheduleDate: z.date({ required_error: 'Schedule date is required.' }),
   templateId: z.string().optional(),
   maintenanceBy: z.enum(['self', 'vendor']).default('self'),
@@ -47,6 +54,9 @@ const scheduleSchema = z.object({
 }).refine(
   (data) => data.maintenanceBy === 'self' || (data.vendorName && data.vendorName.trim().length > 0),
   { message: 'Vendor name is required when maintenance is by vendor', path: ['vendorName'] }
+).refine(
+  (data) => data.frequency !== 'Custom' || isValidRecurrenceRule(data.recurrenceRule),
+  { message: 'Enter a valid recurrence rule for a custom frequency', path: ['recurrenceRule'] }
 );
 
 const formSchema = z.object({
@@ -55,7 +65,9 @@ const formSchema = z.object({
   make: z.string().min(1, 'Manufacturer/Make is required.'),
   model: z.string().min(1, 'Model is required.'),
   serialNumber: z.string().min(1, 'Serial number is required.'),
-  location: z.string().min(1, 'Location is required.'),
+  locationId: z.string().min(1, 'Location is required.'),
+  // New equipment starts at installation; instruments already qualified go straight into use
+  lifecycleState: z.enum(['installation', 'in_use']),
   schedules: z.array(scheduleSchema).min(1, "At least one schedule is required"),
   imageUrl: z.string().url().optional().or(z.literal('')),
 });
@@ -68,34 +80,6 @@ interface AddInstrumentDialogProps {
   onSuccess?: () => void;
 }
 
-const getNextMaintenanceDate = (startDate: Date, frequency: MaintenanceFrequency): Date => {
-  switch (frequency) {
-    case 'Weekly':
-      return addWeeks(startDate, 1);
-    case 'Monthly':
-      return addMonths(startDate, 1);
-    case '3 Months':
-      return addMonths(startDate, 3);
-    case '6 Months':
-      return addMonths(startDate, 6);
-    case '1 Year':
-      return addYears(startDate, 1);
-    default:
-      return startDate;
-  }
-};
-
-const instrumentTypeToImageId: Record<string, string> = {
-  'Lab Balance': 'microscope',
-  'Scale': 'microscope',
-  'pH Meter': 'pcr-machine',
-  'Tap Density Tester': 'hplc-system',
-  'UV-Vis Spectrophotometer': 'spectrometer',
-  'GC': 'hplc-system',
-  'Spectrometer': 'spectrometer',
-  'default': 'centrifuge'
-};
-
 
 
 
@@ -110,6 +94,7 @@ export function AddInstrumentDialog({ isOpen, onOpenChange, onSuccess }: AddInst
   const { user, orgId } = useAuth();
   const { instrumentTypes, addInstrumentType, isLoading: isLoadingTypes } = useInstrumentTypes();
   const { maintenanceTypes, addMaintenanceType, isLoading: isLoadingMaintTypes } = useMaintenanceTypes();
+  const { options: locationOptions } = useLocations();
 
   const form = useForm<AddInstrumentFormValues>({
     resolver: zodResolver(formSchema),
@@ -119,10 +104,13 @@ export function AddInstrumentDialog({ isOpen, onOpenChange, onSuccess }: AddInst
       make: '',
       model: '',
       serialNumber: '',
-      location: '',
+      locationId: '',
+      lifecycleState: 'in_use',
       schedules: [{
         maintenanceType: '',
         frequency: '',
+        recurrenceRule: '',
+        nonWorkingDayShift: 'none',
         scheduleDate: new Date(),
         templateId: '',
         maintenanceBy: 'self',
@@ -153,7 +141,7 @@ export function AddInstrumentDialog({ isOpen, onOpenChange, onSuccess }: AddInst
       return { imageUrl: imagePreviewUrl, description: 'Uploaded Image', imageHint: '' };
     }
     if (!selectedInstrumentType) return null;
-    const imageId = instrumentTypeToImageId[selectedInstrumentType] || instrumentTypeToImageId.default;
+    const imageId = getInstrumentImageId(selectedInstrumentType);
     return PlaceHolderImages.find(img => img.id === imageId) || null;
   }, [selectedInstrumentType, imagePreviewUrl]);
 
@@ -163,8 +151,8 @@ export function AddInstrumentDialog({ isOpen, onOpenChange, onSuccess }: AddInst
     try {
       // Use the first schedule for the main instrument record (legacy/display compatibility)
       const primarySchedule = values.schedules[0];
-      const nextMaintenanceDate = getNextMaintenanceDate(primarySchedule.scheduleDate, primarySchedule.frequency as MaintenanceFrequency);
-      const imageId = instrumentTypeToImageId[values.instrumentType] || instrumentTypeToImageId.default;
+      const nextMaintenanceDate = getNextScheduleDate(primarySchedule.scheduleDate, primarySchedule.frequency, primarySchedule.frequency === 'Custom' ? primarySchedule.recurrenceRule : null);
+      const imageId = getInstrumentImageId(values.instrumentType);
 
       // Generate UUID using our utility
       const instrumentId = generateUUID();
@@ -190,7 +178,9 @@ export function AddInstrumentDialog({ isOpen, onOpenChange, onSuccess }: AddInst
         make: values.make,
         model: values.model,
         serialNumber: values.serialNumber,
-        location: values.location,
+        location_id: values.locationId,
+        location: locationOptions.find(o => o.location.id === values.locationId)?.path || '',
+        lifecycle_state: values.lifecycleState,
         user_id: user?.id,
         // Legacy fields populated from first schedule
         maintenanceType: primarySchedule.maintenanceType,
@@ -222,6 +212,8 @@ export function AddInstrumentDialog({ isOpen, onOpenChange, onSuccess }: AddInst
         instrument_id: instrumentId,
         maintenance_type: schedule.maintenanceType,
         frequency: schedule.frequency,
+        recurrence_rule: schedule.frequency === 'Custom' ? schedule.recurrenceRule || null : null,
+        non_working_day_shift: schedule.nonWorkingDayShift,
         schedule_date: schedule.scheduleDate.toISOString(),
         template_id: schedule.templateId || null,
         user_id: user?.id,
@@ -247,6 +239,8 @@ export function AddInstrumentDialog({ isOpen, onOpenChange, onSuccess }: AddInst
             instrument_id: config.instrument_id,
             maintenance_type: config.maintenance_type,
             frequency: config.frequency,
+            recurrence_rule: config.recurrence_rule,
+            non_working_day_shift: config.non_working_day_shift,
             schedule_date: config.schedule_date,
             template_id: config.template_id,
             user_id: user?.id,
@@ -371,17 +365,38 @@ export function AddInstrumentDialog({ isOpen, onOpenChange, onSuccess }: AddInst
               />
               <FormField
                 control={form.control}
-                name="location"
+                name="locationId"
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Location</FormLabel>
                     <FormControl>
-                      <Input placeholder="Lab A, Room 101" autoComplete="off" {...field} />
+                      <LocationSelect options={locationOptions} value={field.value} onChange={field.onChange} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="lifecycleState"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Lifecycle State</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="installation">Installation (qualification to follow)</SelectItem>
+                        <SelectItem value="in_use">In Use (already released)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               <div className="space-y-4 border rounded-md p-4 bg-muted/10">
                 <div className="flex items-center justify-between">
                   <h3 className="font-medium">Maintenance Schedules</h3>
@@ -389,7 +404,7 @@ export function AddInstrumentDialog({ isOpen, onOpenChange, onSuccess }: AddInst
                     type="button"
                     variant="outline"
                     size="sm"
-                    onClick={() => append({ maintenanceType: '', frequency: '', scheduleDate: new Date(), templateId: '', maintenanceBy: 'self', vendorName: '', vendorContact: '' })}
+                    onClick={() => append({ maintenanceType: '', frequency: '', recurrenceRule: '', nonWorkingDayShift: 'none', scheduleDate: new Date(), templateId: '', maintenanceBy: 'self', vendorName: '', vendorContact: '' })}
                   >
                     <Plus className="h-4 w-4 mr-1" /> Add
                   </Button>
@@ -454,6 +469,26 @@ export function AddInstrumentDialog({ isOpen, onOpenChange, onSuccess }: AddInst
                       />
                     </div>
 
+                    {form.watch(`schedules.${index}.frequency`) === 'Custom' && (
+                      <FormField
+                        control={form.control}
+                        name={`schedules.${index}.recurrenceRule`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Recurrence Rule</FormLabel>
+                            <FormControl>
+                              <RecurrenceRuleEditor
+                                value={field.value || ''}
+                                onChange={field.onChange}
+                                startDate={form.watch(`schedules.${index}.scheduleDate`)}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
                     <div className="grid grid-cols-2 gap-4">
                       <FormField
                         control={form.control}
@@ -557,6 +592,30 @@ export function AddInstrumentDialog({ isOpen, onOpenChange, onSuccess }: AddInst
                         )}
                       />
                     </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name={`schedules.${index}.nonWorkingDayShift`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>If Due on Non-Working Day</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value || 'none'}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Keep date" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {NON_WORKING_DAY_SHIFTS.map(o => <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>)}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <div />
+                    </div>
                   </div>
                 ))}
               </div>
@@ -12,11 +12,14 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import { MoreHorizontal, ArrowUpDown } from 'lucide-react';
 import { isAfter } from 'date-fns';
 import { PlaceHolderImages } from '@/lib/placeholder-images';
 import Image from 'next/image';
 import Link from 'next/link';
+import { isRetiredState } from '@/lib/instrument-lifecycle';
+import { LifecycleBadge } from './instrument-lifecycle-card';
 
 const statusVariant: { [key: string]: 'default' | 'secondary' | 'destructive' | 'outline' } = {
   Operational: 'default',
@@ -40,8 +43,32 @@ const formatDate = (dateString: string | undefined) => {
 
 export const columns = (
   onEdit: (instrument: Instrument) => void,
-  onDelete: (instrument: Instrument) => void
+  onRetire: (instrument: Instrument) => void,
+  onDelete: ((instrument: Instrument) => void) | null,
+  // For naming the system a module is installed in
+  instrumentsById: Record<string, Instrument> = {},
+  // Retiring and deleting need edit rights on this particular instrument
+  canManage: (instrument: Instrument) => boolean = () => true
 ): ColumnDef<Instrument>[] => [
+    {
+      // Selection for printing labels of several instruments
+      id: 'select',
+      header: ({ table }) => (
+        <Checkbox
+          checked={table.getIsAllPageRowsSelected() || (table.getIsSomePageRowsSelected() && 'indeterminate')}
+          onCheckedChange={(value) => table.toggleAllPageRowsSelected(!!value)}
+          aria-label="Select all"
+        />
+      ),
+      cell: ({ row }) => (
+        <Checkbox
+          checked={row.getIsSelected()}
+          onCheckedChange={(value) => row.toggleSelected(!!value)}
+          aria-label="Select instrument"
+        />
+      ),
+      enableSorting: false,
+    },
     {
       accessorKey: 'eqpId',
       header: ({ column }) => {
@@ -79,7 +106,10 @@ export const columns = (
             </div>
             <div>
               <div className="font-medium text-primary hover:underline">{instrument.eqpId}</div>
-              <div className="text-sm text-muted-foreground">{instrument.instrumentType}</div>
+              <div className="text-sm text-muted-foreground">
+                {instrument.instrumentType}
+                {instrument.parent_id && instrumentsById[instrument.parent_id] && ` · in ${instrumentsById[instrument.parent_id].eqpId}`}
+              </div>
             </div>
           </Link>
         );
@@ -89,6 +119,11 @@ export const columns = (
       accessorKey: 'location',
       header: 'Location',
     },
+    {
+      accessorKey: 'lifecycle_state',
+      header: 'Lifecycle',
+      cell: ({ row }) => <LifecycleBadge state={row.original.lifecycle_state} className="whitespace-nowrap" />,
+    },
     {
       id: 'maintenanceBy',
       header: 'Maintenance By',
@@ -151,10 +186,14 @@ export const columns = (
               <DropdownMenuContent align="end">
                 <DropdownMenuLabel>Actions</DropdownMenuLabel>
 
-                <DropdownMenuItem onClick={() => onDelete(instrument)} className="text-destructive">
-                  Delete Instrument
-                </DropdownMenuItem>
-                <DropdownMenuSeparator />
+                {canManage(instrument) && !isRetiredState(instrument.lifecycle_state) && (
+                  <>
+                    <DropdownMenuItem onClick={() => onRetire(instrument)} className="text-destructive">
+                      Retire Instrument
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                  </>
+                )}
                 <Link href={`/instruments/${instrument.id}`} passHref>
                   <DropdownMenuItem>View Details</DropdownMenuItem>
                 </Link>
@@ -162,6 +201,14 @@ export const columns = (
                 <Link href={`/advisor?instrumentId=${instrument.id}`} passHref>
                   <DropdownMenuItem>Predict Failure</DropdownMenuItem>
                 </Link>
+                {onDelete && canManage(instrument) && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={() => onDelete(instrument)} className="text-destructive">
+                      Delete Instrument
+                    </DropdownMenuItem>
+                  </>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
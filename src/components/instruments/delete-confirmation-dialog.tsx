@@ -1,5 +1,6 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -11,36 +12,100 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { buttonVariants } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { fetchDeletionImpact, softDeleteInstrument, type DeletionImpact } from '@/lib/instrument-deletion';
 
 interface DeleteConfirmationDialogProps {
-  isOpen: boolean;
+  instrument: { id: string; eqpId: string } | null;
   onOpenChange: (open: boolean) => void;
-  onConfirm: () => void;
-  instrumentName: string;
+  onDeleted: () => void;
 }
 
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
 export function DeleteConfirmationDialog({
-  isOpen,
+  instrument,
   onOpenChange,
-  onConfirm,
-  instrumentName,
+  onDeleted,
 }: DeleteConfirmationDialogProps) {
+  const { toast } = useToast();
+  const [impact, setImpact] = useState<DeletionImpact | null>(null);
+  const [isCounting, setIsCounting] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const instrumentId = instrument?.id;
+
+  useEffect(() => {
+    if (!instrumentId) return;
+    setImpact(null);
+    setIsCounting(true);
+    fetchDeletionImpact(instrumentId).then(result => {
+      setImpact(result);
+      setIsCounting(false);
+    });
+  }, [instrumentId]);
+
+  if (!instrument) return null;
+
+  const handleConfirm = async (event: React.MouseEvent) => {
+    // Keep the dialog open until the delete has gone through
+    event.preventDefault();
+    setIsDeleting(true);
+    const result = await softDeleteInstrument(instrument.id);
+    setIsDeleting(false);
+
+    if (!result.success) {
+      toast({ title: 'Error', description: result.error || 'Failed to delete instrument.', variant: 'destructive' });
+      return;
+    }
+
+    toast({
+      title: 'Instrument Deleted',
+      description: `${instrument.eqpId} has been moved to the recycle bin.`,
+    });
+    onDeleted();
+  };
+
   return (
-    <AlertDialog open={isOpen} onOpenChange={onOpenChange}>
+    <AlertDialog open={!!instrument} onOpenChange={(open) => !isDeleting && onOpenChange(open)}>
       <AlertDialogContent>
         <AlertDialogHeader>
-          <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+          <AlertDialogTitle>Delete {instrument.eqpId}?</AlertDialogTitle>
           <AlertDialogDescription>
-            This action cannot be undone. This will permanently delete the instrument{' '}
-            <span className="font-bold">{instrumentName}</span> and all of its associated data.
+            The instrument and the records below will be hidden everywhere. An admin can restore them
+            from the recycle bin or purge them permanently.
           </AlertDialogDescription>
         </AlertDialogHeader>
+
+        {isCounting ? (
+          <Skeleton className="h-20 w-full" />
+        ) : impact ? (
+          <div className="space-y-2 text-sm">
+            <ul className="list-disc pl-5">
+              <li>{plural(impact.configurations, 'maintenance configuration')}</li>
+              <li>{plural(impact.schedules, 'schedule')}</li>
+              <li>{plural(impact.results, 'result')}</li>
+              <li>{plural(impact.documents, 'document')}</li>
+            </ul>
+            {impact.components > 0 && (
+              <p className="text-muted-foreground">
+                {plural(impact.components, 'installed component')} will stay in the register on their own.
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-destructive">Could not count the records affected by this deletion.</p>
+        )}
+
         <AlertDialogFooter>
-          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
           <AlertDialogAction
             className={buttonVariants({ variant: 'destructive' })}
-            onClick={onConfirm}
+            onClick={handleConfirm}
+            disabled={isCounting || !impact || isDeleting}
           >
+            {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
             Delete
           </AlertDialogAction>
         </AlertDialogFooter>
@@ -21,17 +21,23 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Calendar } from '@/components/ui/calendar';
 import { CalendarIcon, Loader2, FlaskConical, Upload, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { format, addWeeks, addMonths, addYears } from 'date-fns';
+import { format } from 'date-fns';
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/hooks/use-toast';
-import type { Instrument, MaintenanceFrequency, InstrumentType } from '@/lib/types';
+import type { Instrument, MaintenanceConfiguration, MaintenanceFrequency, InstrumentType } from '@/lib/types';
 import { Combobox } from '@/components/ui/combobox';
 import { useInstrumentTypes } from '@/hooks/use-instrument-types';
 import { useMaintenanceTypes } from '@/hooks/use-maintenance-types';
-import { PlaceHolderImages } from '@/lib/placeholder-images';
+import { PlaceHolderImages, getInstrumentImageId } from '@/lib/placeholder-images';
 import { useAuth } from '@/contexts/auth-context';
+import { getNextScheduleDate, regenerateSchedules, type InProgressHandling, type RegenerationPlan } from '@/lib/schedule-generator';
+import { isValidRecurrenceRule } from '@/lib/recurrence';
+import { ScheduleRegenerationPreviewDialog } from './schedule-regeneration-preview-dialog';
+import { RecurrenceRuleEditor } from '@/components/maintenance/recurrence-rule-editor';
+import { LocationSelect } from '@/components/locations/location-select';
+import { useLocations } from '@/hooks/use-locations';
 
-const frequencies: MaintenanceFrequency[] = ['Weekly', 'Monthly', '3 Months', '6 Months', '1 Year'];
+const frequencies: MaintenanceFrequency[] = ['Daily', 'Weekly', 'Monthly', '3 Months', '6 Months', '1 Year', 'Custom'];
 
 const formSchema = z.object({
   eqpId: z.string().min(1, 'Equipment ID is required.'),
@@ -39,18 +45,22 @@ const formSchema = z.object({
   make: z.string().optional(),
   model: z.string().min(1, 'Model is required.'),
   serialNumber: z.string().min(1, 'Serial number is required.'),
-  location: z.string().min(1, 'Location is required.'),
+  locationId: z.string().min(1, 'Location is required.'),
   maintenanceType: z.string().min(1, 'Maintenance type is required.'),
   scheduleDate: z.date({
     required_error: 'Schedule date is required.',
   }),
   frequency: z.string().min(1, 'Frequency is required.'),
+  recurrenceRule: z.string().optional(),
   maintenanceBy: z.enum(['self', 'vendor']).default('self'),
   vendorName: z.string().optional(),
   vendorContact: z.string().optional(),
 }).refine(
   (data) => data.maintenanceBy === 'self' || (data.vendorName && data.vendorName.trim().length > 0),
   { message: 'Vendor name is required when maintenance is by vendor', path: ['vendorName'] }
+).refine(
+  (data) => data.frequency !== 'Custom' || isValidRecurrenceRule(data.recurrenceRule),
+  { message: 'Enter a valid recurrence rule for a custom frequency', path: ['recurrenceRule'] }
 );
 
 type EditInstrumentFormValues = z.infer<typeof formSchema>;
@@ -62,42 +72,26 @@ interface EditInstrumentDialogProps {
   onSuccess?: () => void;
 }
 
-const getNextMaintenanceDate = (startDate: Date, frequency: MaintenanceFrequency): Date => {
-  switch (frequency) {
-    case 'Weekly':
-      return addWeeks(startDate, 1);
-    case 'Monthly':
-      return addMonths(startDate, 1);
-    case '3 Months':
-      return addMonths(startDate, 3);
-    case '6 Months':
-      return addMonths(startDate, 6);
-    case '1 Year':
-      return addYears(startDate, 1);
-    default:
-      return startDate;
-  }
-};
-
-const instrumentTypeToImageId: Record<string, string> = {
-  'Lab Balance': 'microscope',
-  'Scale': 'microscope',
-  'pH Meter': 'pcr-machine',
-  'Tap Density Tester': 'hplc-system',
-  'UV-Vis Spectrophotometer': 'spectrometer',
-  'GC': 'hplc-system',
-  'Spectrometer': 'spectrometer',
-  'default': 'centrifuge'
-};
-
 export function EditInstrumentDialog({ isOpen, onOpenChange, instrument, onSuccess }: EditInstrumentDialogProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [imagePreviewUrl, setImagePreviewUrl] = useState<string>('');
+  // Custom frequencies keep their rule on the configuration, not the instrument
+  const [savedRecurrenceRule, setSavedRecurrenceRule] = useState('');
+
+  // Frequency / start date changes are previewed before the schedules are regenerated
+  const [pendingValues, setPendingValues] = useState<EditInstrumentFormValues | null>(null);
+  const [scheduleConfig, setScheduleConfig] = useState<MaintenanceConfiguration | null>(null);
+  const [regenerationPlan, setRegenerationPlan] = useState<RegenerationPlan | null>(null);
+  const [inProgressHandling, setInProgressHandling] = useState<InProgressHandling>('keep');
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [isRegenerating, setIsRegenerating] = useState(false);
 
   const { toast } = useToast();
+  const { user, orgId } = useAuth();
   const { instrumentTypes, addInstrumentType, isLoading: isLoadingTypes } = useInstrumentTypes();
   const { maintenanceTypes, addMaintenanceType, isLoading: isLoadingMaintTypes } = useMaintenanceTypes();
+  const { options: locationOptions } = useLocations();
 
   const form = useForm<EditInstrumentFormValues>({
     resolver: zodResolver(formSchema),
@@ -111,10 +105,11 @@ export function EditInstrumentDialog({ isOpen, onOpenChange, instrument, onSucce
         make: instrument.make || '',
         model: instrument.model,
         serialNumber: instrument.serialNumber,
-        location: instrument.location,
+        locationId: instrument.location_id || '',
         maintenanceType: instrument.maintenanceType || '',
         scheduleDate: instrument.scheduleDate ? new Date(instrument.scheduleDate) : new Date(),
         frequency: instrument.frequency,
+        recurrenceRule: '',
         maintenanceBy: instrument.maintenanceBy || 'self',
         vendorName: instrument.vendorName || '',
         vendorContact: instrument.vendorContact || '',
@@ -126,6 +121,20 @@ export function EditInstrumentDialog({ isOpen, onOpenChange, instrument, onSucce
     }
   }, [instrument, form]);
 
+  useEffect(() => {
+    if (!isOpen || !instrument?.maintenanceType) return;
+    supabase
+      .from('maintenance_configurations')
+      .select('recurrence_rule')
+      .eq('instrument_id', instrument.id)
+      .eq('maintenance_type', instrument.maintenanceType)
+      .maybeSingle()
+      .then(({ data }) => {
+        setSavedRecurrenceRule(data?.recurrence_rule || '');
+        form.setValue('recurrenceRule', data?.recurrence_rule || '');
+      });
+  }, [isOpen, instrument, form]);
+
   const selectedInstrumentType = form.watch('instrumentType');
 
   const previewImage = useMemo(() => {
@@ -133,7 +142,7 @@ export function EditInstrumentDialog({ isOpen, onOpenChange, instrument, onSucce
       return { imageUrl: imagePreviewUrl, description: 'Uploaded Image', imageHint: '' };
     }
     if (!selectedInstrumentType) return null;
-    const imageId = instrumentTypeToImageId[selectedInstrumentType] || instrumentTypeToImageId.default;
+    const imageId = getInstrumentImageId(selectedInstrumentType);
     return PlaceHolderImages.find(img => img.id === imageId) || null;
   }, [selectedInstrumentType, imagePreviewUrl]);
 
@@ -152,12 +161,118 @@ export function EditInstrumentDialog({ isOpen, onOpenChange, instrument, onSucce
     setImagePreviewUrl('');
   };
 
+  const closeDialog = () => {
+    setSelectedImage(null);
+    setImagePreviewUrl('');
+    onOpenChange(false);
+    onSuccess?.();
+  };
+
+  // Arguments for regenerating the configuration's schedules with the edited frequency and start date
+  const buildRegenerationConfig = (values: EditInstrumentFormValues, config: MaintenanceConfiguration) => ({
+    instrument_id: instrument.id,
+    maintenance_type: config.maintenance_type,
+    frequency: values.frequency,
+    recurrence_rule: values.frequency === 'Custom' ? values.recurrenceRule || null : null,
+    non_working_day_shift: config.non_working_day_shift,
+    schedule_date: values.scheduleDate.toISOString(),
+    template_id: config.template_id,
+    user_id: user?.id,
+    org_id: config.org_id || orgId,
+    maintenanceBy: config.maintenanceBy,
+    vendorName: config.vendorName,
+    vendorContact: config.vendorContact,
+  });
+
+  const loadRegenerationPlan = async (values: EditInstrumentFormValues, config: MaintenanceConfiguration, handling: InProgressHandling) => {
+    setRegenerationPlan(null);
+    const result = await regenerateSchedules(buildRegenerationConfig(values, config), { dryRun: true, inProgress: handling });
+    if (!result.success || !result.plan) {
+      toast({
+        title: 'Preview Failed',
+        description: result.error || 'Could not calculate the schedule changes.',
+        variant: 'destructive',
+      });
+      setIsPreviewOpen(false);
+      return;
+    }
+    setRegenerationPlan(result.plan);
+  };
+
   const onSubmit = async (values: EditInstrumentFormValues) => {
+    const scheduleChanged = values.frequency !== instrument.frequency
+      || (values.frequency === 'Custom' && (values.recurrenceRule || '') !== savedRecurrenceRule)
+      || !instrument.scheduleDate
+      || values.scheduleDate.toDateString() !== new Date(instrument.scheduleDate).toDateString();
+
+    if (scheduleChanged) {
+      const { data: config } = await supabase
+        .from('maintenance_configurations')
+        .select('*')
+        .eq('instrument_id', instrument.id)
+        .eq('maintenance_type', values.maintenanceType)
+        .maybeSingle();
+
+      if (config) {
+        setPendingValues(values);
+        setScheduleConfig(config);
+        setInProgressHandling('keep');
+        setIsPreviewOpen(true);
+        await loadRegenerationPlan(values, config, 'keep');
+        return;
+      }
+    }
+
     setIsLoading(true);
+    if (await saveInstrument(values)) {
+      closeDialog();
+    }
+    setIsLoading(false);
+  };
+
+  const handleConfirmRegeneration = async () => {
+    if (!pendingValues || !scheduleConfig) return;
+    setIsRegenerating(true);
+
+    try {
+      if (!(await saveInstrument(pendingValues))) return;
+
+      // The configuration and its schedules change together or not at all
+      const result = await regenerateSchedules(buildRegenerationConfig(pendingValues, scheduleConfig), {
+        inProgress: inProgressHandling,
+        configurationId: scheduleConfig.id,
+      });
 
+      if (!result.success) {
+        // Put the instrument's schedule back in line with its unchanged configuration
+        await supabase
+          .from('instruments')
+          .update({
+            frequency: instrument.frequency,
+            scheduleDate: instrument.scheduleDate,
+            nextMaintenanceDate: instrument.nextMaintenanceDate,
+          })
+          .eq('id', instrument.id);
+
+        toast({
+          title: 'Schedules Not Updated',
+          description: `Instrument details were saved, but its frequency, start date and schedules were left unchanged: ${result.error}`,
+          variant: 'destructive',
+        });
+      }
+
+      setIsPreviewOpen(false);
+      closeDialog();
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  // Returns true when the instrument row was saved
+  const saveInstrument = async (values: EditInstrumentFormValues): Promise<boolean> => {
     try {
-      const nextMaintenanceDate = getNextMaintenanceDate(values.scheduleDate, values.frequency as MaintenanceFrequency);
-      const imageId = instrumentTypeToImageId[values.instrumentType] || instrumentTypeToImageId.default;
+      const nextMaintenanceDate = getNextScheduleDate(values.scheduleDate, values.frequency, values.frequency === 'Custom' ? values.recurrenceRule : null);
+      const imageId = getInstrumentImageId(values.instrumentType);
 
       let uploadedImageUrl = instrument.imageUrl || '';
 
@@ -188,7 +303,7 @@ export function EditInstrumentDialog({ isOpen, onOpenChange, instrument, onSucce
             description: 'Failed to upload image. Please try again.',
             variant: 'destructive',
           });
-          return;
+          return false;
         }
 
         // Get public URL
@@ -199,8 +314,11 @@ export function EditInstrumentDialog({ isOpen, onOpenChange, instrument, onSucce
         uploadedImageUrl = publicUrl;
       }
 
+      const { locationId, recurrenceRule, ...instrumentValues } = values;
       const updatedInstrumentData = {
-        ...values,
+        ...instrumentValues,
+        location_id: locationId,
+        location: locationOptions.find(o => o.location.id === locationId)?.path || instrument.location,
         maintenanceType: values.maintenanceType,
         instrumentType: values.instrumentType as InstrumentType,
         frequency: values.frequency as MaintenanceFrequency,
@@ -229,16 +347,14 @@ export function EditInstrumentDialog({ isOpen, onOpenChange, instrument, onSucce
           description: error.message || 'Failed to update instrument details.',
           variant: 'destructive',
         });
-      } else {
-        toast({
-          title: 'Instrument Updated',
-          description: `${values.eqpId} has been updated successfully.`,
-        });
-        setSelectedImage(null);
-        setImagePreviewUrl('');
-        onOpenChange(false);
-        onSuccess?.();
+        return false;
       }
+
+      toast({
+        title: 'Instrument Updated',
+        description: `${values.eqpId} has been updated successfully.`,
+      });
+      return true;
     } catch (err) {
       console.error('Unexpected error:', err);
       toast({
@@ -246,8 +362,7 @@ export function EditInstrumentDialog({ isOpen, onOpenChange, instrument, onSucce
         description: 'An unexpected error occurred.',
         variant: 'destructive',
       });
-    } finally {
-      setIsLoading(false);
+      return false;
     }
   };
 
@@ -334,12 +449,12 @@ export function EditInstrumentDialog({ isOpen, onOpenChange, instrument, onSucce
               />
               <FormField
                 control={form.control}
-                name="location"
+                name="locationId"
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Location</FormLabel>
                     <FormControl>
-                      <Input placeholder="Lab A, Room 101" {...field} />
+                      <LocationSelect options={locationOptions} value={field.value} onChange={field.onChange} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -469,6 +584,25 @@ export function EditInstrumentDialog({ isOpen, onOpenChange, instrument, onSucce
                   </FormItem>
                 )}
               />
+              {form.watch('frequency') === 'Custom' && (
+                <FormField
+                  control={form.control}
+                  name="recurrenceRule"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Recurrence Rule</FormLabel>
+                      <FormControl>
+                        <RecurrenceRuleEditor
+                          value={field.value || ''}
+                          onChange={field.onChange}
+                          startDate={form.watch('scheduleDate')}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
             </div>
 
             {/* Image Upload Column */}
@@ -527,7 +661,7 @@ export function EditInstrumentDialog({ isOpen, onOpenChange, instrument, onSucce
               <Button variant="ghost" onClick={() => onOpenChange(false)} type="button">
                 Cancel
               </Button>
-              <Button type="submit" disabled={isLoading}>
+              <Button type="submit" disabled={isLoading || isPreviewOpen}>
                 {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                 Save Changes
               </Button>
@@ -535,6 +669,18 @@ export function EditInstrumentDialog({ isOpen, onOpenChange, instrument, onSucce
           </form>
         </Form>
       </DialogContent>
+      <ScheduleRegenerationPreviewDialog
+        isOpen={isPreviewOpen}
+        onOpenChange={setIsPreviewOpen}
+        plan={regenerationPlan}
+        inProgress={inProgressHandling}
+        onInProgressChange={(handling) => {
+          setInProgressHandling(handling);
+          if (pendingValues && scheduleConfig) loadRegenerationPlan(pendingValues, scheduleConfig, handling);
+        }}
+        isLoading={isRegenerating}
+        onConfirm={handleConfirmRegeneration}
+      />
     </Dialog>
   );
 }
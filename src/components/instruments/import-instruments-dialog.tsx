@@ -0,0 +1,343 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button, buttonVariants } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, CheckCircle2, FileSpreadsheet, Loader2, Undo2 } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/auth-context';
+import { useInstrumentTypes } from '@/hooks/use-instrument-types';
+import { useMaintenanceTypes } from '@/hooks/use-maintenance-types';
+import { useLocations } from '@/hooks/use-locations';
+import { readSpreadsheet, type SheetRows } from '@/lib/spreadsheet';
+import {
+  IMPORT_FIELDS,
+  commitInstrumentImport,
+  fetchInstrumentImports,
+  guessColumnMapping,
+  rollBackInstrumentImport,
+  validateImportRows,
+  type ColumnMapping,
+  type ImportField,
+} from '@/lib/instrument-import';
+import type { InstrumentImport } from '@/lib/types';
+
+interface ImportInstrumentsDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+const NOT_MAPPED = 'none';
+
+export function ImportInstrumentsDialog({ isOpen, onOpenChange, onSuccess }: ImportInstrumentsDialogProps) {
+  const { toast } = useToast();
+  const { orgId } = useAuth();
+  const { instrumentTypes } = useInstrumentTypes();
+  const { maintenanceTypes, addMaintenanceType } = useMaintenanceTypes();
+  const { options: locationOptions } = useLocations();
+
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<SheetRows>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [existingEqpIds, setExistingEqpIds] = useState<string[]>([]);
+  const [templates, setTemplates] = useState<{ id: string; name: string }[]>([]);
+  const [imports, setImports] = useState<InstrumentImport[]>([]);
+  const [rollingBack, setRollingBack] = useState<InstrumentImport | null>(null);
+
+  const loadContext = async () => {
+    const [{ data: instruments }, { data: templateData }, recent] = await Promise.all([
+      supabase.from('instruments').select('eqpId'),
+      supabase.from('testTemplates').select('id, name'),
+      fetchInstrumentImports(),
+    ]);
+    setExistingEqpIds((instruments || []).map(i => i.eqpId));
+    setTemplates(templateData || []);
+    setImports(recent);
+  };
+
+  useEffect(() => {
+    if (isOpen) loadContext();
+  }, [isOpen]);
+
+  const headers = sheet[0] || [];
+  const dataRows = useMemo(() => sheet.slice(1), [sheet]);
+  const missingFields = IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === undefined && !(f.field === 'frequency' && mapping.recurrenceRule !== undefined));
+
+  // The dry run: re-validated whenever the file or the mapping changes
+  const validation = useMemo(() => {
+    if (dataRows.length === 0 || missingFields.length > 0) return null;
+    return validateImportRows(dataRows, mapping, {
+      existingEqpIds,
+      instrumentTypes: instrumentTypes.map(t => t.value),
+      templates,
+      locations: locationOptions,
+    });
+  }, [dataRows, mapping, existingEqpIds, instrumentTypes, templates, locationOptions, missingFields.length]);
+
+  const invalidRows = validation?.rows.filter(r => r.errors.length > 0) || [];
+  const scheduleCount = validation?.instruments.reduce((sum, i) => sum + i.schedules.length, 0) || 0;
+
+  const reset = () => {
+    setFileName('');
+    setSheet([]);
+    setMapping({});
+  };
+
+  const handleFile = async (file: File) => {
+    setIsReading(true);
+    try {
+      const rows = await readSpreadsheet(file);
+      if (rows.length < 2) {
+        toast({ title: 'Nothing to import', description: 'The file needs a header row and at least one instrument.', variant: 'destructive' });
+        return;
+      }
+      setFileName(file.name);
+      setSheet(rows);
+      setMapping(guessColumnMapping(rows[0]));
+    } catch (err: any) {
+      console.error('Error reading import file:', err);
+      toast({ title: 'Could not read file', description: err.message || 'The file could not be read.', variant: 'destructive' });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!validation || validation.instruments.length === 0) return;
+    setIsImporting(true);
+    const result = await commitInstrumentImport(validation.instruments, { fileName, orgId });
+    if (result.success) {
+      const newTypes = new Set(validation.instruments.flatMap(i => i.schedules.map(s => s.maintenanceType)));
+      for (const type of Array.from(newTypes)) {
+        if (!maintenanceTypes.find(t => t.value.toLowerCase() === type.toLowerCase())) {
+          await addMaintenanceType(type);
+        }
+      }
+      toast({
+        title: 'Import complete',
+        description: `${result.instrumentCount} instruments and ${result.scheduleCount} scheduled occurrences were created.`,
+      });
+      reset();
+      onSuccess?.();
+    } else {
+      toast({ title: 'Import failed', description: `${result.error} Nothing was imported.`, variant: 'destructive' });
+    }
+    await loadContext();
+    setIsImporting(false);
+  };
+
+  const handleRollBack = async () => {
+    if (!rollingBack) return;
+    const result = await rollBackInstrumentImport(rollingBack.id);
+    setRollingBack(null);
+    if (result.success) {
+      toast({ title: 'Import rolled back', description: `${result.count} instruments were removed.` });
+      onSuccess?.();
+    } else {
+      toast({ title: 'Could not roll back', description: result.error, variant: 'destructive' });
+    }
+    await loadContext();
+  };
+
+  const setFieldColumn = (field: ImportField, value: string) =>
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === NOT_MAPPED) delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) reset(); onOpenChange(open); }}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Import Instruments</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or XLSX file with one row per instrument and maintenance type. Rows sharing an Equipment ID add further schedules to that instrument.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[70vh] overflow-y-auto pr-2">
+          <div className="flex items-center gap-3">
+            <Input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="cursor-pointer max-w-sm"
+              disabled={isReading || isImporting}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+            {isReading && <Loader2 className="h-4 w-4 animate-spin" />}
+            {fileName && (
+              <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                <FileSpreadsheet className="h-4 w-4" /> {fileName} · {dataRows.length} rows
+              </span>
+            )}
+          </div>
+
+          {headers.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="font-medium">Column Mapping</h3>
+              <div className="grid gap-3 md:grid-cols-3">
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field} className="space-y-1">
+                    <Label>{label}{required && ' *'}</Label>
+                    <Select
+                      value={mapping[field] === undefined ? NOT_MAPPED : String(mapping[field])}
+                      onValueChange={(value) => setFieldColumn(field, value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                        {headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {headers.length > 0 && missingFields.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Map the required columns</AlertTitle>
+              <AlertDescription>{missingFields.map(f => f.label).join(', ')}</AlertDescription>
+            </Alert>
+          )}
+
+          {validation && (
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <h3 className="font-medium mr-2">Dry Run</h3>
+                <Badge variant="secondary">{validation.instruments.length} instruments ready</Badge>
+                <Badge variant="secondary">{scheduleCount} maintenance schedules</Badge>
+                <Badge variant={invalidRows.length > 0 ? 'destructive' : 'outline'}>{invalidRows.length} rows with errors</Badge>
+              </div>
+              {invalidRows.length === 0 ? (
+                <p className="flex items-center gap-2 text-sm text-green-600">
+                  <CheckCircle2 className="h-4 w-4" /> Every row is valid.
+                </p>
+              ) : (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    Instruments with any invalid row are left out. Fix the file and upload it again, or import the valid instruments now.
+                  </p>
+                  <div className="rounded-md border max-h-64 overflow-y-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-16">Row</TableHead>
+                          <TableHead className="w-40">Equipment ID</TableHead>
+                          <TableHead>Problems</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {invalidRows.map(row => (
+                          <TableRow key={row.rowNumber}>
+                            <TableCell>{row.rowNumber}</TableCell>
+                            <TableCell>{row.eqpId || '-'}</TableCell>
+                            <TableCell className="text-sm text-destructive">{row.errors.join('; ')}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          {imports.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="font-medium">Recent Imports</h3>
+              {imports.map(batch => (
+                <div key={batch.id} className="flex items-center gap-3 p-2 border rounded-md text-sm">
+                  <div className="flex-1">
+                    <div className="font-medium">{batch.file_name}</div>
+                    <div className="text-muted-foreground">
+                      {format(new Date(batch.created_at), 'd MMM yyyy HH:mm')} · {batch.instrument_count} instruments, {batch.schedule_count} schedules
+                    </div>
+                  </div>
+                  {batch.status === 'rolled_back' ? (
+                    <Badge variant="outline">Rolled back</Badge>
+                  ) : (
+                    <>
+                      {batch.status === 'pending' && <Badge variant="destructive">Incomplete</Badge>}
+                      <Button size="sm" variant="outline" onClick={() => setRollingBack(batch)}>
+                        <Undo2 className="h-4 w-4 mr-1" /> Roll back
+                      </Button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" type="button" onClick={() => { reset(); onOpenChange(false); }}>
+            Close
+          </Button>
+          <Button type="button" disabled={!validation || validation.instruments.length === 0 || isImporting} onClick={handleImport}>
+            {isImporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Import {validation?.instruments.length || 0} Instruments
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+
+      <AlertDialog open={!!rollingBack} onOpenChange={(open) => { if (!open) setRollingBack(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back this import?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The instruments from <strong>{rollingBack?.file_name}</strong>, their maintenance configurations and scheduled occurrences will be deleted.
+              This is refused once results have been recorded for any of them.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRollBack} className={buttonVariants({ variant: 'destructive' })}>
+              Roll back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Dialog>
+  );
+}
@@ -9,6 +9,7 @@ import {
   useReactTable,
   type SortingState,
   type ColumnFiltersState,
+  type RowSelectionState,
   getFilteredRowModel,
 } from '@tanstack/react-table';
 
@@ -27,17 +28,30 @@ import { columns as createColumns } from './columns';
 import { supabase } from '@/lib/supabase';
 import { Skeleton } from '@/components/ui/skeleton';
 import { AddInstrumentDialog } from './add-instrument-dialog';
+import { ImportInstrumentsDialog } from './import-instruments-dialog';
+import { ExportMenu } from '@/components/export-menu';
+import { PrintLabelsDialog } from './print-labels-dialog';
 import { EditInstrumentDialog } from './edit-instrument-dialog';
+import { LifecycleTransitionDialog } from './lifecycle-transition-dialog';
 import { DeleteConfirmationDialog } from './delete-confirmation-dialog';
-import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/auth-context';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { isRetiredState } from '@/lib/instrument-lifecycle';
+import { Tags } from 'lucide-react';
 
 export function InstrumentClientPage() {
   const [sorting, setSorting] = useState<SortingState>([]);
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
   const [isAddDialogOpen, setAddDialogOpen] = useState(false);
+  const [isImportDialogOpen, setImportDialogOpen] = useState(false);
+  const [isLabelsDialogOpen, setLabelsDialogOpen] = useState(false);
+  const [rowSelection, setRowSelection] = useState<RowSelectionState>({});
   const [editingInstrument, setEditingInstrument] = useState<Instrument | null>(null);
+  const [retiringInstrument, setRetiringInstrument] = useState<Instrument | null>(null);
   const [deletingInstrument, setDeletingInstrument] = useState<Instrument | null>(null);
-  const { toast } = useToast();
+  const [showRetired, setShowRetired] = useState(false);
+  const { hasPermission, hasInstrumentPermission } = useAuth();
 
   const [instruments, setInstruments] = useState<Instrument[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -60,47 +74,27 @@ export function InstrumentClientPage() {
     setEditingInstrument(instrument);
   };
 
+  const handleRetire = (instrument: Instrument) => {
+    setRetiringInstrument(instrument);
+  };
+
   const handleDelete = (instrument: Instrument) => {
     setDeletingInstrument(instrument);
   };
 
-  const confirmDelete = async () => {
-    if (!deletingInstrument) return;
-
-    try {
-      // Delete Results
-      await supabase.from('maintenanceResults').delete().eq('instrumentId', deletingInstrument.id);
-      // Delete Schedules
-      await supabase.from('maintenanceSchedules').delete().eq('instrumentId', deletingInstrument.id);
-      // Delete Configurations
-      await supabase.from('maintenance_configurations').delete().eq('instrument_id', deletingInstrument.id);
-
-      // Delete Instrument
-      const { error } = await supabase.from('instruments').delete().eq('id', deletingInstrument.id);
-
-      if (error) throw error;
-
-      setInstruments(prev => prev.filter(i => i.id !== deletingInstrument.id));
-      toast({
-        title: 'Instrument Deleted',
-        description: `${deletingInstrument.eqpId} has been removed from the inventory.`,
-        variant: 'destructive',
-      });
-    } catch (error) {
-      console.error('Error deleting instrument:', error);
-      toast({
-        title: 'Error',
-        description: 'Failed to delete instrument.',
-        variant: 'destructive',
-      });
-    }
-    setDeletingInstrument(null);
-  };
+  const columns = createColumns(
+    handleEdit,
+    handleRetire,
+    hasPermission('instruments', 'edit') ? handleDelete : null,
+    Object.fromEntries(instruments.map(i => [i.id, i])),
+    instrument => hasInstrumentPermission('instruments', 'edit', instrument)
+  );
 
-  const columns = createColumns(handleEdit, handleDelete);
+  // Retired and disposed instruments keep their records but are out of the way by default
+  const visibleInstruments = showRetired ? instruments : instruments.filter(i => !isRetiredState(i.lifecycle_state));
 
   const table = useReactTable({
-    data: instruments || [],
+    data: visibleInstruments,
     columns,
     getCoreRowModel: getCoreRowModel(),
     getPaginationRowModel: getPaginationRowModel(),
@@ -108,12 +102,21 @@ export function InstrumentClientPage() {
     getSortedRowModel: getSortedRowModel(),
     onColumnFiltersChange: setColumnFilters,
     getFilteredRowModel: getFilteredRowModel(),
+    onRowSelectionChange: setRowSelection,
+    getRowId: (row) => row.id,
     state: {
       sorting,
       columnFilters,
+      rowSelection,
     },
   });
 
+  // Selected instruments, or everything the current filter shows
+  const selectedInstruments = table.getSelectedRowModel().rows.map(r => r.original);
+  const labelInstruments = selectedInstruments.length > 0
+    ? selectedInstruments
+    : table.getFilteredRowModel().rows.map(r => r.original);
+
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
@@ -123,7 +126,19 @@ export function InstrumentClientPage() {
           onChange={(event) => table.getColumn('eqpId')?.setFilterValue(event.target.value)}
           className="max-w-sm"
         />
-        <Button onClick={() => setAddDialogOpen(true)}>Add Instrument</Button>
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-2 mr-2">
+            <Switch id="show-retired" checked={showRetired} onCheckedChange={setShowRetired} />
+            <Label htmlFor="show-retired" className="text-sm">Show retired</Label>
+          </div>
+          <Button variant="outline" onClick={() => setLabelsDialogOpen(true)} disabled={labelInstruments.length === 0}>
+            <Tags className="h-4 w-4 mr-2" />
+            {selectedInstruments.length > 0 ? `Labels (${selectedInstruments.length})` : 'Labels'}
+          </Button>
+          <Button variant="outline" onClick={() => setImportDialogOpen(true)}>Import</Button>
+          <ExportMenu filters={{ search: (table.getColumn('eqpId')?.getFilterValue() as string) ?? '' }} />
+          <Button onClick={() => setAddDialogOpen(true)}>Add Instrument</Button>
+        </div>
       </div>
       <div className="rounded-md border w-full overflow-x-auto">
         <Table className="min-w-full">
@@ -192,6 +207,8 @@ export function InstrumentClientPage() {
         </Button>
       </div>
       <AddInstrumentDialog isOpen={isAddDialogOpen} onOpenChange={setAddDialogOpen} onSuccess={fetchInstruments} />
+      <PrintLabelsDialog isOpen={isLabelsDialogOpen} onOpenChange={setLabelsDialogOpen} instruments={labelInstruments} />
+      <ImportInstrumentsDialog isOpen={isImportDialogOpen} onOpenChange={setImportDialogOpen} onSuccess={fetchInstruments} />
       {editingInstrument && (
         <EditInstrumentDialog
           isOpen={!!editingInstrument}
@@ -204,18 +221,31 @@ export function InstrumentClientPage() {
           onSuccess={fetchInstruments}
         />
       )}
-      {deletingInstrument && (
-        <DeleteConfirmationDialog
-          isOpen={!!deletingInstrument}
-          onOpenChange={(isOpen) => {
-            if (!isOpen) {
-              setDeletingInstrument(null);
-            }
-          }}
-          onConfirm={confirmDelete}
-          instrumentName={deletingInstrument.eqpId}
-        />
-      )}
+      <LifecycleTransitionDialog
+        instrument={retiringInstrument}
+        initialState="retired"
+        onOpenChange={(isOpen) => {
+          if (!isOpen) {
+            setRetiringInstrument(null);
+          }
+        }}
+        onTransitioned={() => {
+          setRetiringInstrument(null);
+          fetchInstruments();
+        }}
+      />
+      <DeleteConfirmationDialog
+        instrument={deletingInstrument}
+        onOpenChange={(isOpen) => {
+          if (!isOpen) {
+            setDeletingInstrument(null);
+          }
+        }}
+        onDeleted={() => {
+          setInstruments(prev => prev.filter(i => i.id !== deletingInstrument?.id));
+          setDeletingInstrument(null);
+        }}
+      />
     </div>
   );
 }
@@ -1,16 +1,17 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useRouter } from 'next/navigation';
 import { supabase } from '@/lib/supabase';
-import type { Instrument, MaintenanceEvent, MaintenanceResult, MaintenanceFrequency, TestTemplate } from '@/lib/types';
+import type { Instrument, InstrumentStatus, LifecycleState, MaintenanceEvent, MaintenanceResult, MaintenanceFrequency, TestTemplate } from '@/lib/types';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { PlaceHolderImages } from '@/lib/placeholder-images';
 import Image from 'next/image';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { CalendarDays, FlaskConical, Tag, Wrench, ChevronRight, HardDrive, FileText, Trash2, Edit, Save, X, Plus, Upload, Loader2 } from 'lucide-react';
-import { format, isAfter, addWeeks, addMonths, addYears } from 'date-fns';
+import { CalendarDays, FlaskConical, Tag, Wrench, ChevronRight, HardDrive, FileText, Trash2, Edit, Save, X, Plus, Upload, Loader2, UserRound, Power, Tags, Archive } from 'lucide-react';
+import { format, isAfter, addWeeks, addMonths, addYears, endOfDay } from 'date-fns';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
@@ -30,28 +31,50 @@ import { DatePicker } from '@/components/ui/date-picker';
 import { Combobox } from '@/components/ui/combobox';
 import { useInstrumentTypes } from '@/hooks/use-instrument-types';
 import { useMaintenanceTypes } from '@/hooks/use-maintenance-types';
-import { useRouter } from 'next/navigation';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/auth-context';
-import { regenerateSchedules, generateYearSchedules } from '@/lib/schedule-generator';
-import {
-    AlertDialog,
-    AlertDialogAction,
-    AlertDialogCancel,
-    AlertDialogContent,
-    AlertDialogDescription,
-    AlertDialogFooter,
-    AlertDialogHeader,
-    AlertDialogTitle,
-    AlertDialogTrigger,
-} from '@/components/ui/alert-dialog';
-
-const frequencies: MaintenanceFrequency[] = ['Daily', 'Weekly', 'Monthly', '3 Months', '6 Months', '1 Year'];
+import { regenerateSchedules, generateYearSchedules, resumeInstrumentSchedules } from '@/lib/schedule-generator';
+import { formatFrequency, isValidRecurrenceRule } from '@/lib/recurrence';
+import { NON_WORKING_DAY_SHIFTS } from '@/lib/working-calendar';
+import { NEXT_DUE_ANCHORS } from '@/lib/compliance';
+import { MAINTENANCE_TRIGGERS } from '@/lib/meters';
+import { useInstrumentMeters } from '@/hooks/use-instrument-meters';
+import { useMaintenancePrerequisites } from '@/hooks/use-maintenance-prerequisites';
+import { useTechnicians } from '@/hooks/use-technicians';
+import { canPerformMaintenance, getMemberName } from '@/lib/assignment';
+import { InstrumentMetersCard } from '@/components/instruments/instrument-meters-card';
+import { InstrumentPrerequisitesCard } from '@/components/instruments/instrument-prerequisites-card';
+import { InstrumentHierarchyCard } from '@/components/instruments/instrument-hierarchy-card';
+import { useInstrumentHierarchy } from '@/hooks/use-instrument-hierarchy';
+import { InstrumentLifecycleCard } from '@/components/instruments/instrument-lifecycle-card';
+import { LifecycleTransitionDialog } from '@/components/instruments/lifecycle-transition-dialog';
+import { DeleteConfirmationDialog } from '@/components/instruments/delete-confirmation-dialog';
+import { useInstrumentLifecycle } from '@/hooks/use-instrument-lifecycle';
+import { isRetiredState } from '@/lib/instrument-lifecycle';
+import { Checkbox } from '@/components/ui/checkbox';
+import { LocationSelect } from '@/components/locations/location-select';
+import { useLocations } from '@/hooks/use-locations';
+import { RecurrenceRuleEditor } from '@/components/maintenance/recurrence-rule-editor';
+import { UpdateMaintenanceDialog } from '@/components/maintenance/update-maintenance-dialog';
+import { PrintLabelsDialog } from '@/components/instruments/print-labels-dialog';
+import { isClosedStatus } from '@/lib/schedule-transitions';
+import { removeMaintenanceConfiguration } from '@/lib/instrument-deletion';
+
+const frequencies: MaintenanceFrequency[] = ['Daily', 'Weekly', 'Monthly', '3 Months', '6 Months', '1 Year', 'Custom'];
 
 const scheduleSchema = z.object({
     id: z.string().optional(),
     maintenanceType: z.string().min(1, 'Maintenance type is required.'),
-    frequency: z.string().min(1, 'Frequency is required.'),
+    triggerType: z.enum(['calendar', 'meter', 'either']).default('calendar'),
+    frequency: z.string(),
+    recurrenceRule: z.string().optional(),
+    meterId: z.string().optional(),
+    meterInterval: z.string().regex(/^\d*\.?\d*$/, 'Numbers only').optional(),
+    nonWorkingDayShift: z.enum(['none', 'previous', 'next']).default('none'),
+    // Blank grace days / 'inherit' fall back to the maintenance type's policy
+    earlyGraceDays: z.string().regex(/^\d*$/, 'Whole days only').optional(),
+    lateGraceDays: z.string().regex(/^\d*$/, 'Whole days only').optional(),
+    nextDueAnchor: z.enum(['inherit', 'nominal', 'completion']).default('inherit'),
     scheduleDate: z.date({ required_error: 'Schedule date is required.' }),
     templateId: z.string().optional(),
     maintenanceBy: z.enum(['self', 'vendor']).default('self'),
@@ -60,20 +83,57 @@ const scheduleSchema = z.object({
 }).refine(
     (data) => data.maintenanceBy === 'self' || (data.vendorName && data.vendorName.trim().length > 0),
     { message: 'Vendor name is required when maintenance is by vendor', path: ['vendorName'] }
+).refine(
+    (data) => data.triggerType === 'meter' || data.frequency.length > 0,
+    { message: 'Frequency is required.', path: ['frequency'] }
+).refine(
+    (data) => data.triggerType === 'meter' || data.frequency !== 'Custom' || isValidRecurrenceRule(data.recurrenceRule),
+    { message: 'Enter a valid recurrence rule for a custom frequency', path: ['recurrenceRule'] }
+).refine(
+    (data) => data.triggerType === 'calendar' || !!data.meterId,
+    { message: 'Select the meter to trigger on', path: ['meterId'] }
+).refine(
+    (data) => data.triggerType === 'calendar' || Number(data.meterInterval) > 0,
+    { message: 'Enter the usage between services', path: ['meterInterval'] }
 );
 
+const getComplianceOverrides = (schedule: z.infer<typeof scheduleSchema>) => ({
+    early_grace_days: schedule.earlyGraceDays ? Number(schedule.earlyGraceDays) : null,
+    late_grace_days: schedule.lateGraceDays ? Number(schedule.lateGraceDays) : null,
+    next_due_anchor: schedule.nextDueAnchor === 'inherit' ? null : schedule.nextDueAnchor,
+});
+
+// Meter-only configurations have no calendar series, but frequency is a required column,
+// so an unusable leftover frequency is replaced rather than saved
+const getTriggerFields = (schedule: z.infer<typeof scheduleSchema>) => {
+    const usesMeter = schedule.triggerType !== 'calendar';
+    const keepsFrequency = schedule.triggerType !== 'meter'
+        || (!!schedule.frequency && (schedule.frequency !== 'Custom' || isValidRecurrenceRule(schedule.recurrenceRule)));
+    const frequency = keepsFrequency ? schedule.frequency : '1 Year';
+    return {
+        trigger_type: schedule.triggerType,
+        frequency,
+        recurrence_rule: frequency === 'Custom' ? schedule.recurrenceRule || null : null,
+        meter_id: usesMeter ? schedule.meterId || null : null,
+        meter_interval: usesMeter ? Number(schedule.meterInterval) : null,
+    };
+};
+
 const formSchema = z.object({
     eqpId: z.string().min(1, 'Equipment ID is required.'),
     instrumentType: z.string().min(1, 'Instrument type is required.'),
     make: z.string().min(1, 'Manufacturer/Make is required.'),
     model: z.string().min(1, 'Model is required.'),
     serialNumber: z.string().min(1, 'Serial number is required.'),
-    location: z.string().min(1, 'Location is required.'),
+    locationId: z.string().min(1, 'Location is required.'),
     schedules: z.array(scheduleSchema).min(1, "At least one schedule is required"),
     imageUrl: z.string().url().optional().or(z.literal('')),
     maintenanceBy: z.enum(['self', 'vendor']).default('self'),
     vendorName: z.string().optional(),
     vendorContact: z.string().optional(),
+    defaultAssigneeId: z.string().optional(),
+    defaultTeamId: z.string().optional(),
+    status: z.string().optional(),
 }).refine(
     (data) => data.maintenanceBy === 'self' || (data.vendorName && data.vendorName.trim().length > 0),
     { message: 'Vendor name is required when maintenance is by vendor', path: ['vendorName'] }
@@ -81,6 +141,8 @@ const formSchema = z.object({
 
 type FormValues = z.infer<typeof formSchema>;
 
+const INSTRUMENT_STATUSES: InstrumentStatus[] = ['Operational', 'AMC', 'PM', 'Out of Service'];
+
 function DetailItem({ icon: Icon, label, value, isEditing, renderInput }: { icon: React.ElementType, label: string, value: React.ReactNode, isEditing?: boolean, renderInput?: () => React.ReactNode }) {
     if (isEditing && renderInput) {
         return (
@@ -109,7 +171,10 @@ function DetailItem({ icon: Icon, label, value, isEditing, renderInput }: { icon
     );
 }
 
-export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: string }) {
+/**
+ * `openTask` comes from a scanned label: a schedule id, or 'open' for whatever is currently due.
+ */
+export function InstrumentDetailClientPage({ instrumentId, openTask }: { instrumentId: string; openTask?: string }) {
     const [instrument, setInstrument] = useState<Instrument | null>(null);
     const [maintenanceHistory, setMaintenanceHistory] = useState<MaintenanceEvent[]>([]);
     const [maintenanceResults, setMaintenanceResults] = useState<MaintenanceResult[]>([]);
@@ -121,12 +186,26 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
     const [imagePreviewUrl, setImagePreviewUrl] = useState<string>('');
     const [isUploadingImage, setIsUploadingImage] = useState<boolean>(false);
     const [isSaving, setIsSaving] = useState<boolean>(false);
+    const [isLabelDialogOpen, setLabelDialogOpen] = useState(false);
+    const [lifecycleDialog, setLifecycleDialog] = useState<{ initialState: LifecycleState | null } | null>(null);
+    const [isDeleteDialogOpen, setDeleteDialogOpen] = useState(false);
+    const [taskEvent, setTaskEvent] = useState<MaintenanceEvent | null>(null);
+    const [componentHistory, setComponentHistory] = useState<MaintenanceEvent[]>([]);
+    const [componentResults, setComponentResults] = useState<MaintenanceResult[]>([]);
+    const [includeComponents, setIncludeComponents] = useState(true);
+    const handledOpenTask = useRef(false);
 
     const { instrumentTypes, isLoading: isLoadingTypes } = useInstrumentTypes();
     const { maintenanceTypes, addMaintenanceType, isLoading: isLoadingMaintTypes } = useMaintenanceTypes();
-    const router = useRouter();
     const { toast } = useToast();
-    const { user, orgId } = useAuth();
+    const { user, orgId, hasInstrumentPermission } = useAuth();
+    const router = useRouter();
+    const instrumentMeters = useInstrumentMeters(instrumentId);
+    const maintenancePrerequisites = useMaintenancePrerequisites(instrumentId);
+    const instrumentHierarchy = useInstrumentHierarchy(instrumentId);
+    const instrumentLifecycle = useInstrumentLifecycle(instrumentId);
+    const { options: locationOptions } = useLocations();
+    const { members, teams } = useTechnicians();
 
     const form = useForm<FormValues>({
         resolver: zodResolver(formSchema),
@@ -136,11 +215,14 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
             make: '',
             model: '',
             serialNumber: '',
-            location: '',
+            locationId: '',
             schedules: [],
             maintenanceBy: 'self',
             vendorName: '',
             vendorContact: '',
+            defaultAssigneeId: '',
+            defaultTeamId: '',
+            status: 'Operational',
         },
     });
 
@@ -171,7 +253,15 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
             const schedules: z.infer<typeof scheduleSchema>[] = configs?.map((c: any) => ({
                 id: c.id,
                 maintenanceType: c.maintenance_type || c.maintenanceType,
+                triggerType: c.trigger_type || 'calendar',
                 frequency: c.frequency,
+                recurrenceRule: c.recurrence_rule || '',
+                meterId: c.meter_id || '',
+                meterInterval: c.meter_interval != null ? String(c.meter_interval) : '',
+                nonWorkingDayShift: c.non_working_day_shift || 'none',
+                earlyGraceDays: c.early_grace_days != null ? String(c.early_grace_days) : '',
+                lateGraceDays: c.late_grace_days != null ? String(c.late_grace_days) : '',
+                nextDueAnchor: c.next_due_anchor || 'inherit',
                 scheduleDate: new Date(c.schedule_date || c.scheduleDate),
                 templateId: c.template_id || c.templateId || '',
                 maintenanceBy: c.maintenanceBy || c.maintenance_by || 'self',
@@ -183,7 +273,15 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
                 schedules.push({
                     id: undefined,
                     maintenanceType: data.maintenanceType || 'Preventative Maintenance',
+                    triggerType: 'calendar',
                     frequency: data.frequency || 'Monthly',
+                    recurrenceRule: '',
+                    meterId: '',
+                    meterInterval: '',
+                    nonWorkingDayShift: 'none',
+                    earlyGraceDays: '',
+                    lateGraceDays: '',
+                    nextDueAnchor: 'inherit',
                     scheduleDate: new Date(data.scheduleDate),
                     templateId: '',
                     maintenanceBy: data.maintenanceBy || 'self',
@@ -198,12 +296,15 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
                 make: data.make || '',
                 model: data.model || '',
                 serialNumber: data.serialNumber || '',
-                location: data.location || '',
+                locationId: data.location_id || '',
                 imageUrl: data.imageUrl || '',
                 schedules: schedules,
                 maintenanceBy: data.maintenanceBy || 'self',
                 vendorName: data.vendorName || '',
                 vendorContact: data.vendorContact || '',
+                defaultAssigneeId: data.default_assignee_id || '',
+                defaultTeamId: data.default_team_id || '',
+                status: data.status || 'Operational',
             });
             if (data.imageUrl) setImagePreviewUrl(data.imageUrl);
         }
@@ -237,6 +338,52 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
         }
     }, [instrumentId]);
 
+    // A system's history also lists the maintenance recorded against its modules
+    const fetchComponentHistory = async () => {
+        const ids = instrumentHierarchy.componentIds;
+        if (ids.length === 0) {
+            setComponentHistory([]);
+            setComponentResults([]);
+            return;
+        }
+        const [{ data: schedules }, { data: results }] = await Promise.all([
+            supabase.from('maintenanceSchedules').select('*').in('instrumentId', ids),
+            supabase.from('maintenanceResults').select('*').in('instrumentId', ids),
+        ]);
+        setComponentHistory(schedules || []);
+        setComponentResults(results || []);
+    };
+
+    useEffect(() => {
+        fetchComponentHistory();
+    }, [instrumentHierarchy.componentIds]);
+
+    const displayedHistory = useMemo(() => {
+        if (!includeComponents || componentHistory.length === 0) return maintenanceHistory;
+        return [...maintenanceHistory, ...componentHistory].sort(
+            (a, b) => new Date(b.dueDate).getTime() - new Date(a.dueDate).getTime()
+        );
+    }, [includeComponents, maintenanceHistory, componentHistory]);
+
+    // Open the requested task once, after the history it is picked from has loaded
+    useEffect(() => {
+        if (!openTask || isLoadingHistory || handledOpenTask.current) return;
+        handledOpenTask.current = true;
+
+        const dueBy = endOfDay(new Date());
+        const event = openTask === 'open'
+            ? maintenanceHistory
+                .filter(e => !isClosedStatus(e.status) && new Date(e.dueDate) <= dueBy)
+                .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime())[0]
+            : maintenanceHistory.find(e => e.id === openTask);
+
+        if (event) {
+            setTaskEvent(event);
+        } else {
+            toast({ title: 'No open task', description: 'Nothing is due on this instrument right now.' });
+        }
+    }, [openTask, isLoadingHistory, maintenanceHistory]);
+
     const onSubmit = async (values: FormValues) => {
         if (!instrument) return;
         try {
@@ -290,7 +437,8 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
                     make: updatedValues.make,
                     model: updatedValues.model,
                     serialNumber: updatedValues.serialNumber,
-                    location: updatedValues.location,
+                    location_id: updatedValues.locationId,
+                    location: locationOptions.find(o => o.location.id === updatedValues.locationId)?.path || instrument.location,
                     imageUrl: updatedValues.imageUrl || '',
                     // Legacy fields update for compatibility if needed, using first schedule
                     maintenanceType: updatedValues.schedules[0]?.maintenanceType,
@@ -299,53 +447,36 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
                     maintenanceBy: updatedValues.maintenanceBy,
                     vendorName: updatedValues.maintenanceBy === 'vendor' ? updatedValues.vendorName || '' : null,
                     vendorContact: updatedValues.maintenanceBy === 'vendor' ? updatedValues.vendorContact || '' : null,
+                    default_assignee_id: updatedValues.defaultAssigneeId || null,
+                    default_team_id: updatedValues.defaultTeamId || null,
+                    status: updatedValues.status || 'Operational',
                 })
                 .eq('id', instrumentId);
 
             if (instError) throw instError;
 
+            // Out of Service suspends the configurations in the database (waiving or removing
+            // their open schedules), so nothing is generated for them here; on the way back
+            // every series is restarted from today instead of realigned
+            const isOutOfService = updatedValues.status === 'Out of Service';
+            const isReturningToService = instrument.status === 'Out of Service' && !isOutOfService;
+            const skipScheduling = isOutOfService || isReturningToService;
+
             // Handle Schedules (Configurations)
             // 1. Get existing configs IDs to know what to keep/delete
             const keptConfigIds = values.schedules.map(s => s.id).filter(Boolean);
 
-            // 2. Get configs that will be deleted (to also delete their schedules)
+            // 2. Remove the configs that were dropped from the form. Their open schedules go to the
+            // recycle bin with them; completed work stays in the history
             const { data: configsToDelete } = await supabase
                 .from('maintenance_configurations')
-                .select('id, maintenance_type')
+                .select('id')
                 .eq('instrument_id', instrumentId)
                 .not('id', 'in', keptConfigIds.length > 0 ? `(${keptConfigIds.join(',')})` : '()');
 
-            // 3. Delete maintenanceSchedules for removed configurations
-            if (configsToDelete && configsToDelete.length > 0) {
-                for (const config of configsToDelete) {
-                    const { error: scheduleDeleteError } = await supabase
-                        .from('maintenanceSchedules')
-                        .delete()
-                        .eq('instrumentId', instrumentId)
-                        .eq('type', config.maintenance_type);
-
-                    if (scheduleDeleteError) {
-                        console.error('Error deleting schedules for config:', config.id, scheduleDeleteError);
-                    } else {
-                        console.log(`Deleted schedules for removed config: ${config.maintenance_type}`);
-                    }
-                }
-            }
-
-            // 4. Delete removed configurations
-            let deleteQuery = supabase
-                .from('maintenance_configurations')
-                .delete()
-                .eq('instrument_id', instrumentId);
-
-            if (keptConfigIds.length > 0) {
-                deleteQuery = deleteQuery.not('id', 'in', `(${keptConfigIds.join(',')})`);
-            }
-
-            const { error: deleteError } = await deleteQuery;
-            if (deleteError) {
-                console.error('Error deleting configs:', JSON.stringify(deleteError));
-                throw deleteError;
+            for (const config of configsToDelete || []) {
+                const removed = await removeMaintenanceConfiguration(config.id);
+                if (!removed.success) throw new Error(removed.error);
             }
 
             // UPSERT Configurations
@@ -354,7 +485,9 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
                     // Update
                     const { error: updateError } = await supabase.from('maintenance_configurations').update({
                         maintenance_type: schedule.maintenanceType,
-                        frequency: schedule.frequency,
+                        ...getTriggerFields(schedule),
+                        non_working_day_shift: schedule.nonWorkingDayShift,
+                        ...getComplianceOverrides(schedule),
                         schedule_date: schedule.scheduleDate.toISOString(),
                         template_id: schedule.templateId || null,
                         user_id: user?.id,
@@ -367,20 +500,23 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
                         throw updateError;
                     }
 
-                    // Delete pending schedules and regenerate with new frequency
-                    const regenResult = await regenerateSchedules({
-                        instrument_id: instrumentId,
-                        maintenance_type: schedule.maintenanceType,
-                        frequency: schedule.frequency,
-                        schedule_date: schedule.scheduleDate.toISOString(),
-                        template_id: schedule.templateId || null,
-                        user_id: user?.id,
-                        org_id: orgId,
-                        maintenanceBy: schedule.maintenanceBy,
-                        vendorName: schedule.maintenanceBy === 'vendor' ? schedule.vendorName || '' : null,
-                        vendorContact: schedule.maintenanceBy === 'vendor' ? schedule.vendorContact || '' : null,
-                    });
-                    console.log(`Deleted ${regenResult.deleted} pending schedules, created ${regenResult.created} new schedules`);
+                    if (!skipScheduling) {
+                        // Realign pending schedules with the new configuration (in-progress work is kept)
+                        const regenResult = await regenerateSchedules({
+                            instrument_id: instrumentId,
+                            maintenance_type: schedule.maintenanceType,
+                            ...getTriggerFields(schedule),
+                            non_working_day_shift: schedule.nonWorkingDayShift,
+                            schedule_date: schedule.scheduleDate.toISOString(),
+                            template_id: schedule.templateId || null,
+                            user_id: user?.id,
+                            org_id: orgId,
+                            maintenanceBy: schedule.maintenanceBy,
+                            vendorName: schedule.maintenanceBy === 'vendor' ? schedule.vendorName || '' : null,
+                            vendorContact: schedule.maintenanceBy === 'vendor' ? schedule.vendorContact || '' : null,
+                        });
+                        if (!regenResult.success) throw new Error(regenResult.error);
+                    }
                 } else {
                     // Insert new configuration and generate 1 year of schedules
                     const { data: insertedConfig, error: insertError } = await supabase
@@ -388,7 +524,9 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
                         .insert({
                             instrument_id: instrumentId,
                             maintenance_type: schedule.maintenanceType,
-                            frequency: schedule.frequency,
+                            ...getTriggerFields(schedule),
+                            non_working_day_shift: schedule.nonWorkingDayShift,
+                            ...getComplianceOverrides(schedule),
                             schedule_date: schedule.scheduleDate.toISOString(),
                             template_id: schedule.templateId || null,
                             user_id: user?.id,
@@ -404,12 +542,13 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
                     }
 
                     // Generate 1 year of schedules for the new configuration
-                    if (insertedConfig) {
+                    if (insertedConfig && !skipScheduling) {
                         const genResult = await generateYearSchedules({
                             id: insertedConfig.id,
                             instrument_id: instrumentId,
                             maintenance_type: schedule.maintenanceType,
-                            frequency: schedule.frequency,
+                            ...getTriggerFields(schedule),
+                            non_working_day_shift: schedule.nonWorkingDayShift,
                             schedule_date: schedule.scheduleDate.toISOString(),
                             template_id: schedule.templateId || null,
                             user_id: user?.id,
@@ -423,9 +562,15 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
                 }
             }
 
+            if (isReturningToService) {
+                const resumeResult = await resumeInstrumentSchedules(instrumentId, orgId);
+                if (!resumeResult.success) throw new Error(resumeResult.error);
+            }
+
             // Re-fetch to sync state instead of redirecting
             await fetchInstrument();
             await fetchHistory();
+            await maintenancePrerequisites.refresh();
             setIsEditing(false);
             toast({ title: "Updated", description: "Instrument details saved successfully." });
 
@@ -437,28 +582,6 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
         }
     };
 
-    const handleDelete = async () => {
-        try {
-            // Delete Results
-            await supabase.from('maintenanceResults').delete().eq('instrumentId', instrumentId);
-            // Delete Schedules
-            await supabase.from('maintenanceSchedules').delete().eq('instrumentId', instrumentId);
-            // Delete Configurations
-            await supabase.from('maintenance_configurations').delete().eq('instrument_id', instrumentId);
-            // Delete Image if exists (Skip for now as we don't have bucket key easily accessible without parsing URL, usually safe to leave or implement later)
-
-            // Delete Instrument
-            const { error } = await supabase.from('instruments').delete().eq('id', instrumentId);
-            if (error) throw error;
-
-            toast({ title: "Deleted", description: "Instrument deleted successfully." });
-            router.push('/instruments');
-        } catch (error) {
-            console.error(error);
-            toast({ variant: "destructive", title: "Error", description: "Failed to delete instrument." });
-        }
-    }
-
     const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (file) {
@@ -502,6 +625,14 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
 
     const nextMaintenanceDate = instrument?.nextMaintenanceDate ? new Date(instrument.nextMaintenanceDate) : null;
     const isOverdue = nextMaintenanceDate && isAfter(new Date(), nextMaintenanceDate);
+
+    const formatScheduleTrigger = (schedule: z.infer<typeof scheduleSchema>) => {
+        const calendar = formatFrequency(schedule.frequency, schedule.recurrenceRule);
+        if (schedule.triggerType === 'calendar') return calendar;
+        const meter = instrumentMeters.meters.find(m => m.id === schedule.meterId);
+        const usage = `Every ${schedule.meterInterval} ${meter?.unit || ''} of ${meter?.name || 'meter'}`;
+        return schedule.triggerType === 'meter' ? usage : `${calendar} or ${usage.charAt(0).toLowerCase()}${usage.slice(1)}, whichever comes first`;
+    };
     const scheduleDate = instrument?.scheduleDate ? new Date(instrument.scheduleDate) : null;
 
 
@@ -569,26 +700,19 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
                                 </>
                             ) : (
                                 <>
-                                    <AlertDialog>
-                                        <AlertDialogTrigger asChild>
-                                            <Button variant="destructive" size="sm">
-                                                <Trash2 className="w-4 h-4 mr-2" /> Delete
-                                            </Button>
-                                        </AlertDialogTrigger>
-                                        <AlertDialogContent>
-                                            <AlertDialogHeader>
-                                                <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
-                                                <AlertDialogDescription>
-                                                    This action cannot be undone. This will permanently delete the instrument,
-                                                    all maintenance schedules, and all recorded results from the database.
-                                                </AlertDialogDescription>
-                                            </AlertDialogHeader>
-                                            <AlertDialogFooter>
-                                                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                                <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">Delete</AlertDialogAction>
-                                            </AlertDialogFooter>
-                                        </AlertDialogContent>
-                                    </AlertDialog>
+                                    {hasInstrumentPermission('instruments', 'edit', instrument) && !isRetiredState(instrument.lifecycle_state) && (
+                                        <Button type="button" variant="destructive" size="sm" onClick={() => setLifecycleDialog({ initialState: 'retired' })}>
+                                            <Archive className="w-4 h-4 mr-2" /> Retire
+                                        </Button>
+                                    )}
+                                    {hasInstrumentPermission('instruments', 'edit', instrument) && (
+                                        <Button type="button" variant="outline" size="sm" onClick={() => setDeleteDialogOpen(true)}>
+                                            <Trash2 className="w-4 h-4 mr-2" /> Delete
+                                        </Button>
+                                    )}
+                                    <Button type="button" variant="outline" size="sm" onClick={() => setLabelDialogOpen(true)}>
+                                        <Tags className="w-4 h-4 mr-2" /> Print Label
+                                    </Button>
                                     <Button type="button" variant="outline" size="sm" onClick={(e) => { e.preventDefault(); setIsEditing(true); }}>
                                         <Edit className="w-4 h-4 mr-2" /> Edit
                                     </Button>
@@ -673,6 +797,33 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
                                     <CardTitle className="font-headline text-lg">Details</CardTitle>
                                 </CardHeader>
                                 <CardContent className="space-y-6">
+                                    <DetailItem
+                                        icon={Power}
+                                        label="Status"
+                                        value={<Badge variant={instrument.status === 'Out of Service' ? 'destructive' : 'secondary'}>{instrument.status || 'Operational'}</Badge>}
+                                        isEditing={isEditing}
+                                        renderInput={() => (
+                                            <FormField control={form.control} name="status" render={({ field }) => (
+                                                <FormItem>
+                                                    <FormLabel>Status</FormLabel>
+                                                    <Select onValueChange={field.onChange} value={field.value || 'Operational'}>
+                                                        <FormControl>
+                                                            <SelectTrigger><SelectValue /></SelectTrigger>
+                                                        </FormControl>
+                                                        <SelectContent>
+                                                            {INSTRUMENT_STATUSES.map(status => <SelectItem key={status} value={status}>{status}</SelectItem>)}
+                                                        </SelectContent>
+                                                    </Select>
+                                                    {field.value === 'Out of Service' && instrument.status !== 'Out of Service' && (
+                                                        <p className="text-xs text-muted-foreground">
+                                                            Saving suspends this instrument&apos;s maintenance: work already due is marked not required and later schedules are removed until it returns to service.
+                                                        </p>
+                                                    )}
+                                                    <FormMessage />
+                                                </FormItem>
+                                            )} />
+                                        )}
+                                    />
                                     <DetailItem
                                         icon={Tag}
                                         label="Make / Manufacturer"
@@ -712,8 +863,8 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
                                         value={instrument.location}
                                         isEditing={isEditing}
                                         renderInput={() => (
-                                            <FormField control={form.control} name="location" render={({ field }) => (
-                                                <FormItem><FormLabel>Location</FormLabel><FormControl><Input {...field} /></FormControl><FormMessage /></FormItem>
+                                            <FormField control={form.control} name="locationId" render={({ field }) => (
+                                                <FormItem><FormLabel>Location</FormLabel><FormControl><LocationSelect options={locationOptions} value={field.value} onChange={field.onChange} /></FormControl><FormMessage /></FormItem>
                                             )} />
                                         )}
                                     />
@@ -773,6 +924,57 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
                                         )}
                                     />
 
+                                    <DetailItem
+                                        icon={UserRound}
+                                        label="Default Assignee"
+                                        value={[getMemberName(members, instrument.default_assignee_id), teams.find(t => t.id === instrument.default_team_id)?.name]
+                                            .filter(Boolean).join(' · ') || 'From location'}
+                                        isEditing={isEditing}
+                                        renderInput={() => (
+                                            <div className="space-y-3">
+                                                <FormField
+                                                    control={form.control}
+                                                    name="defaultAssigneeId"
+                                                    render={({ field }) => (
+                                                        <FormItem>
+                                                            <FormLabel>Default Technician</FormLabel>
+                                                            <Select onValueChange={(v) => field.onChange(v === 'none' ? '' : v)} value={field.value || 'none'}>
+                                                                <FormControl>
+                                                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                                                </FormControl>
+                                                                <SelectContent>
+                                                                    <SelectItem value="none">None</SelectItem>
+                                                                    {members.filter(canPerformMaintenance).map(m => (
+                                                                        <SelectItem key={m.id} value={m.id}>{m.display_name || 'Unnamed user'}</SelectItem>
+                                                                    ))}
+                                                                </SelectContent>
+                                                            </Select>
+                                                        </FormItem>
+                                                    )}
+                                                />
+                                                <FormField
+                                                    control={form.control}
+                                                    name="defaultTeamId"
+                                                    render={({ field }) => (
+                                                        <FormItem>
+                                                            <FormLabel>Default Team</FormLabel>
+                                                            <Select onValueChange={(v) => field.onChange(v === 'none' ? '' : v)} value={field.value || 'none'}>
+                                                                <FormControl>
+                                                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                                                </FormControl>
+                                                                <SelectContent>
+                                                                    <SelectItem value="none">None</SelectItem>
+                                                                    {teams.map(t => <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>)}
+                                                                </SelectContent>
+                                                            </Select>
+                                                        </FormItem>
+                                                    )}
+                                                />
+                                                <p className="text-xs text-muted-foreground">Leave both empty to use the location&apos;s default.</p>
+                                            </div>
+                                        )}
+                                    />
+
                                     {!isEditing && (
                                         <>
                                             <DetailItem icon={Tag} label="Maintenance Type" value={<Badge variant="default">{instrument.maintenanceType || 'Not set'}</Badge>} />
@@ -798,7 +1000,7 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
                                             type="button"
                                             variant="outline"
                                             size="sm"
-                                            onClick={() => append({ id: undefined, maintenanceType: '', frequency: '', scheduleDate: new Date(), templateId: '', maintenanceBy: 'self', vendorName: '', vendorContact: '' })}
+                                            onClick={() => append({ id: undefined, maintenanceType: '', triggerType: 'calendar', frequency: '', recurrenceRule: '', meterId: '', meterInterval: '', nonWorkingDayShift: 'none', earlyGraceDays: '', lateGraceDays: '', nextDueAnchor: 'inherit', scheduleDate: new Date(), templateId: '', maintenanceBy: 'self', vendorName: '', vendorContact: '' })}
                                         >
                                             <Plus className="h-4 w-4 mr-1" /> Add Schedule
                                         </Button>
@@ -838,20 +1040,68 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
                                                         />
                                                         <FormField
                                                             control={form.control}
-                                                            name={`schedules.${index}.frequency`}
+                                                            name={`schedules.${index}.triggerType`}
                                                             render={({ field }) => (
                                                                 <FormItem>
-                                                                    <FormLabel>Frequency</FormLabel>
-                                                                    <Select onValueChange={field.onChange} value={field.value}>
-                                                                        <FormControl><SelectTrigger><SelectValue placeholder="Frequency" /></SelectTrigger></FormControl>
+                                                                    <FormLabel>Triggered By</FormLabel>
+                                                                    <Select onValueChange={field.onChange} value={field.value || 'calendar'}>
+                                                                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
                                                                         <SelectContent>
-                                                                            {frequencies.map(f => <SelectItem key={f} value={f}>{f}</SelectItem>)}
+                                                                            {MAINTENANCE_TRIGGERS.map(t => <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>)}
                                                                         </SelectContent>
                                                                     </Select>
-                                                                    <FormMessage />
                                                                 </FormItem>
                                                             )}
                                                         />
+                                                        {form.watch(`schedules.${index}.triggerType`) !== 'meter' && (
+                                                            <FormField
+                                                                control={form.control}
+                                                                name={`schedules.${index}.frequency`}
+                                                                render={({ field }) => (
+                                                                    <FormItem>
+                                                                        <FormLabel>Frequency</FormLabel>
+                                                                        <Select onValueChange={field.onChange} value={field.value}>
+                                                                            <FormControl><SelectTrigger><SelectValue placeholder="Frequency" /></SelectTrigger></FormControl>
+                                                                            <SelectContent>
+                                                                                {frequencies.map(f => <SelectItem key={f} value={f}>{f}</SelectItem>)}
+                                                                            </SelectContent>
+                                                                        </Select>
+                                                                        <FormMessage />
+                                                                    </FormItem>
+                                                                )}
+                                                            />
+                                                        )}
+                                                        {form.watch(`schedules.${index}.triggerType`) !== 'calendar' && (
+                                                            <>
+                                                                <FormField
+                                                                    control={form.control}
+                                                                    name={`schedules.${index}.meterId`}
+                                                                    render={({ field }) => (
+                                                                        <FormItem>
+                                                                            <FormLabel>Meter</FormLabel>
+                                                                            <Select onValueChange={field.onChange} value={field.value || undefined}>
+                                                                                <FormControl><SelectTrigger><SelectValue placeholder={instrumentMeters.meters.length ? 'Select meter' : 'Add a meter first'} /></SelectTrigger></FormControl>
+                                                                                <SelectContent>
+                                                                                    {instrumentMeters.meters.map(m => <SelectItem key={m.id} value={m.id}>{m.name} ({m.unit})</SelectItem>)}
+                                                                                </SelectContent>
+                                                                            </Select>
+                                                                            <FormMessage />
+                                                                        </FormItem>
+                                                                    )}
+                                                                />
+                                                                <FormField
+                                                                    control={form.control}
+                                                                    name={`schedules.${index}.meterInterval`}
+                                                                    render={({ field }) => (
+                                                                        <FormItem>
+                                                                            <FormLabel>Every ({instrumentMeters.meters.find(m => m.id === form.watch(`schedules.${index}.meterId`))?.unit || 'units'})</FormLabel>
+                                                                            <FormControl><Input type="number" min={0} placeholder="e.g. 2000" {...field} /></FormControl>
+                                                                            <FormMessage />
+                                                                        </FormItem>
+                                                                    )}
+                                                                />
+                                                            </>
+                                                        )}
                                                         <FormField
                                                             control={form.control}
                                                             name={`schedules.${index}.maintenanceBy`}
@@ -899,6 +1149,25 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
                                                             <div />
                                                         </div>
                                                     )}
+                                                    {form.watch(`schedules.${index}.triggerType`) !== 'meter' && form.watch(`schedules.${index}.frequency`) === 'Custom' && (
+                                                        <FormField
+                                                            control={form.control}
+                                                            name={`schedules.${index}.recurrenceRule`}
+                                                            render={({ field }) => (
+                                                                <FormItem>
+                                                                    <FormLabel>Recurrence Rule</FormLabel>
+                                                                    <FormControl>
+                                                                        <RecurrenceRuleEditor
+                                                                            value={field.value || ''}
+                                                                            onChange={field.onChange}
+                                                                            startDate={form.watch(`schedules.${index}.scheduleDate`)}
+                                                                        />
+                                                                    </FormControl>
+                                                                    <FormMessage />
+                                                                </FormItem>
+                                                            )}
+                                                        />
+                                                    )}
                                                     <div className="grid grid-cols-2 gap-4">
                                                         <FormField
                                                             control={form.control}
@@ -911,6 +1180,21 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
                                                                 </FormItem>
                                                             )}
                                                         />
+                                                        <FormField
+                                                            control={form.control}
+                                                            name={`schedules.${index}.nonWorkingDayShift`}
+                                                            render={({ field }) => (
+                                                                <FormItem>
+                                                                    <FormLabel>If Due on Non-Working Day</FormLabel>
+                                                                    <Select onValueChange={field.onChange} value={field.value || 'none'}>
+                                                                        <FormControl><SelectTrigger><SelectValue placeholder="Keep date" /></SelectTrigger></FormControl>
+                                                                        <SelectContent>
+                                                                            {NON_WORKING_DAY_SHIFTS.map(o => <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>)}
+                                                                        </SelectContent>
+                                                                    </Select>
+                                                                </FormItem>
+                                                            )}
+                                                        />
                                                         <FormField
                                                             control={form.control}
                                                             name={`schedules.${index}.templateId`}
@@ -928,6 +1212,46 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
                                                             )}
                                                         />
                                                     </div>
+                                                    <div className="grid grid-cols-3 gap-4">
+                                                        <FormField
+                                                            control={form.control}
+                                                            name={`schedules.${index}.earlyGraceDays`}
+                                                            render={({ field }) => (
+                                                                <FormItem>
+                                                                    <FormLabel>Early Grace (days)</FormLabel>
+                                                                    <FormControl><Input type="number" min={0} placeholder="Type default" {...field} /></FormControl>
+                                                                    <FormMessage />
+                                                                </FormItem>
+                                                            )}
+                                                        />
+                                                        <FormField
+                                                            control={form.control}
+                                                            name={`schedules.${index}.lateGraceDays`}
+                                                            render={({ field }) => (
+                                                                <FormItem>
+                                                                    <FormLabel>Late Grace (days)</FormLabel>
+                                                                    <FormControl><Input type="number" min={0} placeholder="Type default" {...field} /></FormControl>
+                                                                    <FormMessage />
+                                                                </FormItem>
+                                                            )}
+                                                        />
+                                                        <FormField
+                                                            control={form.control}
+                                                            name={`schedules.${index}.nextDueAnchor`}
+                                                            render={({ field }) => (
+                                                                <FormItem>
+                                                                    <FormLabel>Next Due Follows</FormLabel>
+                                                                    <Select onValueChange={field.onChange} value={field.value || 'inherit'}>
+                                                                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                                                                        <SelectContent>
+                                                                            <SelectItem value="inherit">Type default</SelectItem>
+                                                                            {NEXT_DUE_ANCHORS.map(a => <SelectItem key={a.value} value={a.value}>{a.label}</SelectItem>)}
+                                                                        </SelectContent>
+                                                                    </Select>
+                                                                </FormItem>
+                                                            )}
+                                                        />
+                                                    </div>
                                                 </div>
                                             ))}
                                         </div>
@@ -937,7 +1261,7 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
                                                 <div key={idx} className="flex items-center justify-between p-3 border rounded-md">
                                                     <div>
                                                         <div className="font-medium">{schedule.maintenanceType}</div>
-                                                        <div className="text-sm text-muted-foreground">{schedule.frequency} • Starts {format(new Date(schedule.scheduleDate), 'PPP')}</div>
+                                                        <div className="text-sm text-muted-foreground">{formatScheduleTrigger(schedule)} • Starts {format(new Date(schedule.scheduleDate), 'PPP')}</div>
                                                         {schedule.maintenanceBy === 'vendor' && (
                                                             <div className="text-xs text-muted-foreground">Vendor: {schedule.vendorName || 'N/A'}{schedule.vendorContact ? ` • ${schedule.vendorContact}` : ''}</div>
                                                         )}
@@ -952,6 +1276,62 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
                                 </CardContent>
                             </Card>
 
+                            <InstrumentLifecycleCard
+                                state={instrument.lifecycle_state}
+                                history={instrumentLifecycle.history}
+                                members={instrumentLifecycle.members}
+                                isLoading={instrumentLifecycle.isLoading}
+                                canManage={hasInstrumentPermission('instruments', 'edit', instrument)}
+                                onChangeState={() => setLifecycleDialog({ initialState: null })}
+                            />
+
+                            <InstrumentHierarchyCard
+                                instrumentId={instrumentId}
+                                instruments={instrumentHierarchy.instruments}
+                                tree={instrumentHierarchy.tree}
+                                ancestors={instrumentHierarchy.ancestors}
+                                compliance={instrumentHierarchy.compliance}
+                                history={instrumentHierarchy.history}
+                                isLoading={instrumentHierarchy.isLoading}
+                                canManage={hasInstrumentPermission('instruments', 'edit', instrument)}
+                                onMove={instrumentHierarchy.moveInstrument}
+                            />
+
+                            <InstrumentMetersCard
+                                meters={instrumentMeters.meters}
+                                readings={instrumentMeters.readings}
+                                isLoading={instrumentMeters.isLoading}
+                                canManage={hasInstrumentPermission('instruments', 'edit', instrument)}
+                                canRecord={hasInstrumentPermission('update_maintenance', 'edit', instrument)}
+                                onAdd={instrumentMeters.addMeter}
+                                onDelete={instrumentMeters.deleteMeter}
+                                onRecord={async (meterId, value, options) => {
+                                    const result = await instrumentMeters.recordReading(meterId, value, options);
+                                    if (result.triggered > 0) await fetchHistory();
+                                    return result;
+                                }}
+                            />
+
+                            <InstrumentPrerequisitesCard
+                                configurations={maintenancePrerequisites.configurations}
+                                prerequisites={maintenancePrerequisites.prerequisites}
+                                isLoading={maintenancePrerequisites.isLoading}
+                                canManage={hasInstrumentPermission('instruments', 'edit', instrument)}
+                                onAdd={maintenancePrerequisites.addPrerequisite}
+                                onRemove={maintenancePrerequisites.removePrerequisite}
+                            />
+
+                            {!isEditing && instrument.status === 'Out of Service' && (
+                                <Alert variant="destructive">
+                                    <Power className="h-4 w-4" />
+                                    <AlertTitle>Maintenance Suspended</AlertTitle>
+                                    <AlertDescription>
+                                        This instrument is out of service, so no maintenance is scheduled and it is left out of compliance figures.
+                                        Set it back to another status to restart its schedules from that day.
+                                    </AlertDescription>
+                                </Alert>
+                            )}
+
                             {!isEditing && nextMaintenanceDate && (
                                 <Alert variant={isOverdue ? "destructive" : "default"}>
                                     <CalendarDays className="h-4 w-4" />
@@ -966,8 +1346,18 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
                             {!isEditing && (
                                 <Card>
                                     <CardHeader>
-                                        <CardTitle className="font-headline">Maintenance History</CardTitle>
-                                        <CardDescription>Previous maintenance, calibration, and validation records.</CardDescription>
+                                        <div className="flex items-start justify-between gap-4">
+                                            <div className="space-y-1.5">
+                                                <CardTitle className="font-headline">Maintenance History</CardTitle>
+                                                <CardDescription>Previous maintenance, calibration, and validation records.</CardDescription>
+                                            </div>
+                                            {componentHistory.length > 0 && (
+                                                <label className="flex items-center gap-2 text-sm whitespace-nowrap">
+                                                    <Checkbox checked={includeComponents} onCheckedChange={(checked) => setIncludeComponents(checked === true)} />
+                                                    Include components
+                                                </label>
+                                            )}
+                                        </div>
                                     </CardHeader>
                                     <CardContent>
                                         <Table>
@@ -993,13 +1383,26 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
                                                             <TableCell><Skeleton className="h-5 w-24" /></TableCell>
                                                         </TableRow>
                                                     ))
-                                                ) : maintenanceHistory && maintenanceHistory.length > 0 ? (
-                                                    maintenanceHistory.map((event: MaintenanceEvent) => {
-                                                        const result = maintenanceResults.find(r => r.maintenanceScheduleId === event.id);
+                                                ) : displayedHistory.length > 0 ? (
+                                                    displayedHistory.map((event: MaintenanceEvent) => {
+                                                        const isComponentEvent = event.instrumentId !== instrumentId;
+                                                        const result = (isComponentEvent ? componentResults : maintenanceResults).find(r => r.maintenanceScheduleId === event.id);
                                                         return (
                                                             <TableRow key={event.id}>
-                                                                <TableCell>{new Date(event.dueDate).toLocaleDateString()}</TableCell>
-                                                                <TableCell><Badge variant="secondary">{event.type}</Badge></TableCell>
+                                                                <TableCell>
+                                                                    {new Date(event.dueDate).toLocaleDateString()}
+                                                                    {event.nominal_due_date && new Date(event.nominal_due_date).toDateString() !== new Date(event.dueDate).toDateString() && (
+                                                                        <div className="text-xs text-muted-foreground">Nominal {new Date(event.nominal_due_date).toLocaleDateString()}</div>
+                                                                    )}
+                                                                </TableCell>
+                                                                <TableCell>
+                                                                    <Badge variant="secondary">{event.type}</Badge>
+                                                                    {isComponentEvent && (
+                                                                        <Link href={`/instruments/${event.instrumentId}`} className="block text-xs text-muted-foreground hover:underline mt-1">
+                                                                            {instrumentHierarchy.instruments.find(i => i.id === event.instrumentId)?.eqpId || 'Component'}
+                                                                        </Link>
+                                                                    )}
+                                                                </TableCell>
                                                                 <TableCell>{event.status}</TableCell>
                                                                 <TableCell>
                                                                     {result ? new Date(result.completedDate).toLocaleDateString() :
@@ -1051,6 +1454,31 @@ export function InstrumentDetailClientPage({ instrumentId }: { instrumentId: str
                     </div>
                 </form>
             </Form>
+
+            <PrintLabelsDialog isOpen={isLabelDialogOpen} onOpenChange={setLabelDialogOpen} instruments={[instrument]} />
+            <LifecycleTransitionDialog
+                instrument={lifecycleDialog ? instrument : null}
+                initialState={lifecycleDialog?.initialState}
+                onOpenChange={(open) => { if (!open) setLifecycleDialog(null); }}
+                onTransitioned={async () => {
+                    setLifecycleDialog(null);
+                    await Promise.all([fetchInstrument(), fetchHistory(), instrumentLifecycle.refresh()]);
+                }}
+            />
+            <DeleteConfirmationDialog
+                instrument={isDeleteDialogOpen ? instrument : null}
+                onOpenChange={setDeleteDialogOpen}
+                onDeleted={() => router.push('/instruments')}
+            />
+            {taskEvent && (
+                <UpdateMaintenanceDialog
+                    isOpen={!!taskEvent}
+                    onOpenChange={(open) => { if (!open) setTaskEvent(null); }}
+                    maintenanceEvent={taskEvent}
+                    instrumentId={instrumentId}
+                    onSuccess={fetchHistory}
+                />
+            )}
         </div>
     );
 }
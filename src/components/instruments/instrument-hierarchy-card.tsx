@@ -0,0 +1,229 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChevronRight, Loader2, Network, Plus, Unlink } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { formatDateTime } from '@/lib/date-utils';
+import { COMPLIANCE_STATE_LABELS } from '@/lib/compliance';
+import {
+  flattenInstrumentTree,
+  rollUpCompliance,
+  rollUpStatus,
+  type HierarchyInstrument,
+  type InstrumentTreeNode,
+} from '@/lib/instrument-hierarchy';
+import type { ComplianceState, InstrumentHierarchyChange } from '@/lib/types';
+
+type ActionResult = { success: boolean; error?: string };
+
+interface InstrumentHierarchyCardProps {
+  instrumentId: string;
+  instruments: HierarchyInstrument[];
+  tree: InstrumentTreeNode | null;
+  ancestors: HierarchyInstrument[];
+  compliance: Map<string, ComplianceState>;
+  history: InstrumentHierarchyChange[];
+  isLoading: boolean;
+  canManage: boolean;
+  onMove: (instrumentId: string, parentId: string | null) => Promise<ActionResult>;
+}
+
+const STANDALONE = 'none';
+
+const complianceClass: Record<ComplianceState, string> = {
+  'upcoming': 'bg-muted text-muted-foreground',
+  'early': 'bg-muted text-muted-foreground',
+  'in-window': 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  'late-in-grace': 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200',
+  'out-of-compliance': 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+};
+
+function ComplianceBadge({ state }: { state?: ComplianceState | null }) {
+  if (!state || state === 'upcoming') return null;
+  return <Badge className={cn('font-normal', complianceClass[state])}>{COMPLIANCE_STATE_LABELS[state]}</Badge>;
+}
+
+export function InstrumentHierarchyCard({
+  instrumentId,
+  instruments,
+  tree,
+  ancestors,
+  compliance,
+  history,
+  isLoading,
+  canManage,
+  onMove,
+}: InstrumentHierarchyCardProps) {
+  const { toast } = useToast();
+  const [componentId, setComponentId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const byId = new Map(instruments.map(i => [i.id, i]));
+  const nodes = tree ? flattenInstrumentTree(tree) : [];
+  const components = nodes.slice(1);
+  // Neither this instrument's own modules nor the systems above it can be moved in or out here
+  const subtreeIds = new Set(nodes.map(node => node.instrument.id));
+  const ancestorIds = new Set(ancestors.map(a => a.id));
+  const parentOptions = instruments.filter(i => !subtreeIds.has(i.id));
+  const componentOptions = instruments.filter(i => !subtreeIds.has(i.id) && !ancestorIds.has(i.id));
+  const labelOf = (id?: string | null) => (id && byId.get(id)?.eqpId) || 'a removed instrument';
+
+  const move = async (id: string, parentId: string | null) => {
+    setIsSaving(true);
+    const result = await onMove(id, parentId);
+    setIsSaving(false);
+    if (!result.success) {
+      toast({ title: 'Error', description: result.error || 'Could not move the instrument.', variant: 'destructive' });
+    }
+    return result.success;
+  };
+
+  const handleAddComponent = async () => {
+    if (await move(componentId, instrumentId)) setComponentId('');
+  };
+
+  const systemStatus = rollUpStatus(nodes.map(node => node.instrument.status));
+  const systemCompliance = rollUpCompliance(nodes.map(node => compliance.get(node.instrument.id)));
+
+  // Standalone instruments only get the card when someone can start building a system from them
+  if (!isLoading && components.length === 0 && ancestors.length === 0 && history.length === 0 && !canManage) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-headline flex items-center gap-2">
+          <Network className="h-5 w-5" /> System &amp; Components
+        </CardTitle>
+        <CardDescription>
+          Each module keeps its own schedules and history. A system&apos;s status and compliance are the worst of its own and its components&apos;.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : (
+          <>
+            {ancestors.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1 text-sm">
+                <span className="text-muted-foreground">Part of</span>
+                {[...ancestors].reverse().map((ancestor, index) => (
+                  <span key={ancestor.id} className="flex items-center gap-1">
+                    {index > 0 && <ChevronRight className="h-3 w-3 text-muted-foreground" />}
+                    <Link href={`/instruments/${ancestor.id}`} className="font-medium hover:underline">{ancestor.eqpId}</Link>
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {components.length > 0 ? (
+              <div className="space-y-2">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-muted-foreground">System status</span>
+                  <Badge variant={systemStatus === 'Out of Service' ? 'destructive' : 'secondary'}>{systemStatus}</Badge>
+                  <ComplianceBadge state={systemCompliance} />
+                </div>
+                <div className="divide-y rounded-md border">
+                  {components.map(({ instrument, depth }) => (
+                    <div
+                      key={instrument.id}
+                      className="flex items-center gap-2 p-2 text-sm"
+                      style={{ paddingLeft: `${0.5 + (depth - 1) * 1.25}rem` }}
+                    >
+                      <div className="min-w-0 flex-1">
+                        <Link href={`/instruments/${instrument.id}`} className="font-medium hover:underline">{instrument.eqpId}</Link>
+                        <span className="ml-2 text-muted-foreground">
+                          {[instrument.instrumentType, instrument.make, instrument.model].filter(Boolean).join(' · ')}
+                        </span>
+                      </div>
+                      <Badge variant={instrument.status === 'Out of Service' ? 'destructive' : 'outline'}>{instrument.status || 'Operational'}</Badge>
+                      <ComplianceBadge state={compliance.get(instrument.id)} />
+                      {canManage && instrument.parent_id === instrumentId && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          title="Detach from this system"
+                          disabled={isSaving}
+                          onClick={() => move(instrument.id, null)}
+                        >
+                          <Unlink className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">This instrument has no components.</p>
+            )}
+
+            {canManage && (
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label>Add Component</Label>
+                  <div className="flex gap-2">
+                    <Select value={componentId} onValueChange={setComponentId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select instrument" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {componentOptions.map(i => (
+                          <SelectItem key={i.id} value={i.id}>
+                            {i.eqpId}{i.parent_id ? ` (in ${labelOf(i.parent_id)})` : ''}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button size="icon" variant="outline" disabled={!componentId || isSaving} onClick={handleAddComponent}>
+                      {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label>Installed In</Label>
+                  <Select
+                    value={byId.get(instrumentId)?.parent_id || STANDALONE}
+                    onValueChange={(value) => move(instrumentId, value === STANDALONE ? null : value)}
+                    disabled={isSaving}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={STANDALONE}>Standalone</SelectItem>
+                      {parentOptions.map(i => <SelectItem key={i.id} value={i.id}>{i.eqpId}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+
+            {history.length > 0 && (
+              <div className="space-y-1">
+                <div className="text-sm font-medium">Move History</div>
+                <ul className="space-y-1 text-sm text-muted-foreground">
+                  {history.map(change => (
+                    <li key={change.id}>
+                      {formatDateTime(change.changed_at)}:{' '}
+                      {change.to_parent_id
+                        ? `installed in ${labelOf(change.to_parent_id)}${change.from_parent_id ? `, from ${labelOf(change.from_parent_id)}` : ''}`
+                        : `removed from ${labelOf(change.from_parent_id)}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
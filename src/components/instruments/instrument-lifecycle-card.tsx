@@ -0,0 +1,99 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowRight, FileText, Workflow } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatDateTime } from '@/lib/date-utils';
+import { getMemberName } from '@/lib/assignment';
+import { LIFECYCLE_STATES, getAllowedTransitions, getLifecycleStateLabel } from '@/lib/instrument-lifecycle';
+import type { InstrumentLifecycleTransition, LifecycleState, OrgMember } from '@/lib/types';
+
+const stateClass: Record<LifecycleState, string> = {
+  installation: 'bg-muted text-muted-foreground',
+  iq: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  oq: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  pq: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  in_use: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  quarantined: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200',
+  under_repair: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  retired: 'bg-muted text-muted-foreground line-through',
+  disposed: 'bg-muted text-muted-foreground line-through',
+};
+
+export function LifecycleBadge({ state, className }: { state?: LifecycleState | null; className?: string }) {
+  const value = state || 'in_use';
+  return <Badge className={cn('font-normal', stateClass[value], className)}>{getLifecycleStateLabel(value)}</Badge>;
+}
+
+interface InstrumentLifecycleCardProps {
+  state?: LifecycleState;
+  history: InstrumentLifecycleTransition[];
+  members: OrgMember[];
+  isLoading: boolean;
+  canManage: boolean;
+  onChangeState: () => void;
+}
+
+export function InstrumentLifecycleCard({ state, history, members, isLoading, canManage, onChangeState }: InstrumentLifecycleCardProps) {
+  const current = state || 'in_use';
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="font-headline flex items-center gap-2">
+            <Workflow className="h-5 w-5" /> Lifecycle
+          </CardTitle>
+          <CardDescription>{LIFECYCLE_STATES.find(s => s.value === current)?.description}</CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <LifecycleBadge state={current} />
+          {canManage && getAllowedTransitions(current).length > 0 && (
+            <Button variant="outline" size="sm" onClick={onChangeState}>Change State</Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No lifecycle changes recorded.</p>
+        ) : (
+          <ul className="space-y-3 text-sm">
+            {history.map(entry => (
+              <li key={entry.id} className="border-l-2 pl-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  {entry.from_state && (
+                    <>
+                      <LifecycleBadge state={entry.from_state} />
+                      <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                    </>
+                  )}
+                  <LifecycleBadge state={entry.to_state} />
+                  <span className="text-xs text-muted-foreground">
+                    {formatDateTime(entry.changed_at)}
+                    {entry.changed_by && ` · ${getMemberName(members, entry.changed_by)}`}
+                  </span>
+                </div>
+                <p className="mt-1">{entry.reason}</p>
+                {entry.evidence_url && (
+                  <a
+                    href={entry.evidence_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="mt-1 inline-flex items-center gap-1 text-xs text-primary hover:underline"
+                  >
+                    <FileText className="h-3 w-3" /> {entry.evidence_name || 'Evidence'}
+                  </a>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Gauge, Loader2, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { formatDateTime } from '@/lib/date-utils';
+import { getUsageRate, METER_UNIT_SUGGESTIONS, USAGE_RATE_DAYS } from '@/lib/meters';
+import type { InstrumentMeter, MeterReading } from '@/lib/types';
+
+type ActionResult = { success: boolean; error?: string };
+
+interface InstrumentMetersCardProps {
+  meters: InstrumentMeter[];
+  readings: MeterReading[];
+  isLoading: boolean;
+  canManage: boolean;
+  canRecord: boolean;
+  onAdd: (name: string, unit: string, initialValue: number) => Promise<ActionResult>;
+  onDelete: (id: string) => Promise<ActionResult>;
+  onRecord: (meterId: string, value: number, options: { isReset?: boolean; notes?: string }) => Promise<ActionResult & { triggered: number }>;
+}
+
+const formatValue = (value: number) => Number(value).toLocaleString(undefined, { maximumFractionDigits: 1 });
+
+export function InstrumentMetersCard({
+  meters,
+  readings,
+  isLoading,
+  canManage,
+  canRecord,
+  onAdd,
+  onDelete,
+  onRecord,
+}: InstrumentMetersCardProps) {
+  const { toast } = useToast();
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newUnit, setNewUnit] = useState('hours');
+  const [newInitial, setNewInitial] = useState('0');
+  const [readingMeter, setReadingMeter] = useState<InstrumentMeter | null>(null);
+  const [readingValue, setReadingValue] = useState('');
+  const [isReset, setIsReset] = useState(false);
+  const [readingNotes, setReadingNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openReading = (meter: InstrumentMeter) => {
+    setReadingMeter(meter);
+    setReadingValue('');
+    setIsReset(false);
+    setReadingNotes('');
+  };
+
+  const handleAdd = async () => {
+    setIsSaving(true);
+    const result = await onAdd(newName, newUnit, Number(newInitial) || 0);
+    setIsSaving(false);
+    if (!result.success) {
+      toast({ title: 'Error', description: result.error || 'Could not add the meter.', variant: 'destructive' });
+      return;
+    }
+    setIsAddOpen(false);
+    setNewName('');
+    setNewUnit('hours');
+    setNewInitial('0');
+  };
+
+  const handleDelete = async (meter: InstrumentMeter) => {
+    const result = await onDelete(meter.id);
+    if (!result.success) {
+      toast({ title: 'Cannot delete meter', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  const value = Number(readingValue);
+  const isBelowCurrent = !!readingMeter && readingValue !== '' && value < Number(readingMeter.current_value);
+  const isReadingValid = readingValue !== '' && Number.isFinite(value) && value >= 0 && (!isBelowCurrent || isReset);
+
+  const handleRecord = async () => {
+    if (!readingMeter || !isReadingValid) return;
+    setIsSaving(true);
+    const result = await onRecord(readingMeter.id, value, { isReset, notes: readingNotes });
+    setIsSaving(false);
+    if (!result.success) {
+      toast({ title: 'Error', description: result.error || 'Could not record the reading.', variant: 'destructive' });
+      return;
+    }
+    toast({
+      title: 'Reading recorded',
+      description: result.triggered > 0
+        ? `${readingMeter.name} is at ${formatValue(value)} ${readingMeter.unit}. ${result.triggered} maintenance ${result.triggered === 1 ? 'task is' : 'tasks are'} now due.`
+        : `${readingMeter.name} is at ${formatValue(value)} ${readingMeter.unit}.`,
+    });
+    setReadingMeter(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div className="space-y-1">
+          <CardTitle className="font-headline">Usage Meters</CardTitle>
+          <CardDescription>Run hours, injection counts or cycles used to trigger maintenance.</CardDescription>
+        </div>
+        {canManage && (
+          <Button type="button" variant="outline" size="sm" onClick={() => setIsAddOpen(true)}>
+            <Plus className="h-4 w-4 mr-1" /> Add Meter
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : meters.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No meters on this instrument.</p>
+        ) : (
+          <div className="space-y-3">
+            {meters.map(meter => {
+              const rate = getUsageRate(readings.filter(r => r.meter_id === meter.id));
+              return (
+                <div key={meter.id} className="flex items-center justify-between gap-4 p-3 border rounded-md">
+                  <div className="flex items-start gap-3">
+                    <Gauge className="h-5 w-5 mt-0.5 text-muted-foreground" />
+                    <div>
+                      <div className="font-medium">{meter.name}</div>
+                      <div className="text-sm">{formatValue(meter.current_value)} {meter.unit}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {meter.last_reading_at ? `Last reading ${formatDateTime(meter.last_reading_at)}` : 'No readings yet'}
+                        {rate !== null && ` · ~${formatValue(rate)} ${meter.unit}/day over ${USAGE_RATE_DAYS} days`}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {canRecord && (
+                      <Button type="button" variant="secondary" size="sm" onClick={() => openReading(meter)}>
+                        Record Reading
+                      </Button>
+                    )}
+                    {canManage && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive hover:text-destructive/90"
+                        onClick={() => handleDelete(meter)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isAddOpen} onOpenChange={(open) => !isSaving && setIsAddOpen(open)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add meter</DialogTitle>
+            <DialogDescription>Maintenance configurations on this instrument can then trigger on it.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="meter-name">Name *</Label>
+              <Input id="meter-name" value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="e.g. Lamp hours" />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="meter-unit">Unit</Label>
+                <Input id="meter-unit" list="meter-unit-suggestions" value={newUnit} onChange={(e) => setNewUnit(e.target.value)} />
+                <datalist id="meter-unit-suggestions">
+                  {METER_UNIT_SUGGESTIONS.map(unit => <option key={unit} value={unit} />)}
+                </datalist>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="meter-initial">Current value</Label>
+                <Input id="meter-initial" type="number" min={0} value={newInitial} onChange={(e) => setNewInitial(e.target.value)} />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsAddOpen(false)} disabled={isSaving}>Cancel</Button>
+            <Button onClick={handleAdd} disabled={!newName.trim() || Number(newInitial) < 0 || isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Add Meter
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!readingMeter} onOpenChange={(open) => !isSaving && !open && setReadingMeter(null)}>
+        <DialogContent className="sm:max-w-md">
+          {readingMeter && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Record reading</DialogTitle>
+                <DialogDescription>
+                  {readingMeter.name} · currently {formatValue(readingMeter.current_value)} {readingMeter.unit}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="space-y-1">
+                  <Label htmlFor="meter-reading">Reading ({readingMeter.unit}) *</Label>
+                  <Input id="meter-reading" type="number" min={0} value={readingValue} onChange={(e) => setReadingValue(e.target.value)} disabled={isSaving} />
+                  {isBelowCurrent && !isReset && (
+                    <p className="text-xs text-destructive">Below the current value. Mark it as a reset if the counter was replaced or zeroed.</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox id="meter-reset" checked={isReset} onCheckedChange={(checked) => setIsReset(checked === true)} disabled={isSaving} />
+                  <Label htmlFor="meter-reset" className="font-normal">Counter was reset or replaced</Label>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="meter-notes">Notes</Label>
+                  <Input id="meter-notes" value={readingNotes} onChange={(e) => setReadingNotes(e.target.value)} disabled={isSaving} />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setReadingMeter(null)} disabled={isSaving}>Cancel</Button>
+                <Button onClick={handleRecord} disabled={!isReadingValid || isSaving}>
+                  {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Record
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,138 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowRight, ListOrdered, Loader2, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { formatLag } from '@/lib/prerequisites';
+import type { MaintenancePrerequisite } from '@/lib/types';
+
+type ActionResult = { success: boolean; error?: string };
+
+interface InstrumentPrerequisitesCardProps {
+  configurations: { id: string; maintenance_type: string }[];
+  prerequisites: MaintenancePrerequisite[];
+  isLoading: boolean;
+  canManage: boolean;
+  onAdd: (configurationId: string, prerequisiteConfigurationId: string, lagDays: number) => Promise<ActionResult>;
+  onRemove: (id: string) => Promise<ActionResult>;
+}
+
+export function InstrumentPrerequisitesCard({
+  configurations,
+  prerequisites,
+  isLoading,
+  canManage,
+  onAdd,
+  onRemove,
+}: InstrumentPrerequisitesCardProps) {
+  const { toast } = useToast();
+  const [prerequisiteId, setPrerequisiteId] = useState('');
+  const [dependentId, setDependentId] = useState('');
+  const [lagDays, setLagDays] = useState('0');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const typeOf = (id: string) => configurations.find(c => c.id === id)?.maintenance_type || 'Removed task';
+
+  const handleAdd = async () => {
+    setIsSaving(true);
+    const result = await onAdd(dependentId, prerequisiteId, Math.max(0, Math.round(Number(lagDays) || 0)));
+    setIsSaving(false);
+    if (!result.success) {
+      toast({ title: 'Error', description: result.error || 'Could not add the prerequisite.', variant: 'destructive' });
+      return;
+    }
+    setPrerequisiteId('');
+    setDependentId('');
+    setLagDays('0');
+  };
+
+  const handleRemove = async (id: string) => {
+    const result = await onRemove(id);
+    if (!result.success) {
+      toast({ title: 'Error', description: result.error || 'Could not remove the prerequisite.', variant: 'destructive' });
+    }
+  };
+
+  // Nothing to sequence with a single task
+  if (!isLoading && configurations.length < 2 && prerequisites.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-headline flex items-center gap-2">
+          <ListOrdered className="h-5 w-5" /> Task Sequence
+        </CardTitle>
+        <CardDescription>
+          Results for a task cannot be entered until its prerequisite is done, and its due date follows the prerequisite&apos;s completion.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : prerequisites.length === 0 ? (
+          <p className="text-sm text-muted-foreground">All tasks on this instrument are independent.</p>
+        ) : (
+          <div className="space-y-2">
+            {prerequisites.map(p => (
+              <div key={p.id} className="flex items-center gap-2 p-2 border rounded-md text-sm">
+                <span className="font-medium">{typeOf(p.prerequisite_configuration_id)}</span>
+                <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                <span className="font-medium">{typeOf(p.configuration_id)}</span>
+                <span className="flex-1 text-muted-foreground">due {formatLag(p.lag_days)}</span>
+                {canManage && (
+                  <Button size="icon" variant="ghost" className="text-destructive" onClick={() => handleRemove(p.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canManage && !isLoading && configurations.length >= 2 && (
+          <div className="grid gap-3 md:grid-cols-[2fr_2fr_1fr_auto] items-end">
+            <div className="space-y-1">
+              <Label>First</Label>
+              <Select value={prerequisiteId} onValueChange={setPrerequisiteId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Prerequisite task" />
+                </SelectTrigger>
+                <SelectContent>
+                  {configurations.filter(c => c.id !== dependentId).map(c => (
+                    <SelectItem key={c.id} value={c.id}>{c.maintenance_type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Then</Label>
+              <Select value={dependentId} onValueChange={setDependentId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Dependent task" />
+                </SelectTrigger>
+                <SelectContent>
+                  {configurations.filter(c => c.id !== prerequisiteId).map(c => (
+                    <SelectItem key={c.id} value={c.id}>{c.maintenance_type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="prerequisite-lag">Within (days)</Label>
+              <Input id="prerequisite-lag" type="number" min={0} value={lagDays} onChange={(e) => setLagDays(e.target.value)} />
+            </div>
+            <Button onClick={handleAdd} disabled={isSaving || !prerequisiteId || !dependentId}>
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <><Plus className="h-4 w-4 mr-1" /> Add</>}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,197 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Camera, CameraOff, Loader2, ScanLine } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { resolveScannedCode } from '@/lib/labels';
+
+// The Barcode Detection API is not in TypeScript's DOM lib yet
+type DetectedBarcode = { rawValue: string };
+type BarcodeDetectorInstance = { detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]> };
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance;
+
+const getBarcodeDetector = () =>
+  typeof window !== 'undefined'
+    ? (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector
+    : undefined;
+
+const SCAN_INTERVAL_MS = 250;
+// How long a code that matched no instrument is ignored, so it is not reported on every frame
+const REJECTED_CODE_PAUSE_MS = 3000;
+
+type ScanTarget = 'detail' | 'task';
+
+export function InstrumentScanner() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const rejectedRef = useRef<{ code: string; at: number } | null>(null);
+  const [isSupported, setIsSupported] = useState(true);
+  const [isCameraOn, setIsCameraOn] = useState(false);
+  const [isResolving, setIsResolving] = useState(false);
+  const [target, setTarget] = useState<ScanTarget>('detail');
+  const [manualCode, setManualCode] = useState('');
+
+  const stopCamera = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setIsCameraOn(false);
+  };
+
+  const openCode = async (code: string) => {
+    setIsResolving(true);
+    const instrument = await resolveScannedCode(code);
+    setIsResolving(false);
+    if (!instrument) {
+      rejectedRef.current = { code, at: Date.now() };
+      toast({ title: 'Instrument not found', description: `No instrument matches "${code.trim()}".`, variant: 'destructive' });
+      return;
+    }
+    stopCamera();
+    router.push(`/instruments/${instrument.id}${target === 'task' ? '?task=open' : ''}`);
+  };
+
+  const startCamera = async () => {
+    try {
+      // Rear camera on phones; laptops fall back to whatever they have
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false });
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+      setIsCameraOn(true);
+    } catch (error) {
+      console.error('Error starting camera:', error);
+      toast({ title: 'Camera unavailable', description: 'Allow camera access for this site, or enter the code below.', variant: 'destructive' });
+    }
+  };
+
+  useEffect(() => {
+    setIsSupported(!!getBarcodeDetector() && !!navigator.mediaDevices?.getUserMedia);
+    return () => {
+      streamRef.current?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  // Poll frames while the camera runs; stop polling while a code is being looked up
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!isCameraOn || isResolving || !Detector) return;
+
+    const detector = new Detector({ formats: ['qr_code', 'code_128'] });
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (cancelled || !video) return;
+      try {
+        const [barcode] = video.readyState >= 2 ? await detector.detect(video) : [];
+        const rejected = rejectedRef.current;
+        const isRejected = rejected?.code === barcode?.rawValue && Date.now() - rejected.at < REJECTED_CODE_PAUSE_MS;
+        if (barcode?.rawValue && !isRejected && !cancelled) {
+          // Resolving re-runs this effect, which starts polling again if the code was not found
+          await openCode(barcode.rawValue);
+          return;
+        }
+      } catch (error) {
+        console.error('Error detecting barcode:', error);
+      }
+      timer = setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+    scan();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isCameraOn, isResolving, target]);
+
+  const handleManualSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (manualCode.trim()) await openCode(manualCode);
+  };
+
+  return (
+    <Card className="max-w-xl mx-auto">
+      <CardHeader>
+        <CardTitle className="font-headline flex items-center gap-2">
+          <ScanLine className="h-5 w-5" /> Scan Label
+        </CardTitle>
+        <CardDescription>
+          Point the camera at an instrument label&apos;s QR code or barcode.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <Label>After Scanning</Label>
+          <Select value={target} onValueChange={(value) => setTarget(value as ScanTarget)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="detail">Open instrument details</SelectItem>
+              <SelectItem value="task">Open the task that is due</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isSupported ? (
+          <>
+            <div className="relative aspect-[4/3] w-full overflow-hidden rounded-md bg-muted">
+              <video ref={videoRef} className="h-full w-full object-cover" muted playsInline />
+              {!isCameraOn && (
+                <div className="absolute inset-0 flex items-center justify-center text-muted-foreground">
+                  <CameraOff className="h-8 w-8" />
+                </div>
+              )}
+              {isResolving && (
+                <div className="absolute inset-0 flex items-center justify-center bg-background/60">
+                  <Loader2 className="h-8 w-8 animate-spin" />
+                </div>
+              )}
+            </div>
+            {isCameraOn ? (
+              <Button variant="outline" className="w-full" onClick={stopCamera}>
+                <CameraOff className="h-4 w-4 mr-2" /> Stop Camera
+              </Button>
+            ) : (
+              <Button className="w-full" onClick={startCamera}>
+                <Camera className="h-4 w-4 mr-2" /> Start Camera
+              </Button>
+            )}
+          </>
+        ) : (
+          <Alert>
+            <AlertTitle>Camera scanning not supported</AlertTitle>
+            <AlertDescription>
+              This browser cannot read barcodes. Enter the code below, or scan the QR code with the phone&apos;s camera app to open the instrument directly.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Also where handheld USB scanners type into, since they end with Enter */}
+        <form onSubmit={handleManualSubmit} className="flex gap-2">
+          <Input
+            value={manualCode}
+            onChange={(e) => setManualCode(e.target.value)}
+            placeholder="Equipment ID or label code"
+            aria-label="Equipment ID or label code"
+          />
+          <Button type="submit" variant="secondary" disabled={isResolving || !manualCode.trim()}>
+            Open
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,166 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/auth-context';
+import {
+  LIFECYCLE_STATES,
+  getAllowedTransitions,
+  getLifecycleStateLabel,
+  transitionInstrumentLifecycle,
+} from '@/lib/instrument-lifecycle';
+import type { LifecycleState } from '@/lib/types';
+
+interface LifecycleTransitionDialogProps {
+  instrument: { id: string; eqpId: string; lifecycle_state?: LifecycleState } | null;
+  // Preselects the target, e.g. Retired from a retire action
+  initialState?: LifecycleState | null;
+  onOpenChange: (open: boolean) => void;
+  onTransitioned: (state: LifecycleState) => void;
+}
+
+export function LifecycleTransitionDialog({
+  instrument,
+  initialState,
+  onOpenChange,
+  onTransitioned,
+}: LifecycleTransitionDialogProps) {
+  const { toast } = useToast();
+  const { orgId } = useAuth();
+  const [toState, setToState] = useState<LifecycleState | ''>('');
+  const [reason, setReason] = useState('');
+  const [evidence, setEvidence] = useState<File | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const isOpen = !!instrument;
+  const currentState = instrument?.lifecycle_state;
+  const allowed = getAllowedTransitions(currentState);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setToState(initialState && getAllowedTransitions(currentState).includes(initialState) ? initialState : '');
+    setReason('');
+    setEvidence(null);
+  }, [isOpen, initialState, currentState]);
+
+  if (!instrument) return null;
+
+  const isValid = !!toState && reason.trim().length > 0;
+
+  const handleConfirm = async () => {
+    if (!toState || !isValid) return;
+    setIsSaving(true);
+    const result = await transitionInstrumentLifecycle(instrument.id, toState, { reason, evidence, orgId });
+    setIsSaving(false);
+
+    if (!result.success) {
+      toast({ title: 'Error', description: result.error || 'Could not change the lifecycle state.', variant: 'destructive' });
+      return;
+    }
+
+    const archived = result.archivedConfigurations
+      ? ` ${result.archivedConfigurations} maintenance configuration${result.archivedConfigurations === 1 ? '' : 's'} archived.`
+      : '';
+    toast({
+      title: getLifecycleStateLabel(toState),
+      description: `${instrument.eqpId} moved to ${getLifecycleStateLabel(toState)}.${archived}`,
+    });
+    onTransitioned(toState);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !isSaving && onOpenChange(open)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Change lifecycle state</DialogTitle>
+          <DialogDescription>
+            {instrument.eqpId} · currently {getLifecycleStateLabel(instrument.lifecycle_state || 'in_use')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {allowed.length === 0 ? (
+          <p className="text-sm text-muted-foreground">A disposed instrument has no further lifecycle states.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>New state *</Label>
+              <Select value={toState} onValueChange={(value) => setToState(value as LifecycleState)} disabled={isSaving}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a state" />
+                </SelectTrigger>
+                <SelectContent>
+                  {LIFECYCLE_STATES.filter(s => allowed.includes(s.value)).map(s => (
+                    <SelectItem key={s.value} value={s.value}>
+                      {s.label}
+                      <span className="ml-2 text-xs text-muted-foreground">{s.description}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {toState === 'retired' && (
+                <p className="text-xs text-muted-foreground">
+                  Its maintenance configurations are archived and open schedules nobody has started are marked not required. Records are kept.
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="lifecycle-reason">Reason *</Label>
+              <Textarea
+                id="lifecycle-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. OQ protocol executed and approved"
+                rows={3}
+                disabled={isSaving}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="lifecycle-evidence">Evidence document</Label>
+              <Input
+                id="lifecycle-evidence"
+                type="file"
+                accept=".pdf,.png,.jpg,.jpeg,.doc,.docx"
+                onChange={(e) => setEvidence(e.target.files?.[0] || null)}
+                disabled={isSaving}
+              />
+              <p className="text-xs text-muted-foreground">
+                Qualification report, repair record or disposal certificate. Logged with the reason, who made the change and when.
+              </p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          {allowed.length > 0 && (
+            <Button
+              onClick={handleConfirm}
+              disabled={!isValid || isSaving}
+              variant={toState === 'retired' || toState === 'disposed' ? 'destructive' : 'default'}
+            >
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {toState ? `Move to ${getLifecycleStateLabel(toState)}` : 'Change state'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Printer } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { LABEL_FORMATS, buildLabelSheetHtml, fetchNextDueDates, toLabelData, type LabelCodes } from '@/lib/labels';
+import type { Instrument } from '@/lib/types';
+
+interface PrintLabelsDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  instruments: Instrument[];
+}
+
+// Remembered per browser, since a lab usually has one kind of label stock
+const FORMAT_STORAGE_KEY = 'labelFormat';
+
+export function PrintLabelsDialog({ isOpen, onOpenChange, instruments }: PrintLabelsDialogProps) {
+  const { toast } = useToast();
+  const [formatId, setFormatId] = useState(LABEL_FORMATS[0].id);
+  const [codes, setCodes] = useState<LabelCodes>('both');
+  const [skip, setSkip] = useState(0);
+  const [isPrinting, setIsPrinting] = useState(false);
+
+  useEffect(() => {
+    const saved = localStorage.getItem(FORMAT_STORAGE_KEY);
+    if (saved && LABEL_FORMATS.some(f => f.id === saved)) setFormatId(saved);
+  }, []);
+
+  const labelFormat = LABEL_FORMATS.find(f => f.id === formatId) || LABEL_FORMATS[0];
+  const perPage = labelFormat.columns * labelFormat.rows;
+  const isSheet = perPage > 1;
+  const pageCount = Math.ceil(((isSheet ? skip : 0) + instruments.length) / perPage);
+
+  const handlePrint = async () => {
+    setIsPrinting(true);
+    const nextDue = await fetchNextDueDates(instruments.map(i => i.id));
+    const html = buildLabelSheetHtml(toLabelData(instruments, nextDue), labelFormat, codes, window.location.origin, isSheet ? skip : 0);
+    setIsPrinting(false);
+
+    // Same approach as result printouts: the popup prints itself once loaded
+    const win = window.open('', '_blank');
+    if (!win) {
+      toast({ title: 'Pop-up blocked', description: 'Allow pop-ups for this site to print labels.', variant: 'destructive' });
+      return;
+    }
+    win.document.write(html);
+    win.document.close();
+    localStorage.setItem(FORMAT_STORAGE_KEY, formatId);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Print Labels</DialogTitle>
+          <DialogDescription>
+            {instruments.length === 1
+              ? `Label for ${instruments[0].eqpId}.`
+              : `Labels for ${instruments.length} instruments.`}
+            {' '}The QR code opens the instrument in the app; the barcode carries the Equipment ID.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Label Stock</Label>
+            <Select value={formatId} onValueChange={(value) => { setFormatId(value); setSkip(0); }}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LABEL_FORMATS.map(f => <SelectItem key={f.id} value={f.id}>{f.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Codes</Label>
+              <Select value={codes} onValueChange={(value) => setCodes(value as LabelCodes)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="both">QR code and barcode</SelectItem>
+                  <SelectItem value="qr">QR code only</SelectItem>
+                  <SelectItem value="barcode">Barcode only</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {isSheet && (
+              <div className="space-y-1">
+                <Label htmlFor="label-skip">Skip Used Labels</Label>
+                <Input
+                  id="label-skip"
+                  type="number"
+                  min={0}
+                  max={perPage - 1}
+                  value={skip}
+                  onChange={(e) => setSkip(Math.min(perPage - 1, Math.max(0, Number(e.target.value) || 0)))}
+                />
+              </div>
+            )}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {isSheet
+              ? `${pageCount} sheet${pageCount === 1 ? '' : 's'} of ${perPage}. Print at 100% scale with no margins.`
+              : `${instruments.length} label${instruments.length === 1 ? '' : 's'}, one per page. Select the roll size in the printer settings.`}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" type="button" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handlePrint} disabled={isPrinting || instruments.length === 0}>
+            {isPrinting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Printer className="mr-2 h-4 w-4" />}
+            Print
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
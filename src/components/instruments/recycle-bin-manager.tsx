@@ -0,0 +1,148 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button, buttonVariants } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, RotateCcw, ShieldAlert, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/auth-context';
+import { useRecycleBin } from '@/hooks/use-recycle-bin';
+import { formatDateTime } from '@/lib/date-utils';
+import { getMemberName } from '@/lib/assignment';
+import type { DeletedInstrument } from '@/lib/instrument-deletion';
+
+export function RecycleBinManager() {
+  const { isAdmin } = useAuth();
+  const { instruments, members, isLoading, restoreInstrument, purgeInstrument } = useRecycleBin();
+  const { toast } = useToast();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [purging, setPurging] = useState<DeletedInstrument | null>(null);
+
+  if (!isAdmin) {
+    return (
+      <Alert>
+        <ShieldAlert className="h-4 w-4" />
+        <AlertTitle>Admins only</AlertTitle>
+        <AlertDescription>Ask an admin to restore or purge deleted instruments.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const handleRestore = async (instrument: DeletedInstrument) => {
+    setBusyId(instrument.id);
+    const result = await restoreInstrument(instrument.id);
+    setBusyId(null);
+    if (!result.success) {
+      toast({ title: 'Error', description: result.error || 'Could not restore the instrument.', variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Instrument Restored', description: `${instrument.eqpId} and its records are back in the inventory.` });
+  };
+
+  const handlePurge = async () => {
+    if (!purging) return;
+    const instrument = purging;
+    setPurging(null);
+    setBusyId(instrument.id);
+    const result = await purgeInstrument(instrument.id);
+    setBusyId(null);
+    if (!result.success) {
+      toast({ title: 'Error', description: result.error || 'Could not purge the instrument.', variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Instrument Purged', description: `${instrument.eqpId} has been permanently deleted.`, variant: 'destructive' });
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-headline flex items-center gap-2">
+            <Trash2 className="h-5 w-5" /> Deleted Instruments
+          </CardTitle>
+          <CardDescription>
+            Restoring brings back the schedules, results and documents deleted with the instrument. Purging removes them for good.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : instruments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">The recycle bin is empty.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Eqp. ID</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Deleted</TableHead>
+                  <TableHead>Records</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {instruments.map(instrument => (
+                  <TableRow key={instrument.id}>
+                    <TableCell className="font-medium">{instrument.eqpId}</TableCell>
+                    <TableCell>{instrument.instrumentType}</TableCell>
+                    <TableCell className="text-muted-foreground">{instrument.location || '—'}</TableCell>
+                    <TableCell className="text-sm">
+                      {formatDateTime(instrument.deleted_at)}
+                      {instrument.deleted_by && (
+                        <span className="block text-xs text-muted-foreground">{getMemberName(members, instrument.deleted_by)}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {instrument.schedules} schedules · {instrument.results} results · {instrument.documents} documents
+                    </TableCell>
+                    <TableCell className="text-right space-x-2 whitespace-nowrap">
+                      <Button variant="outline" size="sm" onClick={() => handleRestore(instrument)} disabled={!!busyId}>
+                        {busyId === instrument.id ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+                        Restore
+                      </Button>
+                      <Button variant="destructive" size="sm" onClick={() => setPurging(instrument)} disabled={!!busyId}>
+                        Purge
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!purging} onOpenChange={(open) => { if (!open) setPurging(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Permanently delete {purging?.eqpId}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone. The instrument, its maintenance configurations, {purging?.schedules} schedules,{' '}
+              {purging?.results} results and {purging?.documents} documents will be removed from the database.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction className={buttonVariants({ variant: 'destructive' })} onClick={handlePurge}>
+              Purge
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import { format } from 'date-fns';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Loader2 } from 'lucide-react';
+import type { InProgressHandling, RegenerationPlan } from '@/lib/schedule-generator';
+
+interface ScheduleRegenerationPreviewDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  plan: RegenerationPlan | null;
+  inProgress: InProgressHandling;
+  onInProgressChange: (value: InProgressHandling) => void;
+  isLoading: boolean;
+  onConfirm: () => void;
+}
+
+const formatDate = (value: string) => format(new Date(value), 'dd MMM yyyy');
+
+function PlanSection({ title, items, className }: { title: string; items: string[]; className: string }) {
+  if (items.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <h4 className="text-sm font-semibold">
+        {title} <Badge variant="outline" className={className}>{items.length}</Badge>
+      </h4>
+      <ul className="text-xs text-muted-foreground grid grid-cols-2 gap-x-4">
+        {items.map((item, index) => <li key={index}>{item}</li>)}
+      </ul>
+    </div>
+  );
+}
+
+export function ScheduleRegenerationPreviewDialog({
+  isOpen,
+  onOpenChange,
+  plan,
+  inProgress,
+  onInProgressChange,
+  isLoading,
+  onConfirm,
+}: ScheduleRegenerationPreviewDialogProps) {
+  const hasInProgress = !!plan && (plan.kept.length > 0 || plan.moved.some(m => m.inProgress));
+  const isUnchanged = !!plan && plan.added.length + plan.moved.length + plan.removed.length === 0;
+
+  return (
+    <AlertDialog open={isOpen} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="sm:max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Review schedule changes</AlertDialogTitle>
+          <AlertDialogDescription>
+            The new frequency or start date changes the pending schedules as shown below.
+            Completed maintenance is never touched.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {!plan ? (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Calculating changes...
+          </div>
+        ) : (
+          <div className="space-y-4 max-h-[50vh] overflow-y-auto pr-2">
+            {isUnchanged && <p className="text-sm text-muted-foreground">No pending schedules change.</p>}
+            <PlanSection
+              title="Added"
+              className="text-green-600 border-green-600"
+              items={plan.added.map(a => formatDate(a.dueDate))}
+            />
+            <PlanSection
+              title="Moved"
+              className="text-blue-600 border-blue-600"
+              items={plan.moved.map(m => `${formatDate(m.fromDueDate)} → ${formatDate(m.toDueDate)}${m.inProgress ? ' (in progress)' : ''}`)}
+            />
+            <PlanSection
+              title="Removed"
+              className="text-red-600 border-red-600"
+              items={plan.removed.map(r => formatDate(r.dueDate))}
+            />
+            <PlanSection
+              title="Kept (in progress)"
+              className="text-amber-600 border-amber-600"
+              items={plan.kept.map(k => `${formatDate(k.dueDate)} · ${k.status}`)}
+            />
+
+            {hasInProgress && (
+              <div className="space-y-2 rounded-md border p-3">
+                <Label>Schedules with results already recorded</Label>
+                <RadioGroup
+                  value={inProgress}
+                  onValueChange={(value) => onInProgressChange(value as InProgressHandling)}
+                  disabled={isLoading}
+                >
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="keep" id="in-progress-keep" />
+                    <Label htmlFor="in-progress-keep" className="font-normal">Keep them on their current due date</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="migrate" id="in-progress-migrate" />
+                    <Label htmlFor="in-progress-migrate" className="font-normal">Move them to the nearest new due date</Label>
+                  </div>
+                </RadioGroup>
+              </div>
+            )}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isLoading}>Back</AlertDialogCancel>
+          <AlertDialogAction
+            disabled={!plan || isLoading}
+            onClick={(e) => {
+              // Keep the dialog open until the save finishes
+              e.preventDefault();
+              onConfirm();
+            }}
+          >
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save changes
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
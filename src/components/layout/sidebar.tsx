@@ -2,7 +2,7 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { LayoutDashboard, Wrench, ClipboardList, Settings, PanelLeft, FileText, Users } from 'lucide-react';
+import { LayoutDashboard, CalendarDays, Wrench, ClipboardList, Settings, PanelLeft, FileText, Users, BarChart3, ScanLine } from 'lucide-react';
 import Image from 'next/image';
 import planpmLogo from '../../../icons/planpm.png';
 import {
@@ -25,7 +25,10 @@ interface MenuItem {
 
 const menuItems: MenuItem[] = [
   { href: '/', label: 'Dashboard', icon: LayoutDashboard, permission: 'dashboard' },
+  { href: '/calendar', label: 'Calendar', icon: CalendarDays, permission: 'dashboard' },
+  { href: '/workload', label: 'Workload', icon: BarChart3, permission: 'update_maintenance' },
   { href: '/instruments', label: 'Instruments', icon: Wrench, permission: 'instruments' },
+  { href: '/scan', label: 'Scan Label', icon: ScanLine, permission: 'instruments' },
   { href: '/results', label: 'Maintenance History', icon: ClipboardList, permission: 'maintenance_history' },
   { href: '/design-results', label: 'Templates', icon: FileText, permission: 'design_templates' },
   { href: '/settings', label: 'Settings', icon: Settings, permission: 'settings' },
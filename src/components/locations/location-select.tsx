@@ -0,0 +1,49 @@
+'use client';
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getLocationLevelLabel, type LocationOption } from '@/lib/locations';
+
+interface LocationSelectProps {
+  options: LocationOption[];
+  value: string;
+  onChange: (locationId: string) => void;
+  placeholder?: string;
+  // Adds an entry that clears the choice, e.g. "All locations" in filters
+  emptyLabel?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+const EMPTY = '__none__';
+
+/**
+ * Location picker showing the tree by indentation. The trigger shows the full path.
+ */
+export function LocationSelect({ options, value, onChange, placeholder = 'Select location', emptyLabel, disabled, className }: LocationSelectProps) {
+  const selected = options.find(o => o.location.id === value);
+
+  return (
+    <Select
+      value={value || (emptyLabel ? EMPTY : '')}
+      onValueChange={(next) => onChange(next === EMPTY ? '' : next)}
+      disabled={disabled}
+    >
+      <SelectTrigger className={className}>
+        <SelectValue placeholder={placeholder}>
+          {selected ? selected.path : value ? undefined : emptyLabel}
+        </SelectValue>
+      </SelectTrigger>
+      <SelectContent>
+        {emptyLabel && <SelectItem value={EMPTY}>{emptyLabel}</SelectItem>}
+        {options.map(({ location, depth }) => (
+          <SelectItem key={location.id} value={location.id}>
+            <span style={{ paddingLeft: `${depth * 0.75}rem` }}>{location.name}</span>
+            <span className="ml-2 text-xs text-muted-foreground">
+              {location.code} · {getLocationLevelLabel(location.level)}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,216 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Edit, Loader2, MapPin, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useLocations } from '@/hooks/use-locations';
+import { supabase } from '@/lib/supabase';
+import {
+  LOCATION_PATH_SEPARATOR,
+  getChildLevels,
+  getLocationLevelLabel,
+  getLocationSubtreeIds,
+} from '@/lib/locations';
+import type { Location, LocationLevel } from '@/lib/types';
+import { LocationSelect } from './location-select';
+
+type LocationDraft = { parentId: string; level: LocationLevel | ''; code: string; name: string };
+
+const EMPTY_DRAFT: LocationDraft = { parentId: '', level: '', code: '', name: '' };
+
+export function LocationsManager() {
+  const { locations, options, isLoading, createLocation, updateLocation, deleteLocation } = useLocations();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<LocationDraft>(EMPTY_DRAFT);
+  const [editing, setEditing] = useState<Location | null>(null);
+  const [editDraft, setEditDraft] = useState<LocationDraft>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+  const [instrumentCounts, setInstrumentCounts] = useState<Map<string, number>>(new Map());
+
+  useEffect(() => {
+    const fetchCounts = async () => {
+      const { data } = await supabase.from('instruments').select('location_id').not('location_id', 'is', null);
+      const counts = new Map<string, number>();
+      (data || []).forEach(i => counts.set(i.location_id, (counts.get(i.location_id) || 0) + 1));
+      setInstrumentCounts(counts);
+    };
+    fetchCounts();
+  }, []);
+
+  const byId = useMemo(() => new Map(locations.map(l => [l.id, l])), [locations]);
+  const levelsFor = (parentId: string) => getChildLevels(parentId ? byId.get(parentId) : null);
+
+  const notify = (result: { success: boolean; error?: string }, failure: string) => {
+    if (!result.success) toast({ title: 'Error', description: result.error || failure, variant: 'destructive' });
+    return result.success;
+  };
+
+  const isValid = (d: LocationDraft) =>
+    !!d.level && !!d.code.trim() && !!d.name.trim() && !d.name.includes(LOCATION_PATH_SEPARATOR);
+
+  const handleCreate = async () => {
+    if (!draft.level) return;
+    setIsSaving(true);
+    const result = await createLocation({ parentId: draft.parentId || null, level: draft.level, code: draft.code, name: draft.name });
+    setIsSaving(false);
+    if (notify(result, 'Could not add the location.')) setDraft({ ...EMPTY_DRAFT, parentId: draft.parentId });
+  };
+
+  const openEdit = (location: Location) => {
+    setEditing(location);
+    setEditDraft({ parentId: location.parent_id || '', level: location.level, code: location.code, name: location.name });
+  };
+
+  const handleUpdate = async () => {
+    if (!editing || !editDraft.level) return;
+    setIsSaving(true);
+    const result = await updateLocation(editing.id, {
+      parentId: editDraft.parentId || null,
+      level: editDraft.level,
+      code: editDraft.code,
+      name: editDraft.name,
+    });
+    setIsSaving(false);
+    if (notify(result, 'Could not save the location.')) setEditing(null);
+  };
+
+  // A location cannot move below itself
+  const editParentOptions = editing
+    ? options.filter(o => !getLocationSubtreeIds(editing.id, locations).has(o.location.id))
+    : options;
+
+  const renderFields = (d: LocationDraft, setD: (d: LocationDraft) => void, parentOptions = options) => (
+    <div className="grid gap-3 sm:grid-cols-2">
+      <div className="space-y-1">
+        <Label>Inside</Label>
+        <LocationSelect
+          options={parentOptions.filter(o => o.location.level !== 'bench')}
+          value={d.parentId}
+          onChange={(parentId) => {
+            const levels = levelsFor(parentId);
+            setD({ ...d, parentId, level: d.level && levels.includes(d.level) ? d.level : levels[0] || '' });
+          }}
+          emptyLabel="Top level"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label>Level</Label>
+        <Select value={d.level} onValueChange={(level) => setD({ ...d, level: level as LocationLevel })}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select level" />
+          </SelectTrigger>
+          <SelectContent>
+            {levelsFor(d.parentId).map(level => (
+              <SelectItem key={level} value={level}>{getLocationLevelLabel(level)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label>Code</Label>
+        <Input value={d.code} onChange={(e) => setD({ ...d, code: e.target.value })} placeholder="QC-L1" className="uppercase" />
+      </div>
+      <div className="space-y-1">
+        <Label>Name</Label>
+        <Input value={d.name} onChange={(e) => setD({ ...d, name: e.target.value })} placeholder="QC Lab 1" />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-headline">Add Location</CardTitle>
+          <CardDescription>
+            Sites contain buildings, buildings contain rooms and rooms contain benches. Levels can be skipped, e.g. a room directly on a site.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {renderFields(draft, setDraft)}
+          <Button onClick={handleCreate} disabled={isSaving || !isValid(draft)}>
+            {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Add Location
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-headline flex items-center gap-2">
+            <MapPin className="h-5 w-5" /> Locations
+          </CardTitle>
+          <CardDescription>
+            Renaming or moving a location updates its instruments and the calendars, blackouts and assignment defaults set for it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : options.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No locations yet.</p>
+          ) : (
+            <div className="divide-y rounded-md border">
+              {options.map(({ location, depth }) => {
+                const count = instrumentCounts.get(location.id) || 0;
+                return (
+                  <div key={location.id} className="flex items-center gap-2 p-2 text-sm" style={{ paddingLeft: `${0.5 + depth * 1.25}rem` }}>
+                    <span className="font-medium">{location.name}</span>
+                    <span className="text-muted-foreground">{location.code}</span>
+                    <Badge variant="outline">{getLocationLevelLabel(location.level)}</Badge>
+                    <span className="flex-1 text-right text-muted-foreground">
+                      {count > 0 && `${count} instrument${count === 1 ? '' : 's'}`}
+                    </span>
+                    <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => openEdit(location)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7 text-destructive"
+                      onClick={async () => notify(await deleteLocation(location.id), 'Could not remove the location.')}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => { if (!open) setEditing(null); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Edit Location</DialogTitle>
+            <DialogDescription>{editing && options.find(o => o.location.id === editing.id)?.path}</DialogDescription>
+          </DialogHeader>
+          {renderFields(editDraft, setEditDraft, editParentOptions)}
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={handleUpdate} disabled={isSaving || !isValid(editDraft)}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
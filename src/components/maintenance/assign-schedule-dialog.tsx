@@ -0,0 +1,140 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { assignSchedules, canPerformMaintenance, type Assignment } from '@/lib/assignment';
+import { isQualified } from '@/lib/qualifications';
+import type { OrgMember, Team, UserQualification } from '@/lib/types';
+
+const NONE = '__none__';
+
+interface AssignScheduleDialogProps {
+  schedule: { id: string; label: string; instrumentType?: string | null; templateId?: string | null } & Partial<Assignment> | null;
+  members: OrgMember[];
+  teams: Team[];
+  qualifications: UserQualification[];
+  onOpenChange: (open: boolean) => void;
+  onAssigned: (assignment: Assignment) => void;
+}
+
+export function AssignScheduleDialog({
+  schedule,
+  members,
+  teams,
+  qualifications,
+  onOpenChange,
+  onAssigned,
+}: AssignScheduleDialogProps) {
+  const { toast } = useToast();
+  const [assignee, setAssignee] = useState(NONE);
+  const [team, setTeam] = useState(NONE);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!schedule) return;
+    setAssignee(schedule.assigned_to || NONE);
+    setTeam(schedule.assigned_team_id || NONE);
+  }, [schedule]);
+
+  if (!schedule) return null;
+
+  const isQualifiedFor = (userId: string) =>
+    isQualified(qualifications, userId, { instrumentType: schedule.instrumentType, templateId: schedule.templateId });
+  const selectedTeam = teams.find(t => t.id === team);
+  // Within a team, only its members are offered
+  const technicians = members
+    .filter(canPerformMaintenance)
+    .filter(m => !selectedTeam || selectedTeam.memberIds.includes(m.id));
+
+  const handleSave = async () => {
+    const assignment: Assignment = {
+      assigned_to: assignee === NONE ? null : assignee,
+      assigned_team_id: team === NONE ? null : team,
+    };
+    setIsSaving(true);
+    const result = await assignSchedules([schedule.id], assignment);
+    setIsSaving(false);
+    if (!result.success) {
+      toast({ title: 'Error', description: result.error || 'Could not assign the schedule.', variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Assigned', description: `${schedule.label} assignment saved.` });
+    onAssigned(assignment);
+  };
+
+  return (
+    <Dialog open={!!schedule} onOpenChange={(open) => !isSaving && onOpenChange(open)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Assign maintenance</DialogTitle>
+          <DialogDescription>{schedule.label}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Team</Label>
+            <Select
+              value={team}
+              onValueChange={(value) => {
+                setTeam(value);
+                const next = teams.find(t => t.id === value);
+                if (next && assignee !== NONE && !next.memberIds.includes(assignee)) setAssignee(NONE);
+              }}
+              disabled={isSaving}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No team</SelectItem>
+                {teams.map(t => <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Technician</Label>
+            <Select value={assignee} onValueChange={setAssignee} disabled={isSaving}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>{selectedTeam ? 'Anyone in the team' : 'Unassigned'}</SelectItem>
+                {technicians.map(m => (
+                  <SelectItem key={m.id} value={m.id}>
+                    {m.display_name || 'Unnamed user'}{!isQualifiedFor(m.id) && ' (not qualified)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {schedule.instrumentType && (
+              <p className="text-xs text-muted-foreground">Qualification is checked against {schedule.instrumentType} and the schedule&apos;s template.</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
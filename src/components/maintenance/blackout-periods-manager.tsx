@@ -0,0 +1,201 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useBlackoutPeriods } from '@/hooks/use-blackout-periods';
+import { useLocations } from '@/hooks/use-locations';
+import { LocationSelect } from '@/components/locations/location-select';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/lib/supabase';
+import { BLACKOUT_POLICIES, getBlackoutScopeLabel } from '@/lib/blackouts';
+import type { BlackoutPolicy } from '@/lib/types';
+
+type Scope = 'organization' | 'location' | 'instrument';
+
+const formatDay = (date: string) => format(parseISO(date), 'd MMM yyyy');
+
+export function BlackoutPeriodsManager() {
+  const { blackouts, isLoading, addBlackout, deleteBlackout } = useBlackoutPeriods();
+  const { toast } = useToast();
+  const { options: locationOptions } = useLocations();
+  const [instruments, setInstruments] = useState<{ id: string; eqpId: string }[]>([]);
+  const [name, setName] = useState('');
+  const [scope, setScope] = useState<Scope>('organization');
+  const [scopeValue, setScopeValue] = useState('');
+  const [startsOn, setStartsOn] = useState('');
+  const [endsOn, setEndsOn] = useState('');
+  const [policy, setPolicy] = useState<BlackoutPolicy>('defer');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchInstruments = async () => {
+      const { data } = await supabase.from('instruments').select('id, eqpId').order('eqpId');
+      setInstruments(data || []);
+    };
+    fetchInstruments();
+  }, []);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const handleAdd = async () => {
+    if (endsOn < startsOn) {
+      toast({ title: 'Invalid dates', description: 'The blackout must end on or after its first day.', variant: 'destructive' });
+      return;
+    }
+    setIsSaving(true);
+    const changed = await addBlackout({
+      name: name.trim(),
+      location_id: scope === 'location' ? scopeValue : null,
+      instrument_id: scope === 'instrument' ? scopeValue : null,
+      starts_on: startsOn,
+      ends_on: endsOn,
+      policy,
+    });
+    setIsSaving(false);
+    if (changed === null) {
+      toast({ title: 'Error', description: 'Could not add the blackout period.', variant: 'destructive' });
+      return;
+    }
+    toast({
+      title: 'Blackout added',
+      description: changed > 0
+        ? `${changed} scheduled occurrence${changed === 1 ? ' was' : 's were'} ${policy === 'defer' ? 'deferred' : 'marked not required'}.`
+        : 'No scheduled maintenance falls inside it.',
+    });
+    setName('');
+    setStartsOn('');
+    setEndsOn('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-headline">Add Blackout</CardTitle>
+          <CardDescription>Plant shutdowns, site moves or repairs during which no maintenance should fall due.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="grid gap-3 md:grid-cols-3">
+            <div className="space-y-1">
+              <Label htmlFor="blackout-name">Name</Label>
+              <Input id="blackout-name" placeholder="e.g. Annual shutdown" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="blackout-start">First Day</Label>
+              <Input id="blackout-start" type="date" min={today} value={startsOn} onChange={(e) => setStartsOn(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="blackout-end">Last Day</Label>
+              <Input id="blackout-end" type="date" min={startsOn || today} value={endsOn} onChange={(e) => setEndsOn(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid gap-3 md:grid-cols-3">
+            <div className="space-y-1">
+              <Label>Applies To</Label>
+              <Select value={scope} onValueChange={(value) => { setScope(value as Scope); setScopeValue(''); }}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="organization">Whole organization</SelectItem>
+                  <SelectItem value="location">One location and everything in it</SelectItem>
+                  <SelectItem value="instrument">One instrument</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {scope !== 'organization' && (
+              <div className="space-y-1">
+                <Label>{scope === 'location' ? 'Location' : 'Instrument'}</Label>
+                {scope === 'location' ? (
+                  <LocationSelect options={locationOptions} value={scopeValue} onChange={setScopeValue} />
+                ) : (
+                  <Select value={scopeValue} onValueChange={setScopeValue}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select instrument" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {instruments.map(i => <SelectItem key={i.id} value={i.id}>{i.eqpId}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label>Due Dates Inside</Label>
+              <Select value={policy} onValueChange={(value) => setPolicy(value as BlackoutPolicy)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BLACKOUT_POLICIES.map(p => <SelectItem key={p.value} value={p.value}>{p.label}: {p.description}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button
+              onClick={handleAdd}
+              disabled={isSaving || !name.trim() || !startsOn || !endsOn || (scope !== 'organization' && !scopeValue)}
+            >
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <><Plus className="h-4 w-4 mr-1" /> Add</>}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading blackouts...
+        </div>
+      ) : blackouts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No blackout periods.</p>
+      ) : (
+        <div className="space-y-2">
+          {blackouts.map(b => (
+            <div key={b.id} className="flex items-center gap-3 p-3 border rounded-md bg-card/50 text-sm">
+              <div className="flex-1 space-y-1">
+                <div className="font-medium">{b.name}</div>
+                <div className="text-muted-foreground">
+                  {formatDay(b.starts_on)} – {formatDay(b.ends_on)} · {getBlackoutScopeLabel(b, instruments.find(i => i.id === b.instrument_id)?.eqpId)}
+                </div>
+              </div>
+              {b.ends_on < today && <Badge variant="outline">Ended</Badge>}
+              <Badge variant={b.policy === 'suppress' ? 'destructive' : 'secondary'}>
+                {BLACKOUT_POLICIES.find(p => p.value === b.policy)?.label}
+              </Badge>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="text-destructive"
+                onClick={async () => {
+                  const success = await deleteBlackout(b.id);
+                  if (!success) toast({ title: 'Error', description: 'Could not delete the blackout period.', variant: 'destructive' });
+                }}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Alert>
+        <AlertTitle>How blackouts apply</AlertTitle>
+        <AlertDescription className="text-sm">
+          Scheduled maintenance already inside a new blackout is moved or marked not required straight away, with the blackout recorded in its history.
+          Schedules generated later follow the same rule. Work that has results recorded keeps its date, and deleting a blackout does not move anything back.
+          Instruments set to Out of Service are suspended separately and need no blackout.
+        </AlertDescription>
+      </Alert>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import { useState } from 'react';
+import { useMaintenanceTypes } from '@/hooks/use-maintenance-types';
+import { useMaintenanceTypePolicies } from '@/hooks/use-maintenance-type-policies';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Trash2, PencilLine } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { NEXT_DUE_ANCHORS } from '@/lib/compliance';
+import { DEFAULT_ESTIMATED_HOURS } from '@/lib/assignment';
+import type { NextDueAnchor } from '@/lib/types';
+
+const DEFAULT_ANCHOR = '__default__';
+
+export function ComplianceWindowsManager() {
+  const { maintenanceTypes } = useMaintenanceTypes();
+  const { policies, isLoading, savePolicy, deletePolicy } = useMaintenanceTypePolicies();
+  const { toast } = useToast();
+  const [maintenanceType, setMaintenanceType] = useState('');
+  const [earlyDays, setEarlyDays] = useState('0');
+  const [lateDays, setLateDays] = useState('0');
+  const [anchor, setAnchor] = useState<string>(DEFAULT_ANCHOR);
+  const [estimatedHours, setEstimatedHours] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const early = Number(earlyDays);
+  const late = Number(lateDays);
+  const hours = estimatedHours === '' ? null : Number(estimatedHours);
+  const isValid = !!maintenanceType && Number.isInteger(early) && early >= 0 && Number.isInteger(late) && late >= 0
+    && (hours === null || (Number.isFinite(hours) && hours >= 0));
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    setIsSaving(true);
+    const success = await savePolicy({
+      maintenance_type: maintenanceType,
+      early_grace_days: early,
+      late_grace_days: late,
+      next_due_anchor: anchor === DEFAULT_ANCHOR ? null : (anchor as NextDueAnchor),
+      estimated_hours: hours,
+    });
+    setIsSaving(false);
+    if (success) {
+      toast({ title: 'Saved', description: `Grace window for ${maintenanceType} saved.` });
+      setMaintenanceType('');
+      setEarlyDays('0');
+      setLateDays('0');
+      setAnchor(DEFAULT_ANCHOR);
+      setEstimatedHours('');
+    } else {
+      toast({ title: 'Error', description: 'Could not save grace window.', variant: 'destructive' });
+    }
+  };
+
+  const anchorLabel = (value?: NextDueAnchor | null) =>
+    NEXT_DUE_ANCHORS.find(a => a.value === value)?.label || 'Default';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-headline">Grace Windows</CardTitle>
+        <CardDescription>
+          How early or late each maintenance type may be performed and still count as compliant.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 md:grid-cols-[2fr_1fr_1fr_2fr_1fr_auto] items-end">
+          <div className="space-y-1">
+            <Label>Maintenance type</Label>
+            <Select value={maintenanceType} onValueChange={setMaintenanceType}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select type" />
+              </SelectTrigger>
+              <SelectContent>
+                {maintenanceTypes.map(t => <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Early (days)</Label>
+            <Input type="number" min={0} value={earlyDays} onChange={(e) => setEarlyDays(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>Late (days)</Label>
+            <Input type="number" min={0} value={lateDays} onChange={(e) => setLateDays(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>Next due date follows</Label>
+            <Select value={anchor} onValueChange={setAnchor}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_ANCHOR}>Default</SelectItem>
+                {NEXT_DUE_ANCHORS.map(a => <SelectItem key={a.value} value={a.value}>{a.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Est. hours</Label>
+            <Input type="number" min={0} step="0.25" placeholder={String(DEFAULT_ESTIMATED_HOURS)} value={estimatedHours} onChange={(e) => setEstimatedHours(e.target.value)} />
+          </div>
+          <Button onClick={handleSave} disabled={isSaving || !isValid}>
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save'}
+          </Button>
+        </div>
+
+        <Separator />
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading grace windows...
+          </div>
+        ) : policies.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No grace windows yet. Every type is due on its exact date.</p>
+        ) : (
+          <div className="space-y-2">
+            {policies.map(p => (
+              <div key={p.id} className="flex items-center gap-2 p-2 border rounded-md bg-card/50 text-sm">
+                <span className="flex-1 font-medium">{p.maintenance_type}</span>
+                <span className="w-40">−{p.early_grace_days} / +{p.late_grace_days} days</span>
+                <span className="w-48 text-muted-foreground">{anchorLabel(p.next_due_anchor)}</span>
+                <span className="w-20 text-muted-foreground">{p.estimated_hours ?? DEFAULT_ESTIMATED_HOURS} h</span>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => {
+                    setMaintenanceType(p.maintenance_type);
+                    setEarlyDays(String(p.early_grace_days));
+                    setLateDays(String(p.late_grace_days));
+                    setAnchor(p.next_due_anchor || DEFAULT_ANCHOR);
+                    setEstimatedHours(p.estimated_hours != null ? String(p.estimated_hours) : '');
+                  }}
+                >
+                  <PencilLine className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="text-destructive"
+                  onClick={async () => {
+                    const success = await deletePolicy(p.id);
+                    if (!success) toast({ title: 'Error', description: 'Could not delete grace window.', variant: 'destructive' });
+                  }}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Alert>
+          <AlertTitle>How windows are applied</AlertTitle>
+          <AlertDescription className="text-sm">
+            Work done within the early and late days counts as in window or late (in grace); anything outside is
+            early or out of compliance. Individual instrument schedules can override these values.
+            By default the next due date follows the nominal schedule; choose the actual completion date to restart
+            the interval whenever the work is done. Estimated hours are used to total each technician&apos;s weekly workload.
+          </AlertDescription>
+        </Alert>
+      </CardContent>
+    </Card>
+  );
+}
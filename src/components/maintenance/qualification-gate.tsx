@@ -0,0 +1,144 @@
+'use client';
+
+import { useState } from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { GraduationCap, Loader2, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { useAuth } from '@/contexts/auth-context';
+import { formatQualificationDate } from '@/lib/qualifications';
+import type { QualificationStatus, UserQualification } from '@/lib/types';
+
+interface QualificationGateProps {
+  scheduleId: string;
+  scopeLabel: string;
+  status: QualificationStatus;
+  qualification?: UserQualification;
+  overrideId: string | null;
+  onOverride: (overrideId: string) => void;
+}
+
+/**
+ * Shows whether the current user may enter results for this task, and lets a
+ * supervisor authorize the entry when they may not
+ */
+export function QualificationGate({
+  scheduleId,
+  scopeLabel,
+  status,
+  qualification,
+  overrideId,
+  onOverride,
+}: QualificationGateProps) {
+  const { session } = useAuth();
+  const [showOverride, setShowOverride] = useState(false);
+  const [supervisorEmail, setSupervisorEmail] = useState('');
+  const [supervisorPassword, setSupervisorPassword] = useState('');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const describe = (q?: UserQualification) => {
+    if (!q) return '';
+    const parts = [q.sop_version ? `SOP ${q.sop_version}` : null, q.expires_on ? `expires ${formatQualificationDate(q.expires_on)}` : 'no expiry'];
+    return parts.filter(Boolean).join(', ');
+  };
+
+  if (overrideId) {
+    return (
+      <Alert>
+        <ShieldCheck className="h-4 w-4" />
+        <AlertTitle>Supervisor override</AlertTitle>
+        <AlertDescription>A supervisor has authorized you to enter results for {scopeLabel}. The override is recorded with the result.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (status === 'current' || status === 'expiring') {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <GraduationCap className="h-4 w-4" />
+        <span>
+          Qualified for {scopeLabel} ({describe(qualification)})
+          {status === 'expiring' && <span className="ml-1 text-amber-600 font-medium">— renew soon</span>}
+        </span>
+      </div>
+    );
+  }
+
+  const handleAuthorize = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/qualifications/override', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session?.access_token}` },
+        body: JSON.stringify({ scheduleId, supervisorEmail, supervisorPassword, reason }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'The override could not be authorized.');
+        return;
+      }
+      setSupervisorPassword('');
+      onOverride(data.overrideId);
+    } catch (err) {
+      console.error('Error requesting qualification override:', err);
+      setError('The override could not be authorized.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Alert variant="destructive">
+      <ShieldAlert className="h-4 w-4" />
+      <AlertTitle>{status === 'expired' ? 'Qualification expired' : 'Not qualified'}</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>
+          {status === 'expired'
+            ? `Your qualification for ${scopeLabel} expired on ${formatQualificationDate(qualification!.expires_on!)}.`
+            : `You have no qualification record for ${scopeLabel}.`}
+          {' '}Results can only be entered with a supervisor override.
+        </p>
+        {!showOverride ? (
+          <Button type="button" variant="outline" size="sm" onClick={() => setShowOverride(true)}>
+            Request supervisor override
+          </Button>
+        ) : (
+          <div className="grid gap-3 md:grid-cols-2 text-foreground">
+            <div className="space-y-1">
+              <Label htmlFor="supervisor-email">Supervisor email</Label>
+              <Input id="supervisor-email" type="email" value={supervisorEmail} onChange={(e) => setSupervisorEmail(e.target.value)} autoComplete="off" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="supervisor-password">Supervisor password</Label>
+              <Input id="supervisor-password" type="password" value={supervisorPassword} onChange={(e) => setSupervisorPassword(e.target.value)} autoComplete="new-password" />
+            </div>
+            <div className="space-y-1 md:col-span-2">
+              <Label htmlFor="override-reason">Reason</Label>
+              <Textarea id="override-reason" value={reason} onChange={(e) => setReason(e.target.value)} placeholder="e.g. Supervised on-the-job training" rows={2} />
+            </div>
+            {error && <p className="text-sm text-destructive md:col-span-2">{error}</p>}
+            <div className="flex gap-2 md:col-span-2">
+              <Button
+                type="button"
+                size="sm"
+                onClick={handleAuthorize}
+                disabled={isSubmitting || !supervisorEmail || !supervisorPassword || !reason.trim()}
+              >
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Authorize
+              </Button>
+              <Button type="button" size="sm" variant="ghost" onClick={() => setShowOverride(false)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
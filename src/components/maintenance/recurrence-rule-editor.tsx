@@ -0,0 +1,87 @@
+'use client';
+
+import { useMemo } from 'react';
+
+import { Input } from '@/components/ui/input';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { formatDate } from '@/lib/date-utils';
+import {
+    RECURRENCE_PRESETS,
+    describeRecurrenceRule,
+    getOccurrences,
+    parseRecurrenceRule,
+} from '@/lib/recurrence';
+
+interface RecurrenceRuleEditorProps {
+    value: string;
+    onChange: (value: string) => void;
+    startDate?: Date;
+    previewCount?: number;
+}
+
+/**
+ * RRULE input for 'Custom' frequencies: presets, raw rule text, a readable summary
+ * and a preview of the next due dates from the start date.
+ */
+export function RecurrenceRuleEditor({ value, onChange, startDate, previewCount = 5 }: RecurrenceRuleEditorProps) {
+    const parsed = useMemo(() => {
+        if (!value) return { description: '', preview: [] as Date[], error: '' };
+        try {
+            const rule = parseRecurrenceRule(value);
+            const start = startDate && !isNaN(startDate.getTime()) ? startDate : new Date();
+            return {
+                description: describeRecurrenceRule(rule),
+                preview: getOccurrences(rule, start, { limit: previewCount }),
+                error: '',
+            };
+        } catch (err: any) {
+            return { description: '', preview: [] as Date[], error: err.message as string };
+        }
+    }, [value, startDate, previewCount]);
+
+    const presetValue = RECURRENCE_PRESETS.some(p => p.rule === value) ? value : 'custom';
+
+    return (
+        <div className="space-y-2">
+            <Select
+                value={presetValue}
+                onValueChange={(val) => {
+                    if (val !== 'custom') onChange(val);
+                }}
+            >
+                <SelectTrigger>
+                    <SelectValue placeholder="Choose a pattern" />
+                </SelectTrigger>
+                <SelectContent>
+                    {RECURRENCE_PRESETS.map(preset => (
+                        <SelectItem key={preset.rule} value={preset.rule}>{preset.label}</SelectItem>
+                    ))}
+                    <SelectItem value="custom">Custom rule…</SelectItem>
+                </SelectContent>
+            </Select>
+            <Input
+                value={value}
+                onChange={(e) => onChange(e.target.value.toUpperCase())}
+                placeholder="e.g. FREQ=MONTHLY;BYDAY=2TU"
+                autoComplete="off"
+                className="font-mono text-xs"
+            />
+            {parsed.error ? (
+                <p className="text-xs text-destructive">{parsed.error}</p>
+            ) : parsed.description ? (
+                <div className="text-xs text-muted-foreground space-y-1">
+                    <p className="font-medium text-foreground">{parsed.description}</p>
+                    {parsed.preview.length > 0 && (
+                        <p>Next: {parsed.preview.map(d => formatDate(d)).join(', ')}</p>
+                    )}
+                </div>
+            ) : null}
+        </div>
+    );
+}
@@ -0,0 +1,178 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, PenLine, ShieldCheck, ShieldX } from 'lucide-react';
+import { useAuth } from '@/contexts/auth-context';
+import { fetchResultSignatures, getValidSignatures, signResult, SIGNATURE_MEANING_LABELS, SIGNATURE_MEANINGS } from '@/lib/result-signatures';
+import type { ResultSignature, SignatureMeaning } from '@/lib/types';
+
+interface ResultSignaturesProps {
+  resultId: string;
+  // Who entered the result; only they can sign it as performed
+  enteredBy?: string | null;
+  // Open the signing form for this meaning straight away, e.g. right after completion
+  requestMeaning?: SignatureMeaning;
+}
+
+/**
+ * The signature block of a completed result: who signed it, what for, and whether each signature
+ * still matches the result. Lets the current user add their own after re-entering their password.
+ */
+export function ResultSignatures({ resultId, enteredBy, requestMeaning }: ResultSignaturesProps) {
+  const { user } = useAuth();
+  const [signatures, setSignatures] = useState<ResultSignature[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [meaning, setMeaning] = useState<SignatureMeaning | null>(null);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSigning, setIsSigning] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setSignatures(await fetchResultSignatures(resultId));
+    setIsLoading(false);
+  }, [resultId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const valid = getValidSignatures(signatures);
+  const invalidated = signatures.filter(s => !s.is_valid);
+  const isPerformer = !!user && user.id === enteredBy;
+  const signable = SIGNATURE_MEANINGS.filter(m => !valid[m] && (m === 'performed' ? isPerformer : !isPerformer && !!valid.performed));
+
+  // Offered once, when the requested signature is still missing
+  const isRequestSignable = !!requestMeaning && signable.includes(requestMeaning);
+  useEffect(() => {
+    if (!isLoading && isRequestSignable) setMeaning(requestMeaning!);
+  }, [isLoading, isRequestSignable, requestMeaning]);
+
+  const handleSign = async () => {
+    if (!meaning) return;
+    setIsSigning(true);
+    setError(null);
+    const result = await signResult(resultId, meaning, password);
+    setIsSigning(false);
+    if (!result.success) {
+      setError(result.error || 'The result could not be signed.');
+      return;
+    }
+    setPassword('');
+    setMeaning(null);
+    await refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="py-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-base flex items-center gap-2">
+              <PenLine className="h-4 w-4" /> Electronic Signatures
+            </CardTitle>
+            <CardDescription>Each signature is bound to the result as it was when signed. Editing the result invalidates it.</CardDescription>
+          </div>
+          {!meaning && signable.length > 0 && (
+            <Button type="button" size="sm" variant="outline" onClick={() => setMeaning(signable[0])}>
+              Sign
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : (
+          <div className="grid gap-3 md:grid-cols-3">
+            {SIGNATURE_MEANINGS.map(m => {
+              const signature = valid[m];
+              return (
+                <div key={m} className="rounded-lg border p-3 text-sm">
+                  <div className="text-muted-foreground">{SIGNATURE_MEANING_LABELS[m]}</div>
+                  {signature ? (
+                    <>
+                      <div className="font-medium flex items-center gap-1">
+                        <ShieldCheck className="h-4 w-4 text-green-600" /> {signature.printed_name}
+                      </div>
+                      <div className="text-xs text-muted-foreground">{format(new Date(signature.signed_at), 'PPP p')}</div>
+                      <div className="text-xs text-muted-foreground font-mono truncate" title={signature.content_hash}>
+                        SHA-256 {signature.content_hash.slice(0, 16)}…
+                      </div>
+                    </>
+                  ) : (
+                    <div className="text-muted-foreground italic">Not signed</div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {invalidated.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-xs font-medium text-muted-foreground">Invalidated signatures</div>
+            {invalidated.map(s => (
+              <div key={s.id} className="flex items-center gap-2 text-xs text-muted-foreground">
+                <ShieldX className="h-3 w-3 text-destructive" />
+                <span>
+                  {SIGNATURE_MEANING_LABELS[s.meaning]} {s.printed_name}, {format(new Date(s.signed_at), 'PPP p')}
+                  {' '}&mdash; {s.invalidated_reason || 'Result changed after signing'}
+                </span>
+                <Badge variant="outline" className="text-destructive border-destructive">Invalid</Badge>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {meaning && (
+          <div className="grid gap-3 md:grid-cols-3 rounded-lg border p-3 bg-muted/30">
+            <div className="space-y-1">
+              <Label>Meaning</Label>
+              <Select value={meaning} onValueChange={(v) => setMeaning(v as SignatureMeaning)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {signable.map(m => (
+                    <SelectItem key={m} value={m}>{SIGNATURE_MEANING_LABELS[m]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1 md:col-span-2">
+              <Label htmlFor="signature-password">Your password</Label>
+              <Input
+                id="signature-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter' && password && !isSigning) handleSign(); }}
+                autoComplete="current-password"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground md:col-span-3">
+              Signing as &ldquo;{SIGNATURE_MEANING_LABELS[meaning]}&rdquo; confirms the result shown above and is the equivalent of your
+              handwritten signature.
+            </p>
+            {error && <p className="text-sm text-destructive md:col-span-3">{error}</p>}
+            <div className="flex gap-2 md:col-span-3">
+              <Button type="button" size="sm" onClick={handleSign} disabled={isSigning || !password}>
+                {isSigning && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Sign
+              </Button>
+              <Button type="button" size="sm" variant="ghost" onClick={() => { setMeaning(null); setPassword(''); setError(null); }} disabled={isSigning}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
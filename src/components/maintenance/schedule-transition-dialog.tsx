@@ -0,0 +1,172 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format, startOfDay } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { formatDateFull } from '@/lib/date-utils';
+import { checkAndRegenerateSchedules } from '@/lib/schedule-generator';
+import { isClosedStatus, transitionSchedule, SCHEDULE_TRANSITION_LABELS, TRANSITION_REASON_CODES } from '@/lib/schedule-transitions';
+import type { ScheduleStatus, ScheduleTransition, TransitionReasonCode } from '@/lib/types';
+
+interface ScheduleTransitionDialogProps {
+  schedule: { id: string; dueDate: string | Date; label: string } | null;
+  transition: ScheduleTransition | null;
+  initialDueDate?: Date | null;
+  onOpenChange: (open: boolean) => void;
+  onTransitioned: (status: ScheduleStatus) => void;
+}
+
+const TITLES: Record<ScheduleTransition, string> = {
+  'Rescheduled': 'Reschedule maintenance',
+  'Skipped': 'Skip maintenance',
+  'Not Required': 'Mark maintenance as not required',
+};
+
+const toDateInput = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export function ScheduleTransitionDialog({
+  schedule,
+  transition,
+  initialDueDate,
+  onOpenChange,
+  onTransitioned,
+}: ScheduleTransitionDialogProps) {
+  const { toast } = useToast();
+  const [dueDate, setDueDate] = useState('');
+  const [reasonCode, setReasonCode] = useState<TransitionReasonCode | ''>('');
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const isOpen = !!schedule && !!transition;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDueDate(initialDueDate ? toDateInput(initialDueDate) : '');
+    setReasonCode(transition === 'Not Required' ? 'out_of_service' : '');
+    setReason('');
+  }, [isOpen, transition, initialDueDate]);
+
+  if (!schedule || !transition) return null;
+
+  const currentDue = new Date(schedule.dueDate);
+  // Keep the original time of day on the chosen date
+  const newDueDate = dueDate
+    ? (() => {
+        const [year, month, day] = dueDate.split('-').map(Number);
+        const next = new Date(currentDue);
+        next.setFullYear(year, month - 1, day);
+        return next;
+      })()
+    : null;
+
+  const needsDate = transition === 'Rescheduled';
+  const isDateValid = !needsDate || (!!newDueDate && newDueDate >= startOfDay(new Date()) && toDateInput(newDueDate) !== toDateInput(currentDue));
+  const isValid = isDateValid && !!reasonCode && (reasonCode !== 'other' || reason.trim().length > 0);
+
+  const handleConfirm = async () => {
+    if (!isValid || !reasonCode) return;
+    setIsSaving(true);
+    const result = await transitionSchedule(schedule.id, transition, {
+      reasonCode,
+      reason,
+      dueDate: needsDate && newDueDate ? newDueDate : undefined,
+    });
+
+    if (!result.success) {
+      setIsSaving(false);
+      toast({ title: 'Error', description: result.error || 'Could not update the schedule.', variant: 'destructive' });
+      return;
+    }
+
+    // A skipped or waived occurrence still moves the series on
+    if (isClosedStatus(transition)) {
+      await checkAndRegenerateSchedules(schedule.id);
+    }
+    setIsSaving(false);
+
+    toast({
+      title: transition,
+      description: needsDate && newDueDate
+        ? `${schedule.label} moved to ${formatDateFull(newDueDate)}.`
+        : `${schedule.label} marked as ${transition.toLowerCase()}.`,
+    });
+    onTransitioned(result.status || transition);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !isSaving && onOpenChange(open)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{TITLES[transition]}</DialogTitle>
+          <DialogDescription>
+            {schedule.label} · due {formatDateFull(currentDue)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {needsDate && (
+            <div className="space-y-1">
+              <Label htmlFor="transition-due-date">New due date *</Label>
+              <Input
+                id="transition-due-date"
+                type="date"
+                min={toDateInput(new Date())}
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label>Reason *</Label>
+            <Select value={reasonCode} onValueChange={(value) => setReasonCode(value as TransitionReasonCode)} disabled={isSaving}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {TRANSITION_REASON_CODES.map(r => <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="transition-reason">Details{reasonCode === 'other' && ' *'}</Label>
+            <Textarea
+              id="transition-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Anything the next reviewer should know"
+              rows={3}
+              disabled={isSaving}
+            />
+            <p className="text-xs text-muted-foreground">Recorded in the schedule's history along with who made the change and when.</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!isValid || isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {SCHEDULE_TRANSITION_LABELS[transition]}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
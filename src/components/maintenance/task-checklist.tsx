@@ -0,0 +1,208 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowDown, ArrowUp, Camera, ImageIcon, ListChecks, Loader2, Play, Plus, Square, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useTaskSteps } from '@/hooks/use-task-steps';
+import { fetchOrgMembers, getMemberName } from '@/lib/assignment';
+import { DEFAULT_TASK_STEPS, formatLabour, formatTimer, getStepSeconds } from '@/lib/task-steps';
+import { cn } from '@/lib/utils';
+import type { MaintenanceTaskStep, OrgMember } from '@/lib/types';
+
+interface TaskChecklistProps {
+  scheduleId: string;
+  // Steps and timers are view-only, e.g. after the result is complete
+  readOnly?: boolean;
+  // Editable but not yet workable, e.g. while qualification or prerequisites block results
+  disabled?: boolean;
+}
+
+export function TaskChecklist({ scheduleId, readOnly = false, disabled = false }: TaskChecklistProps) {
+  const { steps, isLoading, addSteps, removeStep, moveStep, toggleTimer, setCompleted, attachPhoto } = useTaskSteps(scheduleId);
+  const [members, setMembers] = useState<OrgMember[]>([]);
+  const { toast } = useToast();
+  const [newTitle, setNewTitle] = useState('');
+  const [busyStepId, setBusyStepId] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const photoStepRef = useRef<MaintenanceTaskStep | null>(null);
+
+  useEffect(() => {
+    fetchOrgMembers().then(setMembers);
+  }, []);
+
+  const hasRunningTimer = steps.some(s => s.timer_started_at);
+  useEffect(() => {
+    if (!hasRunningTimer) return;
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [hasRunningTimer]);
+
+  const totalSeconds = steps.reduce((sum, step) => sum + getStepSeconds(step, now), 0);
+  const completedCount = steps.filter(s => s.completed_at).length;
+
+  const run = async (step: MaintenanceTaskStep, action: () => Promise<boolean>, failure: string) => {
+    setBusyStepId(step.id);
+    const success = await action();
+    setBusyStepId(null);
+    if (!success) toast({ title: 'Error', description: failure, variant: 'destructive' });
+  };
+
+  const handleAdd = async (titles: string[]) => {
+    const success = await addSteps(titles);
+    if (!success) {
+      toast({ title: 'Error', description: 'Could not add the step.', variant: 'destructive' });
+      return;
+    }
+    setNewTitle('');
+  };
+
+  if (isLoading) return <Skeleton className="h-24 w-full" />;
+  if (readOnly && steps.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base flex items-center gap-2">
+            <ListChecks className="h-4 w-4" /> Task Steps
+          </CardTitle>
+          {steps.length > 0 && (
+            <div className="flex items-center gap-2 text-sm">
+              <Badge variant="outline">{completedCount}/{steps.length} done</Badge>
+              <Badge variant="secondary">Labour {formatLabour(totalSeconds)}</Badge>
+            </div>
+          )}
+        </div>
+        {!readOnly && (
+          <CardDescription>Time each step as you work; the total is logged against this maintenance.</CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <input
+          ref={photoInputRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            const step = photoStepRef.current;
+            if (file && step) run(step, () => attachPhoto(step, file), 'Could not upload the photo.');
+            e.target.value = '';
+          }}
+        />
+
+        {steps.map((step, index) => {
+          const isRunning = !!step.timer_started_at;
+          const isBusy = busyStepId === step.id;
+          const performer = getMemberName(members, step.performed_by);
+          return (
+            <div
+              key={step.id}
+              className={cn('flex items-center gap-3 p-2 border rounded-md', isRunning && 'border-primary bg-primary/5')}
+            >
+              <Checkbox
+                checked={!!step.completed_at}
+                disabled={readOnly || disabled || isBusy}
+                onCheckedChange={(checked) => run(step, () => setCompleted(step, checked === true), 'Could not update the step.')}
+              />
+              <div className="flex-1 min-w-0">
+                <div className={cn('text-sm font-medium', step.completed_at && 'line-through text-muted-foreground')}>
+                  {index + 1}. {step.title}
+                </div>
+                <div className="text-xs text-muted-foreground flex flex-wrap gap-x-3">
+                  {performer && <span>{performer}</span>}
+                  {step.photo_url && (
+                    <a href={step.photo_url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-primary hover:underline">
+                      <ImageIcon className="h-3 w-3" /> {step.photo_name || 'Photo'}
+                    </a>
+                  )}
+                </div>
+              </div>
+              <span className={cn('font-mono text-sm tabular-nums', isRunning && 'text-primary')}>
+                {isRunning ? formatTimer(getStepSeconds(step, now)) : formatLabour(step.labour_seconds)}
+              </span>
+              {!readOnly && (
+                <div className="flex items-center">
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant={isRunning ? 'default' : 'ghost'}
+                    className="h-8 w-8"
+                    disabled={disabled || isBusy || !!step.completed_at}
+                    onClick={() => run(step, () => toggleTimer(step), 'Could not update the timer.')}
+                    title={isRunning ? 'Stop timer' : 'Start timer'}
+                  >
+                    {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : isRunning ? <Square className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    disabled={disabled || isBusy}
+                    onClick={() => {
+                      photoStepRef.current = step;
+                      photoInputRef.current?.click();
+                    }}
+                    title="Attach photo"
+                  >
+                    <Camera className="h-4 w-4" />
+                  </Button>
+                  <Button type="button" size="icon" variant="ghost" className="h-8 w-8" disabled={index === 0} onClick={() => moveStep(step.id, -1)}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button type="button" size="icon" variant="ghost" className="h-8 w-8" disabled={index === steps.length - 1} onClick={() => moveStep(step.id, 1)}>
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-destructive"
+                    disabled={isBusy || step.labour_seconds > 0 || isRunning}
+                    onClick={() => run(step, () => removeStep(step.id), 'Could not remove the step.')}
+                    title={step.labour_seconds > 0 ? 'Steps with logged time are kept' : 'Remove step'}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {!readOnly && (
+          <div className="flex gap-2 pt-1">
+            <Input
+              placeholder="Add a step, e.g. Replace seals"
+              value={newTitle}
+              onChange={(e) => setNewTitle(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && newTitle.trim()) {
+                  e.preventDefault();
+                  handleAdd([newTitle.trim()]);
+                }
+              }}
+            />
+            <Button type="button" variant="outline" disabled={!newTitle.trim()} onClick={() => handleAdd([newTitle.trim()])}>
+              <Plus className="h-4 w-4 mr-1" /> Add
+            </Button>
+            {steps.length === 0 && (
+              <Button type="button" variant="secondary" onClick={() => handleAdd(DEFAULT_TASK_STEPS)}>
+                Use standard steps
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,7 +5,7 @@ import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { format } from 'date-fns';
-import { Calendar as CalendarIcon, FileText, Loader2, CheckCircle, XCircle, Save, Upload } from 'lucide-react';
+import { Calendar as CalendarIcon, FileText, Loader2, CheckCircle, XCircle, Save, Upload, ListOrdered } from 'lucide-react';
 
 import { Button } from '@/components/ui/button';
 import {
@@ -32,18 +32,24 @@ import {
     SelectValue,
 } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Textarea } from '@/components/ui/textarea';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/lib/supabase';
 import { cn } from '@/lib/utils';
-import type { MaintenanceEvent, TestTemplate, TestSection } from '@/lib/types';
+import type { BlockingPrerequisite, MaintenanceEvent, TestTemplate, TestSection, UserQualification } from '@/lib/types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { useAuth } from '@/contexts/auth-context';
 import { checkAndRegenerateSchedules } from '@/lib/schedule-generator';
+import { fetchQualifications, findQualification } from '@/lib/qualifications';
+import { fetchBlockingPrerequisites, followPrerequisiteCompletion } from '@/lib/prerequisites';
+import { QualificationGate } from './qualification-gate';
+import { TaskChecklist } from './task-checklist';
+import { ResultSignatures } from './result-signatures';
 
 const formSchema = z.object({
     completedDate: z.date({
@@ -81,7 +87,10 @@ export function UpdateMaintenanceDialog({
     const [savedSections, setSavedSections] = useState<Set<string>>(new Set());
     const [existingResult, setExistingResult] = useState<any | null>(null);
     const [isCompleteResult, setIsCompleteResult] = useState<boolean>(false);
-    const [instrumentInfo, setInstrumentInfo] = useState<{ eqpId: string; model: string; make: string } | null>(null);
+    const [instrumentInfo, setInstrumentInfo] = useState<{ eqpId: string; model: string; make: string; instrumentType: string } | null>(null);
+    const [qualifications, setQualifications] = useState<UserQualification[]>([]);
+    const [overrideId, setOverrideId] = useState<string | null>(null);
+    const [blockingPrerequisites, setBlockingPrerequisites] = useState<BlockingPrerequisite[]>([]);
     const { toast } = useToast();
     const { user } = useAuth();
 
@@ -130,7 +139,7 @@ export function UpdateMaintenanceDialog({
             // Fetch instrument information
             const { data: instrument } = await supabase
                 .from('instruments')
-                .select('eqpId, model, make')
+                .select('eqpId, model, make, instrumentType')
                 .eq('id', instrumentId)
                 .single();
 
@@ -138,6 +147,11 @@ export function UpdateMaintenanceDialog({
                 setInstrumentInfo(instrument);
             }
 
+            setQualifications(user ? await fetchQualifications(user.id) : []);
+            setBlockingPrerequisites(
+                maintenanceEvent.id.startsWith('virtual-') ? [] : await fetchBlockingPrerequisites(maintenanceEvent.id)
+            );
+
             const { data: resultData } = await supabase
                 .from('maintenanceResults')
                 .select('*')
@@ -148,6 +162,8 @@ export function UpdateMaintenanceDialog({
 
             if (resultData) {
                 setExistingResult(resultData);
+                // A partial result started under an override can be continued under it
+                setOverrideId(resultData.user_id === user?.id ? resultData.qualification_override_id || null : null);
 
                 // Populate form with existing result data
                 form.reset({
@@ -193,6 +209,7 @@ export function UpdateMaintenanceDialog({
                 }
             } else {
                 setExistingResult(null);
+                setOverrideId(null);
                 setIsCompleteResult(false);
                 if (maintenanceEvent.templateId) {
                     await loadTemplateById(maintenanceEvent.templateId);
@@ -206,6 +223,20 @@ export function UpdateMaintenanceDialog({
         fetchResultAndTemplate();
     }, [isOpen, maintenanceEvent]);
 
+    // Result entry needs a current qualification for the instrument type or template, or a supervisor override
+    const activeTemplateId = selectedTemplateId && selectedTemplateId !== 'none' ? selectedTemplateId : null;
+    const qualificationCheck = findQualification(qualifications, user?.id, {
+        instrumentType: instrumentInfo?.instrumentType,
+        templateId: activeTemplateId,
+    });
+    const isQualifiedForTask = qualificationCheck.status === 'current' || qualificationCheck.status === 'expiring';
+    // ...and every prerequisite task of this occurrence closed first
+    const canEnterResults = (isQualifiedForTask || !!overrideId) && blockingPrerequisites.length === 0;
+    const qualificationFields = {
+        qualification_id: isQualifiedForTask ? qualificationCheck.qualification?.id || null : null,
+        qualification_override_id: isQualifiedForTask ? null : overrideId,
+    };
+
     // Update measured value and calculate error/passed
     const handleMeasuredChange = (sectionIndex: number, rowIndex: number, value: string) => {
         setTestData(prev => {
@@ -289,7 +320,7 @@ export function UpdateMaintenanceDialog({
     // Save individual section (draft save)
     const handleSaveSection = async (sectionIndex: number) => {
         const section = testData[sectionIndex];
-        if (!section) return;
+        if (!section || !canEnterResults) return;
 
         // Validate that all fields in the section are filled
         if (!isSectionComplete(section)) {
@@ -342,6 +373,7 @@ export function UpdateMaintenanceDialog({
                 documentUrl: null, // Individual section saves don't save main document
                 testData: updatedTestData, // Save all test data including the newly completed section
                 templateId: selectedTemplateId && selectedTemplateId !== 'none' ? selectedTemplateId : null,
+                ...qualificationFields,
             };
 
             // Update local state to reflect the new document URL
@@ -414,6 +446,7 @@ export function UpdateMaintenanceDialog({
             // Update local state
             if (allSectionsNowComplete) {
                 setIsCompleteResult(true);
+                await followPrerequisiteCompletion(maintenanceEvent.id);
             }
 
             // Mark section as saved in local state
@@ -443,6 +476,22 @@ export function UpdateMaintenanceDialog({
     };
 
     const onSubmit = async (values: FormValues) => {
+        if (blockingPrerequisites.length > 0) {
+            toast({
+                title: 'Prerequisites Pending',
+                description: `Complete ${blockingPrerequisites.map(p => p.maintenance_type).join(', ')} before entering results.`,
+                variant: 'destructive',
+            });
+            return;
+        }
+        if (!canEnterResults) {
+            toast({
+                title: 'Qualification Required',
+                description: 'You need a current qualification or a supervisor override to enter results.',
+                variant: 'destructive',
+            });
+            return;
+        }
         setIsLoading(true);
 
         try {
@@ -522,20 +571,28 @@ export function UpdateMaintenanceDialog({
                 documentUrl: documentUrl || null,
                 testData: updatedTestData.length > 0 ? updatedTestData : null,
                 templateId: selectedTemplateId && selectedTemplateId !== 'none' ? selectedTemplateId : null,
+                ...qualificationFields,
             };
 
             let saveError;
+            let savedResult;
             if (existingResult) {
-                const { error } = await supabase
+                const { data, error } = await supabase
                     .from('maintenanceResults')
                     .update(resultData)
-                    .eq('id', existingResult.id);
+                    .eq('id', existingResult.id)
+                    .select()
+                    .single();
                 saveError = error;
+                savedResult = data;
             } else {
-                const { error } = await supabase
+                const { data, error } = await supabase
                     .from('maintenanceResults')
-                    .insert(resultData);
+                    .insert(resultData)
+                    .select()
+                    .single();
                 saveError = error;
+                savedResult = data;
             }
 
             if (saveError) {
@@ -606,11 +663,27 @@ export function UpdateMaintenanceDialog({
                 if (regenResult.regenerated) {
                     console.log(`Auto-generated ${regenResult.count} new schedules for next year`);
                 }
+                await followPrerequisiteCompletion(maintenanceEvent.id);
+            }
+
+            // A completed result stays open for the performer's signature
+            if (allComplete && savedResult) {
+                setExistingResult(savedResult);
+                setTestData(updatedTestData);
+                setIsCompleteResult(true);
+                setSelectedDocument(null);
+                setSectionDocuments({});
+                toast({
+                    title: 'Result Completed',
+                    description: 'Sign the result as performed to finish.',
+                });
+                onSuccess?.();
+                return;
             }
 
             toast({
                 title: 'Result Updated',
-                description: allComplete ? 'Maintenance result completed.' : 'Partial result saved. You can continue later.',
+                description: 'Partial result saved. You can continue later.',
             });
 
             form.reset();
@@ -671,6 +744,42 @@ export function UpdateMaintenanceDialog({
                 <div className="flex-1 overflow-y-auto px-6 py-4">
                     <Form {...form}>
                         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                            {!viewMode && !isCompleteResult && blockingPrerequisites.length > 0 && (
+                                <Alert variant="destructive">
+                                    <ListOrdered className="h-4 w-4" />
+                                    <AlertTitle>Waiting on Prerequisites</AlertTitle>
+                                    <AlertDescription>
+                                        <p>Results can be entered once these tasks are completed:</p>
+                                        <ul className="mt-1 list-disc pl-5">
+                                            {blockingPrerequisites.map(p => (
+                                                <li key={p.schedule_id}>
+                                                    {p.maintenance_type} &mdash; {p.status}, due {format(new Date(p.due_date), 'PPP')}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </AlertDescription>
+                                </Alert>
+                            )}
+
+                            {!viewMode && !isCompleteResult && instrumentInfo && (
+                                <QualificationGate
+                                    scheduleId={maintenanceEvent.id}
+                                    scopeLabel={instrumentInfo.instrumentType || 'this instrument'}
+                                    status={qualificationCheck.status}
+                                    qualification={qualificationCheck.qualification}
+                                    overrideId={isQualifiedForTask ? null : overrideId}
+                                    onOverride={setOverrideId}
+                                />
+                            )}
+
+                            {!maintenanceEvent.id.startsWith('virtual-') && (
+                                <TaskChecklist
+                                    scheduleId={maintenanceEvent.id}
+                                    readOnly={viewMode || isCompleteResult}
+                                    disabled={!canEnterResults}
+                                />
+                            )}
+
                             {!viewMode && !isCompleteResult && (
                                 <div className="grid gap-4 md:grid-cols-2">
                                     <FormField
@@ -766,7 +875,7 @@ export function UpdateMaintenanceDialog({
                                                                 size="sm"
                                                                 variant="outline"
                                                                 onClick={() => handleSaveSection(sectionIndex)}
-                                                                disabled={savingSection === section.id || !isSectionComplete(section)}
+                                                                disabled={savingSection === section.id || !isSectionComplete(section) || !canEnterResults}
                                                             >
                                                                 {savingSection === section.id ? (
                                                                     <Loader2 className="w-4 h-4 animate-spin" />
@@ -1001,6 +1110,17 @@ export function UpdateMaintenanceDialog({
                             )}
                         </form>
                     </Form>
+
+                    {/* Outside the form so pressing Enter in the password field signs rather than resubmits */}
+                    {isCompleteResult && existingResult && (
+                        <div className="mt-4">
+                            <ResultSignatures
+                                resultId={existingResult.id}
+                                enteredBy={existingResult.user_id}
+                                requestMeaning={viewMode ? undefined : 'performed'}
+                            />
+                        </div>
+                    )}
                 </div>
 
                 <DialogFooter className="px-6 py-4 border-t">
@@ -1010,7 +1130,7 @@ export function UpdateMaintenanceDialog({
                     {!viewMode && !isCompleteResult && (
                         <Button
                             onClick={form.handleSubmit(onSubmit)}
-                            disabled={isLoading}
+                            disabled={isLoading || !canEnterResults}
                         >
                             {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                             {(() => {
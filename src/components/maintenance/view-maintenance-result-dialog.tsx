@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { format } from 'date-fns';
-import { FileText, CheckCircle, XCircle, Calendar, Download } from 'lucide-react';
+import { FileText, CheckCircle, XCircle, Calendar, Download, GraduationCap, ShieldAlert } from 'lucide-react';
 
 import { Button } from '@/components/ui/button';
 import {
@@ -14,12 +14,16 @@ import {
     DialogTitle,
 } from '@/components/ui/dialog';
 import { supabase } from '@/lib/supabase';
+import { fetchOrgMembers, getMemberName } from '@/lib/assignment';
+import { formatQualificationDate } from '@/lib/qualifications';
 import { cn } from '@/lib/utils';
-import type { MaintenanceEvent, TestSection } from '@/lib/types';
+import type { MaintenanceEvent, OrgMember, TestSection, UserQualification } from '@/lib/types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { TaskChecklist } from './task-checklist';
+import { ResultSignatures } from './result-signatures';
 
 interface ViewMaintenanceResultDialogProps {
     isOpen: boolean;
@@ -35,6 +39,9 @@ interface ResultData {
     notes?: string;
     documentUrl?: string;
     testData?: TestSection[];
+    user_id?: string | null;
+    user_qualifications?: Pick<UserQualification, 'instrument_type' | 'sop_version' | 'expires_on' | 'evidence_url'> | null;
+    qualification_overrides?: { supervisor_id: string; reason: string; created_at: string } | null;
 }
 
 export function ViewMaintenanceResultDialog({
@@ -46,6 +53,7 @@ export function ViewMaintenanceResultDialog({
     const [result, setResult] = useState<ResultData | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [instrumentInfo, setInstrumentInfo] = useState<{ eqpId: string; model: string; make: string } | null>(null);
+    const [members, setMembers] = useState<OrgMember[]>([]);
 
     useEffect(() => {
         const fetchResult = async () => {
@@ -66,12 +74,13 @@ export function ViewMaintenanceResultDialog({
 
             const { data } = await supabase
                 .from('maintenanceResults')
-                .select('*')
+                .select('*, user_qualifications(instrument_type, sop_version, expires_on, evidence_url), qualification_overrides(supervisor_id, reason, created_at)')
                 .eq('maintenanceScheduleId', maintenanceEvent.id)
                 .single();
 
             if (data) {
                 setResult(data);
+                setMembers(await fetchOrgMembers());
             }
             setIsLoading(false);
         };
@@ -193,9 +202,41 @@ export function ViewMaintenanceResultDialog({
                                             <div className="text-sm">{result.notes}</div>
                                         </div>
                                     )}
+
+                                    {(result.user_qualifications || result.qualification_overrides) && (
+                                        <div className="mt-4 pt-4 border-t text-sm">
+                                            <div className="text-sm text-muted-foreground mb-1">Entered By</div>
+                                            {result.user_qualifications ? (
+                                                <div className="flex items-center gap-1">
+                                                    <GraduationCap className="w-4 h-4" />
+                                                    <span>
+                                                        {getMemberName(members, result.user_id)}, qualified
+                                                        {result.user_qualifications.sop_version && ` on SOP ${result.user_qualifications.sop_version}`}
+                                                        {result.user_qualifications.expires_on && ` (valid until ${formatQualificationDate(result.user_qualifications.expires_on)})`}
+                                                    </span>
+                                                    {result.user_qualifications.evidence_url && (
+                                                        <a href={result.user_qualifications.evidence_url} target="_blank" rel="noopener noreferrer" className="ml-2 text-primary hover:underline">
+                                                            Evidence
+                                                        </a>
+                                                    )}
+                                                </div>
+                                            ) : result.qualification_overrides && (
+                                                <div className="flex items-center gap-1">
+                                                    <ShieldAlert className="w-4 h-4 text-amber-600" />
+                                                    <span>
+                                                        {getMemberName(members, result.user_id)} under supervisor override by {getMemberName(members, result.qualification_overrides.supervisor_id)}: {result.qualification_overrides.reason}
+                                                    </span>
+                                                </div>
+                                            )}
+                                        </div>
+                                    )}
                                 </CardContent>
                             </Card>
 
+                            <ResultSignatures resultId={result.id} enteredBy={result.user_id} />
+
+                            <TaskChecklist scheduleId={maintenanceEvent.id} readOnly />
+
                             {/* Test Data */}
                             {result.testData && result.testData.length > 0 && (
                                 <div className="space-y-4">
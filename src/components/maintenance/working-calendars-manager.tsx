@@ -0,0 +1,291 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { useWorkingCalendars, type WorkingCalendarRecord } from '@/hooks/use-working-calendars';
+import { useLocations } from '@/hooks/use-locations';
+import { LocationSelect } from '@/components/locations/location-select';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Trash2, Upload, Plus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { WEEKDAY_LABELS, parseHolidayCsv, parseHolidayIcs } from '@/lib/working-calendar';
+
+const TIME_ZONES: string[] = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : ['UTC'];
+
+function CalendarCard({
+  calendar,
+  onToggleOffDay,
+  onDelete,
+  onAddHolidays,
+  onDeleteHoliday,
+}: {
+  calendar: WorkingCalendarRecord;
+  onToggleOffDay: (day: number) => void;
+  onDelete: () => void;
+  onAddHolidays: (holidays: { date: string; name: string }[], errors: string[]) => void;
+  onDeleteHoliday: (id: string) => void;
+}) {
+  const [holidayDate, setHolidayDate] = useState('');
+  const [holidayName, setHolidayName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    const text = await file.text();
+    const isIcs = file.name.toLowerCase().endsWith('.ics') || text.includes('BEGIN:VCALENDAR');
+    const { holidays, errors } = isIcs ? parseHolidayIcs(text) : parseHolidayCsv(text);
+    onAddHolidays(holidays, errors);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1">
+          <CardTitle className="text-lg">{calendar.name}</CardTitle>
+          <CardDescription>
+            {calendar.location ? <>Location: <Badge variant="secondary">{calendar.location}</Badge></> : 'Organization default'}
+          </CardDescription>
+        </div>
+        <Button size="icon" variant="ghost" className="text-destructive" onClick={onDelete}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-muted-foreground">Weekly off-days</h4>
+          <div className="flex flex-wrap gap-2">
+            {WEEKDAY_LABELS.map((label, day) => {
+              const isOff = calendar.weekly_off_days.includes(day);
+              return (
+                <Button
+                  key={label}
+                  size="sm"
+                  variant={isOff ? 'default' : 'outline'}
+                  className={cn('w-14', isOff && 'bg-destructive/80 hover:bg-destructive')}
+                  onClick={() => onToggleOffDay(day)}
+                >
+                  {label}
+                </Button>
+              );
+            })}
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-semibold text-muted-foreground">Holidays ({calendar.holidays.length})</h4>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".ics,.csv,text/calendar,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+            <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-1" /> Import ICS / CSV
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Input type="date" value={holidayDate} onChange={(e) => setHolidayDate(e.target.value)} className="w-44" />
+            <Input placeholder="Holiday name" value={holidayName} onChange={(e) => setHolidayName(e.target.value)} />
+            <Button
+              disabled={!holidayDate}
+              onClick={() => {
+                onAddHolidays([{ date: holidayDate, name: holidayName.trim() || 'Holiday' }], []);
+                setHolidayDate('');
+                setHolidayName('');
+              }}
+            >
+              Add
+            </Button>
+          </div>
+          {calendar.holidays.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No holidays yet.</p>
+          ) : (
+            <div className="max-h-64 overflow-y-auto space-y-1">
+              {calendar.holidays.map(h => (
+                <div key={h.id} className="flex items-center gap-2 p-2 border rounded-md bg-card/50 text-sm">
+                  <span className="font-mono w-28">{h.holiday_date}</span>
+                  <span className="flex-1">{h.name}</span>
+                  <Button size="icon" variant="ghost" className="h-7 w-7 text-destructive" onClick={() => onDeleteHoliday(h.id)}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function WorkingCalendarsManager() {
+  const { calendars, isLoading, timeZone, updateTimeZone, createCalendar, updateOffDays, deleteCalendar, addHolidays, deleteHoliday } = useWorkingCalendars();
+  const { toast } = useToast();
+  const { options: locationOptions } = useLocations();
+  // Empty for the organization default
+  const [newLocationId, setNewLocationId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  // Read after mount, so the server render does not offer its own zone
+  const [browserTimeZone, setBrowserTimeZone] = useState<string | null>(null);
+
+  useEffect(() => {
+    setBrowserTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+  }, []);
+
+  const hasOrgDefault = calendars.some(c => !c.location_id);
+  const availableLocations = locationOptions.filter(o => !calendars.some(c => c.location_id === o.location.id));
+
+  const handleCreate = async () => {
+    const location = availableLocations.find(o => o.location.id === newLocationId);
+    setIsSaving(true);
+    const success = await createCalendar(location ? `${location.path} calendar` : 'Organization calendar', location?.location.id ?? null);
+    setIsSaving(false);
+    if (success) {
+      toast({ title: 'Added', description: 'Working calendar created.' });
+      setNewLocationId('');
+    } else {
+      toast({ title: 'Error', description: 'Could not create calendar.', variant: 'destructive' });
+    }
+  };
+
+  const handleTimeZoneChange = async (value: string) => {
+    const success = await updateTimeZone(value);
+    toast(success
+      ? { title: 'Saved', description: `Scheduled jobs now plan due dates in ${value}.` }
+      : { title: 'Error', description: 'Only an administrator can change the time zone.', variant: 'destructive' });
+  };
+
+  const handleToggleOffDay = async (calendar: WorkingCalendarRecord, day: number) => {
+    const next = calendar.weekly_off_days.includes(day)
+      ? calendar.weekly_off_days.filter(d => d !== day)
+      : [...calendar.weekly_off_days, day].sort();
+    if (next.length >= 7) {
+      toast({ title: 'Not allowed', description: 'At least one day of the week must be a working day.', variant: 'destructive' });
+      return;
+    }
+    const success = await updateOffDays(calendar.id, next);
+    if (!success) {
+      toast({ title: 'Error', description: 'Could not update off-days.', variant: 'destructive' });
+    }
+  };
+
+  const handleAddHolidays = async (calendarId: string, holidays: { date: string; name: string }[], errors: string[]) => {
+    const saved = await addHolidays(calendarId, holidays);
+    if (saved === null) {
+      toast({ title: 'Error', description: 'Could not save holidays.', variant: 'destructive' });
+      return;
+    }
+    toast({
+      title: 'Holidays saved',
+      description: errors.length > 0
+        ? `${saved} saved, ${errors.length} skipped: ${errors.slice(0, 3).join('; ')}${errors.length > 3 ? '…' : ''}`
+        : `${saved} holiday${saved === 1 ? '' : 's'} saved.`,
+      variant: errors.length > 0 ? 'destructive' : undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-headline">Time Zone</CardTitle>
+          <CardDescription>
+            The server plans due dates on this zone&apos;s calendar days, the way your browser does. Until one is set it uses UTC.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex items-center gap-2">
+          <Select value={timeZone ?? undefined} onValueChange={handleTimeZoneChange}>
+            <SelectTrigger className="w-72">
+              <SelectValue placeholder="Not set (UTC)" />
+            </SelectTrigger>
+            <SelectContent>
+              {TIME_ZONES.map(zone => <SelectItem key={zone} value={zone}>{zone}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          {browserTimeZone && timeZone !== browserTimeZone && (
+            <Button variant="outline" onClick={() => handleTimeZoneChange(browserTimeZone)}>
+              Use {browserTimeZone}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-headline">Add Calendar</CardTitle>
+          <CardDescription>Start with an organization default, then add calendars for locations that differ.</CardDescription>
+        </CardHeader>
+        <CardContent className="flex gap-2">
+          <LocationSelect
+            options={availableLocations}
+            value={newLocationId}
+            onChange={setNewLocationId}
+            placeholder="Select scope"
+            emptyLabel={hasOrgDefault ? undefined : 'Organization default'}
+            className="w-72"
+          />
+          <Button
+            onClick={handleCreate}
+            disabled={isSaving || isLoading || (!newLocationId && hasOrgDefault)}
+          >
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <><Plus className="h-4 w-4 mr-1" /> Add</>}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading calendars...
+        </div>
+      ) : calendars.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No working calendars yet. Due dates are never shifted until one exists.</p>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-2">
+          {calendars.map(calendar => (
+            <CalendarCard
+              key={calendar.id}
+              calendar={calendar}
+              onToggleOffDay={(day) => handleToggleOffDay(calendar, day)}
+              onDelete={async () => {
+                const success = await deleteCalendar(calendar.id);
+                toast(success
+                  ? { title: 'Deleted', description: `${calendar.name} removed.` }
+                  : { title: 'Error', description: 'Could not delete calendar.', variant: 'destructive' });
+              }}
+              onAddHolidays={(holidays, errors) => handleAddHolidays(calendar.id, holidays, errors)}
+              onDeleteHoliday={async (id) => {
+                const success = await deleteHoliday(id);
+                if (!success) toast({ title: 'Error', description: 'Could not delete holiday.', variant: 'destructive' });
+              }}
+            />
+          ))}
+        </div>
+      )}
+
+      <Alert>
+        <AlertTitle>How shifting works</AlertTitle>
+        <AlertDescription className="text-sm">
+          A location calendar applies to everything inside that location. The nearest one replaces the default&apos;s weekly
+          off-days, and the holidays of the default and every calendar above the instrument all count.
+          Each maintenance configuration chooses whether a due date on a non-working day moves to the previous or next working day.
+          Changes apply the next time schedules are generated; the original date is kept as the nominal due date.
+          CSV files need a yyyy-MM-dd date column and an optional name column.
+        </AlertDescription>
+      </Alert>
+    </div>
+  );
+}
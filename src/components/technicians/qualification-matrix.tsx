@@ -0,0 +1,158 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { getMemberName } from '@/lib/assignment';
+import {
+  formatQualificationDate,
+  getQualificationStatus,
+  QUALIFICATION_EXPIRY_WARNING_DAYS,
+  QUALIFICATION_STATUS_LABELS,
+} from '@/lib/qualifications';
+import type { OrgMember, QualificationStatus, UserQualification } from '@/lib/types';
+
+export type QualificationScopeColumn = {
+  key: string;
+  label: string;
+  instrumentType?: string;
+  templateId?: string;
+};
+
+const STATUS_STYLES: Record<QualificationStatus, string> = {
+  current: 'bg-emerald-100 text-emerald-900 border-emerald-300 dark:bg-emerald-900/40 dark:text-emerald-100',
+  expiring: 'bg-amber-100 text-amber-900 border-amber-300 dark:bg-amber-900/40 dark:text-amber-100',
+  expired: 'bg-red-100 text-red-900 border-red-300 dark:bg-red-900/40 dark:text-red-100',
+  missing: '',
+};
+
+const getScopeKey = (q: Pick<UserQualification, 'instrument_type' | 'template_id'>) =>
+  q.template_id ? `template:${q.template_id}` : `type:${q.instrument_type}`;
+
+interface QualificationMatrixProps {
+  members: OrgMember[];
+  technicians: OrgMember[];
+  qualifications: UserQualification[];
+  scopes: QualificationScopeColumn[];
+  onSelect: (userId: string, scope: QualificationScopeColumn, qualification?: UserQualification) => void;
+}
+
+/**
+ * Who is qualified for what, one row per technician and one column per instrument
+ * type or template, followed by the qualifications due for renewal
+ */
+export function QualificationMatrix({ members, technicians, qualifications, scopes, onSelect }: QualificationMatrixProps) {
+  const byUserAndScope = useMemo(
+    () => new Map(qualifications.map(q => [`${q.user_id}|${getScopeKey(q)}`, q])),
+    [qualifications]
+  );
+
+  const expiring = useMemo(
+    () => qualifications
+      .filter(q => getQualificationStatus(q) === 'expiring')
+      .sort((a, b) => (a.expires_on || '').localeCompare(b.expires_on || '')),
+    [qualifications]
+  );
+
+  const scopeLabel = (q: UserQualification) => scopes.find(s => s.key === getScopeKey(q))?.label || q.instrument_type || 'Template';
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-headline">Qualification Matrix</CardTitle>
+          <CardDescription>Click a cell to record or renew a qualification.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {technicians.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No users can edit maintenance records yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="min-w-[180px]">Technician</TableHead>
+                    {scopes.map(scope => (
+                      <TableHead key={scope.key} className="text-center whitespace-nowrap">
+                        {scope.label}
+                        {scope.templateId && <div className="text-xs font-normal">Template</div>}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {technicians.map(t => (
+                    <TableRow key={t.id}>
+                      <TableCell className="font-medium">{t.display_name || 'Unnamed user'}</TableCell>
+                      {scopes.map(scope => {
+                        const qualification = byUserAndScope.get(`${t.id}|${scope.key}`);
+                        const status = getQualificationStatus(qualification);
+                        return (
+                          <TableCell key={scope.key} className="text-center p-1">
+                            <button
+                              type="button"
+                              className="w-full rounded-md px-2 py-1 hover:bg-muted"
+                              onClick={() => onSelect(t.id, scope, qualification)}
+                            >
+                              {qualification ? (
+                                <Badge variant="outline" className={cn('whitespace-nowrap', STATUS_STYLES[status])}>
+                                  {qualification.expires_on ? formatQualificationDate(qualification.expires_on) : 'No expiry'}
+                                </Badge>
+                              ) : (
+                                <span className="text-muted-foreground">—</span>
+                              )}
+                            </button>
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2 mt-4 text-xs">
+            {(['current', 'expiring', 'expired'] as QualificationStatus[]).map(status => (
+              <Badge key={status} variant="outline" className={STATUS_STYLES[status]}>{QUALIFICATION_STATUS_LABELS[status]}</Badge>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-headline">Expiring in the Next {QUALIFICATION_EXPIRY_WARNING_DAYS} Days</CardTitle>
+          <CardDescription>Once a qualification expires its holder needs a supervisor override to enter results.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {expiring.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No qualifications expire in this period.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Technician</TableHead>
+                  <TableHead>Qualified For</TableHead>
+                  <TableHead>SOP Version</TableHead>
+                  <TableHead>Expires</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {expiring.map(q => (
+                  <TableRow key={q.id}>
+                    <TableCell>{getMemberName(members, q.user_id)}</TableCell>
+                    <TableCell>{scopeLabel(q)}</TableCell>
+                    <TableCell>{q.sop_version || '—'}</TableCell>
+                    <TableCell>{formatQualificationDate(q.expires_on!)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { supabase } from '@/lib/supabase';
+import { useTechnicians } from '@/hooks/use-technicians';
+import { useInstrumentTypes } from '@/hooks/use-instrument-types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { FileText, Loader2, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { canPerformMaintenance, getMemberName } from '@/lib/assignment';
+import { uploadQualificationEvidence } from '@/lib/qualifications';
+import type { UserQualification } from '@/lib/types';
+import { QualificationMatrix, type QualificationScopeColumn } from './qualification-matrix';
+
+type QualificationDraft = {
+  id?: string;
+  userId: string;
+  scopeKey: string;
+  sopVersion: string;
+  trainedOn: string;
+  expiresOn: string;
+  notes: string;
+  evidenceUrl: string | null;
+  evidenceName: string | null;
+};
+
+const emptyDraft = (userId = '', scopeKey = ''): QualificationDraft => ({
+  userId,
+  scopeKey,
+  sopVersion: '',
+  trainedOn: format(new Date(), 'yyyy-MM-dd'),
+  expiresOn: '',
+  notes: '',
+  evidenceUrl: null,
+  evidenceName: null,
+});
+
+export function QualificationsManager() {
+  const { members, qualifications, isLoading, saveQualification, removeQualification } = useTechnicians();
+  const { instrumentTypes } = useInstrumentTypes();
+  const { toast } = useToast();
+
+  const [templates, setTemplates] = useState<{ id: string; name: string }[]>([]);
+  const [draft, setDraft] = useState<QualificationDraft | null>(null);
+  const [evidenceFile, setEvidenceFile] = useState<File | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      const { data } = await supabase.from('testTemplates').select('id, name').order('name');
+      setTemplates(data || []);
+    };
+    fetchTemplates();
+  }, []);
+
+  const technicians = useMemo(() => members.filter(canPerformMaintenance), [members]);
+
+  // Every instrument type, plus the templates someone holds a qualification for
+  const scopes = useMemo<QualificationScopeColumn[]>(() => {
+    const heldTemplates = new Set(qualifications.map(q => q.template_id).filter(Boolean));
+    return [
+      ...instrumentTypes.map(t => ({ key: `type:${t.value}`, label: t.label, instrumentType: t.value })),
+      ...templates.filter(t => heldTemplates.has(t.id)).map(t => ({ key: `template:${t.id}`, label: t.name, templateId: t.id })),
+    ];
+  }, [instrumentTypes, templates, qualifications]);
+
+  const openDraft = (userId: string, scope: QualificationScopeColumn, qualification?: UserQualification) => {
+    setEvidenceFile(null);
+    if (!qualification) {
+      setDraft(emptyDraft(userId, scope.key));
+      return;
+    }
+    setDraft({
+      id: qualification.id,
+      userId,
+      scopeKey: scope.key,
+      sopVersion: qualification.sop_version || '',
+      trainedOn: qualification.trained_on || '',
+      expiresOn: qualification.expires_on || '',
+      notes: qualification.notes || '',
+      evidenceUrl: qualification.evidence_url || null,
+      evidenceName: qualification.evidence_name || null,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (draft.expiresOn && draft.trainedOn && draft.expiresOn < draft.trainedOn) {
+      toast({ title: 'Invalid dates', description: 'The expiry date must be after the training date.', variant: 'destructive' });
+      return;
+    }
+
+    setIsSaving(true);
+    let evidence = draft.evidenceUrl ? { url: draft.evidenceUrl, name: draft.evidenceName || 'Evidence' } : null;
+    if (evidenceFile) {
+      evidence = await uploadQualificationEvidence(evidenceFile, draft.userId);
+      if (!evidence) {
+        setIsSaving(false);
+        toast({ title: 'Upload Error', description: 'Failed to upload the evidence document.', variant: 'destructive' });
+        return;
+      }
+    }
+
+    // Scope keys are 'type:<instrument type>' or 'template:<template id>'
+    const separator = draft.scopeKey.indexOf(':');
+    const kind = draft.scopeKey.slice(0, separator);
+    const value = draft.scopeKey.slice(separator + 1);
+    const success = await saveQualification({
+      user_id: draft.userId,
+      instrument_type: kind === 'type' ? value : null,
+      template_id: kind === 'template' ? value : null,
+      sop_version: draft.sopVersion.trim() || null,
+      trained_on: draft.trainedOn || null,
+      expires_on: draft.expiresOn || null,
+      evidence_url: evidence?.url || null,
+      evidence_name: evidence?.name || null,
+      notes: draft.notes.trim() || null,
+    }, draft.id);
+    setIsSaving(false);
+
+    if (!success) {
+      toast({ title: 'Error', description: 'Could not save the qualification. Each technician has one record per instrument type or template.', variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Qualification saved', description: `${getMemberName(members, draft.userId)} is recorded as qualified.` });
+    setDraft(null);
+  };
+
+  const handleRemove = async () => {
+    if (!draft?.id) return;
+    setIsSaving(true);
+    const success = await removeQualification(draft.id);
+    setIsSaving(false);
+    if (!success) {
+      toast({ title: 'Error', description: 'Could not remove the qualification.', variant: 'destructive' });
+      return;
+    }
+    setDraft(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading qualifications...
+      </div>
+    );
+  }
+
+  const isTemplateScopeKey = (key: string) => key.startsWith('template:');
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={() => { setEvidenceFile(null); setDraft(emptyDraft()); }} disabled={technicians.length === 0}>
+          <Plus className="h-4 w-4 mr-1" /> Record Qualification
+        </Button>
+      </div>
+
+      <QualificationMatrix
+        members={members}
+        technicians={technicians}
+        qualifications={qualifications}
+        scopes={scopes}
+        onSelect={openDraft}
+      />
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && !isSaving && setDraft(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Renew Qualification' : 'Record Qualification'}</DialogTitle>
+            <DialogDescription>
+              Users without a current qualification for an instrument type or template need a supervisor override to enter its results.
+            </DialogDescription>
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label>Technician</Label>
+                <Select value={draft.userId} onValueChange={(userId) => setDraft({ ...draft, userId })} disabled={!!draft.id}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select technician" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {technicians.map(t => <SelectItem key={t.id} value={t.id}>{t.display_name || 'Unnamed user'}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-1">
+                <Label>Qualified For</Label>
+                <Select value={draft.scopeKey} onValueChange={(scopeKey) => setDraft({ ...draft, scopeKey })} disabled={!!draft.id}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select instrument type or template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {instrumentTypes.map(t => <SelectItem key={t.value} value={`type:${t.value}`}>{t.label}</SelectItem>)}
+                    {templates.map(t => <SelectItem key={t.id} value={`template:${t.id}`}>Template: {t.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                {isTemplateScopeKey(draft.scopeKey) && (
+                  <p className="text-xs text-muted-foreground">Covers this template on any instrument type.</p>
+                )}
+              </div>
+
+              <div className="grid gap-3 md:grid-cols-3">
+                <div className="space-y-1">
+                  <Label htmlFor="sop-version">SOP Version</Label>
+                  <Input id="sop-version" value={draft.sopVersion} onChange={(e) => setDraft({ ...draft, sopVersion: e.target.value })} placeholder="e.g. SOP-QC-012 v3" />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="trained-on">Trained On</Label>
+                  <Input id="trained-on" type="date" value={draft.trainedOn} onChange={(e) => setDraft({ ...draft, trainedOn: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="expires-on">Expires On</Label>
+                  <Input id="expires-on" type="date" value={draft.expiresOn} onChange={(e) => setDraft({ ...draft, expiresOn: e.target.value })} />
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="evidence">Evidence Document</Label>
+                {draft.evidenceUrl && !evidenceFile && (
+                  <a href={draft.evidenceUrl} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-sm text-primary hover:underline">
+                    <FileText className="h-4 w-4" /> {draft.evidenceName || 'View evidence'}
+                  </a>
+                )}
+                <Input id="evidence" type="file" accept=".pdf,.png,.jpg,.jpeg" onChange={(e) => setEvidenceFile(e.target.files?.[0] || null)} />
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="qualification-notes">Notes</Label>
+                <Textarea id="qualification-notes" rows={2} value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter className="gap-2">
+            {draft?.id && (
+              <Button variant="ghost" className="text-destructive mr-auto" onClick={handleRemove} disabled={isSaving}>
+                <Trash2 className="h-4 w-4 mr-1" /> Remove
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setDraft(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !draft?.userId || !draft?.scopeKey}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
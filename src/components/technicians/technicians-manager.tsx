@@ -0,0 +1,221 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useTechnicians } from '@/hooks/use-technicians';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Plus, Trash2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { canPerformMaintenance, getMemberName } from '@/lib/assignment';
+
+const NONE = '__none__';
+
+export function TechniciansManager() {
+  const {
+    members,
+    teams,
+    locationDefaults,
+    isLoading,
+    createTeam,
+    deleteTeam,
+    addTeamMember,
+    removeTeamMember,
+    saveLocationDefault,
+    deleteLocationDefault,
+  } = useTechnicians();
+  const { toast } = useToast();
+
+  const [teamName, setTeamName] = useState('');
+  const [locations, setLocations] = useState<string[]>([]);
+  const [defaultLocation, setDefaultLocation] = useState('');
+  const [defaultAssignee, setDefaultAssignee] = useState(NONE);
+  const [defaultTeam, setDefaultTeam] = useState(NONE);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchLocations = async () => {
+      const { data } = await supabase.from('instruments').select('location');
+      setLocations(Array.from(new Set((data || []).map(i => i.location).filter(Boolean))).sort() as string[]);
+    };
+    fetchLocations();
+  }, []);
+
+  const technicians = useMemo(() => members.filter(canPerformMaintenance), [members]);
+
+  const notify = (success: boolean, failure: string) => {
+    if (!success) toast({ title: 'Error', description: failure, variant: 'destructive' });
+  };
+
+  const handleCreateTeam = async () => {
+    setIsSaving(true);
+    const success = await createTeam(teamName);
+    setIsSaving(false);
+    notify(success, 'Could not create team. Team names must be unique.');
+    if (success) setTeamName('');
+  };
+
+  const handleSaveDefault = async () => {
+    setIsSaving(true);
+    const success = await saveLocationDefault(
+      defaultLocation,
+      defaultAssignee === NONE ? null : defaultAssignee,
+      defaultTeam === NONE ? null : defaultTeam
+    );
+    setIsSaving(false);
+    notify(success, 'Could not save the location default.');
+    if (success) {
+      setDefaultLocation('');
+      setDefaultAssignee(NONE);
+      setDefaultTeam(NONE);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading technicians...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-headline">Teams</CardTitle>
+          <CardDescription>Group technicians so work can be assigned to a team and shared among its members.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2 items-end">
+            <div className="space-y-1 flex-1">
+              <Label htmlFor="team-name">New team</Label>
+              <Input id="team-name" value={teamName} onChange={(e) => setTeamName(e.target.value)} placeholder="e.g. QC Lab Technicians" />
+            </div>
+            <Button onClick={handleCreateTeam} disabled={!teamName.trim() || isSaving}>
+              <Plus className="h-4 w-4 mr-1" /> Add
+            </Button>
+          </div>
+
+          <Separator />
+
+          {teams.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No teams yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {teams.map(team => (
+                <div key={team.id} className="p-3 border rounded-md space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{team.name}</span>
+                    <Button size="icon" variant="ghost" className="text-destructive" onClick={async () => notify(await deleteTeam(team.id), 'Could not delete team.')}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap gap-2 items-center">
+                    {team.memberIds.map(id => (
+                      <Badge key={id} variant="secondary" className="gap-1">
+                        {getMemberName(members, id)}
+                        <button type="button" onClick={async () => notify(await removeTeamMember(team.id, id), 'Could not remove member.')}>
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                    <Select value="" onValueChange={async (userId) => notify(await addTeamMember(team.id, userId), 'Could not add member.')}>
+                      <SelectTrigger className="w-[180px] h-8">
+                        <SelectValue placeholder="Add member" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {technicians.filter(t => !team.memberIds.includes(t.id)).map(t => (
+                          <SelectItem key={t.id} value={t.id}>{t.display_name || 'Unnamed user'}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-headline">Default Assignment by Location</CardTitle>
+          <CardDescription>
+            New schedules are assigned to their instrument&apos;s default technician or team, or else to the default for the instrument&apos;s location.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-3 md:grid-cols-[2fr_2fr_2fr_auto] items-end">
+            <div className="space-y-1">
+              <Label>Location</Label>
+              <Select value={defaultLocation} onValueChange={setDefaultLocation}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map(l => <SelectItem key={l} value={l}>{l}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Technician</Label>
+              <Select value={defaultAssignee} onValueChange={setDefaultAssignee}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>None</SelectItem>
+                  {technicians.map(t => <SelectItem key={t.id} value={t.id}>{t.display_name || 'Unnamed user'}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Team</Label>
+              <Select value={defaultTeam} onValueChange={setDefaultTeam}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>None</SelectItem>
+                  {teams.map(t => <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              onClick={handleSaveDefault}
+              disabled={isSaving || !defaultLocation || (defaultAssignee === NONE && defaultTeam === NONE)}
+            >
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save'}
+            </Button>
+          </div>
+
+          <Separator />
+
+          {locationDefaults.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No location defaults. Schedules start unassigned unless their instrument has a default.</p>
+          ) : (
+            <div className="space-y-2">
+              {locationDefaults.map(d => (
+                <div key={d.id} className="flex items-center gap-2 p-2 border rounded-md bg-card/50 text-sm">
+                  <span className="flex-1 font-medium">{d.location}</span>
+                  <span className="w-48">{getMemberName(members, d.assignee_id) || '—'}</span>
+                  <span className="w-48 text-muted-foreground">{teams.find(t => t.id === d.team_id)?.name || '—'}</span>
+                  <Button size="icon" variant="ghost" className="text-destructive" onClick={async () => notify(await deleteLocationDefault(d.id), 'Could not delete the location default.')}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { addWeeks, format, startOfWeek } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Wand2 } from 'lucide-react';
+import { useAuth } from '@/contexts/auth-context';
+import { useToast } from '@/hooks/use-toast';
+import { useTechnicians } from '@/hooks/use-technicians';
+import { supabase } from '@/lib/supabase';
+import { cn } from '@/lib/utils';
+import { formatDateFull } from '@/lib/date-utils';
+import { fetchTypePolicies } from '@/lib/compliance';
+import { CLOSED_STATUS_FILTER } from '@/lib/schedule-transitions';
+import {
+  assignSchedules,
+  buildWorkload,
+  canPerformMaintenance,
+  getMemberName,
+  getWeekKey,
+  suggestAssignments,
+  type AssignmentSuggestion,
+} from '@/lib/assignment';
+
+const WEEK_OPTIONS = { weekStartsOn: 1 as const };
+const HORIZON_OPTIONS = [4, 8, 12];
+// Weeks above this many hours are highlighted as overloaded
+const WEEKLY_CAPACITY_HOURS = 40;
+
+type WorkloadSchedule = {
+  id: string;
+  instrumentId: string;
+  eqpId: string;
+  instrumentType: string;
+  type: string;
+  templateId: string | null;
+  dueDate: string;
+  assigned_to: string | null;
+  assigned_team_id: string | null;
+  labour_seconds: number;
+};
+
+export function WorkloadView() {
+  const { hasPermission, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const { members, teams, qualifications, isLoading: techniciansLoading } = useTechnicians();
+  const [weeksAhead, setWeeksAhead] = useState(8);
+  const [schedules, setSchedules] = useState<WorkloadSchedule[]>([]);
+  const [estimates, setEstimates] = useState<Map<string, number>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [suggestions, setSuggestions] = useState<AssignmentSuggestion[] | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const canAssign = hasPermission('update_maintenance', 'edit');
+
+  const weeks = useMemo(() => {
+    const first = startOfWeek(new Date(), WEEK_OPTIONS);
+    return Array.from({ length: weeksAhead }, (_, i) => addWeeks(first, i));
+  }, [weeksAhead]);
+
+  useEffect(() => {
+    if (authLoading) return;
+
+    const fetchWorkload = async () => {
+      setIsLoading(true);
+      const end = addWeeks(weeks[0], weeksAhead);
+      const { data, error } = await supabase
+        .from('maintenanceSchedules')
+        .select('id, instrumentId, type, templateId, dueDate, assigned_to, assigned_team_id, labour_seconds')
+        .not('status', 'in', CLOSED_STATUS_FILTER)
+        .gte('dueDate', weeks[0].toISOString())
+        .lt('dueDate', end.toISOString())
+        .order('dueDate', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching workload schedules:', error);
+        setSchedules([]);
+        setIsLoading(false);
+        return;
+      }
+
+      const { data: instruments } = await supabase.from('instruments').select('id, eqpId, instrumentType');
+      const instrumentMap = new Map((instruments || []).map(i => [i.id, i]));
+      const policies = await fetchTypePolicies();
+      const nextEstimates = new Map<string, number>();
+      policies.forEach((policy, type) => {
+        if (policy.estimated_hours != null) nextEstimates.set(type, Number(policy.estimated_hours));
+      });
+
+      setEstimates(nextEstimates);
+      setSchedules((data || []).map(s => ({
+        ...s,
+        eqpId: instrumentMap.get(s.instrumentId)?.eqpId || 'Unknown',
+        instrumentType: instrumentMap.get(s.instrumentId)?.instrumentType || '',
+      })));
+      setIsLoading(false);
+    };
+
+    fetchWorkload();
+  }, [authLoading, weeks, weeksAhead, reloadKey]);
+
+  const workload = useMemo(() => buildWorkload(schedules, estimates), [schedules, estimates]);
+  const scheduleById = useMemo(() => new Map(schedules.map(s => [s.id, s])), [schedules]);
+  const technicians = useMemo(() => members.filter(canPerformMaintenance), [members]);
+
+  // Technicians first, then work only assigned to a team, then unassigned work
+  const rows = useMemo(() => [
+    ...technicians.map(t => ({ key: `user:${t.id}`, label: t.display_name || 'Unnamed user', kind: 'Technician' })),
+    ...teams.filter(t => workload.has(`team:${t.id}`)).map(t => ({ key: `team:${t.id}`, label: t.name, kind: 'Team' })),
+    ...(workload.has('unassigned') ? [{ key: 'unassigned', label: 'Unassigned', kind: '' }] : []),
+  ], [technicians, teams, workload]);
+
+  const handleSuggest = () => {
+    setSuggestions(suggestAssignments(schedules, { technicians, teams, qualifications, estimates, workload }));
+  };
+
+  const handleApply = async () => {
+    if (!suggestions) return;
+    // One update per technician and team, keeping each schedule's team so team-only work stays with it
+    const groups = new Map<string, { userId: string; teamId: string | null; ids: string[] }>();
+    suggestions.forEach(s => {
+      if (!s.userId) return;
+      const teamId = scheduleById.get(s.scheduleId)?.assigned_team_id || null;
+      const key = `${s.userId}|${teamId}`;
+      if (!groups.has(key)) groups.set(key, { userId: s.userId, teamId, ids: [] });
+      groups.get(key)!.ids.push(s.scheduleId);
+    });
+
+    setIsApplying(true);
+    let assigned = 0;
+    for (const group of groups.values()) {
+      const result = await assignSchedules(group.ids, { assigned_to: group.userId, assigned_team_id: group.teamId });
+      if (!result.success) {
+        toast({ title: 'Error', description: result.error || 'Could not apply the suggested assignments.', variant: 'destructive' });
+        setIsApplying(false);
+        setReloadKey(k => k + 1);
+        return;
+      }
+      assigned += result.count;
+    }
+    setIsApplying(false);
+    setSuggestions(null);
+    setReloadKey(k => k + 1);
+    toast({ title: 'Assignments applied', description: `${assigned} schedule(s) assigned.` });
+  };
+
+  const assignable = suggestions?.filter(s => s.userId).length || 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h1 className="text-2xl font-bold font-headline">Workload</h1>
+          <p className="text-sm text-muted-foreground">
+            Estimated hours of open maintenance per technician per week, from each maintenance type&apos;s estimated duration less any time already logged on its task steps.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={String(weeksAhead)} onValueChange={(v) => setWeeksAhead(Number(v))}>
+            <SelectTrigger className="w-[130px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {HORIZON_OPTIONS.map(n => <SelectItem key={n} value={String(n)}>Next {n} weeks</SelectItem>)}
+            </SelectContent>
+          </Select>
+          {canAssign && (
+            <Button onClick={handleSuggest} disabled={isLoading || techniciansLoading}>
+              <Wand2 className="h-4 w-4 mr-2" /> Suggest assignments
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="font-headline">Hours per Week</CardTitle>
+          <CardDescription>Each cell shows estimated hours and the number of scheduled events. Weeks start on Monday.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading || techniciansLoading ? (
+            <Skeleton className="h-48 w-full" />
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="min-w-[180px]">Assignee</TableHead>
+                    {weeks.map(w => <TableHead key={w.toISOString()} className="text-center whitespace-nowrap">{format(w, 'd MMM')}</TableHead>)}
+                    <TableHead className="text-center">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={weeks.length + 2} className="text-center text-muted-foreground">
+                        No technicians or scheduled work in this period.
+                      </TableCell>
+                    </TableRow>
+                  ) : rows.map(row => {
+                    const cells = workload.get(row.key);
+                    let totalHours = 0;
+                    cells?.forEach(c => { totalHours += c.hours; });
+                    return (
+                      <TableRow key={row.key}>
+                        <TableCell className="font-medium">
+                          {row.label}
+                          {row.kind && <Badge variant="outline" className="ml-2 text-xs">{row.kind}</Badge>}
+                        </TableCell>
+                        {weeks.map(w => {
+                          const cell = cells?.get(getWeekKey(w));
+                          return (
+                            <TableCell
+                              key={w.toISOString()}
+                              className={cn(
+                                'text-center text-sm',
+                                cell && cell.hours > WEEKLY_CAPACITY_HOURS && 'bg-destructive/10 text-destructive font-medium'
+                              )}
+                            >
+                              {cell ? (
+                                <>
+                                  <div>{cell.hours} h</div>
+                                  <div className="text-xs text-muted-foreground">{cell.count} event{cell.count === 1 ? '' : 's'}</div>
+                                </>
+                              ) : (
+                                <span className="text-muted-foreground">—</span>
+                              )}
+                            </TableCell>
+                          );
+                        })}
+                        <TableCell className="text-center font-medium">{totalHours} h</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!suggestions} onOpenChange={(open) => !open && !isApplying && setSuggestions(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Suggested assignments</DialogTitle>
+            <DialogDescription>
+              Unassigned and team-only work goes to the qualified technician with the fewest hours that week.
+            </DialogDescription>
+          </DialogHeader>
+
+          {suggestions && suggestions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">All scheduled work in this period already has a technician.</p>
+          ) : (
+            <div className="max-h-[50vh] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Due</TableHead>
+                    <TableHead>Instrument</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Suggested</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {suggestions?.map(s => {
+                    const schedule = scheduleById.get(s.scheduleId);
+                    return (
+                      <TableRow key={s.scheduleId}>
+                        <TableCell className="whitespace-nowrap">{schedule ? formatDateFull(schedule.dueDate) : ''}</TableCell>
+                        <TableCell>{schedule?.eqpId}</TableCell>
+                        <TableCell>{schedule?.type}</TableCell>
+                        <TableCell>
+                          {s.userId ? getMemberName(members, s.userId) : <span className="text-xs text-muted-foreground">{s.reason}</span>}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSuggestions(null)} disabled={isApplying}>
+              Cancel
+            </Button>
+            <Button onClick={handleApply} disabled={isApplying || assignable === 0}>
+              {isApplying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Apply {assignable} assignment{assignable === 1 ? '' : 's'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -3,6 +3,12 @@
 import { createContext, useContext, useEffect, useState, useCallback, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
+import {
+    fetchPermissionScopes,
+    getScopedPermissionLevel,
+    hasFeaturePermission,
+    type PermissionScope,
+} from '@/lib/permissions';
 import { useRouter } from 'next/navigation';
 
 export interface UserPermissions {
@@ -24,7 +30,13 @@ interface AuthContextType {
     permissions: UserPermissions;
     passwordResetRequired: boolean;
     orgId: string | null;
+    permissionScopes: PermissionScope[];
     hasPermission: (feature: keyof UserPermissions, level: 'view' | 'edit') => boolean;
+    hasInstrumentPermission: (
+        feature: keyof UserPermissions,
+        level: 'view' | 'edit',
+        instrument: { location?: string | null; instrumentType?: string | null }
+    ) => boolean;
     signInWithGoogle: () => Promise<void>;
     signInWithEmail: (email: string, password: string) => Promise<{ error: string | null }>;
     signUpWithEmail: (email: string, password: string) => Promise<{ error: string | null }>;
@@ -50,18 +62,29 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     const [isAdmin, setIsAdmin] = useState(false);
     const [displayName, setDisplayName] = useState('');
     const [permissions, setPermissions] = useState<UserPermissions>(defaultPermissions);
+    const [permissionScopes, setPermissionScopes] = useState<PermissionScope[]>([]);
     const [passwordResetRequired, setPasswordResetRequired] = useState(false);
     const [orgId, setOrgId] = useState<string | null>(null);
     const router = useRouter();
 
-    // Check if user has permission for a feature at a given level (memoized to prevent re-renders)
+    // Check if user has permission for a feature at a given level (memoized to prevent re-renders).
+    // Same rules as the database policies, so admins can do everything whatever is stored.
+    // A grant for part of the register counts, so the page is there for the instruments it covers.
     const hasPermission = useCallback((feature: keyof UserPermissions, level: 'view' | 'edit'): boolean => {
-        const userLevel = permissions[feature];
-        if (userLevel === 'hidden') return false;
-        if (level === 'view') return userLevel === 'view' || userLevel === 'edit';
-        if (level === 'edit') return userLevel === 'edit';
-        return false;
-    }, [permissions]);
+        return hasFeaturePermission({ role: isAdmin ? 'admin' : null, permissions }, feature, level)
+            || permissionScopes.some(scope => scope.feature === feature && (scope.level === 'edit' || scope.level === level));
+    }, [isAdmin, permissions, permissionScopes]);
+
+    // Permission for one instrument: the global level or a grant covering the instrument
+    const hasInstrumentPermission = useCallback((
+        feature: keyof UserPermissions,
+        level: 'view' | 'edit',
+        instrument: { location?: string | null; instrumentType?: string | null }
+    ): boolean => {
+        if (hasFeaturePermission({ role: isAdmin ? 'admin' : null, permissions }, feature, level)) return true;
+        const scoped = getScopedPermissionLevel(permissionScopes, feature, instrument);
+        return scoped === 'edit' || scoped === level;
+    }, [isAdmin, permissions, permissionScopes]);
 
     // Fetch user profile including role, permissions, display name
     // If profile doesn't exist, create it (fallback for when DB trigger doesn't fire)
@@ -79,6 +102,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             setPermissions(data.permissions || defaultPermissions);
             setPasswordResetRequired(data.password_reset_required || false);
             setOrgId(data.org_id || null);
+            setPermissionScopes(await fetchPermissionScopes());
 
             // Redirect to password reset if required
             if (data.password_reset_required && typeof window !== 'undefined' && !window.location.pathname.includes('/reset-password')) {
@@ -150,6 +174,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             console.error('[Auth] Error fetching profile:', error);
             setIsAdmin(false);
             setPermissions(defaultPermissions);
+            setPermissionScopes([]);
             setPasswordResetRequired(false);
         }
     };
@@ -194,11 +219,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
                         // Don't block - just use defaults
                         setIsAdmin(false);
                         setPermissions(defaultPermissions);
+                        setPermissionScopes([]);
                     }
                 } else if (event === 'SIGNED_OUT') {
                     // Clear profile state
                     setIsAdmin(false);
                     setPermissions(defaultPermissions);
+                    setPermissionScopes([]);
                     setDisplayName('');
                     setSession(null);
                     setUser(null);
@@ -287,7 +314,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
                 permissions,
                 passwordResetRequired,
                 orgId,
+                permissionScopes,
                 hasPermission,
+                hasInstrumentPermission,
                 signInWithGoogle,
                 signInWithEmail,
                 signUpWithEmail,
@@ -0,0 +1,62 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/auth-context';
+import { applyBlackoutToSchedules } from '@/lib/blackouts';
+import type { BlackoutPeriod } from '@/lib/types';
+
+export function useBlackoutPeriods() {
+    const [blackouts, setBlackouts] = useState<BlackoutPeriod[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const { user, orgId } = useAuth();
+
+    const fetchBlackouts = useCallback(async () => {
+        const { data, error } = await supabase
+            .from('blackout_periods')
+            .select('id, name, location_id, location, instrument_id, starts_on, ends_on, policy')
+            .order('starts_on', { ascending: false });
+        if (error) {
+            console.error('Error fetching blackout periods:', error);
+        } else {
+            setBlackouts(data || []);
+        }
+        setIsLoading(false);
+    }, []);
+
+    useEffect(() => {
+        fetchBlackouts();
+    }, [fetchBlackouts]);
+
+    /**
+     * Save a blackout and move or waive the pending schedules it already covers.
+     * Returns the number of schedules changed, or null when the blackout was not saved.
+     */
+    const addBlackout = async (blackout: Omit<BlackoutPeriod, 'id' | 'location'>) => {
+        const { data, error } = await supabase
+            .from('blackout_periods')
+            .insert({ ...blackout, org_id: orgId, created_by: user?.id })
+            .select('id, name, location_id, location, instrument_id, starts_on, ends_on, policy')
+            .single();
+        if (error || !data) {
+            console.error('Error adding blackout period:', error);
+            return null;
+        }
+        const result = await applyBlackoutToSchedules(data, orgId);
+        await fetchBlackouts();
+        return result.count;
+    };
+
+    // Schedules already moved by the blackout stay where they are
+    const deleteBlackout = async (id: string) => {
+        const { error } = await supabase.from('blackout_periods').delete().eq('id', id);
+        if (error) {
+            console.error('Error deleting blackout period:', error);
+            return false;
+        }
+        setBlackouts(prev => prev.filter(b => b.id !== id));
+        return true;
+    };
+
+    return { blackouts, isLoading, addBlackout, deleteBlackout };
+}
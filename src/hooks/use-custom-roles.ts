@@ -0,0 +1,55 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+    createCustomRole,
+    deleteCustomRole,
+    fetchCustomRoles,
+    updateCustomRole,
+    type CustomRole,
+    type CustomRoleInput,
+} from '@/lib/custom-roles';
+
+/**
+ * The organization's roles, with create, update and delete for admins
+ */
+export function useCustomRoles() {
+    const [roles, setRoles] = useState<CustomRole[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const refresh = useCallback(async () => {
+        setRoles(await fetchCustomRoles());
+        setIsLoading(false);
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const createRole = async (role: CustomRoleInput) => {
+        const result = await createCustomRole(role);
+        if (result.success) await refresh();
+        return result;
+    };
+
+    const updateRole = async (roleId: string, role: CustomRoleInput) => {
+        const result = await updateCustomRole(roleId, role);
+        if (result.success) await refresh();
+        return result;
+    };
+
+    const deleteRole = async (roleId: string) => {
+        const result = await deleteCustomRole(roleId);
+        if (result.success) setRoles(prev => prev.filter(r => r.id !== roleId));
+        return result;
+    };
+
+    return {
+        roles,
+        isLoading,
+        createRole,
+        updateRole,
+        deleteRole,
+        refresh,
+    };
+}
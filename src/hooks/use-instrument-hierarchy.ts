@@ -0,0 +1,65 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+    buildInstrumentTree,
+    fetchHierarchyHistory,
+    fetchHierarchyInstruments,
+    fetchOpenCompliance,
+    flattenInstrumentTree,
+    getAncestors,
+    setInstrumentParent,
+    type HierarchyInstrument,
+} from '@/lib/instrument-hierarchy';
+import type { ComplianceState, InstrumentHierarchyChange } from '@/lib/types';
+
+/**
+ * An instrument's place in its system: the systems above it, the modules below it and
+ * the open-maintenance compliance of each of them
+ */
+export function useInstrumentHierarchy(instrumentId: string) {
+    const [instruments, setInstruments] = useState<HierarchyInstrument[]>([]);
+    const [compliance, setCompliance] = useState<Map<string, ComplianceState>>(new Map());
+    const [history, setHistory] = useState<InstrumentHierarchyChange[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const fetchHierarchy = useCallback(async () => {
+        const all = await fetchHierarchyInstruments();
+        setInstruments(all);
+        const tree = buildInstrumentTree(instrumentId, all);
+        const ids = tree ? flattenInstrumentTree(tree).map(node => node.instrument.id) : [instrumentId];
+        const [states, moves] = await Promise.all([fetchOpenCompliance(ids), fetchHierarchyHistory(instrumentId)]);
+        setCompliance(states);
+        setHistory(moves);
+        setIsLoading(false);
+    }, [instrumentId]);
+
+    useEffect(() => {
+        fetchHierarchy();
+    }, [fetchHierarchy]);
+
+    const tree = useMemo(() => buildInstrumentTree(instrumentId, instruments), [instrumentId, instruments]);
+    const ancestors = useMemo(() => getAncestors(instrumentId, instruments), [instrumentId, instruments]);
+    const componentIds = useMemo(
+        () => (tree ? flattenInstrumentTree(tree).slice(1).map(node => node.instrument.id) : []),
+        [tree]
+    );
+
+    const moveInstrument = async (id: string, parentId: string | null) => {
+        const result = await setInstrumentParent(id, parentId);
+        if (result.success) await fetchHierarchy();
+        return result;
+    };
+
+    return {
+        instruments,
+        tree,
+        ancestors,
+        componentIds,
+        compliance,
+        history,
+        isLoading,
+        moveInstrument,
+        refresh: fetchHierarchy,
+    };
+}
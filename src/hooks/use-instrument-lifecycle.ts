@@ -0,0 +1,33 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { fetchOrgMembers } from '@/lib/assignment';
+import { fetchLifecycleHistory } from '@/lib/instrument-lifecycle';
+import type { InstrumentLifecycleTransition, OrgMember } from '@/lib/types';
+
+/**
+ * An instrument's lifecycle log, with the org members needed to name who made each change
+ */
+export function useInstrumentLifecycle(instrumentId: string) {
+    const [history, setHistory] = useState<InstrumentLifecycleTransition[]>([]);
+    const [members, setMembers] = useState<OrgMember[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const refresh = useCallback(async () => {
+        const [entries, orgMembers] = await Promise.all([fetchLifecycleHistory(instrumentId), fetchOrgMembers()]);
+        setHistory(entries);
+        setMembers(orgMembers);
+        setIsLoading(false);
+    }, [instrumentId]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    return {
+        history,
+        members,
+        isLoading,
+        refresh,
+    };
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { subDays } from 'date-fns';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/auth-context';
+import { evaluateMeterTriggers, fetchMeterReadings, recordMeterReading, USAGE_RATE_DAYS } from '@/lib/meters';
+import type { InstrumentMeter, MeterReading } from '@/lib/types';
+
+export function useInstrumentMeters(instrumentId: string) {
+    const [meters, setMeters] = useState<InstrumentMeter[]>([]);
+    const [readings, setReadings] = useState<MeterReading[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const { user, orgId } = useAuth();
+
+    const fetchMeters = useCallback(async () => {
+        const { data, error } = await supabase
+            .from('instrument_meters')
+            .select('*')
+            .eq('instrument_id', instrumentId)
+            .order('name');
+        if (error) {
+            console.error('Error fetching instrument meters:', error);
+            setIsLoading(false);
+            return;
+        }
+        setMeters(data || []);
+        // Enough history for the usage rate, including the reading before its window
+        setReadings(await fetchMeterReadings((data || []).map(m => m.id), subDays(new Date(), USAGE_RATE_DAYS * 3)));
+        setIsLoading(false);
+    }, [instrumentId]);
+
+    useEffect(() => {
+        fetchMeters();
+    }, [fetchMeters]);
+
+    const addMeter = async (name: string, unit: string, initialValue: number) => {
+        const { error } = await supabase.from('instrument_meters').insert({
+            instrument_id: instrumentId,
+            name: name.trim(),
+            unit: unit.trim() || 'hours',
+            current_value: initialValue,
+            last_reading_at: new Date().toISOString(),
+            org_id: orgId,
+            created_by: user?.id,
+        });
+        if (error) {
+            console.error('Error adding meter:', error);
+            return { success: false, error: error.code === '23505' ? 'This instrument already has a meter with that name' : error.message };
+        }
+        await fetchMeters();
+        return { success: true };
+    };
+
+    const deleteMeter = async (id: string) => {
+        const { error } = await supabase.from('instrument_meters').delete().eq('id', id);
+        if (error) {
+            console.error('Error deleting meter:', error);
+            // Configurations keep their meter until they are switched to another trigger
+            return { success: false, error: error.code === '23503' ? 'A maintenance configuration still triggers on this meter' : error.message };
+        }
+        setMeters(prev => prev.filter(m => m.id !== id));
+        return { success: true };
+    };
+
+    // Records the reading, then raises any maintenance whose threshold it crossed
+    const recordReading = async (meterId: string, value: number, options: { isReset?: boolean; notes?: string; recordedAt?: Date } = {}) => {
+        const result = await recordMeterReading(meterId, value, options);
+        if (!result.success) return { success: false, error: result.error, triggered: 0 };
+
+        let triggered = 0;
+        try {
+            const report = await evaluateMeterTriggers(supabase, { meterIds: [meterId] });
+            triggered = report.created;
+        } catch (err) {
+            console.error('Error evaluating meter triggers:', err);
+        }
+        await fetchMeters();
+        return { success: true, triggered };
+    };
+
+    return { meters, readings, isLoading, addMeter, deleteMeter, recordReading, refresh: fetchMeters };
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/auth-context';
+import { fetchLocations, flattenLocations } from '@/lib/locations';
+import type { Location, LocationLevel } from '@/lib/types';
+
+type LocationInput = { parentId: string | null; level: LocationLevel; code: string; name: string };
+
+const describeError = (error: { code?: string; message: string }) => {
+    if (error.code === '23505') return 'Another location already uses this code, or this name at the same place';
+    if (error.code === '23503') return 'Move or remove its sub-locations and instruments first';
+    return error.message;
+};
+
+/**
+ * The organization's location tree, flattened in tree order with full paths
+ */
+export function useLocations() {
+    const [locations, setLocations] = useState<Location[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const { user, orgId } = useAuth();
+
+    const refresh = useCallback(async () => {
+        setLocations(await fetchLocations());
+        setIsLoading(false);
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const options = useMemo(() => flattenLocations(locations), [locations]);
+
+    const createLocation = async ({ parentId, level, code, name }: LocationInput) => {
+        const { error } = await supabase.from('locations').insert({
+            parent_id: parentId,
+            level,
+            code: code.trim().toUpperCase(),
+            name: name.trim(),
+            org_id: orgId,
+            created_by: user?.id,
+        });
+        if (error) {
+            console.error('Error creating location:', error);
+            return { success: false, error: describeError(error) };
+        }
+        await refresh();
+        return { success: true };
+    };
+
+    // Renames and moves rewrite the stored paths of instruments and location settings in the database
+    const updateLocation = async (id: string, { parentId, level, code, name }: LocationInput) => {
+        const { error } = await supabase
+            .from('locations')
+            .update({ parent_id: parentId, level, code: code.trim().toUpperCase(), name: name.trim() })
+            .eq('id', id);
+        if (error) {
+            console.error('Error updating location:', error);
+            return { success: false, error: describeError(error) };
+        }
+        await refresh();
+        return { success: true };
+    };
+
+    const deleteLocation = async (id: string) => {
+        const { error } = await supabase.from('locations').delete().eq('id', id);
+        if (error) {
+            console.error('Error deleting location:', error);
+            return { success: false, error: describeError(error) };
+        }
+        setLocations(prev => prev.filter(l => l.id !== id));
+        return { success: true };
+    };
+
+    return {
+        locations,
+        options,
+        isLoading,
+        createLocation,
+        updateLocation,
+        deleteLocation,
+        refresh,
+    };
+}
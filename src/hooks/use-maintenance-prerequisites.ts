@@ -0,0 +1,85 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/auth-context';
+import type { MaintenancePrerequisite } from '@/lib/types';
+
+type ConfigurationSummary = { id: string; maintenance_type: string };
+
+/**
+ * The maintenance configurations of an instrument and the prerequisite links between them
+ */
+export function useMaintenancePrerequisites(instrumentId: string) {
+    const [configurations, setConfigurations] = useState<ConfigurationSummary[]>([]);
+    const [prerequisites, setPrerequisites] = useState<MaintenancePrerequisite[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const { user, orgId } = useAuth();
+
+    const fetchPrerequisites = useCallback(async () => {
+        const { data: configs, error } = await supabase
+            .from('maintenance_configurations')
+            .select('id, maintenance_type')
+            .eq('instrument_id', instrumentId)
+            .order('maintenance_type');
+        if (error) {
+            console.error('Error fetching maintenance configurations:', error);
+            setIsLoading(false);
+            return;
+        }
+        setConfigurations(configs || []);
+
+        const configIds = (configs || []).map(c => c.id);
+        if (configIds.length === 0) {
+            setPrerequisites([]);
+            setIsLoading(false);
+            return;
+        }
+        const { data, error: linkError } = await supabase
+            .from('maintenance_prerequisites')
+            .select('id, configuration_id, prerequisite_configuration_id, lag_days')
+            .in('configuration_id', configIds);
+        if (linkError) console.error('Error fetching maintenance prerequisites:', linkError);
+        setPrerequisites(data || []);
+        setIsLoading(false);
+    }, [instrumentId]);
+
+    useEffect(() => {
+        fetchPrerequisites();
+    }, [fetchPrerequisites]);
+
+    const addPrerequisite = async (configurationId: string, prerequisiteConfigurationId: string, lagDays: number) => {
+        const { error } = await supabase.from('maintenance_prerequisites').insert({
+            configuration_id: configurationId,
+            prerequisite_configuration_id: prerequisiteConfigurationId,
+            lag_days: lagDays,
+            org_id: orgId,
+            created_by: user?.id,
+        });
+        if (error) {
+            console.error('Error adding maintenance prerequisite:', error);
+            return { success: false, error: error.code === '23505' ? 'This prerequisite is already set' : error.message };
+        }
+        await fetchPrerequisites();
+        return { success: true };
+    };
+
+    const removePrerequisite = async (id: string) => {
+        const { error } = await supabase.from('maintenance_prerequisites').delete().eq('id', id);
+        if (error) {
+            console.error('Error removing maintenance prerequisite:', error);
+            return { success: false, error: error.message };
+        }
+        setPrerequisites(prev => prev.filter(p => p.id !== id));
+        return { success: true };
+    };
+
+    return {
+        configurations,
+        prerequisites,
+        isLoading,
+        addPrerequisite,
+        removePrerequisite,
+        refresh: fetchPrerequisites,
+    };
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/auth-context';
+import type { MaintenanceTypePolicy, NextDueAnchor } from '@/lib/types';
+
+export function useMaintenanceTypePolicies() {
+    const [policies, setPolicies] = useState<MaintenanceTypePolicy[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const { user, orgId } = useAuth();
+
+    const fetchPolicies = useCallback(async () => {
+        const { data, error } = await supabase
+            .from('maintenance_type_policies')
+            .select('id, maintenance_type, early_grace_days, late_grace_days, next_due_anchor, estimated_hours')
+            .order('maintenance_type');
+        if (error) {
+            console.error('Error fetching maintenance type policies:', error);
+        } else {
+            setPolicies(data || []);
+        }
+        setIsLoading(false);
+    }, []);
+
+    useEffect(() => {
+        fetchPolicies();
+    }, [fetchPolicies]);
+
+    // One policy per type and org, so saving an existing type updates it in place
+    const savePolicy = async (policy: {
+        maintenance_type: string;
+        early_grace_days: number;
+        late_grace_days: number;
+        next_due_anchor: NextDueAnchor | null;
+        estimated_hours: number | null;
+    }) => {
+        const { error } = await supabase
+            .from('maintenance_type_policies')
+            .upsert({
+                ...policy,
+                org_id: orgId,
+                created_by: user?.id,
+                updated_at: new Date().toISOString(),
+            }, { onConflict: 'org_id,maintenance_type' });
+        if (error) {
+            console.error('Error saving maintenance type policy:', error);
+            return false;
+        }
+        await fetchPolicies();
+        return true;
+    };
+
+    const deletePolicy = async (id: string) => {
+        const { error } = await supabase.from('maintenance_type_policies').delete().eq('id', id);
+        if (error) {
+            console.error('Error deleting maintenance type policy:', error);
+            return false;
+        }
+        setPolicies(prev => prev.filter(p => p.id !== id));
+        return true;
+    };
+
+    return { policies, isLoading, savePolicy, deletePolicy };
+}
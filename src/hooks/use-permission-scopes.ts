@@ -0,0 +1,53 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+    addPermissionScope,
+    fetchPermissionScopes,
+    removePermissionScope,
+    type NewPermissionScope,
+    type PermissionScope,
+} from '@/lib/permissions';
+
+/**
+ * Scoped grants of one user, for admins managing them
+ */
+export function usePermissionScopes(userId: string | null) {
+    const [scopes, setScopes] = useState<PermissionScope[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const refresh = useCallback(async () => {
+        if (!userId) {
+            setScopes([]);
+            return;
+        }
+        setIsLoading(true);
+        setScopes(await fetchPermissionScopes(userId));
+        setIsLoading(false);
+    }, [userId]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const addScope = async (scope: Omit<NewPermissionScope, 'user_id'>) => {
+        if (!userId) return { success: false, error: 'No user selected' };
+        const result = await addPermissionScope({ ...scope, user_id: userId });
+        if (result.success) await refresh();
+        return result;
+    };
+
+    const removeScope = async (scopeId: string) => {
+        const result = await removePermissionScope(scopeId);
+        if (result.success) setScopes(prev => prev.filter(s => s.id !== scopeId));
+        return result;
+    };
+
+    return {
+        scopes,
+        isLoading,
+        addScope,
+        removeScope,
+        refresh,
+    };
+}
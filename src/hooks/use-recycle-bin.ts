@@ -0,0 +1,52 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { fetchOrgMembers } from '@/lib/assignment';
+import {
+    fetchDeletedInstruments,
+    purgeInstrument as purgeDeletedInstrument,
+    restoreInstrument as restoreDeletedInstrument,
+    type DeletedInstrument,
+} from '@/lib/instrument-deletion';
+import type { OrgMember } from '@/lib/types';
+
+/**
+ * Deleted instruments of the organization, with restore and purge
+ */
+export function useRecycleBin() {
+    const [instruments, setInstruments] = useState<DeletedInstrument[]>([]);
+    const [members, setMembers] = useState<OrgMember[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const refresh = useCallback(async () => {
+        const [deleted, orgMembers] = await Promise.all([fetchDeletedInstruments(), fetchOrgMembers()]);
+        setInstruments(deleted);
+        setMembers(orgMembers);
+        setIsLoading(false);
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const restoreInstrument = async (instrumentId: string) => {
+        const result = await restoreDeletedInstrument(instrumentId);
+        if (result.success) setInstruments(prev => prev.filter(i => i.id !== instrumentId));
+        return result;
+    };
+
+    const purgeInstrument = async (instrumentId: string) => {
+        const result = await purgeDeletedInstrument(instrumentId);
+        if (result.success) setInstruments(prev => prev.filter(i => i.id !== instrumentId));
+        return result;
+    };
+
+    return {
+        instruments,
+        members,
+        isLoading,
+        restoreInstrument,
+        purgeInstrument,
+        refresh,
+    };
+}
@@ -0,0 +1,133 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/auth-context';
+import { setStepTimer, uploadStepPhoto } from '@/lib/task-steps';
+import type { MaintenanceTaskStep } from '@/lib/types';
+
+const STEP_COLUMNS = 'id, schedule_id, position, title, notes, performed_by, timer_started_at, labour_seconds, completed_at, photo_url, photo_name';
+
+/**
+ * Ordered work steps of one maintenance schedule
+ */
+export function useTaskSteps(scheduleId: string | null) {
+    const [steps, setSteps] = useState<MaintenanceTaskStep[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const { orgId } = useAuth();
+
+    const fetchSteps = useCallback(async () => {
+        if (!scheduleId) {
+            setSteps([]);
+            setIsLoading(false);
+            return;
+        }
+        const { data, error } = await supabase
+            .from('maintenance_task_steps')
+            .select(STEP_COLUMNS)
+            .eq('schedule_id', scheduleId)
+            .order('position');
+        if (error) {
+            console.error('Error fetching task steps:', error);
+        } else {
+            setSteps(data || []);
+        }
+        setIsLoading(false);
+    }, [scheduleId]);
+
+    useEffect(() => {
+        setIsLoading(true);
+        fetchSteps();
+    }, [fetchSteps]);
+
+    const replaceStep = (step: MaintenanceTaskStep) =>
+        setSteps(prev => prev.map(s => (s.id === step.id ? step : s)));
+
+    const addSteps = async (titles: string[]) => {
+        if (!scheduleId || titles.length === 0) return false;
+        const start = steps.length > 0 ? Math.max(...steps.map(s => s.position)) + 1 : 0;
+        const { error } = await supabase.from('maintenance_task_steps').insert(
+            titles.map((title, index) => ({ schedule_id: scheduleId, org_id: orgId, position: start + index, title }))
+        );
+        if (error) {
+            console.error('Error adding task steps:', error);
+            return false;
+        }
+        await fetchSteps();
+        return true;
+    };
+
+    const updateStep = async (id: string, changes: Partial<Pick<MaintenanceTaskStep, 'title' | 'notes' | 'completed_at' | 'photo_url' | 'photo_name'>>) => {
+        const { data, error } = await supabase
+            .from('maintenance_task_steps')
+            .update({ ...changes, updated_at: new Date().toISOString() })
+            .eq('id', id)
+            .select(STEP_COLUMNS)
+            .single();
+        if (error || !data) {
+            console.error('Error updating task step:', error);
+            return false;
+        }
+        replaceStep(data);
+        return true;
+    };
+
+    const removeStep = async (id: string) => {
+        const { error } = await supabase.from('maintenance_task_steps').delete().eq('id', id);
+        if (error) {
+            console.error('Error removing task step:', error);
+            return false;
+        }
+        setSteps(prev => prev.filter(s => s.id !== id));
+        return true;
+    };
+
+    // Swap positions with the neighbouring step
+    const moveStep = async (id: string, direction: -1 | 1) => {
+        const index = steps.findIndex(s => s.id === id);
+        const other = steps[index + direction];
+        if (index < 0 || !other) return false;
+        const step = steps[index];
+        const results = await Promise.all([
+            supabase.from('maintenance_task_steps').update({ position: other.position }).eq('id', step.id),
+            supabase.from('maintenance_task_steps').update({ position: step.position }).eq('id', other.id),
+        ]);
+        const failed = results.find(r => r.error);
+        if (failed) console.error('Error reordering task steps:', failed.error);
+        await fetchSteps();
+        return !failed;
+    };
+
+    const toggleTimer = async (step: MaintenanceTaskStep) => {
+        const updated = await setStepTimer(step.id, !step.timer_started_at);
+        if (!updated) return false;
+        replaceStep(updated);
+        return true;
+    };
+
+    // Completing a step stops its timer first so the time is logged
+    const setCompleted = async (step: MaintenanceTaskStep, completed: boolean) => {
+        if (completed && step.timer_started_at && !(await setStepTimer(step.id, false))) return false;
+        return updateStep(step.id, { completed_at: completed ? new Date().toISOString() : null });
+    };
+
+    const attachPhoto = async (step: MaintenanceTaskStep, file: File) => {
+        if (!scheduleId) return false;
+        const photo = await uploadStepPhoto(file, scheduleId);
+        if (!photo) return false;
+        return updateStep(step.id, { photo_url: photo.url, photo_name: photo.name });
+    };
+
+    return {
+        steps,
+        isLoading,
+        addSteps,
+        updateStep,
+        removeStep,
+        moveStep,
+        toggleTimer,
+        setCompleted,
+        attachPhoto,
+        refresh: fetchSteps,
+    };
+}
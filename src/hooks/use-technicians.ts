@@ -0,0 +1,141 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/auth-context';
+import { fetchLocationDefaults, fetchOrgMembers, fetchTeams } from '@/lib/assignment';
+import { fetchQualifications } from '@/lib/qualifications';
+import type { LocationAssignmentDefault, OrgMember, Team, UserQualification } from '@/lib/types';
+
+/**
+ * Org members, teams, qualifications and location defaults used for assigning work
+ */
+export function useTechnicians() {
+    const [members, setMembers] = useState<OrgMember[]>([]);
+    const [teams, setTeams] = useState<Team[]>([]);
+    const [qualifications, setQualifications] = useState<UserQualification[]>([]);
+    const [locationDefaults, setLocationDefaults] = useState<LocationAssignmentDefault[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const { user, orgId } = useAuth();
+
+    const fetchAll = useCallback(async () => {
+        const [memberRows, teamRows, qualificationRows, defaultRows] = await Promise.all([
+            fetchOrgMembers(),
+            fetchTeams(),
+            fetchQualifications(),
+            fetchLocationDefaults(),
+        ]);
+        setMembers(memberRows);
+        setTeams(teamRows);
+        setQualifications(qualificationRows);
+        setLocationDefaults(defaultRows);
+        setIsLoading(false);
+    }, []);
+
+    useEffect(() => {
+        fetchAll();
+    }, [fetchAll]);
+
+    const createTeam = async (name: string) => {
+        const { error } = await supabase.from('teams').insert({ name: name.trim(), org_id: orgId, created_by: user?.id });
+        if (error) {
+            console.error('Error creating team:', error);
+            return false;
+        }
+        setTeams(await fetchTeams());
+        return true;
+    };
+
+    const deleteTeam = async (id: string) => {
+        const { error } = await supabase.from('teams').delete().eq('id', id);
+        if (error) {
+            console.error('Error deleting team:', error);
+            return false;
+        }
+        setTeams(prev => prev.filter(t => t.id !== id));
+        return true;
+    };
+
+    const addTeamMember = async (teamId: string, userId: string) => {
+        const { error } = await supabase.from('team_members').insert({ team_id: teamId, user_id: userId, org_id: orgId });
+        if (error) {
+            console.error('Error adding team member:', error);
+            return false;
+        }
+        setTeams(prev => prev.map(t => (t.id === teamId ? { ...t, memberIds: [...t.memberIds, userId] } : t)));
+        return true;
+    };
+
+    const removeTeamMember = async (teamId: string, userId: string) => {
+        const { error } = await supabase.from('team_members').delete().eq('team_id', teamId).eq('user_id', userId);
+        if (error) {
+            console.error('Error removing team member:', error);
+            return false;
+        }
+        setTeams(prev => prev.map(t => (t.id === teamId ? { ...t, memberIds: t.memberIds.filter(id => id !== userId) } : t)));
+        return true;
+    };
+
+    // Renewing a qualification updates its record rather than adding another
+    const saveQualification = async (qualification: Omit<UserQualification, 'id'>, id?: string) => {
+        const { error } = id
+            ? await supabase.from('user_qualifications').update(qualification).eq('id', id)
+            : await supabase.from('user_qualifications').insert({ ...qualification, org_id: orgId, created_by: user?.id });
+        if (error) {
+            console.error('Error saving qualification:', error);
+            return false;
+        }
+        setQualifications(await fetchQualifications());
+        return true;
+    };
+
+    const removeQualification = async (id: string) => {
+        const { error } = await supabase.from('user_qualifications').delete().eq('id', id);
+        if (error) {
+            console.error('Error removing qualification:', error);
+            return false;
+        }
+        setQualifications(prev => prev.filter(q => q.id !== id));
+        return true;
+    };
+
+    // One default per location, so saving an existing location replaces it
+    const saveLocationDefault = async (location: string, assigneeId: string | null, teamId: string | null) => {
+        const { error } = await supabase
+            .from('location_assignment_defaults')
+            .upsert({ location, assignee_id: assigneeId, team_id: teamId, org_id: orgId }, { onConflict: 'org_id,location' });
+        if (error) {
+            console.error('Error saving location assignment default:', error);
+            return false;
+        }
+        setLocationDefaults(await fetchLocationDefaults());
+        return true;
+    };
+
+    const deleteLocationDefault = async (id: string) => {
+        const { error } = await supabase.from('location_assignment_defaults').delete().eq('id', id);
+        if (error) {
+            console.error('Error deleting location assignment default:', error);
+            return false;
+        }
+        setLocationDefaults(prev => prev.filter(d => d.id !== id));
+        return true;
+    };
+
+    return {
+        members,
+        teams,
+        qualifications,
+        locationDefaults,
+        isLoading,
+        createTeam,
+        deleteTeam,
+        addTeamMember,
+        removeTeamMember,
+        saveQualification,
+        removeQualification,
+        saveLocationDefault,
+        deleteLocationDefault,
+        refresh: fetchAll,
+    };
+}
@@ -0,0 +1,145 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/auth-context';
+import type { Holiday } from '@/lib/working-calendar';
+
+export type WorkingCalendarRecord = {
+    id: string;
+    name: string;
+    location_id: string | null;
+    location: string | null; // Path of location_id, kept by the database
+    weekly_off_days: number[];
+    holidays: { id: string; holiday_date: string; name: string | null }[];
+};
+
+export function useWorkingCalendars() {
+    const [calendars, setCalendars] = useState<WorkingCalendarRecord[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    // The zone the scheduled jobs plan due dates in; null until an admin sets one
+    const [timeZone, setTimeZone] = useState<string | null>(null);
+    const { user, orgId } = useAuth();
+
+    const fetchCalendars = useCallback(async () => {
+        const { data, error } = await supabase
+            .from('working_calendars')
+            .select('id, name, location_id, location, weekly_off_days, holidays:calendar_holidays(id, holiday_date, name)')
+            .order('location', { ascending: true, nullsFirst: true });
+        if (error) {
+            console.error('Error fetching working calendars:', error);
+        } else {
+            setCalendars((data || []).map(c => ({
+                ...c,
+                holidays: [...(c.holidays || [])].sort((a, b) => a.holiday_date.localeCompare(b.holiday_date)),
+            })));
+        }
+        setIsLoading(false);
+    }, []);
+
+    useEffect(() => {
+        fetchCalendars();
+    }, [fetchCalendars]);
+
+    useEffect(() => {
+        if (!orgId) return;
+        const fetchTimeZone = async () => {
+            const { data, error } = await supabase.from('organizations').select('timezone').eq('id', orgId).single();
+            if (error) {
+                console.error('Error fetching organization time zone:', error);
+                return;
+            }
+            setTimeZone(data?.timezone || null);
+        };
+        fetchTimeZone();
+    }, [orgId]);
+
+    const updateTimeZone = async (value: string) => {
+        const { data, error } = await supabase
+            .from('organizations')
+            .update({ timezone: value, updated_at: new Date().toISOString() })
+            .eq('id', orgId)
+            .select('id');
+        // Only admins may update the organization; RLS turns anyone else's update into a no-op
+        if (error || !data?.length) {
+            console.error('Error updating organization time zone:', error);
+            return false;
+        }
+        setTimeZone(value);
+        return true;
+    };
+
+    const createCalendar = async (name: string, locationId: string | null) => {
+        const { error } = await supabase.from('working_calendars').insert({
+            name,
+            location_id: locationId,
+            org_id: orgId,
+            created_by: user?.id,
+            weekly_off_days: [0],
+        });
+        if (error) {
+            console.error('Error creating working calendar:', error);
+            return false;
+        }
+        await fetchCalendars();
+        return true;
+    };
+
+    const updateOffDays = async (id: string, weeklyOffDays: number[]) => {
+        const { error } = await supabase
+            .from('working_calendars')
+            .update({ weekly_off_days: weeklyOffDays, updated_at: new Date().toISOString() })
+            .eq('id', id);
+        if (error) {
+            console.error('Error updating off-days:', error);
+            return false;
+        }
+        setCalendars(prev => prev.map(c => (c.id === id ? { ...c, weekly_off_days: weeklyOffDays } : c)));
+        return true;
+    };
+
+    const deleteCalendar = async (id: string) => {
+        const { error } = await supabase.from('working_calendars').delete().eq('id', id);
+        if (error) {
+            console.error('Error deleting working calendar:', error);
+            return false;
+        }
+        setCalendars(prev => prev.filter(c => c.id !== id));
+        return true;
+    };
+
+    // Upsert so re-importing the same file does not create duplicates
+    const addHolidays = async (calendarId: string, holidays: Holiday[]) => {
+        if (holidays.length === 0) return 0;
+        // One row per date; Postgres rejects an upsert batch that hits the same key twice
+        const byDate = new Map(holidays.map(h => [h.date, h]));
+        const rows = Array.from(byDate.values()).map(h => ({
+            calendar_id: calendarId,
+            org_id: orgId,
+            holiday_date: h.date,
+            name: h.name,
+        }));
+        const { data, error } = await supabase
+            .from('calendar_holidays')
+            .upsert(rows, { onConflict: 'calendar_id,holiday_date' })
+            .select('id');
+        if (error) {
+            console.error('Error saving holidays:', error);
+            return null;
+        }
+        await fetchCalendars();
+        return data?.length || 0;
+    };
+
+    const deleteHoliday = async (id: string) => {
+        const { error } = await supabase.from('calendar_holidays').delete().eq('id', id);
+        if (error) {
+            console.error('Error deleting holiday:', error);
+            return false;
+        }
+        setCalendars(prev => prev.map(c => ({ ...c, holidays: c.holidays.filter(h => h.id !== id) })));
+        return true;
+    };
+
+    return { calendars, isLoading, timeZone, updateTimeZone, createCalendar, updateOffDays, deleteCalendar, addHolidays, deleteHoliday };
+}
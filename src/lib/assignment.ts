@@ -0,0 +1,219 @@
+import { format, startOfWeek } from 'date-fns';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { isQualified } from '@/lib/qualifications';
+import type { Instrument, LocationAssignmentDefault, OrgMember, Team, UserQualification } from '@/lib/types';
+
+// Used for workload when a maintenance type has no estimate
+export const DEFAULT_ESTIMATED_HOURS = 1;
+
+export type Assignment = {
+    assigned_to: string | null;
+    assigned_team_id: string | null;
+};
+
+/**
+ * Admins and anyone who can edit maintenance records can be given work
+ */
+export const canPerformMaintenance = (member: OrgMember) =>
+    member.role === 'admin' || member.permissions?.update_maintenance === 'edit';
+
+export const getMemberName = (members: OrgMember[], id?: string | null) =>
+    id ? members.find(m => m.id === id)?.display_name || 'Unknown user' : '';
+
+/**
+ * Everyone in the caller's organization, including colleagues whose profiles RLS hides
+ */
+export async function fetchOrgMembers(client: SupabaseClient = supabase): Promise<OrgMember[]> {
+    const { data, error } = await client.rpc('list_org_members');
+    if (error) {
+        console.error('Error fetching organization members:', error);
+        return [];
+    }
+    return data || [];
+}
+
+export async function fetchTeams(client: SupabaseClient = supabase): Promise<Team[]> {
+    const { data, error } = await client
+        .from('teams')
+        .select('id, name, team_members(user_id)')
+        .order('name');
+    if (error) {
+        console.error('Error fetching teams:', error);
+        return [];
+    }
+    return (data || []).map(t => ({
+        id: t.id,
+        name: t.name,
+        memberIds: (t.team_members || []).map((m: { user_id: string }) => m.user_id),
+    }));
+}
+
+export async function fetchLocationDefaults(client: SupabaseClient = supabase): Promise<LocationAssignmentDefault[]> {
+    const { data, error } = await client
+        .from('location_assignment_defaults')
+        .select('id, location, assignee_id, team_id')
+        .order('location');
+    if (error) {
+        console.error('Error fetching location assignment defaults:', error);
+        return [];
+    }
+    return data || [];
+}
+
+/**
+ * The assignment a new schedule on this instrument starts with: the instrument's own
+ * default, else its location's. Mirrors the set_schedule_default_assignment trigger,
+ * for occurrences that are only projected and not yet in the database.
+ */
+export function resolveDefaultAssignment(
+    instrument: Pick<Instrument, 'location' | 'default_assignee_id' | 'default_team_id'> | undefined,
+    locationDefaults: LocationAssignmentDefault[]
+): Assignment {
+    if (!instrument) return { assigned_to: null, assigned_team_id: null };
+    if (instrument.default_assignee_id || instrument.default_team_id) {
+        return { assigned_to: instrument.default_assignee_id || null, assigned_team_id: instrument.default_team_id || null };
+    }
+    const byLocation = locationDefaults.find(d => d.location === instrument.location);
+    return { assigned_to: byLocation?.assignee_id || null, assigned_team_id: byLocation?.team_id || null };
+}
+
+/**
+ * Assign schedules to a technician, a team, or both. Passing nulls unassigns them.
+ */
+export async function assignSchedules(
+    scheduleIds: string[],
+    assignment: Assignment
+): Promise<{ success: boolean; count: number; error?: string }> {
+    if (scheduleIds.length === 0) return { success: true, count: 0 };
+
+    const { error } = await supabase
+        .from('maintenanceSchedules')
+        .update(assignment)
+        .in('id', scheduleIds);
+
+    if (error) {
+        console.error('Error assigning schedules:', error);
+        return { success: false, count: 0, error: error.message };
+    }
+    return { success: true, count: scheduleIds.length };
+}
+
+// Weeks start on Monday, as in the maintenance calendar
+export const getWeekKey = (date: Date | string) =>
+    format(startOfWeek(new Date(date), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+
+export const getEstimatedHours = (maintenanceType: string, estimates: Map<string, number>) =>
+    estimates.get(maintenanceType) ?? DEFAULT_ESTIMATED_HOURS;
+
+/**
+ * Estimate less the labour already logged on the schedule's task steps,
+ * in quarter hours and never below zero
+ */
+export const getRemainingHours = (schedule: { type: string; labour_seconds?: number | null }, estimates: Map<string, number>) => {
+    const remaining = getEstimatedHours(schedule.type, estimates) - (schedule.labour_seconds || 0) / 3600;
+    return Math.max(0, Math.round(remaining * 4) / 4);
+};
+
+/**
+ * Row key of an assignment in the workload view: the technician when there is one,
+ * otherwise the team, otherwise unassigned
+ */
+export const getWorkloadKey = (assignment: Partial<Assignment>) =>
+    assignment.assigned_to
+        ? `user:${assignment.assigned_to}`
+        : assignment.assigned_team_id ? `team:${assignment.assigned_team_id}` : 'unassigned';
+
+export type WorkloadCell = { hours: number; count: number };
+
+type WorkloadSchedule = {
+    type: string;
+    dueDate: string;
+    labour_seconds?: number | null;
+    assigned_to?: string | null;
+    assigned_team_id?: string | null;
+};
+
+/**
+ * Remaining estimated hours (see getRemainingHours) per workload key (see getWorkloadKey) per week
+ */
+export function buildWorkload(
+    schedules: WorkloadSchedule[],
+    estimates: Map<string, number>
+): Map<string, Map<string, WorkloadCell>> {
+    const workload = new Map<string, Map<string, WorkloadCell>>();
+    schedules.forEach(s => {
+        const key = getWorkloadKey(s);
+        const week = getWeekKey(s.dueDate);
+        if (!workload.has(key)) workload.set(key, new Map());
+        const weeks = workload.get(key)!;
+        const cell = weeks.get(week) || { hours: 0, count: 0 };
+        weeks.set(week, { hours: cell.hours + getRemainingHours(s, estimates), count: cell.count + 1 });
+    });
+    return workload;
+}
+
+export type AssignmentSuggestion = {
+    scheduleId: string;
+    userId: string | null;
+    reason?: string; // Why no one was suggested
+};
+
+/**
+ * Suggest a technician for each unassigned (or team-only) schedule, soonest first.
+ * Only technicians with a current qualification for the instrument's type or the
+ * schedule's template are considered, and only members of the schedule's team when
+ * it has one. Among them, whoever has the fewest hours that week wins, then the
+ * fewest hours overall, so load evens out as suggestions accumulate.
+ */
+export function suggestAssignments(
+    schedules: (WorkloadSchedule & { id: string; instrumentType?: string | null; templateId?: string | null })[],
+    options: {
+        technicians: OrgMember[];
+        teams: Team[];
+        qualifications: UserQualification[];
+        estimates: Map<string, number>;
+        workload: Map<string, Map<string, WorkloadCell>>;
+    }
+): AssignmentSuggestion[] {
+    const weekHours = new Map<string, number>();
+    const totalHours = new Map<string, number>();
+    options.technicians.forEach(t => {
+        let total = 0;
+        options.workload.get(`user:${t.id}`)?.forEach((cell, week) => {
+            weekHours.set(`${t.id}|${week}`, cell.hours);
+            total += cell.hours;
+        });
+        totalHours.set(t.id, total);
+    });
+
+    return [...schedules]
+        .filter(s => !s.assigned_to)
+        .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime())
+        .map(s => {
+            const team = s.assigned_team_id ? options.teams.find(t => t.id === s.assigned_team_id) : undefined;
+            const candidates = options.technicians.filter(t =>
+                (!team || team.memberIds.includes(t.id)) &&
+                isQualified(options.qualifications, t.id, { instrumentType: s.instrumentType, templateId: s.templateId })
+            );
+            if (candidates.length === 0) {
+                return {
+                    scheduleId: s.id,
+                    userId: null,
+                    reason: team ? `No one in ${team.name} is qualified for ${s.instrumentType || 'this instrument'}` : `No technician is qualified for ${s.instrumentType || 'this instrument'}`,
+                };
+            }
+
+            const week = getWeekKey(s.dueDate);
+            const best = candidates.reduce((a, b) => {
+                const weekDiff = (weekHours.get(`${a.id}|${week}`) || 0) - (weekHours.get(`${b.id}|${week}`) || 0);
+                if (weekDiff !== 0) return weekDiff < 0 ? a : b;
+                return (totalHours.get(a.id) || 0) <= (totalHours.get(b.id) || 0) ? a : b;
+            });
+
+            const hours = getRemainingHours(s, options.estimates);
+            weekHours.set(`${best.id}|${week}`, (weekHours.get(`${best.id}|${week}`) || 0) + hours);
+            totalHours.set(best.id, (totalHours.get(best.id) || 0) + hours);
+            return { scheduleId: s.id, userId: best.id };
+        });
+}
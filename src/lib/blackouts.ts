@@ -0,0 +1,166 @@
+import { addDays, format, parseISO } from 'date-fns';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { getWorkingCalendar, shiftToWorkingDay, type WorkingCalendar } from '@/lib/working-calendar';
+import { fetchLocationTree, getLocationSubtreeIds, type LocationNode } from '@/lib/locations';
+import type { BlackoutPeriod, BlackoutPolicy } from '@/lib/types';
+
+export const BLACKOUT_POLICIES: { value: BlackoutPolicy; label: string; description: string }[] = [
+    { value: 'defer', label: 'Defer', description: 'Move to the first working day after the blackout' },
+    { value: 'suppress', label: 'Suppress', description: 'Do not schedule the occurrence' },
+];
+
+export const getBlackoutScopeLabel = (blackout: Pick<BlackoutPeriod, 'location' | 'instrument_id'>, eqpId?: string | null) => {
+    if (blackout.instrument_id) return `Instrument ${eqpId || ''}`.trim();
+    if (blackout.location) return `Location ${blackout.location}`;
+    return 'Organization';
+};
+
+// Overlapping or back-to-back blackouts are stepped through one at a time
+const MAX_DEFERRALS = 12;
+
+/**
+ * The blackouts that apply to one instrument: organization-wide ones, those for its
+ * location or a location it is inside, and its own. Only blackouts that have not ended
+ * yet matter for planning. `locations` is the organization's tree (fetchLocationTree).
+ */
+export function selectInstrumentBlackouts(
+    blackouts: BlackoutPeriod[],
+    instrument: { id: string; location_id?: string | null; location?: string | null },
+    locations: LocationNode[]
+): BlackoutPeriod[] {
+    return blackouts.filter(b =>
+        b.instrument_id ? b.instrument_id === instrument.id
+            : b.location_id ? !!instrument.location_id && getLocationSubtreeIds(b.location_id, locations).has(instrument.location_id)
+                // Text that never matched a location only covers instruments with the same text
+                : b.location ? b.location === instrument.location
+                    : true
+    );
+}
+
+/**
+ * Blackouts of an organization that end today or later.
+ * Pass `client` to use a server-side (service role) client instead of the browser one.
+ */
+export async function fetchBlackouts(
+    orgId: string | null | undefined,
+    client: SupabaseClient = supabase
+): Promise<BlackoutPeriod[]> {
+    let query = client
+        .from('blackout_periods')
+        .select('id, name, location_id, location, instrument_id, starts_on, ends_on, policy')
+        .gte('ends_on', format(new Date(), 'yyyy-MM-dd'));
+    query = orgId ? query.eq('org_id', orgId) : query.is('org_id', null);
+
+    const { data, error } = await query;
+    if (error) {
+        console.error('Error loading blackout periods:', error);
+        return [];
+    }
+    return data || [];
+}
+
+export async function getInstrumentBlackouts(
+    instrumentId: string,
+    orgId?: string | null,
+    client: SupabaseClient = supabase
+): Promise<BlackoutPeriod[]> {
+    const { data: instrument } = await client
+        .from('instruments')
+        .select('location, location_id, org_id')
+        .eq('id', instrumentId)
+        .single();
+
+    const blackouts = await fetchBlackouts(orgId ?? instrument?.org_id, client);
+    const locations = blackouts.some(b => b.location_id) ? await fetchLocationTree(orgId ?? instrument?.org_id, client) : [];
+    return selectInstrumentBlackouts(blackouts, { id: instrumentId, location_id: instrument?.location_id, location: instrument?.location }, locations);
+}
+
+/**
+ * Apply blackouts to a due date that is already on a working day. A deferred date moves
+ * to the day after the blackout and then onto the next working day; time of day is kept.
+ * Returns null when the occurrence is suppressed.
+ */
+export function applyBlackouts(due: Date, blackouts: BlackoutPeriod[], calendar: WorkingCalendar | null): Date | null {
+    let date = due;
+    for (let i = 0; i < MAX_DEFERRALS; i++) {
+        const day = format(date, 'yyyy-MM-dd');
+        const blackout = blackouts.find(b => b.starts_on <= day && day <= b.ends_on);
+        if (!blackout) return date;
+        if (blackout.policy === 'suppress') return null;
+
+        const resume = addDays(parseISO(blackout.ends_on), 1);
+        resume.setHours(date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds());
+        date = shiftToWorkingDay(resume, calendar, 'next');
+    }
+    return date;
+}
+
+/**
+ * Move or waive the pending schedules that a newly added blackout covers.
+ * Each change goes through transition_maintenance_schedule, so it shows in the schedule
+ * history with the 'blackout' reason and keeps its date when the series is regenerated.
+ * Schedules with recorded results keep their date.
+ */
+export async function applyBlackoutToSchedules(
+    blackout: BlackoutPeriod,
+    orgId: string | null | undefined,
+    client: SupabaseClient = supabase
+): Promise<{ success: boolean; count: number; error?: string }> {
+    let instrumentQuery = client.from('instruments').select('id, location, location_id, org_id');
+    if (blackout.instrument_id) {
+        instrumentQuery = instrumentQuery.eq('id', blackout.instrument_id);
+    } else if (blackout.location_id) {
+        const locations = await fetchLocationTree(orgId, client);
+        instrumentQuery = instrumentQuery.in('location_id', Array.from(getLocationSubtreeIds(blackout.location_id, locations)));
+    } else if (blackout.location) {
+        instrumentQuery = instrumentQuery.eq('location', blackout.location);
+    }
+    const { data: instruments, error: instrumentError } = await instrumentQuery;
+    if (instrumentError) {
+        console.error('Error loading instruments for blackout:', instrumentError);
+        return { success: false, count: 0, error: instrumentError.message };
+    }
+    const instrumentMap = new Map((instruments || []).map(i => [i.id, i]));
+    if (instrumentMap.size === 0) return { success: true, count: 0 };
+
+    const { data: schedules, error: scheduleError } = await client
+        .from('maintenanceSchedules')
+        .select('id, instrumentId, dueDate, maintenanceResults(id)')
+        .in('instrumentId', Array.from(instrumentMap.keys()))
+        .in('status', ['Scheduled', 'Rescheduled', 'Overdue'])
+        .gte('dueDate', parseISO(blackout.starts_on).toISOString())
+        .lt('dueDate', addDays(parseISO(blackout.ends_on), 1).toISOString());
+    if (scheduleError) {
+        console.error('Error loading schedules for blackout:', scheduleError);
+        return { success: false, count: 0, error: scheduleError.message };
+    }
+
+    const calendarCache = new Map<string, WorkingCalendar | null>();
+    let count = 0;
+    for (const schedule of schedules || []) {
+        if ((schedule.maintenanceResults as { id: string }[] | null)?.length) continue;
+
+        const instrument = instrumentMap.get(schedule.instrumentId)!;
+        const cacheKey = instrument.location_id || '';
+        if (!calendarCache.has(cacheKey)) {
+            calendarCache.set(cacheKey, await getWorkingCalendar(orgId ?? instrument.org_id, instrument.location_id, client));
+        }
+
+        const dueDate = applyBlackouts(new Date(schedule.dueDate), [blackout], calendarCache.get(cacheKey)!);
+        const { error } = await client.rpc('transition_maintenance_schedule', {
+            p_schedule_id: schedule.id,
+            p_to_status: dueDate ? 'Rescheduled' : 'Not Required',
+            p_reason_code: 'blackout',
+            p_reason: blackout.name,
+            p_due_date: dueDate ? dueDate.toISOString() : null,
+        });
+        if (error) {
+            console.error(`Error applying blackout to schedule ${schedule.id}:`, error);
+            continue;
+        }
+        count++;
+    }
+
+    return { success: true, count };
+}
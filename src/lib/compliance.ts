@@ -0,0 +1,93 @@
+import { addDays, endOfDay, startOfDay } from 'date-fns';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import type { ComplianceState, MaintenanceTypePolicy, NextDueAnchor } from '@/lib/types';
+
+/**
+ * Grace windows and next-due anchoring in effect for one configuration
+ */
+export type CompliancePolicy = {
+    earlyGraceDays: number;
+    lateGraceDays: number;
+    nextDueAnchor: NextDueAnchor;
+};
+
+export const COMPLIANCE_STATE_LABELS: Record<ComplianceState, string> = {
+    'upcoming': 'Upcoming',
+    'early': 'Early',
+    'in-window': 'In Window',
+    'late-in-grace': 'Late (In Grace)',
+    'out-of-compliance': 'Out of Compliance',
+};
+
+export const NEXT_DUE_ANCHORS: { value: NextDueAnchor; label: string }[] = [
+    { value: 'nominal', label: 'Nominal due date' },
+    { value: 'completion', label: 'Actual completion date' },
+];
+
+type PolicyOverrides = {
+    early_grace_days?: number | null;
+    late_grace_days?: number | null;
+    next_due_anchor?: NextDueAnchor | null;
+};
+
+/**
+ * Configuration overrides win over the maintenance type's policy.
+ * With neither, there is no grace and the series stays on its nominal dates.
+ */
+export function resolveCompliancePolicy(
+    config?: PolicyOverrides | null,
+    typePolicy?: MaintenanceTypePolicy | null
+): CompliancePolicy {
+    return {
+        earlyGraceDays: config?.early_grace_days ?? typePolicy?.early_grace_days ?? 0,
+        lateGraceDays: config?.late_grace_days ?? typePolicy?.late_grace_days ?? 0,
+        nextDueAnchor: config?.next_due_anchor ?? typePolicy?.next_due_anchor ?? 'nominal',
+    };
+}
+
+/**
+ * Whole days around the due date: the window opens at the start of the first early day
+ * and closes at the end of the last grace day.
+ */
+export function getComplianceWindow(dueDate: Date | string, policy: CompliancePolicy): { opens: Date; due: Date; closes: Date } {
+    const date = new Date(dueDate);
+    return {
+        opens: startOfDay(addDays(date, -policy.earlyGraceDays)),
+        due: endOfDay(date),
+        closes: endOfDay(addDays(date, policy.lateGraceDays)),
+    };
+}
+
+/**
+ * Completed work is judged by its completion date and open work by `now`.
+ * Open work whose window has not opened yet is 'upcoming'; 'early' is only ever
+ * work that was finished before its window.
+ */
+export function classifyCompliance(
+    dueDate: Date | string,
+    policy: CompliancePolicy,
+    completedDate?: Date | string | null,
+    now: Date = new Date()
+): ComplianceState {
+    const { opens, due, closes } = getComplianceWindow(dueDate, policy);
+    const reference = completedDate ? new Date(completedDate) : now;
+    if (reference < opens) return completedDate ? 'early' : 'upcoming';
+    if (reference <= due) return 'in-window';
+    if (reference <= closes) return 'late-in-grace';
+    return 'out-of-compliance';
+}
+
+/**
+ * The org's maintenance type policies, keyed by type name
+ */
+export async function fetchTypePolicies(client: SupabaseClient = supabase): Promise<Map<string, MaintenanceTypePolicy>> {
+    const { data, error } = await client
+        .from('maintenance_type_policies')
+        .select('id, maintenance_type, early_grace_days, late_grace_days, next_due_anchor, estimated_hours');
+    if (error) {
+        console.error('Error loading maintenance type policies:', error);
+        return new Map();
+    }
+    return new Map((data || []).map(p => [p.maintenance_type, p as MaintenanceTypePolicy]));
+}
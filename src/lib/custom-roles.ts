@@ -0,0 +1,143 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import type { UserPermissions } from '@/contexts/auth-context';
+
+/**
+ * An organization's own role with the permission matrix its members start from
+ */
+export type CustomRole = {
+    id: string;
+    name: string;
+    description: string | null;
+    permissions: UserPermissions;
+    created_at: string;
+    updated_at: string;
+};
+
+export type CustomRoleInput = Pick<CustomRole, 'name' | 'description' | 'permissions'>;
+
+/**
+ * Starting points for new roles. Admins adjust them before saving.
+ */
+export const ROLE_PRESETS: { name: string; description: string; permissions: UserPermissions }[] = [
+    {
+        name: 'QA Reviewer',
+        description: 'Reviews maintenance records and results without changing the register',
+        permissions: {
+            dashboard: 'view',
+            maintenance_history: 'edit',
+            update_maintenance: 'view',
+            instruments: 'view',
+            design_templates: 'view',
+            settings: 'hidden',
+            user_management: 'hidden',
+        },
+    },
+    {
+        name: 'Vendor Engineer',
+        description: 'Records service visits on the instruments they are shown',
+        permissions: {
+            dashboard: 'hidden',
+            maintenance_history: 'view',
+            update_maintenance: 'edit',
+            instruments: 'view',
+            design_templates: 'hidden',
+            settings: 'hidden',
+            user_management: 'hidden',
+        },
+    },
+    {
+        name: 'Lab Head',
+        description: 'Runs the lab: instruments, maintenance and lab settings',
+        permissions: {
+            dashboard: 'edit',
+            maintenance_history: 'edit',
+            update_maintenance: 'edit',
+            instruments: 'edit',
+            design_templates: 'edit',
+            settings: 'edit',
+            user_management: 'view',
+        },
+    },
+];
+
+/**
+ * Features where the user's level differs from the role's template. Mirrors permission_diff().
+ */
+export function getPermissionOverrides(
+    permissions: Partial<Record<keyof UserPermissions, string>>,
+    template: Partial<Record<keyof UserPermissions, string>>
+): Partial<Record<keyof UserPermissions, string>> {
+    const overrides: Partial<Record<keyof UserPermissions, string>> = {};
+    (Object.keys(permissions) as (keyof UserPermissions)[]).forEach(feature => {
+        if (permissions[feature] !== template[feature]) overrides[feature] = permissions[feature];
+    });
+    return overrides;
+}
+
+export async function fetchCustomRoles(client: SupabaseClient = supabase): Promise<CustomRole[]> {
+    const { data, error } = await client
+        .from('custom_roles')
+        .select('id, name, description, permissions, created_at, updated_at')
+        .order('name');
+    if (error) {
+        console.error('Error fetching roles:', error);
+        return [];
+    }
+    return data || [];
+}
+
+export async function createCustomRole(
+    role: CustomRoleInput,
+    client: SupabaseClient = supabase
+): Promise<{ success: boolean; error?: string }> {
+    const { error } = await client.from('custom_roles').insert({
+        name: role.name.trim(),
+        description: role.description?.trim() || null,
+        permissions: role.permissions,
+    });
+    if (error) {
+        console.error('Error creating role:', error);
+        return { success: false, error: error.code === '23505' ? `A role named "${role.name.trim()}" already exists` : error.message };
+    }
+    return { success: true };
+}
+
+/**
+ * Save a role. A changed template is applied to every member, keeping their overrides.
+ */
+export async function updateCustomRole(
+    roleId: string,
+    role: CustomRoleInput,
+    client: SupabaseClient = supabase
+): Promise<{ success: boolean; error?: string }> {
+    const { error } = await client
+        .from('custom_roles')
+        .update({
+            name: role.name.trim(),
+            description: role.description?.trim() || null,
+            permissions: role.permissions,
+            updated_at: new Date().toISOString(),
+        })
+        .eq('id', roleId);
+    if (error) {
+        console.error(`Error updating role ${roleId}:`, error);
+        return { success: false, error: error.code === '23505' ? `A role named "${role.name.trim()}" already exists` : error.message };
+    }
+    return { success: true };
+}
+
+/**
+ * Remove a role. Its members keep the permissions they have now.
+ */
+export async function deleteCustomRole(
+    roleId: string,
+    client: SupabaseClient = supabase
+): Promise<{ success: boolean; error?: string }> {
+    const { error } = await client.from('custom_roles').delete().eq('id', roleId);
+    if (error) {
+        console.error(`Error deleting role ${roleId}:`, error);
+        return { success: false, error: error.message };
+    }
+    return { success: true };
+}
@@ -0,0 +1,313 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { fetchAllPages, supabase } from '@/lib/supabase';
+import type { CellValue, WorksheetData } from '@/lib/spreadsheet';
+import { getLifecycleStateLabel } from '@/lib/instrument-lifecycle';
+import { getLocationSubtreeIds } from '@/lib/locations';
+import type { Location, TestSection } from '@/lib/types';
+
+export type ExportFormat = 'xlsx' | 'json';
+
+export type ExportFilters = {
+    search?: string; // Matches Eqp. ID or instrument type
+    instrumentType?: string;
+    location?: string; // Location id; includes everything inside it
+    from?: string; // yyyy-MM-dd; limits schedules (due date) and results (completed date)
+    to?: string;
+};
+
+type Row = Record<string, any>;
+
+export type ExportArchive = {
+    exportedAt: string;
+    orgId: string;
+    filters: ExportFilters;
+    instruments: Row[];
+    configurations: Row[];
+    schedules: Row[];
+    scheduleHistory: Row[];
+    results: Row[];
+    documents: Row[];
+};
+
+// The feature each part of the archive belongs to: the register and its maintenance setup are
+// 'instruments', results and the schedule audit trail are 'maintenance_history'
+export type ExportFeature = 'instruments' | 'maintenance_history';
+
+// Whether the caller may see a feature's records for one instrument (global level or a scoped grant)
+export type ExportAccess = (feature: ExportFeature, instrument: Row) => boolean;
+
+const FILTER_KEYS: (keyof ExportFilters)[] = ['search', 'instrumentType', 'location', 'from', 'to'];
+
+// Keeps `in` filters well inside URL length limits
+const ID_CHUNK_SIZE = 200;
+
+export function parseExportFilters(params: URLSearchParams): ExportFilters {
+    const filters: ExportFilters = {};
+    for (const key of FILTER_KEYS) {
+        const value = params.get(key)?.trim();
+        if (value) filters[key] = value;
+    }
+    return filters;
+}
+
+async function fetchByIds(ids: string[], fetchChunk: (chunk: string[]) => Promise<Row[]>): Promise<Row[]> {
+    const rows: Row[] = [];
+    for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+        rows.push(...(await fetchChunk(ids.slice(i, i + ID_CHUNK_SIZE))));
+    }
+    return rows;
+}
+
+/**
+ * Everything recorded for the org's instruments that match the filters. Meant for the export route,
+ * which passes a service-role client, so the org, soft deletes and the caller's permissions
+ * (`canView`) are applied here rather than by RLS. An instrument is listed when either feature
+ * covers it; each section then only holds the instruments its own feature covers.
+ */
+export async function fetchExportArchive(
+    client: SupabaseClient,
+    orgId: string,
+    filters: ExportFilters,
+    canView: ExportAccess
+): Promise<ExportArchive> {
+    let locationIds: string[] | null = null;
+    if (filters.location) {
+        const { data: locations, error } = await client.from('locations').select('id, parent_id').eq('org_id', orgId);
+        if (error) throw error;
+        locationIds = Array.from(getLocationSubtreeIds(filters.location, (locations || []) as Location[]));
+    }
+
+    const matching = await fetchAllPages((from, to) => {
+        let query = client.from('instruments').select('*').eq('org_id', orgId).is('deleted_at', null);
+        if (filters.search) {
+            const term = filters.search.replace(/[%,()]/g, ' ');
+            query = query.or(`eqpId.ilike.%${term}%,instrumentType.ilike.%${term}%`);
+        }
+        if (filters.instrumentType) query = query.eq('instrumentType', filters.instrumentType);
+        if (locationIds) query = query.in('location_id', locationIds);
+        return query.order('eqpId').range(from, to);
+    });
+    const instruments = matching.filter(i => canView('instruments', i) || canView('maintenance_history', i));
+    const instrumentIds = instruments.filter(i => canView('instruments', i)).map(i => i.id);
+    const historyIds = instruments.filter(i => canView('maintenance_history', i)).map(i => i.id);
+    const toEnd = filters.to ? `${filters.to}T23:59:59.999Z` : null;
+
+    const configurations = await fetchByIds(instrumentIds, chunk => fetchAllPages((from, to) =>
+        client.from('maintenance_configurations').select('*').in('instrument_id', chunk).is('deleted_at', null).order('id').range(from, to)
+    ));
+
+    const fetchSchedules = (ids: string[]) => fetchByIds(ids, chunk => fetchAllPages((from, to) => {
+        let query = client.from('maintenanceSchedules').select('*').in('instrumentId', chunk).is('deleted_at', null);
+        if (filters.from) query = query.gte('dueDate', filters.from);
+        if (toEnd) query = query.lte('dueDate', toEnd);
+        return query.order('dueDate').order('id').range(from, to);
+    }));
+    const schedules = await fetchSchedules(instrumentIds);
+
+    // History follows maintenance_history, so it may cover schedules the Schedules section does not
+    const scheduleInstruments = new Set(instrumentIds);
+    const historyInstruments = new Set(historyIds);
+    const historySchedules = historyIds.every(id => scheduleInstruments.has(id))
+        ? schedules.filter(s => historyInstruments.has(s.instrumentId))
+        : await fetchSchedules(historyIds);
+    const scheduleHistory = await fetchByIds(historySchedules.map(s => s.id), chunk => fetchAllPages((from, to) =>
+        client.from('maintenance_schedule_history').select('*').in('schedule_id', chunk).order('changed_at').order('id').range(from, to)
+    ));
+
+    const results = await fetchByIds(historyIds, chunk => fetchAllPages((from, to) => {
+        let query = client.from('maintenanceResults').select('*').in('instrumentId', chunk).is('deleted_at', null);
+        if (filters.from) query = query.gte('completedDate', filters.from);
+        if (toEnd) query = query.lte('completedDate', toEnd);
+        return query.order('completedDate').order('id').range(from, to);
+    }));
+
+    // Document metadata only; the files themselves stay in storage and are referenced by URL
+    const documents = await fetchByIds(instrumentIds, chunk => fetchAllPages((from, to) =>
+        client.from('maintenance_documents').select('*').in('instrument_id', chunk).is('deleted_at', null).order('created_at').order('id').range(from, to)
+    ));
+
+    return {
+        exportedAt: new Date().toISOString(),
+        orgId,
+        filters,
+        instruments,
+        configurations,
+        schedules,
+        scheduleHistory,
+        results,
+        documents,
+    };
+}
+
+function sheet(name: string, rows: Row[], columns: [string, (row: Row) => CellValue][]): WorksheetData {
+    return {
+        name,
+        rows: [columns.map(([header]) => header), ...rows.map(row => columns.map(([, value]) => value(row)))],
+    };
+}
+
+const field = (key: string) => (row: Row): CellValue => {
+    const value = row[key];
+    return value === null || value === undefined || typeof value === 'object' ? value ?? null : value;
+};
+
+/**
+ * One row per measured or checked line of each result's testData
+ */
+export function flattenMeasurements(results: Row[], eqpIds: Map<string, string>): Row[] {
+    return results.flatMap(result => ((result.testData as TestSection[] | null) || []).flatMap(section =>
+        (section.rows || []).map(row => ({
+            resultId: result.id,
+            eqpId: eqpIds.get(result.instrumentId) || '',
+            completedDate: result.completedDate,
+            section: section.title,
+            sectionType: section.type,
+            tolerance: section.tolerance ?? null,
+            label: row.label,
+            reference: row.reference ?? null,
+            min: row.min ?? null,
+            max: row.max ?? null,
+            unit: row.unit || section.unit || null,
+            measured: row.measured ?? null,
+            error: row.error ?? null,
+            passed: section.type === 'checklist' ? row.checked ?? row.passed ?? null : row.passed ?? null,
+        }))
+    ));
+}
+
+/**
+ * The archive as worksheets, one per entity, for management reviews
+ */
+export function buildExportWorkbook(archive: ExportArchive): WorksheetData[] {
+    const eqpIds = new Map(archive.instruments.map(i => [i.id as string, i.eqpId as string]));
+    const schedulesById = new Map(archive.schedules.map(s => [s.id as string, s]));
+    const eqpId = (key: string) => (row: Row): CellValue => eqpIds.get(row[key]) || '';
+
+    return [
+        sheet('Instruments', archive.instruments, [
+            ['Eqp. ID', field('eqpId')],
+            ['Type', field('instrumentType')],
+            ['Make', field('make')],
+            ['Model', field('model')],
+            ['Serial Number', field('serialNumber')],
+            ['Location', field('location')],
+            ['Part Of', eqpId('parent_id')],
+            ['Status', field('status')],
+            ['Lifecycle', (row: Row) => getLifecycleStateLabel(row.lifecycle_state)],
+            ['Maintenance By', field('maintenanceBy')],
+            ['Vendor', field('vendorName')],
+            ['Vendor Contact', field('vendorContact')],
+            ['Next Maintenance', field('nextMaintenanceDate')],
+            ['ID', field('id')],
+        ]),
+        sheet('Configurations', archive.configurations, [
+            ['Eqp. ID', eqpId('instrument_id')],
+            ['Maintenance Type', field('maintenance_type')],
+            ['Frequency', field('frequency')],
+            ['Recurrence Rule', field('recurrence_rule')],
+            ['Start Date', field('schedule_date')],
+            ['Non-Working Day', field('non_working_day_shift')],
+            ['Maintenance By', field('maintenanceBy')],
+            ['Vendor', field('vendorName')],
+            ['Template ID', field('template_id')],
+            ['Suspended At', field('suspended_at')],
+            ['Archived At', field('archived_at')],
+            ['ID', field('id')],
+        ]),
+        sheet('Schedules', archive.schedules, [
+            ['Eqp. ID', eqpId('instrumentId')],
+            ['Type', field('type')],
+            ['Due Date', field('dueDate')],
+            ['Nominal Due Date', field('nominal_due_date')],
+            ['Status', field('status')],
+            ['Completed Date', field('completedDate')],
+            ['Description', field('description')],
+            ['Maintenance By', field('maintenanceBy')],
+            ['Vendor', field('vendorName')],
+            ['Labour (h)', row => row.labour_seconds ? Math.round(row.labour_seconds / 36) / 100 : null],
+            ['Notes', field('notes')],
+            ['ID', field('id')],
+        ]),
+        sheet('Schedule History', archive.scheduleHistory, [
+            ['Eqp. ID', row => eqpIds.get(schedulesById.get(row.schedule_id)?.instrumentId) || ''],
+            ['Type', row => schedulesById.get(row.schedule_id)?.type ?? null],
+            ['Changed At', field('changed_at')],
+            ['Action', field('action')],
+            ['From Status', field('from_status')],
+            ['To Status', field('to_status')],
+            ['From Due Date', field('from_due_date')],
+            ['To Due Date', field('to_due_date')],
+            ['Reason Code', field('reason_code')],
+            ['Reason', field('reason')],
+            ['Schedule ID', field('schedule_id')],
+        ]),
+        sheet('Results', archive.results, [
+            ['Eqp. ID', eqpId('instrumentId')],
+            ['Completed Date', field('completedDate')],
+            ['Result Type', field('resultType')],
+            ['Notes', field('notes')],
+            ['Document', field('documentUrl')],
+            ['Schedule ID', field('maintenanceScheduleId')],
+            ['ID', field('id')],
+        ]),
+        sheet('Measurements', flattenMeasurements(archive.results, eqpIds), [
+            ['Eqp. ID', field('eqpId')],
+            ['Completed Date', field('completedDate')],
+            ['Section', field('section')],
+            ['Section Type', field('sectionType')],
+            ['Tolerance', field('tolerance')],
+            ['Label', field('label')],
+            ['Reference', field('reference')],
+            ['Min', field('min')],
+            ['Max', field('max')],
+            ['Unit', field('unit')],
+            ['Measured', field('measured')],
+            ['Error', field('error')],
+            ['Passed', field('passed')],
+            ['Result ID', field('resultId')],
+        ]),
+        sheet('Documents', archive.documents, [
+            ['Eqp. ID', eqpId('instrument_id')],
+            ['Title', field('title')],
+            ['Type', field('document_type')],
+            ['Description', field('description')],
+            ['URL', field('document_url')],
+            ['Uploaded', field('created_at')],
+            ['Schedule ID', field('maintenance_schedule_id')],
+        ]),
+    ];
+}
+
+/**
+ * Ask the export route for a file and hand it to the browser as a download
+ */
+export async function downloadExport(format: ExportFormat, filters: ExportFilters, client: SupabaseClient = supabase): Promise<{ success: boolean; error?: string }> {
+    const { data: { session } } = await client.auth.getSession();
+    const params = new URLSearchParams({ format });
+    for (const key of FILTER_KEYS) {
+        const value = filters[key]?.trim();
+        if (value) params.set(key, value);
+    }
+
+    try {
+        const response = await fetch(`/api/export?${params}`, {
+            headers: { Authorization: `Bearer ${session?.access_token}` },
+        });
+        if (!response.ok) {
+            const data = await response.json().catch(() => ({}));
+            return { success: false, error: data.error || 'The export failed.' };
+        }
+
+        const fileName = /filename="([^"]+)"/.exec(response.headers.get('content-disposition') || '')?.[1] || `export.${format}`;
+        const url = URL.createObjectURL(await response.blob());
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        URL.revokeObjectURL(url);
+        return { success: true };
+    } catch (err: any) {
+        console.error('Error downloading export:', err);
+        return { success: false, error: err.message };
+    }
+}
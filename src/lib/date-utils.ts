@@ -32,3 +32,47 @@ export const formatDateFull = (date: Date | string): string => {
   const d = typeof date === 'string' ? new Date(date) : date;
   return format(d, 'EEEE, d MMM yyyy'); // e.g., "Thursday, 12 Dec 2025"
 };
+
+// Year, month (0-based), day, hour, minute and second of an instant on the wall clock of timeZone
+const zonedFields = (date: Date, timeZone: string): number[] => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+  const field = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  return [field('year'), field('month') - 1, field('day'), field('hour'), field('minute'), field('second')];
+};
+
+/**
+ * The wall-clock time of an instant in timeZone, as a Date whose local fields hold it.
+ * Lets server code plan calendar days for an organization with the same local-time
+ * helpers the browser uses, whatever zone the server itself runs in.
+ */
+export const toZonedTime = (date: Date, timeZone: string): Date => {
+  const [year, month, day, hour, minute, second] = zonedFields(date, timeZone);
+  return new Date(year, month, day, hour, minute, second, date.getMilliseconds());
+};
+
+/**
+ * The instant at which the wall clock in timeZone shows the local fields of zoned.
+ * Inverse of toZonedTime.
+ */
+export const fromZonedTime = (zoned: Date, timeZone: string): Date => {
+  const wallClock = Date.UTC(
+    zoned.getFullYear(), zoned.getMonth(), zoned.getDate(),
+    zoned.getHours(), zoned.getMinutes(), zoned.getSeconds(), zoned.getMilliseconds()
+  );
+  const offsetAt = (time: number) => {
+    const [year, month, day, hour, minute, second] = zonedFields(new Date(time), timeZone);
+    return Date.UTC(year, month, day, hour, minute, second) - (time - (((time % 1000) + 1000) % 1000));
+  };
+  // Second pass settles instants next to a daylight saving change
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+};
@@ -0,0 +1,132 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+
+/**
+ * What deleting an instrument takes with it. Components are counted but not deleted:
+ * they stay in the register and show up again under the system if it is restored.
+ */
+export type DeletionImpact = {
+    configurations: number;
+    schedules: number;
+    results: number;
+    documents: number;
+    components: number;
+};
+
+export type DeletedInstrument = {
+    id: string;
+    eqpId: string;
+    instrumentType: string;
+    location: string;
+    deleted_at: string;
+    deleted_by: string | null;
+    schedules: number;
+    results: number;
+    documents: number;
+};
+
+/**
+ * Exact counts of the records a deletion of this instrument would hide
+ */
+export async function fetchDeletionImpact(
+    instrumentId: string,
+    client: SupabaseClient = supabase
+): Promise<DeletionImpact | null> {
+    const count = (table: string, column: string) =>
+        client.from(table).select('id', { count: 'exact', head: true }).eq(column, instrumentId);
+
+    const [configurations, schedules, results, documents, components] = await Promise.all([
+        count('maintenance_configurations', 'instrument_id'),
+        count('maintenanceSchedules', 'instrumentId'),
+        count('maintenanceResults', 'instrumentId'),
+        count('maintenance_documents', 'instrument_id'),
+        count('instruments', 'parent_id'),
+    ]);
+
+    const failed = [configurations, schedules, results, documents, components].find(r => r.error);
+    if (failed) {
+        console.error('Error counting records affected by deletion:', failed.error);
+        return null;
+    }
+
+    return {
+        configurations: configurations.count || 0,
+        schedules: schedules.count || 0,
+        results: results.count || 0,
+        documents: documents.count || 0,
+        components: components.count || 0,
+    };
+}
+
+/**
+ * Move an instrument and everything recorded against it to the recycle bin
+ */
+export async function softDeleteInstrument(
+    instrumentId: string,
+    client: SupabaseClient = supabase
+): Promise<{ success: boolean; error?: string }> {
+    const { error } = await client.rpc('soft_delete_instrument', { p_instrument_id: instrumentId });
+    if (error) {
+        console.error(`Error deleting instrument ${instrumentId}:`, error);
+        return { success: false, error: error.message };
+    }
+    return { success: true };
+}
+
+/**
+ * Take a maintenance configuration off its instrument. Occurrences nobody has started go with it;
+ * completed, skipped and started ones stay on record.
+ */
+export async function removeMaintenanceConfiguration(
+    configurationId: string,
+    client: SupabaseClient = supabase
+): Promise<{ success: boolean; error?: string }> {
+    const { error } = await client.rpc('remove_maintenance_configuration', { p_configuration_id: configurationId });
+    if (error) {
+        console.error(`Error removing maintenance configuration ${configurationId}:`, error);
+        return { success: false, error: error.message };
+    }
+    return { success: true };
+}
+
+/**
+ * The organization's recycle bin, most recently deleted first. Admins only; empty for anyone else.
+ */
+export async function fetchDeletedInstruments(client: SupabaseClient = supabase): Promise<DeletedInstrument[]> {
+    const { data, error } = await client.rpc('list_deleted_instruments');
+    if (error) {
+        console.error('Error fetching deleted instruments:', error);
+        return [];
+    }
+    return data || [];
+}
+
+/**
+ * Bring a deleted instrument back with the records that were deleted along with it
+ */
+export async function restoreInstrument(
+    instrumentId: string,
+    client: SupabaseClient = supabase
+): Promise<{ success: boolean; error?: string }> {
+    const { error } = await client.rpc('restore_instrument', { p_instrument_id: instrumentId });
+    if (error) {
+        console.error(`Error restoring instrument ${instrumentId}:`, error);
+        return { success: false, error: error.message };
+    }
+    return { success: true };
+}
+
+/**
+ * Permanently remove a deleted instrument and all of its records. Cannot be undone.
+ */
+export async function purgeInstrument(
+    instrumentId: string,
+    client: SupabaseClient = supabase
+): Promise<{ success: boolean; error?: string }> {
+    const { error } = await client.rpc('purge_instrument', { p_instrument_id: instrumentId });
+    if (error) {
+        console.error(`Error purging instrument ${instrumentId}:`, error);
+        return { success: false, error: error.message };
+    }
+    return { success: true };
+}
@@ -0,0 +1,177 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { classifyCompliance, fetchTypePolicies, resolveCompliancePolicy } from '@/lib/compliance';
+import { CLOSED_STATUS_FILTER } from '@/lib/schedule-transitions';
+import type { ComplianceState, Instrument, InstrumentHierarchyChange, InstrumentStatus } from '@/lib/types';
+
+export type HierarchyInstrument = Pick<Instrument, 'id' | 'eqpId' | 'make' | 'model' | 'instrumentType' | 'status' | 'parent_id'>;
+
+export type InstrumentTreeNode = {
+    instrument: HierarchyInstrument;
+    depth: number;
+    children: InstrumentTreeNode[];
+};
+
+// A system is only as available as its least available module
+const STATUS_SEVERITY: Record<InstrumentStatus, number> = {
+    'Operational': 0,
+    'AMC': 1,
+    'PM': 2,
+    'Out of Service': 3,
+};
+
+const COMPLIANCE_SEVERITY: Record<ComplianceState, number> = {
+    'upcoming': 0,
+    'early': 0,
+    'in-window': 1,
+    'late-in-grace': 2,
+    'out-of-compliance': 3,
+};
+
+export function rollUpStatus(statuses: (InstrumentStatus | null | undefined)[]): InstrumentStatus {
+    return statuses.reduce<InstrumentStatus>((worst, status) => {
+        const current = status || 'Operational';
+        return STATUS_SEVERITY[current] > STATUS_SEVERITY[worst] ? current : worst;
+    }, 'Operational');
+}
+
+export function rollUpCompliance(states: (ComplianceState | undefined)[]): ComplianceState | null {
+    return states.reduce<ComplianceState | null>((worst, state) => {
+        if (!state) return worst;
+        return !worst || COMPLIANCE_SEVERITY[state] > COMPLIANCE_SEVERITY[worst] ? state : worst;
+    }, null);
+}
+
+export async function fetchHierarchyInstruments(client: SupabaseClient = supabase): Promise<HierarchyInstrument[]> {
+    const { data, error } = await client
+        .from('instruments')
+        .select('id, eqpId, make, model, instrumentType, status, parent_id')
+        .order('eqpId');
+    if (error) {
+        console.error('Error fetching instrument hierarchy:', error);
+        return [];
+    }
+    return data || [];
+}
+
+/**
+ * The systems an instrument is installed in, nearest first
+ */
+export function getAncestors(instrumentId: string, instruments: HierarchyInstrument[]): HierarchyInstrument[] {
+    const byId = new Map(instruments.map(i => [i.id, i]));
+    const ancestors: HierarchyInstrument[] = [];
+    let parentId = byId.get(instrumentId)?.parent_id;
+    // The database rejects cycles; the length check only guards against stale data
+    while (parentId && ancestors.length < instruments.length) {
+        const parent = byId.get(parentId);
+        if (!parent) break;
+        ancestors.push(parent);
+        parentId = parent.parent_id;
+    }
+    return ancestors;
+}
+
+export function buildInstrumentTree(rootId: string, instruments: HierarchyInstrument[]): InstrumentTreeNode | null {
+    const root = instruments.find(i => i.id === rootId);
+    if (!root) return null;
+
+    const childrenOf = new Map<string, HierarchyInstrument[]>();
+    for (const instrument of instruments) {
+        if (!instrument.parent_id) continue;
+        childrenOf.set(instrument.parent_id, [...(childrenOf.get(instrument.parent_id) || []), instrument]);
+    }
+
+    const visited = new Set<string>();
+    const build = (instrument: HierarchyInstrument, depth: number): InstrumentTreeNode => {
+        visited.add(instrument.id);
+        return {
+            instrument,
+            depth,
+            children: (childrenOf.get(instrument.id) || [])
+                .filter(child => !visited.has(child.id))
+                .map(child => build(child, depth + 1)),
+        };
+    };
+    return build(root, 0);
+}
+
+/**
+ * Every instrument in the tree, the root first
+ */
+export function flattenInstrumentTree(node: InstrumentTreeNode): InstrumentTreeNode[] {
+    return [node, ...node.children.flatMap(flattenInstrumentTree)];
+}
+
+/**
+ * Worst compliance state of each instrument's open maintenance, judged as of now.
+ * Instruments with nothing open are left out.
+ */
+export async function fetchOpenCompliance(
+    instrumentIds: string[],
+    client: SupabaseClient = supabase
+): Promise<Map<string, ComplianceState>> {
+    const states = new Map<string, ComplianceState>();
+    if (instrumentIds.length === 0) return states;
+
+    const [{ data: schedules, error }, { data: configs }, typePolicies] = await Promise.all([
+        client
+            .from('maintenanceSchedules')
+            .select('instrumentId, type, dueDate')
+            .in('instrumentId', instrumentIds)
+            .not('status', 'in', CLOSED_STATUS_FILTER),
+        client
+            .from('maintenance_configurations')
+            .select('instrument_id, maintenance_type, early_grace_days, late_grace_days, next_due_anchor')
+            .in('instrument_id', instrumentIds),
+        fetchTypePolicies(client),
+    ]);
+    if (error) {
+        console.error('Error fetching open maintenance for compliance:', error);
+        return states;
+    }
+
+    const configMap = new Map((configs || []).map(c => [`${c.instrument_id}_${c.maintenance_type}`, c]));
+    const now = new Date();
+    for (const schedule of schedules || []) {
+        const policy = resolveCompliancePolicy(configMap.get(`${schedule.instrumentId}_${schedule.type}`), typePolicies.get(schedule.type));
+        const worst = rollUpCompliance([states.get(schedule.instrumentId), classifyCompliance(schedule.dueDate, policy, null, now)]);
+        if (worst) states.set(schedule.instrumentId, worst);
+    }
+    return states;
+}
+
+/**
+ * Installs an instrument in a system, or makes it standalone with a null parent.
+ * Its schedules and results stay with it; the database logs the move.
+ */
+export async function setInstrumentParent(
+    instrumentId: string,
+    parentId: string | null,
+    client: SupabaseClient = supabase
+): Promise<{ success: boolean; error?: string }> {
+    const { error } = await client
+        .from('instruments')
+        .update({ parent_id: parentId })
+        .eq('id', instrumentId);
+    if (error) {
+        console.error('Error moving instrument:', error);
+        return { success: false, error: error.message };
+    }
+    return { success: true };
+}
+
+export async function fetchHierarchyHistory(
+    instrumentId: string,
+    client: SupabaseClient = supabase
+): Promise<InstrumentHierarchyChange[]> {
+    const { data, error } = await client
+        .from('instrument_hierarchy_history')
+        .select('id, instrument_id, from_parent_id, to_parent_id, changed_by, changed_at')
+        .eq('instrument_id', instrumentId)
+        .order('changed_at', { ascending: false });
+    if (error) {
+        console.error('Error fetching instrument move history:', error);
+        return [];
+    }
+    return data || [];
+}
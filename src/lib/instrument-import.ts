@@ -0,0 +1,416 @@
+import { format, isValid, parse } from 'date-fns';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { generateUUID } from '@/lib/uuid';
+import { getNextScheduleDate, planYearSchedules } from '@/lib/schedule-generator';
+import { isValidRecurrenceRule } from '@/lib/recurrence';
+import { getWorkingCalendar, NON_WORKING_DAY_SHIFTS, type WorkingCalendar } from '@/lib/working-calendar';
+import { fetchBlackouts, selectInstrumentBlackouts } from '@/lib/blackouts';
+import { getInstrumentImageId } from '@/lib/placeholder-images';
+import { excelSerialToDate, type SheetRows } from '@/lib/spreadsheet';
+import { fetchLocationTree, matchLocation, type LocationOption } from '@/lib/locations';
+import type { InstrumentImport, MaintenanceFrequency, NonWorkingDayShift } from '@/lib/types';
+
+export type ImportField =
+    | 'eqpId' | 'instrumentType' | 'make' | 'model' | 'serialNumber' | 'location'
+    | 'maintenanceType' | 'frequency' | 'recurrenceRule' | 'scheduleDate' | 'template'
+    | 'maintenanceBy' | 'vendorName' | 'vendorContact' | 'nonWorkingDayShift';
+
+// Aliases are compared after lower-casing and stripping everything but letters and digits
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+    { field: 'eqpId', label: 'Equipment ID', required: true, aliases: ['eqpid', 'equipmentid', 'assetid', 'assettag', 'id'] },
+    { field: 'instrumentType', label: 'Instrument Type', required: true, aliases: ['type', 'instrumenttype', 'equipmenttype'] },
+    { field: 'make', label: 'Make', required: true, aliases: ['make', 'manufacturer', 'brand'] },
+    { field: 'model', label: 'Model', required: true, aliases: ['model'] },
+    { field: 'serialNumber', label: 'Serial Number', required: true, aliases: ['serial', 'serialnumber', 'serialno', 'sn'] },
+    { field: 'location', label: 'Location', required: true, aliases: ['location', 'room', 'lab'] },
+    { field: 'maintenanceType', label: 'Maintenance Type', required: true, aliases: ['maintenancetype', 'maintenance', 'task', 'tasktype'] },
+    { field: 'frequency', label: 'Frequency', required: true, aliases: ['frequency', 'interval'] },
+    { field: 'recurrenceRule', label: 'Recurrence Rule', required: false, aliases: ['recurrencerule', 'rrule', 'recurrence'] },
+    { field: 'scheduleDate', label: 'Start Date', required: true, aliases: ['scheduledate', 'startdate', 'start', 'firstdue', 'duedate'] },
+    { field: 'template', label: 'Test Template', required: false, aliases: ['template', 'testtemplate', 'templatename'] },
+    { field: 'maintenanceBy', label: 'Maintenance By', required: false, aliases: ['maintenanceby', 'performedby', 'by'] },
+    { field: 'vendorName', label: 'Vendor Name', required: false, aliases: ['vendor', 'vendorname'] },
+    { field: 'vendorContact', label: 'Vendor Contact', required: false, aliases: ['vendorcontact', 'vendoremail', 'vendorphone'] },
+    { field: 'nonWorkingDayShift', label: 'If Due on Non-Working Day', required: false, aliases: ['nonworkingdayshift', 'nonworkingday', 'shift'] },
+];
+
+const FREQUENCIES: MaintenanceFrequency[] = ['Daily', 'Weekly', 'Monthly', '3 Months', '6 Months', '1 Year', 'Custom'];
+
+// Common spellings in existing registers
+const FREQUENCY_ALIASES: Record<string, MaintenanceFrequency> = {
+    quarterly: '3 Months',
+    '3 monthly': '3 Months',
+    'half yearly': '6 Months',
+    'half-yearly': '6 Months',
+    'semi-annual': '6 Months',
+    yearly: '1 Year',
+    annual: '1 Year',
+    annually: '1 Year',
+    '12 months': '1 Year',
+};
+
+const INSTRUMENT_FIELDS = ['instrumentType', 'make', 'model', 'serialNumber', 'location'] as const;
+
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export type ImportedSchedule = {
+    maintenanceType: string;
+    frequency: MaintenanceFrequency;
+    recurrenceRule: string | null;
+    scheduleDate: Date;
+    templateId: string | null;
+    maintenanceBy: 'self' | 'vendor';
+    vendorName: string | null;
+    vendorContact: string | null;
+    nonWorkingDayShift: NonWorkingDayShift;
+};
+
+export type ImportedInstrument = {
+    eqpId: string;
+    instrumentType: string;
+    make: string;
+    model: string;
+    serialNumber: string;
+    location: string;
+    locationId: string;
+    schedules: ImportedSchedule[];
+};
+
+export type ImportRowResult = {
+    rowNumber: number; // As shown in the spreadsheet, header included
+    eqpId: string;
+    errors: string[];
+};
+
+export type ImportContext = {
+    existingEqpIds: string[];
+    instrumentTypes: string[];
+    templates: { id: string; name: string }[];
+    locations: LocationOption[];
+};
+
+export type ImportValidation = {
+    rows: ImportRowResult[];
+    // Instruments whose rows are all valid; several rows with one eqpId add schedules to it
+    instruments: ImportedInstrument[];
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Map spreadsheet headers to import fields by name, each column used at most once
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+    const mapping: ColumnMapping = {};
+    const used = new Set<number>();
+    for (const { field, label, aliases } of IMPORT_FIELDS) {
+        const candidates = [normalizeHeader(label), ...aliases];
+        const index = headers.findIndex((header, i) => !used.has(i) && candidates.includes(normalizeHeader(header)));
+        if (index >= 0) {
+            mapping[field] = index;
+            used.add(index);
+        }
+    }
+    return mapping;
+}
+
+/**
+ * Accepts yyyy-MM-dd, dd/MM/yyyy and Excel serial dates
+ */
+export function parseImportDate(value: string): Date | null {
+    if (/^\d+(\.\d+)?$/.test(value)) {
+        const serial = Number(value);
+        // Roughly 1927 to 2064; anything else is not a date
+        return serial > 10000 && serial < 60000 ? excelSerialToDate(serial) : null;
+    }
+    for (const pattern of ['yyyy-MM-dd', 'dd/MM/yyyy', 'd MMM yyyy']) {
+        const date = parse(value, pattern, new Date());
+        if (isValid(date) && format(date, pattern) === value) return date;
+    }
+    return null;
+}
+
+function parseFrequency(value: string): MaintenanceFrequency | null {
+    const lower = value.toLowerCase();
+    return FREQUENCIES.find(f => f.toLowerCase() === lower) || FREQUENCY_ALIASES[lower] || null;
+}
+
+/**
+ * Check every data row (header excluded) and collect the instruments that can be created. Nothing
+ * is written; this is the dry run shown before an import is committed.
+ */
+export function validateImportRows(dataRows: SheetRows, mapping: ColumnMapping, context: ImportContext): ImportValidation {
+    const existing = new Set(context.existingEqpIds.map(id => id.toLowerCase()));
+    const rows: ImportRowResult[] = [];
+    const byEqpId = new Map<string, { instrument: ImportedInstrument; firstRow: number; rowIndexes: number[]; scheduleRows: Map<string, number> }>();
+
+    dataRows.forEach((cells, index) => {
+        const rowNumber = index + 2;
+        const get = (field: ImportField) => {
+            const column = mapping[field];
+            return column === undefined ? '' : (cells[column] ?? '').trim();
+        };
+        const errors: string[] = [];
+        const eqpId = get('eqpId');
+
+        for (const { field, label, required } of IMPORT_FIELDS) {
+            if (required && !get(field) && !(field === 'frequency' && get('recurrenceRule'))) {
+                errors.push(`${label} is required`);
+            }
+        }
+
+        if (eqpId && existing.has(eqpId.toLowerCase())) {
+            errors.push(`Equipment ID ${eqpId} already exists`);
+        }
+
+        const rawType = get('instrumentType');
+        const instrumentType = context.instrumentTypes.find(t => t.toLowerCase() === rawType.toLowerCase());
+        if (rawType && !instrumentType) {
+            errors.push(`Unknown instrument type "${rawType}"`);
+        }
+
+        // Free text is matched like the database does for older clients, but must match
+        const rawLocation = get('location');
+        const location = rawLocation ? matchLocation(rawLocation, context.locations) : null;
+        if (rawLocation && !location) {
+            errors.push(`Unknown location "${rawLocation}"; use its code or full path from Settings › Locations`);
+        }
+
+        const rawFrequency = get('frequency');
+        const recurrenceRule = get('recurrenceRule') || null;
+        const frequency = rawFrequency ? parseFrequency(rawFrequency) : recurrenceRule ? 'Custom' : null;
+        if (rawFrequency && !frequency) {
+            errors.push(`Frequency "${rawFrequency}" is not one of ${FREQUENCIES.join(', ')}`);
+        }
+        if (frequency === 'Custom' && !isValidRecurrenceRule(recurrenceRule)) {
+            errors.push(recurrenceRule ? `Recurrence rule "${recurrenceRule}" is not valid` : 'A Custom frequency needs a recurrence rule');
+        }
+
+        const rawDate = get('scheduleDate');
+        const scheduleDate = rawDate ? parseImportDate(rawDate) : null;
+        if (rawDate && !scheduleDate) {
+            errors.push(`Start date "${rawDate}" is not a date (use yyyy-MM-dd)`);
+        }
+
+        const templateName = get('template');
+        const template = templateName
+            ? context.templates.find(t => t.name.toLowerCase() === templateName.toLowerCase())
+            : null;
+        if (templateName && !template) {
+            errors.push(`No test template named "${templateName}"`);
+        }
+
+        const rawBy = get('maintenanceBy').toLowerCase();
+        const maintenanceBy = rawBy === 'vendor' ? 'vendor' : 'self';
+        if (rawBy && rawBy !== 'self' && rawBy !== 'vendor') {
+            errors.push(`Maintenance By must be "self" or "vendor", not "${get('maintenanceBy')}"`);
+        }
+        if (maintenanceBy === 'vendor' && !get('vendorName')) {
+            errors.push('Vendor name is required when maintenance is by vendor');
+        }
+
+        const rawShift = get('nonWorkingDayShift').toLowerCase();
+        const shift = rawShift
+            ? NON_WORKING_DAY_SHIFTS.find(s => s.value === rawShift || s.label.toLowerCase() === rawShift)?.value
+            : 'none';
+        if (!shift) {
+            errors.push(`Unknown non-working day handling "${get('nonWorkingDayShift')}"`);
+        }
+
+        // Repeated IDs add schedules, so the instrument details must agree
+        const key = eqpId.toLowerCase();
+        const group = byEqpId.get(key);
+        const maintenanceType = get('maintenanceType');
+        if (group) {
+            const differs = INSTRUMENT_FIELDS.find(field => {
+                const value = field === 'instrumentType' ? instrumentType || rawType
+                    : field === 'location' ? location?.path || rawLocation
+                    : get(field);
+                return group.instrument[field].toLowerCase() !== value.toLowerCase();
+            });
+            if (differs) {
+                errors.push(`${IMPORT_FIELDS.find(f => f.field === differs)?.label} differs from row ${group.firstRow} for ${eqpId}`);
+            }
+            const duplicateRow = group.scheduleRows.get(maintenanceType.toLowerCase());
+            if (maintenanceType && duplicateRow) {
+                errors.push(`${maintenanceType} is already scheduled for ${eqpId} on row ${duplicateRow}`);
+            }
+        }
+
+        rows.push({ rowNumber, eqpId, errors });
+        if (!eqpId) return;
+
+        const schedule: ImportedSchedule | null = errors.length === 0 && frequency && scheduleDate && shift
+            ? {
+                maintenanceType,
+                frequency,
+                recurrenceRule: frequency === 'Custom' ? recurrenceRule : null,
+                scheduleDate,
+                templateId: template?.id || null,
+                maintenanceBy,
+                vendorName: maintenanceBy === 'vendor' ? get('vendorName') : null,
+                vendorContact: maintenanceBy === 'vendor' ? get('vendorContact') || null : null,
+                nonWorkingDayShift: shift,
+            }
+            : null;
+
+        const entry = group || {
+            instrument: {
+                eqpId,
+                instrumentType: instrumentType || rawType,
+                make: get('make'),
+                model: get('model'),
+                serialNumber: get('serialNumber'),
+                location: location?.path || rawLocation,
+                locationId: location?.location.id || '',
+                schedules: [],
+            },
+            firstRow: rowNumber,
+            rowIndexes: [],
+            scheduleRows: new Map<string, number>(),
+        };
+        entry.rowIndexes.push(rows.length - 1);
+        if (maintenanceType && !entry.scheduleRows.has(maintenanceType.toLowerCase())) {
+            entry.scheduleRows.set(maintenanceType.toLowerCase(), rowNumber);
+        }
+        if (schedule) entry.instrument.schedules.push(schedule);
+        byEqpId.set(key, entry);
+    });
+
+    // An instrument is only created when every one of its rows is valid
+    const instruments = Array.from(byEqpId.values())
+        .filter(entry => entry.rowIndexes.every(i => rows[i].errors.length === 0))
+        .map(entry => entry.instrument);
+
+    return { rows, instruments };
+}
+
+export type ImportResult = {
+    success: boolean;
+    importId?: string;
+    instrumentCount: number;
+    scheduleCount: number;
+    error?: string;
+};
+
+/**
+ * Create the instruments, their maintenance configurations and a year of schedules as one import
+ * batch. The rows are planned here and written by commit_instrument_import in a single
+ * transaction, so a failed import leaves nothing behind.
+ */
+export async function commitInstrumentImport(
+    instruments: ImportedInstrument[],
+    options: { fileName: string; orgId?: string | null },
+    client: SupabaseClient = supabase
+): Promise<ImportResult> {
+    const fail = (message: string): ImportResult => ({ success: false, instrumentCount: 0, scheduleCount: 0, error: message });
+
+    const instrumentRows = instruments.map(instrument => {
+        // Legacy display fields come from the first schedule, as in AddInstrumentDialog
+        const primary = instrument.schedules[0];
+        return {
+            id: generateUUID(),
+            eqpId: instrument.eqpId,
+            instrumentType: instrument.instrumentType,
+            make: instrument.make,
+            model: instrument.model,
+            serialNumber: instrument.serialNumber,
+            location: instrument.location,
+            location_id: instrument.locationId,
+            maintenanceType: primary.maintenanceType,
+            frequency: primary.frequency,
+            scheduleDate: primary.scheduleDate.toISOString(),
+            nextMaintenanceDate: getNextScheduleDate(primary.scheduleDate, primary.frequency, primary.recurrenceRule).toISOString(),
+            imageId: getInstrumentImageId(instrument.instrumentType),
+            imageUrl: '',
+            maintenanceBy: primary.maintenanceBy,
+            vendorName: primary.vendorName,
+            vendorContact: primary.vendorContact,
+        };
+    });
+
+    // The instruments do not exist yet, so calendars and blackouts are resolved from their location
+    const blackouts = await fetchBlackouts(options.orgId, client);
+    const locationTree = await fetchLocationTree(options.orgId, client);
+    const calendars = new Map<string, WorkingCalendar | null>();
+    const configRows = [];
+    const scheduleRows: ReturnType<typeof planYearSchedules> = [];
+    for (const [index, instrument] of instruments.entries()) {
+        const instrumentBlackouts = selectInstrumentBlackouts(
+            blackouts,
+            { id: instrumentRows[index].id, location_id: instrument.locationId, location: instrument.location },
+            locationTree
+        );
+        for (const schedule of instrument.schedules) {
+            const config = {
+                id: generateUUID(),
+                instrument_id: instrumentRows[index].id,
+                maintenance_type: schedule.maintenanceType,
+                frequency: schedule.frequency,
+                recurrence_rule: schedule.recurrenceRule,
+                non_working_day_shift: schedule.nonWorkingDayShift,
+                schedule_date: schedule.scheduleDate.toISOString(),
+                template_id: schedule.templateId,
+                maintenanceBy: schedule.maintenanceBy,
+                vendorName: schedule.vendorName,
+                vendorContact: schedule.vendorContact,
+            };
+            configRows.push(config);
+
+            if (config.non_working_day_shift !== 'none' && !calendars.has(instrument.locationId)) {
+                calendars.set(instrument.locationId, await getWorkingCalendar(options.orgId, instrument.locationId, client));
+            }
+            try {
+                scheduleRows.push(...planYearSchedules(config, {
+                    calendar: config.non_working_day_shift !== 'none' ? calendars.get(instrument.locationId) ?? null : null,
+                    blackouts: instrumentBlackouts,
+                }));
+            } catch (err: any) {
+                console.error('Invalid recurrence rule:', err);
+                return fail(err.message);
+            }
+        }
+    }
+
+    const { data, error } = await client.rpc('commit_instrument_import', {
+        p_file_name: options.fileName,
+        p_instruments: instrumentRows,
+        p_configurations: configRows,
+        p_schedules: scheduleRows,
+    });
+    if (error || !data) {
+        console.error('Error importing instruments:', error);
+        return fail(error?.message || 'Could not import the instruments');
+    }
+
+    return { success: true, importId: data.importId, instrumentCount: data.instrumentCount, scheduleCount: data.scheduleCount };
+}
+
+/**
+ * Delete everything an import created. Refused once results have been recorded.
+ */
+export async function rollBackInstrumentImport(
+    importId: string,
+    client: SupabaseClient = supabase
+): Promise<{ success: boolean; count: number; error?: string }> {
+    const { data, error } = await client.rpc('roll_back_instrument_import', { p_import_id: importId });
+    if (error) {
+        console.error('Error rolling back import:', error);
+        return { success: false, count: 0, error: error.message };
+    }
+    return { success: true, count: data ?? 0 };
+}
+
+export async function fetchInstrumentImports(client: SupabaseClient = supabase): Promise<InstrumentImport[]> {
+    const { data, error } = await client
+        .from('instrument_imports')
+        .select('id, file_name, instrument_count, schedule_count, status, created_by, created_at, rolled_back_at')
+        .order('created_at', { ascending: false })
+        .limit(10);
+    if (error) {
+        console.error('Error fetching instrument imports:', error);
+        return [];
+    }
+    return data || [];
+}
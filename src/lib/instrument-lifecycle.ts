@@ -0,0 +1,140 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { resumeInstrumentSchedules } from '@/lib/schedule-generator';
+import type { InstrumentLifecycleTransition, LifecycleState } from '@/lib/types';
+
+export const LIFECYCLE_STATES: { value: LifecycleState; label: string; description: string }[] = [
+    { value: 'installation', label: 'Installation', description: 'Delivered and being installed' },
+    { value: 'iq', label: 'IQ', description: 'Installation qualification' },
+    { value: 'oq', label: 'OQ', description: 'Operational qualification' },
+    { value: 'pq', label: 'PQ', description: 'Performance qualification' },
+    { value: 'in_use', label: 'In Use', description: 'Released for use' },
+    { value: 'quarantined', label: 'Quarantined', description: 'Withheld from use pending investigation' },
+    { value: 'under_repair', label: 'Under Repair', description: 'Out of service for repair' },
+    { value: 'retired', label: 'Retired', description: 'Withdrawn; maintenance configurations archived' },
+    { value: 'disposed', label: 'Disposed', description: 'Removed from site' },
+];
+
+/**
+ * Where each state can go next. Keep in step with instrument_lifecycle_transition_allowed
+ * in the database, which enforces it.
+ */
+export const LIFECYCLE_TRANSITIONS: Record<LifecycleState, LifecycleState[]> = {
+    installation: ['iq', 'retired'],
+    iq: ['oq', 'installation', 'retired'],
+    oq: ['pq', 'iq', 'retired'],
+    pq: ['in_use', 'oq', 'retired'],
+    in_use: ['quarantined', 'under_repair', 'retired'],
+    quarantined: ['in_use', 'under_repair', 'oq', 'retired'],
+    under_repair: ['oq', 'pq', 'in_use', 'quarantined', 'retired'],
+    retired: ['installation', 'disposed'],
+    disposed: [],
+};
+
+export const getLifecycleStateLabel = (state?: LifecycleState | null) =>
+    LIFECYCLE_STATES.find(s => s.value === state)?.label || state || '';
+
+// Retired and disposed instruments keep their records but no longer get maintenance
+export const isRetiredState = (state?: LifecycleState | null) =>
+    state === 'retired' || state === 'disposed';
+
+export const getAllowedTransitions = (state?: LifecycleState | null): LifecycleState[] =>
+    LIFECYCLE_TRANSITIONS[state || 'in_use'] || [];
+
+export type LifecycleTransitionResult = {
+    success: boolean;
+    error?: string;
+    archivedConfigurations?: number;
+    waivedSchedules?: number;
+};
+
+/**
+ * Store a qualification report, repair record or disposal certificate alongside maintenance documents
+ */
+export async function uploadLifecycleEvidence(
+    file: File,
+    instrumentId: string
+): Promise<{ url: string; name: string } | null> {
+    const fileExt = file.name.split('.').pop();
+    const fileName = `lifecycle/${instrumentId}/${Date.now()}.${fileExt}`;
+
+    const { error } = await supabase.storage
+        .from('maintenance-documents')
+        .upload(fileName, file, { cacheControl: '3600', upsert: false });
+    if (error) {
+        console.error('Error uploading lifecycle evidence:', error);
+        return null;
+    }
+
+    const { data: { publicUrl } } = supabase.storage.from('maintenance-documents').getPublicUrl(fileName);
+    return { url: publicUrl, name: file.name };
+}
+
+/**
+ * Move an instrument to another lifecycle state and log it, in one database transaction.
+ * Retiring also archives its maintenance configurations and waives open schedules nobody
+ * has started; recommissioning a retired instrument restores those configurations.
+ * Release back into use restarts the series suspended while it was out of service.
+ */
+export async function transitionInstrumentLifecycle(
+    instrumentId: string,
+    to: LifecycleState,
+    options: { reason: string; evidence?: File | null; orgId?: string | null },
+    client: SupabaseClient = supabase
+): Promise<LifecycleTransitionResult> {
+    if (!options.reason.trim()) {
+        return { success: false, error: 'A reason is required' };
+    }
+
+    let evidence: { url: string; name: string } | null = null;
+    if (options.evidence) {
+        evidence = await uploadLifecycleEvidence(options.evidence, instrumentId);
+        if (!evidence) return { success: false, error: 'Could not upload the evidence document' };
+    }
+
+    const { data, error } = await client.rpc('transition_instrument_lifecycle', {
+        p_instrument_id: instrumentId,
+        p_to_state: to,
+        p_reason: options.reason.trim(),
+        p_evidence_url: evidence?.url || null,
+        p_evidence_name: evidence?.name || null,
+    });
+
+    if (error) {
+        console.error(`Error moving instrument ${instrumentId} to ${to}:`, error);
+        return { success: false, error: error.message };
+    }
+
+    if (data?.fromStatus === 'Out of Service' && data?.toStatus !== 'Out of Service') {
+        const resumed = await resumeInstrumentSchedules(instrumentId, options.orgId);
+        if (!resumed.success) {
+            return { success: false, error: `State changed, but schedules could not be restarted: ${resumed.error}` };
+        }
+    }
+
+    return {
+        success: true,
+        archivedConfigurations: data?.archivedConfigurations,
+        waivedSchedules: data?.waivedSchedules,
+    };
+}
+
+/**
+ * An instrument's lifecycle log, newest first
+ */
+export async function fetchLifecycleHistory(
+    instrumentId: string,
+    client: SupabaseClient = supabase
+): Promise<InstrumentLifecycleTransition[]> {
+    const { data, error } = await client
+        .from('instrument_lifecycle_transitions')
+        .select('*')
+        .eq('instrument_id', instrumentId)
+        .order('changed_at', { ascending: false });
+
+    if (error) {
+        console.error('Error fetching lifecycle history:', error);
+        return [];
+    }
+    return data || [];
+}
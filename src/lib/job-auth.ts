@@ -0,0 +1,46 @@
+import { timingSafeEqual } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { NextRequest } from 'next/server';
+
+/**
+ * Whether the request carries the shared job secret (x-job-secret). Compared in constant
+ * time so the secret cannot be guessed from response timings.
+ */
+export function hasValidJobSecret(request: NextRequest): boolean {
+    const secret = process.env.SCHEDULE_JOB_SECRET;
+    const providedSecret = request.headers.get('x-job-secret');
+    if (!secret || !providedSecret) return false;
+
+    const expected = Buffer.from(secret);
+    const provided = Buffer.from(providedSecret);
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Auth for the scheduled job routes. The scheduler container authenticates with the shared
+ * secret and covers every org; an admin's bearer token limits the run to their own org.
+ */
+export async function getJobAuth(
+    request: NextRequest,
+    supabaseAdmin: SupabaseClient
+): Promise<{ authorized: boolean; orgId: string | null }> {
+    if (hasValidJobSecret(request)) {
+        return { authorized: true, orgId: null };
+    }
+
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader) return { authorized: false, orgId: null };
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user } } = await supabaseAdmin.auth.getUser(token);
+    if (!user) return { authorized: false, orgId: null };
+
+    const { data: profile } = await supabaseAdmin
+        .from('profiles')
+        .select('role, org_id')
+        .eq('id', user.id)
+        .single();
+
+    if (profile?.role !== 'admin' || !profile.org_id) return { authorized: false, orgId: null };
+    return { authorized: true, orgId: profile.org_id };
+}
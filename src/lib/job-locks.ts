@@ -0,0 +1,20 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Take the named job lock for up to `ttlSeconds`. Returns the token to release it with,
+ * or null while another run holds it. Needs the service role client.
+ */
+export async function acquireJobLock(
+    name: string,
+    ttlSeconds: number,
+    supabaseAdmin: SupabaseClient
+): Promise<string | null> {
+    const { data, error } = await supabaseAdmin.rpc('acquire_job_lock', { p_name: name, p_ttl_seconds: ttlSeconds });
+    if (error) throw error;
+    return data ?? null;
+}
+
+export async function releaseJobLock(name: string, token: string, supabaseAdmin: SupabaseClient): Promise<void> {
+    const { error } = await supabaseAdmin.rpc('release_job_lock', { p_name: name, p_token: token });
+    if (error) console.error(`Error releasing job lock ${name}:`, error);
+}
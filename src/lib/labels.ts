@@ -0,0 +1,200 @@
+import { format } from 'date-fns';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { encodeQr } from '@/lib/qr-code';
+import { encodeCode128 } from '@/lib/code128';
+import { CLOSED_STATUS_FILTER } from '@/lib/schedule-transitions';
+import type { Instrument } from '@/lib/types';
+
+/**
+ * Physical label stock. Dimensions are in millimetres; roll formats for thermal printers have one
+ * label per page.
+ */
+export type LabelFormat = {
+    id: string;
+    name: string;
+    pageWidth: number;
+    pageHeight: number;
+    columns: number;
+    rows: number;
+    labelWidth: number;
+    labelHeight: number;
+    marginTop: number;
+    marginLeft: number;
+    gapX: number;
+    gapY: number;
+};
+
+export const LABEL_FORMATS: LabelFormat[] = [
+    { id: 'avery-l7160', name: 'Avery L7160 (A4, 21 per sheet, 63.5 × 38.1 mm)', pageWidth: 210, pageHeight: 297, columns: 3, rows: 7, labelWidth: 63.5, labelHeight: 38.1, marginTop: 15.15, marginLeft: 7.25, gapX: 2.5, gapY: 0 },
+    { id: 'avery-l7163', name: 'Avery L7163 (A4, 14 per sheet, 99.1 × 38.1 mm)', pageWidth: 210, pageHeight: 297, columns: 2, rows: 7, labelWidth: 99.1, labelHeight: 38.1, marginTop: 15.15, marginLeft: 4.65, gapX: 2.5, gapY: 0 },
+    { id: 'avery-l7651', name: 'Avery L7651 (A4, 65 per sheet, 38.1 × 21.2 mm)', pageWidth: 210, pageHeight: 297, columns: 5, rows: 13, labelWidth: 38.1, labelHeight: 21.2, marginTop: 10.7, marginLeft: 4.75, gapX: 2.5, gapY: 0 },
+    { id: 'avery-5160', name: 'Avery 5160 (Letter, 30 per sheet, 2.625 × 1 in)', pageWidth: 215.9, pageHeight: 279.4, columns: 3, rows: 10, labelWidth: 66.68, labelHeight: 25.4, marginTop: 12.7, marginLeft: 4.76, gapX: 3.18, gapY: 0 },
+    { id: 'avery-5163', name: 'Avery 5163 (Letter, 10 per sheet, 4 × 2 in)', pageWidth: 215.9, pageHeight: 279.4, columns: 2, rows: 5, labelWidth: 101.6, labelHeight: 50.8, marginTop: 12.7, marginLeft: 3.97, gapX: 4.76, gapY: 0 },
+    { id: 'brady-2x1', name: 'Brady roll, 2 × 1 in (50.8 × 25.4 mm)', pageWidth: 50.8, pageHeight: 25.4, columns: 1, rows: 1, labelWidth: 50.8, labelHeight: 25.4, marginTop: 0, marginLeft: 0, gapX: 0, gapY: 0 },
+    { id: 'brady-1.5x0.75', name: 'Brady roll, 1.5 × 0.75 in (38.1 × 19.1 mm)', pageWidth: 38.1, pageHeight: 19.05, columns: 1, rows: 1, labelWidth: 38.1, labelHeight: 19.05, marginTop: 0, marginLeft: 0, gapX: 0, gapY: 0 },
+    { id: 'brady-3x2', name: 'Brady roll, 3 × 2 in (76.2 × 50.8 mm)', pageWidth: 76.2, pageHeight: 50.8, columns: 1, rows: 1, labelWidth: 76.2, labelHeight: 50.8, marginTop: 0, marginLeft: 0, gapX: 0, gapY: 0 },
+];
+
+export type LabelCodes = 'both' | 'qr' | 'barcode';
+
+export type LabelData = {
+    instrumentId: string;
+    eqpId: string;
+    model: string;
+    location: string;
+    nextDue: string | null;
+};
+
+// What a label's QR code points at; phones open it without the app's scanner
+export const getInstrumentScanUrl = (instrumentId: string, origin: string) => `${origin}/instruments/${instrumentId}`;
+
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i;
+
+/**
+ * Earliest open occurrence per instrument
+ */
+export async function fetchNextDueDates(instrumentIds: string[], client: SupabaseClient = supabase): Promise<Map<string, string>> {
+    const nextDue = new Map<string, string>();
+    if (instrumentIds.length === 0) return nextDue;
+
+    const { data, error } = await client
+        .from('maintenanceSchedules')
+        .select('instrumentId, dueDate')
+        .in('instrumentId', instrumentIds)
+        .not('status', 'in', CLOSED_STATUS_FILTER)
+        .order('dueDate');
+    if (error) {
+        console.error('Error fetching next due dates:', error);
+        return nextDue;
+    }
+    for (const row of data || []) {
+        if (!nextDue.has(row.instrumentId)) nextDue.set(row.instrumentId, row.dueDate);
+    }
+    return nextDue;
+}
+
+export function toLabelData(instruments: Instrument[], nextDue: Map<string, string>): LabelData[] {
+    return instruments.map(instrument => ({
+        instrumentId: instrument.id,
+        eqpId: instrument.eqpId,
+        model: [instrument.make, instrument.model].filter(Boolean).join(' '),
+        location: instrument.location,
+        nextDue: nextDue.get(instrument.id) ?? null,
+    }));
+}
+
+/**
+ * Find the instrument a scanned code refers to: a label URL, a bare instrument id or an Eqp. ID
+ */
+export async function resolveScannedCode(
+    code: string,
+    client: SupabaseClient = supabase
+): Promise<{ id: string; eqpId: string } | null> {
+    const text = code.trim();
+    if (!text) return null;
+
+    const id = /\/instruments\/([^/?#]+)/.exec(text)?.[1] || UUID_PATTERN.exec(text)?.[0];
+    const query = client.from('instruments').select('id, eqpId');
+    const { data, error } = id && UUID_PATTERN.test(id)
+        ? await query.eq('id', id).maybeSingle()
+        : await query.eq('eqpId', text).maybeSingle();
+    if (error) {
+        console.error('Error resolving scanned code:', error);
+        return null;
+    }
+    return data;
+}
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+function qrSvg(text: string): string {
+    const modules = encodeQr(text);
+    const size = modules.length + 8; // four-module quiet zone
+    const path = modules
+        .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + 4} ${y + 4}h1v1h-1z` : '')))
+        .join('');
+    return `<svg class="qr" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges"><path fill="#000" d="${path}"/></svg>`;
+}
+
+function barcodeSvg(text: string): string {
+    const widths = encodeCode128(text);
+    if (!widths) return '';
+    const total = widths.reduce((sum, w) => sum + w, 0) + 20; // ten-module quiet zone each side
+    let x = 10;
+    const bars = widths.map((width, i) => {
+        const bar = i % 2 === 0 ? `<rect x="${x}" y="0" width="${width}" height="1"/>` : '';
+        x += width;
+        return bar;
+    }).join('');
+    return `<svg class="barcode" viewBox="0 0 ${total} 1" preserveAspectRatio="none" shape-rendering="crispEdges">${bars}</svg>`;
+}
+
+function labelHtml(label: LabelData, codes: LabelCodes, origin: string): string {
+    const qr = codes !== 'barcode' ? qrSvg(getInstrumentScanUrl(label.instrumentId, origin)) : '';
+    const barcode = codes !== 'qr' ? barcodeSvg(label.eqpId) : '';
+    const lines = [
+        label.model && `<div class="line">${escapeHtml(label.model)}</div>`,
+        label.location && `<div class="line">${escapeHtml(label.location)}</div>`,
+        label.nextDue && `<div class="line">Next due ${format(new Date(label.nextDue), 'd MMM yyyy')}</div>`,
+    ].filter(Boolean).join('');
+    return `<div class="label">${qr}<div class="text"><div class="eqp">${escapeHtml(label.eqpId)}</div>${lines}${barcode}</div></div>`;
+}
+
+/**
+ * Printable HTML page of labels. `skip` leaves the first positions of the first sheet empty so a
+ * partly used sheet can be fed again.
+ */
+export function buildLabelSheetHtml(labels: LabelData[], labelFormat: LabelFormat, codes: LabelCodes, origin: string, skip = 0): string {
+    const perPage = labelFormat.columns * labelFormat.rows;
+    const slots: (LabelData | null)[] = [...new Array<null>(Math.min(skip, perPage - 1)).fill(null), ...labels];
+    const pages: string[] = [];
+
+    for (let start = 0; start < slots.length; start += perPage) {
+        const cells = slots.slice(start, start + perPage).map((label, index) => {
+            const column = index % labelFormat.columns;
+            const row = Math.floor(index / labelFormat.columns);
+            const left = labelFormat.marginLeft + column * (labelFormat.labelWidth + labelFormat.gapX);
+            const top = labelFormat.marginTop + row * (labelFormat.labelHeight + labelFormat.gapY);
+            return label
+                ? `<div class="slot" style="left:${left}mm;top:${top}mm">${labelHtml(label, codes, origin)}</div>`
+                : '';
+        }).join('');
+        pages.push(`<div class="page">${cells}</div>`);
+    }
+
+    // Scale type with the label height so small stock stays legible
+    const fontSize = Math.max(5, Math.min(10, labelFormat.labelHeight / 4.5));
+    return `
+      <html>
+        <head>
+          <title>Instrument Labels</title>
+          <style>
+            @page { size: ${labelFormat.pageWidth}mm ${labelFormat.pageHeight}mm; margin: 0; }
+            * { box-sizing: border-box; }
+            body { margin: 0; font-family: Arial, sans-serif; }
+            .page { position: relative; width: ${labelFormat.pageWidth}mm; height: ${labelFormat.pageHeight}mm; overflow: hidden; page-break-after: always; }
+            .page:last-child { page-break-after: auto; }
+            .slot { position: absolute; width: ${labelFormat.labelWidth}mm; height: ${labelFormat.labelHeight}mm; padding: 1.5mm; }
+            .label { display: flex; gap: 1.5mm; width: 100%; height: 100%; align-items: center; }
+            .qr { height: 100%; flex-shrink: 0; }
+            .text { flex: 1; min-width: 0; display: flex; flex-direction: column; justify-content: center; font-size: ${fontSize.toFixed(1)}pt; line-height: 1.2; }
+            .eqp { font-weight: bold; font-size: 1.3em; }
+            .line { white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+            .barcode { width: 100%; height: ${(labelFormat.labelHeight / 4).toFixed(1)}mm; margin-top: 0.8mm; }
+          </style>
+        </head>
+        <body>
+          ${pages.join('')}
+          <script>
+            window.onload = function() {
+              setTimeout(function() {
+                window.print();
+              }, 100);
+            };
+          </script>
+        </body>
+      </html>
+    `;
+}
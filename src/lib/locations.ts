@@ -0,0 +1,136 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import type { Location, LocationLevel } from '@/lib/types';
+
+export const LOCATION_LEVELS: { value: LocationLevel; label: string }[] = [
+    { value: 'site', label: 'Site' },
+    { value: 'building', label: 'Building' },
+    { value: 'room', label: 'Room' },
+    { value: 'bench', label: 'Bench' },
+];
+
+// Separates the levels of a path; location names may not contain it
+export const LOCATION_PATH_SEPARATOR = ' / ';
+
+export const getLocationLevelLabel = (level: LocationLevel) =>
+    LOCATION_LEVELS.find(l => l.value === level)?.label || level;
+
+/**
+ * Levels a location may be created at under the given parent: anything deeper than the parent
+ */
+export function getChildLevels(parent?: Pick<Location, 'level'> | null): LocationLevel[] {
+    const parentRank = parent ? LOCATION_LEVELS.findIndex(l => l.value === parent.level) : -1;
+    return LOCATION_LEVELS.slice(parentRank + 1).map(l => l.value);
+}
+
+// Enough of a location to walk the tree
+export type LocationNode = Pick<Location, 'id' | 'parent_id'>;
+
+/**
+ * A location with its full path, in tree order
+ */
+export type LocationOption = {
+    location: Location;
+    path: string;
+    depth: number;
+};
+
+export async function fetchLocations(client: SupabaseClient = supabase): Promise<Location[]> {
+    const { data, error } = await client
+        .from('locations')
+        .select('id, parent_id, level, code, name')
+        .order('name');
+    if (error) {
+        console.error('Error fetching locations:', error);
+        return [];
+    }
+    return data || [];
+}
+
+/**
+ * The location tree of one organization, for matching settings kept on a location to
+ * everything inside it. Pass `client` to use a server-side (service role) client.
+ */
+export async function fetchLocationTree(
+    orgId: string | null | undefined,
+    client: SupabaseClient = supabase
+): Promise<LocationNode[]> {
+    let query = client.from('locations').select('id, parent_id');
+    query = orgId ? query.eq('org_id', orgId) : query.is('org_id', null);
+    const { data, error } = await query;
+    if (error) {
+        console.error('Error fetching location tree:', error);
+        return [];
+    }
+    return data || [];
+}
+
+/**
+ * Depth-first, siblings by name, so each location is followed by everything inside it
+ */
+export function flattenLocations(locations: Location[]): LocationOption[] {
+    const childrenOf = new Map<string | null, Location[]>();
+    for (const location of locations) {
+        const key = location.parent_id && locations.some(l => l.id === location.parent_id) ? location.parent_id : null;
+        childrenOf.set(key, [...(childrenOf.get(key) || []), location]);
+    }
+
+    const options: LocationOption[] = [];
+    const visit = (parentId: string | null, parentPath: string, depth: number) => {
+        const children = [...(childrenOf.get(parentId) || [])].sort((a, b) => a.name.localeCompare(b.name));
+        for (const location of children) {
+            const path = parentPath ? `${parentPath}${LOCATION_PATH_SEPARATOR}${location.name}` : location.name;
+            options.push({ location, path, depth });
+            visit(location.id, path, depth + 1);
+        }
+    };
+    visit(null, '', 0);
+    return options;
+}
+
+/**
+ * The location and everything below it
+ */
+export function getLocationSubtreeIds(locationId: string, locations: LocationNode[]): Set<string> {
+    const ids = new Set([locationId]);
+    let added = true;
+    while (added) {
+        added = false;
+        for (const location of locations) {
+            if (location.parent_id && ids.has(location.parent_id) && !ids.has(location.id)) {
+                ids.add(location.id);
+                added = true;
+            }
+        }
+    }
+    return ids;
+}
+
+/**
+ * The location itself or the nearest one above it at the given level, for grouping by level
+ */
+export function getLocationAtLevel(locationId: string | null | undefined, level: LocationLevel, locations: Location[]): Location | null {
+    const byId = new Map(locations.map(l => [l.id, l]));
+    let current = locationId ? byId.get(locationId) : undefined;
+    for (let steps = 0; current && steps < locations.length; steps++) {
+        if (current.level === level) return current;
+        current = current.parent_id ? byId.get(current.parent_id) : undefined;
+    }
+    return null;
+}
+
+// Same rule as normalize_location_key in the database
+export const normalizeLocationKey = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+/**
+ * Location named by free text: its path, its code, or its name when no other location shares it
+ */
+export function matchLocation(text: string, options: LocationOption[]): LocationOption | null {
+    const key = normalizeLocationKey(text);
+    if (!key) return null;
+    const code = text.trim().toUpperCase();
+    const byPathOrCode = options.find(o => normalizeLocationKey(o.path) === key || o.location.code.toUpperCase() === code);
+    if (byPathOrCode) return byPathOrCode;
+    const byName = options.filter(o => normalizeLocationKey(o.location.name) === key);
+    return byName.length === 1 ? byName[0] : null;
+}
@@ -0,0 +1,342 @@
+import { addDays, differenceInMinutes, startOfDay, subDays } from 'date-fns';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { buildScheduleRow } from '@/lib/schedule-generator';
+import { CLOSED_STATUS_FILTER } from '@/lib/schedule-transitions';
+import type { Instrument, InstrumentMeter, MaintenanceConfiguration, MaintenanceTrigger, MeterReading } from '@/lib/types';
+
+export const MAINTENANCE_TRIGGERS: { value: MaintenanceTrigger; label: string }[] = [
+    { value: 'calendar', label: 'Calendar' },
+    { value: 'meter', label: 'Meter' },
+    { value: 'either', label: 'Whichever comes first' },
+];
+
+export const METER_UNIT_SUGGESTIONS = ['hours', 'injections', 'cycles', 'runs', 'samples'];
+
+// Usage over this many days sets the rate used for projections
+export const USAGE_RATE_DAYS = 30;
+
+/**
+ * Meter value at which a configuration's next occurrence falls due
+ */
+export function getMeterDueValue(config: { meter_interval?: number | null; meter_baseline?: number | null }): number | null {
+    if (!config.meter_interval) return null;
+    return Number(config.meter_baseline || 0) + Number(config.meter_interval);
+}
+
+/**
+ * Average usage per day over the last `days`, from readings after the most recent reset.
+ * The last reading before the window is used as its starting point when there is one.
+ * Returns null when there is not enough history to tell.
+ */
+export function getUsageRate(
+    readings: Pick<MeterReading, 'value' | 'recorded_at' | 'is_reset'>[],
+    options: { days?: number; now?: Date } = {}
+): number | null {
+    const now = options.now ?? new Date();
+    const windowStart = subDays(now, options.days ?? USAGE_RATE_DAYS);
+
+    const sorted = [...readings].sort((a, b) => a.recorded_at.localeCompare(b.recorded_at));
+    const lastReset = sorted.map(r => r.is_reset).lastIndexOf(true);
+    const series = lastReset >= 0 ? sorted.slice(lastReset) : sorted;
+    if (series.length < 2) return null;
+
+    const beforeWindow = series.filter(r => new Date(r.recorded_at) < windowStart);
+    const start = beforeWindow[beforeWindow.length - 1] ?? series[0];
+    const end = series[series.length - 1];
+    if (new Date(end.recorded_at) < windowStart) return null;
+
+    const elapsedDays = differenceInMinutes(new Date(end.recorded_at), new Date(start.recorded_at)) / (60 * 24);
+    const used = Number(end.value) - Number(start.value);
+    if (elapsedDays <= 0 || used < 0) return null;
+    return used / elapsedDays;
+}
+
+/**
+ * Date the meter is expected to reach `dueValue` at the given daily rate.
+ * Returns today once it has been reached, and null when there is no usage to project from.
+ */
+export function projectMeterDueDate(currentValue: number, dueValue: number, ratePerDay: number | null, now: Date = new Date()): Date | null {
+    if (currentValue >= dueValue) return startOfDay(now);
+    if (!ratePerDay || ratePerDay <= 0) return null;
+    return startOfDay(addDays(now, Math.ceil((dueValue - currentValue) / ratePerDay)));
+}
+
+export type MeterReadingResult = {
+    success: boolean;
+    currentValue?: number;
+    error?: string;
+};
+
+/**
+ * Record a reading and move the meter's current value. A value below the current one
+ * must be marked as a reset (counter replaced or zeroed); back-dated readings only add
+ * to the history. Run evaluateMeterTriggers afterwards to raise any occurrence now due.
+ */
+export async function recordMeterReading(
+    meterId: string,
+    value: number,
+    options: { recordedAt?: Date; isReset?: boolean; source?: MeterReading['source']; notes?: string | null } = {},
+    client: SupabaseClient = supabase
+): Promise<MeterReadingResult> {
+    if (!Number.isFinite(value) || value < 0) {
+        return { success: false, error: 'A meter reading must be zero or more' };
+    }
+
+    const { data, error } = await client.rpc('record_meter_reading', {
+        p_meter_id: meterId,
+        p_value: value,
+        p_recorded_at: (options.recordedAt ?? new Date()).toISOString(),
+        p_is_reset: !!options.isReset,
+        p_source: options.source || 'manual',
+        p_notes: options.notes?.trim() || null,
+    });
+
+    if (error) {
+        console.error(`Error recording reading for meter ${meterId}:`, error);
+        return { success: false, error: error.message };
+    }
+
+    return { success: true, currentValue: Number(data?.currentValue) };
+}
+
+/**
+ * Readings of the given meters since `since`, oldest first
+ */
+export async function fetchMeterReadings(
+    meterIds: string[],
+    since: Date,
+    client: SupabaseClient = supabase
+): Promise<MeterReading[]> {
+    if (meterIds.length === 0) return [];
+
+    const { data, error } = await client
+        .from('meter_readings')
+        .select('id, meter_id, value, recorded_at, is_reset, source, notes, recorded_by')
+        .in('meter_id', meterIds)
+        .gte('recorded_at', since.toISOString())
+        .order('recorded_at', { ascending: true });
+
+    if (error) {
+        console.error('Error fetching meter readings:', error);
+        return [];
+    }
+    return data || [];
+}
+
+export type MeterTriggerReport = {
+    dryRun: boolean;
+    configsChecked: number;
+    created: number;
+    triggered: {
+        configId: string;
+        instrumentId: string;
+        eqpId: string | null;
+        maintenanceType: string;
+        meterName: string;
+        currentValue: number;
+        dueValue: number;
+    }[];
+    errors: { configId: string; error: string }[];
+};
+
+/**
+ * Raise a due schedule for every meter-triggered configuration whose meter has reached
+ * its threshold. A configuration gets at most one open meter occurrence at a time, and
+ * the unique index on (instrument, type, meter, due value) stops concurrent runs from
+ * creating the same one twice. Pass `meterIds` to check only configurations on those meters.
+ */
+export async function evaluateMeterTriggers(
+    client: SupabaseClient,
+    options: { orgId?: string | null; meterIds?: string[]; dryRun?: boolean; now?: Date } = {}
+): Promise<MeterTriggerReport> {
+    const now = options.now ?? new Date();
+    const report: MeterTriggerReport = {
+        dryRun: !!options.dryRun,
+        configsChecked: 0,
+        created: 0,
+        triggered: [],
+        errors: [],
+    };
+
+    // Scope by instrument, since configuration rows may not carry org_id
+    let instrumentQuery = client.from('instruments').select('id, eqpId, org_id').is('deleted_at', null);
+    if (options.orgId) instrumentQuery = instrumentQuery.eq('org_id', options.orgId);
+    const { data: instruments, error: instrumentError } = await instrumentQuery;
+    if (instrumentError) throw instrumentError;
+    const instrumentMap = new Map((instruments || []).map(i => [i.id, i]));
+
+    let configQuery = client
+        .from('maintenance_configurations')
+        .select('*')
+        .in('trigger_type', ['meter', 'either'])
+        .not('meter_id', 'is', null)
+        .is('suspended_at', null)
+        .or('is_active.is.null,is_active.eq.true');
+    if (options.meterIds) configQuery = configQuery.in('meter_id', options.meterIds);
+    const { data: configRows, error: configError } = await configQuery;
+    if (configError) throw configError;
+
+    const configs = (configRows || []).filter(c => instrumentMap.has(c.instrument_id));
+    if (configs.length === 0) return report;
+
+    const meterIds = [...new Set(configs.map(c => c.meter_id as string))];
+    const { data: meters, error: meterError } = await client
+        .from('instrument_meters')
+        .select('id, name, unit, current_value')
+        .in('id', meterIds);
+    if (meterError) throw meterError;
+    const meterMap = new Map((meters || []).map(m => [m.id, m]));
+
+    const { data: openSchedules, error: scheduleError } = await client
+        .from('maintenanceSchedules')
+        .select('instrumentId, type, meter_id')
+        .in('meter_id', meterIds)
+        .not('status', 'in', CLOSED_STATUS_FILTER);
+    if (scheduleError) throw scheduleError;
+    const openKeys = new Set((openSchedules || []).map(s => `${s.instrumentId}_${s.type}_${s.meter_id}`));
+
+    for (const config of configs) {
+        report.configsChecked++;
+        const meter = meterMap.get(config.meter_id);
+        const dueValue = getMeterDueValue(config);
+        if (!meter || dueValue === null) continue;
+
+        const currentValue = Number(meter.current_value);
+        if (currentValue < dueValue) continue;
+        if (openKeys.has(`${config.instrument_id}_${config.maintenance_type}_${config.meter_id}`)) continue;
+
+        const instrument = instrumentMap.get(config.instrument_id)!;
+        const row = {
+            ...buildScheduleRow({ ...config, org_id: config.org_id || instrument.org_id }, { nominal: now, due: now }, false),
+            description: `${config.maintenance_type} due: ${meter.name} reached ${dueValue} ${meter.unit}`,
+            meter_id: config.meter_id,
+            meter_due_value: dueValue,
+        };
+
+        try {
+            if (!options.dryRun) {
+                const { error } = await client.from('maintenanceSchedules').insert(row);
+                // Another run already raised this threshold
+                if (error?.code === '23505') continue;
+                if (error) throw error;
+            }
+
+            report.created++;
+            report.triggered.push({
+                configId: config.id,
+                instrumentId: config.instrument_id,
+                eqpId: instrument.eqpId || null,
+                maintenanceType: config.maintenance_type,
+                meterName: meter.name,
+                currentValue,
+                dueValue,
+            });
+        } catch (err: any) {
+            console.error(`Meter trigger failed for configuration ${config.id}:`, err);
+            report.errors.push({ configId: config.id, error: err?.message || String(err) });
+        }
+    }
+
+    return report;
+}
+
+export type MeterForecast = {
+    configId: string;
+    instrumentId: string;
+    eqpId: string;
+    maintenanceType: string;
+    triggerType: MaintenanceTrigger;
+    meterName: string;
+    unit: string;
+    currentValue: number;
+    dueValue: number;
+    interval: number;
+    ratePerDay: number | null;
+    projectedDate: Date | null; // When the meter is expected to reach dueValue
+    calendarDueDate: Date | null; // Next calendar occurrence, for 'whichever comes first'
+    dueBy: Date | null; // The earlier of the two
+};
+
+// To-one embeds may come back as a single row or a one-element array
+type ForecastConfigRow = Pick<MaintenanceConfiguration, 'id' | 'instrument_id' | 'maintenance_type' | 'meter_id' | 'meter_interval' | 'meter_baseline'> & {
+    trigger_type: MaintenanceTrigger;
+    instruments: Pick<Instrument, 'eqpId'> | Pick<Instrument, 'eqpId'>[] | null;
+    instrument_meters: Pick<InstrumentMeter, 'name' | 'unit' | 'current_value'> | Pick<InstrumentMeter, 'name' | 'unit' | 'current_value'>[] | null;
+};
+
+/**
+ * Projected due dates of every meter-triggered configuration, soonest first.
+ * Configurations without enough usage history to project are listed last.
+ */
+export async function fetchMeterForecasts(client: SupabaseClient = supabase, now: Date = new Date()): Promise<MeterForecast[]> {
+    const { data: configs, error: configError } = await client
+        .from('maintenance_configurations')
+        .select('id, instrument_id, maintenance_type, trigger_type, meter_id, meter_interval, meter_baseline, instruments(eqpId), instrument_meters(name, unit, current_value)')
+        .in('trigger_type', ['meter', 'either'])
+        .not('meter_id', 'is', null);
+
+    if (configError) {
+        console.error('Error fetching meter configurations:', configError);
+        return [];
+    }
+    if (!configs || configs.length === 0) return [];
+
+    const meterIds = [...new Set(configs.map(c => c.meter_id as string))];
+    const readings = await fetchMeterReadings(meterIds, subDays(now, USAGE_RATE_DAYS * 3), client);
+
+    const instrumentIds = [...new Set(configs.filter(c => c.trigger_type === 'either').map(c => c.instrument_id))];
+    const nextCalendarDue = new Map<string, Date>();
+    if (instrumentIds.length > 0) {
+        const { data: schedules } = await client
+            .from('maintenanceSchedules')
+            .select('instrumentId, type, dueDate')
+            .in('instrumentId', instrumentIds)
+            .is('meter_id', null)
+            .not('status', 'in', CLOSED_STATUS_FILTER)
+            .order('dueDate', { ascending: true });
+        (schedules || []).forEach(s => {
+            const key = `${s.instrumentId}_${s.type}`;
+            if (!nextCalendarDue.has(key)) nextCalendarDue.set(key, new Date(s.dueDate));
+        });
+    }
+
+    const forecasts: MeterForecast[] = [];
+    configs.forEach((config: ForecastConfigRow) => {
+        const meter = Array.isArray(config.instrument_meters) ? config.instrument_meters[0] : config.instrument_meters;
+        const instrument = Array.isArray(config.instruments) ? config.instruments[0] : config.instruments;
+        const dueValue = getMeterDueValue(config);
+        if (!meter || dueValue === null) return;
+
+        const currentValue = Number(meter.current_value);
+        const ratePerDay = getUsageRate(readings.filter(r => r.meter_id === config.meter_id), { now });
+        const projectedDate = projectMeterDueDate(currentValue, dueValue, ratePerDay, now);
+        const calendarDueDate = nextCalendarDue.get(`${config.instrument_id}_${config.maintenance_type}`) ?? null;
+        const dueBy = [projectedDate, calendarDueDate]
+            .filter((d): d is Date => !!d)
+            .reduce<Date | null>((earliest, d) => (!earliest || d < earliest ? d : earliest), null);
+
+        forecasts.push({
+            configId: config.id,
+            instrumentId: config.instrument_id,
+            eqpId: instrument?.eqpId || 'Unknown',
+            maintenanceType: config.maintenance_type,
+            triggerType: config.trigger_type,
+            meterName: meter.name,
+            unit: meter.unit,
+            currentValue,
+            dueValue,
+            interval: Number(config.meter_interval),
+            ratePerDay,
+            projectedDate,
+            calendarDueDate,
+            dueBy,
+        });
+    });
+
+    return forecasts.sort((a, b) => {
+        if (!a.dueBy) return b.dueBy ? 1 : 0;
+        if (!b.dueBy) return -1;
+        return a.dueBy.getTime() - b.dueBy.getTime();
+    });
+}
@@ -0,0 +1,220 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import type { UserPermissions } from '@/contexts/auth-context';
+import { LOCATION_PATH_SEPARATOR } from '@/lib/locations';
+
+export type PermissionLevel = UserPermissions[keyof UserPermissions];
+
+export const FEATURE_LABELS: Record<keyof UserPermissions, string> = {
+    dashboard: 'Dashboard',
+    maintenance_history: 'Maintenance History',
+    update_maintenance: 'Update Maintenance',
+    instruments: 'Instruments',
+    design_templates: 'Design Templates',
+    settings: 'Settings',
+    user_management: 'User Management',
+};
+
+// Tables named in feature_permission_rules, as people know them in the app
+const TABLE_LABELS: Record<string, string> = {
+    instruments: 'Instruments',
+    maintenance_configurations: 'Maintenance configurations',
+    maintenanceSchedules: 'Schedules',
+    maintenanceResults: 'Results',
+    maintenance_documents: 'Documents',
+    maintenance_schedule_history: 'Schedule history',
+    maintenance_task_steps: 'Task steps',
+    instrument_meters: 'Meters',
+    meter_readings: 'Meter readings',
+    maintenance_prerequisites: 'Prerequisites',
+    instrument_hierarchy_history: 'Component moves',
+    instrument_lifecycle_transitions: 'Lifecycle transitions',
+    instrument_imports: 'Instrument imports',
+    testTemplates: 'Test templates',
+    instrumentTypes: 'Instrument types',
+    maintenanceTypes: 'Maintenance types',
+    maintenance_type_policies: 'Compliance windows',
+    working_calendars: 'Working calendars',
+    calendar_holidays: 'Holidays',
+    blackout_periods: 'Blackout periods',
+    teams: 'Teams',
+    team_members: 'Team members',
+    user_qualifications: 'Qualifications',
+    location_assignment_defaults: 'Assignment defaults',
+    locations: 'Locations',
+};
+
+// Features that work on instrument records and so can be granted for part of the register
+export const SCOPED_FEATURES: (keyof UserPermissions)[] = ['dashboard', 'maintenance_history', 'update_maintenance', 'instruments'];
+
+export function getTableLabel(tableName: string): string {
+    return TABLE_LABELS[tableName] || tableName;
+}
+
+export type EffectivePermission = {
+    feature: keyof UserPermissions;
+    stored_level: PermissionLevel;
+    effective_level: PermissionLevel;
+};
+
+export type EffectiveTableAccess = {
+    table_name: string;
+    can_read: boolean;
+    can_add: boolean;
+    can_update: boolean;
+    can_delete: boolean;
+};
+
+/**
+ * A grant of one feature for a location subtree or an instrument type, on top of
+ * the user's organization-wide level. Exactly one of location_id and instrument_type is set.
+ */
+export type PermissionScope = {
+    id: string;
+    user_id: string;
+    feature: keyof UserPermissions;
+    level: 'view' | 'edit';
+    location_id: string | null;
+    location_path: string | null;
+    instrument_type: string | null;
+    created_at: string;
+};
+
+export type NewPermissionScope = Pick<PermissionScope, 'user_id' | 'feature' | 'level'> & {
+    location_id?: string | null;
+    instrument_type?: string | null;
+};
+
+type ScopedInstrument = { location?: string | null; instrumentType?: string | null };
+
+/**
+ * The level the database enforces for a feature: admins get 'edit' on everything,
+ * anything missing or unrecognised counts as 'hidden'. Mirrors effective_permission_level().
+ */
+export function getEffectivePermissionLevel(
+    role: string | null | undefined,
+    permissions: Partial<Record<keyof UserPermissions, string>> | null | undefined,
+    feature: keyof UserPermissions
+): PermissionLevel {
+    if (role === 'admin') return 'edit';
+    const level = permissions?.[feature];
+    return level === 'view' || level === 'edit' ? level : 'hidden';
+}
+
+/**
+ * Whether a profile reaches the given level on a feature. 'edit' implies 'view'.
+ */
+export function hasFeaturePermission(
+    profile: { role?: string | null; permissions?: Partial<Record<keyof UserPermissions, string>> | null } | null | undefined,
+    feature: keyof UserPermissions,
+    level: 'view' | 'edit'
+): boolean {
+    const effective = getEffectivePermissionLevel(profile?.role, profile?.permissions, feature);
+    return effective === 'edit' || effective === level;
+}
+
+/**
+ * Whether a grant covers the instrument: same type, or at or below the granted location.
+ * Mirrors scoped_permission_level().
+ */
+export function isInstrumentInScope(instrument: ScopedInstrument, scope: PermissionScope): boolean {
+    if (scope.instrument_type) return scope.instrument_type === instrument.instrumentType;
+    if (!scope.location_path || !instrument.location) return false;
+    return instrument.location === scope.location_path
+        || instrument.location.startsWith(scope.location_path + LOCATION_PATH_SEPARATOR);
+}
+
+/**
+ * Highest level the user's grants give on a feature for this instrument
+ */
+export function getScopedPermissionLevel(
+    scopes: PermissionScope[],
+    feature: keyof UserPermissions,
+    instrument: ScopedInstrument
+): PermissionLevel {
+    const matching = scopes.filter(scope => scope.feature === feature && isInstrumentInScope(instrument, scope));
+    if (matching.some(scope => scope.level === 'edit')) return 'edit';
+    return matching.length > 0 ? 'view' : 'hidden';
+}
+
+/**
+ * Stored and effective level of every feature for one user. Admins only.
+ */
+export async function fetchEffectivePermissions(
+    userId: string,
+    client: SupabaseClient = supabase
+): Promise<EffectivePermission[]> {
+    const { data, error } = await client.rpc('list_effective_permissions', { p_user_id: userId });
+    if (error) {
+        console.error(`Error fetching effective permissions for ${userId}:`, error);
+        return [];
+    }
+    return data || [];
+}
+
+/**
+ * What the database lets one user do with each permission-gated table. Admins only.
+ */
+export async function fetchEffectiveTableAccess(
+    userId: string,
+    client: SupabaseClient = supabase
+): Promise<EffectiveTableAccess[]> {
+    const { data, error } = await client.rpc('list_effective_table_access', { p_user_id: userId });
+    if (error) {
+        console.error(`Error fetching table access for ${userId}:`, error);
+        return [];
+    }
+    return data || [];
+}
+
+/**
+ * Scoped grants of one user, or of the signed-in user when no id is given.
+ * Other users' grants are only returned to admins.
+ */
+export async function fetchPermissionScopes(
+    userId?: string,
+    client: SupabaseClient = supabase
+): Promise<PermissionScope[]> {
+    const { data, error } = await client.rpc('list_permission_scopes', { p_user_id: userId ?? null });
+    if (error) {
+        console.error('Error fetching permission scopes:', error);
+        return [];
+    }
+    return data || [];
+}
+
+/**
+ * Grant a feature for a location subtree or an instrument type. Admins only.
+ */
+export async function addPermissionScope(
+    scope: NewPermissionScope,
+    client: SupabaseClient = supabase
+): Promise<{ success: boolean; error?: string }> {
+    const { error } = await client.from('permission_scopes').insert({
+        user_id: scope.user_id,
+        feature: scope.feature,
+        level: scope.level,
+        location_id: scope.location_id || null,
+        instrument_type: scope.instrument_type || null,
+    });
+    if (error) {
+        console.error('Error adding permission scope:', error);
+        return { success: false, error: error.message };
+    }
+    return { success: true };
+}
+
+/**
+ * Withdraw a scoped grant. Admins only.
+ */
+export async function removePermissionScope(
+    scopeId: string,
+    client: SupabaseClient = supabase
+): Promise<{ success: boolean; error?: string }> {
+    const { error } = await client.from('permission_scopes').delete().eq('id', scopeId);
+    if (error) {
+        console.error(`Error removing permission scope ${scopeId}:`, error);
+        return { success: false, error: error.message };
+    }
+    return { success: true };
+}
@@ -8,3 +8,18 @@ export type ImagePlaceholder = {
 };
 
 export const PlaceHolderImages: ImagePlaceholder[] = data.placeholderImages;
+
+const instrumentTypeToImageId: Record<string, string> = {
+  'Lab Balance': 'microscope',
+  'Scale': 'microscope',
+  'pH Meter': 'pcr-machine',
+  'Tap Density Tester': 'hplc-system',
+  'UV-Vis Spectrophotometer': 'spectrometer',
+  'GC': 'hplc-system',
+  'Spectrometer': 'spectrometer',
+};
+
+// Placeholder image shown for an instrument type without an uploaded image
+export function getInstrumentImageId(instrumentType: string): string {
+  return instrumentTypeToImageId[instrumentType] || 'centrifuge';
+}
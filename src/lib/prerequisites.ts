@@ -0,0 +1,39 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import type { BlockingPrerequisite } from '@/lib/types';
+
+export const formatLag = (lagDays: number) =>
+    lagDays === 0 ? 'as soon as it completes' : `within ${lagDays} day${lagDays === 1 ? '' : 's'} after it completes`;
+
+/**
+ * Open prerequisite occurrences that must be closed before results can be entered
+ * for this schedule. Pairing follows get_blocking_prerequisites: the latest
+ * prerequisite occurrence whose nominal date is not after the schedule's own.
+ */
+export async function fetchBlockingPrerequisites(
+    scheduleId: string,
+    client: SupabaseClient = supabase
+): Promise<BlockingPrerequisite[]> {
+    const { data, error } = await client.rpc('get_blocking_prerequisites', { p_schedule_id: scheduleId });
+    if (error) {
+        console.error('Error checking prerequisites:', error);
+        return [];
+    }
+    return data || [];
+}
+
+/**
+ * After a schedule is completed, move the dependent occurrences waiting on it to
+ * the completion date plus their lag. Each move is recorded in the schedule history.
+ */
+export async function followPrerequisiteCompletion(
+    scheduleId: string,
+    client: SupabaseClient = supabase
+): Promise<{ success: boolean; count: number; error?: string }> {
+    const { data, error } = await client.rpc('follow_prerequisite_completion', { p_schedule_id: scheduleId });
+    if (error) {
+        console.error('Error moving dependent schedules:', error);
+        return { success: false, count: 0, error: error.message };
+    }
+    return { success: true, count: data || 0 };
+}
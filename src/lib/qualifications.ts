@@ -0,0 +1,120 @@
+import { addDays, format, parseISO, startOfDay } from 'date-fns';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import type { QualificationStatus, UserQualification } from '@/lib/types';
+
+// Qualifications expiring within this many days are flagged for renewal
+export const QUALIFICATION_EXPIRY_WARNING_DAYS = 60;
+
+export const QUALIFICATION_STATUS_LABELS: Record<QualificationStatus, string> = {
+    current: 'Current',
+    expiring: 'Expiring soon',
+    expired: 'Expired',
+    missing: 'Not qualified',
+};
+
+const QUALIFICATION_COLUMNS = 'id, user_id, instrument_type, template_id, sop_version, trained_on, expires_on, evidence_url, evidence_name, notes';
+
+export async function fetchQualifications(
+    userId?: string,
+    client: SupabaseClient = supabase
+): Promise<UserQualification[]> {
+    let query = client.from('user_qualifications').select(QUALIFICATION_COLUMNS);
+    if (userId) query = query.eq('user_id', userId);
+
+    const { data, error } = await query;
+    if (error) {
+        console.error('Error fetching qualifications:', error);
+        return [];
+    }
+    return data || [];
+}
+
+// Training and expiry dates are plain dates, so they are read in local time
+export const formatQualificationDate = (date: string) => format(parseISO(date), 'd MMM yyyy');
+
+/**
+ * A qualification is valid through the end of its expiry date
+ */
+export function getQualificationStatus(
+    qualification: Pick<UserQualification, 'expires_on'> | undefined,
+    now: Date = new Date()
+): QualificationStatus {
+    if (!qualification) return 'missing';
+    if (!qualification.expires_on) return 'current';
+    const today = format(startOfDay(now), 'yyyy-MM-dd');
+    if (qualification.expires_on < today) return 'expired';
+    const warnFrom = format(addDays(now, QUALIFICATION_EXPIRY_WARNING_DAYS), 'yyyy-MM-dd');
+    return qualification.expires_on <= warnFrom ? 'expiring' : 'current';
+}
+
+export type QualificationScope = {
+    instrumentType?: string | null;
+    templateId?: string | null;
+};
+
+/**
+ * The qualification that lets a user perform work of this scope. A record for the
+ * instrument type or for the template both count; a valid one wins over an expired
+ * one, then a template-specific one, then the one that runs longest.
+ */
+export function findQualification(
+    qualifications: UserQualification[],
+    userId: string | null | undefined,
+    scope: QualificationScope,
+    now: Date = new Date()
+): { status: QualificationStatus; qualification?: UserQualification } {
+    const matches = qualifications.filter(q =>
+        q.user_id === userId &&
+        ((!!scope.templateId && q.template_id === scope.templateId) ||
+            (!!scope.instrumentType && q.instrument_type === scope.instrumentType))
+    );
+    if (matches.length === 0) return { status: 'missing' };
+
+    const rank = (q: UserQualification) => [
+        getQualificationStatus(q, now) === 'expired' ? 1 : 0,
+        q.template_id ? 0 : 1,
+        q.expires_on ? -new Date(q.expires_on).getTime() : -Infinity,
+    ];
+    const [best] = [...matches].sort((a, b) => {
+        const ra = rank(a);
+        const rb = rank(b);
+        for (let i = 0; i < ra.length; i++) {
+            if (ra[i] !== rb[i]) return ra[i] < rb[i] ? -1 : 1;
+        }
+        return 0;
+    });
+    return { status: getQualificationStatus(best, now), qualification: best };
+}
+
+export const isQualified = (
+    qualifications: UserQualification[],
+    userId: string | null | undefined,
+    scope: QualificationScope,
+    now: Date = new Date()
+) => {
+    const { status } = findQualification(qualifications, userId, scope, now);
+    return status === 'current' || status === 'expiring';
+};
+
+/**
+ * Store a training certificate or sign-off sheet alongside maintenance documents
+ */
+export async function uploadQualificationEvidence(
+    file: File,
+    userId: string
+): Promise<{ url: string; name: string } | null> {
+    const fileExt = file.name.split('.').pop();
+    const fileName = `qualifications/${userId}_${Date.now()}.${fileExt}`;
+
+    const { error } = await supabase.storage
+        .from('maintenance-documents')
+        .upload(fileName, file, { cacheControl: '3600', upsert: false });
+    if (error) {
+        console.error('Error uploading qualification evidence:', error);
+        return null;
+    }
+
+    const { data: { publicUrl } } = supabase.storage.from('maintenance-documents').getPublicUrl(fileName);
+    return { url: publicUrl, name: file.name };
+}
@@ -0,0 +1,459 @@
+/**
+ * RFC 5545 recurrence rule (RRULE) engine used for maintenance scheduling.
+ *
+ * Supports the subset our SOPs need: FREQ, INTERVAL, BYDAY (with ordinals),
+ * BYMONTHDAY, BYMONTH, BYSETPOS, UNTIL and COUNT. Weeks start on Monday.
+ *
+ * One deliberate deviation from the RFC: a MONTHLY/YEARLY rule without any
+ * BYxxx part is clamped to the last day of short months (Jan 31 -> Feb 28)
+ * instead of skipping them, matching how date-fns' addMonths behaves elsewhere.
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export type WeekdaySpec = {
+    weekday: Weekday;
+    n?: number; // e.g. 2 for "2nd Tuesday", -1 for "last Friday"
+};
+
+export type RecurrenceRule = {
+    freq: RecurrenceFrequency;
+    interval: number;
+    byDay?: WeekdaySpec[];
+    byMonthDay?: number[];
+    byMonth?: number[];
+    bySetPos?: number[];
+    until?: Date;
+    count?: number;
+};
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']; // index = Date#getDay()
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+    MO: 'Monday', TU: 'Tuesday', WE: 'Wednesday', TH: 'Thursday', FR: 'Friday', SA: 'Saturday', SU: 'Sunday',
+};
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Safety limit so rules that can never match (e.g. BYMONTH=2;BYMONTHDAY=30) terminate
+const MAX_PERIODS = 10000;
+
+/**
+ * Ready-made rules for the patterns our SOPs ask for most often
+ */
+export const RECURRENCE_PRESETS: { label: string; rule: string }[] = [
+    { label: 'Every 2nd Tuesday of the month', rule: 'FREQ=MONTHLY;BYDAY=2TU' },
+    { label: 'Every 2 weeks on Monday', rule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO' },
+    { label: 'Every 45 days', rule: 'FREQ=DAILY;INTERVAL=45' },
+    { label: 'Every 18 months', rule: 'FREQ=MONTHLY;INTERVAL=18' },
+    { label: 'First working day of each quarter', rule: 'FREQ=MONTHLY;BYMONTH=1,4,7,10;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=1' },
+    { label: 'Last day of each month', rule: 'FREQ=MONTHLY;BYMONTHDAY=-1' },
+];
+
+function parseIntList(value: string, name: string, isValid: (n: number) => boolean): number[] {
+    return value.split(',').map(part => {
+        const n = Number(part);
+        if (!Number.isInteger(n) || !isValid(n)) {
+            throw new Error(`Invalid ${name} value "${part}"`);
+        }
+        return n;
+    });
+}
+
+function parseUntil(value: string): Date {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+    if (!match) {
+        throw new Error(`Invalid UNTIL value "${value}"`);
+    }
+    const [, y, m, d, hh, mm, ss, utc] = match;
+    if (!hh) {
+        // Date-only UNTIL is inclusive of the whole day
+        return new Date(Number(y), Number(m) - 1, Number(d), 23, 59, 59, 999);
+    }
+    if (utc) {
+        return new Date(Date.UTC(Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss)));
+    }
+    return new Date(Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss));
+}
+
+/**
+ * Parse an RRULE string such as "FREQ=MONTHLY;INTERVAL=3;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=1".
+ * An optional leading "RRULE:" is accepted. Throws on anything invalid or unsupported.
+ */
+export function parseRecurrenceRule(text: string): RecurrenceRule {
+    const body = text.trim().replace(/^RRULE:/i, '');
+    if (!body) {
+        throw new Error('Recurrence rule is empty');
+    }
+
+    const rule: Partial<RecurrenceRule> = { interval: 1 };
+
+    for (const part of body.split(';').filter(Boolean)) {
+        const [rawKey, value] = part.split('=');
+        const key = rawKey?.toUpperCase();
+        if (!key || value === undefined || value === '') {
+            throw new Error(`Malformed rule part "${part}"`);
+        }
+
+        switch (key) {
+            case 'FREQ': {
+                const freq = value.toUpperCase() as RecurrenceFrequency;
+                if (!FREQUENCIES.includes(freq)) {
+                    throw new Error(`Unsupported FREQ "${value}" (use DAILY, WEEKLY, MONTHLY or YEARLY)`);
+                }
+                rule.freq = freq;
+                break;
+            }
+            case 'INTERVAL':
+                rule.interval = parseIntList(value, 'INTERVAL', n => n >= 1)[0];
+                break;
+            case 'COUNT':
+                rule.count = parseIntList(value, 'COUNT', n => n >= 1)[0];
+                break;
+            case 'UNTIL':
+                rule.until = parseUntil(value);
+                break;
+            case 'BYMONTH':
+                rule.byMonth = parseIntList(value, 'BYMONTH', n => n >= 1 && n <= 12);
+                break;
+            case 'BYMONTHDAY':
+                rule.byMonthDay = parseIntList(value, 'BYMONTHDAY', n => n !== 0 && Math.abs(n) <= 31);
+                break;
+            case 'BYSETPOS':
+                rule.bySetPos = parseIntList(value, 'BYSETPOS', n => n !== 0 && Math.abs(n) <= 366);
+                break;
+            case 'BYDAY':
+                rule.byDay = value.split(',').map(item => {
+                    const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/i.exec(item);
+                    if (!match) {
+                        throw new Error(`Invalid BYDAY value "${item}"`);
+                    }
+                    const n = match[1] ? Number(match[1]) : undefined;
+                    if (n !== undefined && (n === 0 || Math.abs(n) > 53)) {
+                        throw new Error(`Invalid BYDAY ordinal "${item}"`);
+                    }
+                    return { weekday: match[2].toUpperCase() as Weekday, n };
+                });
+                break;
+            case 'WKST':
+                // Weeks always start on Monday here; accepted for compatibility
+                break;
+            default:
+                throw new Error(`Unsupported rule part "${key}"`);
+        }
+    }
+
+    if (!rule.freq) {
+        throw new Error('Recurrence rule must include FREQ');
+    }
+    if (rule.count !== undefined && rule.until !== undefined) {
+        throw new Error('COUNT and UNTIL cannot be used together');
+    }
+    if (rule.byDay?.some(d => d.n !== undefined) && rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY') {
+        throw new Error('Numbered BYDAY values (e.g. 2TU) need FREQ=MONTHLY or FREQ=YEARLY');
+    }
+
+    return rule as RecurrenceRule;
+}
+
+/**
+ * Returns true when the text is a rule this engine can run
+ */
+export function isValidRecurrenceRule(text: string | null | undefined): boolean {
+    if (!text) return false;
+    try {
+        parseRecurrenceRule(text);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function pad(n: number): string {
+    return String(n).padStart(2, '0');
+}
+
+/**
+ * Serialize a rule back to its RRULE text form (without the "RRULE:" prefix)
+ */
+export function serializeRecurrenceRule(rule: RecurrenceRule): string {
+    const parts = [`FREQ=${rule.freq}`];
+    if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+    if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+    if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+    if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map(d => `${d.n ?? ''}${d.weekday}`).join(',')}`);
+    if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+    if (rule.until) {
+        const u = rule.until;
+        parts.push(`UNTIL=${u.getFullYear()}${pad(u.getMonth() + 1)}${pad(u.getDate())}`);
+    }
+    if (rule.count) parts.push(`COUNT=${rule.count}`);
+    return parts.join(';');
+}
+
+/**
+ * Map the legacy fixed frequencies onto equivalent rules.
+ * Unknown values fall back to monthly, as the old generator did.
+ */
+export function frequencyToRecurrenceRule(frequency: string): RecurrenceRule {
+    switch (frequency) {
+        case 'Daily': return { freq: 'DAILY', interval: 1 };
+        case 'Weekly': return { freq: 'WEEKLY', interval: 1 };
+        case 'Monthly': return { freq: 'MONTHLY', interval: 1 };
+        case '3 Months':
+        case 'Quarterly': return { freq: 'MONTHLY', interval: 3 };
+        case '6 Months':
+        case 'Semi-Annual': return { freq: 'MONTHLY', interval: 6 };
+        case '1 Year':
+        case 'Annual': return { freq: 'YEARLY', interval: 1 };
+        default: return { freq: 'MONTHLY', interval: 1 };
+    }
+}
+
+/**
+ * The rule that drives a configuration: its own RRULE when set, otherwise its legacy frequency
+ */
+export function resolveRecurrenceRule(frequency: string, recurrenceRule?: string | null): RecurrenceRule {
+    if (recurrenceRule) {
+        return parseRecurrenceRule(recurrenceRule);
+    }
+    return frequencyToRecurrenceRule(frequency);
+}
+
+function daysInMonth(year: number, month: number): number {
+    return new Date(year, month + 1, 0).getDate();
+}
+
+function matchesMonthDay(day: Date, byMonthDay: number[]): boolean {
+    const dim = daysInMonth(day.getFullYear(), day.getMonth());
+    const d = day.getDate();
+    return byMonthDay.some(md => (md > 0 ? md === d : dim + md + 1 === d));
+}
+
+function matchesWeekday(day: Date, specs: WeekdaySpec[]): boolean {
+    const weekday = WEEKDAYS[day.getDay()];
+    return specs.some(spec => spec.weekday === weekday);
+}
+
+/**
+ * Filter a contiguous block of days (a month or a year) by BYDAY, honouring ordinals within that block
+ */
+function filterByDayInBlock(days: Date[], specs: WeekdaySpec[]): Date[] {
+    return days.filter(day => {
+        const weekday = WEEKDAYS[day.getDay()];
+        return specs.some(spec => {
+            if (spec.weekday !== weekday) return false;
+            if (spec.n === undefined) return true;
+            const sameWeekday = days.filter(d => d.getDay() === day.getDay());
+            const index = sameWeekday.findIndex(d => d.getTime() === day.getTime());
+            return spec.n > 0 ? index === spec.n - 1 : index === sameWeekday.length + spec.n;
+        });
+    });
+}
+
+function monthDays(year: number, month: number): Date[] {
+    const count = daysInMonth(year, month);
+    return Array.from({ length: count }, (_, i) => new Date(year, month, i + 1));
+}
+
+function expandMonth(rule: RecurrenceRule, dtstart: Date, year: number, month: number): Date[] {
+    let days = monthDays(year, month);
+    if (rule.byMonthDay?.length) {
+        days = days.filter(d => matchesMonthDay(d, rule.byMonthDay!));
+    }
+    if (rule.byDay?.length) {
+        days = filterByDayInBlock(days, rule.byDay);
+    }
+    if (!rule.byMonthDay?.length && !rule.byDay?.length) {
+        const day = Math.min(dtstart.getDate(), daysInMonth(year, month));
+        days = [new Date(year, month, day)];
+    }
+    return days;
+}
+
+/**
+ * Candidate days for the k-th period of the rule, before BYSETPOS/COUNT/UNTIL are applied
+ */
+function expandPeriod(rule: RecurrenceRule, dtstart: Date, k: number): { periodStart: Date; days: Date[] } {
+    const step = k * rule.interval;
+    const y = dtstart.getFullYear();
+    const m = dtstart.getMonth();
+    const d = dtstart.getDate();
+
+    switch (rule.freq) {
+        case 'DAILY': {
+            const day = new Date(y, m, d + step);
+            const keep = (!rule.byMonth || rule.byMonth.includes(day.getMonth() + 1))
+                && (!rule.byMonthDay || matchesMonthDay(day, rule.byMonthDay))
+                && (!rule.byDay || matchesWeekday(day, rule.byDay));
+            return { periodStart: day, days: keep ? [day] : [] };
+        }
+        case 'WEEKLY': {
+            const mondayOffset = (dtstart.getDay() + 6) % 7;
+            const weekStart = new Date(y, m, d - mondayOffset + step * 7);
+            const week = Array.from({ length: 7 }, (_, i) =>
+                new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + i));
+            let days = rule.byDay?.length
+                ? week.filter(day => matchesWeekday(day, rule.byDay!))
+                : week.filter(day => day.getDay() === dtstart.getDay());
+            if (rule.byMonth) {
+                days = days.filter(day => rule.byMonth!.includes(day.getMonth() + 1));
+            }
+            return { periodStart: weekStart, days };
+        }
+        case 'MONTHLY': {
+            const periodStart = new Date(y, m + step, 1);
+            const year = periodStart.getFullYear();
+            const month = periodStart.getMonth();
+            if (rule.byMonth && !rule.byMonth.includes(month + 1)) {
+                return { periodStart, days: [] };
+            }
+            return { periodStart, days: expandMonth(rule, dtstart, year, month) };
+        }
+        case 'YEARLY': {
+            const year = y + step;
+            const periodStart = new Date(year, 0, 1);
+            if (rule.byMonth?.length) {
+                return {
+                    periodStart,
+                    days: rule.byMonth.slice().sort((a, b) => a - b).flatMap(mo => expandMonth(rule, dtstart, year, mo - 1)),
+                };
+            }
+            if (rule.byMonthDay?.length) {
+                const days = Array.from({ length: 12 }, (_, mo) => monthDays(year, mo)).flat()
+                    .filter(day => matchesMonthDay(day, rule.byMonthDay!));
+                return { periodStart, days: rule.byDay ? days.filter(day => matchesWeekday(day, rule.byDay!)) : days };
+            }
+            if (rule.byDay?.length) {
+                const yearDays = Array.from({ length: 12 }, (_, mo) => monthDays(year, mo)).flat();
+                return { periodStart, days: filterByDayInBlock(yearDays, rule.byDay) };
+            }
+            const day = Math.min(d, daysInMonth(year, m));
+            return { periodStart, days: [new Date(year, m, day)] };
+        }
+    }
+}
+
+function applySetPos(days: Date[], bySetPos?: number[]): Date[] {
+    if (!bySetPos?.length || days.length === 0) return days;
+    const picked = new Set<number>();
+    for (const pos of bySetPos) {
+        const index = pos > 0 ? pos - 1 : days.length + pos;
+        if (index >= 0 && index < days.length) picked.add(days[index].getTime());
+    }
+    return Array.from(picked).sort((a, b) => a - b).map(t => new Date(t));
+}
+
+/**
+ * List occurrences of a rule that starts at `dtstart`.
+ *
+ * `from` is inclusive and `to` exclusive; COUNT is always counted from `dtstart`,
+ * so windows further along the series still honour it.
+ */
+export function getOccurrences(
+    rule: RecurrenceRule,
+    dtstart: Date,
+    options: { from?: Date; to?: Date; limit?: number } = {}
+): Date[] {
+    const { from, to, limit } = options;
+    const results: Date[] = [];
+    let emitted = 0;
+
+    for (let k = 0; k < MAX_PERIODS; k++) {
+        const { periodStart, days } = expandPeriod(rule, dtstart, k);
+        if (to && periodStart >= to) break;
+        if (rule.until && periodStart > rule.until) break;
+
+        const sorted = days.slice().sort((a, b) => a.getTime() - b.getTime());
+        for (const day of applySetPos(sorted, rule.bySetPos)) {
+            const occurrence = new Date(
+                day.getFullYear(), day.getMonth(), day.getDate(),
+                dtstart.getHours(), dtstart.getMinutes(), dtstart.getSeconds(), dtstart.getMilliseconds()
+            );
+            if (occurrence < dtstart) continue;
+            if (rule.until && occurrence > rule.until) return results;
+
+            emitted++;
+            if (rule.count && emitted > rule.count) return results;
+            if (from && occurrence < from) continue;
+            if (to && occurrence >= to) return results;
+
+            results.push(occurrence);
+            if (limit && results.length >= limit) return results;
+        }
+    }
+
+    return results;
+}
+
+/**
+ * First occurrence strictly after `after`, or null when the series has ended
+ */
+export function getNextOccurrence(rule: RecurrenceRule, dtstart: Date, after: Date): Date | null {
+    const [next] = getOccurrences(rule, dtstart, { from: new Date(after.getTime() + 1), limit: 1 });
+    return next ?? null;
+}
+
+function ordinal(n: number): string {
+    if (n === -1) return 'last';
+    if (n < 0) return `${ordinal(-n)} last`;
+    const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+    return `${n}${suffix}`;
+}
+
+function describeDays(specs: WeekdaySpec[]): string {
+    const plain = specs.filter(s => s.n === undefined).map(s => s.weekday);
+    const isWorkweek = plain.length === 5 && ['MO', 'TU', 'WE', 'TH', 'FR'].every(w => plain.includes(w as Weekday));
+    const names = specs
+        .filter(s => !(isWorkweek && s.n === undefined))
+        .map(s => (s.n === undefined ? WEEKDAY_NAMES[s.weekday] : `${ordinal(s.n)} ${WEEKDAY_NAMES[s.weekday]}`));
+    if (isWorkweek) names.unshift('weekday');
+    return names.join(', ');
+}
+
+/**
+ * Human readable summary, e.g. "Every 3 months on the 1st weekday in Jan, Apr, Jul, Oct"
+ */
+export function describeRecurrenceRule(rule: RecurrenceRule): string {
+    const units: Record<RecurrenceFrequency, [string, string]> = {
+        DAILY: ['Daily', 'days'],
+        WEEKLY: ['Weekly', 'weeks'],
+        MONTHLY: ['Monthly', 'months'],
+        YEARLY: ['Yearly', 'years'],
+    };
+    const [single, plural] = units[rule.freq];
+    let text = rule.interval > 1 ? `Every ${rule.interval} ${plural}` : single;
+
+    if (rule.byDay?.length) {
+        const days = describeDays(rule.byDay);
+        text += rule.bySetPos?.length
+            ? ` on the ${rule.bySetPos.map(ordinal).join(', ')} ${days}`
+            : ` on ${rule.byDay.some(d => d.n !== undefined) ? 'the ' : ''}${days}`;
+    } else if (rule.byMonthDay?.length) {
+        text += ` on ${rule.byMonthDay.map(md => (md > 0 ? `day ${md}` : `the ${ordinal(md)} day`)).join(', ')}`;
+    }
+    if (rule.byMonth?.length) {
+        text += ` in ${rule.byMonth.map(mo => MONTH_NAMES[mo - 1]).join(', ')}`;
+    }
+    if (rule.until) {
+        text += `, until ${rule.until.getFullYear()}-${pad(rule.until.getMonth() + 1)}-${pad(rule.until.getDate())}`;
+    }
+    if (rule.count) {
+        text += `, ${rule.count} times`;
+    }
+    return text;
+}
+
+/**
+ * Display label for a configuration's frequency, expanding custom rules
+ */
+export function formatFrequency(frequency: string | undefined, recurrenceRule?: string | null): string {
+    if (recurrenceRule) {
+        try {
+            return describeRecurrenceRule(parseRecurrenceRule(recurrenceRule));
+        } catch {
+            return recurrenceRule;
+        }
+    }
+    return frequency || '';
+}
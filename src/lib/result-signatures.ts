@@ -0,0 +1,62 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import type { ResultSignature, SignatureMeaning } from '@/lib/types';
+
+export const SIGNATURE_MEANING_LABELS: Record<SignatureMeaning, string> = {
+    performed: 'Performed by',
+    reviewed: 'Reviewed by',
+    approved: 'Approved by',
+};
+
+// The order signatures are collected and printed in
+export const SIGNATURE_MEANINGS: SignatureMeaning[] = ['performed', 'reviewed', 'approved'];
+
+/**
+ * Signatures on a result, oldest first, each checked against the result's current content
+ */
+export async function fetchResultSignatures(resultId: string, client: SupabaseClient = supabase): Promise<ResultSignature[]> {
+    const { data, error } = await client.rpc('list_result_signatures', { p_result_id: resultId });
+    if (error) {
+        console.error(`Error fetching signatures for result ${resultId}:`, error);
+        return [];
+    }
+    return data || [];
+}
+
+/**
+ * The standing signature for each meaning. Invalidated ones are kept for the record only.
+ */
+export function getValidSignatures(signatures: ResultSignature[]): Partial<Record<SignatureMeaning, ResultSignature>> {
+    const valid: Partial<Record<SignatureMeaning, ResultSignature>> = {};
+    signatures.forEach(s => {
+        if (s.is_valid) valid[s.meaning] = s;
+    });
+    return valid;
+}
+
+/**
+ * Sign a result as the current user. The signing route checks the password again before recording it.
+ */
+export async function signResult(
+    resultId: string,
+    meaning: SignatureMeaning,
+    password: string,
+    client: SupabaseClient = supabase
+): Promise<{ success: boolean; signature?: ResultSignature; error?: string }> {
+    const { data: { session } } = await client.auth.getSession();
+    try {
+        const response = await fetch('/api/results/signatures', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session?.access_token}` },
+            body: JSON.stringify({ resultId, meaning, password }),
+        });
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+            return { success: false, error: data.error || 'The result could not be signed.' };
+        }
+        return { success: true, signature: data.signature };
+    } catch (err: any) {
+        console.error('Error signing result:', err);
+        return { success: false, error: err.message };
+    }
+}
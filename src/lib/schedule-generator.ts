@@ -1,138 +1,172 @@
 import { supabase } from '@/lib/supabase';
+import { getNextOccurrence, getOccurrences, resolveRecurrenceRule } from '@/lib/recurrence';
+import { getInstrumentWorkingCalendar, shiftToWorkingDay, type WorkingCalendar } from '@/lib/working-calendar';
+import { resolveCompliancePolicy } from '@/lib/compliance';
+import { applyBlackouts, getInstrumentBlackouts } from '@/lib/blackouts';
+import { CLOSED_STATUS_FILTER } from '@/lib/schedule-transitions';
+import type { BlackoutPeriod, MaintenanceTrigger, NonWorkingDayShift } from '@/lib/types';
 
-type MaintenanceFrequency = 'Daily' | 'Weekly' | 'Monthly' | '3 Months' | '6 Months' | '1 Year';
+/**
+ * Calculate the next date in the pattern after `date`.
+ * COUNT/UNTIL are ignored here; this only answers "when would the pattern land next".
+ */
+export function getNextScheduleDate(date: Date, frequency: string, recurrenceRule?: string | null): Date {
+    const rule = resolveRecurrenceRule(frequency, recurrenceRule);
+    const next = getNextOccurrence({ ...rule, count: undefined, until: undefined }, date, date);
+    return next ?? new Date(date);
+}
 
 /**
- * Calculate the next date based on frequency
+ * Due dates a configuration produces in [from, to), anchored at its schedule_date.
+ * Shared by schedule generation and the dashboard's virtual projection.
+ * Meter-only configurations have no calendar series (see evaluateMeterTriggers).
  */
-export function getNextScheduleDate(date: Date, frequency: string): Date {
-    const nextDate = new Date(date);
-    switch (frequency) {
-        case 'Daily':
-            nextDate.setDate(nextDate.getDate() + 1);
-            break;
-        case 'Weekly':
-            nextDate.setDate(nextDate.getDate() + 7);
-            break;
-        case 'Monthly':
-            nextDate.setMonth(nextDate.getMonth() + 1);
-            break;
-        case '3 Months':
-        case 'Quarterly':
-            nextDate.setMonth(nextDate.getMonth() + 3);
-            break;
-        case '6 Months':
-        case 'Semi-Annual':
-            nextDate.setMonth(nextDate.getMonth() + 6);
-            break;
-        case '1 Year':
-        case 'Annual':
-            nextDate.setFullYear(nextDate.getFullYear() + 1);
-            break;
-        default:
-            nextDate.setMonth(nextDate.getMonth() + 1);
-    }
-    return nextDate;
+export function getConfigOccurrences(
+    config: { frequency: string; recurrence_rule?: string | null; schedule_date: string; trigger_type?: MaintenanceTrigger | null },
+    options: { from?: Date; to?: Date; limit?: number } = {}
+): Date[] {
+    if (config.trigger_type === 'meter') return [];
+    const rule = resolveRecurrenceRule(config.frequency, config.recurrence_rule);
+    return getOccurrences(rule, new Date(config.schedule_date), options);
 }
 
+type ScheduleSource = {
+    instrument_id: string;
+    maintenance_type: string;
+    template_id?: string | null;
+    user_id?: string | null;
+    org_id?: string | null;
+    maintenanceBy?: string | null;
+    vendorName?: string | null;
+    vendorContact?: string | null;
+};
+
 /**
- * Get the number of occurrences for a frequency within 1 year
+ * Shift nominal dates onto working days, then defer or drop those inside a blackout
+ * period (see applyBlackouts). If a resulting date collides with a date already in
+ * `usedDueDates` (e.g. a daily rule over a weekend or a shutdown), that occurrence is dropped.
  */
-function getOccurrencesPerYear(frequency: string): number {
-    switch (frequency) {
-        case 'Daily': return 365;
-        case 'Weekly': return 52;
-        case 'Monthly': return 12;
-        case '3 Months':
-        case 'Quarterly': return 4;
-        case '6 Months':
-        case 'Semi-Annual': return 2;
-        case '1 Year':
-        case 'Annual': return 1;
-        default: return 12;
-    }
+export function planDueDates(
+    nominalDates: Date[],
+    calendar: WorkingCalendar | null,
+    shift: NonWorkingDayShift,
+    usedDueDates: Set<string>,
+    blackouts: BlackoutPeriod[] = []
+): { nominal: Date; due: Date }[] {
+    const planned: { nominal: Date; due: Date }[] = [];
+    nominalDates.forEach(nominal => {
+        const due = applyBlackouts(shiftToWorkingDay(nominal, calendar, shift), blackouts, calendar);
+        if (!due || usedDueDates.has(due.toDateString())) return;
+        usedDueDates.add(due.toDateString());
+        planned.push({ nominal, due });
+    });
+    return planned;
 }
 
 /**
- * Generate 1 year of maintenance schedules for a configuration
+ * The maintenanceSchedules row for one planned occurrence of a configuration
  */
-export async function generateYearSchedules(config: {
-    id: string;
-    instrument_id: string;
-    maintenance_type: string;
+export function buildScheduleRow(config: ScheduleSource, dates: { nominal: Date; due: Date }, isLastOfYear: boolean) {
+    return {
+        instrumentId: config.instrument_id,
+        dueDate: dates.due.toISOString(),
+        nominal_due_date: dates.nominal.toISOString(),
+        type: config.maintenance_type,
+        description: `Scheduled ${config.maintenance_type}`,
+        status: 'Scheduled',
+        template_id: config.template_id || null,
+        user_id: config.user_id,
+        org_id: config.org_id || null,
+        maintenanceBy: config.maintenanceBy || 'internal',
+        vendorName: config.vendorName || null,
+        vendorContact: config.vendorContact || null,
+        is_last_of_year: isLastOfYear,
+    };
+}
+
+type YearScheduleConfig = ScheduleSource & {
     frequency: string;
+    recurrence_rule?: string | null;
+    trigger_type?: MaintenanceTrigger | null;
+    non_working_day_shift?: NonWorkingDayShift | null;
     schedule_date: string;
-    template_id?: string | null;
+};
+
+/**
+ * The schedule rows for 1 year of a configuration, without writing anything.
+ * Occurrences whose nominal date is in `existingNominalDates` are skipped, and due dates
+ * already in `usedDueDates` are not used twice (see planDueDates).
+ * Throws when the configuration's recurrence rule is invalid.
+ */
+export function planYearSchedules(
+    config: YearScheduleConfig,
+    context: {
+        calendar: WorkingCalendar | null;
+        blackouts: BlackoutPeriod[];
+        existingNominalDates?: Set<string>;
+        usedDueDates?: Set<string>;
+        from?: Date;
+    }
+) {
+    // For local deployment, generate schedules for 1 full year from the window start
+    // (not from now), to ensure we always get the expected number of occurrences
+    const windowStart = context.from ?? new Date(config.schedule_date);
+    const windowEnd = new Date(windowStart);
+    windowEnd.setFullYear(windowEnd.getFullYear() + 1);
+
+    const existingNominalDates = context.existingNominalDates ?? new Set<string>();
+    const nominalDates = getConfigOccurrences(config, { from: windowStart, to: windowEnd })
+        .filter(date => !existingNominalDates.has(date.toDateString()));
+
+    const shift = config.non_working_day_shift || 'none';
+    const dueDates = planDueDates(nominalDates, context.calendar, shift, context.usedDueDates ?? new Set(), context.blackouts);
+    return dueDates.map((dates, index) => buildScheduleRow(config, dates, index === dueDates.length - 1));
+}
+
+/**
+ * Generate 1 year of maintenance schedules for a configuration.
+ * Occurrences come from the configuration's recurrence rule (or its legacy frequency),
+ * anchored at schedule_date. Pass `from` to generate a later year of the same series.
+ * Dates falling on a non-working day are moved per non_working_day_shift; the rule's
+ * own date is kept in nominal_due_date.
+ */
+export async function generateYearSchedules(config: YearScheduleConfig & {
+    id: string;
     user_id?: string;
-    org_id?: string | null;
     maintenanceBy?: string;
-    vendorName?: string | null;
-    vendorContact?: string | null;
-}): Promise<{ success: boolean; count: number; error?: string }> {
+}, options: { from?: Date } = {}): Promise<{ success: boolean; count: number; error?: string }> {
     // First check if schedules already exist for this instrument and type
     const { data: existingSchedules, error: checkError } = await supabase
         .from('maintenanceSchedules')
-        .select('id, dueDate')
+        .select('id, dueDate, nominal_due_date')
         .eq('instrumentId', config.instrument_id)
         .eq('type', config.maintenance_type)
+        .is('meter_id', null)
         .neq('status', 'Completed');
 
     if (checkError) {
         console.error('Error checking existing schedules:', checkError);
     }
 
-    // Create a set of existing due dates to avoid duplicates
-    const existingDueDates = new Set(
+    // Create sets of existing nominal and actual due dates to avoid duplicates
+    const existingNominalDates = new Set(
+        (existingSchedules || []).map(s => new Date(s.nominal_due_date || s.dueDate).toDateString())
+    );
+    const usedDueDates = new Set(
         (existingSchedules || []).map(s => new Date(s.dueDate).toDateString())
     );
 
-    const occurrences = getOccurrencesPerYear(config.frequency);
-    const schedules: any[] = [];
-    let currentDate = new Date(config.schedule_date);
-
-    // For local deployment, generate schedules for 1 full year from the schedule_date
-    // (not from now), to ensure we always get the expected number of occurrences
-    const endDate = new Date(config.schedule_date);
-    endDate.setFullYear(endDate.getFullYear() + 1);
-
-    let generated = 0;
-    let iterations = 0;
-    const maxIterations = occurrences * 2; // Safety limit
-
-    while (generated < occurrences && iterations < maxIterations) {
-        iterations++;
-
-        // Skip if this due date already exists
-        if (existingDueDates.has(currentDate.toDateString())) {
-            currentDate = getNextScheduleDate(currentDate, config.frequency);
-            // Don't increment 'generated' - we still need to create this many new schedules
-            continue;
-        }
-
-        // Check if we're past the 1-year window - if so, stop generating
-        if (currentDate > endDate) {
-            break;
-        }
-
-        const isLast = generated === occurrences - 1;
-
-        schedules.push({
-            instrumentId: config.instrument_id,
-            dueDate: currentDate.toISOString(),
-            type: config.maintenance_type,
-            description: `Scheduled ${config.maintenance_type}`,
-            status: 'Scheduled',
-            template_id: config.template_id || null,
-            user_id: config.user_id,
-            org_id: config.org_id || null,
-            maintenanceBy: config.maintenanceBy || 'internal',
-            vendorName: config.vendorName || null,
-            vendorContact: config.vendorContact || null,
-            is_last_of_year: isLast,
-        });
-
-        generated++;
-        currentDate = getNextScheduleDate(currentDate, config.frequency);
+    const calendar = (config.non_working_day_shift || 'none') !== 'none'
+        ? await getInstrumentWorkingCalendar(config.instrument_id, config.org_id)
+        : null;
+    const blackouts = await getInstrumentBlackouts(config.instrument_id, config.org_id);
+
+    let schedules: ReturnType<typeof planYearSchedules>;
+    try {
+        schedules = planYearSchedules(config, { calendar, blackouts, existingNominalDates, usedDueDates, from: options.from });
+    } catch (err: any) {
+        console.error('Invalid recurrence rule:', err);
+        return { success: false, count: 0, error: err.message };
     }
 
     if (schedules.length === 0) {
@@ -148,14 +182,72 @@ export async function generateYearSchedules(config: {
 
     return { success: true, count: schedules.length };
 }
+
+/**
+ * Restart the calendar series of an instrument that has returned to service.
+ * Its configurations were suspended (and their pending schedules waived or removed)
+ * while it was Out of Service, so each one gets a year of schedules from today,
+ * still anchored at its own schedule_date.
+ */
+export async function resumeInstrumentSchedules(
+    instrumentId: string,
+    orgId?: string | null
+): Promise<{ success: boolean; count: number; error?: string }> {
+    const { data: configs, error } = await supabase
+        .from('maintenance_configurations')
+        .select('*')
+        .eq('instrument_id', instrumentId)
+        .is('suspended_at', null)
+        .or('is_active.is.null,is_active.eq.true')
+        .neq('trigger_type', 'meter');
+
+    if (error) {
+        console.error('Error loading configurations to resume:', error);
+        return { success: false, count: 0, error: error.message };
+    }
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    let count = 0;
+    for (const config of configs || []) {
+        const result = await generateYearSchedules({ ...config, org_id: config.org_id || orgId }, { from: today });
+        if (!result.success) return { success: false, count, error: result.error };
+        count += result.count;
+    }
+    return { success: true, count };
+}
+
+export type InProgressHandling = 'keep' | 'migrate';
+
+/**
+ * What regenerate_maintenance_schedules did (or, for a dry run, would do)
+ */
+export type RegenerationPlan = {
+    dryRun: boolean;
+    added: { dueDate: string; nominalDueDate: string }[];
+    moved: { id: string; status: string; fromDueDate: string; toDueDate: string; inProgress: boolean }[];
+    removed: { id: string; status: string; dueDate: string }[];
+    kept: { id: string; status: string; dueDate: string }[];
+};
+
 /**
  * Regenerate schedules when configuration changes.
- * Deletes all pending (non-completed) schedules and creates new ones based on new frequency.
+ * The new series is computed here and reconciled with the pending (non-completed) schedules
+ * by the regenerate_maintenance_schedules database function in a single transaction:
+ * matching occurrences are moved in place, the rest are added or removed.
+ * Schedules with recorded results are never removed; `inProgress` decides whether they stay
+ * on their current date ('keep') or move to the nearest new occurrence ('migrate').
+ * Pass `dryRun` to get the plan without changing anything, and `configurationId` to save the
+ * configuration's new frequency, rule and start date in the same transaction.
  */
 export async function regenerateSchedules(config: {
     instrument_id: string;
     maintenance_type: string;
     frequency: string;
+    recurrence_rule?: string | null;
+    trigger_type?: MaintenanceTrigger | null;
+    non_working_day_shift?: NonWorkingDayShift | null;
     schedule_date: string;
     template_id?: string | null;
     user_id?: string;
@@ -163,44 +255,88 @@ export async function regenerateSchedules(config: {
     maintenanceBy?: string;
     vendorName?: string | null;
     vendorContact?: string | null;
-}): Promise<{ success: boolean; deleted: number; created: number; error?: string }> {
-    // Step 1: Delete all pending (non-completed) schedules for this instrument and type
-    const { data: deletedSchedules, error: deleteError } = await supabase
+}, options: { dryRun?: boolean; inProgress?: InProgressHandling; configurationId?: string } = {}): Promise<{
+    success: boolean;
+    deleted: number;
+    created: number;
+    moved: number;
+    kept: number;
+    plan?: RegenerationPlan;
+    error?: string;
+}> {
+    const failed = (error: string) => ({ success: false, deleted: 0, created: 0, moved: 0, kept: 0, error });
+
+    const { data: pendingSchedules, error: fetchError } = await supabase
         .from('maintenanceSchedules')
-        .delete()
+        .select('dueDate, nominal_due_date')
         .eq('instrumentId', config.instrument_id)
         .eq('type', config.maintenance_type)
-        .neq('status', 'Completed')
-        .select('id');
+        .is('meter_id', null)
+        .not('status', 'in', CLOSED_STATUS_FILTER);
 
-    if (deleteError) {
-        console.error('Error deleting pending schedules:', deleteError);
-        return { success: false, deleted: 0, created: 0, error: deleteError.message };
+    if (fetchError) {
+        console.error('Error fetching pending schedules:', fetchError);
+        return failed(fetchError.message);
     }
 
-    const deletedCount = deletedSchedules?.length || 0;
-    console.log(`Deleted ${deletedCount} pending schedules for regeneration`);
+    // Cover at least a year, and as far as the current series already reaches (e.g. after
+    // the horizon job extended it) so those rows are realigned rather than dropped
+    const windowStart = new Date(config.schedule_date);
+    const windowEnd = new Date(windowStart);
+    windowEnd.setFullYear(windowEnd.getFullYear() + 1);
+    (pendingSchedules || []).forEach(s => {
+        const nominal = new Date(s.nominal_due_date || s.dueDate);
+        nominal.setDate(nominal.getDate() + 1);
+        if (nominal > windowEnd) windowEnd.setTime(nominal.getTime());
+    });
 
-    // Step 2: Generate new schedules with the new frequency
-    const result = await generateYearSchedules({
-        id: '', // Not used
-        instrument_id: config.instrument_id,
-        maintenance_type: config.maintenance_type,
-        frequency: config.frequency,
-        schedule_date: config.schedule_date,
-        template_id: config.template_id,
-        user_id: config.user_id,
-        org_id: config.org_id,
-        maintenanceBy: config.maintenanceBy,
-        vendorName: config.vendorName,
-        vendorContact: config.vendorContact,
+    let nominalDates: Date[];
+    try {
+        nominalDates = getConfigOccurrences(config, { from: windowStart, to: windowEnd });
+    } catch (err: any) {
+        console.error('Invalid recurrence rule:', err);
+        return failed(err.message);
+    }
+
+    const shift = config.non_working_day_shift || 'none';
+    const calendar = shift !== 'none'
+        ? await getInstrumentWorkingCalendar(config.instrument_id, config.org_id)
+        : null;
+
+    const blackouts = await getInstrumentBlackouts(config.instrument_id, config.org_id);
+    const dueDates = planDueDates(nominalDates, calendar, shift, new Set(), blackouts);
+    const rows = dueDates.map((dates, index) => buildScheduleRow(config, dates, index === dueDates.length - 1));
+
+    const { data, error } = await supabase.rpc('regenerate_maintenance_schedules', {
+        p_instrument_id: config.instrument_id,
+        p_maintenance_type: config.maintenance_type,
+        p_rows: rows,
+        p_dry_run: !!options.dryRun,
+        p_in_progress: options.inProgress || 'keep',
+        p_configuration: options.configurationId
+            ? {
+                id: options.configurationId,
+                frequency: config.frequency,
+                recurrence_rule: config.recurrence_rule || null,
+                schedule_date: config.schedule_date,
+            }
+            : null,
     });
 
-    if (!result.success) {
-        return { success: false, deleted: deletedCount, created: 0, error: result.error };
+    if (error) {
+        console.error('Error regenerating schedules:', error);
+        return failed(error.message);
     }
 
-    return { success: true, deleted: deletedCount, created: result.count };
+    const plan = data as RegenerationPlan;
+    return {
+        success: true,
+        deleted: plan.removed.length,
+        created: plan.added.length,
+        moved: plan.moved.length,
+        kept: plan.kept.length,
+        plan,
+    };
 }
 
 /**
@@ -219,7 +355,7 @@ export async function updateSchedulesOnFrequencyChange(
         .select('id, dueDate')
         .eq('instrumentId', instrumentId)
         .eq('type', maintenanceType)
-        .neq('status', 'Completed')
+        .not('status', 'in', CLOSED_STATUS_FILTER)
         .order('dueDate', { ascending: true });
 
     if (fetchError) {
@@ -260,7 +396,13 @@ export async function updateSchedulesOnFrequencyChange(
 }
 
 /**
- * Auto-generate next year's schedules when the last schedule is completed
+ * Continue a series after one of its schedules is completed, skipped or marked not required.
+ * Completion-anchored series (see resolveCompliancePolicy) are realigned on every completion
+ * so the next due date counts from the actual completion date. Nominal-anchored series only
+ * need next year's schedules once the last one of the year is done.
+ * Meter-triggered configurations also restart their usage count (see advanceMeterBaseline),
+ * and completing a meter occurrence of a 'whichever comes first' configuration restarts its
+ * calendar series from the completion date.
  */
 export async function checkAndRegenerateSchedules(
     scheduleId: string
@@ -276,36 +418,118 @@ export async function checkAndRegenerateSchedules(
         return { regenerated: false, count: 0 };
     }
 
-    // Only regenerate if this was the last schedule of the year
-    if (!completedSchedule.is_last_of_year) {
-        return { regenerated: false, count: 0 };
-    }
-
     // Get the configuration to know the frequency
     const { data: config } = await supabase
         .from('maintenance_configurations')
-        .select('frequency')
+        .select('*')
         .eq('instrument_id', completedSchedule.instrumentId)
         .eq('maintenance_type', completedSchedule.type)
         .single();
 
-    if (!config) {
+    // Suspended while the instrument is out of service; the series restarts on its return
+    if (!config || config.suspended_at) {
         return { regenerated: false, count: 0 };
     }
 
-    // Generate next year's schedules starting from the completed date
-    const result = await generateYearSchedules({
+    const { data: typePolicy } = await supabase
+        .from('maintenance_type_policies')
+        .select('id, maintenance_type, early_grace_days, late_grace_days, next_due_anchor')
+        .eq('maintenance_type', completedSchedule.type)
+        .maybeSingle();
+    const policy = resolveCompliancePolicy(config, typePolicy);
+
+    const triggerType: MaintenanceTrigger = config.trigger_type || 'calendar';
+    if (triggerType !== 'calendar') {
+        await advanceMeterBaseline(config, completedSchedule);
+        if (triggerType === 'meter') {
+            return { regenerated: false, count: 0 };
+        }
+    }
+
+    const restartsSeries = policy.nextDueAnchor === 'completion' || !!completedSchedule.meter_id;
+    if (restartsSeries && completedSchedule.completedDate) {
+        const nextDue = getNextScheduleDate(new Date(completedSchedule.completedDate), config.frequency, config.recurrence_rule);
+        const result = await regenerateSchedules({
+            ...config,
+            org_id: config.org_id || completedSchedule.org_id,
+            schedule_date: nextDue.toISOString(),
+        });
+        return { regenerated: result.success && result.created + result.moved > 0, count: result.created };
+    }
+
+    // Only regenerate if this was the last schedule of the year
+    if (!completedSchedule.is_last_of_year || completedSchedule.meter_id) {
+        return { regenerated: false, count: 0 };
+    }
+
+    // The horizon job (/api/schedules/horizon) may already have scheduled past this row
+    const { count: laterCount } = await supabase
+        .from('maintenanceSchedules')
+        .select('id', { count: 'exact', head: true })
+        .eq('instrumentId', completedSchedule.instrumentId)
+        .eq('type', completedSchedule.type)
+        .is('meter_id', null)
+        .gt('dueDate', completedSchedule.dueDate);
+
+    if ((laterCount || 0) > 0) {
+        return { regenerated: false, count: 0 };
+    }
+
+    const baseConfig = {
         id: '', // Not used for generation
         instrument_id: completedSchedule.instrumentId,
         maintenance_type: completedSchedule.type,
-        frequency: config.frequency as MaintenanceFrequency,
-        schedule_date: getNextScheduleDate(new Date(completedSchedule.completedDate || completedSchedule.dueDate), config.frequency as MaintenanceFrequency).toISOString(),
+        frequency: config.frequency,
+        non_working_day_shift: config.non_working_day_shift,
         template_id: completedSchedule.template_id,
         user_id: completedSchedule.user_id,
+        org_id: config.org_id || completedSchedule.org_id,
         maintenanceBy: completedSchedule.maintenanceBy,
         vendorName: completedSchedule.vendorName,
         vendorContact: completedSchedule.vendorContact,
-    });
+    };
+    const nominal = new Date(completedSchedule.nominal_due_date || completedSchedule.dueDate);
+
+    // Continue the configuration's own series (e.g. "2nd Tuesday" or the 31st) after this
+    // schedule's nominal date, so the start date never moves and month-end dates do not drift
+    const result = await generateYearSchedules(
+        { ...baseConfig, recurrence_rule: config.recurrence_rule, schedule_date: config.schedule_date },
+        { from: new Date(nominal.getTime() + 1) }
+    );
 
     return { regenerated: result.success, count: result.count };
 }
+
+/**
+ * Move a meter-triggered configuration's baseline on after one of its occurrences closes.
+ * Any completed service restarts the count from the meter's current value; a skipped or
+ * waived meter occurrence moves it to that threshold so the next one is an interval later.
+ */
+async function advanceMeterBaseline(
+    config: { id: string; meter_id?: string | null },
+    schedule: { status: string; meter_id?: string | null; meter_due_value?: number | null }
+): Promise<void> {
+    if (!config.meter_id) return;
+
+    let baseline: number | null = null;
+    if (schedule.status === 'Completed') {
+        const { data: meter } = await supabase
+            .from('instrument_meters')
+            .select('current_value')
+            .eq('id', config.meter_id)
+            .single();
+        baseline = meter ? Number(meter.current_value) : null;
+    } else if (schedule.meter_id === config.meter_id && schedule.meter_due_value != null) {
+        baseline = Number(schedule.meter_due_value);
+    }
+    if (baseline === null) return;
+
+    const { error } = await supabase
+        .from('maintenance_configurations')
+        .update({ meter_baseline: baseline })
+        .eq('id', config.id);
+
+    if (error) {
+        console.error('Error updating meter baseline:', error);
+    }
+}
@@ -0,0 +1,205 @@
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { resolveCompliancePolicy } from '@/lib/compliance';
+import { getOccurrences, resolveRecurrenceRule } from '@/lib/recurrence';
+import { buildScheduleRow, planDueDates } from '@/lib/schedule-generator';
+import { getWorkingCalendar, type WorkingCalendar } from '@/lib/working-calendar';
+import { fetchBlackouts, selectInstrumentBlackouts } from '@/lib/blackouts';
+import { fetchLocationTree, type LocationNode } from '@/lib/locations';
+import { fetchAllPages } from '@/lib/supabase';
+import { fromZonedTime, toZonedTime } from '@/lib/date-utils';
+import type { BlackoutPeriod, MaintenanceConfiguration, MaintenanceEvent } from '@/lib/types';
+
+type HorizonSchedule = Pick<MaintenanceEvent, 'id' | 'instrumentId' | 'type' | 'dueDate' | 'nominal_due_date'>;
+
+export type HorizonConfigReport = {
+    configId: string;
+    instrumentId: string;
+    eqpId: string | null;
+    maintenanceType: string;
+    created: number;
+    dueDates: string[];
+};
+
+export type HorizonReport = {
+    horizonMonths: number;
+    horizonEnd: string;
+    dryRun: boolean;
+    configsChecked: number;
+    created: number;
+    configs: HorizonConfigReport[];
+    errors: { configId: string; error: string }[];
+};
+
+/**
+ * Keep every active configuration populated with schedules up to `months` ahead.
+ * Meter-only configurations are left to evaluateMeterTriggers, and configurations
+ * suspended while their instrument is Out of Service are skipped.
+ *
+ * Each configuration's series is extended after its latest existing schedule, so running
+ * the job twice creates nothing the second time. Past gaps are never backfilled, and
+ * is_last_of_year is neither read nor set.
+ *
+ * Dates are planned on the wall clock of each organization's time zone (UTC when it has
+ * none), so weekdays, month ends and working-day shifts fall on the same days as in the
+ * browser that stores local midnight.
+ */
+export async function fillScheduleHorizon(
+    client: SupabaseClient,
+    options: { months: number; orgId?: string | null; dryRun?: boolean; now?: Date }
+): Promise<HorizonReport> {
+    const now = options.now ?? new Date();
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const horizonEnd = new Date(today);
+    horizonEnd.setMonth(horizonEnd.getMonth() + options.months);
+
+    const report: HorizonReport = {
+        horizonMonths: options.months,
+        horizonEnd: horizonEnd.toISOString(),
+        dryRun: !!options.dryRun,
+        configsChecked: 0,
+        created: 0,
+        configs: [],
+        errors: [],
+    };
+
+    // Scope by instrument, since older configuration rows may not carry org_id. Deleted
+    // instruments drop out here, which also leaves out their configurations.
+    let instrumentQuery = client.from('instruments').select('id, eqpId, location, location_id, org_id').is('deleted_at', null);
+    if (options.orgId) instrumentQuery = instrumentQuery.eq('org_id', options.orgId);
+    const { data: instruments, error: instrumentError } = await instrumentQuery;
+    if (instrumentError) throw instrumentError;
+
+    const instrumentMap = new Map((instruments || []).map(i => [i.id, i]));
+    if (instrumentMap.size === 0) return report;
+
+    let organizationQuery = client.from('organizations').select('id, timezone');
+    if (options.orgId) organizationQuery = organizationQuery.eq('id', options.orgId);
+    const { data: organizations, error: organizationError } = await organizationQuery;
+    if (organizationError) throw organizationError;
+    const timeZoneMap = new Map((organizations || []).map(o => [o.id, o.timezone || 'UTC']));
+
+    const configs = (await fetchAllPages<MaintenanceConfiguration>((from, to) => client
+        .from('maintenance_configurations')
+        .select('*')
+        .or('is_active.is.null,is_active.eq.true')
+        .neq('trigger_type', 'meter')
+        .is('suspended_at', null)
+        .order('id')
+        .range(from, to)))
+        .filter(c => instrumentMap.has(c.instrument_id));
+
+    // Only the tail of each series matters; look back far enough to find it
+    const lookback = new Date(today);
+    lookback.setFullYear(lookback.getFullYear() - 2);
+    const schedules = await fetchAllPages<HorizonSchedule>((from, to) => client
+        .from('maintenanceSchedules')
+        .select('id, instrumentId, type, dueDate, nominal_due_date')
+        .gte('dueDate', lookback.toISOString())
+        .is('meter_id', null)
+        .order('id')
+        .range(from, to));
+
+    const schedulesByKey = new Map<string, HorizonSchedule[]>();
+    schedules.forEach(s => {
+        const key = `${s.instrumentId}_${s.type}`;
+        if (!schedulesByKey.has(key)) schedulesByKey.set(key, []);
+        schedulesByKey.get(key)!.push(s);
+    });
+
+    let policyQuery = client.from('maintenance_type_policies').select('*');
+    if (options.orgId) policyQuery = policyQuery.eq('org_id', options.orgId);
+    const { data: typePolicies, error: policyError } = await policyQuery;
+    if (policyError) throw policyError;
+    const policyMap = new Map((typePolicies || []).map(p => [`${p.org_id}|${p.maintenance_type}`, p]));
+
+    const calendarCache = new Map<string, WorkingCalendar | null>();
+    const blackoutCache = new Map<string, BlackoutPeriod[]>();
+    const locationTreeCache = new Map<string, LocationNode[]>();
+
+    for (const config of configs) {
+        report.configsChecked++;
+        const instrument = instrumentMap.get(config.instrument_id)!;
+        const existing = schedulesByKey.get(`${config.instrument_id}_${config.maintenance_type}`) || [];
+
+        try {
+            const rule = resolveRecurrenceRule(config.frequency, config.recurrence_rule);
+
+            const timeZone = timeZoneMap.get(config.org_id || instrument.org_id) || 'UTC';
+            const zoned = (value: string) => toZonedTime(new Date(value), timeZone);
+            const zonedNow = toZonedTime(now, timeZone);
+            const orgToday = new Date(zonedNow.getFullYear(), zonedNow.getMonth(), zonedNow.getDate());
+            const orgHorizonEnd = new Date(orgToday);
+            orgHorizonEnd.setMonth(orgHorizonEnd.getMonth() + options.months);
+
+            const lastNominal = existing.reduce<Date | null>((latest, s) => {
+                const nominal = zoned(s.nominal_due_date || s.dueDate);
+                return !latest || nominal > latest ? nominal : latest;
+            }, null);
+
+            // Nominal series stay anchored at schedule_date, so month-end dates and BYDAY/COUNT
+            // do not drift; completion-anchored series continue from their latest row.
+            const policy = resolveCompliancePolicy(config, policyMap.get(`${config.org_id || instrument.org_id}|${config.maintenance_type}`));
+            const anchorAtSchedule = policy.nextDueAnchor === 'nominal';
+            const dtstart = anchorAtSchedule || !lastNominal ? zoned(config.schedule_date) : lastNominal;
+            const seriesFrom = lastNominal ? new Date(lastNominal.getTime() + 1) : zoned(config.schedule_date);
+            const from = seriesFrom > orgToday ? seriesFrom : orgToday;
+
+            const existingNominal = new Set(existing.map(s => zoned(s.nominal_due_date || s.dueDate).toDateString()));
+            const nominalDates = getOccurrences(rule, dtstart, { from, to: orgHorizonEnd })
+                .filter(date => !existingNominal.has(date.toDateString()));
+            if (nominalDates.length === 0) continue;
+
+            const shift = config.non_working_day_shift || 'none';
+            let calendar: WorkingCalendar | null = null;
+            if (shift !== 'none') {
+                const orgId = config.org_id || instrument.org_id;
+                const cacheKey = `${orgId}|${instrument.location_id || ''}`;
+                if (!calendarCache.has(cacheKey)) {
+                    calendarCache.set(cacheKey, await getWorkingCalendar(orgId, instrument.location_id, client));
+                }
+                calendar = calendarCache.get(cacheKey)!;
+            }
+
+            const blackoutOrgId = config.org_id || instrument.org_id;
+            if (!blackoutCache.has(blackoutOrgId || '')) {
+                blackoutCache.set(blackoutOrgId || '', await fetchBlackouts(blackoutOrgId, client));
+                locationTreeCache.set(blackoutOrgId || '', await fetchLocationTree(blackoutOrgId, client));
+            }
+            const blackouts = selectInstrumentBlackouts(
+                blackoutCache.get(blackoutOrgId || '')!,
+                instrument,
+                locationTreeCache.get(blackoutOrgId || '')!
+            );
+
+            const usedDueDates = new Set(existing.map(s => zoned(s.dueDate).toDateString()));
+            const planned = planDueDates(nominalDates, calendar, shift, usedDueDates, blackouts);
+            if (planned.length === 0) continue;
+
+            const rows = planned.map(dates => buildScheduleRow(
+                { ...config, org_id: config.org_id || instrument.org_id },
+                { nominal: fromZonedTime(dates.nominal, timeZone), due: fromZonedTime(dates.due, timeZone) },
+                false
+            ));
+
+            if (!options.dryRun) {
+                const { error } = await client.from('maintenanceSchedules').insert(rows);
+                if (error) throw error;
+            }
+
+            report.created += rows.length;
+            report.configs.push({
+                configId: config.id,
+                instrumentId: config.instrument_id,
+                eqpId: instrument.eqpId || null,
+                maintenanceType: config.maintenance_type,
+                created: rows.length,
+                dueDates: rows.map(r => r.dueDate),
+            });
+        } catch (err) {
+            console.error(`Horizon generation failed for configuration ${config.id}:`, err);
+            report.errors.push({ configId: config.id, error: (err as Error | PostgrestError).message || String(err) });
+        }
+    }
+
+    return report;
+}
@@ -0,0 +1,96 @@
+import { supabase } from '@/lib/supabase';
+import type { ScheduleHistoryEntry, ScheduleStatus, ScheduleTransition, TransitionReasonCode } from '@/lib/types';
+
+/**
+ * Statuses that end an occurrence. None of them are rescheduled, regenerated
+ * or counted as open work.
+ */
+export const CLOSED_SCHEDULE_STATUSES: ScheduleStatus[] = ['Completed', 'Skipped', 'Not Required'];
+
+// PostgREST list for .not('status', 'in', ...)
+export const CLOSED_STATUS_FILTER = `(${CLOSED_SCHEDULE_STATUSES.map(s => `"${s}"`).join(',')})`;
+
+export const isClosedStatus = (status?: string | null) =>
+    CLOSED_SCHEDULE_STATUSES.includes(status as ScheduleStatus);
+
+// Closed without the work being done, so left out of compliance figures
+export const isExcusedStatus = (status?: string | null) =>
+    status === 'Skipped' || status === 'Not Required';
+
+export const SCHEDULE_TRANSITION_LABELS: Record<ScheduleTransition, string> = {
+    'Rescheduled': 'Reschedule',
+    'Skipped': 'Skip',
+    'Not Required': 'Not Required',
+};
+
+export const TRANSITION_REASON_CODES: { value: TransitionReasonCode; label: string }[] = [
+    { value: 'instrument_in_use', label: 'Instrument in use' },
+    { value: 'vendor_unavailable', label: 'Vendor unavailable' },
+    { value: 'parts_unavailable', label: 'Parts or standards unavailable' },
+    { value: 'staff_unavailable', label: 'Staff unavailable' },
+    { value: 'production_priority', label: 'Production priority' },
+    { value: 'out_of_service', label: 'Instrument out of service' },
+    { value: 'covered_by_other_work', label: 'Covered by other maintenance' },
+    { value: 'prerequisite_completed', label: 'Prerequisite completed' },
+    { value: 'blackout', label: 'Blackout period' },
+    { value: 'other', label: 'Other' },
+];
+
+export const getReasonCodeLabel = (code?: string | null) =>
+    TRANSITION_REASON_CODES.find(r => r.value === code)?.label || code || '';
+
+export type TransitionResult = {
+    success: boolean;
+    status?: ScheduleStatus;
+    error?: string;
+};
+
+/**
+ * Move a schedule to Rescheduled, Skipped or Not Required and record the reason in its
+ * history, in one database transaction. Callers closing an occurrence should continue
+ * the series with checkAndRegenerateSchedules, as they do after completing one.
+ */
+export async function transitionSchedule(
+    scheduleId: string,
+    to: ScheduleTransition,
+    options: { reasonCode: TransitionReasonCode; reason?: string; dueDate?: Date }
+): Promise<TransitionResult> {
+    if (to === 'Rescheduled' && !options.dueDate) {
+        return { success: false, error: 'A new due date is required' };
+    }
+    if (options.reasonCode === 'other' && !options.reason?.trim()) {
+        return { success: false, error: 'Describe the reason' };
+    }
+
+    const { data, error } = await supabase.rpc('transition_maintenance_schedule', {
+        p_schedule_id: scheduleId,
+        p_to_status: to,
+        p_reason_code: options.reasonCode,
+        p_reason: options.reason?.trim() || null,
+        p_due_date: options.dueDate ? options.dueDate.toISOString() : null,
+    });
+
+    if (error) {
+        console.error(`Error marking schedule ${scheduleId} as ${to}:`, error);
+        return { success: false, error: error.message };
+    }
+
+    return { success: true, status: data?.toStatus };
+}
+
+/**
+ * History of a schedule, newest first
+ */
+export async function fetchScheduleHistory(scheduleId: string): Promise<ScheduleHistoryEntry[]> {
+    const { data, error } = await supabase
+        .from('maintenance_schedule_history')
+        .select('*')
+        .eq('schedule_id', scheduleId)
+        .order('changed_at', { ascending: false });
+
+    if (error) {
+        console.error('Error fetching schedule history:', error);
+        return [];
+    }
+    return data || [];
+}
@@ -0,0 +1,364 @@
+/**
+ * Minimal CSV and XLSX support for imports and exports. XLSX files are zip archives of XML parts;
+ * entries are (de)compressed with the Compression Streams API, available in browsers and Node 18+.
+ */
+
+export type SheetRows = string[][];
+
+export type CellValue = string | number | boolean | null | undefined;
+
+export type WorksheetData = {
+    name: string;
+    rows: CellValue[][]; // First row is the header
+};
+
+/**
+ * Parse CSV text (RFC 4180 quoting). Semicolon-separated files, as saved by Excel in many
+ * locales, are detected from the first line.
+ */
+export function parseCsv(text: string): SheetRows {
+    const firstLine = text.slice(0, text.search(/\r?\n|$/));
+    const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+    const rows: SheetRows = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+
+    return rows
+        .map(r => r.map(c => c.trim()))
+        .filter(r => r.some(c => c !== ''));
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Read every entry of a zip archive, keyed by path
+ */
+async function readZip(buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> {
+    const bytes = new Uint8Array(buffer);
+    const view = new DataView(buffer);
+    const decoder = new TextDecoder();
+
+    // End of central directory record, searched from the end (it may be followed by a comment)
+    let eocd = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+        if (view.getUint32(i, true) === 0x06054b50) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd < 0) throw new Error('The file is not a valid XLSX workbook');
+
+    const entryCount = view.getUint16(eocd + 10, true);
+    let offset = view.getUint32(eocd + 16, true);
+    const entries = new Map<string, Uint8Array>();
+
+    for (let i = 0; i < entryCount; i++) {
+        if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('The XLSX workbook is corrupt');
+        const method = view.getUint16(offset + 10, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const localOffset = view.getUint32(offset + 42, true);
+        const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+        const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const data = bytes.subarray(dataStart, dataStart + compressedSize);
+        if (method === 0) {
+            entries.set(name, data);
+        } else if (method === 8) {
+            entries.set(name, await inflateRaw(data));
+        }
+
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+}
+
+function parseXml(entries: Map<string, Uint8Array>, path: string): Document | null {
+    const data = entries.get(path);
+    if (!data) return null;
+    return new DOMParser().parseFromString(new TextDecoder().decode(data), 'application/xml');
+}
+
+// "AB12" -> 27 (zero-based column index)
+function columnIndex(reference: string): number {
+    const letters = /^[A-Z]+/.exec(reference)?.[0] || 'A';
+    return letters.split('').reduce((sum, letter) => sum * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+// 27 -> "AB"
+function columnName(index: number): string {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+}
+
+/**
+ * Rows of the first worksheet of an XLSX workbook. Cells are returned as text; dates stay as
+ * Excel serial numbers (see excelSerialToDate).
+ */
+export async function readXlsx(buffer: ArrayBuffer): Promise<SheetRows> {
+    const entries = await readZip(buffer);
+
+    const sharedStrings = Array.from(parseXml(entries, 'xl/sharedStrings.xml')?.getElementsByTagName('si') || [])
+        .map(si => Array.from(si.getElementsByTagName('t')).map(t => t.textContent || '').join(''));
+
+    // Resolve the first sheet through the workbook relationships
+    const workbook = parseXml(entries, 'xl/workbook.xml');
+    const relationshipId = workbook?.getElementsByTagName('sheet')[0]?.getAttribute('r:id');
+    const target = Array.from(parseXml(entries, 'xl/_rels/workbook.xml.rels')?.getElementsByTagName('Relationship') || [])
+        .find(r => r.getAttribute('Id') === relationshipId)
+        ?.getAttribute('Target');
+    const sheetPath = target
+        ? target.startsWith('/') ? target.slice(1) : `xl/${target}`
+        : 'xl/worksheets/sheet1.xml';
+
+    const sheet = parseXml(entries, sheetPath);
+    if (!sheet) throw new Error('The workbook has no worksheet');
+
+    const rows: SheetRows = [];
+    for (const rowElement of Array.from(sheet.getElementsByTagName('row'))) {
+        const row: string[] = [];
+        for (const cellElement of Array.from(rowElement.getElementsByTagName('c'))) {
+            const type = cellElement.getAttribute('t');
+            const value = cellElement.getElementsByTagName('v')[0]?.textContent ?? '';
+            let text: string;
+            if (type === 's') {
+                text = sharedStrings[Number(value)] ?? '';
+            } else if (type === 'inlineStr') {
+                text = Array.from(cellElement.getElementsByTagName('t')).map(t => t.textContent || '').join('');
+            } else if (type === 'b') {
+                text = value === '1' ? 'TRUE' : 'FALSE';
+            } else {
+                text = value;
+            }
+            const reference = cellElement.getAttribute('r');
+            row[reference ? columnIndex(reference) : row.length] = text.trim();
+        }
+        rows.push(Array.from(row, cell => cell ?? ''));
+    }
+
+    return rows.filter(r => r.some(c => c !== ''));
+}
+
+/**
+ * Excel stores dates as days since 1899-12-30 (accounting for its 1900 leap year bug)
+ */
+export function excelSerialToDate(serial: number): Date {
+    const date = new Date(1899, 11, 30);
+    date.setDate(date.getDate() + Math.floor(serial));
+    return date;
+}
+
+/**
+ * Read a CSV or XLSX file, chosen by extension
+ */
+export async function readSpreadsheet(file: File): Promise<SheetRows> {
+    if (/\.xlsx$/i.test(file.name)) {
+        return readXlsx(await file.arrayBuffer());
+    }
+    if (/\.xls$/i.test(file.name)) {
+        throw new Error('Legacy .xls files are not supported; save the sheet as .xlsx or .csv');
+    }
+    return parseCsv(await file.text());
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Build a zip archive of deflated entries
+ */
+async function writeZip(files: { path: string; content: string }[]): Promise<Uint8Array> {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const file of files) {
+        const name = encoder.encode(file.path);
+        const raw = encoder.encode(file.content);
+        const compressed = await deflateRaw(raw);
+        const crc = crc32(raw);
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);
+        local.setUint16(4, 20, true); // version needed
+        local.setUint16(8, 8, true); // deflate
+        local.setUint32(14, crc, true);
+        local.setUint32(18, compressed.length, true);
+        local.setUint32(22, raw.length, true);
+        local.setUint16(26, name.length, true);
+
+        const entry = new DataView(new ArrayBuffer(46));
+        entry.setUint32(0, 0x02014b50, true);
+        entry.setUint16(4, 20, true); // version made by
+        entry.setUint16(6, 20, true);
+        entry.setUint16(10, 8, true);
+        entry.setUint32(16, crc, true);
+        entry.setUint32(20, compressed.length, true);
+        entry.setUint32(24, raw.length, true);
+        entry.setUint16(28, name.length, true);
+        entry.setUint32(42, offset, true);
+
+        chunks.push(new Uint8Array(local.buffer), name, compressed);
+        central.push(new Uint8Array(entry.buffer), name);
+        offset += 30 + name.length + compressed.length;
+    }
+
+    const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, files.length, true);
+    end.setUint16(10, files.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    const parts = [...chunks, ...central, new Uint8Array(end.buffer)];
+    const zip = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+    let position = 0;
+    for (const part of parts) {
+        zip.set(part, position);
+        position += part.length;
+    }
+    return zip;
+}
+
+const escapeXml = (text: string) =>
+    text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        // Control characters other than tab and newlines are not allowed in XML
+        .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+
+function worksheetXml(rows: CellValue[][]): string {
+    const body = rows.map((row, r) => {
+        const cells = row.map((value, c) => {
+            const ref = `${columnName(c)}${r + 1}`;
+            const style = r === 0 ? ' s="1"' : '';
+            if (value === null || value === undefined || value === '') return '';
+            if (typeof value === 'number') return Number.isFinite(value) ? `<c r="${ref}"${style}><v>${value}</v></c>` : '';
+            if (typeof value === 'boolean') return `<c r="${ref}"${style} t="b"><v>${value ? 1 : 0}</v></c>`;
+            return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+        }).join('');
+        return `<row r="${r + 1}">${cells}</row>`;
+    }).join('');
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+        + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+        + `<sheetData>${body}</sheetData></worksheet>`;
+}
+
+// Sheet names are limited to 31 characters and may not contain []:*?/\
+const sheetName = (name: string) => name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet';
+
+/**
+ * Write an XLSX workbook with one worksheet per entry. The first row of each sheet is bold and frozen.
+ */
+export async function writeXlsx(sheets: WorksheetData[]): Promise<Uint8Array> {
+    const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+    const files = [
+        {
+            path: '[Content_Types].xml',
+            content: xmlHeader
+                + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+                + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+                + '<Default Extension="xml" ContentType="application/xml"/>'
+                + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+                + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+                + sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+                + '</Types>',
+        },
+        {
+            path: '_rels/.rels',
+            content: xmlHeader
+                + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+                + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+                + '</Relationships>',
+        },
+        {
+            path: 'xl/workbook.xml',
+            content: xmlHeader
+                + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>'
+                + sheets.map((sheet, i) => `<sheet name="${escapeXml(sheetName(sheet.name))}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')
+                + '</sheets></workbook>',
+        },
+        {
+            path: 'xl/_rels/workbook.xml.rels',
+            content: xmlHeader
+                + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+                + sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')
+                + `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`
+                + '</Relationships>',
+        },
+        {
+            path: 'xl/styles.xml',
+            content: xmlHeader
+                + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+                + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+                + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+                + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+                + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+                + '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>'
+                + '</styleSheet>',
+        },
+        ...sheets.map((sheet, i) => ({ path: `xl/worksheets/sheet${i + 1}.xml`, content: worksheetXml(sheet.rows) })),
+    ];
+    return writeZip(files);
+}
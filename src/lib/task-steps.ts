@@ -0,0 +1,65 @@
+import { supabase } from '@/lib/supabase';
+import type { MaintenanceTaskStep } from '@/lib/types';
+
+// Offered when a schedule has no steps yet
+export const DEFAULT_TASK_STEPS = ['Cleaning', 'Parts replaced', 'Functional checks', 'Handover'];
+
+/**
+ * Logged time plus the running timer, if any
+ */
+export function getStepSeconds(step: Pick<MaintenanceTaskStep, 'labour_seconds' | 'timer_started_at'>, now: Date = new Date()): number {
+    const running = step.timer_started_at
+        ? Math.max(0, Math.floor((now.getTime() - new Date(step.timer_started_at).getTime()) / 1000))
+        : 0;
+    return step.labour_seconds + running;
+}
+
+export function formatLabour(seconds: number): string {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    if (hours === 0 && minutes === 0) return seconds > 0 ? '< 1 min' : '0 min';
+    return hours > 0 ? `${hours} h ${minutes} min` : `${minutes} min`;
+}
+
+// Running timers are shown as h:mm:ss
+export function formatTimer(seconds: number): string {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const secs = seconds % 60;
+    return `${hours}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+}
+
+/**
+ * Start or stop a step's timer. Elapsed time is measured on the database clock
+ * (see set_task_step_timer), so a technician's device clock does not matter.
+ */
+export async function setStepTimer(stepId: string, running: boolean): Promise<MaintenanceTaskStep | null> {
+    const { data, error } = await supabase.rpc('set_task_step_timer', { p_step_id: stepId, p_running: running });
+    if (error) {
+        console.error(`Error ${running ? 'starting' : 'stopping'} step timer:`, error);
+        return null;
+    }
+    return data;
+}
+
+/**
+ * Store a step photo alongside the schedule's maintenance documents
+ */
+export async function uploadStepPhoto(
+    file: File,
+    scheduleId: string
+): Promise<{ url: string; name: string } | null> {
+    const fileExt = file.name.split('.').pop();
+    const fileName = `task-steps/${scheduleId}/${Date.now()}.${fileExt}`;
+
+    const { error } = await supabase.storage
+        .from('maintenance-documents')
+        .upload(fileName, file, { cacheControl: '3600', upsert: false });
+    if (error) {
+        console.error('Error uploading step photo:', error);
+        return null;
+    }
+
+    const { data: { publicUrl } } = supabase.storage.from('maintenance-documents').getPublicUrl(fileName);
+    return { url: publicUrl, name: file.name };
+}
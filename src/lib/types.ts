@@ -1,39 +1,230 @@
 
 
 export type InstrumentStatus = 'AMC' | 'PM' | 'Operational' | 'Out of Service';
-export type MaintenanceFrequency = 'Daily' | 'Weekly' | 'Monthly' | '3 Months' | '6 Months' | '1 Year';
+// Where an instrument is in its life; only in_use instruments are released for GMP work
+export type LifecycleState =
+  | 'installation'
+  | 'iq'
+  | 'oq'
+  | 'pq'
+  | 'in_use'
+  | 'quarantined'
+  | 'under_repair'
+  | 'retired'
+  | 'disposed';
+export type MaintenanceFrequency = 'Daily' | 'Weekly' | 'Monthly' | '3 Months' | '6 Months' | '1 Year' | 'Custom';
 export type InstrumentType = "Lab Balance" | "Scale" | "pH Meter" | "Tap Density Tester" | "UV-Vis Spectrophotometer" | "GC" | "Spectrometer";
 export type MaintenanceTaskType = "Calibration" | "Preventative Maintenance" | "Validation" | "AMC";
+export type NonWorkingDayShift = 'none' | 'previous' | 'next';
+export type NextDueAnchor = 'nominal' | 'completion';
+export type ComplianceState = 'upcoming' | 'early' | 'in-window' | 'late-in-grace' | 'out-of-compliance';
+// 'either' = whichever of the calendar date and the meter threshold comes first
+export type MaintenanceTrigger = 'calendar' | 'meter' | 'either';
+// What happens to an occurrence due inside a blackout period
+export type BlackoutPolicy = 'defer' | 'suppress';
+// Skipped and Not Required close an occurrence without doing the work
+export type ScheduleStatus = 'Scheduled' | 'Rescheduled' | 'In Progress' | 'Completed' | 'Overdue' | 'Skipped' | 'Not Required';
+export type ScheduleTransition = 'Rescheduled' | 'Skipped' | 'Not Required';
+export type TransitionReasonCode =
+  | 'instrument_in_use'
+  | 'vendor_unavailable'
+  | 'parts_unavailable'
+  | 'staff_unavailable'
+  | 'production_priority'
+  | 'out_of_service'
+  | 'covered_by_other_work'
+  | 'prerequisite_completed'
+  | 'blackout'
+  | 'other';
 export type MaintenanceResultType = 'calibration' | 'service' | 'spare_quotation' | 'other';
 
 export type MaintenanceEvent = {
   id: string; // Document ID
   instrumentId: string;
   dueDate: string;
+  nominal_due_date?: string | null; // Date the rule produced, before any working-day shift
   type: MaintenanceTaskType;
   description: string;
-  status: 'Scheduled' | 'In Progress' | 'Completed' | 'Overdue';
+  status: ScheduleStatus;
   notes?: string;
   completedDate?: string;
   completionNotes?: string;
   templateId?: string | null;
+  template_id?: string | null; // As stored; templateId is filled from it for display
   frequency?: MaintenanceFrequency;
-  maintenanceBy?: 'self' | 'vendor';
+  recurrenceRule?: string | null;
+  maintenanceBy?: 'self' | 'vendor' | 'internal'; // Generated schedules store 'internal'
   vendorName?: string | null;
   vendorContact?: string | null;
+  meter_id?: string | null; // Set on occurrences raised by a meter threshold
+  meter_due_value?: number | null;
+  assigned_to?: string | null; // Technician (auth user id)
+  assigned_team_id?: string | null;
+  labour_seconds?: number; // Total time logged on its task steps
 };
 
 export type MaintenanceConfiguration = {
   id: string;
+  org_id?: string | null; // Older rows may not carry it; use the instrument's then
   instrument_id: string;
   maintenance_type: string;
   frequency: MaintenanceFrequency;
+  recurrence_rule?: string | null; // RFC 5545 RRULE, used when frequency is 'Custom'
+  non_working_day_shift?: NonWorkingDayShift;
+  early_grace_days?: number | null; // null = use the maintenance type's policy
+  late_grace_days?: number | null;
+  next_due_anchor?: NextDueAnchor | null;
   schedule_date: string;
   template_id?: string | null;
   user_id?: string;
   maintenanceBy?: 'self' | 'vendor';
   vendorName?: string | null;
   vendorContact?: string | null;
+  trigger_type?: MaintenanceTrigger;
+  meter_id?: string | null;
+  meter_interval?: number | null; // Usage between services, in the meter's unit
+  meter_baseline?: number | null; // Meter value at the last service
+  suspended_at?: string | null; // Set while the instrument is Out of Service
+};
+
+export type MaintenanceTypePolicy = {
+  id: string;
+  maintenance_type: string;
+  early_grace_days: number;
+  late_grace_days: number;
+  next_due_anchor?: NextDueAnchor | null;
+  estimated_hours?: number | null; // Expected effort per occurrence, for workload
+};
+
+export type InstrumentMeter = {
+  id: string;
+  org_id?: string | null;
+  instrument_id: string;
+  name: string;
+  unit: string;
+  current_value: number;
+  last_reading_at?: string | null;
+  created_at?: string;
+};
+
+export type MeterReading = {
+  id: string;
+  meter_id: string;
+  value: number;
+  recorded_at: string;
+  is_reset: boolean;
+  source: 'manual' | 'api';
+  notes?: string | null;
+  recorded_by?: string | null;
+};
+
+export type OrgMember = {
+  id: string;
+  display_name: string | null;
+  role: 'admin' | 'user';
+  permissions?: Record<string, string> | null;
+};
+
+export type Team = {
+  id: string;
+  name: string;
+  memberIds: string[];
+};
+
+// Covers either an instrument type or a single test template (SOP)
+export type UserQualification = {
+  id: string;
+  user_id: string;
+  instrument_type: string | null;
+  template_id: string | null;
+  sop_version?: string | null;
+  trained_on?: string | null;
+  expires_on?: string | null; // No expiry when null
+  evidence_url?: string | null;
+  evidence_name?: string | null;
+  notes?: string | null;
+};
+
+export type QualificationStatus = 'current' | 'expiring' | 'expired' | 'missing';
+
+// The configuration waits for the prerequisite configuration on the same instrument
+export type MaintenancePrerequisite = {
+  id: string;
+  configuration_id: string;
+  prerequisite_configuration_id: string;
+  lag_days: number; // Dependent is due this many days after the prerequisite completes
+};
+
+export type BlockingPrerequisite = {
+  schedule_id: string;
+  maintenance_type: string;
+  status: ScheduleStatus;
+  due_date: string;
+  lag_days: number;
+};
+
+// One step of the work on a schedule, separate from template test sections
+export type MaintenanceTaskStep = {
+  id: string;
+  schedule_id: string;
+  position: number;
+  title: string;
+  notes?: string | null;
+  performed_by?: string | null;
+  timer_started_at?: string | null; // Set while the timer runs
+  labour_seconds: number;
+  completed_at?: string | null;
+  photo_url?: string | null;
+  photo_name?: string | null;
+};
+
+// Neither location nor instrument_id = the whole organization
+export type BlackoutPeriod = {
+  id: string;
+  name: string;
+  location_id: string | null;
+  location: string | null; // Path of location_id, kept by the database
+  instrument_id: string | null;
+  starts_on: string; // yyyy-MM-dd, inclusive
+  ends_on: string; // yyyy-MM-dd, inclusive
+  policy: BlackoutPolicy;
+};
+
+export type InstrumentImportStatus = 'pending' | 'committed' | 'rolled_back';
+
+// One CSV/XLSX upload; its instruments carry import_id until rolled back
+export type InstrumentImport = {
+  id: string;
+  file_name: string;
+  instrument_count: number;
+  schedule_count: number;
+  status: InstrumentImportStatus;
+  created_by?: string | null;
+  created_at: string;
+  rolled_back_at?: string | null;
+};
+
+export type LocationAssignmentDefault = {
+  id: string;
+  location: string;
+  assignee_id: string | null;
+  team_id: string | null;
+};
+
+export type ScheduleHistoryAction = 'rescheduled' | 'skipped' | 'not_required';
+
+export type ScheduleHistoryEntry = {
+  id: string;
+  schedule_id: string;
+  action: ScheduleHistoryAction;
+  from_due_date?: string | null;
+  to_due_date?: string | null;
+  from_status?: string | null;
+  to_status?: string | null;
+  reason_code?: TransitionReasonCode | null;
+  reason?: string | null;
+  changed_by?: string | null;
+  changed_at: string;
 };
 
 export type MaintenanceResult = {
@@ -45,6 +236,23 @@ export type MaintenanceResult = {
   notes?: string;
   documentUrl?: string;
   createdAt: string;
+  qualification_id?: string | null; // Qualification the result was entered under
+  qualification_override_id?: string | null; // Or the supervisor override that allowed it
+};
+
+export type SignatureMeaning = 'performed' | 'reviewed' | 'approved';
+
+export type ResultSignature = {
+  id: string;
+  result_id: string;
+  signer_id: string | null;
+  printed_name: string;
+  meaning: SignatureMeaning;
+  content_hash: string; // SHA-256 of the result content when signed
+  signed_at: string;
+  invalidated_at: string | null;
+  invalidated_reason: string | null;
+  is_valid: boolean; // Standing and still matching the result
 };
 
 // Template Section Types
@@ -90,7 +298,8 @@ export type Instrument = {
   make: string;     // Manufacturer
   model: string;
   serialNumber: string;
-  location: string;
+  location: string; // Path of the location, kept in step with location_id by the database
+  location_id?: string | null;
   maintenanceType: string;  // PM, AMC, Calibration, etc.
   scheduleDate: string; // The start date of the first schedule
   frequency: MaintenanceFrequency;
@@ -100,4 +309,45 @@ export type Instrument = {
   maintenanceBy?: 'self' | 'vendor';
   vendorName?: string | null;
   vendorContact?: string | null;
+  default_assignee_id?: string | null; // Assignment new schedules start with
+  default_team_id?: string | null;
+  status?: InstrumentStatus | null;
+  import_id?: string | null; // Bulk import the instrument came from
+  parent_id?: string | null; // System this module is installed in
+  lifecycle_state?: LifecycleState; // Changed only through transition_instrument_lifecycle
+  deleted_at?: string | null; // Set while in the recycle bin; deleted rows are hidden by RLS
+  deleted_by?: string | null;
+};
+
+export type InstrumentLifecycleTransition = {
+  id: string;
+  instrument_id: string;
+  from_state: LifecycleState | null; // Null for the state the instrument was registered in
+  to_state: LifecycleState;
+  reason: string;
+  evidence_url?: string | null;
+  evidence_name?: string | null;
+  changed_by?: string | null;
+  changed_at: string;
+};
+
+export type LocationLevel = 'site' | 'building' | 'room' | 'bench';
+
+export type Location = {
+  id: string;
+  org_id?: string | null;
+  parent_id: string | null;
+  level: LocationLevel;
+  code: string;
+  name: string;
+  created_at?: string;
+};
+
+export type InstrumentHierarchyChange = {
+  id: string;
+  instrument_id: string;
+  from_parent_id: string | null;
+  to_parent_id: string | null;
+  changed_by?: string | null;
+  changed_at: string;
 };
@@ -0,0 +1,222 @@
+import { format } from 'date-fns';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { getOccurrences, parseRecurrenceRule } from '@/lib/recurrence';
+import { getLocationSubtreeIds } from '@/lib/locations';
+import type { NonWorkingDayShift } from '@/lib/types';
+
+export type Holiday = {
+    date: string; // yyyy-MM-dd
+    name: string;
+};
+
+/**
+ * Effective calendar for one instrument: the org default merged with the calendars of its location
+ */
+export type WorkingCalendar = {
+    weeklyOffDays: number[]; // 0 = Sunday ... 6 = Saturday
+    holidays: Set<string>; // yyyy-MM-dd
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const NON_WORKING_DAY_SHIFTS: { value: NonWorkingDayShift; label: string }[] = [
+    { value: 'none', label: 'Keep date' },
+    { value: 'previous', label: 'Previous working day' },
+    { value: 'next', label: 'Next working day' },
+];
+
+// How many years of a recurring ICS holiday (e.g. New Year's Day) to import
+const RECURRING_HOLIDAY_YEARS = 3;
+
+export function isWorkingDay(date: Date, calendar: WorkingCalendar): boolean {
+    if (calendar.weeklyOffDays.includes(date.getDay())) return false;
+    return !calendar.holidays.has(format(date, 'yyyy-MM-dd'));
+}
+
+/**
+ * Move a nominal due date onto a working day. Time of day is preserved.
+ * Returns the date unchanged for 'none' or when the calendar has no working days at all.
+ */
+export function shiftToWorkingDay(date: Date, calendar: WorkingCalendar | null, shift: NonWorkingDayShift | null | undefined): Date {
+    if (!calendar || !shift || shift === 'none' || calendar.weeklyOffDays.length >= 7) {
+        return date;
+    }
+
+    const step = shift === 'previous' ? -1 : 1;
+    const shifted = new Date(date);
+    // A year of consecutive holidays would be a data error; stop rather than loop forever
+    for (let i = 0; i < 366; i++) {
+        if (isWorkingDay(shifted, calendar)) return shifted;
+        shifted.setDate(shifted.getDate() + step);
+    }
+    return date;
+}
+
+/**
+ * Load the calendar that applies to a location: the org default calendar, with weekly
+ * off-days replaced by the nearest calendar of the location or a location above it, and
+ * holidays extended by every such calendar (a site's holidays reach all its rooms).
+ * Returns null when the organization has no calendar configured.
+ * Pass `client` to use a server-side (service role) client instead of the browser one.
+ */
+export async function getWorkingCalendar(
+    orgId: string | null | undefined,
+    locationId?: string | null,
+    client: SupabaseClient = supabase
+): Promise<WorkingCalendar | null> {
+    let query = client
+        .from('working_calendars')
+        .select('id, location_id, weekly_off_days, calendar_holidays(holiday_date)');
+    query = orgId ? query.eq('org_id', orgId) : query.is('org_id', null);
+
+    const { data: calendars, error } = await query;
+    if (error) {
+        console.error('Error loading working calendars:', error);
+        return null;
+    }
+
+    const orgDefault = calendars?.find(c => !c.location_id);
+    let covering: NonNullable<typeof calendars> = [];
+    if (locationId && calendars?.some(c => c.location_id)) {
+        let locationQuery = client.from('locations').select('id, parent_id');
+        locationQuery = orgId ? locationQuery.eq('org_id', orgId) : locationQuery.is('org_id', null);
+        const { data: locations, error: locationError } = await locationQuery;
+        if (locationError) {
+            console.error('Error loading locations for working calendars:', locationError);
+            return null;
+        }
+
+        // A location inside another has the smaller subtree, so the nearest calendar comes first
+        covering = calendars
+            .map(calendar => ({
+                calendar,
+                subtree: calendar.location_id ? getLocationSubtreeIds(calendar.location_id, locations || []) : null,
+            }))
+            .filter(({ subtree }) => subtree?.has(locationId))
+            .sort((a, b) => a.subtree!.size - b.subtree!.size)
+            .map(({ calendar }) => calendar);
+    }
+    if (!orgDefault && covering.length === 0) return null;
+
+    const holidays = new Set<string>();
+    [orgDefault, ...covering].forEach(calendar => {
+        ((calendar?.calendar_holidays as { holiday_date: string }[] | undefined) || [])
+            .forEach(h => holidays.add(h.holiday_date));
+    });
+
+    return {
+        weeklyOffDays: (covering[0] ?? orgDefault)?.weekly_off_days || [],
+        holidays,
+    };
+}
+
+/**
+ * Calendar for an instrument, resolved from its organization and location
+ */
+export async function getInstrumentWorkingCalendar(
+    instrumentId: string,
+    orgId?: string | null,
+    client: SupabaseClient = supabase
+): Promise<WorkingCalendar | null> {
+    const { data: instrument } = await client
+        .from('instruments')
+        .select('location_id, org_id')
+        .eq('id', instrumentId)
+        .single();
+
+    return getWorkingCalendar(orgId ?? instrument?.org_id, instrument?.location_id, client);
+}
+
+/**
+ * Parse holidays from CSV text. Expects a date column (yyyy-MM-dd) and an optional name column;
+ * a header row is detected and skipped.
+ */
+export function parseHolidayCsv(text: string): { holidays: Holiday[]; errors: string[] } {
+    const holidays: Holiday[] = [];
+    const errors: string[] = [];
+
+    text.split(/\r?\n/).forEach((line, index) => {
+        if (!line.trim()) return;
+        const [rawDate, ...rest] = line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
+        if (index === 0 && !/\d/.test(rawDate)) return; // header
+
+        const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(rawDate);
+        const date = match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+        if (!date || date.getMonth() !== Number(match![2]) - 1) {
+            errors.push(`Line ${index + 1}: "${rawDate}" is not a yyyy-MM-dd date`);
+            return;
+        }
+        holidays.push({ date: rawDate, name: rest.join(',') || 'Holiday' });
+    });
+
+    return { holidays, errors };
+}
+
+function parseIcsDate(value: string): Date | null {
+    const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+    return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+}
+
+/**
+ * Parse holidays from an iCalendar (.ics) file. Multi-day events contribute every day they cover
+ * and yearly RRULEs are expanded for the next few years.
+ */
+export function parseHolidayIcs(text: string): { holidays: Holiday[]; errors: string[] } {
+    const holidays: Holiday[] = [];
+    const errors: string[] = [];
+
+    // Unfold continuation lines (RFC 5545 section 3.1)
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+    let event: Record<string, string> | null = null;
+    for (const rawLine of lines) {
+        const line = rawLine.trimEnd();
+        if (line === 'BEGIN:VEVENT') {
+            event = {};
+            continue;
+        }
+        if (line === 'END:VEVENT' && event) {
+            const start = event.DTSTART ? parseIcsDate(event.DTSTART) : null;
+            const name = (event.SUMMARY || 'Holiday').replace(/\\,/g, ',').replace(/\\;/g, ';');
+            if (!start) {
+                errors.push(`Skipped "${name}": missing or invalid DTSTART`);
+                event = null;
+                continue;
+            }
+
+            // All-day DTEND is exclusive
+            const end = event.DTEND ? parseIcsDate(event.DTEND) : null;
+            const lengthDays = end ? Math.max(1, Math.round((end.getTime() - start.getTime()) / 86400000)) : 1;
+
+            let starts = [start];
+            if (event.RRULE) {
+                try {
+                    const until = new Date();
+                    until.setFullYear(until.getFullYear() + RECURRING_HOLIDAY_YEARS);
+                    starts = getOccurrences(parseRecurrenceRule(event.RRULE), start, { to: until });
+                } catch (err: any) {
+                    errors.push(`"${name}": ${err.message}; imported the first occurrence only`);
+                }
+            }
+
+            starts.forEach(day => {
+                for (let i = 0; i < lengthDays; i++) {
+                    const date = new Date(day.getFullYear(), day.getMonth(), day.getDate() + i);
+                    holidays.push({ date: format(date, 'yyyy-MM-dd'), name });
+                }
+            });
+            event = null;
+            continue;
+        }
+        if (event) {
+            const separator = line.indexOf(':');
+            if (separator > 0) {
+                const key = line.slice(0, separator).split(';')[0].toUpperCase();
+                event[key] = line.slice(separator + 1).trim();
+            }
+        }
+    }
+
+    return { holidays, errors };
+}
@@ -1,6 +1,8 @@
 -- Combined Database Initialization for Plan-PM Docker
--- This file creates all tables, RLS policies, and initial data
+-- This file creates all tables and initial data, with RLS enabled
 -- Runs automatically on first container start
+-- Access policies (organization-scoped) come from supabase/migrations, which must
+-- be applied after this file; until then authenticated users can read nothing.
 
 -- ============================================================================
 -- PROFILES TABLE (for RBAC)
@@ -16,11 +18,8 @@ CREATE TABLE IF NOT EXISTS public.profiles (
 
 ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
 
-CREATE POLICY "Profiles readable by authenticated" ON public.profiles 
-  FOR SELECT TO authenticated USING (true);
-
-CREATE POLICY "Profiles updatable by owner" ON public.profiles 
-  FOR UPDATE TO authenticated USING (true);
+CREATE POLICY "Profiles readable by owner" ON public.profiles 
+  FOR SELECT TO authenticated USING (auth.uid() = id);
 
 -- ============================================================================
 -- MAINTENANCE TYPES
@@ -40,7 +39,6 @@ INSERT INTO public."maintenanceTypes" (name) VALUES
 ON CONFLICT (name) DO NOTHING;
 
 ALTER TABLE public."maintenanceTypes" ENABLE ROW LEVEL SECURITY;
-CREATE POLICY "Allow all for authenticated" ON public."maintenanceTypes" FOR ALL TO authenticated USING (true) WITH CHECK (true);
 
 -- ============================================================================
 -- INSTRUMENT TYPES
@@ -52,7 +50,6 @@ CREATE TABLE IF NOT EXISTS public."instrumentTypes" (
 );
 
 ALTER TABLE public."instrumentTypes" ENABLE ROW LEVEL SECURITY;
-CREATE POLICY "Allow all for authenticated" ON public."instrumentTypes" FOR ALL TO authenticated USING (true) WITH CHECK (true);
 
 -- ============================================================================
 -- TEST TEMPLATES
@@ -67,7 +64,6 @@ CREATE TABLE IF NOT EXISTS public."testTemplates" (
 );
 
 ALTER TABLE public."testTemplates" ENABLE ROW LEVEL SECURITY;
-CREATE POLICY "Allow all for authenticated" ON public."testTemplates" FOR ALL TO authenticated USING (true) WITH CHECK (true);
 
 -- ============================================================================
 -- INSTRUMENTS
@@ -81,7 +77,7 @@ CREATE TABLE IF NOT EXISTS public.instruments (
   location text NOT NULL,
   status text,
   "scheduleDate" timestamp with time zone NOT NULL,
-  frequency text NOT NULL CHECK (frequency = ANY (ARRAY['Daily', 'Weekly', 'Monthly', '3 Months', '6 Months', '1 Year'])),
+  frequency text NOT NULL CHECK (frequency = ANY (ARRAY['Daily', 'Weekly', 'Monthly', '3 Months', '6 Months', '1 Year', 'Custom'])),
   "nextMaintenanceDate" timestamp with time zone NOT NULL,
   "imageId" text NOT NULL,
   "imageUrl" text,
@@ -98,7 +94,6 @@ CREATE INDEX IF NOT EXISTS idx_instruments_user_id ON public.instruments(user_id
 CREATE INDEX IF NOT EXISTS idx_instruments_is_active ON public.instruments("isActive");
 
 ALTER TABLE public.instruments ENABLE ROW LEVEL SECURITY;
-CREATE POLICY "Allow all for authenticated" ON public.instruments FOR ALL TO authenticated USING (true) WITH CHECK (true);
 
 -- ============================================================================
 -- MAINTENANCE CONFIGURATIONS
@@ -107,7 +102,7 @@ CREATE TABLE IF NOT EXISTS public.maintenance_configurations (
   id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
   instrument_id uuid NOT NULL REFERENCES public.instruments(id) ON DELETE CASCADE,
   maintenance_type text NOT NULL,
-  frequency text NOT NULL CHECK (frequency = ANY (ARRAY['Daily', 'Weekly', 'Monthly', '3 Months', '6 Months', '1 Year'])),
+  frequency text NOT NULL CHECK (frequency = ANY (ARRAY['Daily', 'Weekly', 'Monthly', '3 Months', '6 Months', '1 Year', 'Custom'])),
   schedule_date timestamp with time zone NOT NULL,
   template_id uuid REFERENCES public."testTemplates"(id) ON DELETE SET NULL,
   user_id uuid,
@@ -115,13 +110,13 @@ CREATE TABLE IF NOT EXISTS public.maintenance_configurations (
   "maintenanceBy" text,
   "vendorName" text,
   "vendorContact" text,
-  is_active boolean DEFAULT true
+  is_active boolean DEFAULT true,
+  recurrence_rule text
 );
 
 CREATE INDEX IF NOT EXISTS idx_maintenance_configs_instrument ON public.maintenance_configurations(instrument_id);
 
 ALTER TABLE public.maintenance_configurations ENABLE ROW LEVEL SECURITY;
-CREATE POLICY "Allow all for authenticated" ON public.maintenance_configurations FOR ALL TO authenticated USING (true) WITH CHECK (true);
 
 -- ============================================================================
 -- MAINTENANCE SCHEDULES
@@ -149,7 +144,6 @@ CREATE INDEX IF NOT EXISTS idx_schedules_instrument ON public."maintenanceSchedu
 CREATE INDEX IF NOT EXISTS idx_schedules_status ON public."maintenanceSchedules"(status);
 
 ALTER TABLE public."maintenanceSchedules" ENABLE ROW LEVEL SECURITY;
-CREATE POLICY "Allow all for authenticated" ON public."maintenanceSchedules" FOR ALL TO authenticated USING (true) WITH CHECK (true);
 
 -- ============================================================================
 -- MAINTENANCE RESULTS
@@ -169,7 +163,6 @@ CREATE TABLE IF NOT EXISTS public."maintenanceResults" (
 );
 
 ALTER TABLE public."maintenanceResults" ENABLE ROW LEVEL SECURITY;
-CREATE POLICY "Allow all for authenticated" ON public."maintenanceResults" FOR ALL TO authenticated USING (true) WITH CHECK (true);
 
 -- ============================================================================
 -- MAINTENANCE DOCUMENTS
@@ -188,7 +181,6 @@ CREATE TABLE IF NOT EXISTS public.maintenance_documents (
 );
 
 ALTER TABLE public.maintenance_documents ENABLE ROW LEVEL SECURITY;
-CREATE POLICY "Allow all for authenticated" ON public.maintenance_documents FOR ALL TO authenticated USING (true) WITH CHECK (true);
 
 -- ============================================================================
 -- DONE
@@ -0,0 +1,38 @@
+-- Migration: RFC 5545 recurrence rules for maintenance configurations
+-- Version: 20261018000000
+--
+-- Configurations keep their legacy frequency; 'Custom' means the RRULE in
+-- recurrence_rule drives the schedule (e.g. FREQ=MONTHLY;BYDAY=2TU).
+
+-- ============================================================================
+-- STEP 1: Add recurrence_rule column
+-- ============================================================================
+ALTER TABLE public.maintenance_configurations
+  ADD COLUMN IF NOT EXISTS recurrence_rule text;
+
+-- ============================================================================
+-- STEP 2: Allow 'Custom' frequency
+-- ============================================================================
+ALTER TABLE public.maintenance_configurations
+  DROP CONSTRAINT IF EXISTS maintenance_configurations_frequency_check;
+ALTER TABLE public.maintenance_configurations
+  ADD CONSTRAINT maintenance_configurations_frequency_check
+  CHECK (frequency = ANY (ARRAY['Daily', 'Weekly', 'Monthly', '3 Months', '6 Months', '1 Year', 'Custom']));
+
+ALTER TABLE public.instruments
+  DROP CONSTRAINT IF EXISTS instruments_frequency_check;
+ALTER TABLE public.instruments
+  ADD CONSTRAINT instruments_frequency_check
+  CHECK (frequency = ANY (ARRAY['Daily', 'Weekly', 'Monthly', '3 Months', '6 Months', '1 Year', 'Custom']));
+
+-- ============================================================================
+-- STEP 3: A custom frequency needs a rule
+-- ============================================================================
+ALTER TABLE public.maintenance_configurations
+  DROP CONSTRAINT IF EXISTS maintenance_configurations_recurrence_rule_check;
+ALTER TABLE public.maintenance_configurations
+  ADD CONSTRAINT maintenance_configurations_recurrence_rule_check
+  CHECK (
+    frequency <> 'Custom'
+    OR (recurrence_rule IS NOT NULL AND recurrence_rule ~* '(^|:|;)FREQ=(DAILY|WEEKLY|MONTHLY|YEARLY)(;|$)')
+  );
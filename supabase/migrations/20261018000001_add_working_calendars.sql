@@ -0,0 +1,79 @@
+-- Migration: Working calendars and non-working-day shifting
+-- Version: 20261018000001
+--
+-- An organization has one default calendar (location IS NULL) and may add
+-- calendars for individual locations. Location calendars replace the weekly
+-- off-days of the default and add their holidays to it.
+
+-- ============================================================================
+-- STEP 1: Working Calendars
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.working_calendars (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  location text,
+  name text NOT NULL,
+  -- 0 = Sunday ... 6 = Saturday (matches JavaScript Date#getDay)
+  weekly_off_days smallint[] NOT NULL DEFAULT '{0}',
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT working_calendars_off_days_check CHECK (weekly_off_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::smallint[])
+);
+
+CREATE INDEX IF NOT EXISTS idx_working_calendars_org_id ON public.working_calendars(org_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_working_calendars_org_location
+  ON public.working_calendars(org_id, COALESCE(location, ''));
+
+ALTER TABLE public.working_calendars ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members can access working calendars" ON public.working_calendars;
+CREATE POLICY "Org members can access working calendars" ON public.working_calendars
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id() OR org_id IS NULL)
+  WITH CHECK (org_id = public.get_user_org_id());
+
+-- ============================================================================
+-- STEP 2: Holidays
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.calendar_holidays (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  calendar_id uuid NOT NULL REFERENCES public.working_calendars(id) ON DELETE CASCADE,
+  org_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  holiday_date date NOT NULL,
+  name text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (calendar_id, holiday_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_holidays_calendar ON public.calendar_holidays(calendar_id, holiday_date);
+
+ALTER TABLE public.calendar_holidays ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members can access holidays" ON public.calendar_holidays;
+CREATE POLICY "Org members can access holidays" ON public.calendar_holidays
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id() OR org_id IS NULL)
+  WITH CHECK (org_id = public.get_user_org_id());
+
+-- ============================================================================
+-- STEP 3: Shift policy per configuration
+-- ============================================================================
+ALTER TABLE public.maintenance_configurations
+  ADD COLUMN IF NOT EXISTS non_working_day_shift text NOT NULL DEFAULT 'none';
+
+ALTER TABLE public.maintenance_configurations
+  DROP CONSTRAINT IF EXISTS maintenance_configurations_non_working_day_shift_check;
+ALTER TABLE public.maintenance_configurations
+  ADD CONSTRAINT maintenance_configurations_non_working_day_shift_check
+  CHECK (non_working_day_shift = ANY (ARRAY['none', 'previous', 'next']));
+
+-- ============================================================================
+-- STEP 4: Keep the nominal (rule) date on each schedule for audit
+-- ============================================================================
+ALTER TABLE public."maintenanceSchedules"
+  ADD COLUMN IF NOT EXISTS nominal_due_date timestamptz;
+
+UPDATE public."maintenanceSchedules"
+  SET nominal_due_date = "dueDate"
+  WHERE nominal_due_date IS NULL;
@@ -0,0 +1,201 @@
+-- Migration: Transactional schedule regeneration
+-- Version: 20261018000002
+--
+-- regenerate_maintenance_schedules reconciles the pending schedules of one
+-- instrument/maintenance type with the rows the application computed for the
+-- new configuration, in a single transaction. Existing rows are matched by
+-- nominal due date, so unchanged occurrences keep their id (and anything
+-- attached to it). With p_dry_run the function only reports what it would do.
+--
+-- Pending rows that already have a maintenanceResults row (or are In Progress)
+-- are never deleted: p_in_progress = 'keep' leaves them on their current date,
+-- 'migrate' moves them onto the nearest new occurrence.
+--
+-- p_configuration ({ id, frequency, recurrence_rule, schedule_date }) saves the
+-- edited configuration in the same transaction, so a failed regeneration
+-- leaves both the configuration and its schedules as they were.
+
+-- ============================================================================
+-- STEP 1: Regeneration Function
+-- ============================================================================
+-- Pending rows the new configuration no longer produces go through this
+-- helper, so how they are removed can change in one place
+CREATE OR REPLACE FUNCTION public.discard_maintenance_schedule(p_schedule_id uuid)
+RETURNS void AS $$
+  DELETE FROM public."maintenanceSchedules" WHERE id = p_schedule_id
+$$ LANGUAGE sql SECURITY INVOKER;
+
+CREATE OR REPLACE FUNCTION public.regenerate_maintenance_schedules(
+  p_instrument_id uuid,
+  p_maintenance_type text,
+  p_rows jsonb,
+  p_dry_run boolean DEFAULT false,
+  p_in_progress text DEFAULT 'keep',
+  p_configuration jsonb DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_desired jsonb;
+  v_claimed bigint[] := '{}';
+  v_existing record;
+  v_match record;
+  v_added jsonb;
+  v_moved jsonb := '[]'::jsonb;
+  v_removed jsonb := '[]'::jsonb;
+  v_kept jsonb := '[]'::jsonb;
+BEGIN
+  IF p_in_progress NOT IN ('keep', 'migrate') THEN
+    RAISE EXCEPTION 'p_in_progress must be keep or migrate, got %', p_in_progress;
+  END IF;
+
+  -- Serialize regenerations of the same series
+  PERFORM pg_advisory_xact_lock(hashtext(p_instrument_id::text || ':' || p_maintenance_type));
+
+  -- The edited configuration is saved in the same transaction as its schedules
+  IF p_configuration IS NOT NULL AND NOT p_dry_run THEN
+    UPDATE public.maintenance_configurations SET
+      frequency = p_configuration->>'frequency',
+      recurrence_rule = NULLIF(p_configuration->>'recurrence_rule', ''),
+      schedule_date = (p_configuration->>'schedule_date')::timestamptz
+    WHERE id = (p_configuration->>'id')::uuid
+      AND instrument_id = p_instrument_id
+      AND maintenance_type = p_maintenance_type;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Configuration % not found', p_configuration->>'id';
+    END IF;
+  END IF;
+
+  -- Occurrences that were already completed are not scheduled again
+  SELECT COALESCE(jsonb_agg(d.elem ORDER BY (d.elem->>'nominal_due_date')::timestamptz), '[]'::jsonb)
+  INTO v_desired
+  FROM jsonb_array_elements(p_rows) AS d(elem)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public."maintenanceSchedules" s
+    WHERE s."instrumentId" = p_instrument_id
+      AND s.type = p_maintenance_type
+      AND s.status = 'Completed'
+      AND COALESCE(s.nominal_due_date, s."dueDate")::date = (d.elem->>'nominal_due_date')::timestamptz::date
+  );
+
+  FOR v_existing IN
+    SELECT
+      s.id,
+      s.status,
+      s."dueDate" AS due_date,
+      COALESCE(s.nominal_due_date, s."dueDate") AS nominal,
+      (s.status = 'In Progress' OR EXISTS (
+        SELECT 1 FROM public."maintenanceResults" r WHERE r."maintenanceScheduleId" = s.id
+      )) AS in_progress
+    FROM public."maintenanceSchedules" s
+    WHERE s."instrumentId" = p_instrument_id
+      AND s.type = p_maintenance_type
+      AND s.status <> 'Completed'
+    ORDER BY COALESCE(s.nominal_due_date, s."dueDate")
+  LOOP
+    -- Same occurrence in the new series (possibly shifted to another working day)
+    SELECT e.ord, e.elem INTO v_match
+    FROM jsonb_array_elements(v_desired) WITH ORDINALITY AS e(elem, ord)
+    WHERE NOT (e.ord = ANY (v_claimed))
+      AND (e.elem->>'nominal_due_date')::timestamptz::date = v_existing.nominal::date
+    LIMIT 1;
+
+    -- Started work may be carried over to the closest remaining occurrence
+    IF NOT FOUND AND v_existing.in_progress AND p_in_progress = 'migrate' THEN
+      SELECT e.ord, e.elem INTO v_match
+      FROM jsonb_array_elements(v_desired) WITH ORDINALITY AS e(elem, ord)
+      WHERE NOT (e.ord = ANY (v_claimed))
+      ORDER BY abs(extract(epoch FROM (e.elem->>'nominal_due_date')::timestamptz - v_existing.nominal))
+      LIMIT 1;
+    END IF;
+
+    IF FOUND THEN
+      v_claimed := v_claimed || v_match.ord;
+
+      IF (v_match.elem->>'dueDate')::timestamptz <> v_existing.due_date THEN
+        v_moved := v_moved || jsonb_build_object(
+          'id', v_existing.id,
+          'status', v_existing.status,
+          'fromDueDate', v_existing.due_date,
+          'toDueDate', (v_match.elem->>'dueDate')::timestamptz,
+          'inProgress', v_existing.in_progress
+        );
+      END IF;
+
+      IF NOT p_dry_run THEN
+        -- Rows with recorded results keep the template they were started with
+        UPDATE public."maintenanceSchedules" SET
+          "dueDate" = (v_match.elem->>'dueDate')::timestamptz,
+          nominal_due_date = (v_match.elem->>'nominal_due_date')::timestamptz,
+          is_last_of_year = COALESCE((v_match.elem->>'is_last_of_year')::boolean, false),
+          template_id = CASE WHEN v_existing.in_progress THEN template_id ELSE NULLIF(v_match.elem->>'template_id', '')::uuid END,
+          "maintenanceBy" = COALESCE(v_match.elem->>'maintenanceBy', "maintenanceBy"),
+          "vendorName" = v_match.elem->>'vendorName',
+          "vendorContact" = v_match.elem->>'vendorContact'
+        WHERE id = v_existing.id;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF v_existing.in_progress THEN
+      v_kept := v_kept || jsonb_build_object(
+        'id', v_existing.id,
+        'status', v_existing.status,
+        'dueDate', v_existing.due_date
+      );
+      CONTINUE;
+    END IF;
+
+    v_removed := v_removed || jsonb_build_object(
+      'id', v_existing.id,
+      'status', v_existing.status,
+      'dueDate', v_existing.due_date
+    );
+    IF NOT p_dry_run THEN
+      PERFORM public.discard_maintenance_schedule(v_existing.id);
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'dueDate', (e.elem->>'dueDate')::timestamptz,
+    'nominalDueDate', (e.elem->>'nominal_due_date')::timestamptz
+  ) ORDER BY e.ord), '[]'::jsonb)
+  INTO v_added
+  FROM jsonb_array_elements(v_desired) WITH ORDINALITY AS e(elem, ord)
+  WHERE NOT (e.ord = ANY (v_claimed));
+
+  IF NOT p_dry_run THEN
+    INSERT INTO public."maintenanceSchedules" (
+      "instrumentId", "dueDate", nominal_due_date, type, description, status,
+      template_id, user_id, org_id, "maintenanceBy", "vendorName", "vendorContact", is_last_of_year
+    )
+    SELECT
+      p_instrument_id,
+      (e.elem->>'dueDate')::timestamptz,
+      (e.elem->>'nominal_due_date')::timestamptz,
+      p_maintenance_type,
+      COALESCE(e.elem->>'description', 'Scheduled ' || p_maintenance_type),
+      'Scheduled',
+      NULLIF(e.elem->>'template_id', '')::uuid,
+      NULLIF(e.elem->>'user_id', '')::uuid,
+      NULLIF(e.elem->>'org_id', '')::uuid,
+      COALESCE(e.elem->>'maintenanceBy', 'internal'),
+      e.elem->>'vendorName',
+      e.elem->>'vendorContact',
+      COALESCE((e.elem->>'is_last_of_year')::boolean, false)
+    FROM jsonb_array_elements(v_desired) WITH ORDINALITY AS e(elem, ord)
+    WHERE NOT (e.ord = ANY (v_claimed));
+  END IF;
+
+  RETURN jsonb_build_object(
+    'dryRun', p_dry_run,
+    'added', v_added,
+    'moved', v_moved,
+    'removed', v_removed,
+    'kept', v_kept
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Runs with the caller's RLS, so members can only regenerate their own org's schedules
+GRANT EXECUTE ON FUNCTION public.regenerate_maintenance_schedules(uuid, text, jsonb, boolean, text, jsonb) TO authenticated;
@@ -0,0 +1,57 @@
+-- Migration: Grace windows and next-due anchoring
+-- Version: 20261018000003
+--
+-- Each organization can give a maintenance type early/late grace windows
+-- (e.g. calibrations ±7 days) and choose whether the next due date follows
+-- the nominal schedule or the actual completion date. A maintenance
+-- configuration may override any of these; NULL means "use the type's value".
+
+-- ============================================================================
+-- STEP 1: Maintenance Type Policies
+-- ============================================================================
+-- maintenanceTypes is shared across organizations, so the policy lives in its
+-- own org-scoped table keyed by type name (as schedules and configurations are).
+CREATE TABLE IF NOT EXISTS public.maintenance_type_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  maintenance_type text NOT NULL,
+  early_grace_days integer NOT NULL DEFAULT 0,
+  late_grace_days integer NOT NULL DEFAULT 0,
+  next_due_anchor text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT maintenance_type_policies_grace_check CHECK (early_grace_days >= 0 AND late_grace_days >= 0),
+  CONSTRAINT maintenance_type_policies_anchor_check CHECK (next_due_anchor IS NULL OR next_due_anchor IN ('nominal', 'completion')),
+  CONSTRAINT maintenance_type_policies_org_type_key UNIQUE (org_id, maintenance_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_type_policies_org_id ON public.maintenance_type_policies(org_id);
+
+ALTER TABLE public.maintenance_type_policies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members can access maintenance type policies" ON public.maintenance_type_policies;
+CREATE POLICY "Org members can access maintenance type policies" ON public.maintenance_type_policies
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id() OR org_id IS NULL)
+  WITH CHECK (org_id = public.get_user_org_id());
+
+-- ============================================================================
+-- STEP 2: Per-Configuration Overrides
+-- ============================================================================
+ALTER TABLE public.maintenance_configurations
+  ADD COLUMN IF NOT EXISTS early_grace_days integer,
+  ADD COLUMN IF NOT EXISTS late_grace_days integer,
+  ADD COLUMN IF NOT EXISTS next_due_anchor text;
+
+ALTER TABLE public.maintenance_configurations
+  DROP CONSTRAINT IF EXISTS maintenance_configurations_grace_check;
+ALTER TABLE public.maintenance_configurations
+  ADD CONSTRAINT maintenance_configurations_grace_check
+  CHECK ((early_grace_days IS NULL OR early_grace_days >= 0) AND (late_grace_days IS NULL OR late_grace_days >= 0));
+
+ALTER TABLE public.maintenance_configurations
+  DROP CONSTRAINT IF EXISTS maintenance_configurations_anchor_check;
+ALTER TABLE public.maintenance_configurations
+  ADD CONSTRAINT maintenance_configurations_anchor_check
+  CHECK (next_due_anchor IS NULL OR next_due_anchor IN ('nominal', 'completion'));
@@ -0,0 +1,145 @@
+-- Migration: Schedule history and manual rescheduling
+-- Version: 20261018000004
+--
+-- Every manual change to a single maintenance schedule is recorded in
+-- maintenance_schedule_history together with who made it and why. Changes go
+-- through transition_maintenance_schedule, which moves the schedule and writes
+-- its history row in one transaction, so a due date can never change without a
+-- recorded reason. This migration supports moving an occurrence to another
+-- date (Rescheduled).
+--
+-- The function runs as its owner so that members cannot add history rows of
+-- their own. Who may change a schedule is decided by can_transition_schedule,
+-- which later migrations tighten along with the schedule policies.
+
+-- ============================================================================
+-- STEP 1: Schedule History
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.maintenance_schedule_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id uuid NOT NULL REFERENCES public."maintenanceSchedules"(id) ON DELETE CASCADE,
+  org_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  action text NOT NULL,
+  from_due_date timestamptz,
+  to_due_date timestamptz,
+  from_status text,
+  to_status text,
+  reason_code text,
+  reason text,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at timestamptz NOT NULL DEFAULT now(),
+  -- The reason code is the mandatory part; free text explains it further
+  CONSTRAINT maintenance_schedule_history_reason_check
+    CHECK (reason_code IS NOT NULL OR length(btrim(COALESCE(reason, ''))) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_history_schedule_id ON public.maintenance_schedule_history(schedule_id, changed_at);
+CREATE INDEX IF NOT EXISTS idx_schedule_history_org_id ON public.maintenance_schedule_history(org_id);
+
+ALTER TABLE public.maintenance_schedule_history ENABLE ROW LEVEL SECURITY;
+
+-- History is append-only: members can read it, and only
+-- transition_maintenance_schedule writes it, so entries cannot be forged or
+-- back-dated
+DROP POLICY IF EXISTS "Org members can read schedule history" ON public.maintenance_schedule_history;
+CREATE POLICY "Org members can read schedule history" ON public.maintenance_schedule_history
+  FOR SELECT TO authenticated
+  USING (org_id = public.get_user_org_id() OR org_id IS NULL);
+
+-- ============================================================================
+-- STEP 2: Transition Function
+-- ============================================================================
+-- Whether the caller may change this schedule, as the schedule policies decide
+CREATE OR REPLACE FUNCTION public.can_transition_schedule(p_schedule_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public."maintenanceSchedules" s
+    WHERE s.id = p_schedule_id
+      AND (s.org_id = public.get_user_org_id() OR s.org_id IS NULL)
+  )
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.transition_maintenance_schedule(
+  p_schedule_id uuid,
+  p_to_status text,
+  p_reason_code text,
+  p_reason text DEFAULT NULL,
+  p_due_date timestamptz DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_schedule record;
+  v_to_status text;
+BEGIN
+  IF p_to_status <> 'Rescheduled' THEN
+    RAISE EXCEPTION 'Unsupported schedule transition to %', p_to_status;
+  END IF;
+
+  IF p_reason_code IS NULL OR length(btrim(p_reason_code)) = 0 THEN
+    RAISE EXCEPTION 'A reason code is required';
+  END IF;
+
+  IF p_reason_code = 'other' AND length(btrim(COALESCE(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'Describe the reason when the reason code is other';
+  END IF;
+
+  -- Runs as owner so that history is written only here; the caller's right to
+  -- change the schedule is checked instead of RLS
+  IF NOT public.can_transition_schedule(p_schedule_id) THEN
+    RAISE EXCEPTION 'Maintenance schedule % not found', p_schedule_id;
+  END IF;
+
+  SELECT
+    s.id,
+    s.org_id,
+    s.status,
+    s."dueDate" AS due_date,
+    (s.status = 'In Progress' OR EXISTS (
+      SELECT 1 FROM public."maintenanceResults" r WHERE r."maintenanceScheduleId" = s.id
+    )) AS in_progress
+  INTO v_schedule
+  FROM public."maintenanceSchedules" s
+  WHERE s.id = p_schedule_id
+  FOR UPDATE OF s;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Maintenance schedule % not found', p_schedule_id;
+  END IF;
+
+  IF v_schedule.status = 'Completed' THEN
+    RAISE EXCEPTION 'Completed maintenance cannot be rescheduled';
+  END IF;
+
+  IF p_due_date IS NULL THEN
+    RAISE EXCEPTION 'A new due date is required to reschedule maintenance';
+  END IF;
+  IF p_due_date = v_schedule.due_date THEN
+    RAISE EXCEPTION 'The new due date is the same as the current one';
+  END IF;
+
+  -- Started work stays In Progress; only its date moves
+  v_to_status := CASE WHEN v_schedule.in_progress THEN v_schedule.status ELSE 'Rescheduled' END;
+
+  -- nominal_due_date is left alone so the series keeps its place in the recurrence
+  UPDATE public."maintenanceSchedules"
+  SET "dueDate" = p_due_date, status = v_to_status
+  WHERE id = p_schedule_id;
+
+  INSERT INTO public.maintenance_schedule_history (
+    schedule_id, org_id, action, from_due_date, to_due_date, from_status, to_status, reason_code, reason, changed_by
+  ) VALUES (
+    v_schedule.id, v_schedule.org_id, 'rescheduled', v_schedule.due_date, p_due_date,
+    v_schedule.status, v_to_status, btrim(p_reason_code), NULLIF(btrim(COALESCE(p_reason, '')), ''), auth.uid()
+  );
+
+  RETURN jsonb_build_object(
+    'id', v_schedule.id,
+    'fromStatus', v_schedule.status,
+    'toStatus', v_to_status,
+    'fromDueDate', v_schedule.due_date,
+    'toDueDate', p_due_date
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.transition_maintenance_schedule(uuid, text, text, text, timestamptz) TO authenticated;
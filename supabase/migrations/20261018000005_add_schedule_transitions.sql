@@ -0,0 +1,300 @@
+-- Migration: Skip and not-required transitions
+-- Version: 20261018000005
+--
+-- Besides moving to another date (Rescheduled), a single occurrence can now be
+-- skipped (Skipped) or waived because the instrument is out of service (Not
+-- Required). Both go through transition_maintenance_schedule, which updates the
+-- schedule and appends a history row with a reason code in the same
+-- transaction. Like the Rescheduled version it replaces, it runs as its owner
+-- and checks can_transition_schedule (20261018000004) instead of RLS.
+--
+-- Skipped and Not Required are closed like Completed: they are never deleted or
+-- recreated by regeneration and do not count towards compliance.
+
+-- ============================================================================
+-- STEP 1: Transition Function
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.transition_maintenance_schedule(
+  p_schedule_id uuid,
+  p_to_status text,
+  p_reason_code text,
+  p_reason text DEFAULT NULL,
+  p_due_date timestamptz DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_schedule record;
+  v_to_status text;
+  v_due_date timestamptz;
+  v_action text;
+BEGIN
+  IF p_to_status NOT IN ('Rescheduled', 'Skipped', 'Not Required') THEN
+    RAISE EXCEPTION 'Unsupported schedule transition to %', p_to_status;
+  END IF;
+
+  IF p_reason_code IS NULL OR length(btrim(p_reason_code)) = 0 THEN
+    RAISE EXCEPTION 'A reason code is required';
+  END IF;
+
+  IF p_reason_code = 'other' AND length(btrim(COALESCE(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'Describe the reason when the reason code is other';
+  END IF;
+
+  -- Runs as owner so that history is written only here; the caller's right to
+  -- change the schedule is checked instead of RLS
+  IF NOT public.can_transition_schedule(p_schedule_id) THEN
+    RAISE EXCEPTION 'Maintenance schedule % not found', p_schedule_id;
+  END IF;
+
+  SELECT
+    s.id,
+    s.org_id,
+    s.status,
+    s."dueDate" AS due_date,
+    (s.status = 'In Progress' OR EXISTS (
+      SELECT 1 FROM public."maintenanceResults" r WHERE r."maintenanceScheduleId" = s.id
+    )) AS in_progress
+  INTO v_schedule
+  FROM public."maintenanceSchedules" s
+  WHERE s.id = p_schedule_id
+  FOR UPDATE OF s;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Maintenance schedule % not found', p_schedule_id;
+  END IF;
+
+  IF v_schedule.status IN ('Completed', 'Skipped', 'Not Required') THEN
+    RAISE EXCEPTION '% maintenance cannot be changed', v_schedule.status;
+  END IF;
+
+  IF p_to_status = 'Rescheduled' THEN
+    IF p_due_date IS NULL THEN
+      RAISE EXCEPTION 'A new due date is required to reschedule maintenance';
+    END IF;
+    IF p_due_date = v_schedule.due_date THEN
+      RAISE EXCEPTION 'The new due date is the same as the current one';
+    END IF;
+    v_due_date := p_due_date;
+    -- Started work stays In Progress; only its date moves
+    v_to_status := CASE WHEN v_schedule.in_progress THEN v_schedule.status ELSE 'Rescheduled' END;
+    v_action := 'rescheduled';
+  ELSE
+    IF v_schedule.in_progress THEN
+      RAISE EXCEPTION 'Maintenance with recorded results cannot be marked %', p_to_status;
+    END IF;
+    v_due_date := v_schedule.due_date;
+    v_to_status := p_to_status;
+    v_action := CASE p_to_status WHEN 'Skipped' THEN 'skipped' ELSE 'not_required' END;
+  END IF;
+
+  -- nominal_due_date is left alone so the series keeps its place in the recurrence
+  UPDATE public."maintenanceSchedules"
+  SET "dueDate" = v_due_date, status = v_to_status
+  WHERE id = p_schedule_id;
+
+  INSERT INTO public.maintenance_schedule_history (
+    schedule_id, org_id, action, from_due_date, to_due_date, from_status, to_status, reason_code, reason, changed_by
+  ) VALUES (
+    v_schedule.id, v_schedule.org_id, v_action, v_schedule.due_date, v_due_date,
+    v_schedule.status, v_to_status, btrim(p_reason_code), NULLIF(btrim(COALESCE(p_reason, '')), ''), auth.uid()
+  );
+
+  RETURN jsonb_build_object(
+    'id', v_schedule.id,
+    'fromStatus', v_schedule.status,
+    'toStatus', v_to_status,
+    'fromDueDate', v_schedule.due_date,
+    'toDueDate', v_due_date
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- STEP 2: Regeneration Respects Transitions
+-- ============================================================================
+-- Skipped and Not Required rows are treated like Completed ones, and a pending
+-- row that was rescheduled keeps its date when its occurrence is still wanted.
+CREATE OR REPLACE FUNCTION public.regenerate_maintenance_schedules(
+  p_instrument_id uuid,
+  p_maintenance_type text,
+  p_rows jsonb,
+  p_dry_run boolean DEFAULT false,
+  p_in_progress text DEFAULT 'keep',
+  p_configuration jsonb DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_desired jsonb;
+  v_claimed bigint[] := '{}';
+  v_existing record;
+  v_match record;
+  v_same_occurrence boolean;
+  v_due_date timestamptz;
+  v_added jsonb;
+  v_moved jsonb := '[]'::jsonb;
+  v_removed jsonb := '[]'::jsonb;
+  v_kept jsonb := '[]'::jsonb;
+BEGIN
+  IF p_in_progress NOT IN ('keep', 'migrate') THEN
+    RAISE EXCEPTION 'p_in_progress must be keep or migrate, got %', p_in_progress;
+  END IF;
+
+  -- Serialize regenerations of the same series
+  PERFORM pg_advisory_xact_lock(hashtext(p_instrument_id::text || ':' || p_maintenance_type));
+
+  -- The edited configuration is saved in the same transaction as its schedules
+  IF p_configuration IS NOT NULL AND NOT p_dry_run THEN
+    UPDATE public.maintenance_configurations SET
+      frequency = p_configuration->>'frequency',
+      recurrence_rule = NULLIF(p_configuration->>'recurrence_rule', ''),
+      schedule_date = (p_configuration->>'schedule_date')::timestamptz
+    WHERE id = (p_configuration->>'id')::uuid
+      AND instrument_id = p_instrument_id
+      AND maintenance_type = p_maintenance_type;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Configuration % not found', p_configuration->>'id';
+    END IF;
+  END IF;
+
+  -- Occurrences that were already completed, skipped or not required are not scheduled again
+  SELECT COALESCE(jsonb_agg(d.elem ORDER BY (d.elem->>'nominal_due_date')::timestamptz), '[]'::jsonb)
+  INTO v_desired
+  FROM jsonb_array_elements(p_rows) AS d(elem)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public."maintenanceSchedules" s
+    WHERE s."instrumentId" = p_instrument_id
+      AND s.type = p_maintenance_type
+      AND s.status IN ('Completed', 'Skipped', 'Not Required')
+      AND COALESCE(s.nominal_due_date, s."dueDate")::date = (d.elem->>'nominal_due_date')::timestamptz::date
+  );
+
+  FOR v_existing IN
+    SELECT
+      s.id,
+      s.status,
+      s."dueDate" AS due_date,
+      COALESCE(s.nominal_due_date, s."dueDate") AS nominal,
+      (s.status = 'In Progress' OR EXISTS (
+        SELECT 1 FROM public."maintenanceResults" r WHERE r."maintenanceScheduleId" = s.id
+      )) AS in_progress,
+      EXISTS (
+        SELECT 1 FROM public.maintenance_schedule_history h
+        WHERE h.schedule_id = s.id AND h.action = 'rescheduled'
+      ) AS rescheduled
+    FROM public."maintenanceSchedules" s
+    WHERE s."instrumentId" = p_instrument_id
+      AND s.type = p_maintenance_type
+      AND s.status NOT IN ('Completed', 'Skipped', 'Not Required')
+    ORDER BY COALESCE(s.nominal_due_date, s."dueDate")
+  LOOP
+    -- Same occurrence in the new series (possibly shifted to another working day)
+    SELECT e.ord, e.elem INTO v_match
+    FROM jsonb_array_elements(v_desired) WITH ORDINALITY AS e(elem, ord)
+    WHERE NOT (e.ord = ANY (v_claimed))
+      AND (e.elem->>'nominal_due_date')::timestamptz::date = v_existing.nominal::date
+    LIMIT 1;
+    v_same_occurrence := FOUND;
+
+    -- Started work may be carried over to the closest remaining occurrence
+    IF NOT FOUND AND v_existing.in_progress AND p_in_progress = 'migrate' THEN
+      SELECT e.ord, e.elem INTO v_match
+      FROM jsonb_array_elements(v_desired) WITH ORDINALITY AS e(elem, ord)
+      WHERE NOT (e.ord = ANY (v_claimed))
+      ORDER BY abs(extract(epoch FROM (e.elem->>'nominal_due_date')::timestamptz - v_existing.nominal))
+      LIMIT 1;
+    END IF;
+
+    IF FOUND THEN
+      v_claimed := v_claimed || v_match.ord;
+
+      -- A manually rescheduled occurrence keeps the date it was moved to
+      v_due_date := CASE
+        WHEN v_same_occurrence AND v_existing.rescheduled THEN v_existing.due_date
+        ELSE (v_match.elem->>'dueDate')::timestamptz
+      END;
+
+      IF v_due_date <> v_existing.due_date THEN
+        v_moved := v_moved || jsonb_build_object(
+          'id', v_existing.id,
+          'status', v_existing.status,
+          'fromDueDate', v_existing.due_date,
+          'toDueDate', v_due_date,
+          'inProgress', v_existing.in_progress
+        );
+      END IF;
+
+      IF NOT p_dry_run THEN
+        -- Rows with recorded results keep the template they were started with
+        UPDATE public."maintenanceSchedules" SET
+          "dueDate" = v_due_date,
+          nominal_due_date = (v_match.elem->>'nominal_due_date')::timestamptz,
+          is_last_of_year = COALESCE((v_match.elem->>'is_last_of_year')::boolean, false),
+          template_id = CASE WHEN v_existing.in_progress THEN template_id ELSE NULLIF(v_match.elem->>'template_id', '')::uuid END,
+          "maintenanceBy" = COALESCE(v_match.elem->>'maintenanceBy', "maintenanceBy"),
+          "vendorName" = v_match.elem->>'vendorName',
+          "vendorContact" = v_match.elem->>'vendorContact'
+        WHERE id = v_existing.id;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF v_existing.in_progress THEN
+      v_kept := v_kept || jsonb_build_object(
+        'id', v_existing.id,
+        'status', v_existing.status,
+        'dueDate', v_existing.due_date
+      );
+      CONTINUE;
+    END IF;
+
+    v_removed := v_removed || jsonb_build_object(
+      'id', v_existing.id,
+      'status', v_existing.status,
+      'dueDate', v_existing.due_date
+    );
+    IF NOT p_dry_run THEN
+      PERFORM public.discard_maintenance_schedule(v_existing.id);
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'dueDate', (e.elem->>'dueDate')::timestamptz,
+    'nominalDueDate', (e.elem->>'nominal_due_date')::timestamptz
+  ) ORDER BY e.ord), '[]'::jsonb)
+  INTO v_added
+  FROM jsonb_array_elements(v_desired) WITH ORDINALITY AS e(elem, ord)
+  WHERE NOT (e.ord = ANY (v_claimed));
+
+  IF NOT p_dry_run THEN
+    INSERT INTO public."maintenanceSchedules" (
+      "instrumentId", "dueDate", nominal_due_date, type, description, status,
+      template_id, user_id, org_id, "maintenanceBy", "vendorName", "vendorContact", is_last_of_year
+    )
+    SELECT
+      p_instrument_id,
+      (e.elem->>'dueDate')::timestamptz,
+      (e.elem->>'nominal_due_date')::timestamptz,
+      p_maintenance_type,
+      COALESCE(e.elem->>'description', 'Scheduled ' || p_maintenance_type),
+      'Scheduled',
+      NULLIF(e.elem->>'template_id', '')::uuid,
+      NULLIF(e.elem->>'user_id', '')::uuid,
+      NULLIF(e.elem->>'org_id', '')::uuid,
+      COALESCE(e.elem->>'maintenanceBy', 'internal'),
+      e.elem->>'vendorName',
+      e.elem->>'vendorContact',
+      COALESCE((e.elem->>'is_last_of_year')::boolean, false)
+    FROM jsonb_array_elements(v_desired) WITH ORDINALITY AS e(elem, ord)
+    WHERE NOT (e.ord = ANY (v_claimed));
+  END IF;
+
+  RETURN jsonb_build_object(
+    'dryRun', p_dry_run,
+    'added', v_added,
+    'moved', v_moved,
+    'removed', v_removed,
+    'kept', v_kept
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
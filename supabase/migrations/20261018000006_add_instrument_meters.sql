@@ -0,0 +1,377 @@
+-- Migration: Usage meters and meter-triggered maintenance
+-- Version: 20261018000006
+--
+-- Instruments carry any number of meters (lamp hours, injections, cycles).
+-- Readings are recorded manually or through /api/meters/readings and move the
+-- meter's current value. A maintenance configuration can trigger on the
+-- calendar (as before), on a meter interval, or on whichever comes first.
+--
+-- meter_baseline is the meter value at the last service; an occurrence is due
+-- once current_value reaches meter_baseline + meter_interval. The application
+-- then inserts a schedule carrying meter_id and meter_due_value.
+
+-- ============================================================================
+-- STEP 1: Meters
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.instrument_meters (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  instrument_id uuid NOT NULL REFERENCES public.instruments(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  unit text NOT NULL DEFAULT 'hours',
+  current_value numeric NOT NULL DEFAULT 0,
+  last_reading_at timestamptz,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT instrument_meters_value_check CHECK (current_value >= 0),
+  CONSTRAINT instrument_meters_instrument_name_key UNIQUE (instrument_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_instrument_meters_instrument_id ON public.instrument_meters(instrument_id);
+CREATE INDEX IF NOT EXISTS idx_instrument_meters_org_id ON public.instrument_meters(org_id);
+
+ALTER TABLE public.instrument_meters ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members can access instrument meters" ON public.instrument_meters;
+CREATE POLICY "Org members can access instrument meters" ON public.instrument_meters
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id() OR org_id IS NULL)
+  WITH CHECK (org_id = public.get_user_org_id());
+
+-- ============================================================================
+-- STEP 2: Readings
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.meter_readings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  meter_id uuid NOT NULL REFERENCES public.instrument_meters(id) ON DELETE CASCADE,
+  org_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  value numeric NOT NULL,
+  recorded_at timestamptz NOT NULL DEFAULT now(),
+  -- The counter was replaced or zeroed, so this reading may be below the last one
+  is_reset boolean NOT NULL DEFAULT false,
+  source text NOT NULL DEFAULT 'manual',
+  notes text,
+  recorded_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT meter_readings_value_check CHECK (value >= 0),
+  CONSTRAINT meter_readings_source_check CHECK (source IN ('manual', 'api'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_meter_readings_meter ON public.meter_readings(meter_id, recorded_at);
+
+ALTER TABLE public.meter_readings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members can access meter readings" ON public.meter_readings;
+CREATE POLICY "Org members can access meter readings" ON public.meter_readings
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id() OR org_id IS NULL)
+  WITH CHECK (org_id = public.get_user_org_id());
+
+-- Records a reading and moves the meter's current value in one step. A value
+-- below the current one is only accepted as a reset, which also restarts the
+-- usage count of every configuration on the meter.
+CREATE OR REPLACE FUNCTION public.record_meter_reading(
+  p_meter_id uuid,
+  p_value numeric,
+  p_recorded_at timestamptz DEFAULT now(),
+  p_is_reset boolean DEFAULT false,
+  p_source text DEFAULT 'manual',
+  p_notes text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_meter record;
+  v_reading_id uuid;
+  v_is_latest boolean;
+BEGIN
+  IF p_value IS NULL OR p_value < 0 THEN
+    RAISE EXCEPTION 'A meter reading must be zero or more';
+  END IF;
+
+  SELECT id, org_id, current_value, last_reading_at
+  INTO v_meter
+  FROM public.instrument_meters
+  WHERE id = p_meter_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Meter % not found', p_meter_id;
+  END IF;
+
+  v_is_latest := v_meter.last_reading_at IS NULL OR p_recorded_at >= v_meter.last_reading_at;
+
+  IF v_is_latest AND p_value < v_meter.current_value AND NOT p_is_reset THEN
+    RAISE EXCEPTION 'Reading % is below the current value %; record it as a meter reset', p_value, v_meter.current_value;
+  END IF;
+
+  INSERT INTO public.meter_readings (meter_id, org_id, value, recorded_at, is_reset, source, notes, recorded_by)
+  VALUES (p_meter_id, v_meter.org_id, p_value, p_recorded_at, p_is_reset, p_source, p_notes, auth.uid())
+  RETURNING id INTO v_reading_id;
+
+  -- Back-dated readings only fill in history
+  IF v_is_latest THEN
+    UPDATE public.instrument_meters
+    SET current_value = p_value, last_reading_at = p_recorded_at, updated_at = now()
+    WHERE id = p_meter_id;
+  END IF;
+
+  IF p_is_reset THEN
+    UPDATE public.maintenance_configurations
+    SET meter_baseline = p_value
+    WHERE meter_id = p_meter_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'id', v_reading_id,
+    'meterId', p_meter_id,
+    'value', p_value,
+    'currentValue', CASE WHEN v_is_latest THEN p_value ELSE v_meter.current_value END
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION public.record_meter_reading(uuid, numeric, timestamptz, boolean, text, text) TO authenticated;
+
+-- ============================================================================
+-- STEP 3: Meter Triggers on Configurations
+-- ============================================================================
+ALTER TABLE public.maintenance_configurations
+  ADD COLUMN IF NOT EXISTS trigger_type text NOT NULL DEFAULT 'calendar',
+  ADD COLUMN IF NOT EXISTS meter_id uuid REFERENCES public.instrument_meters(id),
+  ADD COLUMN IF NOT EXISTS meter_interval numeric,
+  ADD COLUMN IF NOT EXISTS meter_baseline numeric;
+
+ALTER TABLE public.maintenance_configurations
+  DROP CONSTRAINT IF EXISTS maintenance_configurations_trigger_check;
+ALTER TABLE public.maintenance_configurations
+  ADD CONSTRAINT maintenance_configurations_trigger_check
+  CHECK (
+    trigger_type IN ('calendar', 'meter', 'either')
+    AND (trigger_type = 'calendar' OR (meter_id IS NOT NULL AND meter_interval > 0))
+  );
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_configs_meter_id ON public.maintenance_configurations(meter_id);
+
+-- Usage is counted from when a meter is attached, not from the meter's first reading
+CREATE OR REPLACE FUNCTION public.set_configuration_meter_baseline()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.meter_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.meter_id IS DISTINCT FROM OLD.meter_id OR NEW.meter_baseline IS NULL) THEN
+    SELECT current_value INTO NEW.meter_baseline
+    FROM public.instrument_meters
+    WHERE id = NEW.meter_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_configuration_meter_baseline ON public.maintenance_configurations;
+CREATE TRIGGER set_configuration_meter_baseline
+  BEFORE INSERT OR UPDATE OF meter_id ON public.maintenance_configurations
+  FOR EACH ROW EXECUTE FUNCTION public.set_configuration_meter_baseline();
+
+-- ============================================================================
+-- STEP 4: Meter-Triggered Schedules
+-- ============================================================================
+ALTER TABLE public."maintenanceSchedules"
+  ADD COLUMN IF NOT EXISTS meter_id uuid REFERENCES public.instrument_meters(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS meter_due_value numeric;
+
+-- One schedule per threshold, so concurrent evaluations cannot both create it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_schedules_meter_threshold
+  ON public."maintenanceSchedules"("instrumentId", type, meter_id, meter_due_value)
+  WHERE meter_id IS NOT NULL;
+
+-- ============================================================================
+-- STEP 5: Regeneration Leaves Meter Schedules Alone
+-- ============================================================================
+-- Meter-triggered rows are not part of the calendar series, so they are neither
+-- matched, moved nor removed when the calendar part is regenerated.
+CREATE OR REPLACE FUNCTION public.regenerate_maintenance_schedules(
+  p_instrument_id uuid,
+  p_maintenance_type text,
+  p_rows jsonb,
+  p_dry_run boolean DEFAULT false,
+  p_in_progress text DEFAULT 'keep',
+  p_configuration jsonb DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_desired jsonb;
+  v_claimed bigint[] := '{}';
+  v_existing record;
+  v_match record;
+  v_same_occurrence boolean;
+  v_due_date timestamptz;
+  v_added jsonb;
+  v_moved jsonb := '[]'::jsonb;
+  v_removed jsonb := '[]'::jsonb;
+  v_kept jsonb := '[]'::jsonb;
+BEGIN
+  IF p_in_progress NOT IN ('keep', 'migrate') THEN
+    RAISE EXCEPTION 'p_in_progress must be keep or migrate, got %', p_in_progress;
+  END IF;
+
+  -- Serialize regenerations of the same series
+  PERFORM pg_advisory_xact_lock(hashtext(p_instrument_id::text || ':' || p_maintenance_type));
+
+  -- The edited configuration is saved in the same transaction as its schedules
+  IF p_configuration IS NOT NULL AND NOT p_dry_run THEN
+    UPDATE public.maintenance_configurations SET
+      frequency = p_configuration->>'frequency',
+      recurrence_rule = NULLIF(p_configuration->>'recurrence_rule', ''),
+      schedule_date = (p_configuration->>'schedule_date')::timestamptz
+    WHERE id = (p_configuration->>'id')::uuid
+      AND instrument_id = p_instrument_id
+      AND maintenance_type = p_maintenance_type;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Configuration % not found', p_configuration->>'id';
+    END IF;
+  END IF;
+
+  -- Occurrences that were already completed, skipped or not required are not scheduled again
+  SELECT COALESCE(jsonb_agg(d.elem ORDER BY (d.elem->>'nominal_due_date')::timestamptz), '[]'::jsonb)
+  INTO v_desired
+  FROM jsonb_array_elements(p_rows) AS d(elem)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public."maintenanceSchedules" s
+    WHERE s."instrumentId" = p_instrument_id
+      AND s.type = p_maintenance_type
+      AND s.status IN ('Completed', 'Skipped', 'Not Required')
+      AND s.meter_id IS NULL
+      AND COALESCE(s.nominal_due_date, s."dueDate")::date = (d.elem->>'nominal_due_date')::timestamptz::date
+  );
+
+  FOR v_existing IN
+    SELECT
+      s.id,
+      s.status,
+      s."dueDate" AS due_date,
+      COALESCE(s.nominal_due_date, s."dueDate") AS nominal,
+      (s.status = 'In Progress' OR EXISTS (
+        SELECT 1 FROM public."maintenanceResults" r WHERE r."maintenanceScheduleId" = s.id
+      )) AS in_progress,
+      EXISTS (
+        SELECT 1 FROM public.maintenance_schedule_history h
+        WHERE h.schedule_id = s.id AND h.action = 'rescheduled'
+      ) AS rescheduled
+    FROM public."maintenanceSchedules" s
+    WHERE s."instrumentId" = p_instrument_id
+      AND s.type = p_maintenance_type
+      AND s.status NOT IN ('Completed', 'Skipped', 'Not Required')
+      AND s.meter_id IS NULL
+    ORDER BY COALESCE(s.nominal_due_date, s."dueDate")
+  LOOP
+    -- Same occurrence in the new series (possibly shifted to another working day)
+    SELECT e.ord, e.elem INTO v_match
+    FROM jsonb_array_elements(v_desired) WITH ORDINALITY AS e(elem, ord)
+    WHERE NOT (e.ord = ANY (v_claimed))
+      AND (e.elem->>'nominal_due_date')::timestamptz::date = v_existing.nominal::date
+    LIMIT 1;
+    v_same_occurrence := FOUND;
+
+    -- Started work may be carried over to the closest remaining occurrence
+    IF NOT FOUND AND v_existing.in_progress AND p_in_progress = 'migrate' THEN
+      SELECT e.ord, e.elem INTO v_match
+      FROM jsonb_array_elements(v_desired) WITH ORDINALITY AS e(elem, ord)
+      WHERE NOT (e.ord = ANY (v_claimed))
+      ORDER BY abs(extract(epoch FROM (e.elem->>'nominal_due_date')::timestamptz - v_existing.nominal))
+      LIMIT 1;
+    END IF;
+
+    IF FOUND THEN
+      v_claimed := v_claimed || v_match.ord;
+
+      -- A manually rescheduled occurrence keeps the date it was moved to
+      v_due_date := CASE
+        WHEN v_same_occurrence AND v_existing.rescheduled THEN v_existing.due_date
+        ELSE (v_match.elem->>'dueDate')::timestamptz
+      END;
+
+      IF v_due_date <> v_existing.due_date THEN
+        v_moved := v_moved || jsonb_build_object(
+          'id', v_existing.id,
+          'status', v_existing.status,
+          'fromDueDate', v_existing.due_date,
+          'toDueDate', v_due_date,
+          'inProgress', v_existing.in_progress
+        );
+      END IF;
+
+      IF NOT p_dry_run THEN
+        -- Rows with recorded results keep the template they were started with
+        UPDATE public."maintenanceSchedules" SET
+          "dueDate" = v_due_date,
+          nominal_due_date = (v_match.elem->>'nominal_due_date')::timestamptz,
+          is_last_of_year = COALESCE((v_match.elem->>'is_last_of_year')::boolean, false),
+          template_id = CASE WHEN v_existing.in_progress THEN template_id ELSE NULLIF(v_match.elem->>'template_id', '')::uuid END,
+          "maintenanceBy" = COALESCE(v_match.elem->>'maintenanceBy', "maintenanceBy"),
+          "vendorName" = v_match.elem->>'vendorName',
+          "vendorContact" = v_match.elem->>'vendorContact'
+        WHERE id = v_existing.id;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF v_existing.in_progress THEN
+      v_kept := v_kept || jsonb_build_object(
+        'id', v_existing.id,
+        'status', v_existing.status,
+        'dueDate', v_existing.due_date
+      );
+      CONTINUE;
+    END IF;
+
+    v_removed := v_removed || jsonb_build_object(
+      'id', v_existing.id,
+      'status', v_existing.status,
+      'dueDate', v_existing.due_date
+    );
+    IF NOT p_dry_run THEN
+      PERFORM public.discard_maintenance_schedule(v_existing.id);
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'dueDate', (e.elem->>'dueDate')::timestamptz,
+    'nominalDueDate', (e.elem->>'nominal_due_date')::timestamptz
+  ) ORDER BY e.ord), '[]'::jsonb)
+  INTO v_added
+  FROM jsonb_array_elements(v_desired) WITH ORDINALITY AS e(elem, ord)
+  WHERE NOT (e.ord = ANY (v_claimed));
+
+  IF NOT p_dry_run THEN
+    INSERT INTO public."maintenanceSchedules" (
+      "instrumentId", "dueDate", nominal_due_date, type, description, status,
+      template_id, user_id, org_id, "maintenanceBy", "vendorName", "vendorContact", is_last_of_year
+    )
+    SELECT
+      p_instrument_id,
+      (e.elem->>'dueDate')::timestamptz,
+      (e.elem->>'nominal_due_date')::timestamptz,
+      p_maintenance_type,
+      COALESCE(e.elem->>'description', 'Scheduled ' || p_maintenance_type),
+      'Scheduled',
+      NULLIF(e.elem->>'template_id', '')::uuid,
+      NULLIF(e.elem->>'user_id', '')::uuid,
+      NULLIF(e.elem->>'org_id', '')::uuid,
+      COALESCE(e.elem->>'maintenanceBy', 'internal'),
+      e.elem->>'vendorName',
+      e.elem->>'vendorContact',
+      COALESCE((e.elem->>'is_last_of_year')::boolean, false)
+    FROM jsonb_array_elements(v_desired) WITH ORDINALITY AS e(elem, ord)
+    WHERE NOT (e.ord = ANY (v_claimed));
+  END IF;
+
+  RETURN jsonb_build_object(
+    'dryRun', p_dry_run,
+    'added', v_added,
+    'moved', v_moved,
+    'removed', v_removed,
+    'kept', v_kept
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
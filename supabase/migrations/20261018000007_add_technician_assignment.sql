@@ -0,0 +1,178 @@
+-- Migration: Technician assignment, teams and workload estimates
+-- Version: 20261018000007
+--
+-- Scheduled events can be assigned to a technician, a team, or both (a team
+-- with a named lead). New schedules pick up a default assignment from their
+-- instrument, or failing that from the instrument's location. Each
+-- maintenance type gets an estimated duration so weekly workload can be
+-- totalled per technician, and technicians record which instrument types
+-- they are qualified for so suggested assignments only go to qualified staff.
+
+-- ============================================================================
+-- STEP 1: Teams
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.teams (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT teams_org_name_key UNIQUE (org_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS public.team_members (
+  team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  org_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (team_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_teams_org_id ON public.teams(org_id);
+CREATE INDEX IF NOT EXISTS idx_team_members_user_id ON public.team_members(user_id);
+
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.team_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members can access teams" ON public.teams;
+CREATE POLICY "Org members can access teams" ON public.teams
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id() OR org_id IS NULL)
+  WITH CHECK (org_id = public.get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can access team members" ON public.team_members;
+CREATE POLICY "Org members can access team members" ON public.team_members
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id() OR org_id IS NULL)
+  WITH CHECK (org_id = public.get_user_org_id());
+
+-- ============================================================================
+-- STEP 2: Org Member Directory
+-- ============================================================================
+-- Profiles are only readable by their owner and by admins, so assignment
+-- pickers read colleagues' names through this function instead.
+CREATE OR REPLACE FUNCTION public.list_org_members()
+RETURNS TABLE (id uuid, display_name text, role text, permissions jsonb) AS $$
+  SELECT p.id, p.display_name, p.role, p.permissions
+  FROM public.profiles p
+  WHERE p.org_id = public.get_user_org_id()
+  ORDER BY p.display_name
+$$ LANGUAGE sql SECURITY DEFINER STABLE;
+
+GRANT EXECUTE ON FUNCTION public.list_org_members() TO authenticated;
+
+-- ============================================================================
+-- STEP 3: Qualifications
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.user_qualifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  instrument_type text NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT user_qualifications_user_type_key UNIQUE (user_id, instrument_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_qualifications_org_id ON public.user_qualifications(org_id);
+
+ALTER TABLE public.user_qualifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members can access qualifications" ON public.user_qualifications;
+CREATE POLICY "Org members can access qualifications" ON public.user_qualifications
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id() OR org_id IS NULL)
+  WITH CHECK (org_id = public.get_user_org_id());
+
+-- ============================================================================
+-- STEP 4: Assignment Columns and Defaults
+-- ============================================================================
+ALTER TABLE public."maintenanceSchedules"
+  ADD COLUMN IF NOT EXISTS assigned_to uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS assigned_team_id uuid REFERENCES public.teams(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_schedules_assigned_to ON public."maintenanceSchedules"(assigned_to, "dueDate");
+CREATE INDEX IF NOT EXISTS idx_schedules_assigned_team_id ON public."maintenanceSchedules"(assigned_team_id);
+
+ALTER TABLE public.instruments
+  ADD COLUMN IF NOT EXISTS default_assignee_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS default_team_id uuid REFERENCES public.teams(id) ON DELETE SET NULL;
+
+-- Locations are free text on instruments, so their defaults are keyed by name
+CREATE TABLE IF NOT EXISTS public.location_assignment_defaults (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  location text NOT NULL,
+  assignee_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  team_id uuid REFERENCES public.teams(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT location_assignment_defaults_target_check CHECK (assignee_id IS NOT NULL OR team_id IS NOT NULL),
+  CONSTRAINT location_assignment_defaults_org_location_key UNIQUE (org_id, location)
+);
+
+ALTER TABLE public.location_assignment_defaults ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members can access location assignment defaults" ON public.location_assignment_defaults;
+CREATE POLICY "Org members can access location assignment defaults" ON public.location_assignment_defaults
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id() OR org_id IS NULL)
+  WITH CHECK (org_id = public.get_user_org_id());
+
+-- Every way a schedule is created (generation, horizon job, meter triggers,
+-- regeneration) goes through this, so the defaults apply everywhere.
+CREATE OR REPLACE FUNCTION public.set_schedule_default_assignment()
+RETURNS trigger AS $$
+DECLARE
+  v_instrument record;
+  v_default record;
+BEGIN
+  IF NEW.assigned_to IS NOT NULL OR NEW.assigned_team_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT default_assignee_id, default_team_id, location, org_id
+  INTO v_instrument
+  FROM public.instruments
+  WHERE id = NEW."instrumentId";
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_instrument.default_assignee_id IS NOT NULL OR v_instrument.default_team_id IS NOT NULL THEN
+    NEW.assigned_to := v_instrument.default_assignee_id;
+    NEW.assigned_team_id := v_instrument.default_team_id;
+    RETURN NEW;
+  END IF;
+
+  SELECT assignee_id, team_id
+  INTO v_default
+  FROM public.location_assignment_defaults
+  WHERE org_id = COALESCE(NEW.org_id, v_instrument.org_id)
+    AND location = v_instrument.location;
+
+  IF FOUND THEN
+    NEW.assigned_to := v_default.assignee_id;
+    NEW.assigned_team_id := v_default.team_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_schedule_default_assignment ON public."maintenanceSchedules";
+CREATE TRIGGER set_schedule_default_assignment
+  BEFORE INSERT ON public."maintenanceSchedules"
+  FOR EACH ROW EXECUTE FUNCTION public.set_schedule_default_assignment();
+
+-- ============================================================================
+-- STEP 5: Estimated Duration per Maintenance Type
+-- ============================================================================
+ALTER TABLE public.maintenance_type_policies
+  ADD COLUMN IF NOT EXISTS estimated_hours numeric;
+
+ALTER TABLE public.maintenance_type_policies
+  DROP CONSTRAINT IF EXISTS maintenance_type_policies_estimated_hours_check;
+ALTER TABLE public.maintenance_type_policies
+  ADD CONSTRAINT maintenance_type_policies_estimated_hours_check
+  CHECK (estimated_hours IS NULL OR estimated_hours >= 0);
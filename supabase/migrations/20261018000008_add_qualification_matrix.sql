@@ -0,0 +1,153 @@
+-- Migration: Qualification and training matrix
+-- Version: 20261018000008
+--
+-- A qualification now covers either an instrument type or a specific test
+-- template (the SOP), with the SOP version trained on, a training date, an
+-- optional expiry and an evidence document. Result entry is gated on a current
+-- qualification; when the performer has none, a supervisor can authorize the
+-- work. Overrides are written only by the server after the supervisor's
+-- credentials are checked, and each result records which qualification or
+-- override it was entered under, checked against the performer and schedule.
+
+-- ============================================================================
+-- STEP 1: Qualification Scope, Expiry and Evidence
+-- ============================================================================
+ALTER TABLE public.user_qualifications
+  ALTER COLUMN instrument_type DROP NOT NULL;
+
+ALTER TABLE public.user_qualifications
+  ADD COLUMN IF NOT EXISTS template_id uuid REFERENCES public."testTemplates"(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS sop_version text,
+  ADD COLUMN IF NOT EXISTS trained_on date,
+  ADD COLUMN IF NOT EXISTS expires_on date,
+  ADD COLUMN IF NOT EXISTS evidence_url text,
+  ADD COLUMN IF NOT EXISTS evidence_name text,
+  ADD COLUMN IF NOT EXISTS notes text;
+
+ALTER TABLE public.user_qualifications
+  DROP CONSTRAINT IF EXISTS user_qualifications_scope_check;
+ALTER TABLE public.user_qualifications
+  ADD CONSTRAINT user_qualifications_scope_check
+  CHECK (num_nonnulls(instrument_type, template_id) = 1);
+
+-- One record per user and scope; renewing a qualification updates it in place
+ALTER TABLE public.user_qualifications
+  DROP CONSTRAINT IF EXISTS user_qualifications_user_type_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_qualifications_user_type
+  ON public.user_qualifications(user_id, instrument_type)
+  WHERE instrument_type IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_qualifications_user_template
+  ON public.user_qualifications(user_id, template_id)
+  WHERE template_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_user_qualifications_expires_on
+  ON public.user_qualifications(expires_on)
+  WHERE expires_on IS NOT NULL;
+
+-- ============================================================================
+-- STEP 2: Supervisor Overrides
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.qualification_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  schedule_id uuid NOT NULL REFERENCES public."maintenanceSchedules"(id) ON DELETE CASCADE,
+  performed_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  supervisor_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT qualification_overrides_distinct_users_check CHECK (performed_by <> supervisor_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_qualification_overrides_schedule_id
+  ON public.qualification_overrides(schedule_id);
+
+ALTER TABLE public.qualification_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Readable by the org; there is deliberately no insert policy, so only the
+-- override API (service role) can create them
+DROP POLICY IF EXISTS "Org members can view qualification overrides" ON public.qualification_overrides;
+CREATE POLICY "Org members can view qualification overrides" ON public.qualification_overrides
+  FOR SELECT TO authenticated
+  USING (org_id = public.get_user_org_id());
+
+-- ============================================================================
+-- STEP 3: Qualification Recorded on Results
+-- ============================================================================
+ALTER TABLE public."maintenanceResults"
+  ADD COLUMN IF NOT EXISTS qualification_id uuid REFERENCES public.user_qualifications(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS qualification_override_id uuid REFERENCES public.qualification_overrides(id) ON DELETE SET NULL;
+
+-- ============================================================================
+-- STEP 4: Results Are Checked Against the Performer
+-- ============================================================================
+-- The app picks the qualification or override a result is entered under; the
+-- database makes sure there is one, that the result is entered in the caller's
+-- own name, and that it belongs to them and covers this schedule. The server
+-- (no auth.uid()) is not checked. Runs as owner so the check sees
+-- qualifications the caller cannot.
+CREATE OR REPLACE FUNCTION public.check_result_qualification()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_instrument_type text;
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.qualification_id IS NOT DISTINCT FROM OLD.qualification_id
+     AND NEW.qualification_override_id IS NOT DISTINCT FROM OLD.qualification_override_id
+     AND NEW.user_id IS NOT DISTINCT FROM OLD.user_id
+     AND NEW."maintenanceScheduleId" IS NOT DISTINCT FROM OLD."maintenanceScheduleId"
+     AND NEW."templateId" IS NOT DISTINCT FROM OLD."templateId" THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Results can only be entered in your own name';
+  END IF;
+
+  IF NEW.qualification_id IS NULL AND NEW.qualification_override_id IS NULL THEN
+    RAISE EXCEPTION 'A current qualification or a supervisor override is required to enter results';
+  END IF;
+
+  IF NEW.qualification_id IS NOT NULL THEN
+    SELECT i."instrumentType" INTO v_instrument_type
+    FROM public."maintenanceSchedules" s
+    JOIN public.instruments i ON i.id = s."instrumentId"
+    WHERE s.id = NEW."maintenanceScheduleId";
+
+    -- Valid through the end of its expiry date, for the template or the instrument type
+    IF NOT EXISTS (
+      SELECT 1 FROM public.user_qualifications q
+      WHERE q.id = NEW.qualification_id
+        AND q.user_id = NEW.user_id
+        AND (q.expires_on IS NULL OR q.expires_on >= current_date)
+        AND (
+          (NEW."templateId" IS NOT NULL AND q.template_id = NEW."templateId")
+          OR q.instrument_type = v_instrument_type
+        )
+    ) THEN
+      RAISE EXCEPTION 'The qualification does not cover this work for the person entering the result';
+    END IF;
+  END IF;
+
+  IF NEW.qualification_override_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.qualification_overrides o
+    WHERE o.id = NEW.qualification_override_id
+      AND o.schedule_id = NEW."maintenanceScheduleId"
+      AND o.performed_by = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'The supervisor override was not given for this schedule and performer';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_result_qualification ON public."maintenanceResults";
+CREATE TRIGGER check_result_qualification
+  BEFORE INSERT OR UPDATE ON public."maintenanceResults"
+  FOR EACH ROW EXECUTE FUNCTION public.check_result_qualification();
@@ -0,0 +1,177 @@
+-- Migration: Maintenance prerequisites and task sequences
+-- Version: 20261018000009
+--
+-- A maintenance configuration can name other configurations on the same
+-- instrument that must be done first, e.g. the post-PM calibration waits for
+-- the preventive maintenance. Each occurrence of the dependent task is paired
+-- with the latest occurrence of the prerequisite whose nominal date is not
+-- after its own. Results cannot be entered until that occurrence is closed,
+-- and completing it moves the dependent occurrence to the completion date
+-- plus the configured lag.
+
+-- ============================================================================
+-- STEP 1: Prerequisite Links
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.maintenance_prerequisites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  configuration_id uuid NOT NULL REFERENCES public.maintenance_configurations(id) ON DELETE CASCADE,
+  prerequisite_configuration_id uuid NOT NULL REFERENCES public.maintenance_configurations(id) ON DELETE CASCADE,
+  lag_days integer NOT NULL DEFAULT 0,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT maintenance_prerequisites_pair_key UNIQUE (configuration_id, prerequisite_configuration_id),
+  CONSTRAINT maintenance_prerequisites_self_check CHECK (configuration_id <> prerequisite_configuration_id),
+  CONSTRAINT maintenance_prerequisites_lag_check CHECK (lag_days >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_prerequisites_prerequisite
+  ON public.maintenance_prerequisites(prerequisite_configuration_id);
+
+ALTER TABLE public.maintenance_prerequisites ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members can access maintenance prerequisites" ON public.maintenance_prerequisites;
+CREATE POLICY "Org members can access maintenance prerequisites" ON public.maintenance_prerequisites
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id() OR org_id IS NULL)
+  WITH CHECK (org_id = public.get_user_org_id());
+
+-- Both tasks must belong to one instrument, and a sequence may not loop back on itself
+CREATE OR REPLACE FUNCTION public.validate_maintenance_prerequisite()
+RETURNS trigger AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.maintenance_configurations c
+    JOIN public.maintenance_configurations p ON p.instrument_id = c.instrument_id
+    WHERE c.id = NEW.configuration_id
+      AND p.id = NEW.prerequisite_configuration_id
+  ) THEN
+    RAISE EXCEPTION 'A prerequisite must be another task on the same instrument';
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE upstream(id) AS (
+      SELECT mp.prerequisite_configuration_id
+      FROM public.maintenance_prerequisites mp
+      WHERE mp.configuration_id = NEW.prerequisite_configuration_id
+      UNION
+      SELECT mp.prerequisite_configuration_id
+      FROM public.maintenance_prerequisites mp
+      JOIN upstream u ON mp.configuration_id = u.id
+    )
+    SELECT 1 FROM upstream WHERE id = NEW.configuration_id
+  ) THEN
+    RAISE EXCEPTION 'This prerequisite would create a circular sequence';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_maintenance_prerequisite ON public.maintenance_prerequisites;
+CREATE TRIGGER validate_maintenance_prerequisite
+  BEFORE INSERT OR UPDATE OF configuration_id, prerequisite_configuration_id ON public.maintenance_prerequisites
+  FOR EACH ROW EXECUTE FUNCTION public.validate_maintenance_prerequisite();
+
+-- ============================================================================
+-- STEP 2: Blocking Prerequisites
+-- ============================================================================
+-- Closed covers Skipped and Not Required too: skipping the prerequisite is a
+-- recorded decision, and it should not leave the dependent task stuck.
+CREATE OR REPLACE FUNCTION public.get_blocking_prerequisites(p_schedule_id uuid)
+RETURNS TABLE (
+  schedule_id uuid,
+  maintenance_type text,
+  status text,
+  due_date timestamptz,
+  lag_days integer
+) AS $$
+  SELECT DISTINCT ON (p.id) p.id, pc.maintenance_type, p.status, p."dueDate", mp.lag_days
+  FROM public."maintenanceSchedules" s
+  JOIN public.maintenance_configurations c
+    ON c.instrument_id = s."instrumentId" AND c.maintenance_type = s.type
+  JOIN public.maintenance_prerequisites mp ON mp.configuration_id = c.id
+  JOIN public.maintenance_configurations pc ON pc.id = mp.prerequisite_configuration_id
+  CROSS JOIN LATERAL (
+    SELECT ps.id, ps.status, ps."dueDate"
+    FROM public."maintenanceSchedules" ps
+    WHERE ps."instrumentId" = s."instrumentId"
+      AND ps.type = pc.maintenance_type
+      AND COALESCE(ps.nominal_due_date, ps."dueDate") <= COALESCE(s.nominal_due_date, s."dueDate")
+    ORDER BY COALESCE(ps.nominal_due_date, ps."dueDate") DESC
+    LIMIT 1
+  ) p
+  WHERE s.id = p_schedule_id
+    AND pc.is_active IS DISTINCT FROM false
+    AND p.status NOT IN ('Completed', 'Skipped', 'Not Required')
+  ORDER BY p.id
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION public.get_blocking_prerequisites(uuid) TO authenticated;
+
+-- ============================================================================
+-- STEP 3: Dependent Due Dates Follow Completion
+-- ============================================================================
+-- Moves go through transition_maintenance_schedule so they are recorded in the
+-- schedule history and keep their date when the series is regenerated.
+CREATE OR REPLACE FUNCTION public.follow_prerequisite_completion(p_schedule_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_done record;
+  v_dependent record;
+  v_due_date timestamptz;
+  v_count integer := 0;
+BEGIN
+  SELECT
+    s.id,
+    s."instrumentId" AS instrument_id,
+    s.type,
+    s.status,
+    COALESCE(s."completedDate", now()) AS completed_at,
+    COALESCE(s.nominal_due_date, s."dueDate") AS nominal
+  INTO v_done
+  FROM public."maintenanceSchedules" s
+  WHERE s.id = p_schedule_id;
+
+  IF NOT FOUND OR v_done.status <> 'Completed' THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_dependent IN
+    SELECT DISTINCT ON (d.id) d.id, d."dueDate" AS due_date, mp.lag_days
+    FROM public.maintenance_configurations pc
+    JOIN public.maintenance_prerequisites mp ON mp.prerequisite_configuration_id = pc.id
+    JOIN public.maintenance_configurations dc ON dc.id = mp.configuration_id
+    JOIN public."maintenanceSchedules" d
+      ON d."instrumentId" = v_done.instrument_id AND d.type = dc.maintenance_type
+    WHERE pc.instrument_id = v_done.instrument_id
+      AND pc.maintenance_type = v_done.type
+      AND dc.is_active IS DISTINCT FROM false
+      AND d.status NOT IN ('Completed', 'Skipped', 'Not Required')
+      AND COALESCE(d.nominal_due_date, d."dueDate") >= v_done.nominal
+      -- Paired with this occurrence rather than a later one of the prerequisite
+      AND NOT EXISTS (
+        SELECT 1
+        FROM public."maintenanceSchedules" later
+        WHERE later."instrumentId" = v_done.instrument_id
+          AND later.type = v_done.type
+          AND COALESCE(later.nominal_due_date, later."dueDate") > v_done.nominal
+          AND COALESCE(later.nominal_due_date, later."dueDate") <= COALESCE(d.nominal_due_date, d."dueDate")
+      )
+    ORDER BY d.id, mp.lag_days
+  LOOP
+    v_due_date := v_done.completed_at + make_interval(days => v_dependent.lag_days);
+    IF v_due_date <> v_dependent.due_date THEN
+      PERFORM public.transition_maintenance_schedule(
+        v_dependent.id, 'Rescheduled', 'prerequisite_completed', NULL, v_due_date
+      );
+      v_count := v_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION public.follow_prerequisite_completion(uuid) TO authenticated;
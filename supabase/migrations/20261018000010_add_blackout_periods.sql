@@ -0,0 +1,136 @@
+-- Migration: Blackout periods and out-of-service suspension
+-- Version: 20261018000010
+--
+-- A blackout period covers whole days for the organization, one location or
+-- one instrument (a plant shutdown, a site move, a repair). Occurrences whose
+-- due date falls inside it are either deferred to the first day after it
+-- ('defer') or not scheduled at all ('suppress'); the application applies this
+-- when it plans due dates and when a blackout is added.
+--
+-- An instrument set to 'Out of Service' suspends its maintenance
+-- configurations. Work that is already due is waived as Not Required with the
+-- out_of_service reason code, later occurrences that have not been started are
+-- removed, and no new ones are generated until the instrument returns to
+-- service, when the application restarts each series from that day.
+
+-- ============================================================================
+-- STEP 1: Blackout Periods
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.blackout_periods (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  -- Neither set = whole organization
+  location text,
+  instrument_id uuid REFERENCES public.instruments(id) ON DELETE CASCADE,
+  starts_on date NOT NULL,
+  ends_on date NOT NULL,
+  policy text NOT NULL DEFAULT 'defer',
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT blackout_periods_dates_check CHECK (ends_on >= starts_on),
+  CONSTRAINT blackout_periods_scope_check CHECK (location IS NULL OR instrument_id IS NULL),
+  CONSTRAINT blackout_periods_policy_check CHECK (policy = ANY (ARRAY['defer', 'suppress']))
+);
+
+CREATE INDEX IF NOT EXISTS idx_blackout_periods_org_dates ON public.blackout_periods(org_id, ends_on);
+CREATE INDEX IF NOT EXISTS idx_blackout_periods_instrument ON public.blackout_periods(instrument_id);
+
+ALTER TABLE public.blackout_periods ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members can access blackout periods" ON public.blackout_periods;
+CREATE POLICY "Org members can access blackout periods" ON public.blackout_periods
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id() OR org_id IS NULL)
+  WITH CHECK (org_id = public.get_user_org_id());
+
+-- ============================================================================
+-- STEP 2: Suspended Configurations
+-- ============================================================================
+-- Separate from is_active: a suspension ends by itself when the instrument
+-- returns to service, a deactivated configuration stays off
+ALTER TABLE public.maintenance_configurations
+  ADD COLUMN IF NOT EXISTS suspended_at timestamptz;
+
+CREATE OR REPLACE FUNCTION public.suspend_out_of_service_instrument(p_instrument_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_schedule record;
+BEGIN
+  UPDATE public.maintenance_configurations
+  SET suspended_at = now()
+  WHERE instrument_id = p_instrument_id
+    AND suspended_at IS NULL;
+
+  -- Started work is left alone; everything else that is due is waived
+  FOR v_schedule IN
+    SELECT s.id
+    FROM public."maintenanceSchedules" s
+    WHERE s."instrumentId" = p_instrument_id
+      AND s.status IN ('Scheduled', 'Rescheduled', 'Overdue')
+      AND s."dueDate" < now()
+      AND NOT EXISTS (
+        SELECT 1 FROM public."maintenanceResults" r WHERE r."maintenanceScheduleId" = s.id
+      )
+  LOOP
+    PERFORM public.transition_maintenance_schedule(v_schedule.id, 'Not Required', 'out_of_service', NULL, NULL);
+  END LOOP;
+
+  PERFORM public.discard_maintenance_schedule(s.id)
+  FROM public."maintenanceSchedules" s
+  WHERE s."instrumentId" = p_instrument_id
+    AND s.status IN ('Scheduled', 'Rescheduled', 'Overdue')
+    AND s."dueDate" >= now()
+    AND NOT EXISTS (
+      SELECT 1 FROM public."maintenanceResults" r WHERE r."maintenanceScheduleId" = s.id
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+CREATE OR REPLACE FUNCTION public.sync_instrument_service_status()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'Out of Service' THEN
+    PERFORM public.suspend_out_of_service_instrument(NEW.id);
+  ELSIF OLD.status = 'Out of Service' THEN
+    UPDATE public.maintenance_configurations
+    SET suspended_at = NULL
+    WHERE instrument_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_instrument_service_status ON public.instruments;
+CREATE TRIGGER sync_instrument_service_status
+  AFTER UPDATE OF status ON public.instruments
+  FOR EACH ROW EXECUTE FUNCTION public.sync_instrument_service_status();
+
+-- Configurations added while the instrument is out of service start suspended
+CREATE OR REPLACE FUNCTION public.suspend_new_configuration()
+RETURNS trigger AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.instruments i
+    WHERE i.id = NEW.instrument_id AND i.status = 'Out of Service'
+  ) THEN
+    NEW.suspended_at := COALESCE(NEW.suspended_at, now());
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS suspend_new_configuration ON public.maintenance_configurations;
+CREATE TRIGGER suspend_new_configuration
+  BEFORE INSERT ON public.maintenance_configurations
+  FOR EACH ROW EXECUTE FUNCTION public.suspend_new_configuration();
+
+-- Instruments that are already out of service
+SELECT public.suspend_out_of_service_instrument(i.id)
+FROM public.instruments i
+WHERE i.status = 'Out of Service';
@@ -0,0 +1,121 @@
+-- Migration: Task step checklists with labour time
+-- Version: 20261018000011
+--
+-- A maintenance schedule can carry an ordered list of work steps (cleaning,
+-- parts replaced, functional checks, handover). Each step has a start/stop
+-- timer, the technician who worked on it and an optional photo. Steps are
+-- separate from the measurement sections of test templates.
+--
+-- Timers run on the database clock: set_task_step_timer starts or stops one
+-- and adds the elapsed time to labour_seconds. The total of a schedule's steps
+-- is kept on "maintenanceSchedules".labour_seconds for workload and reporting.
+
+-- ============================================================================
+-- STEP 1: Task Steps
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.maintenance_task_steps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  schedule_id uuid NOT NULL REFERENCES public."maintenanceSchedules"(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 0,
+  title text NOT NULL,
+  notes text,
+  performed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Set while the timer is running
+  timer_started_at timestamptz,
+  labour_seconds integer NOT NULL DEFAULT 0,
+  completed_at timestamptz,
+  photo_url text,
+  photo_name text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT maintenance_task_steps_title_check CHECK (length(btrim(title)) > 0),
+  CONSTRAINT maintenance_task_steps_labour_check CHECK (labour_seconds >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_task_steps_schedule
+  ON public.maintenance_task_steps(schedule_id, position);
+
+ALTER TABLE public.maintenance_task_steps ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members can access task steps" ON public.maintenance_task_steps;
+CREATE POLICY "Org members can access task steps" ON public.maintenance_task_steps
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id() OR org_id IS NULL)
+  WITH CHECK (org_id = public.get_user_org_id());
+
+-- ============================================================================
+-- STEP 2: Labour Roll-up
+-- ============================================================================
+ALTER TABLE public."maintenanceSchedules"
+  ADD COLUMN IF NOT EXISTS labour_seconds integer NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.roll_up_task_labour()
+RETURNS trigger AS $$
+DECLARE
+  v_schedule_id uuid := COALESCE(NEW.schedule_id, OLD.schedule_id);
+BEGIN
+  UPDATE public."maintenanceSchedules"
+  SET labour_seconds = (
+    SELECT COALESCE(sum(t.labour_seconds), 0)
+    FROM public.maintenance_task_steps t
+    WHERE t.schedule_id = v_schedule_id
+  )
+  WHERE id = v_schedule_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS roll_up_task_labour ON public.maintenance_task_steps;
+CREATE TRIGGER roll_up_task_labour
+  AFTER INSERT OR DELETE OR UPDATE OF labour_seconds ON public.maintenance_task_steps
+  FOR EACH ROW EXECUTE FUNCTION public.roll_up_task_labour();
+
+-- ============================================================================
+-- STEP 3: Step Timer
+-- ============================================================================
+-- Starting a timer records who is doing the step and marks open work as started
+CREATE OR REPLACE FUNCTION public.set_task_step_timer(p_step_id uuid, p_running boolean)
+RETURNS public.maintenance_task_steps AS $$
+DECLARE
+  v_step public.maintenance_task_steps;
+BEGIN
+  SELECT * INTO v_step
+  FROM public.maintenance_task_steps
+  WHERE id = p_step_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task step % not found', p_step_id;
+  END IF;
+
+  IF p_running AND v_step.timer_started_at IS NULL THEN
+    IF v_step.completed_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Reopen the step before timing it again';
+    END IF;
+
+    UPDATE public.maintenance_task_steps
+    SET timer_started_at = now(), performed_by = auth.uid(), updated_at = now()
+    WHERE id = p_step_id
+    RETURNING * INTO v_step;
+
+    UPDATE public."maintenanceSchedules"
+    SET status = 'In Progress'
+    WHERE id = v_step.schedule_id
+      AND status IN ('Scheduled', 'Rescheduled', 'Overdue');
+  ELSIF NOT p_running AND v_step.timer_started_at IS NOT NULL THEN
+    UPDATE public.maintenance_task_steps
+    SET
+      labour_seconds = labour_seconds + GREATEST(0, floor(extract(epoch FROM now() - timer_started_at)))::integer,
+      timer_started_at = NULL,
+      updated_at = now()
+    WHERE id = p_step_id
+    RETURNING * INTO v_step;
+  END IF;
+
+  RETURN v_step;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION public.set_task_step_timer(uuid, boolean) TO authenticated;
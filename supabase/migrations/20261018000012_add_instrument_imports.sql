@@ -0,0 +1,107 @@
+-- Migration: Bulk instrument imports
+-- Version: 20261018000012
+--
+-- Instruments created from a CSV/XLSX file are tagged with the import they
+-- came from, so the whole batch (instruments, their maintenance configurations
+-- and generated schedules) can be removed again in one step. A batch can only
+-- be rolled back while none of its instruments has recorded results.
+
+-- ============================================================================
+-- STEP 1: Import Batches
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.instrument_imports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  file_name text NOT NULL,
+  instrument_count integer NOT NULL DEFAULT 0,
+  schedule_count integer NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'pending',
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  rolled_back_at timestamptz,
+  CONSTRAINT instrument_imports_status_check CHECK (status = ANY (ARRAY['pending', 'committed', 'rolled_back']))
+);
+
+CREATE INDEX IF NOT EXISTS idx_instrument_imports_org ON public.instrument_imports(org_id, created_at DESC);
+
+ALTER TABLE public.instrument_imports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members can access instrument imports" ON public.instrument_imports;
+CREATE POLICY "Org members can access instrument imports" ON public.instrument_imports
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id() OR org_id IS NULL)
+  WITH CHECK (org_id = public.get_user_org_id());
+
+ALTER TABLE public.instruments
+  ADD COLUMN IF NOT EXISTS import_id uuid REFERENCES public.instrument_imports(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_instruments_import ON public.instruments(import_id);
+
+-- ============================================================================
+-- STEP 2: Roll Back
+-- ============================================================================
+-- Removes everything the import created. Runs as one transaction, so either
+-- the whole batch goes or nothing does. Members do not delete instruments or
+-- schedules directly once they have a recycle bin, so this runs as the owner
+-- and checks the caller's org and right to edit instruments itself.
+CREATE OR REPLACE FUNCTION public.can_roll_back_import(p_import_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.instrument_imports i
+    WHERE i.id = p_import_id
+      AND i.org_id = public.get_user_org_id()
+  ) AND EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid() AND (p.role = 'admin' OR p.permissions ->> 'instruments' = 'edit')
+  )
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.roll_back_instrument_import(p_import_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_status text;
+  v_count integer;
+BEGIN
+  IF NOT public.can_roll_back_import(p_import_id) THEN
+    RAISE EXCEPTION 'Import % not found', p_import_id;
+  END IF;
+
+  SELECT status INTO v_status
+  FROM public.instrument_imports
+  WHERE id = p_import_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import % not found', p_import_id;
+  END IF;
+  IF v_status = 'rolled_back' THEN
+    RAISE EXCEPTION 'This import has already been rolled back';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public."maintenanceResults" r
+    JOIN public.instruments i ON i.id = r."instrumentId"
+    WHERE i.import_id = p_import_id
+  ) THEN
+    RAISE EXCEPTION 'Results have been recorded against instruments from this import';
+  END IF;
+
+  DELETE FROM public."maintenanceSchedules"
+  WHERE "instrumentId" IN (SELECT id FROM public.instruments WHERE import_id = p_import_id);
+
+  DELETE FROM public.maintenance_configurations
+  WHERE instrument_id IN (SELECT id FROM public.instruments WHERE import_id = p_import_id);
+
+  DELETE FROM public.instruments WHERE import_id = p_import_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE public.instrument_imports
+  SET status = 'rolled_back', rolled_back_at = now()
+  WHERE id = p_import_id;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.roll_back_instrument_import(uuid) TO authenticated;
@@ -0,0 +1,109 @@
+-- Migration: Instrument hierarchy
+-- Version: 20261018000013
+--
+-- Instruments can be parts of other instruments: a GC system is made of an
+-- injector, column oven, detector and autosampler, each with its own serial
+-- number and maintenance. parent_id links a module to the system it is
+-- installed in. Schedules and results stay keyed to the instrument they were
+-- recorded against, so a module moved to another system keeps its history;
+-- every move is logged in instrument_hierarchy_history.
+
+-- ============================================================================
+-- STEP 1: Parent Link
+-- ============================================================================
+-- Removing a system leaves its modules as standalone instruments
+ALTER TABLE public.instruments
+  ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES public.instruments(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_instruments_parent_id ON public.instruments(parent_id);
+
+-- A parent must be in the same organisation, and an instrument cannot end up inside itself
+CREATE OR REPLACE FUNCTION public.validate_instrument_parent()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_id = NEW.id THEN
+    RAISE EXCEPTION 'An instrument cannot be a component of itself';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.instruments p
+    WHERE p.id = NEW.parent_id
+      AND p.org_id IS NOT DISTINCT FROM NEW.org_id
+  ) THEN
+    RAISE EXCEPTION 'The parent system must be an instrument in the same organisation';
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors(id) AS (
+      SELECT i.parent_id FROM public.instruments i WHERE i.id = NEW.parent_id
+      UNION
+      SELECT i.parent_id
+      FROM public.instruments i
+      JOIN ancestors a ON i.id = a.id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'This would place the instrument inside one of its own components';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_instrument_parent ON public.instruments;
+CREATE TRIGGER validate_instrument_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON public.instruments
+  FOR EACH ROW EXECUTE FUNCTION public.validate_instrument_parent();
+
+-- ============================================================================
+-- STEP 2: Move History
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.instrument_hierarchy_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  instrument_id uuid NOT NULL REFERENCES public.instruments(id) ON DELETE CASCADE,
+  from_parent_id uuid REFERENCES public.instruments(id) ON DELETE SET NULL,
+  to_parent_id uuid REFERENCES public.instruments(id) ON DELETE SET NULL,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_instrument_hierarchy_history_instrument
+  ON public.instrument_hierarchy_history(instrument_id, changed_at);
+
+ALTER TABLE public.instrument_hierarchy_history ENABLE ROW LEVEL SECURITY;
+
+-- Append-only, like the schedule history
+DROP POLICY IF EXISTS "Org members can read instrument hierarchy history" ON public.instrument_hierarchy_history;
+CREATE POLICY "Org members can read instrument hierarchy history" ON public.instrument_hierarchy_history
+  FOR SELECT TO authenticated
+  USING (org_id = public.get_user_org_id() OR org_id IS NULL);
+
+DROP POLICY IF EXISTS "Org members can add instrument hierarchy history" ON public.instrument_hierarchy_history;
+CREATE POLICY "Org members can add instrument hierarchy history" ON public.instrument_hierarchy_history
+  FOR INSERT TO authenticated
+  WITH CHECK (org_id = public.get_user_org_id());
+
+-- ON DELETE SET NULL from a removed system is not a move anyone made, so it is not logged
+CREATE OR REPLACE FUNCTION public.log_instrument_parent_change()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.parent_id IS NOT DISTINCT FROM OLD.parent_id OR pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.instrument_hierarchy_history (org_id, instrument_id, from_parent_id, to_parent_id, changed_by)
+  VALUES (NEW.org_id, NEW.id, OLD.parent_id, NEW.parent_id, auth.uid());
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS log_instrument_parent_change ON public.instruments;
+CREATE TRIGGER log_instrument_parent_change
+  AFTER UPDATE OF parent_id ON public.instruments
+  FOR EACH ROW EXECUTE FUNCTION public.log_instrument_parent_change();
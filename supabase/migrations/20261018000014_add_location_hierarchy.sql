@@ -0,0 +1,316 @@
+-- Migration: Location hierarchy
+-- Version: 20261018000014
+--
+-- Locations become a managed tree per organisation (site, building, room,
+-- bench), each with a short code. instruments.location_id points into the
+-- tree, and instruments.location is kept as the location's full path, e.g.
+-- "Main Site / QC Building / QC Lab 1". Working calendars, blackout periods and
+-- location assignment defaults still match on that text, so they keep working
+-- and are rewritten when a location is renamed or moved.
+--
+-- Existing free-text locations are mapped onto new room-level locations.
+-- Spellings that differ only in case, spacing or punctuation ("QC Lab 1",
+-- "QC lab-1", "QC-Lab1") become one location named after the most common one.
+
+-- ============================================================================
+-- STEP 1: Locations
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.locations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  -- Locations with children or instruments cannot be removed
+  parent_id uuid REFERENCES public.locations(id) ON DELETE RESTRICT,
+  level text NOT NULL,
+  code text NOT NULL,
+  name text NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT locations_level_check CHECK (level IN ('site', 'building', 'room', 'bench')),
+  CONSTRAINT locations_code_check CHECK (length(btrim(code)) > 0),
+  -- ' / ' separates the levels of a path
+  CONSTRAINT locations_name_check CHECK (length(btrim(name)) > 0 AND position(' / ' IN name) = 0)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_locations_org_code ON public.locations(org_id, upper(code));
+-- Unique sibling names keep every path unique
+CREATE UNIQUE INDEX IF NOT EXISTS idx_locations_sibling_name
+  ON public.locations(org_id, COALESCE(parent_id, '00000000-0000-0000-0000-000000000000'::uuid), lower(name));
+CREATE INDEX IF NOT EXISTS idx_locations_parent_id ON public.locations(parent_id);
+
+ALTER TABLE public.locations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members can access locations" ON public.locations;
+CREATE POLICY "Org members can access locations" ON public.locations
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id() OR org_id IS NULL)
+  WITH CHECK (org_id = public.get_user_org_id());
+
+-- Case, spacing and punctuation are ignored when matching location text
+CREATE OR REPLACE FUNCTION public.normalize_location_key(p_text text)
+RETURNS text AS $$
+  SELECT regexp_replace(lower(COALESCE(p_text, '')), '[^a-z0-9]+', '', 'g')
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.location_path(p_location_id uuid)
+RETURNS text AS $$
+  WITH RECURSIVE chain(id, parent_id, name, depth) AS (
+    SELECT l.id, l.parent_id, l.name, 0
+    FROM public.locations l
+    WHERE l.id = p_location_id
+    UNION ALL
+    SELECT l.id, l.parent_id, l.name, c.depth + 1
+    FROM public.locations l
+    JOIN chain c ON l.id = c.parent_id
+    WHERE c.depth < 16
+  )
+  SELECT string_agg(name, ' / ' ORDER BY depth DESC) FROM chain
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.location_path(uuid) TO authenticated;
+
+-- A child sits at a deeper level than its parent (levels may be skipped, e.g. a
+-- room directly under a site), in the same organisation, and never under itself
+CREATE OR REPLACE FUNCTION public.validate_location()
+RETURNS trigger AS $$
+DECLARE
+  v_levels text[] := ARRAY['site', 'building', 'room', 'bench'];
+  v_parent record;
+BEGIN
+  IF TG_OP = 'UPDATE' AND EXISTS (
+    SELECT 1 FROM public.locations c
+    WHERE c.parent_id = NEW.id
+      AND array_position(v_levels, c.level) <= array_position(v_levels, NEW.level)
+  ) THEN
+    RAISE EXCEPTION 'A % cannot contain the locations already inside it', NEW.level;
+  END IF;
+
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT org_id, level INTO v_parent FROM public.locations WHERE id = NEW.parent_id;
+  IF NOT FOUND OR v_parent.org_id IS DISTINCT FROM NEW.org_id THEN
+    RAISE EXCEPTION 'The parent location must be in the same organisation';
+  END IF;
+
+  IF array_position(v_levels, v_parent.level) >= array_position(v_levels, NEW.level) THEN
+    RAISE EXCEPTION 'A % cannot be placed inside a %', NEW.level, v_parent.level;
+  END IF;
+
+  IF NEW.parent_id = NEW.id OR EXISTS (
+    WITH RECURSIVE ancestors(id) AS (
+      SELECT l.parent_id FROM public.locations l WHERE l.id = NEW.parent_id
+      UNION
+      SELECT l.parent_id
+      FROM public.locations l
+      JOIN ancestors a ON l.id = a.id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A location cannot be placed inside itself';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_location ON public.locations;
+CREATE TRIGGER validate_location
+  BEFORE INSERT OR UPDATE OF parent_id, level ON public.locations
+  FOR EACH ROW EXECUTE FUNCTION public.validate_location();
+
+-- ============================================================================
+-- STEP 2: Instrument Locations
+-- ============================================================================
+ALTER TABLE public.instruments
+  ADD COLUMN IF NOT EXISTS location_id uuid REFERENCES public.locations(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_instruments_location_id ON public.instruments(location_id);
+
+-- location always mirrors location_id. Writers that still send only text (older
+-- clients, the API) are matched to a location by path or code, or by name when
+-- that is unambiguous; unmatched text is kept as it is.
+CREATE OR REPLACE FUNCTION public.sync_instrument_location()
+RETURNS trigger AS $$
+DECLARE
+  v_key text;
+BEGIN
+  IF NEW.location_id IS NULL AND NEW.location IS NOT NULL THEN
+    v_key := public.normalize_location_key(NEW.location);
+    SELECT l.id INTO NEW.location_id
+    FROM public.locations l
+    WHERE l.org_id IS NOT DISTINCT FROM NEW.org_id
+      AND (
+        public.normalize_location_key(public.location_path(l.id)) = v_key
+        OR upper(l.code) = upper(btrim(NEW.location))
+        OR (
+          public.normalize_location_key(l.name) = v_key
+          AND NOT EXISTS (
+            SELECT 1 FROM public.locations o
+            WHERE o.org_id IS NOT DISTINCT FROM l.org_id
+              AND o.id <> l.id
+              AND public.normalize_location_key(o.name) = v_key
+          )
+        )
+      )
+    LIMIT 1;
+  END IF;
+
+  IF NEW.location_id IS NOT NULL THEN
+    NEW.location := public.location_path(NEW.location_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_instrument_location ON public.instruments;
+CREATE TRIGGER sync_instrument_location
+  BEFORE INSERT OR UPDATE OF location_id, location ON public.instruments
+  FOR EACH ROW EXECUTE FUNCTION public.sync_instrument_location();
+
+-- ============================================================================
+-- STEP 3: Renames and Moves Follow Through
+-- ============================================================================
+-- Rewrites the old path prefix wherever location text is stored, including the
+-- paths of everything below the changed location
+CREATE OR REPLACE FUNCTION public.propagate_location_path()
+RETURNS trigger AS $$
+DECLARE
+  v_old text;
+  v_new text;
+BEGIN
+  IF NEW.name = OLD.name AND NEW.parent_id IS NOT DISTINCT FROM OLD.parent_id THEN
+    RETURN NEW;
+  END IF;
+
+  v_old := CASE WHEN OLD.parent_id IS NULL THEN OLD.name ELSE public.location_path(OLD.parent_id) || ' / ' || OLD.name END;
+  v_new := public.location_path(NEW.id);
+
+  UPDATE public.instruments
+  SET location = v_new || substr(location, length(v_old) + 1)
+  WHERE org_id IS NOT DISTINCT FROM NEW.org_id
+    AND (location = v_old OR left(location, length(v_old) + 3) = v_old || ' / ');
+
+  UPDATE public.working_calendars
+  SET location = v_new || substr(location, length(v_old) + 1)
+  WHERE org_id IS NOT DISTINCT FROM NEW.org_id
+    AND (location = v_old OR left(location, length(v_old) + 3) = v_old || ' / ');
+
+  UPDATE public.blackout_periods
+  SET location = v_new || substr(location, length(v_old) + 1)
+  WHERE org_id IS NOT DISTINCT FROM NEW.org_id
+    AND (location = v_old OR left(location, length(v_old) + 3) = v_old || ' / ');
+
+  UPDATE public.location_assignment_defaults
+  SET location = v_new || substr(location, length(v_old) + 1)
+  WHERE org_id IS NOT DISTINCT FROM NEW.org_id
+    AND (location = v_old OR left(location, length(v_old) + 3) = v_old || ' / ');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS propagate_location_path ON public.locations;
+CREATE TRIGGER propagate_location_path
+  AFTER UPDATE OF name, parent_id ON public.locations
+  FOR EACH ROW EXECUTE FUNCTION public.propagate_location_path();
+
+-- ============================================================================
+-- STEP 4: Map Existing Free-Text Locations
+-- ============================================================================
+DO $$
+DECLARE
+  r record;
+  v_code text;
+  v_suffix integer;
+BEGIN
+  FOR r IN
+    SELECT
+      i.org_id,
+      public.normalize_location_key(i.location) AS key,
+      mode() WITHIN GROUP (ORDER BY btrim(i.location)) AS name
+    FROM public.instruments i
+    WHERE i.location_id IS NULL
+      AND public.normalize_location_key(i.location) <> ''
+    GROUP BY i.org_id, public.normalize_location_key(i.location)
+  LOOP
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.locations l
+      WHERE l.org_id IS NOT DISTINCT FROM r.org_id
+        AND l.parent_id IS NULL
+        AND public.normalize_location_key(l.name) = r.key
+    );
+
+    v_code := upper(left(r.key, 12));
+    v_suffix := 1;
+    WHILE EXISTS (
+      SELECT 1 FROM public.locations l
+      WHERE l.org_id IS NOT DISTINCT FROM r.org_id AND upper(l.code) = v_code
+    ) LOOP
+      v_suffix := v_suffix + 1;
+      v_code := upper(left(r.key, 10)) || '-' || v_suffix;
+    END LOOP;
+
+    INSERT INTO public.locations (org_id, level, code, name)
+    VALUES (r.org_id, 'room', v_code, replace(r.name, ' / ', '/'));
+  END LOOP;
+END $$;
+
+-- Settings written against the old spellings move to the new names. Where two
+-- spellings had their own calendar or default, only one can take the name; the
+-- other keeps its old text and no longer matches any instrument.
+UPDATE public.working_calendars c
+SET location = l.name
+FROM public.locations l
+WHERE l.org_id IS NOT DISTINCT FROM c.org_id
+  AND l.parent_id IS NULL
+  AND public.normalize_location_key(l.name) = public.normalize_location_key(c.location)
+  AND c.location <> l.name
+  AND NOT EXISTS (
+    SELECT 1 FROM public.working_calendars o
+    WHERE o.org_id IS NOT DISTINCT FROM c.org_id AND o.location = l.name
+  )
+  AND c.id = (
+    SELECT o.id FROM public.working_calendars o
+    WHERE o.org_id IS NOT DISTINCT FROM c.org_id
+      AND public.normalize_location_key(o.location) = public.normalize_location_key(c.location)
+    ORDER BY o.created_at NULLS LAST, o.id
+    LIMIT 1
+  );
+
+UPDATE public.location_assignment_defaults d
+SET location = l.name
+FROM public.locations l
+WHERE l.org_id IS NOT DISTINCT FROM d.org_id
+  AND l.parent_id IS NULL
+  AND public.normalize_location_key(l.name) = public.normalize_location_key(d.location)
+  AND d.location <> l.name
+  AND NOT EXISTS (
+    SELECT 1 FROM public.location_assignment_defaults o
+    WHERE o.org_id IS NOT DISTINCT FROM d.org_id AND o.location = l.name
+  )
+  AND d.id = (
+    SELECT o.id FROM public.location_assignment_defaults o
+    WHERE o.org_id IS NOT DISTINCT FROM d.org_id
+      AND public.normalize_location_key(o.location) = public.normalize_location_key(d.location)
+    ORDER BY o.created_at NULLS LAST, o.id
+    LIMIT 1
+  );
+
+UPDATE public.blackout_periods b
+SET location = l.name
+FROM public.locations l
+WHERE l.org_id IS NOT DISTINCT FROM b.org_id
+  AND l.parent_id IS NULL
+  AND public.normalize_location_key(l.name) = public.normalize_location_key(b.location)
+  AND b.location <> l.name;
+
+-- sync_instrument_location rewrites the text to the location's path
+UPDATE public.instruments i
+SET location_id = l.id
+FROM public.locations l
+WHERE i.location_id IS NULL
+  AND l.org_id IS NOT DISTINCT FROM i.org_id
+  AND l.parent_id IS NULL
+  AND public.normalize_location_key(l.name) = public.normalize_location_key(i.location);
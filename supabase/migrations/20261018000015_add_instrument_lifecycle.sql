@@ -0,0 +1,296 @@
+-- Migration: Instrument lifecycle states
+-- Version: 20261018000015
+--
+-- instruments.status mixes maintenance arrangements (AMC, PM) with whether the
+-- instrument can be used, and "isActive" is a bare flag. lifecycle_state
+-- follows an instrument from installation through IQ/OQ/PQ qualification,
+-- release for use, quarantine and repair to retirement and disposal.
+--
+-- Only the transitions in instrument_lifecycle_transition_allowed are possible,
+-- and only through transition_instrument_lifecycle, which logs who made each
+-- one, when, why and with what evidence. Retiring archives the instrument's
+-- maintenance configurations and waives its open schedules; nothing is deleted.
+-- Each waiver goes through transition_maintenance_schedule, so it shows in the
+-- schedule history with reason code out_of_service like a manual one.
+
+-- ============================================================================
+-- STEP 1: Lifecycle State
+-- ============================================================================
+ALTER TABLE public.instruments
+  ADD COLUMN IF NOT EXISTS lifecycle_state text NOT NULL DEFAULT 'in_use';
+
+ALTER TABLE public.instruments
+  DROP CONSTRAINT IF EXISTS instruments_lifecycle_state_check;
+ALTER TABLE public.instruments
+  ADD CONSTRAINT instruments_lifecycle_state_check
+  CHECK (lifecycle_state IN (
+    'installation', 'iq', 'oq', 'pq', 'in_use', 'quarantined', 'under_repair', 'retired', 'disposed'
+  ));
+
+CREATE INDEX IF NOT EXISTS idx_instruments_lifecycle_state ON public.instruments(lifecycle_state);
+
+-- Existing instruments: inactive ones are retired, out-of-service ones under repair
+UPDATE public.instruments
+SET lifecycle_state = CASE
+  WHEN "isActive" = false THEN 'retired'
+  WHEN status = 'Out of Service' THEN 'under_repair'
+  ELSE 'in_use'
+END
+WHERE lifecycle_state = 'in_use';
+
+-- Set when retirement archives a configuration, so recommissioning restores the same ones
+ALTER TABLE public.maintenance_configurations
+  ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+
+-- ============================================================================
+-- STEP 2: Allowed Transitions
+-- ============================================================================
+-- Keep in step with LIFECYCLE_TRANSITIONS in src/lib/instrument-lifecycle.ts
+CREATE OR REPLACE FUNCTION public.instrument_lifecycle_transition_allowed(p_from text, p_to text)
+RETURNS boolean AS $$
+  SELECT CASE p_from
+    WHEN 'installation' THEN p_to IN ('iq', 'retired')
+    WHEN 'iq' THEN p_to IN ('oq', 'installation', 'retired')
+    WHEN 'oq' THEN p_to IN ('pq', 'iq', 'retired')
+    WHEN 'pq' THEN p_to IN ('in_use', 'oq', 'retired')
+    WHEN 'in_use' THEN p_to IN ('quarantined', 'under_repair', 'retired')
+    WHEN 'quarantined' THEN p_to IN ('in_use', 'under_repair', 'oq', 'retired')
+    WHEN 'under_repair' THEN p_to IN ('oq', 'pq', 'in_use', 'quarantined', 'retired')
+    WHEN 'retired' THEN p_to IN ('installation', 'disposed')
+    ELSE false
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- lifecycle_state only changes inside transition_instrument_lifecycle, so every change is logged
+CREATE OR REPLACE FUNCTION public.guard_instrument_lifecycle_state()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.lifecycle_state IS DISTINCT FROM OLD.lifecycle_state
+     AND COALESCE(current_setting('app.lifecycle_transition', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Change the lifecycle state with transition_instrument_lifecycle';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_instrument_lifecycle_state ON public.instruments;
+CREATE TRIGGER guard_instrument_lifecycle_state
+  BEFORE UPDATE OF lifecycle_state ON public.instruments
+  FOR EACH ROW EXECUTE FUNCTION public.guard_instrument_lifecycle_state();
+
+-- ============================================================================
+-- STEP 3: Transition Log
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.instrument_lifecycle_transitions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  instrument_id uuid NOT NULL REFERENCES public.instruments(id) ON DELETE CASCADE,
+  from_state text, -- NULL for the state an instrument was registered in
+  to_state text NOT NULL,
+  reason text NOT NULL CHECK (length(btrim(reason)) > 0),
+  evidence_url text,
+  evidence_name text,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_instrument_lifecycle_transitions_instrument
+  ON public.instrument_lifecycle_transitions(instrument_id, changed_at);
+
+ALTER TABLE public.instrument_lifecycle_transitions ENABLE ROW LEVEL SECURITY;
+
+-- Append-only: no update or delete policies
+DROP POLICY IF EXISTS "Org members can read instrument lifecycle transitions" ON public.instrument_lifecycle_transitions;
+CREATE POLICY "Org members can read instrument lifecycle transitions" ON public.instrument_lifecycle_transitions
+  FOR SELECT TO authenticated
+  USING (org_id = public.get_user_org_id() OR org_id IS NULL);
+
+DROP POLICY IF EXISTS "Org members can add instrument lifecycle transitions" ON public.instrument_lifecycle_transitions;
+CREATE POLICY "Org members can add instrument lifecycle transitions" ON public.instrument_lifecycle_transitions
+  FOR INSERT TO authenticated
+  WITH CHECK (org_id = public.get_user_org_id());
+
+-- The state an instrument starts in is the first entry of its log
+CREATE OR REPLACE FUNCTION public.log_instrument_registration()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO public.instrument_lifecycle_transitions (org_id, instrument_id, from_state, to_state, reason, changed_by)
+  VALUES (NEW.org_id, NEW.id, NULL, NEW.lifecycle_state, 'Registered', auth.uid());
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS log_instrument_registration ON public.instruments;
+CREATE TRIGGER log_instrument_registration
+  AFTER INSERT ON public.instruments
+  FOR EACH ROW EXECUTE FUNCTION public.log_instrument_registration();
+
+-- Existing instruments start their log with the state mapped above
+INSERT INTO public.instrument_lifecycle_transitions (org_id, instrument_id, from_state, to_state, reason, changed_at)
+SELECT i.org_id, i.id, NULL, i.lifecycle_state, 'Lifecycle tracking introduced', now()
+FROM public.instruments i
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.instrument_lifecycle_transitions t WHERE t.instrument_id = i.id
+);
+
+-- ============================================================================
+-- STEP 4: Transition Function
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.transition_instrument_lifecycle(
+  p_instrument_id uuid,
+  p_to_state text,
+  p_reason text,
+  p_evidence_url text DEFAULT NULL,
+  p_evidence_name text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_instrument record;
+  v_status text;
+  v_archived integer := 0;
+  v_restored integer := 0;
+  v_waived integer := 0;
+  v_schedule_id uuid;
+BEGIN
+  IF p_reason IS NULL OR length(btrim(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  SELECT i.id, i.org_id, i.lifecycle_state, i.status
+  INTO v_instrument
+  FROM public.instruments i
+  WHERE i.id = p_instrument_id
+  FOR UPDATE OF i;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Instrument % not found', p_instrument_id;
+  END IF;
+
+  IF NOT public.instrument_lifecycle_transition_allowed(v_instrument.lifecycle_state, p_to_state) THEN
+    RAISE EXCEPTION 'An instrument cannot go from % to %', v_instrument.lifecycle_state, p_to_state;
+  END IF;
+
+  -- status and "isActive" follow the lifecycle for the screens that still read them. Going
+  -- Out of Service suspends the configurations (sync_instrument_service_status) as before.
+  v_status := CASE
+    WHEN p_to_state IN ('quarantined', 'under_repair', 'retired', 'disposed') THEN 'Out of Service'
+    WHEN p_to_state = 'in_use' AND v_instrument.status = 'Out of Service' THEN 'Operational'
+    ELSE v_instrument.status
+  END;
+
+  PERFORM set_config('app.lifecycle_transition', 'on', true);
+
+  UPDATE public.instruments
+  SET
+    lifecycle_state = p_to_state,
+    "isActive" = p_to_state NOT IN ('retired', 'disposed'),
+    status = v_status
+  WHERE id = p_instrument_id;
+
+  PERFORM set_config('app.lifecycle_transition', 'off', true);
+
+  INSERT INTO public.instrument_lifecycle_transitions (
+    org_id, instrument_id, from_state, to_state, reason, evidence_url, evidence_name, changed_by
+  ) VALUES (
+    v_instrument.org_id, v_instrument.id, v_instrument.lifecycle_state, p_to_state, btrim(p_reason),
+    NULLIF(btrim(COALESCE(p_evidence_url, '')), ''), NULLIF(btrim(COALESCE(p_evidence_name, '')), ''), auth.uid()
+  );
+
+  IF p_to_state = 'retired' THEN
+    UPDATE public.maintenance_configurations
+    SET is_active = false, archived_at = now()
+    WHERE instrument_id = p_instrument_id
+      AND is_active IS DISTINCT FROM false;
+    GET DIAGNOSTICS v_archived = ROW_COUNT;
+
+    -- Open work nobody has started is waived; started work stays for the record.
+    -- The waivers go through the transition function, which writes their history.
+    FOR v_schedule_id IN
+      SELECT s.id
+      FROM public."maintenanceSchedules" s
+      WHERE s."instrumentId" = p_instrument_id
+        AND s.status NOT IN ('Completed', 'Skipped', 'Not Required', 'In Progress')
+        AND NOT EXISTS (SELECT 1 FROM public."maintenanceResults" r WHERE r."maintenanceScheduleId" = s.id)
+    LOOP
+      PERFORM public.transition_maintenance_schedule(v_schedule_id, 'Not Required', 'out_of_service', 'Instrument retired', NULL);
+      v_waived := v_waived + 1;
+    END LOOP;
+  ELSIF v_instrument.lifecycle_state = 'retired' AND p_to_state = 'installation' THEN
+    UPDATE public.maintenance_configurations
+    SET is_active = true, archived_at = NULL
+    WHERE instrument_id = p_instrument_id
+      AND archived_at IS NOT NULL;
+    GET DIAGNOSTICS v_restored = ROW_COUNT;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'id', v_instrument.id,
+    'fromState', v_instrument.lifecycle_state,
+    'toState', p_to_state,
+    'fromStatus', v_instrument.status,
+    'toStatus', v_status,
+    'archivedConfigurations', v_archived,
+    'restoredConfigurations', v_restored,
+    'waivedSchedules', v_waived
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION public.transition_instrument_lifecycle(uuid, text, text, text, text) TO authenticated;
+
+-- ============================================================================
+-- STEP 5: Quarantine After a Failed Calibration
+-- ============================================================================
+-- An instrument in use whose calibration records a failed reading is
+-- quarantined straight away, with the result's document as evidence
+CREATE OR REPLACE FUNCTION public.quarantine_on_failed_calibration()
+RETURNS trigger AS $$
+DECLARE
+  v_type text;
+  v_eqp_id text;
+BEGIN
+  IF jsonb_typeof(NEW."testData") IS DISTINCT FROM 'array' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(NEW."testData") section,
+      jsonb_array_elements(
+        CASE WHEN jsonb_typeof(section -> 'rows') = 'array' THEN section -> 'rows' ELSE '[]'::jsonb END
+      ) row_data
+    WHERE row_data ->> 'passed' = 'false'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT s.type INTO v_type
+  FROM public."maintenanceSchedules" s
+  WHERE s.id = NEW."maintenanceScheduleId";
+
+  IF v_type IS DISTINCT FROM 'Calibration' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT i."eqpId" INTO v_eqp_id
+  FROM public.instruments i
+  WHERE i.id = NEW."instrumentId" AND i.lifecycle_state = 'in_use';
+
+  IF FOUND THEN
+    PERFORM public.transition_instrument_lifecycle(
+      NEW."instrumentId",
+      'quarantined',
+      'Failed calibration recorded on ' || to_char(NEW."completedDate", 'YYYY-MM-DD'),
+      NEW."documentUrl",
+      CASE WHEN NEW."documentUrl" IS NOT NULL THEN 'Calibration result for ' || v_eqp_id END
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS quarantine_on_failed_calibration ON public."maintenanceResults";
+CREATE TRIGGER quarantine_on_failed_calibration
+  AFTER INSERT OR UPDATE OF "testData" ON public."maintenanceResults"
+  FOR EACH ROW EXECUTE FUNCTION public.quarantine_on_failed_calibration();
@@ -0,0 +1,360 @@
+-- Migration: Soft delete and recycle bin for instruments
+-- Version: 20261018000016
+--
+-- Deleting an instrument used to run hard deletes on its results, schedules
+-- and configurations from the browser. Now soft_delete_instrument stamps
+-- deleted_at on the instrument and on everything recorded against it, and
+-- row-level security hides stamped rows from every screen. Admins see deleted
+-- instruments in the recycle bin, where they can restore them (clearing the
+-- stamps made by that deletion only) or purge them for good.
+--
+-- Members no longer delete configurations, schedules, results or documents
+-- directly. Removing a configuration from an instrument stamps it and the
+-- occurrences nobody has started, and leaves the completed ones on record.
+
+-- ============================================================================
+-- STEP 1: Deletion Stamps
+-- ============================================================================
+ALTER TABLE public.instruments
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.maintenance_configurations ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE public."maintenanceSchedules" ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE public."maintenanceResults" ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE public.maintenance_documents ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_instruments_deleted_at
+  ON public.instruments(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- A discarded meter occurrence must not block the threshold being raised again
+DROP INDEX IF EXISTS public.idx_schedules_meter_threshold;
+CREATE UNIQUE INDEX idx_schedules_meter_threshold
+  ON public."maintenanceSchedules"("instrumentId", type, meter_id, meter_due_value)
+  WHERE meter_id IS NOT NULL AND deleted_at IS NULL;
+
+-- ============================================================================
+-- STEP 2: Hide Deleted Rows
+-- ============================================================================
+-- The single FOR ALL policies are split so reads and updates skip deleted rows
+-- while the org check stays the same. None of these tables has a DELETE policy:
+-- instruments are removed for good through purge_instrument, configurations
+-- and pending schedules are stamped by the functions in STEP 4, and results
+-- and documents only leave with their instrument.
+
+-- Instruments
+DROP POLICY IF EXISTS "Org members can access instruments" ON public.instruments;
+DROP POLICY IF EXISTS "Org members can read instruments" ON public.instruments;
+CREATE POLICY "Org members can read instruments" ON public.instruments
+  FOR SELECT TO authenticated
+  USING ((org_id = public.get_user_org_id() OR org_id IS NULL) AND deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Org members can add instruments" ON public.instruments;
+CREATE POLICY "Org members can add instruments" ON public.instruments
+  FOR INSERT TO authenticated
+  WITH CHECK (org_id = public.get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can update instruments" ON public.instruments;
+CREATE POLICY "Org members can update instruments" ON public.instruments
+  FOR UPDATE TO authenticated
+  USING ((org_id = public.get_user_org_id() OR org_id IS NULL) AND deleted_at IS NULL)
+  WITH CHECK (org_id = public.get_user_org_id());
+
+-- Maintenance Configurations
+DROP POLICY IF EXISTS "Org members can access configs" ON public.maintenance_configurations;
+DROP POLICY IF EXISTS "Org members can read configs" ON public.maintenance_configurations;
+CREATE POLICY "Org members can read configs" ON public.maintenance_configurations
+  FOR SELECT TO authenticated
+  USING ((org_id = public.get_user_org_id() OR org_id IS NULL) AND deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Org members can add configs" ON public.maintenance_configurations;
+CREATE POLICY "Org members can add configs" ON public.maintenance_configurations
+  FOR INSERT TO authenticated
+  WITH CHECK (org_id = public.get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can update configs" ON public.maintenance_configurations;
+CREATE POLICY "Org members can update configs" ON public.maintenance_configurations
+  FOR UPDATE TO authenticated
+  USING ((org_id = public.get_user_org_id() OR org_id IS NULL) AND deleted_at IS NULL)
+  WITH CHECK (org_id = public.get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can delete configs" ON public.maintenance_configurations;
+
+-- Maintenance Schedules
+DROP POLICY IF EXISTS "Org members can access schedules" ON public."maintenanceSchedules";
+DROP POLICY IF EXISTS "Org members can read schedules" ON public."maintenanceSchedules";
+CREATE POLICY "Org members can read schedules" ON public."maintenanceSchedules"
+  FOR SELECT TO authenticated
+  USING ((org_id = public.get_user_org_id() OR org_id IS NULL) AND deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Org members can add schedules" ON public."maintenanceSchedules";
+CREATE POLICY "Org members can add schedules" ON public."maintenanceSchedules"
+  FOR INSERT TO authenticated
+  WITH CHECK (org_id = public.get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can update schedules" ON public."maintenanceSchedules";
+CREATE POLICY "Org members can update schedules" ON public."maintenanceSchedules"
+  FOR UPDATE TO authenticated
+  USING ((org_id = public.get_user_org_id() OR org_id IS NULL) AND deleted_at IS NULL)
+  WITH CHECK (org_id = public.get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can delete schedules" ON public."maintenanceSchedules";
+
+-- Maintenance Results
+DROP POLICY IF EXISTS "Org members can access results" ON public."maintenanceResults";
+DROP POLICY IF EXISTS "Org members can read results" ON public."maintenanceResults";
+CREATE POLICY "Org members can read results" ON public."maintenanceResults"
+  FOR SELECT TO authenticated
+  USING ((org_id = public.get_user_org_id() OR org_id IS NULL) AND deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Org members can add results" ON public."maintenanceResults";
+CREATE POLICY "Org members can add results" ON public."maintenanceResults"
+  FOR INSERT TO authenticated
+  WITH CHECK (org_id = public.get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can update results" ON public."maintenanceResults";
+CREATE POLICY "Org members can update results" ON public."maintenanceResults"
+  FOR UPDATE TO authenticated
+  USING ((org_id = public.get_user_org_id() OR org_id IS NULL) AND deleted_at IS NULL)
+  WITH CHECK (org_id = public.get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can delete results" ON public."maintenanceResults";
+
+-- Maintenance Documents
+DROP POLICY IF EXISTS "Org members can access documents" ON public.maintenance_documents;
+DROP POLICY IF EXISTS "Org members can read documents" ON public.maintenance_documents;
+CREATE POLICY "Org members can read documents" ON public.maintenance_documents
+  FOR SELECT TO authenticated
+  USING ((org_id = public.get_user_org_id() OR org_id IS NULL) AND deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Org members can add documents" ON public.maintenance_documents;
+CREATE POLICY "Org members can add documents" ON public.maintenance_documents
+  FOR INSERT TO authenticated
+  WITH CHECK (org_id = public.get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can update documents" ON public.maintenance_documents;
+CREATE POLICY "Org members can update documents" ON public.maintenance_documents
+  FOR UPDATE TO authenticated
+  USING ((org_id = public.get_user_org_id() OR org_id IS NULL) AND deleted_at IS NULL)
+  WITH CHECK (org_id = public.get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can delete documents" ON public.maintenance_documents;
+
+-- ============================================================================
+-- STEP 3: Delete, Restore and Purge
+-- ============================================================================
+-- These run as the table owner, since a row stamped deleted would fail the
+-- read policy mid-update, so each one checks the caller's org and rights itself.
+
+CREATE OR REPLACE FUNCTION public.soft_delete_instrument(p_instrument_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_org_id uuid := public.get_user_org_id();
+  v_now timestamptz := now();
+  v_configurations integer;
+  v_schedules integer;
+  v_results integer;
+  v_documents integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = auth.uid() AND (p.role = 'admin' OR p.permissions ->> 'instruments' = 'edit')
+  ) THEN
+    RAISE EXCEPTION 'You do not have permission to delete instruments';
+  END IF;
+
+  UPDATE public.instruments
+  SET deleted_at = v_now, deleted_by = auth.uid()
+  WHERE id = p_instrument_id
+    AND org_id = v_org_id
+    AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Instrument % not found', p_instrument_id;
+  END IF;
+
+  UPDATE public.maintenance_configurations SET deleted_at = v_now
+  WHERE instrument_id = p_instrument_id AND deleted_at IS NULL;
+  GET DIAGNOSTICS v_configurations = ROW_COUNT;
+
+  UPDATE public."maintenanceSchedules" SET deleted_at = v_now
+  WHERE "instrumentId" = p_instrument_id AND deleted_at IS NULL;
+  GET DIAGNOSTICS v_schedules = ROW_COUNT;
+
+  UPDATE public."maintenanceResults" SET deleted_at = v_now
+  WHERE "instrumentId" = p_instrument_id AND deleted_at IS NULL;
+  GET DIAGNOSTICS v_results = ROW_COUNT;
+
+  UPDATE public.maintenance_documents SET deleted_at = v_now
+  WHERE instrument_id = p_instrument_id AND deleted_at IS NULL;
+  GET DIAGNOSTICS v_documents = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'id', p_instrument_id,
+    'deletedAt', v_now,
+    'configurations', v_configurations,
+    'schedules', v_schedules,
+    'results', v_results,
+    'documents', v_documents
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.restore_instrument(p_instrument_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_deleted_at timestamptz;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can restore instruments';
+  END IF;
+
+  SELECT i.deleted_at INTO v_deleted_at
+  FROM public.instruments i
+  WHERE i.id = p_instrument_id
+    AND i.org_id = public.get_user_org_id()
+    AND i.deleted_at IS NOT NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Deleted instrument % not found', p_instrument_id;
+  END IF;
+
+  -- Only rows stamped by this deletion come back
+  UPDATE public.maintenance_configurations SET deleted_at = NULL
+  WHERE instrument_id = p_instrument_id AND deleted_at = v_deleted_at;
+  UPDATE public."maintenanceSchedules" SET deleted_at = NULL
+  WHERE "instrumentId" = p_instrument_id AND deleted_at = v_deleted_at;
+  UPDATE public."maintenanceResults" SET deleted_at = NULL
+  WHERE "instrumentId" = p_instrument_id AND deleted_at = v_deleted_at;
+  UPDATE public.maintenance_documents SET deleted_at = NULL
+  WHERE instrument_id = p_instrument_id AND deleted_at = v_deleted_at;
+
+  UPDATE public.instruments
+  SET deleted_at = NULL, deleted_by = NULL
+  WHERE id = p_instrument_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Foreign keys cascade the purge to configurations, schedules, results, documents and history
+CREATE OR REPLACE FUNCTION public.purge_instrument(p_instrument_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can purge instruments';
+  END IF;
+
+  DELETE FROM public.instruments
+  WHERE id = p_instrument_id
+    AND org_id = public.get_user_org_id()
+    AND deleted_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only deleted instruments can be purged';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The recycle bin: deleted instruments of the caller's org with what each deletion hid
+CREATE OR REPLACE FUNCTION public.list_deleted_instruments()
+RETURNS TABLE (
+  id uuid,
+  "eqpId" text,
+  "instrumentType" text,
+  location text,
+  deleted_at timestamptz,
+  deleted_by uuid,
+  schedules bigint,
+  results bigint,
+  documents bigint
+) AS $$
+  SELECT
+    i.id, i."eqpId", i."instrumentType", i.location, i.deleted_at, i.deleted_by,
+    (SELECT count(*) FROM public."maintenanceSchedules" s WHERE s."instrumentId" = i.id AND s.deleted_at = i.deleted_at),
+    (SELECT count(*) FROM public."maintenanceResults" r WHERE r."instrumentId" = i.id AND r.deleted_at = i.deleted_at),
+    (SELECT count(*) FROM public.maintenance_documents d WHERE d.instrument_id = i.id AND d.deleted_at = i.deleted_at)
+  FROM public.instruments i
+  WHERE i.org_id = public.get_user_org_id()
+    AND i.deleted_at IS NOT NULL
+    AND EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role = 'admin')
+  ORDER BY i.deleted_at DESC
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+-- ============================================================================
+-- STEP 4: Removing Configurations and Pending Schedules
+-- ============================================================================
+-- Regeneration and Out of Service suspension discard pending occurrences
+-- through discard_maintenance_schedule, which now stamps them instead of
+-- deleting them. Only occurrences nobody has started can be discarded.
+CREATE OR REPLACE FUNCTION public.discard_maintenance_schedule(p_schedule_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT public.can_transition_schedule(p_schedule_id) THEN
+    RAISE EXCEPTION 'Maintenance schedule % not found', p_schedule_id;
+  END IF;
+
+  UPDATE public."maintenanceSchedules" s SET deleted_at = now()
+  WHERE s.id = p_schedule_id
+    AND s.deleted_at IS NULL
+    AND s.status IN ('Scheduled', 'Rescheduled', 'Overdue')
+    AND NOT EXISTS (
+      SELECT 1 FROM public."maintenanceResults" r WHERE r."maintenanceScheduleId" = s.id
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.can_remove_configuration(p_configuration_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.maintenance_configurations c
+    WHERE c.id = p_configuration_id
+      AND (c.org_id = public.get_user_org_id() OR c.org_id IS NULL)
+      AND c.deleted_at IS NULL
+  )
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Takes a configuration off an instrument together with the occurrences it
+-- has not had done yet. Completed, skipped and started work stays on record.
+CREATE OR REPLACE FUNCTION public.remove_maintenance_configuration(p_configuration_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_now timestamptz := now();
+  v_config record;
+  v_schedules integer;
+BEGIN
+  IF NOT public.can_remove_configuration(p_configuration_id) THEN
+    RAISE EXCEPTION 'Maintenance configuration % not found', p_configuration_id;
+  END IF;
+
+  UPDATE public.maintenance_configurations SET deleted_at = v_now
+  WHERE id = p_configuration_id
+  RETURNING instrument_id, maintenance_type INTO v_config;
+
+  UPDATE public."maintenanceSchedules" s SET deleted_at = v_now
+  WHERE s."instrumentId" = v_config.instrument_id
+    AND s.type = v_config.maintenance_type
+    AND s.deleted_at IS NULL
+    AND s.status IN ('Scheduled', 'Rescheduled', 'Overdue')
+    AND NOT EXISTS (
+      SELECT 1 FROM public."maintenanceResults" r WHERE r."maintenanceScheduleId" = s.id
+    );
+  GET DIAGNOSTICS v_schedules = ROW_COUNT;
+
+  -- Nothing can wait on a configuration that is gone
+  DELETE FROM public.maintenance_prerequisites
+  WHERE configuration_id = p_configuration_id
+     OR prerequisite_configuration_id = p_configuration_id;
+
+  RETURN jsonb_build_object(
+    'id', p_configuration_id,
+    'deletedAt', v_now,
+    'schedules', v_schedules
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.soft_delete_instrument(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_instrument(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_instrument(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.list_deleted_instruments() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.remove_maintenance_configuration(uuid) TO authenticated;
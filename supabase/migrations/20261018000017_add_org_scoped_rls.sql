@@ -0,0 +1,734 @@
+-- Migration: Organization-scoped row-level security for every data table
+-- Version: 20261018000017
+--
+-- Every data table carries org_id, but the policies still let rows without one
+-- through to all organizations, inserts trusted whatever org_id the client sent
+-- (or none, e.g. schedules generated from a completed one), and a user could move
+-- their own profile to another organization. From here on:
+--   * reads and writes are limited to rows of the caller's organization
+--     (shared catalog rows without an org stay readable, never writable)
+--   * org_id on insert comes from the caller's profile, not the request
+--   * rows can only point at instruments, schedules, locations, teams, users
+--     etc. of the caller's organization
+--   * schedule history is only written by transition_maintenance_schedule,
+--     which checks the caller's organization itself
+--   * only the server (service role) changes which organization a profile is in,
+--     and only admins change roles and permissions
+-- supabase/tests/database/org_isolation.test.sql checks this against a local
+-- Supabase (npm run test:db).
+
+-- ============================================================================
+-- STEP 1: Backfill org_id on Rows That Lack It
+-- ============================================================================
+-- Children take the organization of the record they belong to. Anything still
+-- without an org afterwards is only reachable with the service role; run
+-- 20260126000001_migrate_existing_data.sql to claim it.
+
+UPDATE public.maintenance_configurations c SET org_id = p.org_id
+FROM public.instruments p
+WHERE c.instrument_id = p.id AND c.org_id IS NULL AND p.org_id IS NOT NULL;
+
+UPDATE public."maintenanceSchedules" c SET org_id = p.org_id
+FROM public.instruments p
+WHERE c."instrumentId" = p.id AND c.org_id IS NULL AND p.org_id IS NOT NULL;
+
+UPDATE public."maintenanceResults" c SET org_id = p.org_id
+FROM public.instruments p
+WHERE c."instrumentId" = p.id AND c.org_id IS NULL AND p.org_id IS NOT NULL;
+
+UPDATE public.maintenance_documents c SET org_id = p.org_id
+FROM public.instruments p
+WHERE c.instrument_id = p.id AND c.org_id IS NULL AND p.org_id IS NOT NULL;
+
+UPDATE public.instrument_meters c SET org_id = p.org_id
+FROM public.instruments p
+WHERE c.instrument_id = p.id AND c.org_id IS NULL AND p.org_id IS NOT NULL;
+
+UPDATE public.blackout_periods c SET org_id = p.org_id
+FROM public.instruments p
+WHERE c.instrument_id = p.id AND c.org_id IS NULL AND p.org_id IS NOT NULL;
+
+UPDATE public.instrument_hierarchy_history c SET org_id = p.org_id
+FROM public.instruments p
+WHERE c.instrument_id = p.id AND c.org_id IS NULL AND p.org_id IS NOT NULL;
+
+UPDATE public.instrument_lifecycle_transitions c SET org_id = p.org_id
+FROM public.instruments p
+WHERE c.instrument_id = p.id AND c.org_id IS NULL AND p.org_id IS NOT NULL;
+
+UPDATE public.maintenance_schedule_history c SET org_id = p.org_id
+FROM public."maintenanceSchedules" p
+WHERE c.schedule_id = p.id AND c.org_id IS NULL AND p.org_id IS NOT NULL;
+
+UPDATE public.maintenance_task_steps c SET org_id = p.org_id
+FROM public."maintenanceSchedules" p
+WHERE c.schedule_id = p.id AND c.org_id IS NULL AND p.org_id IS NOT NULL;
+
+UPDATE public.qualification_overrides c SET org_id = p.org_id
+FROM public."maintenanceSchedules" p
+WHERE c.schedule_id = p.id AND c.org_id IS NULL AND p.org_id IS NOT NULL;
+
+UPDATE public.meter_readings c SET org_id = p.org_id
+FROM public.instrument_meters p
+WHERE c.meter_id = p.id AND c.org_id IS NULL AND p.org_id IS NOT NULL;
+
+UPDATE public.calendar_holidays c SET org_id = p.org_id
+FROM public.working_calendars p
+WHERE c.calendar_id = p.id AND c.org_id IS NULL AND p.org_id IS NOT NULL;
+
+UPDATE public.team_members c SET org_id = p.org_id
+FROM public.teams p
+WHERE c.team_id = p.id AND c.org_id IS NULL AND p.org_id IS NOT NULL;
+
+UPDATE public.maintenance_prerequisites c SET org_id = p.org_id
+FROM public.maintenance_configurations p
+WHERE c.configuration_id = p.id AND c.org_id IS NULL AND p.org_id IS NOT NULL;
+
+UPDATE public.user_qualifications c SET org_id = p.org_id
+FROM public.profiles p
+WHERE c.user_id = p.id AND c.org_id IS NULL AND p.org_id IS NOT NULL;
+
+-- ============================================================================
+-- STEP 2: Stamp org_id From the Session
+-- ============================================================================
+-- Signed-in callers always get their own organization, whatever they sent. The
+-- service role has no session, so its rows keep the org_id given or, failing
+-- that, take the parent's: TG_ARGV is the foreign key column and the parent table.
+-- Named to sort ahead of the other BEFORE INSERT triggers (they fire in name
+-- order), since set_schedule_default_assignment looks defaults up by org_id.
+CREATE OR REPLACE FUNCTION public.assign_org_id()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_parent_id text;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    NEW.org_id := public.get_user_org_id();
+  ELSIF NEW.org_id IS NULL AND TG_NARGS = 2 THEN
+    v_parent_id := to_jsonb(NEW) ->> TG_ARGV[0];
+    IF v_parent_id IS NOT NULL THEN
+      EXECUTE format('SELECT org_id FROM public.%I WHERE id = $1', TG_ARGV[1])
+      INTO NEW.org_id
+      USING v_parent_id::uuid;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS assign_org_id ON public.instruments;
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public.instruments
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id();
+
+DROP TRIGGER IF EXISTS assign_org_id ON public.maintenance_configurations;
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public.maintenance_configurations
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id('instrument_id', 'instruments');
+
+DROP TRIGGER IF EXISTS assign_org_id ON public."maintenanceSchedules";
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public."maintenanceSchedules"
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id('instrumentId', 'instruments');
+
+DROP TRIGGER IF EXISTS assign_org_id ON public."maintenanceResults";
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public."maintenanceResults"
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id('instrumentId', 'instruments');
+
+DROP TRIGGER IF EXISTS assign_org_id ON public.maintenance_documents;
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public.maintenance_documents
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id('instrument_id', 'instruments');
+
+DROP TRIGGER IF EXISTS assign_org_id ON public."testTemplates";
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public."testTemplates"
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id();
+
+DROP TRIGGER IF EXISTS assign_org_id ON public."instrumentTypes";
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public."instrumentTypes"
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id();
+
+DROP TRIGGER IF EXISTS assign_org_id ON public."maintenanceTypes";
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public."maintenanceTypes"
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id();
+
+DROP TRIGGER IF EXISTS assign_org_id ON public.working_calendars;
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public.working_calendars
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id();
+
+DROP TRIGGER IF EXISTS assign_org_id ON public.calendar_holidays;
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public.calendar_holidays
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id('calendar_id', 'working_calendars');
+
+DROP TRIGGER IF EXISTS assign_org_id ON public.maintenance_type_policies;
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public.maintenance_type_policies
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id();
+
+DROP TRIGGER IF EXISTS assign_org_id ON public.maintenance_schedule_history;
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public.maintenance_schedule_history
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id('schedule_id', 'maintenanceSchedules');
+
+DROP TRIGGER IF EXISTS assign_org_id ON public.instrument_meters;
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public.instrument_meters
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id('instrument_id', 'instruments');
+
+DROP TRIGGER IF EXISTS assign_org_id ON public.meter_readings;
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public.meter_readings
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id('meter_id', 'instrument_meters');
+
+DROP TRIGGER IF EXISTS assign_org_id ON public.teams;
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public.teams
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id();
+
+DROP TRIGGER IF EXISTS assign_org_id ON public.team_members;
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public.team_members
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id('team_id', 'teams');
+
+DROP TRIGGER IF EXISTS assign_org_id ON public.user_qualifications;
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public.user_qualifications
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id('user_id', 'profiles');
+
+DROP TRIGGER IF EXISTS assign_org_id ON public.location_assignment_defaults;
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public.location_assignment_defaults
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id();
+
+DROP TRIGGER IF EXISTS assign_org_id ON public.qualification_overrides;
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public.qualification_overrides
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id('schedule_id', 'maintenanceSchedules');
+
+DROP TRIGGER IF EXISTS assign_org_id ON public.maintenance_prerequisites;
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public.maintenance_prerequisites
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id('configuration_id', 'maintenance_configurations');
+
+DROP TRIGGER IF EXISTS assign_org_id ON public.blackout_periods;
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public.blackout_periods
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id('instrument_id', 'instruments');
+
+DROP TRIGGER IF EXISTS assign_org_id ON public.maintenance_task_steps;
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public.maintenance_task_steps
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id('schedule_id', 'maintenanceSchedules');
+
+DROP TRIGGER IF EXISTS assign_org_id ON public.instrument_imports;
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public.instrument_imports
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id();
+
+DROP TRIGGER IF EXISTS assign_org_id ON public.instrument_hierarchy_history;
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public.instrument_hierarchy_history
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id('instrument_id', 'instruments');
+
+DROP TRIGGER IF EXISTS assign_org_id ON public.locations;
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public.locations
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id();
+
+DROP TRIGGER IF EXISTS assign_org_id ON public.instrument_lifecycle_transitions;
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public.instrument_lifecycle_transitions
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id('instrument_id', 'instruments');
+
+-- ============================================================================
+-- STEP 3: Data Tables - Own Organization Only
+-- ============================================================================
+-- The same policies as before without "OR org_id IS NULL". The permissive
+-- grants from the first schema (and docker-init) are dropped again in case they
+-- were recreated outside the migrations.
+
+-- assign_org_id stamps the caller's org on every insert, so org_id alone says
+-- nothing about the rows a new or changed row points at. Each reference to
+-- another org-owned row must resolve inside the caller's organization too, or
+-- a member could hang their own rows off another organization's instrument,
+-- schedule or location. The lookup reads as the table owner so it does not
+-- depend on the parent's own (feature or soft-delete) policies.
+CREATE OR REPLACE FUNCTION public.is_org_row(p_table text, p_id uuid)
+RETURNS boolean AS $$
+DECLARE
+  v_found boolean;
+BEGIN
+  IF p_id IS NULL THEN
+    RETURN true;
+  END IF;
+
+  EXECUTE format('SELECT EXISTS (SELECT 1 FROM public.%I WHERE id = $1 AND org_id = public.get_user_org_id())', p_table)
+    INTO v_found
+    USING p_id;
+  RETURN v_found;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+-- instruments
+DROP POLICY IF EXISTS "Allow all for authenticated" ON public.instruments;
+DROP POLICY IF EXISTS "Org members can read instruments" ON public.instruments;
+CREATE POLICY "Org members can read instruments" ON public.instruments
+  FOR SELECT TO authenticated
+  USING (org_id = public.get_user_org_id() AND deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Org members can add instruments" ON public.instruments;
+CREATE POLICY "Org members can add instruments" ON public.instruments
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    org_id = public.get_user_org_id()
+    AND public.is_org_row('locations', location_id)
+    AND public.is_org_row('instruments', parent_id)
+    AND public.is_org_row('instrument_imports', import_id)
+    AND public.is_org_row('teams', default_team_id)
+    AND public.is_org_row('profiles', default_assignee_id)
+  );
+
+DROP POLICY IF EXISTS "Org members can update instruments" ON public.instruments;
+CREATE POLICY "Org members can update instruments" ON public.instruments
+  FOR UPDATE TO authenticated
+  USING (org_id = public.get_user_org_id() AND deleted_at IS NULL)
+  WITH CHECK (
+    org_id = public.get_user_org_id()
+    AND public.is_org_row('locations', location_id)
+    AND public.is_org_row('instruments', parent_id)
+    AND public.is_org_row('instrument_imports', import_id)
+    AND public.is_org_row('teams', default_team_id)
+    AND public.is_org_row('profiles', default_assignee_id)
+  );
+
+-- maintenance_configurations
+DROP POLICY IF EXISTS "Allow all for authenticated" ON public.maintenance_configurations;
+DROP POLICY IF EXISTS "Org members can read configs" ON public.maintenance_configurations;
+CREATE POLICY "Org members can read configs" ON public.maintenance_configurations
+  FOR SELECT TO authenticated
+  USING (org_id = public.get_user_org_id() AND deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Org members can add configs" ON public.maintenance_configurations;
+CREATE POLICY "Org members can add configs" ON public.maintenance_configurations
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    org_id = public.get_user_org_id()
+    AND public.is_org_row('instruments', instrument_id)
+    AND public.is_org_row('instrument_meters', meter_id)
+  );
+
+DROP POLICY IF EXISTS "Org members can update configs" ON public.maintenance_configurations;
+CREATE POLICY "Org members can update configs" ON public.maintenance_configurations
+  FOR UPDATE TO authenticated
+  USING (org_id = public.get_user_org_id() AND deleted_at IS NULL)
+  WITH CHECK (
+    org_id = public.get_user_org_id()
+    AND public.is_org_row('instruments', instrument_id)
+    AND public.is_org_row('instrument_meters', meter_id)
+  );
+
+DROP POLICY IF EXISTS "Org members can delete configs" ON public.maintenance_configurations;
+
+-- maintenanceSchedules
+DROP POLICY IF EXISTS "Allow all for authenticated" ON public."maintenanceSchedules";
+DROP POLICY IF EXISTS "Org members can read schedules" ON public."maintenanceSchedules";
+CREATE POLICY "Org members can read schedules" ON public."maintenanceSchedules"
+  FOR SELECT TO authenticated
+  USING (org_id = public.get_user_org_id() AND deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Org members can add schedules" ON public."maintenanceSchedules";
+CREATE POLICY "Org members can add schedules" ON public."maintenanceSchedules"
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    org_id = public.get_user_org_id()
+    AND public.is_org_row('instruments', "instrumentId")
+    AND public.is_org_row('instrument_meters', meter_id)
+    AND public.is_org_row('teams', assigned_team_id)
+    AND public.is_org_row('profiles', assigned_to)
+  );
+
+DROP POLICY IF EXISTS "Org members can update schedules" ON public."maintenanceSchedules";
+CREATE POLICY "Org members can update schedules" ON public."maintenanceSchedules"
+  FOR UPDATE TO authenticated
+  USING (org_id = public.get_user_org_id() AND deleted_at IS NULL)
+  WITH CHECK (
+    org_id = public.get_user_org_id()
+    AND public.is_org_row('instruments', "instrumentId")
+    AND public.is_org_row('instrument_meters', meter_id)
+    AND public.is_org_row('teams', assigned_team_id)
+    AND public.is_org_row('profiles', assigned_to)
+  );
+
+DROP POLICY IF EXISTS "Org members can delete schedules" ON public."maintenanceSchedules";
+
+-- maintenanceResults
+DROP POLICY IF EXISTS "Allow all for authenticated" ON public."maintenanceResults";
+DROP POLICY IF EXISTS "Org members can read results" ON public."maintenanceResults";
+CREATE POLICY "Org members can read results" ON public."maintenanceResults"
+  FOR SELECT TO authenticated
+  USING (org_id = public.get_user_org_id() AND deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Org members can add results" ON public."maintenanceResults";
+CREATE POLICY "Org members can add results" ON public."maintenanceResults"
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    org_id = public.get_user_org_id()
+    AND public.is_org_row('instruments', "instrumentId")
+    AND public.is_org_row('maintenanceSchedules', "maintenanceScheduleId")
+  );
+
+DROP POLICY IF EXISTS "Org members can update results" ON public."maintenanceResults";
+CREATE POLICY "Org members can update results" ON public."maintenanceResults"
+  FOR UPDATE TO authenticated
+  USING (org_id = public.get_user_org_id() AND deleted_at IS NULL)
+  WITH CHECK (
+    org_id = public.get_user_org_id()
+    AND public.is_org_row('instruments', "instrumentId")
+    AND public.is_org_row('maintenanceSchedules', "maintenanceScheduleId")
+  );
+
+DROP POLICY IF EXISTS "Org members can delete results" ON public."maintenanceResults";
+
+-- maintenance_documents
+DROP POLICY IF EXISTS "Allow all for authenticated" ON public.maintenance_documents;
+DROP POLICY IF EXISTS "Org members can read documents" ON public.maintenance_documents;
+CREATE POLICY "Org members can read documents" ON public.maintenance_documents
+  FOR SELECT TO authenticated
+  USING (org_id = public.get_user_org_id() AND deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Org members can add documents" ON public.maintenance_documents;
+CREATE POLICY "Org members can add documents" ON public.maintenance_documents
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    org_id = public.get_user_org_id()
+    AND public.is_org_row('instruments', instrument_id)
+    AND public.is_org_row('maintenanceSchedules', maintenance_schedule_id)
+  );
+
+DROP POLICY IF EXISTS "Org members can update documents" ON public.maintenance_documents;
+CREATE POLICY "Org members can update documents" ON public.maintenance_documents
+  FOR UPDATE TO authenticated
+  USING (org_id = public.get_user_org_id() AND deleted_at IS NULL)
+  WITH CHECK (
+    org_id = public.get_user_org_id()
+    AND public.is_org_row('instruments', instrument_id)
+    AND public.is_org_row('maintenanceSchedules', maintenance_schedule_id)
+  );
+
+DROP POLICY IF EXISTS "Org members can delete documents" ON public.maintenance_documents;
+
+DROP POLICY IF EXISTS "Org members can access working calendars" ON public.working_calendars;
+CREATE POLICY "Org members can access working calendars" ON public.working_calendars
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id())
+  WITH CHECK (org_id = public.get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can access holidays" ON public.calendar_holidays;
+CREATE POLICY "Org members can access holidays" ON public.calendar_holidays
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id())
+  WITH CHECK (
+    org_id = public.get_user_org_id()
+    AND public.is_org_row('working_calendars', calendar_id)
+  );
+
+DROP POLICY IF EXISTS "Org members can access maintenance type policies" ON public.maintenance_type_policies;
+CREATE POLICY "Org members can access maintenance type policies" ON public.maintenance_type_policies
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id())
+  WITH CHECK (org_id = public.get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can access instrument meters" ON public.instrument_meters;
+CREATE POLICY "Org members can access instrument meters" ON public.instrument_meters
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id())
+  WITH CHECK (
+    org_id = public.get_user_org_id()
+    AND public.is_org_row('instruments', instrument_id)
+  );
+
+DROP POLICY IF EXISTS "Org members can access meter readings" ON public.meter_readings;
+CREATE POLICY "Org members can access meter readings" ON public.meter_readings
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id())
+  WITH CHECK (
+    org_id = public.get_user_org_id()
+    AND public.is_org_row('instrument_meters', meter_id)
+  );
+
+DROP POLICY IF EXISTS "Org members can access teams" ON public.teams;
+CREATE POLICY "Org members can access teams" ON public.teams
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id())
+  WITH CHECK (org_id = public.get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can access team members" ON public.team_members;
+CREATE POLICY "Org members can access team members" ON public.team_members
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id())
+  WITH CHECK (
+    org_id = public.get_user_org_id()
+    AND public.is_org_row('teams', team_id)
+    AND public.is_org_row('profiles', user_id)
+  );
+
+DROP POLICY IF EXISTS "Org members can access qualifications" ON public.user_qualifications;
+CREATE POLICY "Org members can access qualifications" ON public.user_qualifications
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id())
+  WITH CHECK (
+    org_id = public.get_user_org_id()
+    AND public.is_org_row('profiles', user_id)
+  );
+
+DROP POLICY IF EXISTS "Org members can access location assignment defaults" ON public.location_assignment_defaults;
+CREATE POLICY "Org members can access location assignment defaults" ON public.location_assignment_defaults
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id())
+  WITH CHECK (
+    org_id = public.get_user_org_id()
+    AND public.is_org_row('profiles', assignee_id)
+    AND public.is_org_row('teams', team_id)
+  );
+
+DROP POLICY IF EXISTS "Org members can access maintenance prerequisites" ON public.maintenance_prerequisites;
+CREATE POLICY "Org members can access maintenance prerequisites" ON public.maintenance_prerequisites
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id())
+  WITH CHECK (
+    org_id = public.get_user_org_id()
+    AND public.is_org_row('maintenance_configurations', configuration_id)
+    AND public.is_org_row('maintenance_configurations', prerequisite_configuration_id)
+  );
+
+DROP POLICY IF EXISTS "Org members can access blackout periods" ON public.blackout_periods;
+CREATE POLICY "Org members can access blackout periods" ON public.blackout_periods
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id())
+  WITH CHECK (
+    org_id = public.get_user_org_id()
+    AND public.is_org_row('instruments', instrument_id)
+  );
+
+DROP POLICY IF EXISTS "Org members can access task steps" ON public.maintenance_task_steps;
+CREATE POLICY "Org members can access task steps" ON public.maintenance_task_steps
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id())
+  WITH CHECK (
+    org_id = public.get_user_org_id()
+    AND public.is_org_row('maintenanceSchedules', schedule_id)
+  );
+
+DROP POLICY IF EXISTS "Org members can access instrument imports" ON public.instrument_imports;
+CREATE POLICY "Org members can access instrument imports" ON public.instrument_imports
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id())
+  WITH CHECK (org_id = public.get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can access locations" ON public.locations;
+CREATE POLICY "Org members can access locations" ON public.locations
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id())
+  WITH CHECK (
+    org_id = public.get_user_org_id()
+    AND public.is_org_row('locations', parent_id)
+  );
+
+-- Append-only history is only read by members; transition_maintenance_schedule writes it
+
+DROP POLICY IF EXISTS "Org members can read schedule history" ON public.maintenance_schedule_history;
+CREATE POLICY "Org members can read schedule history" ON public.maintenance_schedule_history
+  FOR SELECT TO authenticated
+  USING (org_id = public.get_user_org_id());
+
+-- The transition function runs as its owner and asks this instead of the
+-- schedule policies, so it follows them: schedules without an org are no
+-- longer changed
+CREATE OR REPLACE FUNCTION public.can_transition_schedule(p_schedule_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public."maintenanceSchedules" s
+    WHERE s.id = p_schedule_id
+      AND s.org_id = public.get_user_org_id()
+  )
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+DROP POLICY IF EXISTS "Org members can read instrument hierarchy history" ON public.instrument_hierarchy_history;
+CREATE POLICY "Org members can read instrument hierarchy history" ON public.instrument_hierarchy_history
+  FOR SELECT TO authenticated
+  USING (org_id = public.get_user_org_id());
+
+DROP POLICY IF EXISTS "Org members can read instrument lifecycle transitions" ON public.instrument_lifecycle_transitions;
+CREATE POLICY "Org members can read instrument lifecycle transitions" ON public.instrument_lifecycle_transitions
+  FOR SELECT TO authenticated
+  USING (org_id = public.get_user_org_id());
+
+-- ============================================================================
+-- STEP 4: Shared Catalogs
+-- ============================================================================
+-- Templates, instrument types and maintenance types without an org are the
+-- built-in set every organization starts from: readable by all, changed by none.
+
+DROP POLICY IF EXISTS "Allow all for authenticated" ON public."testTemplates";
+DROP POLICY IF EXISTS "Org members can access templates" ON public."testTemplates";
+CREATE POLICY "Org members can access templates" ON public."testTemplates"
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id())
+  WITH CHECK (org_id = public.get_user_org_id());
+
+DROP POLICY IF EXISTS "Shared templates are readable" ON public."testTemplates";
+CREATE POLICY "Shared templates are readable" ON public."testTemplates"
+  FOR SELECT TO authenticated
+  USING (org_id IS NULL);
+
+DROP POLICY IF EXISTS "Allow all for authenticated" ON public."instrumentTypes";
+DROP POLICY IF EXISTS "Org members can access instrument types" ON public."instrumentTypes";
+CREATE POLICY "Org members can access instrument types" ON public."instrumentTypes"
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id())
+  WITH CHECK (org_id = public.get_user_org_id());
+
+DROP POLICY IF EXISTS "Shared instrument types are readable" ON public."instrumentTypes";
+CREATE POLICY "Shared instrument types are readable" ON public."instrumentTypes"
+  FOR SELECT TO authenticated
+  USING (org_id IS NULL);
+
+DROP POLICY IF EXISTS "Allow all for authenticated" ON public."maintenanceTypes";
+DROP POLICY IF EXISTS "Org members can access maintenance types" ON public."maintenanceTypes";
+CREATE POLICY "Org members can access maintenance types" ON public."maintenanceTypes"
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id())
+  WITH CHECK (org_id = public.get_user_org_id());
+
+DROP POLICY IF EXISTS "Shared maintenance types are readable" ON public."maintenanceTypes";
+CREATE POLICY "Shared maintenance types are readable" ON public."maintenanceTypes"
+  FOR SELECT TO authenticated
+  USING (org_id IS NULL);
+
+-- Replaced by the two policies above; reading was open across organizations
+DROP POLICY IF EXISTS "Allow read for authenticated" ON public."maintenanceTypes";
+DROP POLICY IF EXISTS "Org write for maintenance types" ON public."maintenanceTypes";
+
+-- ============================================================================
+-- STEP 5: Profiles
+-- ============================================================================
+-- Policies on profiles cannot query profiles without recursing, so the admin
+-- check reads it as the table owner, like get_user_org_id.
+CREATE OR REPLACE FUNCTION public.is_org_admin()
+RETURNS boolean AS $$
+  SELECT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.is_org_admin() TO authenticated;
+
+-- docker-init grants
+DROP POLICY IF EXISTS "Profiles readable by authenticated" ON public.profiles;
+DROP POLICY IF EXISTS "Profiles updatable by owner" ON public.profiles;
+
+DROP POLICY IF EXISTS "Admins can view all profiles" ON public.profiles;
+CREATE POLICY "Admins can view all profiles" ON public.profiles
+  FOR SELECT TO authenticated
+  USING (auth.uid() = id OR (org_id = public.get_user_org_id() AND public.is_org_admin()));
+
+DROP POLICY IF EXISTS "Admins can update all profiles" ON public.profiles;
+CREATE POLICY "Admins can update all profiles" ON public.profiles
+  FOR UPDATE TO authenticated
+  USING (auth.uid() = id OR (org_id = public.get_user_org_id() AND public.is_org_admin()));
+
+-- Own-profile updates (display name, password reset flag) stay open, but the
+-- fields that grant access do not: organization only through the server, role
+-- and permissions only by an admin of the same organization.
+CREATE OR REPLACE FUNCTION public.protect_profile_access()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.org_id IS DISTINCT FROM OLD.org_id THEN
+    RAISE EXCEPTION 'A profile''s organization can only be changed by the server';
+  END IF;
+
+  IF (NEW.role IS DISTINCT FROM OLD.role
+      OR NEW.permissions IS DISTINCT FROM OLD.permissions
+      OR NEW.is_super_admin IS DISTINCT FROM OLD.is_super_admin)
+     AND NOT public.is_org_admin() THEN
+    RAISE EXCEPTION 'Only admins can change roles and permissions';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_profile_access ON public.profiles;
+CREATE TRIGGER protect_profile_access
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_access();
+
+-- ============================================================================
+-- STEP 6: Sign-up Cannot Pick an Organization
+-- ============================================================================
+-- User metadata is whatever the client sent to sign-up, so an org_id in it no
+-- longer joins that organization. Invited and admin-created users start without
+-- one; /api/admin/users sets org_id, role and permissions with the service role
+-- right after creating them.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  new_org_id uuid;
+BEGIN
+  IF new.raw_user_meta_data ? 'org_id' THEN
+    INSERT INTO public.profiles (
+      id,
+      role,
+      org_id,
+      display_name,
+      password_reset_required,
+      permissions
+    )
+    VALUES (
+      new.id,
+      'user',
+      NULL,
+      COALESCE(new.raw_user_meta_data->>'display_name', split_part(new.email, '@', 1)),
+      COALESCE((new.raw_user_meta_data->>'password_reset_required')::boolean, true),
+      '{"dashboard":"view","maintenance_history":"view","update_maintenance":"view","instruments":"view","design_templates":"hidden","settings":"hidden","user_management":"hidden"}'::jsonb
+    );
+  ELSE
+    -- New signup - create new organization
+    INSERT INTO public.organizations (name, created_by)
+    VALUES (
+      COALESCE(
+        new.raw_user_meta_data->>'org_name',
+        split_part(new.email, '@', 1) || '''s Organization'
+      ),
+      new.id
+    )
+    RETURNING id INTO new_org_id;
+
+    INSERT INTO public.profiles (
+      id,
+      role,
+      org_id,
+      display_name,
+      is_super_admin,
+      permissions
+    )
+    VALUES (
+      new.id,
+      'admin',
+      new_org_id,
+      COALESCE(new.raw_user_meta_data->>'display_name', split_part(new.email, '@', 1)),
+      true,
+      '{"dashboard":"edit","maintenance_history":"edit","update_maintenance":"edit","instruments":"edit","design_templates":"edit","settings":"edit","user_management":"edit"}'::jsonb
+    );
+  END IF;
+
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,279 @@
+-- Migration: Enforce the feature permission matrix in the database
+-- Version: 20261018000018
+--
+-- profiles.permissions (dashboard, instruments, update_maintenance, ...) only
+-- decided which pages and buttons the app showed; anyone in the organization
+-- could still write any row by calling the API directly. The matrix now gates
+-- the tables themselves:
+--   * 'hidden' on every feature that shows a table means its rows are invisible
+--   * 'view' reads them, 'edit' is needed to add, change or delete them
+--   * admins are treated as 'edit' on everything, as the API routes already do
+--   * functions that run as their owner, such as the schedule transitions,
+--     ask the same rules before changing anything
+-- Which features open which table lives in feature_permission_rules, so the
+-- policies and the effective-permissions report read the same lookup.
+
+-- ============================================================================
+-- STEP 1: Effective Permission Levels
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.effective_permission_level(
+  p_role text,
+  p_permissions jsonb,
+  p_feature text
+)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN p_role = 'admin' THEN 'edit'
+    WHEN p_permissions ->> p_feature IN ('view', 'edit') THEN p_permissions ->> p_feature
+    ELSE 'hidden'
+  END
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================================================
+-- STEP 2: Which Features Open Which Tables
+-- ============================================================================
+-- read_features: any one of them at 'view' reads the table; NULL means every
+--   member of the organization can (reference data the whole app looks up).
+-- write_features: any one of them at 'edit' adds, changes and deletes rows.
+-- update_features: further features whose 'edit' may change existing rows but
+--   not add or delete them (technicians advancing meter baselines).
+CREATE TABLE IF NOT EXISTS public.feature_permission_rules (
+  table_name text PRIMARY KEY,
+  read_features text[],
+  write_features text[] NOT NULL,
+  update_features text[] NOT NULL DEFAULT '{}'
+);
+
+ALTER TABLE public.feature_permission_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Feature permission rules are readable" ON public.feature_permission_rules;
+CREATE POLICY "Feature permission rules are readable" ON public.feature_permission_rules
+  FOR SELECT TO authenticated
+  USING (true);
+
+INSERT INTO public.feature_permission_rules (table_name, read_features, write_features, update_features) VALUES
+  -- Instrument register and its maintenance records
+  ('instruments', '{dashboard,maintenance_history,update_maintenance,instruments}', '{instruments}', '{}'),
+  ('maintenance_configurations', '{dashboard,maintenance_history,update_maintenance,instruments}', '{instruments}', '{update_maintenance}'),
+  ('maintenanceSchedules', '{dashboard,maintenance_history,update_maintenance,instruments}', '{update_maintenance,instruments}', '{}'),
+  ('maintenanceResults', '{dashboard,maintenance_history,update_maintenance,instruments}', '{update_maintenance,maintenance_history}', '{}'),
+  ('maintenance_documents', '{dashboard,maintenance_history,update_maintenance,instruments}', '{update_maintenance,instruments}', '{}'),
+  ('maintenance_schedule_history', '{dashboard,maintenance_history,update_maintenance,instruments}', '{update_maintenance,instruments}', '{}'),
+  ('maintenance_task_steps', '{dashboard,maintenance_history,update_maintenance,instruments}', '{update_maintenance}', '{}'),
+  ('instrument_meters', '{dashboard,maintenance_history,update_maintenance,instruments}', '{instruments}', '{update_maintenance}'),
+  ('meter_readings', '{dashboard,maintenance_history,update_maintenance,instruments}', '{update_maintenance,instruments}', '{}'),
+  ('maintenance_prerequisites', '{dashboard,maintenance_history,update_maintenance,instruments}', '{instruments}', '{}'),
+  ('instrument_hierarchy_history', '{dashboard,maintenance_history,update_maintenance,instruments}', '{instruments}', '{}'),
+  ('instrument_lifecycle_transitions', '{dashboard,maintenance_history,update_maintenance,instruments}', '{instruments}', '{}'),
+  ('instrument_imports', '{instruments}', '{instruments}', '{}'),
+  -- Templates are filled in while recording results and shown with them afterwards
+  ('testTemplates', '{design_templates,maintenance_history,update_maintenance,instruments}', '{design_templates}', '{}'),
+  -- Types can also be added from the instrument forms
+  ('instrumentTypes', NULL, '{settings,instruments}', '{}'),
+  ('maintenanceTypes', NULL, '{settings,instruments}', '{}'),
+  ('maintenance_type_policies', NULL, '{settings}', '{}'),
+  ('working_calendars', NULL, '{settings}', '{}'),
+  ('calendar_holidays', NULL, '{settings}', '{}'),
+  ('blackout_periods', NULL, '{settings}', '{}'),
+  ('teams', NULL, '{settings}', '{}'),
+  ('team_members', NULL, '{settings}', '{}'),
+  ('user_qualifications', NULL, '{settings}', '{}'),
+  ('location_assignment_defaults', NULL, '{settings}', '{}'),
+  ('locations', NULL, '{settings}', '{}')
+ON CONFLICT (table_name) DO UPDATE SET
+  read_features = EXCLUDED.read_features,
+  write_features = EXCLUDED.write_features,
+  update_features = EXCLUDED.update_features;
+
+-- p_action is read, add, update or delete. A table without a rule is not
+-- restricted by feature (org isolation still applies).
+CREATE OR REPLACE FUNCTION public.feature_table_access(p_user_id uuid, p_table text, p_action text)
+RETURNS boolean AS $$
+  SELECT CASE
+    WHEN r.table_name IS NULL THEN true
+    WHEN p_action = 'read' THEN
+      r.read_features IS NULL OR EXISTS (
+        SELECT 1 FROM unnest(r.read_features) AS f(feature)
+        WHERE public.effective_permission_level(p.role, p.permissions, f.feature) IN ('view', 'edit')
+      )
+    ELSE EXISTS (
+      SELECT 1
+      FROM unnest(
+        CASE WHEN p_action = 'update' THEN r.write_features || r.update_features ELSE r.write_features END
+      ) AS f(feature)
+      WHERE public.effective_permission_level(p.role, p.permissions, f.feature) = 'edit'
+    )
+  END
+  FROM public.profiles p
+  LEFT JOIN public.feature_permission_rules r ON r.table_name = p_table
+  WHERE p.id = p_user_id
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Reads the caller's profile as the table owner: policies on every table call
+-- this, and profiles itself is only partly visible to non-admins
+CREATE OR REPLACE FUNCTION public.can_access_table(p_table text, p_action text)
+RETURNS boolean AS $$
+  SELECT COALESCE(public.feature_table_access(auth.uid(), p_table, p_action), false)
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Answers for any user, so only the wrappers above and below may call it
+REVOKE EXECUTE ON FUNCTION public.feature_table_access(uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.can_access_table(text, text) TO authenticated;
+
+-- ============================================================================
+-- STEP 3: Restrictive Policies
+-- ============================================================================
+-- RESTRICTIVE policies are ANDed with the organization policies from
+-- 20261018000017, so a row has to be in the caller's org and allowed by their
+-- permissions. The subselect lets Postgres evaluate the check once per query
+-- rather than once per row.
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOR v_table IN SELECT table_name FROM public.feature_permission_rules LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Feature permission to read" ON public.%I', v_table);
+    EXECUTE format(
+      'CREATE POLICY "Feature permission to read" ON public.%I AS RESTRICTIVE FOR SELECT TO authenticated '
+      'USING ((SELECT public.can_access_table(%L, ''read'')))',
+      v_table, v_table
+    );
+
+    EXECUTE format('DROP POLICY IF EXISTS "Feature permission to add" ON public.%I', v_table);
+    EXECUTE format(
+      'CREATE POLICY "Feature permission to add" ON public.%I AS RESTRICTIVE FOR INSERT TO authenticated '
+      'WITH CHECK ((SELECT public.can_access_table(%L, ''add'')))',
+      v_table, v_table
+    );
+
+    EXECUTE format('DROP POLICY IF EXISTS "Feature permission to update" ON public.%I', v_table);
+    EXECUTE format(
+      'CREATE POLICY "Feature permission to update" ON public.%I AS RESTRICTIVE FOR UPDATE TO authenticated '
+      'USING ((SELECT public.can_access_table(%L, ''update''))) '
+      'WITH CHECK ((SELECT public.can_access_table(%L, ''update'')))',
+      v_table, v_table, v_table
+    );
+
+    EXECUTE format('DROP POLICY IF EXISTS "Feature permission to delete" ON public.%I', v_table);
+    EXECUTE format(
+      'CREATE POLICY "Feature permission to delete" ON public.%I AS RESTRICTIVE FOR DELETE TO authenticated '
+      'USING ((SELECT public.can_access_table(%L, ''delete'')))',
+      v_table, v_table
+    );
+  END LOOP;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 4: Side Effects That Cross Features
+-- ============================================================================
+-- A technician recording a failed calibration quarantines the instrument, and
+-- renaming a location in settings rewrites the paths stored on instruments and
+-- calendars. Neither caller can edit those tables directly, so the triggers run
+-- as the owner; both only touch rows of the organization that fired them.
+ALTER FUNCTION public.quarantine_on_failed_calibration() SECURITY DEFINER SET search_path = public;
+ALTER FUNCTION public.propagate_location_path() SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- STEP 5: Effective-Permissions Report
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.list_effective_permissions(p_user_id uuid)
+RETURNS TABLE (
+  feature text,
+  stored_level text,
+  effective_level text
+) AS $$
+BEGIN
+  IF NOT public.is_org_admin() THEN
+    RAISE EXCEPTION 'Only admins can view effective permissions';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    f.feature,
+    COALESCE(p.permissions ->> f.feature, 'hidden'),
+    public.effective_permission_level(p.role, p.permissions, f.feature)
+  FROM public.profiles p,
+    unnest(ARRAY[
+      'dashboard', 'maintenance_history', 'update_maintenance', 'instruments',
+      'design_templates', 'settings', 'user_management'
+    ]) WITH ORDINALITY AS f(feature, position)
+  WHERE p.id = p_user_id
+    AND p.org_id = public.get_user_org_id()
+  ORDER BY f.position;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.list_effective_table_access(p_user_id uuid)
+RETURNS TABLE (
+  table_name text,
+  can_read boolean,
+  can_add boolean,
+  can_update boolean,
+  can_delete boolean
+) AS $$
+BEGIN
+  IF NOT public.is_org_admin() THEN
+    RAISE EXCEPTION 'Only admins can view effective permissions';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE id = p_user_id AND org_id = public.get_user_org_id()
+  ) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.table_name,
+    public.feature_table_access(p_user_id, r.table_name, 'read'),
+    public.feature_table_access(p_user_id, r.table_name, 'add'),
+    public.feature_table_access(p_user_id, r.table_name, 'update'),
+    public.feature_table_access(p_user_id, r.table_name, 'delete')
+  FROM public.feature_permission_rules r
+  ORDER BY r.table_name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.list_effective_permissions(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.list_effective_table_access(uuid) TO authenticated;
+
+-- ============================================================================
+-- STEP 6: Schedule Transitions
+-- ============================================================================
+-- transition_maintenance_schedule and discard_maintenance_schedule run as the
+-- owner, so they apply the same rule as the schedule policies: edit rights on
+-- maintenance, in the caller's org, on a schedule that is not in the recycle bin.
+CREATE OR REPLACE FUNCTION public.can_transition_schedule(p_schedule_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public."maintenanceSchedules" s
+    WHERE s.id = p_schedule_id
+      AND s.org_id = public.get_user_org_id()
+      AND s.deleted_at IS NULL
+  ) AND public.can_access_table('maintenanceSchedules', 'update')
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+-- ============================================================================
+-- STEP 7: Removing Configurations and Rolling Back Imports
+-- ============================================================================
+-- Both run as the owner as well. Removing a configuration needs the right to
+-- delete configurations; rolling back an import deletes its instruments.
+CREATE OR REPLACE FUNCTION public.can_remove_configuration(p_configuration_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.maintenance_configurations c
+    WHERE c.id = p_configuration_id
+      AND c.org_id = public.get_user_org_id()
+      AND c.deleted_at IS NULL
+  ) AND public.can_access_table('maintenance_configurations', 'delete')
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.can_roll_back_import(p_import_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.instrument_imports i
+    WHERE i.id = p_import_id
+      AND i.org_id = public.get_user_org_id()
+  ) AND public.can_access_table('instruments', 'delete')
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
@@ -0,0 +1,382 @@
+-- Migration: Permissions scoped to a location subtree or an instrument type
+-- Version: 20261018000019
+--
+-- Teams sharing one organization each look after their own area, so on top of
+-- the organization-wide levels in profiles.permissions an admin can grant a
+-- feature for part of the register only, e.g. update_maintenance 'edit' for
+-- everything under "Site A / Micro Lab", or instruments 'view' for pH meters.
+-- A grant only ever adds to the user's global level: for each instrument the
+-- higher of the two applies. Grants cover the features that work on instrument
+-- records (dashboard, maintenance_history, update_maintenance, instruments),
+-- including rescheduling, skipping and waiving that instrument's occurrences.
+
+-- ============================================================================
+-- STEP 1: Scoped Grants
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.permission_scopes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  feature text NOT NULL CHECK (feature IN ('dashboard', 'maintenance_history', 'update_maintenance', 'instruments')),
+  level text NOT NULL CHECK (level IN ('view', 'edit')),
+  -- A grant covers either a location and everything below it, or one instrument type
+  location_id uuid REFERENCES public.locations(id) ON DELETE CASCADE,
+  instrument_type text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT permission_scopes_one_scope CHECK ((location_id IS NULL) <> (instrument_type IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_permission_scopes_user_id ON public.permission_scopes(user_id);
+
+ALTER TABLE public.permission_scopes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own permission scopes" ON public.permission_scopes;
+CREATE POLICY "Users can read own permission scopes" ON public.permission_scopes
+  FOR SELECT TO authenticated
+  USING (org_id = public.get_user_org_id() AND (user_id = auth.uid() OR public.is_org_admin()));
+
+DROP POLICY IF EXISTS "Admins can manage permission scopes" ON public.permission_scopes;
+CREATE POLICY "Admins can manage permission scopes" ON public.permission_scopes
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id() AND public.is_org_admin())
+  WITH CHECK (org_id = public.get_user_org_id() AND public.is_org_admin());
+
+DROP TRIGGER IF EXISTS assign_org_id ON public.permission_scopes;
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public.permission_scopes
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id('user_id', 'profiles');
+
+-- With the location path, which is what instruments are matched on
+CREATE OR REPLACE FUNCTION public.list_permission_scopes(p_user_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  feature text,
+  level text,
+  location_id uuid,
+  location_path text,
+  instrument_type text,
+  created_at timestamptz
+) AS $$
+  SELECT s.id, s.user_id, s.feature, s.level, s.location_id, public.location_path(s.location_id), s.instrument_type, s.created_at
+  FROM public.permission_scopes s
+  WHERE s.user_id = COALESCE(p_user_id, auth.uid())
+  ORDER BY s.feature, s.created_at
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.list_permission_scopes(uuid) TO authenticated;
+
+-- ============================================================================
+-- STEP 2: Which Tables Hold Instrument Records
+-- ============================================================================
+-- On these, a scoped grant applies row by row to the instrument the row
+-- belongs to. Elsewhere (templates, types, imports) any grant of a feature
+-- counts as that level, so a technician scoped to one lab can still read the
+-- templates their results are entered on.
+ALTER TABLE public.feature_permission_rules
+  ADD COLUMN IF NOT EXISTS instrument_scoped boolean NOT NULL DEFAULT false;
+
+UPDATE public.feature_permission_rules SET instrument_scoped = true
+WHERE table_name IN (
+  'instruments', 'maintenance_configurations', 'maintenanceSchedules', 'maintenanceResults',
+  'maintenance_documents', 'maintenance_schedule_history', 'maintenance_task_steps',
+  'instrument_meters', 'meter_readings', 'maintenance_prerequisites',
+  'instrument_hierarchy_history', 'instrument_lifecycle_transitions'
+);
+
+-- ============================================================================
+-- STEP 3: Access Checks
+-- ============================================================================
+-- Highest level the user's grants give on a feature for an instrument at this
+-- location and of this type. Locations match on the path, like location filters.
+CREATE OR REPLACE FUNCTION public.scoped_permission_level(
+  p_user_id uuid,
+  p_feature text,
+  p_location text,
+  p_instrument_type text
+)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN bool_or(s.level = 'edit') THEN 'edit'
+    WHEN count(*) > 0 THEN 'view'
+    ELSE 'hidden'
+  END
+  FROM public.permission_scopes s
+  LEFT JOIN LATERAL (SELECT public.location_path(s.location_id) AS path) l ON true
+  WHERE s.user_id = p_user_id
+    AND s.feature = p_feature
+    AND (
+      s.instrument_type = p_instrument_type
+      OR p_location = l.path
+      OR left(p_location, length(l.path) + 3) = l.path || ' / '
+    )
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Table-wide access. Now also counts grants on tables that are not instrument records.
+CREATE OR REPLACE FUNCTION public.feature_table_access(p_user_id uuid, p_table text, p_action text)
+RETURNS boolean AS $$
+  SELECT CASE
+    WHEN r.table_name IS NULL THEN true
+    WHEN p_action = 'read' AND r.read_features IS NULL THEN true
+    ELSE EXISTS (
+      SELECT 1
+      FROM unnest(
+        CASE p_action
+          WHEN 'read' THEN r.read_features
+          WHEN 'update' THEN r.write_features || r.update_features
+          ELSE r.write_features
+        END
+      ) AS f(feature)
+      WHERE public.effective_permission_level(p.role, p.permissions, f.feature)
+          IN ('edit', CASE WHEN p_action = 'read' THEN 'view' ELSE 'edit' END)
+        OR (NOT r.instrument_scoped AND EXISTS (
+          SELECT 1 FROM public.permission_scopes s
+          WHERE s.user_id = p_user_id
+            AND s.feature = f.feature
+            AND s.level IN ('edit', CASE WHEN p_action = 'read' THEN 'view' ELSE 'edit' END)
+        ))
+    )
+  END
+  FROM public.profiles p
+  LEFT JOIN public.feature_permission_rules r ON r.table_name = p_table
+  WHERE p.id = p_user_id
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Access to one instrument's records through the user's scoped grants alone
+CREATE OR REPLACE FUNCTION public.feature_instrument_access(
+  p_user_id uuid,
+  p_table text,
+  p_action text,
+  p_location text,
+  p_instrument_type text
+)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.feature_permission_rules r,
+      unnest(
+        CASE p_action
+          WHEN 'read' THEN r.read_features
+          WHEN 'update' THEN r.write_features || r.update_features
+          ELSE r.write_features
+        END
+      ) AS f(feature)
+    WHERE r.table_name = p_table
+      AND public.scoped_permission_level(p_user_id, f.feature, p_location, p_instrument_type)
+        IN ('edit', CASE WHEN p_action = 'read' THEN 'view' ELSE 'edit' END)
+  )
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.scoped_permission_level(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.feature_instrument_access(uuid, text, text, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Called from the policies below, as the table owner like can_access_table
+CREATE OR REPLACE FUNCTION public.has_permission_scopes()
+RETURNS boolean AS $$
+  SELECT EXISTS (SELECT 1 FROM public.permission_scopes WHERE user_id = auth.uid())
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.can_access_instrument_record(
+  p_table text,
+  p_action text,
+  p_location text,
+  p_instrument_type text
+)
+RETURNS boolean AS $$
+  SELECT public.feature_instrument_access(auth.uid(), p_table, p_action, p_location, p_instrument_type)
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.can_access_instrument(p_table text, p_action text, p_instrument_id uuid)
+RETURNS boolean AS $$
+  SELECT COALESCE((
+    SELECT public.feature_instrument_access(auth.uid(), p_table, p_action, i.location, i."instrumentType")
+    FROM public.instruments i
+    WHERE i.id = p_instrument_id
+  ), false)
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Rows that reach their instrument through a schedule, configuration or meter.
+-- They read past RLS, so they only answer for rows of the caller's org.
+CREATE OR REPLACE FUNCTION public.schedule_instrument_id(p_schedule_id uuid)
+RETURNS uuid AS $$
+  SELECT "instrumentId" FROM public."maintenanceSchedules"
+  WHERE id = p_schedule_id AND org_id = public.get_user_org_id()
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.configuration_instrument_id(p_configuration_id uuid)
+RETURNS uuid AS $$
+  SELECT instrument_id FROM public.maintenance_configurations
+  WHERE id = p_configuration_id AND org_id = public.get_user_org_id()
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.meter_instrument_id(p_meter_id uuid)
+RETURNS uuid AS $$
+  SELECT instrument_id FROM public.instrument_meters
+  WHERE id = p_meter_id AND org_id = public.get_user_org_id()
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.has_permission_scopes() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.can_access_instrument_record(text, text, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.can_access_instrument(text, text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.schedule_instrument_id(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.configuration_instrument_id(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.meter_instrument_id(uuid) TO authenticated;
+
+-- ============================================================================
+-- STEP 4: Row-Level Feature Policies on Instrument Records
+-- ============================================================================
+-- The table-wide check still comes first and is evaluated once per query;
+-- only users holding scoped grants fall through to the per-row check.
+DO $$
+DECLARE
+  v_rule record;
+  v_action text;
+  v_command text;
+  v_row_check text;
+  v_check text;
+BEGIN
+  FOR v_rule IN
+    SELECT * FROM (VALUES
+      ('instruments', NULL),
+      ('maintenance_configurations', 'instrument_id'),
+      ('maintenanceSchedules', '"instrumentId"'),
+      ('maintenanceResults', '"instrumentId"'),
+      ('maintenance_documents', 'instrument_id'),
+      ('maintenance_schedule_history', 'public.schedule_instrument_id(schedule_id)'),
+      ('maintenance_task_steps', 'public.schedule_instrument_id(schedule_id)'),
+      ('instrument_meters', 'instrument_id'),
+      ('meter_readings', 'public.meter_instrument_id(meter_id)'),
+      ('maintenance_prerequisites', 'public.configuration_instrument_id(configuration_id)'),
+      ('instrument_hierarchy_history', 'instrument_id'),
+      ('instrument_lifecycle_transitions', 'instrument_id')
+    ) AS t(table_name, instrument_expr)
+  LOOP
+    FOREACH v_action IN ARRAY ARRAY['read', 'add', 'update', 'delete'] LOOP
+      v_command := CASE v_action WHEN 'read' THEN 'SELECT' WHEN 'add' THEN 'INSERT' ELSE upper(v_action) END;
+
+      -- An instrument being added is not in the table yet, so it is checked on its own columns
+      IF v_rule.instrument_expr IS NULL THEN
+        v_row_check := format('public.can_access_instrument_record(%L, %L, location, "instrumentType")', v_rule.table_name, v_action);
+      ELSE
+        v_row_check := format('public.can_access_instrument(%L, %L, %s)', v_rule.table_name, v_action, v_rule.instrument_expr);
+      END IF;
+
+      v_check := format(
+        '(SELECT public.can_access_table(%L, %L)) OR ((SELECT public.has_permission_scopes()) AND %s)',
+        v_rule.table_name, v_action, v_row_check
+      );
+
+      EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Feature permission to ' || v_action, v_rule.table_name);
+      EXECUTE format(
+        'CREATE POLICY %I ON public.%I AS RESTRICTIVE FOR %s TO authenticated %s',
+        'Feature permission to ' || v_action,
+        v_rule.table_name,
+        v_command,
+        CASE v_action
+          WHEN 'add' THEN format('WITH CHECK (%s)', v_check)
+          WHEN 'update' THEN format('USING (%s) WITH CHECK (%s)', v_check, v_check)
+          ELSE format('USING (%s)', v_check)
+        END
+      );
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 5: Deleting Instruments
+-- ============================================================================
+-- soft_delete_instrument checks rights itself; it now accepts a scoped grant
+-- on instruments for the instrument being deleted.
+CREATE OR REPLACE FUNCTION public.soft_delete_instrument(p_instrument_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_org_id uuid := public.get_user_org_id();
+  v_now timestamptz := now();
+  v_configurations integer;
+  v_schedules integer;
+  v_results integer;
+  v_documents integer;
+BEGIN
+  IF NOT (
+    public.can_access_table('instruments', 'update')
+    OR public.can_access_instrument('instruments', 'update', p_instrument_id)
+  ) THEN
+    RAISE EXCEPTION 'You do not have permission to delete instruments';
+  END IF;
+
+  UPDATE public.instruments
+  SET deleted_at = v_now, deleted_by = auth.uid()
+  WHERE id = p_instrument_id
+    AND org_id = v_org_id
+    AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Instrument % not found', p_instrument_id;
+  END IF;
+
+  UPDATE public.maintenance_configurations SET deleted_at = v_now
+  WHERE instrument_id = p_instrument_id AND deleted_at IS NULL;
+  GET DIAGNOSTICS v_configurations = ROW_COUNT;
+
+  UPDATE public."maintenanceSchedules" SET deleted_at = v_now
+  WHERE "instrumentId" = p_instrument_id AND deleted_at IS NULL;
+  GET DIAGNOSTICS v_schedules = ROW_COUNT;
+
+  UPDATE public."maintenanceResults" SET deleted_at = v_now
+  WHERE "instrumentId" = p_instrument_id AND deleted_at IS NULL;
+  GET DIAGNOSTICS v_results = ROW_COUNT;
+
+  UPDATE public.maintenance_documents SET deleted_at = v_now
+  WHERE instrument_id = p_instrument_id AND deleted_at IS NULL;
+  GET DIAGNOSTICS v_documents = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'id', p_instrument_id,
+    'deletedAt', v_now,
+    'configurations', v_configurations,
+    'schedules', v_schedules,
+    'results', v_results,
+    'documents', v_documents
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- STEP 6: Schedule Transitions
+-- ============================================================================
+-- A scoped grant on schedules lets the holder move or close that instrument's
+-- occurrences, as it lets them update the rows directly.
+CREATE OR REPLACE FUNCTION public.can_transition_schedule(p_schedule_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public."maintenanceSchedules" s
+    WHERE s.id = p_schedule_id
+      AND s.org_id = public.get_user_org_id()
+      AND s.deleted_at IS NULL
+      AND (
+        public.can_access_table('maintenanceSchedules', 'update')
+        OR public.can_access_instrument('maintenanceSchedules', 'update', s."instrumentId")
+      )
+  )
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+-- ============================================================================
+-- STEP 7: Removing Configurations
+-- ============================================================================
+-- A scoped grant on configurations lets the holder take one off that
+-- instrument, as it lets them delete the row directly.
+CREATE OR REPLACE FUNCTION public.can_remove_configuration(p_configuration_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.maintenance_configurations c
+    WHERE c.id = p_configuration_id
+      AND c.org_id = public.get_user_org_id()
+      AND c.deleted_at IS NULL
+      AND (
+        public.can_access_table('maintenance_configurations', 'delete')
+        OR public.can_access_instrument('maintenance_configurations', 'delete', c.instrument_id)
+      )
+  )
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
@@ -0,0 +1,144 @@
+-- Migration: Admin-defined roles carrying a permission template
+-- Version: 20261018000020
+--
+-- Every user's permission matrix was set by hand. An organization can now define
+-- its own roles ("QA Reviewer", "Vendor Engineer", "Lab Head") each with a
+-- template, and assign users to them. profiles.permissions stays the matrix the
+-- policies read; for a role member it is kept as the role's template plus the
+-- user's own overrides, which are stored separately so they survive template
+-- changes and can be shown as a diff against the role.
+-- profiles.role (admin/supervisor/user) is unchanged and still decides who is
+-- an administrator.
+
+-- ============================================================================
+-- STEP 1: Roles
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.custom_roles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  permissions jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT custom_roles_org_name_key UNIQUE (org_id, name)
+);
+
+ALTER TABLE public.custom_roles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org members can read roles" ON public.custom_roles;
+CREATE POLICY "Org members can read roles" ON public.custom_roles
+  FOR SELECT TO authenticated
+  USING (org_id = public.get_user_org_id());
+
+DROP POLICY IF EXISTS "Admins can manage roles" ON public.custom_roles;
+CREATE POLICY "Admins can manage roles" ON public.custom_roles
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id() AND public.is_org_admin())
+  WITH CHECK (org_id = public.get_user_org_id() AND public.is_org_admin());
+
+DROP TRIGGER IF EXISTS assign_org_id ON public.custom_roles;
+CREATE TRIGGER assign_org_id
+  BEFORE INSERT ON public.custom_roles
+  FOR EACH ROW EXECUTE FUNCTION public.assign_org_id();
+
+-- ============================================================================
+-- STEP 2: Role Membership and Overrides
+-- ============================================================================
+-- Deleting a role leaves its members with the permissions they had
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS custom_role_id uuid REFERENCES public.custom_roles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS permission_overrides jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_custom_role_id ON public.profiles(custom_role_id);
+
+-- The features whose level differs from the template
+CREATE OR REPLACE FUNCTION public.permission_diff(p_permissions jsonb, p_template jsonb)
+RETURNS jsonb AS $$
+  SELECT COALESCE(jsonb_object_agg(p.key, p.value), '{}'::jsonb)
+  FROM jsonb_each(COALESCE(p_permissions, '{}'::jsonb)) p
+  WHERE p.value IS DISTINCT FROM COALESCE(p_template, '{}'::jsonb) -> p.key
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Keeps a member's matrix at template + overrides. Writing the matrix directly
+-- (as the user admin API does) turns whatever differs from the template into
+-- the overrides. Named to run before protect_profile_access, which then sees
+-- the permissions actually being stored.
+CREATE OR REPLACE FUNCTION public.apply_role_permissions()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_template jsonb;
+BEGIN
+  IF NEW.custom_role_id IS NULL THEN
+    NEW.permission_overrides := '{}'::jsonb;
+    RETURN NEW;
+  END IF;
+
+  SELECT r.permissions INTO v_template
+  FROM public.custom_roles r
+  WHERE r.id = NEW.custom_role_id AND r.org_id IS NOT DISTINCT FROM NEW.org_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Role % is not a role of this organization', NEW.custom_role_id;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+     OR (NEW.permissions IS DISTINCT FROM OLD.permissions
+         AND NEW.permission_overrides IS NOT DISTINCT FROM OLD.permission_overrides) THEN
+    NEW.permission_overrides := public.permission_diff(NEW.permissions, v_template);
+  END IF;
+
+  NEW.permissions := v_template || COALESCE(NEW.permission_overrides, '{}'::jsonb);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS apply_role_permissions ON public.profiles;
+CREATE TRIGGER apply_role_permissions
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.apply_role_permissions();
+
+-- A template change reaches every member; touching the membership re-applies
+-- the template without disturbing their overrides
+CREATE OR REPLACE FUNCTION public.propagate_role_permissions()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.permissions IS DISTINCT FROM OLD.permissions THEN
+    UPDATE public.profiles SET custom_role_id = NEW.id WHERE custom_role_id = NEW.id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS propagate_role_permissions ON public.custom_roles;
+CREATE TRIGGER propagate_role_permissions
+  AFTER UPDATE ON public.custom_roles
+  FOR EACH ROW EXECUTE FUNCTION public.propagate_role_permissions();
+
+-- ============================================================================
+-- STEP 3: Only Admins Assign Roles
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.protect_profile_access()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.org_id IS DISTINCT FROM OLD.org_id THEN
+    RAISE EXCEPTION 'A profile''s organization can only be changed by the server';
+  END IF;
+
+  IF (NEW.role IS DISTINCT FROM OLD.role
+      OR NEW.permissions IS DISTINCT FROM OLD.permissions
+      OR NEW.custom_role_id IS DISTINCT FROM OLD.custom_role_id
+      OR NEW.permission_overrides IS DISTINCT FROM OLD.permission_overrides
+      OR NEW.is_super_admin IS DISTINCT FROM OLD.is_super_admin)
+     AND NOT public.is_org_admin() THEN
+    RAISE EXCEPTION 'Only admins can change roles and permissions';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,167 @@
+-- Migration: Electronic signatures on maintenance results
+-- Version: 20261018000021
+--
+-- Completing or approving a result was just a row update. Each completion,
+-- review and approval is now signed: the signer re-enters their password, and
+-- the signature records its meaning, the time, the signer's printed name and a
+-- SHA-256 hash of the result content at that moment. Signatures are written
+-- only by the signing API (service role) after the password is checked, are
+-- never edited, and are invalidated as soon as the signed content changes.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- ============================================================================
+-- STEP 1: Result Content Hash
+-- ============================================================================
+-- Everything a signer vouches for. jsonb text is key-ordered, and the
+-- completion time goes in as epoch seconds so the session time zone cannot
+-- change the hash.
+CREATE OR REPLACE FUNCTION public.result_content_hash(p_result public."maintenanceResults")
+RETURNS text AS $$
+  SELECT encode(extensions.digest(convert_to(jsonb_build_object(
+    'id', p_result.id,
+    'schedule_id', p_result."maintenanceScheduleId",
+    'instrument_id', p_result."instrumentId",
+    'completed_at', extract(epoch FROM p_result."completedDate"),
+    'result_type', p_result."resultType",
+    'notes', p_result.notes,
+    'document_url', p_result."documentUrl",
+    'test_data', p_result."testData",
+    'template_id', p_result."templateId",
+    'entered_by', p_result.user_id
+  )::text, 'UTF8'), 'sha256'), 'hex')
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- ============================================================================
+-- STEP 2: Signatures
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.result_signatures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE,
+  result_id uuid NOT NULL REFERENCES public."maintenanceResults"(id) ON DELETE CASCADE,
+  signer_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  printed_name text NOT NULL,
+  meaning text NOT NULL CHECK (meaning IN ('performed', 'reviewed', 'approved')),
+  content_hash text NOT NULL,
+  signed_at timestamptz NOT NULL DEFAULT now(),
+  invalidated_at timestamptz,
+  invalidated_reason text
+);
+
+CREATE INDEX IF NOT EXISTS idx_result_signatures_result_id
+  ON public.result_signatures(result_id);
+
+-- One standing signature per meaning; re-signing is possible once it is invalidated
+CREATE UNIQUE INDEX IF NOT EXISTS idx_result_signatures_active_meaning
+  ON public.result_signatures(result_id, meaning)
+  WHERE invalidated_at IS NULL;
+
+ALTER TABLE public.result_signatures ENABLE ROW LEVEL SECURITY;
+
+-- Readable by the org; no insert, update or delete policies, so only the
+-- signing API can create them
+DROP POLICY IF EXISTS "Org members can view result signatures" ON public.result_signatures;
+CREATE POLICY "Org members can view result signatures" ON public.result_signatures
+  FOR SELECT TO authenticated
+  USING (org_id = public.get_user_org_id());
+
+-- The hash, organization and time come from the database, not the caller
+CREATE OR REPLACE FUNCTION public.stamp_result_signature()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_result public."maintenanceResults";
+BEGIN
+  SELECT * INTO v_result FROM public."maintenanceResults" WHERE id = NEW.result_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Result % not found', NEW.result_id;
+  END IF;
+
+  NEW.org_id := v_result.org_id;
+  NEW.content_hash := public.result_content_hash(v_result);
+  NEW.signed_at := now();
+  NEW.invalidated_at := NULL;
+  NEW.invalidated_reason := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS stamp_result_signature ON public.result_signatures;
+CREATE TRIGGER stamp_result_signature
+  BEFORE INSERT ON public.result_signatures
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_result_signature();
+
+-- A signature can only ever be invalidated, once
+CREATE OR REPLACE FUNCTION public.protect_result_signature()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.invalidated_at IS NOT NULL
+     OR NEW.invalidated_at IS NULL
+     OR (to_jsonb(NEW) - 'invalidated_at' - 'invalidated_reason')
+        IS DISTINCT FROM (to_jsonb(OLD) - 'invalidated_at' - 'invalidated_reason') THEN
+    RAISE EXCEPTION 'Signatures cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_result_signature ON public.result_signatures;
+CREATE TRIGGER protect_result_signature
+  BEFORE UPDATE ON public.result_signatures
+  FOR EACH ROW EXECUTE FUNCTION public.protect_result_signature();
+
+-- ============================================================================
+-- STEP 3: Edits Invalidate Signatures
+-- ============================================================================
+-- Runs as owner: signers' rows are not writable by the editor
+CREATE OR REPLACE FUNCTION public.invalidate_result_signatures()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF public.result_content_hash(NEW) IS DISTINCT FROM public.result_content_hash(OLD) THEN
+    UPDATE public.result_signatures
+    SET invalidated_at = now(),
+        invalidated_reason = 'Result edited after signing'
+    WHERE result_id = NEW.id AND invalidated_at IS NULL;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS invalidate_result_signatures ON public."maintenanceResults";
+CREATE TRIGGER invalidate_result_signatures
+  AFTER UPDATE ON public."maintenanceResults"
+  FOR EACH ROW EXECUTE FUNCTION public.invalidate_result_signatures();
+
+-- ============================================================================
+-- STEP 4: Signature Listing
+-- ============================================================================
+-- A signature is valid while it stands and its hash still matches the result,
+-- so a change made around the trigger is caught as well
+CREATE OR REPLACE FUNCTION public.list_result_signatures(p_result_id uuid)
+RETURNS TABLE (
+  id uuid,
+  result_id uuid,
+  signer_id uuid,
+  printed_name text,
+  meaning text,
+  content_hash text,
+  signed_at timestamptz,
+  invalidated_at timestamptz,
+  invalidated_reason text,
+  is_valid boolean
+) AS $$
+  SELECT
+    s.id,
+    s.result_id,
+    s.signer_id,
+    s.printed_name,
+    s.meaning,
+    s.content_hash,
+    s.signed_at,
+    s.invalidated_at,
+    s.invalidated_reason,
+    s.invalidated_at IS NULL AND s.content_hash = public.result_content_hash(r) AS is_valid
+  FROM public.result_signatures s
+  JOIN public."maintenanceResults" r ON r.id = s.result_id
+  WHERE s.result_id = p_result_id
+  ORDER BY s.signed_at
+$$ LANGUAGE sql STABLE SET search_path = public;
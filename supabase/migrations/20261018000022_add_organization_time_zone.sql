@@ -0,0 +1,13 @@
+-- Migration: Organization time zone for server-side scheduling
+-- Version: 20261018000022
+--
+-- The browser plans due dates in its own local time and stores local midnight.
+-- The horizon job runs in a UTC container, so it needs the organization's zone
+-- to land on the same calendar days (weekdays, month ends, working-day shifts).
+-- NULL plans in UTC.
+
+-- ============================================================================
+-- STEP 1: Time Zone Column
+-- ============================================================================
+ALTER TABLE public.organizations
+  ADD COLUMN IF NOT EXISTS timezone text;
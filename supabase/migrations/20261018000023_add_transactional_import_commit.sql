@@ -0,0 +1,117 @@
+-- Migration: Transactional instrument import commit
+-- Version: 20261018000023
+--
+-- An import used to be written by the browser one step at a time (batch,
+-- instruments, configurations, then schedules per configuration) and undone
+-- with roll_back_instrument_import when a later step failed. A dropped
+-- connection between two steps left a half-written batch behind.
+--
+-- commit_instrument_import takes the rows the application computed (ids
+-- included, so schedules can point at their instrument) and writes the whole
+-- batch in one transaction: either everything is imported or nothing is.
+
+-- ============================================================================
+-- STEP 1: Commit Function
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.commit_instrument_import(
+  p_file_name text,
+  p_instruments jsonb,
+  p_configurations jsonb,
+  p_schedules jsonb
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_import_id uuid;
+  v_instruments integer;
+  v_schedules integer;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_instruments, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'There are no instruments to import';
+  END IF;
+
+  INSERT INTO public.instrument_imports (file_name, created_by)
+  VALUES (p_file_name, auth.uid())
+  RETURNING id INTO v_import_id;
+
+  INSERT INTO public.instruments (
+    id, "eqpId", "instrumentType", make, model, "serialNumber", location, location_id,
+    user_id, import_id, "maintenanceType", frequency, "scheduleDate", "nextMaintenanceDate",
+    "imageId", "imageUrl", "maintenanceBy", "vendorName", "vendorContact"
+  )
+  SELECT
+    (e.elem->>'id')::uuid,
+    e.elem->>'eqpId',
+    e.elem->>'instrumentType',
+    COALESCE(e.elem->>'make', ''),
+    e.elem->>'model',
+    e.elem->>'serialNumber',
+    e.elem->>'location',
+    NULLIF(e.elem->>'location_id', '')::uuid,
+    auth.uid(),
+    v_import_id,
+    e.elem->>'maintenanceType',
+    e.elem->>'frequency',
+    (e.elem->>'scheduleDate')::timestamptz,
+    (e.elem->>'nextMaintenanceDate')::timestamptz,
+    e.elem->>'imageId',
+    COALESCE(e.elem->>'imageUrl', ''),
+    e.elem->>'maintenanceBy',
+    e.elem->>'vendorName',
+    e.elem->>'vendorContact'
+  FROM jsonb_array_elements(p_instruments) AS e(elem);
+  GET DIAGNOSTICS v_instruments = ROW_COUNT;
+
+  INSERT INTO public.maintenance_configurations (
+    id, instrument_id, maintenance_type, frequency, recurrence_rule, non_working_day_shift,
+    schedule_date, template_id, user_id, "maintenanceBy", "vendorName", "vendorContact"
+  )
+  SELECT
+    (e.elem->>'id')::uuid,
+    (e.elem->>'instrument_id')::uuid,
+    e.elem->>'maintenance_type',
+    e.elem->>'frequency',
+    NULLIF(e.elem->>'recurrence_rule', ''),
+    COALESCE(e.elem->>'non_working_day_shift', 'none'),
+    (e.elem->>'schedule_date')::timestamptz,
+    NULLIF(e.elem->>'template_id', '')::uuid,
+    auth.uid(),
+    e.elem->>'maintenanceBy',
+    e.elem->>'vendorName',
+    e.elem->>'vendorContact'
+  FROM jsonb_array_elements(COALESCE(p_configurations, '[]'::jsonb)) AS e(elem);
+
+  INSERT INTO public."maintenanceSchedules" (
+    "instrumentId", "dueDate", nominal_due_date, type, description, status,
+    template_id, user_id, "maintenanceBy", "vendorName", "vendorContact", is_last_of_year
+  )
+  SELECT
+    (e.elem->>'instrumentId')::uuid,
+    (e.elem->>'dueDate')::timestamptz,
+    (e.elem->>'nominal_due_date')::timestamptz,
+    e.elem->>'type',
+    COALESCE(e.elem->>'description', 'Scheduled ' || (e.elem->>'type')),
+    'Scheduled',
+    NULLIF(e.elem->>'template_id', '')::uuid,
+    auth.uid(),
+    COALESCE(e.elem->>'maintenanceBy', 'internal'),
+    e.elem->>'vendorName',
+    e.elem->>'vendorContact',
+    COALESCE((e.elem->>'is_last_of_year')::boolean, false)
+  FROM jsonb_array_elements(COALESCE(p_schedules, '[]'::jsonb)) AS e(elem);
+  GET DIAGNOSTICS v_schedules = ROW_COUNT;
+
+  UPDATE public.instrument_imports
+  SET status = 'committed', instrument_count = v_instruments, schedule_count = v_schedules
+  WHERE id = v_import_id;
+
+  RETURN jsonb_build_object(
+    'importId', v_import_id,
+    'instrumentCount', v_instruments,
+    'scheduleCount', v_schedules
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Runs with the caller's RLS: org_id is stamped by assign_org_id, and the
+-- feature and scope policies decide whether the caller may add each row
+GRANT EXECUTE ON FUNCTION public.commit_instrument_import(text, jsonb, jsonb, jsonb) TO authenticated;
@@ -0,0 +1,44 @@
+-- Migration: Working calendars keyed by location
+-- Version: 20261018000024
+--
+-- Location calendars were matched on the instrument's location text, so a
+-- calendar only applied to instruments at exactly that place. With the
+-- location tree a site or building calendar should also reach the rooms and
+-- benches under it, which needs the location itself rather than its path.
+-- location stays as the path for display and follows location_id, as on
+-- instruments.
+
+-- ============================================================================
+-- STEP 1: Location Reference
+-- ============================================================================
+ALTER TABLE public.working_calendars
+  ADD COLUMN IF NOT EXISTS location_id uuid REFERENCES public.locations(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_working_calendars_location_id ON public.working_calendars(location_id);
+
+UPDATE public.working_calendars c
+SET location_id = l.id
+FROM public.locations l
+WHERE c.location_id IS NULL
+  AND c.location IS NOT NULL
+  AND l.org_id IS NOT DISTINCT FROM c.org_id
+  AND public.normalize_location_key(public.location_path(l.id)) = public.normalize_location_key(c.location);
+
+-- Same rules as instruments: text from older writers is resolved to a
+-- location, and the text is rewritten to the location's path
+DROP TRIGGER IF EXISTS sync_instrument_location ON public.working_calendars;
+CREATE TRIGGER sync_instrument_location
+  BEFORE INSERT OR UPDATE OF location_id, location ON public.working_calendars
+  FOR EACH ROW EXECUTE FUNCTION public.sync_instrument_location();
+
+-- ============================================================================
+-- STEP 2: Own Organization's Locations Only
+-- ============================================================================
+DROP POLICY IF EXISTS "Org members can access working calendars" ON public.working_calendars;
+CREATE POLICY "Org members can access working calendars" ON public.working_calendars
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id())
+  WITH CHECK (
+    org_id = public.get_user_org_id()
+    AND public.is_org_row('locations', location_id)
+  );
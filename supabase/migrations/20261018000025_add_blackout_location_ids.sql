@@ -0,0 +1,41 @@
+-- Migration: Blackout periods keyed by location
+-- Version: 20261018000025
+--
+-- A location blackout was matched on the instrument's location text, so a
+-- site shutdown missed every room and bench under the site. Like working
+-- calendars (20261018000024) it now points at the location and covers
+-- everything inside it; location stays as the path for display.
+
+-- ============================================================================
+-- STEP 1: Location Reference
+-- ============================================================================
+ALTER TABLE public.blackout_periods
+  ADD COLUMN IF NOT EXISTS location_id uuid REFERENCES public.locations(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_blackout_periods_location_id ON public.blackout_periods(location_id);
+
+UPDATE public.blackout_periods b
+SET location_id = l.id
+FROM public.locations l
+WHERE b.location_id IS NULL
+  AND b.location IS NOT NULL
+  AND l.org_id IS NOT DISTINCT FROM b.org_id
+  AND public.normalize_location_key(public.location_path(l.id)) = public.normalize_location_key(b.location);
+
+DROP TRIGGER IF EXISTS sync_instrument_location ON public.blackout_periods;
+CREATE TRIGGER sync_instrument_location
+  BEFORE INSERT OR UPDATE OF location_id, location ON public.blackout_periods
+  FOR EACH ROW EXECUTE FUNCTION public.sync_instrument_location();
+
+-- ============================================================================
+-- STEP 2: Own Organization's Locations and Instruments Only
+-- ============================================================================
+DROP POLICY IF EXISTS "Org members can access blackout periods" ON public.blackout_periods;
+CREATE POLICY "Org members can access blackout periods" ON public.blackout_periods
+  FOR ALL TO authenticated
+  USING (org_id = public.get_user_org_id())
+  WITH CHECK (
+    org_id = public.get_user_org_id()
+    AND public.is_org_row('instruments', instrument_id)
+    AND public.is_org_row('locations', location_id)
+  );
@@ -0,0 +1,57 @@
+-- Migration: Locks for the scheduled job routes
+-- Version: 20261018000026
+--
+-- The horizon route kept "a run is in progress" in a module variable, which
+-- only holds within one server process: a second instance, or a restart in
+-- the middle of a run, let two runs insert the same schedules. The lock now
+-- lives in the database.
+--
+-- An advisory lock would end with the request that took it (PostgREST runs
+-- each call in its own transaction), so a run holds a row instead. The row
+-- expires, so a run that dies without releasing it does not block the job
+-- for good.
+
+-- ============================================================================
+-- STEP 1: Lock Table
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.job_locks (
+  name text PRIMARY KEY,
+  token uuid NOT NULL,
+  locked_at timestamptz NOT NULL DEFAULT now(),
+  locked_until timestamptz NOT NULL
+);
+
+-- No policies: only the service role (the job routes) reads or writes locks
+ALTER TABLE public.job_locks ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- STEP 2: Acquire and Release
+-- ============================================================================
+-- Returns the token to release the lock with, or NULL while another run holds it
+CREATE OR REPLACE FUNCTION public.acquire_job_lock(p_name text, p_ttl_seconds integer DEFAULT 3600)
+RETURNS uuid AS $$
+DECLARE
+  v_token uuid := gen_random_uuid();
+BEGIN
+  INSERT INTO public.job_locks (name, token, locked_at, locked_until)
+  VALUES (p_name, v_token, now(), now() + make_interval(secs => p_ttl_seconds))
+  ON CONFLICT (name) DO UPDATE
+    SET token = EXCLUDED.token, locked_at = EXCLUDED.locked_at, locked_until = EXCLUDED.locked_until
+    WHERE public.job_locks.locked_until < now();
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+  RETURN v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Only the run that took the lock can release it; after it expired and another
+-- run took it over, this does nothing
+CREATE OR REPLACE FUNCTION public.release_job_lock(p_name text, p_token uuid)
+RETURNS void AS $$
+  DELETE FROM public.job_locks WHERE name = p_name AND token = p_token
+$$ LANGUAGE sql SECURITY INVOKER;
+
+REVOKE EXECUTE ON FUNCTION public.acquire_job_lock(text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_job_lock(text, uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,181 @@
+-- Organization isolation
+-- Run against a local Supabase with `npm run test:db` (supabase test db).
+-- Two sign-ups get an organization each; every check signs in as one of them and
+-- tries to reach the other's data. Everything runs in a transaction that is
+-- rolled back at the end.
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(18);
+
+-- ============================================================================
+-- Fixtures (as postgres, which bypasses RLS like the service role)
+-- ============================================================================
+INSERT INTO auth.users (id, email) VALUES
+  ('a0000000-0000-0000-0000-00000000000a', 'alice@org-a.test'),
+  ('b0000000-0000-0000-0000-00000000000b', 'bob@org-b.test');
+
+-- A sign-up that claims to have been invited into Bob's organization
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES (
+  'c0000000-0000-0000-0000-00000000000c',
+  'carol@org-a.test',
+  jsonb_build_object('org_id', (SELECT org_id FROM public.profiles WHERE id = 'b0000000-0000-0000-0000-00000000000b'), 'role', 'admin')
+);
+
+SELECT isnt(
+  (SELECT org_id FROM public.profiles WHERE id = 'a0000000-0000-0000-0000-00000000000a'),
+  (SELECT org_id FROM public.profiles WHERE id = 'b0000000-0000-0000-0000-00000000000b'),
+  'each sign-up gets its own organization'
+);
+
+SELECT ok(
+  (SELECT org_id IS NULL AND role = 'user' FROM public.profiles WHERE id = 'c0000000-0000-0000-0000-00000000000c'),
+  'org_id in sign-up metadata does not join that organization'
+);
+
+-- Carol is then added to Alice's organization the way /api/admin/users does it
+UPDATE public.profiles
+SET org_id = (SELECT org_id FROM public.profiles WHERE id = 'a0000000-0000-0000-0000-00000000000a')
+WHERE id = 'c0000000-0000-0000-0000-00000000000c';
+
+INSERT INTO public.instruments (id, "eqpId", "instrumentType", model, "serialNumber", location, "scheduleDate", frequency, "nextMaintenanceDate", "imageId", org_id)
+VALUES
+  ('a1000000-0000-0000-0000-000000000001', 'A-001', 'Balance', 'M1', 'SN-A1', 'Lab A', now(), 'Monthly', now(), 'default',
+    (SELECT org_id FROM public.profiles WHERE id = 'a0000000-0000-0000-0000-00000000000a')),
+  ('b1000000-0000-0000-0000-000000000001', 'B-001', 'Balance', 'M1', 'SN-B1', 'Lab B', now(), 'Monthly', now(), 'default',
+    (SELECT org_id FROM public.profiles WHERE id = 'b0000000-0000-0000-0000-00000000000b'));
+
+-- No org_id given: a server-side insert takes the instrument's
+INSERT INTO public."maintenanceSchedules" (id, "instrumentId", "dueDate", type, description, status)
+VALUES ('b2000000-0000-0000-0000-000000000001', 'b1000000-0000-0000-0000-000000000001', now(), 'PM', 'Scheduled PM', 'Scheduled');
+
+SELECT is(
+  (SELECT org_id FROM public."maintenanceSchedules" WHERE id = 'b2000000-0000-0000-0000-000000000001'),
+  (SELECT org_id FROM public.profiles WHERE id = 'b0000000-0000-0000-0000-00000000000b'),
+  'server-side inserts without org_id inherit it from the instrument'
+);
+
+-- Bob's organization id, for Alice to name explicitly once she can no longer read it
+SELECT set_config('test.org_b', (SELECT org_id::text FROM public.profiles WHERE id = 'b0000000-0000-0000-0000-00000000000b'), true);
+
+INSERT INTO public."maintenanceTypes" (name, org_id)
+VALUES ('Org B Only', (SELECT org_id FROM public.profiles WHERE id = 'b0000000-0000-0000-0000-00000000000b'));
+
+-- ============================================================================
+-- Signed in as Alice
+-- ============================================================================
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub":"a0000000-0000-0000-0000-00000000000a","role":"authenticated"}', true);
+
+SELECT results_eq(
+  'SELECT "eqpId" FROM public.instruments ORDER BY "eqpId"',
+  ARRAY['A-001'],
+  'instruments of another organization are not readable'
+);
+
+SELECT is_empty(
+  $$SELECT id FROM public."maintenanceSchedules" WHERE "instrumentId" = 'b1000000-0000-0000-0000-000000000001'$$,
+  'schedules of another organization are not readable'
+);
+
+SELECT is_empty(
+  $$SELECT id FROM public."maintenanceTypes" WHERE name = 'Org B Only'$$,
+  'maintenance types of another organization are not readable'
+);
+
+SELECT is_empty(
+  $$SELECT id FROM public.profiles WHERE id = 'b0000000-0000-0000-0000-00000000000b'$$,
+  'profiles of another organization are not readable'
+);
+
+SELECT lives_ok(
+  $$INSERT INTO public.instruments ("eqpId", "instrumentType", model, "serialNumber", location, "scheduleDate", frequency, "nextMaintenanceDate", "imageId", org_id)
+    VALUES ('A-002', 'Balance', 'M1', 'SN-A2', 'Lab A', now(), 'Monthly', now(), 'default',
+      current_setting('test.org_b')::uuid)$$,
+  'an insert naming another organization is accepted...'
+);
+
+SELECT is(
+  (SELECT org_id FROM public.instruments WHERE "eqpId" = 'A-002'),
+  public.get_user_org_id(),
+  '...but stamped with the caller''s organization'
+);
+
+SELECT is_empty(
+  $$UPDATE public.instruments SET model = 'Tampered' WHERE id = 'b1000000-0000-0000-0000-000000000001' RETURNING id$$,
+  'instruments of another organization cannot be updated'
+);
+
+-- org_id is stamped with Alice's organization, but the instrument is Bob's
+SELECT throws_ok(
+  $$INSERT INTO public."maintenanceSchedules" ("instrumentId", "dueDate", type, description, status)
+    VALUES ('b1000000-0000-0000-0000-000000000001', now(), 'PM', 'Planted PM', 'Scheduled')$$,
+  '42501',
+  'new row violates row-level security policy for table "maintenanceSchedules"',
+  'schedules cannot be attached to an instrument of another organization'
+);
+
+SELECT throws_ok(
+  $$SELECT public.soft_delete_instrument('b1000000-0000-0000-0000-000000000001')$$,
+  'P0001',
+  'Instrument b1000000-0000-0000-0000-000000000001 not found',
+  'instruments of another organization cannot be deleted through the RPC'
+);
+
+SELECT throws_ok(
+  $$UPDATE public.profiles
+    SET org_id = current_setting('test.org_b')::uuid
+    WHERE id = 'a0000000-0000-0000-0000-00000000000a'$$,
+  'P0001',
+  'A profile''s organization can only be changed by the server',
+  'a user cannot move their profile to another organization'
+);
+
+-- ============================================================================
+-- Signed in as Carol (a regular user in Alice's organization)
+-- ============================================================================
+SELECT set_config('request.jwt.claims', '{"sub":"c0000000-0000-0000-0000-00000000000c","role":"authenticated"}', true);
+
+SELECT throws_ok(
+  $$UPDATE public.profiles SET role = 'admin' WHERE id = 'c0000000-0000-0000-0000-00000000000c'$$,
+  'P0001',
+  'Only admins can change roles and permissions',
+  'a regular user cannot make themselves admin'
+);
+
+SELECT lives_ok(
+  $$UPDATE public.profiles SET display_name = 'Carol' WHERE id = 'c0000000-0000-0000-0000-00000000000c'$$,
+  'a user can still update their own display name'
+);
+
+-- ============================================================================
+-- Signed in as Bob
+-- ============================================================================
+SELECT set_config('request.jwt.claims', '{"sub":"b0000000-0000-0000-0000-00000000000b","role":"authenticated"}', true);
+
+SELECT results_eq(
+  'SELECT "eqpId" FROM public.instruments ORDER BY "eqpId"',
+  ARRAY['B-001'],
+  'the other organization sees only its own instruments'
+);
+
+-- ============================================================================
+-- Back as postgres: nothing of Bob's was changed
+-- ============================================================================
+RESET ROLE;
+
+SELECT is(
+  (SELECT model FROM public.instruments WHERE id = 'b1000000-0000-0000-0000-000000000001'),
+  'M1',
+  'the cross-organization update changed nothing'
+);
+
+SELECT results_eq(
+  $$SELECT id FROM public."maintenanceSchedules" WHERE "instrumentId" = 'b1000000-0000-0000-0000-000000000001'$$,
+  ARRAY['b2000000-0000-0000-0000-000000000001'::uuid],
+  'the cross-organization insert added nothing'
+);
+
+SELECT * FROM finish();
+ROLLBACK;